@@ -0,0 +1,86 @@
+import { and, eq } from "drizzle-orm";
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import type * as React from "react";
+import { z } from "zod";
+import { ContactProfile } from "@/components/organization/contact-profile";
+import {
+	Page,
+	PageBody,
+	PageBreadcrumb,
+	PageContent,
+	PageHeader,
+	PagePrimaryBar,
+} from "@/components/ui/custom/page";
+import { getOrganizationById, getSession } from "@/lib/auth/server";
+import { db } from "@/lib/db";
+import { contactTable } from "@/lib/db/schema/tables";
+
+export const metadata: Metadata = {
+	title: "Contact",
+};
+
+export type ContactPageProps = {
+	params: Promise<{ contactId: string }>;
+};
+
+export default async function ContactPage({
+	params,
+}: ContactPageProps): Promise<React.JSX.Element> {
+	const { contactId } = await params;
+
+	const session = await getSession();
+	if (!session?.session.activeOrganizationId) {
+		redirect("/dashboard");
+	}
+
+	const organization = await getOrganizationById(
+		session.session.activeOrganizationId,
+	);
+	if (!organization) {
+		redirect("/dashboard");
+	}
+
+	if (!z.string().uuid().safeParse(contactId).success) {
+		notFound();
+	}
+
+	const [contact] = await db
+		.select({
+			firstName: contactTable.firstName,
+			lastName: contactTable.lastName,
+		})
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.id, contactId),
+				eq(contactTable.organizationId, organization.id),
+			),
+		)
+		.limit(1);
+	if (!contact) {
+		notFound();
+	}
+
+	return (
+		<Page>
+			<PageHeader>
+				<PagePrimaryBar>
+					<PageBreadcrumb
+						segments={[
+							{ label: "Home", href: "/dashboard" },
+							{ label: organization.name, href: "/dashboard/organization" },
+							{ label: "Contacts", href: "/dashboard/organization/contacts" },
+							{ label: `${contact.firstName} ${contact.lastName}` },
+						]}
+					/>
+				</PagePrimaryBar>
+			</PageHeader>
+			<PageBody>
+				<PageContent title={`${contact.firstName} ${contact.lastName}`}>
+					<ContactProfile contactId={contactId} />
+				</PageContent>
+			</PageBody>
+		</Page>
+	);
+}
@@ -0,0 +1,55 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import type * as React from "react";
+import { DuplicateReviewQueue } from "@/components/organization/duplicate-review-queue";
+import {
+	Page,
+	PageBody,
+	PageBreadcrumb,
+	PageContent,
+	PageHeader,
+	PagePrimaryBar,
+} from "@/components/ui/custom/page";
+import { getOrganizationById, getSession } from "@/lib/auth/server";
+import { isOrganizationAdmin } from "@/lib/auth/utils";
+
+export const metadata: Metadata = {
+	title: "Duplicates",
+};
+
+export default async function DuplicatesPage(): Promise<React.JSX.Element> {
+	const session = await getSession();
+	if (!session?.session.activeOrganizationId) {
+		redirect("/dashboard");
+	}
+
+	const organization = await getOrganizationById(
+		session.session.activeOrganizationId,
+	);
+	if (!organization) {
+		redirect("/dashboard");
+	}
+
+	return (
+		<Page>
+			<PageHeader>
+				<PagePrimaryBar>
+					<PageBreadcrumb
+						segments={[
+							{ label: "Home", href: "/dashboard" },
+							{ label: organization.name, href: "/dashboard/organization" },
+							{ label: "Duplicates" },
+						]}
+					/>
+				</PagePrimaryBar>
+			</PageHeader>
+			<PageBody>
+				<PageContent title="Duplicates">
+					<DuplicateReviewQueue
+						isAdmin={isOrganizationAdmin(organization, session.user)}
+					/>
+				</PageContent>
+			</PageBody>
+		</Page>
+	);
+}
@@ -0,0 +1,49 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import type * as React from "react";
+import { ConversationInbox } from "@/components/organization/conversation-inbox";
+import {
+	Page,
+	PageBody,
+	PageBreadcrumb,
+	PageHeader,
+	PagePrimaryBar,
+} from "@/components/ui/custom/page";
+import { getOrganizationById, getSession } from "@/lib/auth/server";
+
+export const metadata: Metadata = {
+	title: "Inbox",
+};
+
+export default async function InboxPage(): Promise<React.JSX.Element> {
+	const session = await getSession();
+	if (!session?.session.activeOrganizationId) {
+		redirect("/dashboard");
+	}
+
+	const organization = await getOrganizationById(
+		session.session.activeOrganizationId,
+	);
+	if (!organization) {
+		redirect("/dashboard");
+	}
+
+	return (
+		<Page>
+			<PageHeader>
+				<PagePrimaryBar>
+					<PageBreadcrumb
+						segments={[
+							{ label: "Home", href: "/dashboard" },
+							{ label: organization.name, href: "/dashboard/organization" },
+							{ label: "Inbox" },
+						]}
+					/>
+				</PagePrimaryBar>
+			</PageHeader>
+			<PageBody disableScroll className="overflow-hidden p-0">
+				<ConversationInbox />
+			</PageBody>
+		</Page>
+	);
+}
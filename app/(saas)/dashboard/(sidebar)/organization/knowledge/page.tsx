@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import type * as React from "react";
+import { KnowledgeDocuments } from "@/components/organization/knowledge-documents";
+import {
+	Page,
+	PageBody,
+	PageBreadcrumb,
+	PageContent,
+	PageHeader,
+	PagePrimaryBar,
+} from "@/components/ui/custom/page";
+import { getOrganizationById, getSession } from "@/lib/auth/server";
+
+export const metadata: Metadata = {
+	title: "Knowledge base",
+};
+
+export default async function KnowledgePage(): Promise<React.JSX.Element> {
+	const session = await getSession();
+	if (!session?.session.activeOrganizationId) {
+		redirect("/dashboard");
+	}
+
+	const organization = await getOrganizationById(
+		session.session.activeOrganizationId,
+	);
+	if (!organization) {
+		redirect("/dashboard");
+	}
+
+	return (
+		<Page>
+			<PageHeader>
+				<PagePrimaryBar>
+					<PageBreadcrumb
+						segments={[
+							{ label: "Home", href: "/dashboard" },
+							{ label: organization.name, href: "/dashboard/organization" },
+							{ label: "Knowledge base" },
+						]}
+					/>
+				</PagePrimaryBar>
+			</PageHeader>
+			<PageBody>
+				<PageContent title="Knowledge base">
+					<KnowledgeDocuments />
+				</PageContent>
+			</PageBody>
+		</Page>
+	);
+}
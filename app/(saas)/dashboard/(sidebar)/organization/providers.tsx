@@ -2,6 +2,7 @@
 
 import type * as React from "react";
 import { ActiveOrganizationProvider } from "@/components/active-organization-provider";
+import { useRealtimeEvents } from "@/hooks/use-realtime-events";
 import type { getOrganizationById } from "@/lib/auth/server";
 
 export function OrganizationProviders({
@@ -10,6 +11,9 @@ export function OrganizationProviders({
 }: React.PropsWithChildren<{
 	organization: NonNullable<Awaited<ReturnType<typeof getOrganizationById>>>;
 }>): React.JSX.Element {
+	// Live conversation updates for every page of the organization dashboard
+	useRealtimeEvents(organization.id);
+
 	return (
 		<ActiveOrganizationProvider organization={organization}>
 			{children}
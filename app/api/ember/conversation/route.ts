@@ -5,8 +5,12 @@ import {
 	conversationMessageTable,
 	conversationTable,
 } from "@/lib/db/schema/tables";
+import { applyAfterHoursPolicy } from "@/lib/ember/canales/after-hours";
+import { channelManager } from "@/lib/ember/canales/manager";
 import { processMessage } from "@/lib/ember/core/engine";
 import { logger } from "@/lib/logger";
+import { publishRealtimeEvent, toRealtimeMessage } from "@/lib/realtime/events";
+import { emitMessageReceived } from "@/lib/webhooks/events";
 
 /**
  * Ember Conversation API
@@ -54,14 +58,32 @@ export async function POST(req: NextRequest) {
 		}
 
 		// Save incoming message
-		await db.insert(conversationMessageTable).values({
-			conversationId,
-			direction: "inbound",
-			role: "user",
-			content: message,
-			contentType: "text",
-			channel: channel || "web",
-		} as unknown as typeof conversationMessageTable.$inferInsert);
+		const [savedMessage] = await db
+			.insert(conversationMessageTable)
+			.values({
+				conversationId,
+				direction: "inbound",
+				role: "user",
+				content: message,
+				contentType: "text",
+				channel: channel || "web",
+			} as unknown as typeof conversationMessageTable.$inferInsert)
+			.returning();
+
+		if (savedMessage) {
+			await publishRealtimeEvent({
+				type: "message.created",
+				organizationId: conversation.organizationId,
+				conversationId,
+				contactId: conversation.contactId,
+				message: toRealtimeMessage(savedMessage),
+			});
+			await emitMessageReceived(
+				conversation.organizationId,
+				conversation.contactId,
+				savedMessage,
+			);
+		}
 
 		// Update conversation
 		await db
@@ -72,6 +94,33 @@ export async function POST(req: NextRequest) {
 			})
 			.where(eq(conversationTable.id, conversationId));
 
+		// Web chat without a channel config always gets an AI reply
+		const config = await channelManager.getChannelConfig(
+			conversation.organizationId,
+			conversation.channel,
+		);
+		if (config && !config.autoReply) {
+			return NextResponse.json(
+				{ success: true, response: null, actions: [], creditsUsed: 0 },
+				{ status: 200 },
+			);
+		}
+		if (config) {
+			const afterHours = await applyAfterHoursPolicy(conversationId, config);
+			if (!afterHours.aiReply) {
+				return NextResponse.json(
+					{
+						success: true,
+						response: null,
+						actions: [],
+						creditsUsed: 0,
+						afterHours: afterHours.action,
+					},
+					{ status: 200 },
+				);
+			}
+		}
+
 		// Process message with Ember Core
 		const result = await processMessage({
 			conversationId,
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { startScheduledDuplicateScans } from "@/lib/ember/memoria/duplicates";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+
+/**
+ * Daily duplicate scan, called by Vercel Cron. Queues a scan job per
+ * organization; the job worker runs them in batches.
+ * Authorization: Bearer CRON_SECRET
+ */
+
+export async function GET(req: NextRequest) {
+	if (
+		!env.CRON_SECRET ||
+		req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+	) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	try {
+		// One scan per day, even when the cron fires twice
+		const runId = new Date().toISOString().slice(0, 10);
+		const started = await startScheduledDuplicateScans(runId);
+		return NextResponse.json({ started });
+	} catch (error) {
+		logger.error({ error }, "Failed to start duplicate scans");
+		return NextResponse.json(
+			{ error: "Failed to start duplicate scans" },
+			{ status: 500 },
+		);
+	}
+}
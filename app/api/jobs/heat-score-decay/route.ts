@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+	pruneContactScoreHistory,
+	startHeatScoreDecay,
+} from "@/lib/ember/memoria/scoring";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+
+/**
+ * Nightly heat score decay, called by Vercel Cron. Starts a re-scoring run
+ * per organization whose model has decaying signals; the job worker runs
+ * them in batches, then prunes the old score history.
+ * Authorization: Bearer CRON_SECRET
+ */
+
+export async function GET(req: NextRequest) {
+	if (
+		!env.CRON_SECRET ||
+		req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+	) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	try {
+		// One pass per day, even when the cron fires twice
+		const runKey = new Date().toISOString().slice(0, 10);
+		const started = await startHeatScoreDecay(runKey);
+		const pruned = await pruneContactScoreHistory();
+		return NextResponse.json({ started, pruned });
+	} catch (error) {
+		logger.error({ error }, "Failed to start heat score decay");
+		return NextResponse.json(
+			{ error: "Failed to start heat score decay" },
+			{ status: 500 },
+		);
+	}
+}
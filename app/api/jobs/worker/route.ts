@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { jobsConfig } from "@/config/jobs.config";
+import { env } from "@/lib/env";
+import { drainQueue } from "@/lib/jobs/worker";
+import { logger } from "@/lib/logger";
+
+/**
+ * Job worker endpoint, called every minute by Vercel Cron
+ * Authorization: Bearer CRON_SECRET
+ */
+
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+	if (
+		!env.CRON_SECRET ||
+		req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+	) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	try {
+		const processed = await drainQueue(jobsConfig.cronBudgetMs);
+		return NextResponse.json({ processed });
+	} catch (error) {
+		logger.error({ error }, "Failed to run job worker");
+		return NextResponse.json(
+			{ error: "Failed to run job worker" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,95 @@
+import { assertUserIsOrgMember, getSession } from "@/lib/auth/server";
+import { logger } from "@/lib/logger";
+import type { RealtimeEvent } from "@/lib/realtime/events";
+import { subscribeToOrganization } from "@/lib/realtime/subscriber";
+
+/**
+ * Server-sent events for the active organization's conversations
+ * (new messages, delivery status changes and transfers).
+ *
+ * A route handler rather than a tRPC subscription so the stream works with the
+ * plain HTTP batch link used by the client.
+ */
+
+export const dynamic = "force-dynamic";
+
+/** Keeps proxies from closing idle streams */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export async function GET(req: Request) {
+	const session = await getSession();
+	if (!session) {
+		return Response.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	const organizationId = session.session.activeOrganizationId;
+	if (!organizationId) {
+		return Response.json({ error: "No active organization" }, { status: 400 });
+	}
+
+	try {
+		await assertUserIsOrgMember(organizationId, session.user.id);
+	} catch {
+		return Response.json({ error: "Forbidden" }, { status: 403 });
+	}
+
+	const encoder = new TextEncoder();
+	let cleanup: (() => void) | undefined;
+
+	const stream = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const send = (chunk: string) => {
+				try {
+					controller.enqueue(encoder.encode(chunk));
+				} catch {
+					// Stream already closed
+					cleanup?.();
+				}
+			};
+
+			const unsubscribe = await subscribeToOrganization(
+				organizationId,
+				(event: RealtimeEvent) => {
+					send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+				},
+			);
+
+			const heartbeat = setInterval(
+				() => send(": heartbeat\n\n"),
+				HEARTBEAT_INTERVAL_MS,
+			);
+
+			cleanup = () => {
+				clearInterval(heartbeat);
+				unsubscribe();
+				cleanup = undefined;
+			};
+
+			req.signal.addEventListener("abort", () => {
+				cleanup?.();
+				try {
+					controller.close();
+				} catch {
+					// Already closed
+				}
+			});
+
+			// Tell the browser how long to wait before reconnecting
+			send("retry: 3000\n\n");
+		},
+		cancel() {
+			cleanup?.();
+		},
+	});
+
+	logger.debug({ organizationId }, "Realtime stream opened");
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+			"X-Accel-Buffering": "no",
+		},
+	});
+}
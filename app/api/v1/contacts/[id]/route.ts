@@ -0,0 +1,36 @@
+import { apiJson, apiRoute, parseBody } from "@/lib/api/handler";
+import {
+	deleteApiContact,
+	getApiContact,
+	updateApiContact,
+} from "@/lib/api/v1/contacts";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import { apiUpdateContactSchema } from "@/schemas/api.schema";
+
+type Params = { id: string };
+
+export const GET = apiRoute<Params>(
+	ApiKeyScope.contactsRead,
+	async (_req, { apiKey, params }) =>
+		apiJson(await getApiContact(apiKey.organizationId, params.id)),
+);
+
+export const PATCH = apiRoute<Params>(
+	ApiKeyScope.contactsWrite,
+	async (req, { apiKey, params }) =>
+		apiJson(
+			await updateApiContact(
+				apiKey.organizationId,
+				params.id,
+				await parseBody(req, apiUpdateContactSchema),
+			),
+		),
+);
+
+export const DELETE = apiRoute<Params>(
+	ApiKeyScope.contactsWrite,
+	async (_req, { apiKey, params }) => {
+		await deleteApiContact(apiKey.organizationId, params.id);
+		return new Response(null, { status: 204 });
+	},
+);
@@ -0,0 +1,28 @@
+import { apiJson, apiRoute, parseBody, parseQuery } from "@/lib/api/handler";
+import { createApiContact, listApiContacts } from "@/lib/api/v1/contacts";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import {
+	apiCreateContactSchema,
+	apiListContactsSchema,
+} from "@/schemas/api.schema";
+
+export const GET = apiRoute(ApiKeyScope.contactsRead, async (req, { apiKey }) =>
+	apiJson(
+		await listApiContacts(
+			apiKey.organizationId,
+			parseQuery(req, apiListContactsSchema),
+		),
+	),
+);
+
+export const POST = apiRoute(
+	ApiKeyScope.contactsWrite,
+	async (req, { apiKey }) =>
+		apiJson(
+			await createApiContact(
+				apiKey.organizationId,
+				await parseBody(req, apiCreateContactSchema),
+			),
+			201,
+		),
+);
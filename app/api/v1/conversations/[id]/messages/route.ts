@@ -0,0 +1,16 @@
+import { apiJson, apiRoute, parseQuery } from "@/lib/api/handler";
+import { listApiConversationMessages } from "@/lib/api/v1/conversations";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import { apiPageQuerySchema } from "@/schemas/api.schema";
+
+export const GET = apiRoute<{ id: string }>(
+	ApiKeyScope.conversationsRead,
+	async (req, { apiKey, params }) =>
+		apiJson(
+			await listApiConversationMessages(
+				apiKey.organizationId,
+				params.id,
+				parseQuery(req, apiPageQuerySchema),
+			),
+		),
+);
@@ -0,0 +1,9 @@
+import { apiJson, apiRoute } from "@/lib/api/handler";
+import { getApiConversation } from "@/lib/api/v1/conversations";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+
+export const GET = apiRoute<{ id: string }>(
+	ApiKeyScope.conversationsRead,
+	async (_req, { apiKey, params }) =>
+		apiJson(await getApiConversation(apiKey.organizationId, params.id)),
+);
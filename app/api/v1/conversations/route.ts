@@ -0,0 +1,15 @@
+import { apiJson, apiRoute, parseQuery } from "@/lib/api/handler";
+import { listApiConversations } from "@/lib/api/v1/conversations";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import { apiListConversationsSchema } from "@/schemas/api.schema";
+
+export const GET = apiRoute(
+	ApiKeyScope.conversationsRead,
+	async (req, { apiKey }) =>
+		apiJson(
+			await listApiConversations(
+				apiKey.organizationId,
+				parseQuery(req, apiListConversationsSchema),
+			),
+		),
+);
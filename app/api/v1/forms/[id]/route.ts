@@ -0,0 +1,9 @@
+import { apiJson, apiRoute } from "@/lib/api/handler";
+import { getApiForm } from "@/lib/api/v1/forms";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+
+export const GET = apiRoute<{ id: string }>(
+	ApiKeyScope.formsRead,
+	async (_req, { apiKey, params }) =>
+		apiJson(await getApiForm(apiKey.organizationId, params.id)),
+);
@@ -0,0 +1,13 @@
+import { apiJson, apiRoute, parseQuery } from "@/lib/api/handler";
+import { listApiForms } from "@/lib/api/v1/forms";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import { apiListFormsSchema } from "@/schemas/api.schema";
+
+export const GET = apiRoute(ApiKeyScope.formsRead, async (req, { apiKey }) =>
+	apiJson(
+		await listApiForms(
+			apiKey.organizationId,
+			parseQuery(req, apiListFormsSchema),
+		),
+	),
+);
@@ -0,0 +1,24 @@
+import { apiJson, apiRoute, parseBody } from "@/lib/api/handler";
+import { getApiLead, updateApiLead } from "@/lib/api/v1/leads";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import { apiUpdateLeadSchema } from "@/schemas/api.schema";
+
+type Params = { id: string };
+
+export const GET = apiRoute<Params>(
+	ApiKeyScope.leadsRead,
+	async (_req, { apiKey, params }) =>
+		apiJson(await getApiLead(apiKey.organizationId, params.id)),
+);
+
+export const PATCH = apiRoute<Params>(
+	ApiKeyScope.leadsWrite,
+	async (req, { apiKey, params }) =>
+		apiJson(
+			await updateApiLead(
+				apiKey.organizationId,
+				params.id,
+				await parseBody(req, apiUpdateLeadSchema),
+			),
+		),
+);
@@ -0,0 +1,23 @@
+import { apiJson, apiRoute, parseBody, parseQuery } from "@/lib/api/handler";
+import { createApiLead, listApiLeads } from "@/lib/api/v1/leads";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import { apiCreateLeadSchema, apiListLeadsSchema } from "@/schemas/api.schema";
+
+export const GET = apiRoute(ApiKeyScope.leadsRead, async (req, { apiKey }) =>
+	apiJson(
+		await listApiLeads(
+			apiKey.organizationId,
+			parseQuery(req, apiListLeadsSchema),
+		),
+	),
+);
+
+export const POST = apiRoute(ApiKeyScope.leadsWrite, async (req, { apiKey }) =>
+	apiJson(
+		await createApiLead(
+			apiKey.organizationId,
+			await parseBody(req, apiCreateLeadSchema),
+		),
+		201,
+	),
+);
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api/openapi";
+
+/**
+ * OpenAPI document of the public REST API (no authentication)
+ */
+export async function GET() {
+	return NextResponse.json(buildOpenApiDocument(), {
+		headers: {
+			"Access-Control-Allow-Origin": "*",
+			"Cache-Control": "public, s-maxage=3600",
+		},
+	});
+}
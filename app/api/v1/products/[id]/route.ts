@@ -0,0 +1,9 @@
+import { apiJson, apiRoute } from "@/lib/api/handler";
+import { getApiProduct } from "@/lib/api/v1/products";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+
+export const GET = apiRoute<{ id: string }>(
+	ApiKeyScope.productsRead,
+	async (_req, { apiKey, params }) =>
+		apiJson(await getApiProduct(apiKey.organizationId, params.id)),
+);
@@ -0,0 +1,13 @@
+import { apiJson, apiRoute, parseQuery } from "@/lib/api/handler";
+import { listApiProducts } from "@/lib/api/v1/products";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import { apiListProductsSchema } from "@/schemas/api.schema";
+
+export const GET = apiRoute(ApiKeyScope.productsRead, async (req, { apiKey }) =>
+	apiJson(
+		await listApiProducts(
+			apiKey.organizationId,
+			parseQuery(req, apiListProductsSchema),
+		),
+	),
+);
@@ -0,0 +1,79 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import {
+	ingestWebhookMessage,
+	parseWebhookBody,
+	queueIncomingReply,
+	verifyWebhookSignature,
+} from "@/lib/ember/canales/webhooks";
+import { triggerWorker } from "@/lib/jobs/worker";
+import { logger } from "@/lib/logger";
+
+/**
+ * Inbound email webhook
+ * Signed with RESEND_WEBHOOK_SECRET (hex HMAC-SHA256 of the body), requests
+ * are refused until it is configured
+ */
+
+interface InboundEmailPayload {
+	id?: string;
+	to?: string | string[];
+}
+
+/**
+ * Extract the receiving address from "Name <address>" or a list of recipients
+ */
+function getRecipientAddress(
+	to: InboundEmailPayload["to"],
+): string | undefined {
+	const first = Array.isArray(to) ? to[0] : to?.split(",")[0];
+	const address = first?.match(/<([^>]+)>/)?.[1] ?? first;
+	return address?.trim().toLowerCase() || undefined;
+}
+
+export async function POST(req: NextRequest) {
+	const body = await req.text();
+
+	if (
+		!verifyWebhookSignature(
+			"email",
+			body,
+			req.headers.get("x-webhook-signature"),
+		)
+	) {
+		return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+	}
+
+	const payload = parseWebhookBody<InboundEmailPayload>(body);
+	if (!payload) {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+
+	try {
+		if (!payload.id) {
+			return NextResponse.json(
+				{ error: "Missing message id" },
+				{ status: 400 },
+			);
+		}
+
+		const { status, message, config } = await ingestWebhookMessage(
+			"email",
+			getRecipientAddress(payload.to),
+			payload,
+		);
+
+		if (message && config) {
+			await queueIncomingReply(message, config);
+			// Start on the reply once the provider has its response
+			after(() => triggerWorker());
+		}
+
+		return NextResponse.json({ received: true, status });
+	} catch (error) {
+		logger.error({ error }, "Failed to process email webhook");
+		return NextResponse.json(
+			{ error: "Failed to process webhook" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,94 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import {
+	type IngestResult,
+	ingestWebhookMessage,
+	parseWebhookBody,
+	queueIncomingReply,
+	verifyMetaSubscription,
+	verifyWebhookSignature,
+} from "@/lib/ember/canales/webhooks";
+import { env } from "@/lib/env";
+import { triggerWorker } from "@/lib/jobs/worker";
+import { logger } from "@/lib/logger";
+
+/**
+ * Instagram Messaging webhook
+ * GET: Meta verification handshake, POST: incoming direct messages
+ */
+
+interface InstagramWebhookPayload {
+	entry?: Array<{
+		id?: string;
+		messaging?: Array<{
+			recipient?: { id?: string };
+			message?: { is_echo?: boolean };
+		}>;
+	}>;
+}
+
+export async function GET(req: NextRequest) {
+	return verifyMetaSubscription(
+		req.nextUrl.searchParams,
+		env.INSTAGRAM_VERIFY_TOKEN,
+	);
+}
+
+export async function POST(req: NextRequest) {
+	const body = await req.text();
+
+	if (
+		!verifyWebhookSignature(
+			"instagram",
+			body,
+			req.headers.get("x-hub-signature-256"),
+		)
+	) {
+		return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+	}
+
+	const payload = parseWebhookBody<InstagramWebhookPayload>(body);
+	if (!payload) {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+
+	try {
+		// Meta batches several entries and messaging events in one request
+		const statuses: IngestResult["status"][] = [];
+		let repliesQueued = false;
+
+		for (const entry of payload.entry ?? []) {
+			for (const messaging of entry.messaging ?? []) {
+				// Ignore reads/reactions and echoes of our own outbound messages
+				if (!messaging.message || messaging.message.is_echo) {
+					continue;
+				}
+
+				// The adapter reads the first event of a payload
+				const result = await ingestWebhookMessage(
+					"instagram",
+					messaging.recipient?.id ?? entry.id,
+					{ entry: [{ ...entry, messaging: [messaging] }] },
+				);
+				statuses.push(result.status);
+
+				if (result.message && result.config) {
+					await queueIncomingReply(result.message, result.config);
+					repliesQueued = true;
+				}
+			}
+		}
+
+		if (repliesQueued) {
+			// Start on the replies once the provider has its response
+			after(() => triggerWorker());
+		}
+
+		return NextResponse.json({ received: true, statuses });
+	} catch (error) {
+		logger.error({ error }, "Failed to process Instagram webhook");
+		return NextResponse.json(
+			{ error: "Failed to process webhook" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,56 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import {
+	ingestWebhookMessage,
+	queueIncomingReply,
+	verifyWebhookSignature,
+} from "@/lib/ember/canales/webhooks";
+import { triggerWorker } from "@/lib/jobs/worker";
+import { logger } from "@/lib/logger";
+
+/**
+ * Twilio SMS webhook (application/x-www-form-urlencoded)
+ */
+
+// Empty TwiML: replies are sent through the REST API, not the webhook response
+const EMPTY_TWIML =
+	'<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+export async function POST(req: NextRequest) {
+	const body = await req.text();
+	const params = Object.fromEntries(new URLSearchParams(body));
+
+	if (
+		!verifyWebhookSignature(
+			"sms",
+			params,
+			req.headers.get("x-twilio-signature"),
+		)
+	) {
+		return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+	}
+
+	try {
+		const { message, config } = await ingestWebhookMessage(
+			"sms",
+			params.To,
+			params,
+		);
+
+		if (message && config) {
+			await queueIncomingReply(message, config);
+			// Start on the reply once the provider has its response
+			after(() => triggerWorker());
+		}
+
+		return new NextResponse(EMPTY_TWIML, {
+			status: 200,
+			headers: { "Content-Type": "text/xml" },
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to process SMS webhook");
+		return NextResponse.json(
+			{ error: "Failed to process webhook" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,147 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import {
+	type MessageDeliveryStatus,
+	MessageDeliveryStatuses,
+} from "@/lib/db/schema/enums";
+import { channelManager } from "@/lib/ember/canales/manager";
+import {
+	type IngestResult,
+	ingestWebhookMessage,
+	parseWebhookBody,
+	queueIncomingReply,
+	verifyMetaSubscription,
+	verifyWebhookSignature,
+} from "@/lib/ember/canales/webhooks";
+import { env } from "@/lib/env";
+import { triggerWorker } from "@/lib/jobs/worker";
+import { logger } from "@/lib/logger";
+
+/**
+ * WhatsApp Business Platform webhook
+ * GET: Meta verification handshake, POST: incoming messages
+ */
+
+interface WhatsAppWebhookChange {
+	value?: {
+		messages?: Array<{ from?: string }>;
+		contacts?: Array<{ wa_id?: string }>;
+		statuses?: Array<{
+			id: string;
+			status: string;
+			errors?: Array<{ title?: string }>;
+		}>;
+		metadata?: { phone_number_id?: string };
+	};
+}
+
+interface WhatsAppWebhookPayload {
+	entry?: Array<{ changes?: WhatsAppWebhookChange[] }>;
+}
+
+/**
+ * Payload of a single message of a change. The adapter reads the first
+ * message of a payload, with the first contact as its sender.
+ */
+function toMessagePayload(
+	change: WhatsAppWebhookChange,
+	message: { from?: string },
+): WhatsAppWebhookPayload {
+	return {
+		entry: [
+			{
+				changes: [
+					{
+						value: {
+							...change.value,
+							messages: [message],
+							contacts: change.value?.contacts?.filter(
+								(contact) => contact.wa_id === message.from,
+							),
+						},
+					},
+				],
+			},
+		],
+	};
+}
+
+function isDeliveryStatus(status: string): status is MessageDeliveryStatus {
+	return MessageDeliveryStatuses.includes(status as MessageDeliveryStatus);
+}
+
+export async function GET(req: NextRequest) {
+	return verifyMetaSubscription(
+		req.nextUrl.searchParams,
+		env.WHATSAPP_VERIFY_TOKEN,
+	);
+}
+
+export async function POST(req: NextRequest) {
+	const body = await req.text();
+
+	if (
+		!verifyWebhookSignature(
+			"whatsapp",
+			body,
+			req.headers.get("x-hub-signature-256"),
+		)
+	) {
+		return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+	}
+
+	const payload = parseWebhookBody<WhatsAppWebhookPayload>(body);
+	if (!payload) {
+		return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+	}
+
+	try {
+		// Meta batches several entries, changes and messages in one request
+		const statuses: IngestResult["status"][] = [];
+		let repliesQueued = false;
+
+		for (const entry of payload.entry ?? []) {
+			for (const change of entry.changes ?? []) {
+				const value = change.value;
+
+				// Status updates (sent/delivered/read/failed) carry no messages
+				for (const status of value?.statuses ?? []) {
+					if (isDeliveryStatus(status.status)) {
+						await channelManager.updateDeliveryStatus(
+							"whatsapp",
+							status.id,
+							status.status,
+							status.errors?.[0]?.title,
+						);
+					}
+				}
+
+				for (const message of value?.messages ?? []) {
+					const result = await ingestWebhookMessage(
+						"whatsapp",
+						value?.metadata?.phone_number_id,
+						toMessagePayload(change, message),
+					);
+					statuses.push(result.status);
+
+					if (result.message && result.config) {
+						await queueIncomingReply(result.message, result.config);
+						repliesQueued = true;
+					}
+				}
+			}
+		}
+
+		if (repliesQueued) {
+			// Start on the replies once the provider has its response
+			after(() => triggerWorker());
+		}
+
+		return NextResponse.json({ received: true, statuses });
+	} catch (error) {
+		logger.error({ error }, "Failed to process WhatsApp webhook");
+		return NextResponse.json(
+			{ error: "Failed to process webhook" },
+			{ status: 500 },
+		);
+	}
+}
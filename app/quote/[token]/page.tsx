@@ -0,0 +1,188 @@
+import { format } from "date-fns";
+import { FileDownIcon } from "lucide-react";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import type * as React from "react";
+import { QuoteResponse } from "@/components/quote/quote-response";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/billing/utils";
+import { QuoteStatus } from "@/lib/db/schema/enums";
+import { getPublicQuote } from "@/lib/ember/quotes/quotes";
+
+type Params = {
+	token: string;
+};
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+	title: "Quote",
+	robots: { index: false, follow: false },
+};
+
+const statusLabels: Record<QuoteStatus, string> = {
+	draft: "Draft",
+	sent: "Awaiting response",
+	accepted: "Accepted",
+	declined: "Declined",
+	expired: "Expired",
+};
+
+/**
+ * Public quote page
+ * Reached from the link sent to the contact, who can accept or decline the quote.
+ */
+export default async function QuotePage({
+	params,
+}: {
+	params: Promise<Params>;
+}): Promise<React.JSX.Element> {
+	const { token } = await params;
+	const quote = await getPublicQuote(token);
+
+	if (!quote) {
+		notFound();
+	}
+
+	const money = (amount: number) => formatCurrency(amount, quote.currency);
+
+	return (
+		<div className="flex min-h-screen justify-center bg-muted/40 px-4 py-12">
+			<Card className="h-fit w-full max-w-3xl">
+				<CardHeader>
+					<div className="flex items-start justify-between gap-4">
+						<div>
+							<CardTitle className="text-xl">Quote {quote.number}</CardTitle>
+							<CardDescription>
+								From {quote.organization.name}
+								{quote.contactName && ` for ${quote.contactName}`}
+							</CardDescription>
+						</div>
+						<Badge
+							variant={
+								quote.status === QuoteStatus.accepted ? "default" : "outline"
+							}
+						>
+							{statusLabels[quote.status]}
+						</Badge>
+					</div>
+					<p className="text-muted-foreground text-sm">
+						{quote.sentAt && `Issued ${format(quote.sentAt, "PP")}`}
+						{quote.validUntil &&
+							` · Valid until ${format(quote.validUntil, "PP")}`}
+					</p>
+				</CardHeader>
+				<CardContent className="space-y-6">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Item</TableHead>
+								<TableHead className="text-right">Qty</TableHead>
+								<TableHead className="text-right">Unit price</TableHead>
+								<TableHead className="text-right">Total</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{quote.items.map((item) => (
+								<TableRow key={item.id}>
+									<TableCell className="whitespace-normal">
+										{item.description}
+										{item.sku && (
+											<span className="block text-muted-foreground text-xs">
+												SKU {item.sku}
+											</span>
+										)}
+									</TableCell>
+									<TableCell className="text-right">{item.quantity}</TableCell>
+									<TableCell className="text-right">
+										{item.compareAtPrice && (
+											<span className="mr-2 text-muted-foreground text-xs line-through">
+												{money(item.compareAtPrice)}
+											</span>
+										)}
+										{money(item.unitPrice)}
+									</TableCell>
+									<TableCell className="text-right">
+										{money(item.total)}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+					<dl className="ml-auto w-full max-w-xs space-y-1 text-sm">
+						<div className="flex justify-between">
+							<dt className="text-muted-foreground">Subtotal</dt>
+							<dd>{money(quote.subtotal)}</dd>
+						</div>
+						{quote.discountTotal > 0 && (
+							<div className="flex justify-between">
+								<dt className="text-muted-foreground">Discount</dt>
+								<dd>-{money(quote.discountTotal)}</dd>
+							</div>
+						)}
+						<div className="flex justify-between border-t pt-1 font-semibold">
+							<dt>Total</dt>
+							<dd>{money(quote.total)}</dd>
+						</div>
+					</dl>
+					{quote.notes && (
+						<p className="whitespace-pre-wrap text-muted-foreground text-sm">
+							{quote.notes}
+						</p>
+					)}
+				</CardContent>
+				<CardFooter className="flex-col items-stretch gap-4">
+					{quote.hasPdf && (
+						<Button asChild variant="outline" className="self-start">
+							<a href={`/quote/${token}/pdf`} target="_blank" rel="noreferrer">
+								<FileDownIcon className="size-4" />
+								Download PDF
+							</a>
+						</Button>
+					)}
+					{quote.status === QuoteStatus.sent && <QuoteResponse token={token} />}
+					{quote.status === QuoteStatus.accepted && (
+						<Alert variant="success">
+							<AlertDescription>
+								Quote accepted
+								{quote.respondedAt && ` on ${format(quote.respondedAt, "PP")}`}.
+								{` ${quote.organization.name} will be in touch with the next steps.`}
+							</AlertDescription>
+						</Alert>
+					)}
+					{quote.status === QuoteStatus.declined && (
+						<Alert>
+							<AlertDescription>This quote was declined.</AlertDescription>
+						</Alert>
+					)}
+					{quote.status === QuoteStatus.expired && (
+						<Alert variant="warning">
+							<AlertDescription>
+								This quote has expired. Contact {quote.organization.name} for an
+								updated quote.
+							</AlertDescription>
+						</Alert>
+					)}
+				</CardFooter>
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,42 @@
+import { eq } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { QuoteStatus } from "@/lib/db/schema/enums";
+import { quoteTable } from "@/lib/db/schema/tables";
+import { getDocumentsBucket } from "@/lib/ember/quotes/quotes";
+import { logger } from "@/lib/logger";
+import { getSignedUrl } from "@/lib/storage";
+
+/**
+ * Quote PDF, redirected to a short-lived signed URL of the private documents bucket
+ */
+export const GET = async (
+	_req: Request,
+	{ params }: { params: Promise<{ token: string }> },
+) => {
+	const { token } = await params;
+
+	const quote = await db.query.quoteTable.findFirst({
+		where: eq(quoteTable.publicToken, token),
+		columns: { status: true, pdfPath: true },
+	});
+
+	if (!quote?.pdfPath || quote.status === QuoteStatus.draft) {
+		return new Response("Not found", { status: 404 });
+	}
+
+	try {
+		const signedUrl = await getSignedUrl(
+			quote.pdfPath,
+			getDocumentsBucket(),
+			60 * 5,
+		);
+
+		return NextResponse.redirect(signedUrl, {
+			headers: { "Cache-Control": "private, max-age=300" },
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to sign quote PDF URL");
+		return new Response("Internal server error", { status: 500 });
+	}
+};
@@ -0,0 +1,224 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { CopyIcon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DatePicker } from "@/components/ui/custom/date-picker";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field } from "@/components/ui/field";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import { ApiKeyScope, ApiKeyScopes } from "@/lib/db/schema/enums";
+import { createApiKeySchema } from "@/schemas/api-key.schema";
+import { trpc } from "@/trpc/client";
+
+export type ApiKeyModalProps = NiceModalHocProps;
+
+function CreatedKey({ apiKey }: { apiKey: string }) {
+	const handleCopy = () => {
+		navigator.clipboard.writeText(apiKey);
+		toast.success("Copied!");
+	};
+
+	return (
+		<div className="space-y-3">
+			<Alert>
+				<AlertDescription>
+					Copy this key now, it won't be shown again.
+				</AlertDescription>
+			</Alert>
+			<div className="flex items-center gap-2">
+				<Input readOnly value={apiKey} className="font-mono text-xs" />
+				<Button
+					type="button"
+					variant="outline"
+					size="icon"
+					onClick={handleCopy}
+				>
+					<CopyIcon className="size-4" />
+					<span className="sr-only">Copy API key</span>
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+export const ApiKeyModal = NiceModal.create<ApiKeyModalProps>(() => {
+	const modal = useEnhancedModal();
+	const utils = trpc.useUtils();
+	const [createdKey, setCreatedKey] = React.useState<string>();
+
+	const createApiKeyMutation = trpc.organization.apiKey.create.useMutation({
+		onSuccess: (data) => {
+			setCreatedKey(data.key);
+			utils.organization.apiKey.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to create API key");
+		},
+	});
+
+	const form = useZodForm({
+		schema: createApiKeySchema,
+		defaultValues: {
+			name: "",
+			scopes: [ApiKeyScope.contactsRead, ApiKeyScope.leadsRead],
+			expiresAt: null,
+		},
+	});
+
+	const onSubmit = form.handleSubmit((data) => {
+		createApiKeyMutation.mutate(data);
+	});
+
+	return (
+		<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+			<DialogContent
+				className="max-w-lg"
+				onAnimationEndCapture={modal.handleAnimationEndCapture}
+				onClose={modal.handleClose}
+			>
+				<DialogHeader>
+					<DialogTitle>Create API key</DialogTitle>
+					<DialogDescription>
+						Keys give access to the REST API of this organization with the
+						selected permissions.
+					</DialogDescription>
+				</DialogHeader>
+
+				{createdKey ? (
+					<>
+						<CreatedKey apiKey={createdKey} />
+						<DialogFooter>
+							<Button type="button" onClick={modal.handleClose}>
+								Done
+							</Button>
+						</DialogFooter>
+					</>
+				) : (
+					<Form {...form}>
+						<form onSubmit={onSubmit} className="space-y-4">
+							<FormField
+								control={form.control}
+								name="name"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Name</FormLabel>
+											<FormControl>
+												<Input
+													placeholder="Website integration"
+													autoComplete="off"
+													{...field}
+												/>
+											</FormControl>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="scopes"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Permissions</FormLabel>
+											<div className="grid grid-cols-2 gap-2">
+												{ApiKeyScopes.map((scope) => (
+													<Label
+														key={scope}
+														className="flex items-center gap-2 font-mono font-normal text-xs"
+													>
+														<Checkbox
+															checked={field.value.includes(scope)}
+															onCheckedChange={(checked) =>
+																field.onChange(
+																	checked
+																		? [...field.value, scope]
+																		: field.value.filter(
+																				(value) => value !== scope,
+																			),
+																)
+															}
+														/>
+														{scope}
+													</Label>
+												))}
+											</div>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="expiresAt"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Expires</FormLabel>
+											<FormControl>
+												<DatePicker
+													className="w-full"
+													placeholder="Never"
+													date={
+														(field.value as Date | null | undefined) ??
+														undefined
+													}
+													onDateChange={(date) => field.onChange(date ?? null)}
+												/>
+											</FormControl>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<DialogFooter>
+								<Button
+									type="button"
+									variant="outline"
+									onClick={modal.handleClose}
+									disabled={createApiKeyMutation.isPending}
+								>
+									Cancel
+								</Button>
+								<Button
+									type="submit"
+									disabled={createApiKeyMutation.isPending}
+									loading={createApiKeyMutation.isPending}
+								>
+									Create key
+								</Button>
+							</DialogFooter>
+						</form>
+					</Form>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+});
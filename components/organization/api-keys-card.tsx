@@ -0,0 +1,178 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { PlusIcon } from "lucide-react";
+import type * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { ApiKeyModal } from "@/components/organization/api-key-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { apiConfig } from "@/config/api.config";
+import { trpc } from "@/trpc/client";
+
+function getKeyState(key: {
+	revokedAt: Date | null;
+	expiresAt: Date | null;
+}): "active" | "revoked" | "expired" {
+	if (key.revokedAt) return "revoked";
+	if (key.expiresAt && key.expiresAt <= new Date()) return "expired";
+	return "active";
+}
+
+/**
+ * Card component for managing the API keys of the organization.
+ * Only rendered for organization admins.
+ */
+export function ApiKeysCard(): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const { data: apiKeys, isLoading } = trpc.organization.apiKey.list.useQuery();
+
+	const revokeApiKeyMutation = trpc.organization.apiKey.revoke.useMutation({
+		onSuccess: () => {
+			toast.success("API key revoked");
+			utils.organization.apiKey.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to revoke API key");
+		},
+	});
+
+	const handleRevoke = (key: { id: string; name: string }) => {
+		NiceModal.show(ConfirmationModal, {
+			title: `Revoke "${key.name}"?`,
+			message:
+				"Requests using this key will be rejected immediately. This can't be undone.",
+			confirmLabel: "Revoke",
+			destructive: true,
+			onConfirm: () => revokeApiKeyMutation.mutate({ id: key.id }),
+		});
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row justify-between">
+				<div className="flex flex-col space-y-1.5">
+					<CardTitle>API keys</CardTitle>
+					<CardDescription>
+						Access contacts, leads, conversations, forms and products from the
+						REST API. See the{" "}
+						<a
+							href={`/api/${apiConfig.version}/openapi.json`}
+							target="_blank"
+							rel="noreferrer"
+							className="underline"
+						>
+							OpenAPI document
+						</a>
+						.
+					</CardDescription>
+				</div>
+				<Button
+					type="button"
+					size="sm"
+					onClick={() => NiceModal.show(ApiKeyModal)}
+				>
+					<PlusIcon className="size-4" />
+					Create key
+				</Button>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<Skeleton className="h-24 w-full" />
+				) : !apiKeys || apiKeys.length === 0 ? (
+					<EmptyText>No API keys yet.</EmptyText>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Name</TableHead>
+								<TableHead>Permissions</TableHead>
+								<TableHead>Last used</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{apiKeys.map((key) => {
+								const state = getKeyState(key);
+								return (
+									<TableRow key={key.id}>
+										<TableCell>
+											<div className="font-medium">{key.name}</div>
+											<div className="font-mono text-muted-foreground text-xs">
+												{key.prefix}…
+											</div>
+											<div className="text-muted-foreground text-xs">
+												Created {format(key.createdAt, "MMM d, yyyy")}
+												{key.createdBy ? ` by ${key.createdBy}` : ""}
+												{key.expiresAt && state === "active"
+													? `, expires ${format(key.expiresAt, "MMM d, yyyy")}`
+													: ""}
+											</div>
+										</TableCell>
+										<TableCell>
+											<div className="flex max-w-64 flex-wrap gap-1">
+												{key.scopes.map((scope) => (
+													<Badge
+														key={scope}
+														variant="outline"
+														className="font-mono text-xs"
+													>
+														{scope}
+													</Badge>
+												))}
+											</div>
+										</TableCell>
+										<TableCell className="text-muted-foreground text-sm">
+											{key.lastUsedAt
+												? formatDistanceToNow(key.lastUsedAt, {
+														addSuffix: true,
+													})
+												: "Never"}
+										</TableCell>
+										<TableCell className="text-right">
+											{state === "active" ? (
+												<Button
+													type="button"
+													variant="ghost"
+													size="sm"
+													className="text-destructive"
+													disabled={revokeApiKeyMutation.isPending}
+													onClick={() => handleRevoke(key)}
+												>
+													Revoke
+												</Button>
+											) : (
+												<Badge variant="secondary">
+													{state === "revoked" ? "Revoked" : "Expired"}
+												</Badge>
+											)}
+										</TableCell>
+									</TableRow>
+								);
+							})}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
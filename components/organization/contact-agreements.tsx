@@ -0,0 +1,289 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { PencilIcon, Trash2Icon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { Button } from "@/components/ui/button";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	ContactAgreementStatus,
+	ContactAgreementStatuses,
+	ContactAgreementType,
+	ContactAgreementTypes,
+} from "@/lib/db/schema/enums";
+import type { ContactAgreement } from "@/lib/ember/memoria/queries";
+import { trpc } from "@/trpc/client";
+
+const agreementTypeLabels: Record<ContactAgreementType, string> = {
+	payment_plan: "Payment plan",
+	delivery_date: "Delivery date",
+	price_agreement: "Price agreement",
+	custom: "Custom",
+};
+
+const agreementStatusLabels: Record<ContactAgreementStatus, string> = {
+	active: "Active",
+	completed: "Completed",
+	cancelled: "Cancelled",
+};
+
+function AgreementRow({
+	agreement,
+	onUpdate,
+	onDelete,
+	isUpdating,
+}: {
+	agreement: ContactAgreement;
+	onUpdate: (data: {
+		description?: string;
+		status?: ContactAgreementStatus;
+	}) => void;
+	onDelete: () => void;
+	isUpdating: boolean;
+}): React.JSX.Element {
+	const [isEditing, setIsEditing] = React.useState(false);
+	const [description, setDescription] = React.useState(agreement.description);
+
+	return (
+		<div className="space-y-2 rounded-md border p-3">
+			<div className="flex items-center gap-2 text-xs">
+				<span className="font-medium text-sm">
+					{agreementTypeLabels[agreement.type]}
+				</span>
+				<span className="text-muted-foreground">
+					{format(agreement.createdAt, "MMM d, yyyy")}
+				</span>
+				<div className="ml-auto flex items-center gap-1">
+					<Select
+						value={agreement.status}
+						disabled={isUpdating}
+						onValueChange={(value) =>
+							onUpdate({ status: value as ContactAgreementStatus })
+						}
+					>
+						<SelectTrigger className="w-32" size="sm">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{ContactAgreementStatuses.map((status) => (
+								<SelectItem key={status} value={status}>
+									{agreementStatusLabels[status]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Button
+						type="button"
+						size="icon"
+						variant="ghost"
+						className="size-7"
+						onClick={() => {
+							setDescription(agreement.description);
+							setIsEditing(true);
+						}}
+					>
+						<PencilIcon className="size-3.5" />
+						<span className="sr-only">Edit agreement</span>
+					</Button>
+					<Button
+						type="button"
+						size="icon"
+						variant="ghost"
+						className="size-7"
+						onClick={onDelete}
+					>
+						<Trash2Icon className="size-3.5" />
+						<span className="sr-only">Delete agreement</span>
+					</Button>
+				</div>
+			</div>
+			{isEditing ? (
+				<form
+					className="space-y-2"
+					onSubmit={(event) => {
+						event.preventDefault();
+						onUpdate({ description: description.trim() });
+						setIsEditing(false);
+					}}
+				>
+					<Textarea
+						rows={2}
+						value={description}
+						onChange={(event) => setDescription(event.target.value)}
+					/>
+					<div className="flex justify-end gap-2">
+						<Button
+							type="button"
+							size="sm"
+							variant="ghost"
+							onClick={() => setIsEditing(false)}
+						>
+							Cancel
+						</Button>
+						<Button
+							type="submit"
+							size="sm"
+							disabled={!description.trim()}
+							loading={isUpdating}
+						>
+							Save
+						</Button>
+					</div>
+				</form>
+			) : (
+				<p className="whitespace-pre-wrap break-words text-sm">
+					{agreement.description}
+				</p>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Agreements made with a contact, added and edited in place
+ */
+export function ContactAgreements({
+	contactId,
+	agreements,
+}: {
+	contactId: string;
+	agreements: ContactAgreement[];
+}): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const [type, setType] = React.useState<ContactAgreementType>(
+		ContactAgreementType.custom,
+	);
+	const [description, setDescription] = React.useState("");
+
+	const invalidate = (): void => {
+		utils.organization.contact.get.invalidate({ id: contactId });
+		utils.organization.contact.timeline.invalidate({ contactId });
+	};
+
+	const createAgreementMutation =
+		trpc.organization.contact.createAgreement.useMutation({
+			onSuccess: () => {
+				toast.success("Agreement added");
+				setDescription("");
+				invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to add agreement");
+			},
+		});
+
+	const updateAgreementMutation =
+		trpc.organization.contact.updateAgreement.useMutation({
+			onSuccess: () => {
+				toast.success("Agreement updated");
+				invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to update agreement");
+			},
+		});
+
+	const deleteAgreementMutation =
+		trpc.organization.contact.deleteAgreement.useMutation({
+			onSuccess: () => {
+				toast.success("Agreement deleted");
+				invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to delete agreement");
+			},
+		});
+
+	return (
+		<div className="space-y-4">
+			<form
+				className="space-y-2"
+				onSubmit={(event) => {
+					event.preventDefault();
+					createAgreementMutation.mutate({
+						contactId,
+						type,
+						description: description.trim(),
+						details: {},
+						status: ContactAgreementStatus.active,
+					});
+				}}
+			>
+				<Textarea
+					placeholder="Describe what was agreed..."
+					rows={2}
+					value={description}
+					onChange={(event) => setDescription(event.target.value)}
+				/>
+				<div className="flex items-center gap-2">
+					<Select
+						value={type}
+						onValueChange={(value) => setType(value as ContactAgreementType)}
+					>
+						<SelectTrigger className="w-44" size="sm">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{ContactAgreementTypes.map((agreementType) => (
+								<SelectItem key={agreementType} value={agreementType}>
+									{agreementTypeLabels[agreementType]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Button
+						type="submit"
+						size="sm"
+						className="ml-auto"
+						disabled={!description.trim()}
+						loading={createAgreementMutation.isPending}
+					>
+						Add agreement
+					</Button>
+				</div>
+			</form>
+
+			{agreements.length === 0 ? (
+				<EmptyText>No agreements yet.</EmptyText>
+			) : (
+				<div className="space-y-2">
+					{agreements.map((agreement) => (
+						<AgreementRow
+							key={agreement.id}
+							agreement={agreement}
+							isUpdating={
+								updateAgreementMutation.isPending &&
+								updateAgreementMutation.variables?.id === agreement.id
+							}
+							onUpdate={(data) =>
+								updateAgreementMutation.mutate({ id: agreement.id, ...data })
+							}
+							onDelete={() =>
+								NiceModal.show(ConfirmationModal, {
+									title: "Delete agreement?",
+									message:
+										"Are you sure you want to delete this agreement? This action cannot be undone.",
+									confirmLabel: "Delete",
+									destructive: true,
+									onConfirm: () =>
+										deleteAgreementMutation.mutate({ id: agreement.id }),
+								})
+							}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
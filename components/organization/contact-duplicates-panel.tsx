@@ -0,0 +1,157 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import Link from "next/link";
+import * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import { Skeleton } from "@/components/ui/skeleton";
+import { trpc } from "@/trpc/client";
+
+export type ContactDuplicatesPanelProps = {
+	contact: {
+		id: string;
+		firstName: string;
+		lastName: string;
+	};
+};
+
+/**
+ * Pending duplicates of a contact from the review queue, merged into it on
+ * confirmation or dismissed as not a duplicate
+ */
+export function ContactDuplicatesPanel({
+	contact,
+}: ContactDuplicatesPanelProps): React.JSX.Element {
+	const utils = trpc.useUtils();
+
+	const { data, isLoading } = trpc.organization.duplicate.list.useQuery({
+		contactId: contact.id,
+	});
+
+	// Queue the duplicates found since the last scan, dismissed pairs stay
+	// dismissed
+	const scanMutation = trpc.organization.duplicate.scanContact.useMutation({
+		onSuccess: ({ queued }) => {
+			if (queued > 0) {
+				utils.organization.duplicate.list.invalidate();
+			}
+		},
+	});
+	const scanContact = scanMutation.mutate;
+	React.useEffect(() => {
+		scanContact({ contactId: contact.id });
+	}, [contact.id, scanContact]);
+
+	const mergeMutation = trpc.organization.duplicate.merge.useMutation({
+		onSuccess: () => {
+			toast.success("Contacts merged");
+			utils.organization.duplicate.list.invalidate();
+			utils.organization.contact.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to merge contacts");
+		},
+	});
+
+	const dismissMutation = trpc.organization.duplicate.dismiss.useMutation({
+		onSuccess: () => {
+			toast.success("Marked as not a duplicate");
+			utils.organization.duplicate.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to dismiss duplicate");
+		},
+	});
+
+	if (isLoading) {
+		return <Skeleton className="h-24 w-full" />;
+	}
+
+	const candidates = data?.items ?? [];
+	if (candidates.length === 0) {
+		return <EmptyText>No possible duplicates of this contact.</EmptyText>;
+	}
+
+	return (
+		<div className="space-y-2">
+			{candidates.map((candidate) => {
+				// The pair is stored in id order, this contact may be either one
+				const duplicate =
+					candidate.contact.id === contact.id
+						? candidate.matchedContact
+						: candidate.contact;
+				const fullName = `${duplicate.firstName} ${duplicate.lastName}`;
+				return (
+					<div
+						key={candidate.id}
+						className="flex flex-col gap-3 rounded-md border p-3 md:flex-row md:items-center"
+					>
+						<div className="min-w-0 flex-1 space-y-0.5 text-sm">
+							<Link
+								className="block truncate font-medium hover:underline"
+								href={`/dashboard/organization/contacts/${duplicate.id}`}
+							>
+								{fullName}
+							</Link>
+							<p className="truncate text-muted-foreground">
+								{[duplicate.email, duplicate.phone, duplicate.company]
+									.filter(Boolean)
+									.join(" · ") || "—"}
+							</p>
+						</div>
+						<div className="flex flex-wrap items-center gap-2 text-xs md:w-64">
+							<Badge
+								variant={candidate.confidence >= 90 ? "default" : "secondary"}
+							>
+								{candidate.confidence}%
+							</Badge>
+							<span className="text-muted-foreground">
+								{candidate.matchReason}
+							</span>
+						</div>
+						<div className="flex shrink-0 gap-2">
+							<Button
+								type="button"
+								size="sm"
+								variant="outline"
+								loading={
+									dismissMutation.isPending &&
+									dismissMutation.variables?.id === candidate.id
+								}
+								onClick={() => dismissMutation.mutate({ id: candidate.id })}
+							>
+								Not a duplicate
+							</Button>
+							<Button
+								type="button"
+								size="sm"
+								loading={
+									mergeMutation.isPending &&
+									mergeMutation.variables?.id === candidate.id
+								}
+								onClick={() =>
+									NiceModal.show(ConfirmationModal, {
+										title: "Merge contacts?",
+										message: `${fullName} will be merged into ${contact.firstName} ${contact.lastName}, with their conversations, notes and agreements. The merge can be undone from the merge history.`,
+										confirmLabel: "Merge",
+										onConfirm: () =>
+											mergeMutation.mutate({
+												id: candidate.id,
+												primaryId: contact.id,
+											}),
+									})
+								}
+							>
+								Merge into this contact
+							</Button>
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import type * as React from "react";
+import { Badge } from "@/components/ui/badge";
+import type { HeatLevel } from "@/lib/ember/memoria/scoring";
+import { cn } from "@/lib/utils";
+import type { HeatScoreModel } from "@/schemas/heat-score.schema";
+
+export type HeatThresholds = Pick<
+	HeatScoreModel,
+	"hotThreshold" | "warmThreshold"
+>;
+
+export const heatLevelLabels: Record<HeatLevel, string> = {
+	hot: "Hot",
+	warm: "Warm",
+	cold: "Cold",
+};
+
+const heatLevelColors: Record<HeatLevel, string> = {
+	hot: "bg-red-100 dark:bg-red-900",
+	warm: "bg-orange-100 dark:bg-orange-900",
+	cold: "bg-blue-100 dark:bg-blue-900",
+};
+
+// Same levels as getHeatLevel, which can't be imported in the browser
+function toHeatLevel(score: number, thresholds: HeatThresholds): HeatLevel {
+	if (score >= thresholds.hotThreshold) return "hot";
+	if (score >= thresholds.warmThreshold) return "warm";
+	return "cold";
+}
+
+/**
+ * Heat score of a contact, colored by the level of the organization model
+ */
+export function ContactHeatBadge({
+	score,
+	thresholds,
+	className,
+}: {
+	score: number;
+	thresholds: HeatThresholds | undefined;
+	className?: string;
+}): React.JSX.Element {
+	const level = thresholds ? toHeatLevel(score, thresholds) : undefined;
+
+	return (
+		<Badge
+			className={cn(
+				"border-none px-2 py-0.5 font-medium text-foreground text-xs tabular-nums shadow-none",
+				level ? heatLevelColors[level] : "bg-gray-100 dark:bg-gray-800",
+				className,
+			)}
+			title={level ? `${heatLevelLabels[level]} contact` : undefined}
+			variant="outline"
+		>
+			{score}
+			{level && ` · ${heatLevelLabels[level]}`}
+		</Badge>
+	);
+}
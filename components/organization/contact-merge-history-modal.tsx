@@ -0,0 +1,174 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { Undo2Icon } from "lucide-react";
+import type * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { ContactMergeSource } from "@/lib/db/schema/enums";
+import type { ContactMergeSummary } from "@/lib/ember/memoria/merger";
+import { trpc } from "@/trpc/client";
+
+export type ContactMergeHistoryModalProps = NiceModalHocProps & {
+	contact: {
+		id: string;
+		firstName: string;
+		lastName: string;
+	};
+};
+
+const sourceLabels: Record<ContactMergeSource, string> = {
+	[ContactMergeSource.manual]: "Merged",
+	[ContactMergeSource.review]: "Merged from duplicate review",
+	[ContactMergeSource.form]: "Merged on form submission",
+	[ContactMergeSource.auto]: "Merged automatically",
+};
+
+function MergeRow({
+	merge,
+	onUnmerge,
+	isUnmerging,
+}: {
+	merge: ContactMergeSummary;
+	onUnmerge: () => void;
+	isUnmerging: boolean;
+}): React.JSX.Element {
+	return (
+		<div className="space-y-2 rounded-md border p-3 text-sm">
+			<div className="flex items-center gap-2">
+				<span className="font-medium">{sourceLabels[merge.source]}</span>
+				{merge.unmergedAt && <Badge variant="secondary">Undone</Badge>}
+				<span className="ml-auto shrink-0 text-muted-foreground text-xs">
+					{format(merge.createdAt, "MMM d, yyyy HH:mm")}
+				</span>
+			</div>
+			<ul className="space-y-1">
+				{merge.duplicates.map((duplicate) => (
+					<li key={duplicate.id} className="flex flex-wrap gap-x-2">
+						<span>
+							{duplicate.firstName} {duplicate.lastName}
+						</span>
+						<span className="text-muted-foreground">
+							{[duplicate.email, duplicate.phone].filter(Boolean).join(" · ")}
+						</span>
+					</li>
+				))}
+			</ul>
+			<div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground text-xs">
+				{merge.mergedBy && <span>By {merge.mergedBy.name}</span>}
+				<span>
+					{merge.movedRowCount}{" "}
+					{merge.movedRowCount === 1 ? "record" : "records"} moved
+				</span>
+				{merge.unmergedAt && (
+					<span>
+						Undone {format(merge.unmergedAt, "MMM d, yyyy HH:mm")}
+						{merge.unmergedBy && ` by ${merge.unmergedBy.name}`}
+					</span>
+				)}
+			</div>
+			{merge.canUnmerge && (
+				<Button
+					type="button"
+					size="sm"
+					variant="outline"
+					loading={isUnmerging}
+					onClick={onUnmerge}
+				>
+					<Undo2Icon className="size-4" />
+					Unmerge
+				</Button>
+			)}
+		</div>
+	);
+}
+
+export const ContactMergeHistoryModal =
+	NiceModal.create<ContactMergeHistoryModalProps>(({ contact }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+
+		const { data: merges, isLoading } =
+			trpc.organization.contact.mergeHistory.useQuery({
+				contactId: contact.id,
+			});
+
+		const unmergeMutation = trpc.organization.contact.unmerge.useMutation({
+			onSuccess: ({ restoredIds }) => {
+				toast.success(
+					restoredIds.length === 1
+						? "1 contact restored"
+						: `${restoredIds.length} contacts restored`,
+				);
+				utils.organization.contact.invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to unmerge contacts");
+			},
+		});
+
+		return (
+			<Sheet
+				open={modal.visible}
+				onOpenChange={(open) => !open && modal.handleClose()}
+			>
+				<SheetContent
+					className="sm:max-w-lg"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+				>
+					<SheetHeader>
+						<SheetTitle>Merge history</SheetTitle>
+						<SheetDescription>
+							Contacts merged into {contact.firstName} {contact.lastName}. The
+							latest merge can be undone.
+						</SheetDescription>
+					</SheetHeader>
+
+					<ScrollArea className="flex-1">
+						<div className="space-y-2 px-6 py-4">
+							{isLoading ? (
+								<Skeleton className="h-24 w-full" />
+							) : !merges || merges.length === 0 ? (
+								<EmptyText>No contacts were merged into this one.</EmptyText>
+							) : (
+								merges.map((merge) => (
+									<MergeRow
+										key={merge.id}
+										merge={merge}
+										isUnmerging={
+											unmergeMutation.isPending &&
+											unmergeMutation.variables?.mergeId === merge.id
+										}
+										onUnmerge={() =>
+											NiceModal.show(ConfirmationModal, {
+												title: "Unmerge contacts?",
+												message:
+													"The merged contacts come back with their conversations, notes and other records. Records added since the merge stay on this contact.",
+												confirmLabel: "Unmerge",
+												onConfirm: () =>
+													unmergeMutation.mutate({ mergeId: merge.id }),
+											})
+										}
+									/>
+								))
+							)}
+						</div>
+					</ScrollArea>
+				</SheetContent>
+			</Sheet>
+		);
+	});
@@ -0,0 +1,236 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { PencilIcon, Trash2Icon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ContactNoteType, ContactNoteTypes } from "@/lib/db/schema/enums";
+import type { ContactNoteWithAuthor } from "@/lib/ember/memoria/queries";
+import { trpc } from "@/trpc/client";
+
+const noteTypeLabels: Record<ContactNoteType, string> = {
+	general: "General",
+	important: "Important",
+	follow_up: "Follow-up",
+};
+
+function NoteForm({
+	initialContent = "",
+	initialType = ContactNoteType.general,
+	submitLabel,
+	isSubmitting,
+	onSubmit,
+	onCancel,
+}: {
+	initialContent?: string;
+	initialType?: ContactNoteType;
+	submitLabel: string;
+	isSubmitting: boolean;
+	onSubmit: (note: { content: string; type: ContactNoteType }) => void;
+	onCancel?: () => void;
+}): React.JSX.Element {
+	const [content, setContent] = React.useState(initialContent);
+	const [type, setType] = React.useState<ContactNoteType>(initialType);
+
+	return (
+		<form
+			className="space-y-2"
+			onSubmit={(event) => {
+				event.preventDefault();
+				onSubmit({ content: content.trim(), type });
+			}}
+		>
+			<Textarea
+				placeholder="Write a note..."
+				rows={3}
+				value={content}
+				onChange={(event) => setContent(event.target.value)}
+			/>
+			<div className="flex items-center gap-2">
+				<Select
+					value={type}
+					onValueChange={(value) => setType(value as ContactNoteType)}
+				>
+					<SelectTrigger className="w-36" size="sm">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{ContactNoteTypes.map((noteType) => (
+							<SelectItem key={noteType} value={noteType}>
+								{noteTypeLabels[noteType]}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<div className="ml-auto flex gap-2">
+					{onCancel && (
+						<Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+							Cancel
+						</Button>
+					)}
+					<Button
+						type="submit"
+						size="sm"
+						disabled={!content.trim()}
+						loading={isSubmitting}
+					>
+						{submitLabel}
+					</Button>
+				</div>
+			</div>
+		</form>
+	);
+}
+
+/**
+ * Internal notes of a contact, added and edited in place
+ */
+export function ContactNotes({
+	contactId,
+	notes,
+}: {
+	contactId: string;
+	notes: ContactNoteWithAuthor[];
+}): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const [editingId, setEditingId] = React.useState<string | null>(null);
+	// Remounts the new note form once a note is added
+	const [formKey, setFormKey] = React.useState(0);
+
+	const invalidate = (): void => {
+		utils.organization.contact.get.invalidate({ id: contactId });
+		utils.organization.contact.timeline.invalidate({ contactId });
+	};
+
+	const createNoteMutation = trpc.organization.contact.createNote.useMutation({
+		onSuccess: () => {
+			toast.success("Note added");
+			setFormKey((key) => key + 1);
+			invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to add note");
+		},
+	});
+
+	const updateNoteMutation = trpc.organization.contact.updateNote.useMutation({
+		onSuccess: () => {
+			toast.success("Note updated");
+			setEditingId(null);
+			invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to update note");
+		},
+	});
+
+	const deleteNoteMutation = trpc.organization.contact.deleteNote.useMutation({
+		onSuccess: () => {
+			toast.success("Note deleted");
+			invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to delete note");
+		},
+	});
+
+	return (
+		<div className="space-y-4">
+			<NoteForm
+				key={formKey}
+				submitLabel="Add note"
+				isSubmitting={createNoteMutation.isPending}
+				onSubmit={(note) => createNoteMutation.mutate({ contactId, ...note })}
+			/>
+
+			{notes.length === 0 ? (
+				<EmptyText>No notes yet.</EmptyText>
+			) : (
+				<div className="space-y-2">
+					{notes.map((note) =>
+						editingId === note.id ? (
+							<div key={note.id} className="rounded-md border p-3">
+								<NoteForm
+									initialContent={note.content}
+									initialType={note.type}
+									submitLabel="Save"
+									isSubmitting={updateNoteMutation.isPending}
+									onSubmit={(data) =>
+										updateNoteMutation.mutate({ id: note.id, ...data })
+									}
+									onCancel={() => setEditingId(null)}
+								/>
+							</div>
+						) : (
+							<div key={note.id} className="space-y-2 rounded-md border p-3">
+								<div className="flex items-center gap-2 text-xs">
+									<Badge
+										variant={
+											note.type === ContactNoteType.important
+												? "default"
+												: "secondary"
+										}
+									>
+										{noteTypeLabels[note.type]}
+									</Badge>
+									<span className="text-muted-foreground">
+										{note.createdBy?.name ?? "AI agent"} ·{" "}
+										{format(note.createdAt, "MMM d, yyyy HH:mm")}
+									</span>
+									<div className="ml-auto flex">
+										<Button
+											type="button"
+											size="icon"
+											variant="ghost"
+											className="size-7"
+											onClick={() => setEditingId(note.id)}
+										>
+											<PencilIcon className="size-3.5" />
+											<span className="sr-only">Edit note</span>
+										</Button>
+										<Button
+											type="button"
+											size="icon"
+											variant="ghost"
+											className="size-7"
+											onClick={() =>
+												NiceModal.show(ConfirmationModal, {
+													title: "Delete note?",
+													message:
+														"Are you sure you want to delete this note? This action cannot be undone.",
+													confirmLabel: "Delete",
+													destructive: true,
+													onConfirm: () =>
+														deleteNoteMutation.mutate({ id: note.id }),
+												})
+											}
+										>
+											<Trash2Icon className="size-3.5" />
+											<span className="sr-only">Delete note</span>
+										</Button>
+									</div>
+								</div>
+								<p className="whitespace-pre-wrap break-words text-sm">
+									{note.content}
+								</p>
+							</div>
+						),
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
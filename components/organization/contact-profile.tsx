@@ -0,0 +1,366 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { HistoryIcon, RefreshCwIcon, WorkflowIcon } from "lucide-react";
+import Link from "next/link";
+import { parseAsStringLiteral, useQueryState } from "nuqs";
+import type * as React from "react";
+import { toast } from "sonner";
+import { ContactAgreements } from "@/components/organization/contact-agreements";
+import { ContactDuplicatesPanel } from "@/components/organization/contact-duplicates-panel";
+import { ContactHeatBadge } from "@/components/organization/contact-heat-badge";
+import { ContactMergeHistoryModal } from "@/components/organization/contact-merge-history-modal";
+import { ContactNotes } from "@/components/organization/contact-notes";
+import { ContactScoreHistoryModal } from "@/components/organization/contact-score-history-modal";
+import { ContactTimeline } from "@/components/organization/contact-timeline";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import {
+	UnderlinedTabs,
+	UnderlinedTabsContent,
+	UnderlinedTabsList,
+	UnderlinedTabsTrigger,
+} from "@/components/ui/custom/underlined-tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCustomFieldValue } from "@/lib/custom-fields/values";
+import {
+	type ChannelType,
+	type ContactSourceType,
+	ContactStatus,
+	CustomFieldEntity,
+} from "@/lib/db/schema/enums";
+import type {
+	ContactAgreement,
+	ContactNoteWithAuthor,
+} from "@/lib/ember/memoria/queries";
+import { capitalize } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+const tabValues = ["timeline", "notes", "agreements", "duplicates"] as const;
+type TabValue = (typeof tabValues)[number];
+
+interface ContactProfileData {
+	id: string;
+	firstName: string;
+	lastName: string;
+	email: string | null;
+	phone: string | null;
+	company: string | null;
+	timezone: string | null;
+	language: string | null;
+	heatScore: number;
+	status: ContactStatus;
+	mergedWithId: string | null;
+	interactionCount: number;
+	lastInteractionAt: Date | null;
+	tags: string[];
+	customFields: Record<string, unknown>;
+	createdAt: Date;
+	assignedTo: { id: string; name: string; email: string } | null;
+	sources: {
+		id: string;
+		sourceType: ContactSourceType;
+		sourceIdentifier: string | null;
+		firstSeen: Date;
+		interactionCount: number;
+	}[];
+	channelIdentities: {
+		id: string;
+		channel: ChannelType;
+		identifier: string;
+		displayName: string | null;
+		lastSeenAt: Date;
+	}[];
+	notes: ContactNoteWithAuthor[];
+	agreements: ContactAgreement[];
+}
+
+function DetailRow({
+	label,
+	children,
+}: {
+	label: string;
+	children: React.ReactNode;
+}): React.JSX.Element {
+	return (
+		<div className="flex justify-between gap-4 text-sm">
+			<span className="shrink-0 text-muted-foreground">{label}</span>
+			<span className="min-w-0 truncate text-right">{children}</span>
+		</div>
+	);
+}
+
+function ContactDetails({
+	contact,
+}: {
+	contact: ContactProfileData;
+}): React.JSX.Element {
+	const { data: customFields } = trpc.organization.customField.list.useQuery({
+		entity: CustomFieldEntity.contact,
+	});
+
+	return (
+		<div className="space-y-4">
+			<Card>
+				<CardHeader>
+					<CardTitle>Details</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-2">
+					<DetailRow label="Email">{contact.email || "-"}</DetailRow>
+					<DetailRow label="Phone">{contact.phone || "-"}</DetailRow>
+					<DetailRow label="Company">{contact.company || "-"}</DetailRow>
+					<DetailRow label="Language">{contact.language || "-"}</DetailRow>
+					<DetailRow label="Timezone">{contact.timezone || "-"}</DetailRow>
+					<DetailRow label="Assigned to">
+						{contact.assignedTo?.name ?? "-"}
+					</DetailRow>
+					<DetailRow label="Interactions">{contact.interactionCount}</DetailRow>
+					<DetailRow label="Last interaction">
+						{contact.lastInteractionAt
+							? formatDistanceToNow(contact.lastInteractionAt, {
+									addSuffix: true,
+								})
+							: "-"}
+					</DetailRow>
+					<DetailRow label="Created">
+						{format(contact.createdAt, "dd MMM, yyyy")}
+					</DetailRow>
+					{(customFields ?? []).map((definition) => (
+						<DetailRow key={definition.id} label={definition.label}>
+							{formatCustomFieldValue(
+								definition,
+								contact.customFields[definition.key],
+							) || "-"}
+						</DetailRow>
+					))}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Tags</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{contact.tags.length === 0 ? (
+						<EmptyText>No tags.</EmptyText>
+					) : (
+						<div className="flex flex-wrap gap-1">
+							{contact.tags.map((tag) => (
+								<Badge key={tag} variant="secondary">
+									{tag}
+								</Badge>
+							))}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Channels</CardTitle>
+					<CardDescription>
+						Where the contact reached you, replies go to the latest one of a
+						channel
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-2">
+					{contact.channelIdentities.length === 0 ? (
+						<EmptyText>No channels yet.</EmptyText>
+					) : (
+						contact.channelIdentities.map((identity) => (
+							<DetailRow key={identity.id} label={capitalize(identity.channel)}>
+								<span title={identity.identifier}>
+									{identity.displayName || identity.identifier}
+								</span>
+							</DetailRow>
+						))
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Sources</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-2">
+					{contact.sources.length === 0 ? (
+						<EmptyText>No sources.</EmptyText>
+					) : (
+						contact.sources.map((source) => (
+							<DetailRow key={source.id} label={capitalize(source.sourceType)}>
+								{format(source.firstSeen, "dd MMM, yyyy")} ·{" "}
+								{source.interactionCount}x
+							</DetailRow>
+						))
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
+
+/**
+ * Profile of a contact with its details, timeline, notes, agreements and
+ * possible duplicates
+ */
+export function ContactProfile({
+	contactId,
+}: {
+	contactId: string;
+}): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const [tab, setTab] = useQueryState(
+		"tab",
+		parseAsStringLiteral(tabValues).withDefault("timeline"),
+	);
+
+	const { data, isLoading, error } = trpc.organization.contact.get.useQuery({
+		id: contactId,
+	});
+	const contact = data as ContactProfileData | undefined;
+	const { data: heatScoreModel } =
+		trpc.organization.heatScore.getModel.useQuery();
+
+	const recalculateMutation =
+		trpc.organization.contact.recalculateHeatScore.useMutation({
+			onSuccess: ({ heatScore }) => {
+				toast.success(`Heat score recalculated: ${heatScore}`);
+				utils.organization.contact.get.invalidate({ id: contactId });
+				utils.organization.contact.scoreHistory.invalidate({ contactId });
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to recalculate heat score");
+			},
+		});
+
+	if (isLoading) {
+		return (
+			<div className="space-y-4">
+				<Skeleton className="h-20 w-full" />
+				<Skeleton className="h-96 w-full" />
+			</div>
+		);
+	}
+
+	if (!contact) {
+		return <EmptyText>{error?.message ?? "Contact not found."}</EmptyText>;
+	}
+
+	return (
+		<div className="space-y-6">
+			{contact.status === ContactStatus.merged && contact.mergedWithId && (
+				<Alert>
+					<AlertDescription>
+						This contact was merged into{" "}
+						<Link
+							className="underline"
+							href={`/dashboard/organization/contacts/${contact.mergedWithId}`}
+						>
+							another contact
+						</Link>
+						.
+					</AlertDescription>
+				</Alert>
+			)}
+
+			<div className="flex flex-col gap-4 md:flex-row md:items-center">
+				<div className="flex min-w-0 items-center gap-2 text-muted-foreground text-sm">
+					<ContactHeatBadge
+						score={contact.heatScore}
+						thresholds={heatScoreModel}
+					/>
+					{contact.status !== ContactStatus.active && (
+						<Badge variant="outline">{capitalize(contact.status)}</Badge>
+					)}
+					{contact.company && (
+						<span className="truncate">{contact.company}</span>
+					)}
+				</div>
+				<div className="flex flex-wrap gap-2 md:ml-auto">
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						loading={recalculateMutation.isPending}
+						onClick={() => recalculateMutation.mutate({ contactId })}
+					>
+						<RefreshCwIcon className="size-4 shrink-0" />
+						Recalculate score
+					</Button>
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						onClick={() =>
+							NiceModal.show(ContactScoreHistoryModal, { contact })
+						}
+					>
+						<HistoryIcon className="size-4 shrink-0" />
+						Score history
+					</Button>
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						onClick={() =>
+							NiceModal.show(ContactMergeHistoryModal, { contact })
+						}
+					>
+						<WorkflowIcon className="size-4 shrink-0" />
+						Merge history
+					</Button>
+				</div>
+			</div>
+
+			<div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+				<ContactDetails contact={contact} />
+
+				<UnderlinedTabs
+					className="w-full"
+					value={tab}
+					onValueChange={(value) => setTab(value as TabValue)}
+				>
+					<UnderlinedTabsList className="mb-4">
+						<UnderlinedTabsTrigger value="timeline">
+							Timeline
+						</UnderlinedTabsTrigger>
+						<UnderlinedTabsTrigger value="notes">
+							Notes ({contact.notes.length})
+						</UnderlinedTabsTrigger>
+						<UnderlinedTabsTrigger value="agreements">
+							Agreements ({contact.agreements.length})
+						</UnderlinedTabsTrigger>
+						<UnderlinedTabsTrigger value="duplicates">
+							Duplicates
+						</UnderlinedTabsTrigger>
+					</UnderlinedTabsList>
+					<UnderlinedTabsContent value="timeline">
+						<ContactTimeline contactId={contact.id} />
+					</UnderlinedTabsContent>
+					<UnderlinedTabsContent value="notes">
+						<ContactNotes contactId={contact.id} notes={contact.notes} />
+					</UnderlinedTabsContent>
+					<UnderlinedTabsContent value="agreements">
+						<ContactAgreements
+							contactId={contact.id}
+							agreements={contact.agreements}
+						/>
+					</UnderlinedTabsContent>
+					<UnderlinedTabsContent value="duplicates">
+						<ContactDuplicatesPanel contact={contact} />
+					</UnderlinedTabsContent>
+				</UnderlinedTabs>
+			</div>
+		</div>
+	);
+}
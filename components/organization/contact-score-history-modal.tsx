@@ -0,0 +1,124 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { ArrowDownIcon, ArrowUpIcon } from "lucide-react";
+import type * as React from "react";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import type { HeatScoreHistoryEntry } from "@/lib/ember/memoria/scoring";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+export type ContactScoreHistoryModalProps = NiceModalHocProps & {
+	contact: {
+		id: string;
+		firstName: string;
+		lastName: string;
+	};
+};
+
+function HistoryRow({
+	entry,
+}: {
+	entry: HeatScoreHistoryEntry;
+}): React.JSX.Element {
+	const isUp = entry.score > entry.previousScore;
+
+	return (
+		<div className="space-y-2 rounded-md border p-3 text-sm">
+			<div className="flex items-center gap-2">
+				<span className="font-medium tabular-nums">{entry.score}</span>
+				<span
+					className={cn(
+						"flex items-center text-xs tabular-nums",
+						isUp ? "text-green-600" : "text-red-600",
+					)}
+				>
+					{isUp ? (
+						<ArrowUpIcon className="size-3" />
+					) : (
+						<ArrowDownIcon className="size-3" />
+					)}
+					{Math.abs(entry.score - entry.previousScore)}
+				</span>
+				<span className="ml-auto shrink-0 text-muted-foreground text-xs">
+					{format(entry.createdAt, "MMM d, yyyy HH:mm")}
+				</span>
+			</div>
+			{entry.contributions.length === 0 ? (
+				<p className="text-muted-foreground text-xs">No signal contributed.</p>
+			) : (
+				<ul className="space-y-1">
+					{entry.contributions.map((contribution, index) => (
+						<li
+							key={index}
+							className="flex justify-between gap-4 text-xs"
+						>
+							<span className="text-muted-foreground">
+								{contribution.label}
+							</span>
+							<span className="tabular-nums">
+								{contribution.points > 0 ? "+" : ""}
+								{contribution.points}
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
+
+export const ContactScoreHistoryModal =
+	NiceModal.create<ContactScoreHistoryModalProps>(({ contact }) => {
+		const modal = useEnhancedModal();
+
+		const { data: history, isLoading } =
+			trpc.organization.contact.scoreHistory.useQuery({
+				contactId: contact.id,
+			});
+
+		return (
+			<Sheet
+				open={modal.visible}
+				onOpenChange={(open) => !open && modal.handleClose()}
+			>
+				<SheetContent
+					className="sm:max-w-md"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+				>
+					<SheetHeader>
+						<SheetTitle>Heat score history</SheetTitle>
+						<SheetDescription>
+							Changes of the heat score of {contact.firstName}{" "}
+							{contact.lastName} and the signals behind each one.
+						</SheetDescription>
+					</SheetHeader>
+
+					<ScrollArea className="flex-1">
+						<div className="space-y-2 px-6 py-4">
+							{isLoading ? (
+								<Skeleton className="h-24 w-full" />
+							) : !history || history.length === 0 ? (
+								<EmptyText>The heat score hasn't changed yet.</EmptyText>
+							) : (
+								history.map((entry) => (
+									<HistoryRow key={entry.id} entry={entry} />
+								))
+							)}
+						</div>
+					</ScrollArea>
+				</SheetContent>
+			</Sheet>
+		);
+	});
@@ -0,0 +1,136 @@
+"use client";
+
+import { format } from "date-fns";
+import {
+	ArrowDownLeftIcon,
+	ArrowUpRightIcon,
+	HandshakeIcon,
+	LogInIcon,
+	StickyNoteIcon,
+} from "lucide-react";
+import type * as React from "react";
+import { Badge } from "@/components/ui/badge";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MessageDirection } from "@/lib/db/schema/enums";
+import type { ContactTimelineEvent } from "@/lib/ember/memoria/queries";
+import { capitalize } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+function EventIcon({
+	event,
+}: {
+	event: ContactTimelineEvent;
+}): React.JSX.Element {
+	const className = "size-4 text-muted-foreground";
+
+	switch (event.type) {
+		case "message":
+			return event.data.direction === MessageDirection.inbound ? (
+				<ArrowDownLeftIcon className={className} />
+			) : (
+				<ArrowUpRightIcon className={className} />
+			);
+		case "note":
+			return <StickyNoteIcon className={className} />;
+		case "agreement":
+			return <HandshakeIcon className={className} />;
+		case "source":
+			return <LogInIcon className={className} />;
+	}
+}
+
+function EventTitle({
+	event,
+}: {
+	event: ContactTimelineEvent;
+}): React.JSX.Element {
+	switch (event.type) {
+		case "message":
+			return (
+				<>
+					{event.data.direction === MessageDirection.inbound
+						? "Message received"
+						: "Message sent"}{" "}
+					<Badge className="ml-1 text-xs" variant="outline">
+						{capitalize(event.data.channel)}
+					</Badge>
+				</>
+			);
+		case "note":
+			return <>Note by {event.data.createdBy?.name ?? "AI agent"}</>;
+		case "agreement":
+			return (
+				<>
+					{capitalize(event.data.type.replace("_", " "))} agreement{" "}
+					<Badge className="ml-1 text-xs" variant="secondary">
+						{capitalize(event.data.status)}
+					</Badge>
+				</>
+			);
+		case "source":
+			return <>First came from {capitalize(event.data.sourceType)}</>;
+	}
+}
+
+function eventContent(event: ContactTimelineEvent): string | null {
+	switch (event.type) {
+		case "message":
+		case "note":
+			return event.data.content;
+		case "agreement":
+			return event.data.description;
+		case "source":
+			return event.data.sourceIdentifier;
+	}
+}
+
+/**
+ * Messages, notes, agreements and sources of a contact, newest first
+ */
+export function ContactTimeline({
+	contactId,
+}: {
+	contactId: string;
+}): React.JSX.Element {
+	const { data: events, isLoading } =
+		trpc.organization.contact.timeline.useQuery({ contactId });
+
+	if (isLoading) {
+		return <Skeleton className="h-48 w-full" />;
+	}
+
+	if (!events || events.length === 0) {
+		return <EmptyText>Nothing happened with this contact yet.</EmptyText>;
+	}
+
+	return (
+		<ol className="space-y-4">
+			{events.map((event) => {
+				const content = eventContent(event);
+				return (
+					<li key={`${event.type}-${event.data.id}`} className="flex gap-3">
+						<div className="mt-0.5 flex size-7 shrink-0 items-center justify-center rounded-full border">
+							<EventIcon event={event} />
+						</div>
+						<div className="min-w-0 flex-1 space-y-1 text-sm">
+							<div className="flex items-center gap-2">
+								<span className="font-medium">
+									<EventTitle event={event} />
+								</span>
+								<span className="ml-auto shrink-0 text-muted-foreground text-xs">
+									{format(event.timestamp, "MMM d, yyyy HH:mm")}
+								</span>
+							</div>
+							{content && (
+								<p className="whitespace-pre-wrap break-words text-muted-foreground">
+									{content}
+								</p>
+							)}
+						</div>
+					</li>
+				);
+			})}
+		</ol>
+	);
+}
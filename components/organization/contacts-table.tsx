@@ -0,0 +1,799 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import type {
+	ColumnDef,
+	ColumnFiltersState,
+	SortingState,
+	VisibilityState,
+} from "@tanstack/react-table";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+	Columns3Icon,
+	ListFilterIcon,
+	MoreHorizontalIcon,
+	UploadIcon,
+} from "lucide-react";
+import Link from "next/link";
+import {
+	parseAsArrayOf,
+	parseAsInteger,
+	parseAsJson,
+	parseAsString,
+	useQueryState,
+} from "nuqs";
+import * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import {
+	ContactHeatBadge,
+	type HeatThresholds,
+	heatLevelLabels,
+} from "@/components/organization/contact-heat-badge";
+import { ContactMergeHistoryModal } from "@/components/organization/contact-merge-history-modal";
+import { ContactScoreHistoryModal } from "@/components/organization/contact-score-history-modal";
+import { countFilterConditions } from "@/components/organization/filter-builder";
+import { FilterBuilderModal } from "@/components/organization/filter-builder-modal";
+import { ImportWizardModal } from "@/components/organization/import-wizard-modal";
+import { SavedViewsMenu } from "@/components/organization/saved-views-menu";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	DataTable,
+	type FilterConfig,
+	SortableColumnHeader,
+} from "@/components/ui/custom/data-table";
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { UserAvatar } from "@/components/user/user-avatar";
+import { appConfig } from "@/config/app.config";
+import { formatCustomFieldValue } from "@/lib/custom-fields/values";
+import {
+	CustomFieldEntity,
+	CustomFieldType,
+	ImportEntity,
+	SavedViewEntity,
+} from "@/lib/db/schema/enums";
+import type { HeatLevel } from "@/lib/ember/memoria/scoring";
+import { CUSTOM_FIELD_PREFIX } from "@/lib/filters/fields";
+import type { SavedView } from "@/lib/saved-views/types";
+import {
+	type FilterCondition,
+	type FilterGroup,
+	filterGroupSchema,
+} from "@/schemas/filter.schema";
+import { trpc } from "@/trpc/client";
+
+const DEFAULT_SORTING: SortingState = [{ id: "lastInteractionAt", desc: true }];
+
+const HEAT_LEVELS: HeatLevel[] = ["hot", "warm", "cold"];
+
+// Sortable columns and the field the list is sorted on
+const sortFields = {
+	name: "firstName",
+	heatScore: "heatScore",
+	lastInteractionAt: "lastInteractionAt",
+	createdAt: "createdAt",
+} as const;
+
+interface Contact {
+	id: string;
+	firstName: string;
+	lastName: string;
+	email: string | null;
+	phone: string | null;
+	company: string | null;
+	heatScore: number;
+	tags: string[];
+	customFields: Record<string, unknown>;
+	lastInteractionAt: Date | null;
+	createdAt: Date;
+}
+
+// Heat score conditions of a level, the thresholds are the lowest score of
+// the level
+function heatLevelCondition(
+	level: HeatLevel,
+	thresholds: HeatThresholds,
+): FilterCondition | FilterGroup {
+	const atLeast = (score: number): FilterCondition => ({
+		type: "condition",
+		field: "heatScore",
+		operator: "greaterThan",
+		value: String(score - 1),
+	});
+	const below = (score: number): FilterCondition => ({
+		type: "condition",
+		field: "heatScore",
+		operator: "lessThan",
+		value: String(score),
+	});
+
+	switch (level) {
+		case "hot":
+			return atLeast(thresholds.hotThreshold);
+		case "warm":
+			return {
+				type: "group",
+				combinator: "and",
+				children: [
+					atLeast(thresholds.warmThreshold),
+					below(thresholds.hotThreshold),
+				],
+			};
+		case "cold":
+			return below(thresholds.warmThreshold);
+	}
+}
+
+export function ContactsTable(): React.JSX.Element {
+	const [searchQuery, setSearchQuery] = useQueryState(
+		"query",
+		parseAsString.withDefault("").withOptions({
+			shallow: true,
+		}),
+	);
+
+	const [pageIndex, setPageIndex] = useQueryState(
+		"pageIndex",
+		parseAsInteger.withDefault(0).withOptions({
+			shallow: true,
+		}),
+	);
+
+	const [pageSize, setPageSize] = useQueryState(
+		"pageSize",
+		parseAsInteger.withDefault(appConfig.pagination.defaultLimit).withOptions({
+			shallow: true,
+		}),
+	);
+
+	const [heatFilter, setHeatFilter] = useQueryState(
+		"heat",
+		parseAsArrayOf(parseAsString).withDefault([]).withOptions({
+			shallow: true,
+		}),
+	);
+
+	const [tagFilter, setTagFilter] = useQueryState(
+		"tags",
+		parseAsArrayOf(parseAsString).withDefault([]).withOptions({
+			shallow: true,
+		}),
+	);
+
+	// Selected options of select and multi-select custom fields, by key
+	const [customFieldFilter, setCustomFieldFilter] = useQueryState<
+		Record<string, string[]>
+	>(
+		"customFields",
+		parseAsJson<Record<string, string[]>>((value) => {
+			if (!value || typeof value !== "object" || Array.isArray(value)) {
+				return {};
+			}
+			return Object.fromEntries(
+				Object.entries(value).filter(
+					(entry): entry is [string, string[]] =>
+						Array.isArray(entry[1]) && entry[1].length > 0,
+				),
+			);
+		})
+			.withDefault({})
+			.withOptions({ shallow: true }),
+	);
+
+	const [sorting, setSorting] = useQueryState<SortingState>(
+		"sort",
+		parseAsJson<SortingState>((value) => {
+			if (!Array.isArray(value)) return DEFAULT_SORTING;
+			return value.filter(
+				(item) =>
+					item &&
+					typeof item === "object" &&
+					"id" in item &&
+					typeof item.desc === "boolean",
+			) as SortingState;
+		})
+			.withDefault(DEFAULT_SORTING)
+			.withOptions({ shallow: true }),
+	);
+
+	// Filter builder conditions
+	const [advancedFilter, setAdvancedFilter] = useQueryState<FilterGroup | null>(
+		"filter",
+		parseAsJson<FilterGroup | null>((value) => {
+			const parsed = filterGroupSchema.safeParse(value);
+			return parsed.success ? parsed.data : null;
+		}).withOptions({ shallow: true }),
+	);
+
+	// Visible column ids in display order, empty shows every column
+	const [visibleColumns, setVisibleColumns] = useQueryState(
+		"columns",
+		parseAsArrayOf(parseAsString).withDefault([]).withOptions({
+			shallow: true,
+		}),
+	);
+
+	const [viewId, setViewId] = useQueryState(
+		"view",
+		parseAsString.withOptions({ shallow: true }),
+	);
+
+	const utils = trpc.useUtils();
+
+	const { data: customFields } = trpc.organization.customField.list.useQuery({
+		entity: CustomFieldEntity.contact,
+	});
+	const { data: tags } = trpc.organization.tag.list.useQuery();
+	const { data: heatScoreModel } =
+		trpc.organization.heatScore.getModel.useQuery();
+
+	// Build columnFilters from URL state
+	const columnFilters: ColumnFiltersState = React.useMemo(() => {
+		const filters: ColumnFiltersState = [];
+		if (heatFilter && heatFilter.length > 0) {
+			filters.push({ id: "heatScore", value: heatFilter });
+		}
+		if (tagFilter && tagFilter.length > 0) {
+			filters.push({ id: "tags", value: tagFilter });
+		}
+		for (const [key, value] of Object.entries(customFieldFilter ?? {})) {
+			filters.push({ id: `${CUSTOM_FIELD_PREFIX}${key}`, value });
+		}
+		return filters;
+	}, [heatFilter, tagFilter, customFieldFilter]);
+
+	const handleFiltersChange = (filters: ColumnFiltersState): void => {
+		const getFilterValue = (id: string): string[] => {
+			const filter = filters.find((f) => f.id === id);
+			return Array.isArray(filter?.value) ? (filter.value as string[]) : [];
+		};
+
+		setHeatFilter(getFilterValue("heatScore"));
+		setTagFilter(getFilterValue("tags"));
+		setCustomFieldFilter(
+			Object.fromEntries(
+				filters
+					.filter((filter) => filter.id.startsWith(CUSTOM_FIELD_PREFIX))
+					.map((filter): [string, string[]] => [
+						filter.id.slice(CUSTOM_FIELD_PREFIX.length),
+						getFilterValue(filter.id),
+					])
+					.filter(([, value]) => value.length > 0),
+			),
+		);
+
+		if (pageIndex !== 0) {
+			setPageIndex(0);
+		}
+	};
+
+	const handleAdvancedFilterChange = (filter: FilterGroup | null): void => {
+		setAdvancedFilter(filter);
+		if (pageIndex !== 0) {
+			setPageIndex(0);
+		}
+	};
+
+	// A view replaces the filters, columns and sort of the list
+	const handleViewSelect = (view: SavedView | null): void => {
+		setViewId(view?.id ?? null);
+		setAdvancedFilter(view?.filter ?? null);
+		setVisibleColumns(view?.columns ?? []);
+		setSorting(
+			view?.sort
+				? [{ id: view.sort.field, desc: view.sort.order === "desc" }]
+				: DEFAULT_SORTING,
+		);
+		setHeatFilter([]);
+		setTagFilter([]);
+		setCustomFieldFilter({});
+		setPageIndex(0);
+	};
+
+	const handleSortingChange = (newSorting: SortingState): void => {
+		// When clearing sort, fall back to default to keep URL and state consistent
+		setSorting(newSorting.length > 0 ? newSorting : DEFAULT_SORTING);
+		if (pageIndex !== 0) {
+			setPageIndex(0);
+		}
+	};
+
+	// Build sort params from sorting state
+	const sortParams = React.useMemo(() => {
+		const fallbackSort = { id: "lastInteractionAt", desc: true } as const;
+		const currentSort = sorting?.[0] ?? DEFAULT_SORTING[0] ?? fallbackSort;
+		const orderBy =
+			sortFields[currentSort.id as keyof typeof sortFields] ??
+			"lastInteractionAt";
+		const orderByCustomField = currentSort.id.startsWith(CUSTOM_FIELD_PREFIX)
+			? currentSort.id.slice(CUSTOM_FIELD_PREFIX.length)
+			: undefined;
+		const orderDirection = currentSort.desc
+			? ("desc" as const)
+			: ("asc" as const);
+		return { orderBy, orderByCustomField, orderDirection };
+	}, [sorting]);
+
+	// Heat levels are score ranges of the organization model, any of the
+	// selected levels
+	const heatCondition: FilterGroup | null =
+		heatFilter.length > 0 && heatScoreModel
+			? {
+					type: "group",
+					combinator: "or",
+					children: HEAT_LEVELS.filter((level) =>
+						heatFilter.includes(level),
+					).map((level) => heatLevelCondition(level, heatScoreModel)),
+				}
+			: null;
+
+	const listFilter: FilterGroup | null = heatCondition
+		? {
+				type: "group",
+				combinator: "and",
+				children: [heatCondition, ...(advancedFilter ? [advancedFilter] : [])],
+			}
+		: advancedFilter;
+
+	const { data, isPending } = trpc.organization.contact.list.useQuery(
+		{
+			limit: pageSize || appConfig.pagination.defaultLimit,
+			offset:
+				(pageIndex || 0) * (pageSize || appConfig.pagination.defaultLimit),
+			search: searchQuery || undefined,
+			orderBy: sortParams.orderBy,
+			orderByCustomField: sortParams.orderByCustomField,
+			orderDirection: sortParams.orderDirection,
+			tags: tagFilter.length > 0 ? tagFilter : undefined,
+			tagMatch: "any",
+			customFields: Object.entries(customFieldFilter ?? {}).map(
+				([key, value]) => ({ key, operator: "equals" as const, value }),
+			),
+			filter: listFilter ?? undefined,
+		},
+		{
+			placeholderData: (prev) => prev,
+			// Wait for the thresholds before filtering on heat levels
+			enabled: heatFilter.length === 0 || !!heatScoreModel,
+		},
+	);
+
+	const deleteContactMutation = trpc.organization.contact.delete.useMutation({
+		onSuccess: () => {
+			toast.success("Contact deleted successfully");
+			utils.organization.contact.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to delete contact");
+		},
+	});
+
+	const handleSearchQueryChange = (value: string): void => {
+		if (value !== searchQuery) {
+			setSearchQuery(value);
+			if (pageIndex !== 0) {
+				setPageIndex(0);
+			}
+		}
+	};
+
+	const columns: ColumnDef<Contact>[] = [
+		{
+			accessorKey: "name",
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Name" />
+			),
+			cell: ({ row }) => {
+				const fullName = `${row.original.firstName} ${row.original.lastName}`;
+				return (
+					<Link
+						className="flex max-w-[200px] items-center gap-2"
+						href={`/dashboard/organization/contacts/${row.original.id}`}
+					>
+						<UserAvatar className="size-6 shrink-0" name={fullName} />
+						<span
+							className="truncate font-medium text-foreground hover:underline"
+							title={fullName}
+						>
+							{fullName}
+						</span>
+					</Link>
+				);
+			},
+		},
+		{
+			accessorKey: "company",
+			enableSorting: false,
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Company" />
+			),
+			cell: ({ row }) => (
+				<span
+					className="block max-w-[150px] truncate text-foreground/80"
+					title={row.original.company || undefined}
+				>
+					{row.original.company || "-"}
+				</span>
+			),
+		},
+		{
+			accessorKey: "email",
+			enableSorting: false,
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Email" />
+			),
+			cell: ({ row }) => (
+				<span
+					className="block max-w-[250px] truncate text-foreground/80"
+					title={row.original.email || undefined}
+				>
+					{row.original.email || "-"}
+				</span>
+			),
+		},
+		{
+			accessorKey: "phone",
+			enableSorting: false,
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Phone" />
+			),
+			cell: ({ row }) => (
+				<span className="text-foreground/80">{row.original.phone || "-"}</span>
+			),
+		},
+		{
+			accessorKey: "heatScore",
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Heat" />
+			),
+			cell: ({ row }) => (
+				<ContactHeatBadge
+					score={row.original.heatScore}
+					thresholds={heatScoreModel}
+				/>
+			),
+		},
+		{
+			accessorKey: "tags",
+			enableSorting: false,
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Tags" />
+			),
+			cell: ({ row }) =>
+				row.original.tags.length > 0 ? (
+					<div className="flex max-w-[200px] flex-wrap gap-1">
+						{row.original.tags.map((tag) => (
+							<Badge key={tag} className="text-xs" variant="secondary">
+								{tag}
+							</Badge>
+						))}
+					</div>
+				) : (
+					<span className="text-foreground/80">-</span>
+				),
+		},
+		{
+			accessorKey: "lastInteractionAt",
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Last interaction" />
+			),
+			cell: ({ row }) => (
+				<span className="text-foreground/80">
+					{row.original.lastInteractionAt
+						? formatDistanceToNow(row.original.lastInteractionAt, {
+								addSuffix: true,
+							})
+						: "-"}
+				</span>
+			),
+		},
+		...(customFields ?? []).map(
+			(definition): ColumnDef<Contact> => ({
+				id: `${CUSTOM_FIELD_PREFIX}${definition.key}`,
+				accessorFn: (contact) => contact.customFields[definition.key],
+				header: ({ column }) => (
+					<SortableColumnHeader column={column} title={definition.label} />
+				),
+				cell: ({ row }) => {
+					const value = formatCustomFieldValue(
+						definition,
+						row.original.customFields[definition.key],
+					);
+					return (
+						<span
+							className="block max-w-[150px] truncate text-foreground/80"
+							title={value || undefined}
+						>
+							{value || "-"}
+						</span>
+					);
+				},
+			}),
+		),
+		{
+			accessorKey: "createdAt",
+			header: ({ column }) => (
+				<SortableColumnHeader column={column} title="Created" />
+			),
+			cell: ({ row }) => (
+				<span className="text-foreground/80">
+					{format(row.original.createdAt, "dd MMM, yyyy")}
+				</span>
+			),
+		},
+		{
+			id: "actions",
+			enableSorting: false,
+			cell: ({ row }) => (
+				<div className="flex justify-end">
+					<DropdownMenu>
+						<DropdownMenuTrigger asChild>
+							<Button
+								className="flex size-8 text-muted-foreground data-[state=open]:bg-muted"
+								size="icon"
+								variant="ghost"
+							>
+								<MoreHorizontalIcon className="shrink-0" />
+								<span className="sr-only">Open menu</span>
+							</Button>
+						</DropdownMenuTrigger>
+						<DropdownMenuContent align="end">
+							<DropdownMenuItem asChild>
+								<Link
+									href={`/dashboard/organization/contacts/${row.original.id}`}
+								>
+									View
+								</Link>
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => {
+									NiceModal.show(ContactScoreHistoryModal, {
+										contact: row.original,
+									});
+								}}
+							>
+								Score history
+							</DropdownMenuItem>
+							<DropdownMenuItem
+								onClick={() => {
+									NiceModal.show(ContactMergeHistoryModal, {
+										contact: row.original,
+									});
+								}}
+							>
+								Merge history
+							</DropdownMenuItem>
+							<DropdownMenuSeparator />
+							<DropdownMenuItem
+								onClick={() => {
+									NiceModal.show(ConfirmationModal, {
+										title: "Delete contact?",
+										message:
+											"Are you sure you want to delete this contact? This action cannot be undone.",
+										confirmLabel: "Delete",
+										destructive: true,
+										onConfirm: () =>
+											deleteContactMutation.mutate({ id: row.original.id }),
+									});
+								}}
+								variant="destructive"
+							>
+								Delete
+							</DropdownMenuItem>
+						</DropdownMenuContent>
+					</DropdownMenu>
+				</div>
+			),
+		},
+	];
+
+	const contactFilters: FilterConfig[] = [
+		{
+			key: "heatScore",
+			title: "Heat",
+			options: HEAT_LEVELS.map((level) => ({
+				value: level,
+				label: heatLevelLabels[level],
+			})),
+		},
+		{
+			key: "tags",
+			title: "Tags",
+			options: (tags ?? []).map((tag) => ({
+				value: tag.name,
+				label: tag.name,
+			})),
+		},
+		...(customFields ?? [])
+			.filter(
+				(definition) =>
+					definition.type === CustomFieldType.select ||
+					definition.type === CustomFieldType.multiSelect,
+			)
+			.map(
+				(definition): FilterConfig => ({
+					key: `${CUSTOM_FIELD_PREFIX}${definition.key}`,
+					title: definition.label,
+					options: definition.options.map((option) => ({
+						value: option,
+						label: option,
+					})),
+				}),
+			),
+	];
+
+	const columnLabels: Record<string, string> = {
+		name: "Name",
+		company: "Company",
+		email: "Email",
+		phone: "Phone",
+		heatScore: "Heat",
+		tags: "Tags",
+		lastInteractionAt: "Last interaction",
+		...Object.fromEntries(
+			(customFields ?? []).map((definition) => [
+				`${CUSTOM_FIELD_PREFIX}${definition.key}`,
+				definition.label,
+			]),
+		),
+		createdAt: "Created",
+	};
+	const columnIds = Object.keys(columnLabels);
+
+	const columnVisibility: VisibilityState =
+		visibleColumns.length > 0
+			? Object.fromEntries(
+					columnIds.map((id) => [id, visibleColumns.includes(id)]),
+				)
+			: {};
+
+	const handleColumnToggle = (id: string, visible: boolean): void => {
+		const current = visibleColumns.length > 0 ? visibleColumns : columnIds;
+		setVisibleColumns(
+			visible ? [...current, id] : current.filter((column) => column !== id),
+		);
+	};
+
+	// Quick filters are saved as conditions
+	const quickFilterConditions: (FilterCondition | FilterGroup)[] = [
+		...(heatCondition ? [heatCondition] : []),
+		...(tagFilter.length > 0
+			? [
+					{
+						type: "condition" as const,
+						field: "tags",
+						operator: "equals" as const,
+						value: tagFilter,
+					},
+				]
+			: []),
+		...Object.entries(customFieldFilter ?? {}).map(([key, value]) => ({
+			type: "condition" as const,
+			field: `${CUSTOM_FIELD_PREFIX}${key}`,
+			operator: "equals" as const,
+			value,
+		})),
+	];
+	const currentSort = sorting?.[0];
+	const viewState = {
+		filter:
+			quickFilterConditions.length > 0
+				? {
+						type: "group" as const,
+						combinator: "and" as const,
+						children: [
+							...quickFilterConditions,
+							...(advancedFilter ? [advancedFilter] : []),
+						],
+					}
+				: (advancedFilter ?? null),
+		columns: visibleColumns,
+		sort: currentSort
+			? {
+					field: currentSort.id,
+					order: currentSort.desc ? ("desc" as const) : ("asc" as const),
+				}
+			: null,
+	};
+
+	const advancedFilterCount = countFilterConditions(advancedFilter);
+
+	return (
+		<DataTable
+			columnFilters={columnFilters}
+			columnOrder={
+				visibleColumns.length > 0 ? [...visibleColumns, "actions"] : []
+			}
+			columnVisibility={columnVisibility}
+			columns={columns}
+			data={(data?.contacts as Contact[]) || []}
+			emptyMessage="No contacts found."
+			enableFilters
+			enablePagination
+			enableSearch
+			filters={contactFilters}
+			loading={isPending}
+			onFiltersChange={handleFiltersChange}
+			onPageIndexChange={setPageIndex}
+			onPageSizeChange={setPageSize}
+			onSearchQueryChange={handleSearchQueryChange}
+			onSortingChange={handleSortingChange}
+			pageIndex={pageIndex || 0}
+			pageSize={pageSize || appConfig.pagination.defaultLimit}
+			searchPlaceholder="Search contacts..."
+			searchQuery={searchQuery || ""}
+			defaultSorting={DEFAULT_SORTING}
+			sorting={sorting}
+			toolbarActions={
+				<>
+					<SavedViewsMenu
+						entity={SavedViewEntity.contact}
+						activeViewId={viewId}
+						state={viewState}
+						onSelect={handleViewSelect}
+					/>
+					<Button
+						onClick={() =>
+							NiceModal.show(FilterBuilderModal, {
+								entity: SavedViewEntity.contact,
+								filter: advancedFilter,
+								onApply: handleAdvancedFilterChange,
+							})
+						}
+						size="sm"
+						variant="outline"
+					>
+						<ListFilterIcon className="size-4 shrink-0" />
+						Filter
+						{advancedFilterCount > 0 && (
+							<Badge className="px-1.5 py-0 text-xs" variant="secondary">
+								{advancedFilterCount}
+							</Badge>
+						)}
+					</Button>
+					<DropdownMenu>
+						<DropdownMenuTrigger asChild>
+							<Button size="sm" variant="outline">
+								<Columns3Icon className="size-4 shrink-0" />
+								Columns
+							</Button>
+						</DropdownMenuTrigger>
+						<DropdownMenuContent align="end">
+							{columnIds.map((id) => (
+								<DropdownMenuCheckboxItem
+									key={id}
+									checked={columnVisibility[id] !== false}
+									onCheckedChange={(checked) => handleColumnToggle(id, checked)}
+									onSelect={(event) => event.preventDefault()}
+								>
+									{columnLabels[id]}
+								</DropdownMenuCheckboxItem>
+							))}
+						</DropdownMenuContent>
+					</DropdownMenu>
+					<Button
+						onClick={() =>
+							NiceModal.show(ImportWizardModal, {
+								entity: ImportEntity.contacts,
+							})
+						}
+						size="sm"
+						variant="outline"
+					>
+						<UploadIcon className="size-4 shrink-0" />
+						Import
+					</Button>
+				</>
+			}
+			totalCount={data?.total ?? 0}
+		/>
+	);
+}
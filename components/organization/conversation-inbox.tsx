@@ -0,0 +1,249 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { InboxIcon } from "lucide-react";
+import { parseAsString, parseAsStringLiteral, useQueryState } from "nuqs";
+import type * as React from "react";
+import {
+	channelLabels,
+	ConversationThread,
+} from "@/components/organization/conversation-thread";
+import { Badge } from "@/components/ui/badge";
+import { CenteredSpinner } from "@/components/ui/custom/centered-spinner";
+import {
+	Empty,
+	EmptyDescription,
+	EmptyHeader,
+	EmptyMedia,
+	EmptyTitle,
+} from "@/components/ui/empty";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { UserAvatar } from "@/components/user/user-avatar";
+import {
+	type ChannelType,
+	ChannelTypes,
+	type ConversationStatus,
+	ConversationStatuses,
+} from "@/lib/db/schema/enums";
+import { capitalize, cn } from "@/lib/utils";
+import { InboxAssignment } from "@/schemas/conversation.schema";
+import { trpc } from "@/trpc/client";
+
+const ALL = "all";
+
+export function ConversationInbox(): React.JSX.Element {
+	const [conversationId, setConversationId] = useQueryState(
+		"conversationId",
+		parseAsString.withOptions({ shallow: true }),
+	);
+
+	const [assignment, setAssignment] = useQueryState(
+		"assignment",
+		parseAsStringLiteral(InboxAssignment.options)
+			.withDefault("all")
+			.withOptions({ shallow: true }),
+	);
+
+	const [channelFilter, setChannelFilter] = useQueryState(
+		"channel",
+		parseAsString.withDefault(ALL).withOptions({ shallow: true }),
+	);
+
+	const [statusFilter, setStatusFilter] = useQueryState(
+		"status",
+		parseAsString.withDefault("active").withOptions({ shallow: true }),
+	);
+
+	// Kept up to date by useRealtimeEvents
+	const { data: counts } = trpc.organization.conversation.counts.useQuery();
+
+	const { data, isPending } = trpc.organization.conversation.list.useQuery(
+		{
+			assignment,
+			filters: {
+				channel: channelFilter === ALL ? [] : [channelFilter as ChannelType],
+				status:
+					statusFilter === ALL ? [] : [statusFilter as ConversationStatus],
+			},
+		},
+		{
+			placeholderData: (prev) => prev,
+		},
+	);
+
+	const conversations = data?.conversations ?? [];
+
+	return (
+		<div className="flex h-full min-h-0">
+			<div className="flex w-80 shrink-0 flex-col border-r">
+				<div className="space-y-3 border-b p-3">
+					<Tabs
+						value={assignment}
+						onValueChange={(value) => setAssignment(value as InboxAssignment)}
+					>
+						<TabsList className="w-full">
+							<TabsTrigger value="all">
+								All
+								<InboxCount count={counts?.total} />
+							</TabsTrigger>
+							<TabsTrigger value="mine">
+								Mine
+								<InboxCount count={counts?.mine} />
+							</TabsTrigger>
+							<TabsTrigger value="unassigned">
+								Unassigned
+								<InboxCount count={counts?.unassigned} />
+							</TabsTrigger>
+						</TabsList>
+					</Tabs>
+					<div className="flex gap-2">
+						<Select value={channelFilter} onValueChange={setChannelFilter}>
+							<SelectTrigger className="h-8 flex-1 text-xs">
+								<SelectValue placeholder="Channel" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL}>All channels</SelectItem>
+								{ChannelTypes.map((channel) => (
+									<SelectItem key={channel} value={channel}>
+										{channelLabels[channel]}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Select value={statusFilter} onValueChange={setStatusFilter}>
+							<SelectTrigger className="h-8 flex-1 text-xs">
+								<SelectValue placeholder="Status" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL}>All statuses</SelectItem>
+								{ConversationStatuses.map((status) => (
+									<SelectItem key={status} value={status}>
+										{capitalize(status)}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+				<ScrollArea className="min-h-0 flex-1">
+					{isPending ? (
+						<CenteredSpinner className="py-12" />
+					) : conversations.length === 0 ? (
+						<p className="p-6 text-center text-muted-foreground text-sm">
+							No conversations waiting for an agent
+						</p>
+					) : (
+						<ul className="divide-y">
+							{conversations.map((conversation) => {
+								const contactName =
+									`${conversation.contact.firstName} ${conversation.contact.lastName}`.trim();
+								return (
+									<li key={conversation.id}>
+										<button
+											type="button"
+											className={cn(
+												"flex w-full items-start gap-3 px-3 py-3 text-left hover:bg-muted/50",
+												conversation.id === conversationId && "bg-muted",
+											)}
+											onClick={() => setConversationId(conversation.id)}
+										>
+											<UserAvatar
+												className="size-8 shrink-0"
+												name={contactName}
+											/>
+											<div className="min-w-0 flex-1 space-y-1">
+												<div className="flex items-center justify-between gap-2">
+													<span
+														className={cn(
+															"truncate text-sm",
+															conversation.unreadCount > 0
+																? "font-semibold"
+																: "font-medium",
+														)}
+													>
+														{contactName}
+													</span>
+													{conversation.lastMessageAt && (
+														<span className="shrink-0 text-muted-foreground text-xs">
+															{formatDistanceToNow(
+																new Date(conversation.lastMessageAt),
+																{ addSuffix: true },
+															)}
+														</span>
+													)}
+												</div>
+												<p className="truncate text-muted-foreground text-xs">
+													{conversation.lastMessage ??
+														conversation.transferReason}
+												</p>
+												<div className="flex items-center gap-1.5">
+													<Badge variant="outline" className="text-[10px]">
+														{channelLabels[conversation.channel]}
+													</Badge>
+													{conversation.transferredTo ? (
+														<span className="truncate text-muted-foreground text-xs">
+															{conversation.transferredTo.name}
+														</span>
+													) : (
+														<span className="text-muted-foreground text-xs">
+															Unassigned
+														</span>
+													)}
+													{conversation.unreadCount > 0 && (
+														<Badge className="ml-auto">
+															{conversation.unreadCount}
+														</Badge>
+													)}
+												</div>
+											</div>
+										</button>
+									</li>
+								);
+							})}
+						</ul>
+					)}
+				</ScrollArea>
+			</div>
+			<div className="flex min-w-0 flex-1 flex-col">
+				{conversationId ? (
+					<ConversationThread
+						key={conversationId}
+						conversationId={conversationId}
+						onClose={() => setConversationId(null)}
+					/>
+				) : (
+					<Empty>
+						<EmptyHeader>
+							<EmptyMedia variant="icon">
+								<InboxIcon />
+							</EmptyMedia>
+							<EmptyTitle>Select a conversation</EmptyTitle>
+							<EmptyDescription>
+								Conversations escalated by your AI agents show up here.
+							</EmptyDescription>
+						</EmptyHeader>
+					</Empty>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function InboxCount({ count }: { count?: number }): React.JSX.Element | null {
+	if (!count) {
+		return null;
+	}
+	return (
+		<span className="ml-1 rounded-full bg-muted px-1.5 text-[10px] text-muted-foreground">
+			{count}
+		</span>
+	);
+}
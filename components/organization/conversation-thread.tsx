@@ -0,0 +1,286 @@
+"use client";
+
+import { format } from "date-fns";
+import { BotIcon, SendIcon, UserCheckIcon, XIcon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CenteredSpinner } from "@/components/ui/custom/centered-spinner";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { useSession } from "@/hooks/use-session";
+import type { ChannelType } from "@/lib/db/schema/enums";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+export const channelLabels: Record<ChannelType, string> = {
+	whatsapp: "WhatsApp",
+	instagram: "Instagram",
+	facebook: "Facebook",
+	email: "Email",
+	sms: "SMS",
+	calls: "Calls",
+	web: "Web chat",
+};
+
+export type ConversationThreadProps = {
+	conversationId: string;
+	onClose: () => void;
+};
+
+export function ConversationThread({
+	conversationId,
+	onClose,
+}: ConversationThreadProps): React.JSX.Element {
+	const { user } = useSession();
+	const utils = trpc.useUtils();
+	const [reply, setReply] = React.useState("");
+	const bottomRef = React.useRef<HTMLDivElement>(null);
+
+	const { data: conversation, isPending } =
+		trpc.organization.conversation.get.useQuery({ id: conversationId });
+
+	const invalidateInbox = (): void => {
+		utils.organization.conversation.get.invalidate({ id: conversationId });
+		utils.organization.conversation.list.invalidate();
+		utils.organization.conversation.counts.invalidate();
+	};
+
+	const markReadMutation = trpc.organization.conversation.markRead.useMutation({
+		onSuccess: () => {
+			utils.organization.conversation.list.invalidate();
+			utils.organization.conversation.counts.invalidate();
+		},
+	});
+
+	const claimMutation = trpc.organization.conversation.claim.useMutation({
+		onSuccess: () => {
+			toast.success("Conversation assigned to you");
+			invalidateInbox();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to take over conversation");
+		},
+	});
+
+	const replyMutation = trpc.organization.conversation.reply.useMutation({
+		onSuccess: () => {
+			setReply("");
+			invalidateInbox();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to send message");
+		},
+	});
+
+	const handBackMutation = trpc.organization.conversation.handBack.useMutation({
+		onSuccess: () => {
+			toast.success("Conversation handed back to the AI agent");
+			invalidateInbox();
+			onClose();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to hand back conversation");
+		},
+	});
+
+	const closeMutation = trpc.organization.conversation.close.useMutation({
+		onSuccess: () => {
+			toast.success("Conversation closed");
+			invalidateInbox();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to close conversation");
+		},
+	});
+
+	const messageCount = conversation?.messages.length ?? 0;
+
+	// Opening the conversation (or receiving new messages while open) marks it as read
+	React.useEffect(() => {
+		if (messageCount > 0) {
+			markReadMutation.mutate({ id: conversationId });
+			bottomRef.current?.scrollIntoView({ block: "end" });
+		}
+	}, [conversationId, messageCount]);
+
+	if (isPending) {
+		return <CenteredSpinner />;
+	}
+
+	if (!conversation) {
+		return (
+			<p className="p-6 text-center text-muted-foreground text-sm">
+				Conversation not found
+			</p>
+		);
+	}
+
+	const contactName = conversation.contact
+		? `${conversation.contact.firstName} ${conversation.contact.lastName}`.trim()
+		: "Unknown contact";
+	const isMine = conversation.transferredToId === user?.id;
+	const isAssignedToOther = !!conversation.transferredToId && !isMine;
+	const canReply =
+		conversation.transferredToHuman &&
+		!isAssignedToOther &&
+		conversation.status !== "closed";
+
+	const handleSubmit = (event: React.FormEvent): void => {
+		event.preventDefault();
+		const content = reply.trim();
+		if (!content) return;
+		replyMutation.mutate({ conversationId, content });
+	};
+
+	return (
+		<div className="flex h-full min-h-0 flex-col">
+			<div className="flex items-center justify-between gap-4 border-b px-4 py-3">
+				<div className="min-w-0">
+					<div className="flex items-center gap-2">
+						<h2 className="truncate font-semibold">{contactName}</h2>
+						<Badge variant="outline">
+							{channelLabels[conversation.channel]}
+						</Badge>
+						{conversation.status === "closed" && (
+							<Badge variant="secondary">Closed</Badge>
+						)}
+					</div>
+					<p className="truncate text-muted-foreground text-xs">
+						{conversation.transferredTo
+							? `Assigned to ${isMine ? "you" : conversation.transferredTo.name}`
+							: conversation.transferredToHuman
+								? "Waiting for an agent"
+								: "Handled by the AI agent"}
+						{conversation.transferReason && ` · ${conversation.transferReason}`}
+					</p>
+				</div>
+				<div className="flex shrink-0 items-center gap-2">
+					{!isMine && (
+						<Button
+							size="sm"
+							variant="outline"
+							disabled={isAssignedToOther}
+							loading={claimMutation.isPending}
+							onClick={() => claimMutation.mutate({ id: conversationId })}
+						>
+							<UserCheckIcon className="size-4" />
+							Take over
+						</Button>
+					)}
+					{conversation.transferredToHuman && (
+						<Button
+							size="sm"
+							variant="outline"
+							loading={handBackMutation.isPending}
+							onClick={() => handBackMutation.mutate({ id: conversationId })}
+						>
+							<BotIcon className="size-4" />
+							Hand back to AI
+						</Button>
+					)}
+					{conversation.status !== "closed" && (
+						<Button
+							size="sm"
+							variant="ghost"
+							loading={closeMutation.isPending}
+							onClick={() => closeMutation.mutate({ id: conversationId })}
+						>
+							<XIcon className="size-4" />
+							Close
+						</Button>
+					)}
+				</div>
+			</div>
+			<ScrollArea className="min-h-0 flex-1">
+				<div className="space-y-3 p-4">
+					{conversation.messages.map((message) => {
+						if (message.role === "system") {
+							return (
+								<p
+									key={message.id}
+									className="text-center text-muted-foreground text-xs"
+								>
+									{message.content}
+								</p>
+							);
+						}
+
+						const isInbound = message.direction === "inbound";
+						return (
+							<div
+								key={message.id}
+								className={cn(
+									"flex flex-col gap-1",
+									isInbound ? "items-start" : "items-end",
+								)}
+							>
+								<div
+									className={cn(
+										"max-w-[75%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm",
+										isInbound
+											? "bg-muted"
+											: message.role === "human_agent"
+												? "bg-primary text-primary-foreground"
+												: "bg-secondary text-secondary-foreground",
+									)}
+								>
+									{message.content}
+								</div>
+								{message.citations.length > 0 && (
+									<span className="max-w-[75%] truncate text-[10px] text-muted-foreground">
+										Sources:{" "}
+										{[
+											...new Set(
+												message.citations.map((citation) => citation.title),
+											),
+										].join(", ")}
+									</span>
+								)}
+								<span className="text-[10px] text-muted-foreground">
+									{message.role === "human_agent"
+										? (message.sentBy?.name ?? "Agent")
+										: message.role === "assistant"
+											? "AI agent"
+											: contactName}{" "}
+									· {format(new Date(message.createdAt), "MMM d, HH:mm")}
+									{message.deliveryStatus === "failed" && " · Failed"}
+								</span>
+							</div>
+						);
+					})}
+					<div ref={bottomRef} />
+				</div>
+			</ScrollArea>
+			<form className="flex gap-2 border-t p-3" onSubmit={handleSubmit}>
+				<Textarea
+					className="min-h-10 resize-none"
+					rows={2}
+					value={reply}
+					disabled={!canReply}
+					placeholder={
+						canReply
+							? "Write a reply..."
+							: "Take over the conversation to reply"
+					}
+					onChange={(event) => setReply(event.target.value)}
+					onKeyDown={(event) => {
+						if (event.key === "Enter" && !event.shiftKey) {
+							handleSubmit(event);
+						}
+					}}
+				/>
+				<Button
+					type="submit"
+					size="icon"
+					disabled={!canReply || !reply.trim()}
+					loading={replyMutation.isPending}
+				>
+					<SendIcon className="size-4" />
+					<span className="sr-only">Send</span>
+				</Button>
+			</form>
+		</div>
+	);
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import type * as React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type {
+	CustomFieldDefinition,
+	CustomFieldValues,
+} from "@/lib/custom-fields/types";
+import { CustomFieldType } from "@/lib/db/schema/enums";
+
+type CustomFieldInputsProps = {
+	definitions: CustomFieldDefinition[];
+	value: CustomFieldValues | null | undefined;
+	onChange: (value: CustomFieldValues) => void;
+	disabled?: boolean;
+};
+
+const NONE = "__none__";
+
+function CustomFieldInput({
+	definition,
+	value,
+	onChange,
+	disabled,
+}: {
+	definition: CustomFieldDefinition;
+	value: unknown;
+	onChange: (value: unknown) => void;
+	disabled?: boolean;
+}): React.JSX.Element {
+	const id = `custom-field-${definition.key}`;
+
+	switch (definition.type) {
+		case CustomFieldType.number:
+		case CustomFieldType.currency:
+			return (
+				<Input
+					id={id}
+					type="number"
+					step={definition.type === CustomFieldType.currency ? "0.01" : "any"}
+					autoComplete="off"
+					disabled={disabled}
+					value={typeof value === "number" ? value : ""}
+					onChange={(event) =>
+						onChange(
+							event.target.value ? Number(event.target.value) : undefined,
+						)
+					}
+				/>
+			);
+		case CustomFieldType.date:
+			return (
+				<Input
+					id={id}
+					type="date"
+					disabled={disabled}
+					value={typeof value === "string" ? value : ""}
+					onChange={(event) => onChange(event.target.value || undefined)}
+				/>
+			);
+		case CustomFieldType.select:
+			return (
+				<Select
+					value={typeof value === "string" ? value : NONE}
+					onValueChange={(option) =>
+						onChange(option === NONE ? undefined : option)
+					}
+					disabled={disabled}
+				>
+					<SelectTrigger id={id} className="w-full">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={NONE}>None</SelectItem>
+						{definition.options.map((option) => (
+							<SelectItem key={option} value={option}>
+								{option}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			);
+		case CustomFieldType.multiSelect: {
+			const selected = Array.isArray(value) ? value.map(String) : [];
+			return (
+				<div className="flex flex-wrap gap-x-4 gap-y-2">
+					{definition.options.map((option) => (
+						<Label key={option} className="flex items-center gap-2 font-normal">
+							<Checkbox
+								checked={selected.includes(option)}
+								disabled={disabled}
+								onCheckedChange={(checked) =>
+									onChange(
+										checked
+											? [...selected, option]
+											: selected.filter((item) => item !== option),
+									)
+								}
+							/>
+							{option}
+						</Label>
+					))}
+				</div>
+			);
+		}
+		default:
+			return (
+				<Input
+					id={id}
+					type={definition.type === CustomFieldType.url ? "url" : "text"}
+					placeholder={
+						definition.type === CustomFieldType.url ? "https://" : undefined
+					}
+					autoComplete="off"
+					disabled={disabled}
+					value={typeof value === "string" ? value : ""}
+					onChange={(event) => onChange(event.target.value)}
+				/>
+			);
+	}
+}
+
+/**
+ * Inputs for the custom fields of a contact or lead, values are validated by
+ * the server when the record is saved
+ */
+export function CustomFieldInputs({
+	definitions,
+	value,
+	onChange,
+	disabled,
+}: CustomFieldInputsProps): React.JSX.Element | null {
+	if (definitions.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="space-y-4">
+			{definitions.map((definition) => (
+				<div key={definition.id} className="space-y-2">
+					<Label htmlFor={`custom-field-${definition.key}`}>
+						{definition.label}
+						{definition.required && <span className="text-destructive">*</span>}
+						{definition.type === CustomFieldType.currency &&
+							definition.currency && (
+								<span className="font-normal text-muted-foreground">
+									({definition.currency})
+								</span>
+							)}
+					</Label>
+					<CustomFieldInput
+						definition={definition}
+						value={value?.[definition.key]}
+						disabled={disabled}
+						onChange={(fieldValue) =>
+							onChange({ ...value, [definition.key]: fieldValue })
+						}
+					/>
+				</div>
+			))}
+		</div>
+	);
+}
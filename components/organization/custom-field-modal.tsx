@@ -0,0 +1,320 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field } from "@/components/ui/field";
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { customFieldsConfig } from "@/config/custom-fields.config";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import { toCustomFieldKey } from "@/lib/custom-fields/values";
+import { type CustomFieldEntity, CustomFieldType } from "@/lib/db/schema/enums";
+import { createCustomFieldSchema } from "@/schemas/custom-field.schema";
+import { trpc } from "@/trpc/client";
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+	[CustomFieldType.text]: "Text",
+	[CustomFieldType.number]: "Number",
+	[CustomFieldType.date]: "Date",
+	[CustomFieldType.select]: "Select",
+	[CustomFieldType.multiSelect]: "Multi-select",
+	[CustomFieldType.currency]: "Currency",
+	[CustomFieldType.url]: "URL",
+};
+
+export type CustomFieldModalProps = NiceModalHocProps & {
+	entity: CustomFieldEntity;
+	field?: Pick<
+		CustomFieldDefinition,
+		"id" | "key" | "label" | "type" | "options" | "currency" | "required"
+	>;
+};
+
+export const CustomFieldModal = NiceModal.create<CustomFieldModalProps>(
+	({ entity, field: customField }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const isEditing = !!customField;
+
+		const onSuccess = () => {
+			toast.success(isEditing ? "Custom field updated" : "Custom field added");
+			utils.organization.customField.list.invalidate();
+			modal.handleClose();
+		};
+
+		const createFieldMutation =
+			trpc.organization.customField.create.useMutation({
+				onSuccess,
+				onError: (error) => {
+					toast.error(error.message || "Failed to add custom field");
+				},
+			});
+
+		const updateFieldMutation =
+			trpc.organization.customField.update.useMutation({
+				onSuccess,
+				onError: (error) => {
+					toast.error(error.message || "Failed to update custom field");
+				},
+			});
+
+		const isPending =
+			createFieldMutation.isPending || updateFieldMutation.isPending;
+
+		const form = useZodForm({
+			schema: createCustomFieldSchema,
+			defaultValues: {
+				entity,
+				key: customField?.key ?? "",
+				label: customField?.label ?? "",
+				type: customField?.type ?? CustomFieldType.text,
+				options: customField?.options ?? [],
+				currency: customField?.currency ?? customFieldsConfig.defaultCurrency,
+				required: customField?.required ?? false,
+			},
+		});
+
+		const type = form.watch("type");
+		const hasOptions =
+			type === CustomFieldType.select || type === CustomFieldType.multiSelect;
+
+		const onSubmit = form.handleSubmit((data) => {
+			if (customField) {
+				updateFieldMutation.mutate({
+					id: customField.id,
+					label: data.label,
+					options: data.options,
+					currency: data.currency,
+					required: data.required,
+				});
+			} else {
+				createFieldMutation.mutate(data);
+			}
+		});
+
+		return (
+			<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+				<DialogContent
+					className="max-w-lg"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+					onClose={modal.handleClose}
+				>
+					<DialogHeader>
+						<DialogTitle>
+							{isEditing ? "Edit custom field" : "Add custom field"}
+						</DialogTitle>
+						<DialogDescription>
+							The key and type of a field can't be changed once it is added.
+						</DialogDescription>
+					</DialogHeader>
+
+					<Form {...form}>
+						<form onSubmit={onSubmit} className="space-y-4">
+							<FormField
+								control={form.control}
+								name="label"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Label</FormLabel>
+											<FormControl>
+												<Input
+													placeholder="Preferred store"
+													autoComplete="off"
+													{...field}
+													onChange={(event) => {
+														field.onChange(event);
+														if (!isEditing && !form.formState.dirtyFields.key) {
+															form.setValue(
+																"key",
+																toCustomFieldKey(event.target.value),
+															);
+														}
+													}}
+												/>
+											</FormControl>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="key"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Key</FormLabel>
+											<FormControl>
+												<Input
+													className="font-mono"
+													autoComplete="off"
+													disabled={isEditing}
+													{...field}
+												/>
+											</FormControl>
+											<FormDescription>
+												Used in the API, imports and form mappings.
+											</FormDescription>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="type"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Type</FormLabel>
+											<Select
+												value={field.value}
+												onValueChange={field.onChange}
+												disabled={isEditing}
+											>
+												<FormControl>
+													<SelectTrigger className="w-full">
+														<SelectValue />
+													</SelectTrigger>
+												</FormControl>
+												<SelectContent>
+													{Object.values(CustomFieldType).map((value) => (
+														<SelectItem key={value} value={value}>
+															{customFieldTypeLabels[value]}
+														</SelectItem>
+													))}
+												</SelectContent>
+											</Select>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							{hasOptions && (
+								<FormField
+									control={form.control}
+									name="options"
+									render={({ field }) => (
+										<FormItem asChild>
+											<Field>
+												<FormLabel>Options</FormLabel>
+												<FormControl>
+													<Textarea
+														rows={5}
+														placeholder={"Downtown\nAirport\nOnline"}
+														defaultValue={field.value?.join("\n")}
+														onChange={(event) =>
+															field.onChange(
+																event.target.value
+																	.split("\n")
+																	.map((option) => option.trim())
+																	.filter(Boolean),
+															)
+														}
+														onBlur={field.onBlur}
+													/>
+												</FormControl>
+												<FormDescription>One option per line.</FormDescription>
+												<FormMessage />
+											</Field>
+										</FormItem>
+									)}
+								/>
+							)}
+
+							{type === CustomFieldType.currency && (
+								<FormField
+									control={form.control}
+									name="currency"
+									render={({ field }) => (
+										<FormItem asChild>
+											<Field>
+												<FormLabel>Currency</FormLabel>
+												<FormControl>
+													<Input
+														className="w-24 uppercase"
+														maxLength={3}
+														autoComplete="off"
+														{...field}
+														value={field.value ?? ""}
+													/>
+												</FormControl>
+												<FormMessage />
+											</Field>
+										</FormItem>
+									)}
+								/>
+							)}
+
+							<FormField
+								control={form.control}
+								name="required"
+								render={({ field }) => (
+									<FormItem className="flex items-center gap-2">
+										<FormControl>
+											<Checkbox
+												checked={field.value}
+												onCheckedChange={(checked) =>
+													field.onChange(checked === true)
+												}
+											/>
+										</FormControl>
+										<FormLabel className="font-normal">
+											Required when saving a record
+										</FormLabel>
+									</FormItem>
+								)}
+							/>
+
+							<DialogFooter>
+								<Button
+									type="button"
+									variant="outline"
+									onClick={modal.handleClose}
+									disabled={isPending}
+								>
+									Cancel
+								</Button>
+								<Button type="submit" disabled={isPending} loading={isPending}>
+									{isEditing ? "Save" : "Add field"}
+								</Button>
+							</DialogFooter>
+						</form>
+					</Form>
+				</DialogContent>
+			</Dialog>
+		);
+	},
+);
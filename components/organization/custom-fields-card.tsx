@@ -0,0 +1,233 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import {
+	ArrowDownIcon,
+	ArrowUpIcon,
+	MoreVerticalIcon,
+	PlusIcon,
+} from "lucide-react";
+import type * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import {
+	CustomFieldModal,
+	customFieldTypeLabels,
+} from "@/components/organization/custom-field-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import { CustomFieldEntity } from "@/lib/db/schema/enums";
+import { trpc } from "@/trpc/client";
+
+const entityLabels: Record<CustomFieldEntity, string> = {
+	[CustomFieldEntity.contact]: "Contact fields",
+	[CustomFieldEntity.lead]: "Lead fields",
+};
+
+function CustomFieldsTable({
+	entity,
+}: {
+	entity: CustomFieldEntity;
+}): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const { data: fields, isLoading } =
+		trpc.organization.customField.list.useQuery({ entity });
+
+	const reorderFieldsMutation =
+		trpc.organization.customField.reorder.useMutation({
+			onSuccess: () => {
+				utils.organization.customField.list.invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to reorder custom fields");
+			},
+		});
+
+	const deleteFieldMutation = trpc.organization.customField.delete.useMutation({
+		onSuccess: () => {
+			toast.success("Custom field deleted");
+			utils.organization.customField.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to delete custom field");
+		},
+	});
+
+	const handleMove = (index: number, offset: number) => {
+		if (!fields) return;
+		const ids = fields.map((field) => field.id);
+		const [id] = ids.splice(index, 1);
+		if (!id) return;
+		ids.splice(index + offset, 0, id);
+		reorderFieldsMutation.mutate({ entity, ids });
+	};
+
+	const handleDelete = (field: CustomFieldDefinition) => {
+		NiceModal.show(ConfirmationModal, {
+			title: "Delete custom field?",
+			message: `${field.label} will no longer be shown or validated. Values already saved on records are kept.`,
+			confirmLabel: "Delete",
+			destructive: true,
+			onConfirm: () => deleteFieldMutation.mutate({ id: field.id }),
+		});
+	};
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between">
+				<p className="font-medium text-sm">{entityLabels[entity]}</p>
+				<Button
+					type="button"
+					size="sm"
+					variant="outline"
+					onClick={() => NiceModal.show(CustomFieldModal, { entity })}
+				>
+					<PlusIcon className="size-4" />
+					Add field
+				</Button>
+			</div>
+			{isLoading ? (
+				<Skeleton className="h-16 w-full" />
+			) : !fields || fields.length === 0 ? (
+				<EmptyText>No custom fields yet.</EmptyText>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Field</TableHead>
+							<TableHead>Type</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{fields.map((field, index) => (
+							<TableRow key={field.id}>
+								<TableCell>
+									<div className="flex items-center gap-2 font-medium text-sm">
+										{field.label}
+										{field.required && (
+											<Badge variant="outline" className="text-xs">
+												Required
+											</Badge>
+										)}
+									</div>
+									<div className="font-mono text-muted-foreground text-xs">
+										{field.key}
+									</div>
+								</TableCell>
+								<TableCell>
+									<div className="text-sm">
+										{customFieldTypeLabels[field.type]}
+										{field.currency ? ` (${field.currency})` : ""}
+									</div>
+									{field.options.length > 0 && (
+										<div className="max-w-64 truncate text-muted-foreground text-xs">
+											{field.options.join(", ")}
+										</div>
+									)}
+								</TableCell>
+								<TableCell className="text-right">
+									<div className="flex items-center justify-end gap-1">
+										<Button
+											type="button"
+											variant="ghost"
+											size="icon"
+											disabled={index === 0 || reorderFieldsMutation.isPending}
+											onClick={() => handleMove(index, -1)}
+										>
+											<ArrowUpIcon className="size-4 shrink-0" />
+											<span className="sr-only">Move up</span>
+										</Button>
+										<Button
+											type="button"
+											variant="ghost"
+											size="icon"
+											disabled={
+												index === fields.length - 1 ||
+												reorderFieldsMutation.isPending
+											}
+											onClick={() => handleMove(index, 1)}
+										>
+											<ArrowDownIcon className="size-4 shrink-0" />
+											<span className="sr-only">Move down</span>
+										</Button>
+										<DropdownMenu>
+											<DropdownMenuTrigger asChild>
+												<Button type="button" variant="ghost" size="icon">
+													<MoreVerticalIcon className="size-4 shrink-0" />
+													<span className="sr-only">Field actions</span>
+												</Button>
+											</DropdownMenuTrigger>
+											<DropdownMenuContent align="end">
+												<DropdownMenuItem
+													onClick={() =>
+														NiceModal.show(CustomFieldModal, { entity, field })
+													}
+												>
+													Edit
+												</DropdownMenuItem>
+												<DropdownMenuItem
+													className="text-destructive"
+													onClick={() => handleDelete(field)}
+												>
+													Delete
+												</DropdownMenuItem>
+											</DropdownMenuContent>
+										</DropdownMenu>
+									</div>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Card component for managing the custom fields of contacts and leads.
+ * Only rendered for organization admins.
+ */
+export function CustomFieldsCard(): React.JSX.Element {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Custom fields</CardTitle>
+				<CardDescription>
+					Add typed fields to contacts and leads. They show up in forms, tables,
+					filters, imports and the API.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{Object.values(CustomFieldEntity).map((entity) => (
+					<CustomFieldsTable key={entity} entity={entity} />
+				))}
+			</CardContent>
+		</Card>
+	);
+}
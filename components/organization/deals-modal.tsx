@@ -0,0 +1,395 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { Button } from "@/components/ui/button";
+import { DatePicker } from "@/components/ui/custom/date-picker";
+import { Field } from "@/components/ui/field";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetFooter,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import { createDealSchema, updateDealSchema } from "@/schemas/pipeline.schema";
+import { trpc } from "@/trpc/client";
+
+export type DealsModalProps = NiceModalHocProps & {
+	pipelineId: string;
+	stages: { id: string; name: string }[];
+	// Stage of a new deal, the first stage by default
+	stageId?: string;
+	deal?: {
+		id: string;
+		title: string;
+		stageId: string;
+		amount: number;
+		currency: string;
+		expectedCloseDate: Date | null;
+		notes: string | null;
+	};
+};
+
+function StageHistory({ dealId }: { dealId: string }) {
+	const { data: deal } = trpc.organization.pipeline.getDeal.useQuery({
+		id: dealId,
+	});
+
+	if (!deal || deal.stageHistory.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="space-y-2">
+			<p className="font-medium text-sm">Stage history</p>
+			<ul className="space-y-1.5">
+				{deal.stageHistory.map((change) => (
+					<li
+						key={change.id}
+						className="flex items-start justify-between gap-2 text-xs"
+					>
+						<span className="text-foreground/80">
+							{change.fromStageName
+								? `${change.fromStageName} → ${change.toStageName}`
+								: `Created in ${change.toStageName}`}
+							{change.changedBy ? ` by ${change.changedBy.name}` : ""}
+						</span>
+						<span className="shrink-0 text-muted-foreground">
+							{format(change.createdAt, "MMM d, yyyy")}
+						</span>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
+
+export const DealsModal = NiceModal.create<DealsModalProps>(
+	({ pipelineId, stages, stageId, deal }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const isEditing = !!deal;
+
+		const onSaved = (message: string) => {
+			toast.success(message);
+			utils.organization.pipeline.board.invalidate();
+			modal.handleClose();
+		};
+
+		const createDealMutation =
+			trpc.organization.pipeline.createDeal.useMutation({
+				onSuccess: () => onSaved("Deal created successfully"),
+				onError: (error) => {
+					toast.error(error.message || "Failed to create deal");
+				},
+			});
+
+		const updateDealMutation =
+			trpc.organization.pipeline.updateDeal.useMutation({
+				onSuccess: () => onSaved("Deal updated successfully"),
+				onError: (error) => {
+					toast.error(error.message || "Failed to update deal");
+				},
+			});
+
+		const deleteDealMutation =
+			trpc.organization.pipeline.deleteDeal.useMutation({
+				onSuccess: () => onSaved("Deal deleted"),
+				onError: (error) => {
+					toast.error(error.message || "Failed to delete deal");
+				},
+			});
+
+		const form = useZodForm({
+			schema: isEditing ? updateDealSchema : createDealSchema,
+			defaultValues: isEditing
+				? {
+						id: deal.id,
+						title: deal.title,
+						amount: deal.amount,
+						currency: deal.currency,
+						expectedCloseDate: deal.expectedCloseDate,
+						notes: deal.notes ?? "",
+					}
+				: {
+						pipelineId,
+						stageId: stageId ?? stages[0]?.id,
+						title: "",
+						amount: 0,
+						currency: "usd",
+						expectedCloseDate: null,
+						notes: "",
+					},
+		});
+
+		const onSubmit = form.handleSubmit((data) => {
+			if (isEditing) {
+				updateDealMutation.mutate(
+					data as Parameters<typeof updateDealMutation.mutate>[0],
+				);
+			} else {
+				createDealMutation.mutate(
+					data as Parameters<typeof createDealMutation.mutate>[0],
+				);
+			}
+		});
+
+		const handleDelete = () => {
+			if (!deal) return;
+			NiceModal.show(ConfirmationModal, {
+				title: "Delete deal?",
+				message: `"${deal.title}" and its stage history will be deleted.`,
+				confirmLabel: "Delete",
+				destructive: true,
+				onConfirm: () => deleteDealMutation.mutate({ id: deal.id }),
+			});
+		};
+
+		const isPending =
+			createDealMutation.isPending ||
+			updateDealMutation.isPending ||
+			deleteDealMutation.isPending;
+
+		return (
+			<Sheet
+				open={modal.visible}
+				onOpenChange={(open) => !open && modal.handleClose()}
+			>
+				<SheetContent
+					className="sm:max-w-lg"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+				>
+					<SheetHeader>
+						<SheetTitle>{isEditing ? "Edit Deal" : "Create Deal"}</SheetTitle>
+						<SheetDescription className="sr-only">
+							{isEditing
+								? "Update the deal information below."
+								: "Fill in the details to create a new deal."}
+						</SheetDescription>
+					</SheetHeader>
+
+					<Form {...form}>
+						<form
+							onSubmit={onSubmit}
+							className="flex flex-1 flex-col overflow-hidden"
+						>
+							<ScrollArea className="flex-1">
+								<div className="space-y-4 px-6 py-4">
+									<FormField
+										control={form.control}
+										name="title"
+										render={({ field }) => (
+											<FormItem asChild>
+												<Field>
+													<FormLabel>Title</FormLabel>
+													<FormControl>
+														<Input
+															placeholder="Website redesign"
+															autoComplete="off"
+															{...field}
+														/>
+													</FormControl>
+													<FormMessage />
+												</Field>
+											</FormItem>
+										)}
+									/>
+
+									{!isEditing && (
+										<FormField
+											control={form.control}
+											name="stageId"
+											render={({ field }) => (
+												<FormItem asChild>
+													<Field>
+														<FormLabel>Stage</FormLabel>
+														<Select
+															onValueChange={field.onChange}
+															defaultValue={field.value}
+														>
+															<FormControl>
+																<SelectTrigger className="w-full">
+																	<SelectValue placeholder="Select stage" />
+																</SelectTrigger>
+															</FormControl>
+															<SelectContent>
+																{stages.map((stage) => (
+																	<SelectItem key={stage.id} value={stage.id}>
+																		{stage.name}
+																	</SelectItem>
+																))}
+															</SelectContent>
+														</Select>
+														<FormMessage />
+													</Field>
+												</FormItem>
+											)}
+										/>
+									)}
+
+									<div className="grid grid-cols-3 gap-4">
+										<FormField
+											control={form.control}
+											name="amount"
+											render={({ field }) => (
+												<FormItem asChild className="col-span-2">
+													<Field>
+														<FormLabel>Amount</FormLabel>
+														<FormControl>
+															<Input
+																type="number"
+																min={0}
+																step="0.01"
+																placeholder="10000"
+																autoComplete="off"
+																name={field.name}
+																ref={field.ref}
+																onBlur={field.onBlur}
+																value={
+																	field.value === undefined
+																		? ""
+																		: field.value / 100
+																}
+																onChange={(e) =>
+																	field.onChange(
+																		e.target.value
+																			? Math.round(Number(e.target.value) * 100)
+																			: 0,
+																	)
+																}
+															/>
+														</FormControl>
+														<FormMessage />
+													</Field>
+												</FormItem>
+											)}
+										/>
+										<FormField
+											control={form.control}
+											name="currency"
+											render={({ field }) => (
+												<FormItem asChild>
+													<Field>
+														<FormLabel>Currency</FormLabel>
+														<FormControl>
+															<Input
+																placeholder="usd"
+																autoComplete="off"
+																maxLength={3}
+																{...field}
+																value={field.value ?? ""}
+															/>
+														</FormControl>
+														<FormMessage />
+													</Field>
+												</FormItem>
+											)}
+										/>
+									</div>
+
+									<FormField
+										control={form.control}
+										name="expectedCloseDate"
+										render={({ field }) => (
+											<FormItem asChild>
+												<Field>
+													<FormLabel>Expected close date</FormLabel>
+													<FormControl>
+														<DatePicker
+															className="w-full"
+															date={
+																(field.value as Date | null | undefined) ??
+																undefined
+															}
+															onDateChange={(date) =>
+																field.onChange(date ?? null)
+															}
+														/>
+													</FormControl>
+													<FormMessage />
+												</Field>
+											</FormItem>
+										)}
+									/>
+
+									<FormField
+										control={form.control}
+										name="notes"
+										render={({ field }) => (
+											<FormItem asChild>
+												<Field>
+													<FormLabel>Notes</FormLabel>
+													<FormControl>
+														<Textarea
+															placeholder="Additional notes about this deal..."
+															className="resize-none"
+															rows={3}
+															{...field}
+															value={field.value ?? ""}
+														/>
+													</FormControl>
+													<FormMessage />
+												</Field>
+											</FormItem>
+										)}
+									/>
+
+									{isEditing && <StageHistory dealId={deal.id} />}
+								</div>
+							</ScrollArea>
+
+							<SheetFooter className="flex-row justify-end gap-2 border-t">
+								{isEditing && (
+									<Button
+										type="button"
+										variant="outline"
+										className="mr-auto text-destructive"
+										onClick={handleDelete}
+										disabled={isPending}
+									>
+										Delete
+									</Button>
+								)}
+								<Button
+									type="button"
+									variant="outline"
+									onClick={modal.handleClose}
+									disabled={isPending}
+								>
+									Cancel
+								</Button>
+								<Button type="submit" disabled={isPending} loading={isPending}>
+									{isEditing ? "Update Deal" : "Create Deal"}
+								</Button>
+							</SheetFooter>
+						</form>
+					</Form>
+				</SheetContent>
+			</Sheet>
+		);
+	},
+);
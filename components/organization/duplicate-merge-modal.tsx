@@ -0,0 +1,258 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import type {
+	DuplicateCandidateItem,
+	DuplicateContact,
+} from "@/lib/ember/memoria/duplicates";
+import { cn } from "@/lib/utils";
+import {
+	type MergeableContactField,
+	MergeableContactFields,
+} from "@/schemas/duplicate.schema";
+import { trpc } from "@/trpc/client";
+
+export type DuplicateMergeModalProps = NiceModalHocProps & {
+	candidate: DuplicateCandidateItem;
+};
+
+const fieldLabels: Record<MergeableContactField, string> = {
+	firstName: "First name",
+	lastName: "Last name",
+	email: "Email",
+	phone: "Phone",
+	company: "Company",
+	timezone: "Timezone",
+	channelPreference: "Preferred channel",
+	language: "Language",
+};
+
+function parseTags(tags: string | null): string[] {
+	try {
+		return tags ? (JSON.parse(tags) as string[]) : [];
+	} catch {
+		return [];
+	}
+}
+
+// Details shown to tell the contacts apart, not picked field by field
+const contextRows: {
+	label: string;
+	render: (contact: DuplicateContact) => string;
+}[] = [
+	{ label: "Heat score", render: (contact) => String(contact.heatScore) },
+	{
+		label: "Interactions",
+		render: (contact) => String(contact.interactionCount),
+	},
+	{
+		label: "Last interaction",
+		render: (contact) =>
+			contact.lastInteractionAt
+				? format(contact.lastInteractionAt, "MMM d, yyyy")
+				: "—",
+	},
+	{
+		label: "Tags",
+		render: (contact) => parseTags(contact.tags).join(", ") || "—",
+	},
+	{
+		label: "Created",
+		render: (contact) => format(contact.createdAt, "MMM d, yyyy"),
+	},
+];
+
+function ChoiceRow({
+	label,
+	value,
+	onValueChange,
+	options,
+	disabled,
+}: {
+	label: string;
+	value: string;
+	onValueChange: (value: string) => void;
+	options: { id: string; label: string }[];
+	disabled?: boolean;
+}): React.JSX.Element {
+	return (
+		<RadioGroup
+			value={value}
+			onValueChange={onValueChange}
+			disabled={disabled}
+			className="grid grid-cols-[8rem_1fr_1fr] items-center gap-3 border-b py-2 text-sm last:border-b-0"
+		>
+			<span className="text-muted-foreground">{label}</span>
+			{options.map((option) => {
+				const id = `${label}-${option.id}`;
+				return (
+					<div key={option.id} className="flex min-w-0 items-center gap-2">
+						{!disabled && <RadioGroupItem id={id} value={option.id} />}
+						<Label
+							htmlFor={id}
+							className={cn(
+								"min-w-0 truncate font-normal",
+								!disabled && value !== option.id && "text-muted-foreground",
+							)}
+						>
+							{option.label}
+						</Label>
+					</div>
+				);
+			})}
+		</RadioGroup>
+	);
+}
+
+export const DuplicateMergeModal = NiceModal.create<DuplicateMergeModalProps>(
+	({ candidate }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const contacts = [candidate.contact, candidate.matchedContact];
+
+		// Keep the contact with the most history by default
+		const [primaryId, setPrimaryId] = React.useState(
+			candidate.matchedContact.interactionCount >
+				candidate.contact.interactionCount
+				? candidate.matchedContact.id
+				: candidate.contact.id,
+		);
+		const [picked, setPicked] = React.useState<
+			Partial<Record<MergeableContactField, string>>
+		>({});
+
+		const primary = contacts.find((contact) => contact.id === primaryId);
+		const other = contacts.find((contact) => contact.id !== primaryId);
+
+		// Like a plain merge: the primary's value, or the other's when it has none
+		const getWinner = (field: MergeableContactField): string | undefined =>
+			picked[field] ?? (primary?.[field] ? primary.id : other?.id);
+
+		const differingFields = MergeableContactFields.filter(
+			(field) =>
+				(candidate.contact[field] ?? "") !==
+				(candidate.matchedContact[field] ?? ""),
+		);
+
+		const mergeMutation = trpc.organization.duplicate.merge.useMutation({
+			onSuccess: () => {
+				toast.success("Contacts merged");
+				utils.organization.duplicate.list.invalidate();
+				utils.organization.contact.invalidate();
+				modal.handleClose();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to merge contacts");
+			},
+		});
+
+		const handleMerge = () => {
+			const fields: Partial<Record<MergeableContactField, string>> = {};
+			for (const field of differingFields) {
+				const winner = getWinner(field);
+				if (winner) {
+					fields[field] = winner;
+				}
+			}
+			mergeMutation.mutate({ id: candidate.id, primaryId, fields });
+		};
+
+		const contactOptions = contacts.map((contact) => ({
+			id: contact.id,
+			label: `${contact.firstName} ${contact.lastName}`,
+		}));
+
+		return (
+			<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+				<DialogContent
+					className="max-w-3xl"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+					onClose={modal.handleClose}
+				>
+					<DialogHeader>
+						<DialogTitle>Merge duplicates</DialogTitle>
+						<DialogDescription>
+							{candidate.matchReason} · {candidate.confidence}% confidence. Pick
+							the contact to keep and the value to keep for each field. The
+							merge can be undone from the merge history.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div>
+						<ChoiceRow
+							label="Keep"
+							value={primaryId}
+							onValueChange={(value) => {
+								setPrimaryId(value);
+								setPicked({});
+							}}
+							options={contactOptions}
+						/>
+						{MergeableContactFields.map((field) => (
+							<ChoiceRow
+								key={field}
+								label={fieldLabels[field]}
+								value={getWinner(field) ?? primaryId}
+								onValueChange={(value) =>
+									setPicked((current) => ({ ...current, [field]: value }))
+								}
+								disabled={!differingFields.includes(field)}
+								options={contacts.map((contact) => ({
+									id: contact.id,
+									label: contact[field] || "—",
+								}))}
+							/>
+						))}
+						{contextRows.map((row) => (
+							<ChoiceRow
+								key={row.label}
+								label={row.label}
+								value={primaryId}
+								onValueChange={() => {}}
+								disabled
+								options={contacts.map((contact) => ({
+									id: contact.id,
+									label: row.render(contact),
+								}))}
+							/>
+						))}
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={modal.handleClose}
+							disabled={mergeMutation.isPending}
+						>
+							Cancel
+						</Button>
+						<Button
+							type="button"
+							onClick={handleMerge}
+							disabled={mergeMutation.isPending}
+							loading={mergeMutation.isPending}
+						>
+							Merge
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		);
+	},
+);
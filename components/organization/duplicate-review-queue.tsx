@@ -0,0 +1,264 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { formatDistanceToNow } from "date-fns";
+import { ScanSearchIcon, SettingsIcon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { DuplicateMergeModal } from "@/components/organization/duplicate-merge-modal";
+import { DuplicateSettingsModal } from "@/components/organization/duplicate-settings-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import {
+	UnderlinedTabs,
+	UnderlinedTabsList,
+	UnderlinedTabsTrigger,
+} from "@/components/ui/custom/underlined-tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { duplicatesConfig } from "@/config/duplicates.config";
+import {
+	DuplicateCandidateSource,
+	DuplicateCandidateStatus,
+} from "@/lib/db/schema/enums";
+import type {
+	DuplicateCandidateItem,
+	DuplicateContact,
+} from "@/lib/ember/memoria/duplicates";
+import { trpc } from "@/trpc/client";
+
+const statusTabs: { value: DuplicateCandidateStatus; label: string }[] = [
+	{ value: DuplicateCandidateStatus.pending, label: "To review" },
+	{ value: DuplicateCandidateStatus.merged, label: "Merged" },
+	{ value: DuplicateCandidateStatus.dismissed, label: "Not duplicates" },
+];
+
+function ContactSummary({
+	contact,
+}: {
+	contact: DuplicateContact;
+}): React.JSX.Element {
+	return (
+		<div className="min-w-0 space-y-0.5 text-sm">
+			<p className="truncate font-medium">
+				{contact.firstName} {contact.lastName}
+			</p>
+			<p className="truncate text-muted-foreground">
+				{[contact.email, contact.phone, contact.company]
+					.filter(Boolean)
+					.join(" · ") || "—"}
+			</p>
+		</div>
+	);
+}
+
+function CandidateRow({
+	candidate,
+	onDismiss,
+	isDismissing,
+}: {
+	candidate: DuplicateCandidateItem;
+	onDismiss: () => void;
+	isDismissing: boolean;
+}): React.JSX.Element {
+	const isPending = candidate.status === DuplicateCandidateStatus.pending;
+
+	return (
+		<div className="flex flex-col gap-3 rounded-md border p-3 md:flex-row md:items-center">
+			<div className="grid flex-1 grid-cols-2 gap-4">
+				<ContactSummary contact={candidate.contact} />
+				<ContactSummary contact={candidate.matchedContact} />
+			</div>
+			<div className="flex flex-wrap items-center gap-2 text-xs md:w-64">
+				<Badge variant={candidate.confidence >= 90 ? "default" : "secondary"}>
+					{candidate.confidence}%
+				</Badge>
+				<span className="text-muted-foreground">{candidate.matchReason}</span>
+				<span className="text-muted-foreground">
+					{candidate.source === DuplicateCandidateSource.form
+						? "Form submission"
+						: "Scan"}{" "}
+					·{" "}
+					{formatDistanceToNow(candidate.resolvedAt ?? candidate.createdAt, {
+						addSuffix: true,
+					})}
+				</span>
+			</div>
+			{isPending && (
+				<div className="flex shrink-0 gap-2">
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						loading={isDismissing}
+						onClick={onDismiss}
+					>
+						Not a duplicate
+					</Button>
+					<Button
+						type="button"
+						size="sm"
+						onClick={() => NiceModal.show(DuplicateMergeModal, { candidate })}
+					>
+						Review
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Queue of possible duplicate contacts found on form submission and by the
+ * daily scan
+ */
+export function DuplicateReviewQueue({
+	isAdmin,
+}: {
+	isAdmin: boolean;
+}): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const [status, setStatus] = React.useState<DuplicateCandidateStatus>(
+		DuplicateCandidateStatus.pending,
+	);
+	const [page, setPage] = React.useState(0);
+
+	const { data, isLoading } = trpc.organization.duplicate.list.useQuery({
+		status,
+		page,
+	});
+	const { data: settings } = trpc.organization.duplicate.getSettings.useQuery();
+
+	const dismissMutation = trpc.organization.duplicate.dismiss.useMutation({
+		onSuccess: () => {
+			toast.success("Marked as not a duplicate");
+			utils.organization.duplicate.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to dismiss duplicate");
+		},
+	});
+
+	const scanMutation = trpc.organization.duplicate.scan.useMutation({
+		onSuccess: () => {
+			toast.success("Scan started, new duplicates will show up here");
+			utils.organization.duplicate.getSettings.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to start scan");
+		},
+	});
+
+	const pageCount = Math.ceil((data?.total ?? 0) / duplicatesConfig.pageSize);
+
+	return (
+		<div className="space-y-4">
+			<div className="flex flex-wrap items-center gap-2">
+				<UnderlinedTabs
+					value={status}
+					onValueChange={(value) => {
+						setStatus(value as DuplicateCandidateStatus);
+						setPage(0);
+					}}
+				>
+					<UnderlinedTabsList>
+						{statusTabs.map((tab) => (
+							<UnderlinedTabsTrigger key={tab.value} value={tab.value}>
+								{tab.label}
+							</UnderlinedTabsTrigger>
+						))}
+					</UnderlinedTabsList>
+				</UnderlinedTabs>
+				<div className="ml-auto flex items-center gap-2">
+					{settings && (
+						<span className="text-muted-foreground text-xs">
+							{settings.isScanRunning
+								? "Scanning contacts..."
+								: settings.lastScanAt
+									? `Last scan ${formatDistanceToNow(settings.lastScanAt, { addSuffix: true })}`
+									: "Not scanned yet"}
+						</span>
+					)}
+					{isAdmin && (
+						<>
+							<Button
+								type="button"
+								size="sm"
+								variant="outline"
+								disabled={settings?.isScanRunning}
+								loading={scanMutation.isPending}
+								onClick={() => scanMutation.mutate()}
+							>
+								<ScanSearchIcon className="size-4" />
+								Scan now
+							</Button>
+							<Button
+								type="button"
+								size="sm"
+								variant="outline"
+								disabled={!settings}
+								onClick={() =>
+									settings &&
+									NiceModal.show(DuplicateSettingsModal, { settings })
+								}
+							>
+								<SettingsIcon className="size-4" />
+								Settings
+							</Button>
+						</>
+					)}
+				</div>
+			</div>
+
+			<div className="space-y-2">
+				{isLoading ? (
+					<Skeleton className="h-24 w-full" />
+				) : !data || data.items.length === 0 ? (
+					<EmptyText>
+						{status === DuplicateCandidateStatus.pending
+							? "No duplicates to review."
+							: "Nothing here yet."}
+					</EmptyText>
+				) : (
+					data.items.map((candidate) => (
+						<CandidateRow
+							key={candidate.id}
+							candidate={candidate}
+							isDismissing={
+								dismissMutation.isPending &&
+								dismissMutation.variables?.id === candidate.id
+							}
+							onDismiss={() => dismissMutation.mutate({ id: candidate.id })}
+						/>
+					))
+				)}
+			</div>
+
+			{pageCount > 1 && (
+				<div className="flex items-center justify-between">
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						disabled={page === 0}
+						onClick={() => setPage(page - 1)}
+					>
+						Previous
+					</Button>
+					<span className="text-muted-foreground text-sm">
+						Page {page + 1} of {pageCount}
+					</span>
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						disabled={page + 1 >= pageCount}
+						onClick={() => setPage(page + 1)}
+					>
+						Next
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+} from "@/components/ui/form";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { duplicatesConfig } from "@/config/duplicates.config";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import type { DuplicateSettings } from "@/lib/ember/memoria/duplicates";
+import { updateDuplicateSettingsSchema } from "@/schemas/duplicate.schema";
+import { trpc } from "@/trpc/client";
+
+export type DuplicateSettingsModalProps = NiceModalHocProps & {
+	settings: DuplicateSettings;
+};
+
+export const DuplicateSettingsModal =
+	NiceModal.create<DuplicateSettingsModalProps>(({ settings }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+
+		const updateSettingsMutation =
+			trpc.organization.duplicate.updateSettings.useMutation({
+				onSuccess: () => {
+					toast.success("Duplicate settings saved");
+					utils.organization.duplicate.getSettings.invalidate();
+					modal.handleClose();
+				},
+				onError: (error) => {
+					toast.error(error.message || "Failed to save settings");
+				},
+			});
+
+		const form = useZodForm({
+			schema: updateDuplicateSettingsSchema,
+			defaultValues: {
+				autoMergeEnabled: settings.autoMergeEnabled,
+				autoMergeConfidence: settings.autoMergeConfidence,
+				scanEnabled: settings.scanEnabled,
+			},
+		});
+		const autoMergeEnabled = form.watch("autoMergeEnabled");
+
+		const onSubmit = form.handleSubmit((data) => {
+			updateSettingsMutation.mutate(data);
+		});
+
+		return (
+			<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+				<DialogContent
+					className="max-w-md"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+					onClose={modal.handleClose}
+				>
+					<DialogHeader>
+						<DialogTitle>Duplicate settings</DialogTitle>
+						<DialogDescription>
+							Choose which duplicates are merged on form submission and which
+							wait for review.
+						</DialogDescription>
+					</DialogHeader>
+
+					<Form {...form}>
+						<form onSubmit={onSubmit} className="space-y-6">
+							<FormField
+								control={form.control}
+								name="autoMergeEnabled"
+								render={({ field }) => (
+									<FormItem className="flex items-center justify-between gap-4">
+										<div className="space-y-1">
+											<FormLabel>Merge confident duplicates</FormLabel>
+											<FormDescription>
+												Off sends every duplicate to the review queue.
+											</FormDescription>
+										</div>
+										<FormControl>
+											<Switch
+												checked={field.value}
+												onCheckedChange={field.onChange}
+											/>
+										</FormControl>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="autoMergeConfidence"
+								render={({ field }) => (
+									<FormItem className="space-y-3">
+										<div className="flex items-center justify-between">
+											<FormLabel>Merge at or above</FormLabel>
+											<span className="font-medium text-sm tabular-nums">
+												{field.value}%
+											</span>
+										</div>
+										<FormControl>
+											<Slider
+												min={duplicatesConfig.minAutoMergeConfidence}
+												max={100}
+												step={1}
+												disabled={!autoMergeEnabled}
+												value={[field.value]}
+												onValueChange={([value]) => field.onChange(value)}
+											/>
+										</FormControl>
+										<FormDescription>
+											Exact email matches score 100%, exact phone matches 95%.
+											Name matches score lower.
+										</FormDescription>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="scanEnabled"
+								render={({ field }) => (
+									<FormItem className="flex items-center justify-between gap-4">
+										<div className="space-y-1">
+											<FormLabel>Daily scan</FormLabel>
+											<FormDescription>
+												Look for duplicates among all contacts every night.
+											</FormDescription>
+										</div>
+										<FormControl>
+											<Switch
+												checked={field.value}
+												onCheckedChange={field.onChange}
+											/>
+										</FormControl>
+									</FormItem>
+								)}
+							/>
+
+							<DialogFooter>
+								<Button
+									type="button"
+									variant="outline"
+									onClick={modal.handleClose}
+									disabled={updateSettingsMutation.isPending}
+								>
+									Cancel
+								</Button>
+								<Button
+									type="submit"
+									disabled={updateSettingsMutation.isPending}
+									loading={updateSettingsMutation.isPending}
+								>
+									Save
+								</Button>
+							</DialogFooter>
+						</form>
+					</Form>
+				</DialogContent>
+			</Dialog>
+		);
+	});
@@ -0,0 +1,86 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import * as React from "react";
+import {
+	createFilterGroup,
+	FilterBuilder,
+} from "@/components/organization/filter-builder";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetFooter,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import type { SavedViewEntity } from "@/lib/db/schema/enums";
+import { getFilterFields } from "@/lib/filters/fields";
+import type { FilterGroup } from "@/schemas/filter.schema";
+import { trpc } from "@/trpc/client";
+
+export type FilterBuilderModalProps = NiceModalHocProps & {
+	entity: SavedViewEntity;
+	filter: FilterGroup | null;
+	onApply: (filter: FilterGroup | null) => void;
+};
+
+export const FilterBuilderModal = NiceModal.create<FilterBuilderModalProps>(
+	({ entity, filter, onApply }) => {
+		const modal = useEnhancedModal();
+		const [draft, setDraft] = React.useState<FilterGroup>(
+			filter ?? createFilterGroup(),
+		);
+
+		const { data: customFields } = trpc.organization.customField.list.useQuery({
+			entity,
+		});
+		const fields = getFilterFields(entity, customFields ?? []);
+
+		const apply = (value: FilterGroup | null) => {
+			onApply(value && value.children.length > 0 ? value : null);
+			modal.handleClose();
+		};
+
+		return (
+			<Sheet
+				open={modal.visible}
+				onOpenChange={(open) => !open && modal.handleClose()}
+			>
+				<SheetContent
+					className="sm:max-w-2xl"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+				>
+					<SheetHeader>
+						<SheetTitle>Filter {entity}s</SheetTitle>
+						<SheetDescription>
+							Combine conditions on any field, nest groups to mix all and any.
+						</SheetDescription>
+					</SheetHeader>
+
+					<ScrollArea className="flex-1">
+						<div className="px-6 py-4">
+							<FilterBuilder
+								fields={fields}
+								value={draft}
+								onChange={setDraft}
+							/>
+						</div>
+					</ScrollArea>
+
+					<SheetFooter className="flex-row justify-end gap-2 border-t">
+						<Button type="button" variant="outline" onClick={() => apply(null)}>
+							Clear
+						</Button>
+						<Button type="button" onClick={() => apply(draft)}>
+							Apply
+						</Button>
+					</SheetFooter>
+				</SheetContent>
+			</Sheet>
+		);
+	},
+);
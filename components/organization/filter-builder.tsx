@@ -0,0 +1,381 @@
+"use client";
+
+import { PlusIcon, XIcon } from "lucide-react";
+import type * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { savedViewsConfig } from "@/config/saved-views.config";
+import { authClient } from "@/lib/auth/client";
+import {
+	type FilterField,
+	type FilterFieldType,
+	filterOperatorsByType,
+} from "@/lib/filters/fields";
+import { capitalize } from "@/lib/utils";
+import type { CustomFieldFilterOperator } from "@/schemas/custom-field.schema";
+import type { FilterCondition, FilterGroup } from "@/schemas/filter.schema";
+
+type FilterChild = FilterGroup["children"][number];
+
+type MemberOption = { value: string; label: string };
+
+const operatorLabels: Record<CustomFieldFilterOperator, string> = {
+	equals: "is",
+	notEquals: "is not",
+	contains: "contains",
+	greaterThan: "is greater than",
+	lessThan: "is less than",
+	isEmpty: "is empty",
+	isNotEmpty: "is not empty",
+};
+
+const operatorLabelsByType: Partial<
+	Record<FilterFieldType, Partial<Record<CustomFieldFilterOperator, string>>>
+> = {
+	date: { equals: "is on", greaterThan: "is after", lessThan: "is before" },
+	tags: {
+		equals: "has any of",
+		contains: "has all of",
+		notEquals: "has none of",
+		isEmpty: "has no tags",
+		isNotEmpty: "has tags",
+	},
+};
+
+function getOperatorLabel(
+	type: FilterFieldType,
+	operator: CustomFieldFilterOperator,
+): string {
+	return operatorLabelsByType[type]?.[operator] ?? operatorLabels[operator];
+}
+
+export function createFilterGroup(): FilterGroup {
+	return { type: "group", combinator: "and", children: [] };
+}
+
+/**
+ * Conditions in a filter, all groups included
+ */
+export function countFilterConditions(filter: FilterGroup | null): number {
+	return (filter?.children ?? []).reduce(
+		(total, child) =>
+			total + (child.type === "group" ? countFilterConditions(child) : 1),
+		0,
+	);
+}
+
+function createCondition(field: FilterField): FilterCondition {
+	return {
+		type: "condition",
+		field: field.key,
+		operator: filterOperatorsByType[field.type][0] ?? "equals",
+	};
+}
+
+function FilterValueInput({
+	field,
+	condition,
+	members,
+	onChange,
+}: {
+	field: FilterField;
+	condition: FilterCondition;
+	members: MemberOption[];
+	onChange: (value: FilterCondition["value"]) => void;
+}): React.JSX.Element | null {
+	if (condition.operator === "isEmpty" || condition.operator === "isNotEmpty") {
+		return null;
+	}
+
+	const value = Array.isArray(condition.value)
+		? condition.value.join(", ")
+		: (condition.value ?? "");
+
+	if (field.type === "select" || field.type === "member") {
+		const options =
+			field.type === "member"
+				? members
+				: field.options.map((option) => ({
+						value: option,
+						label: capitalize(option.replace("_", " ")),
+					}));
+		return (
+			<Select value={value || undefined} onValueChange={onChange}>
+				<SelectTrigger className="h-8 w-full sm:w-44">
+					<SelectValue placeholder="Select..." />
+				</SelectTrigger>
+				<SelectContent>
+					{options.map((option) => (
+						<SelectItem key={option.value} value={option.value}>
+							{option.label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		);
+	}
+
+	if (field.type === "tags") {
+		return (
+			<Input
+				className="h-8 w-full sm:w-44"
+				placeholder="vip, retail"
+				value={value}
+				onChange={(event) => onChange(event.target.value)}
+			/>
+		);
+	}
+
+	return (
+		<Input
+			className="h-8 w-full sm:w-44"
+			type={
+				field.type === "number"
+					? "number"
+					: field.type === "date"
+						? "date"
+						: "text"
+			}
+			value={value}
+			onChange={(event) => onChange(event.target.value)}
+		/>
+	);
+}
+
+function FilterConditionRow({
+	condition,
+	fields,
+	members,
+	onChange,
+	onRemove,
+}: {
+	condition: FilterCondition;
+	fields: FilterField[];
+	members: MemberOption[];
+	onChange: (condition: FilterCondition) => void;
+	onRemove: () => void;
+}): React.JSX.Element {
+	const field = fields.find((option) => option.key === condition.field);
+
+	return (
+		<div className="flex flex-wrap items-center gap-2">
+			<Select
+				value={condition.field}
+				onValueChange={(key) => {
+					const next = fields.find((option) => option.key === key);
+					if (next) onChange(createCondition(next));
+				}}
+			>
+				<SelectTrigger className="h-8 w-full sm:w-40">
+					<SelectValue placeholder="Field" />
+				</SelectTrigger>
+				<SelectContent>
+					{fields.map((option) => (
+						<SelectItem key={option.key} value={option.key}>
+							{option.label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			{field && (
+				<Select
+					value={condition.operator}
+					onValueChange={(operator) =>
+						onChange({
+							...condition,
+							operator: operator as CustomFieldFilterOperator,
+						})
+					}
+				>
+					<SelectTrigger className="h-8 w-full sm:w-36">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{filterOperatorsByType[field.type].map((operator) => (
+							<SelectItem key={operator} value={operator}>
+								{getOperatorLabel(field.type, operator)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			)}
+			{field && (
+				<FilterValueInput
+					field={field}
+					condition={condition}
+					members={members}
+					onChange={(value) => onChange({ ...condition, value })}
+				/>
+			)}
+			<Button
+				type="button"
+				variant="ghost"
+				size="icon"
+				className="size-8"
+				onClick={onRemove}
+			>
+				<XIcon className="size-4 shrink-0" />
+				<span className="sr-only">Remove condition</span>
+			</Button>
+		</div>
+	);
+}
+
+function FilterGroupEditor({
+	group,
+	depth,
+	fields,
+	members,
+	onChange,
+	onRemove,
+}: {
+	group: FilterGroup;
+	depth: number;
+	fields: FilterField[];
+	members: MemberOption[];
+	onChange: (group: FilterGroup) => void;
+	onRemove?: () => void;
+}): React.JSX.Element {
+	const [firstField] = fields;
+
+	const updateChild = (index: number, child: FilterChild | null) => {
+		const children = [...group.children];
+		if (child) {
+			children.splice(index, 1, child);
+		} else {
+			children.splice(index, 1);
+		}
+		onChange({ ...group, children });
+	};
+
+	return (
+		<div className="space-y-3 rounded-lg border p-3">
+			<div className="flex items-center justify-between gap-2">
+				<Select
+					value={group.combinator}
+					onValueChange={(combinator) =>
+						onChange({
+							...group,
+							combinator: combinator as FilterGroup["combinator"],
+						})
+					}
+				>
+					<SelectTrigger className="h-8 w-56">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="and">Match all conditions</SelectItem>
+						<SelectItem value="or">Match any condition</SelectItem>
+					</SelectContent>
+				</Select>
+				{onRemove && (
+					<Button
+						type="button"
+						variant="ghost"
+						size="icon"
+						className="size-8"
+						onClick={onRemove}
+					>
+						<XIcon className="size-4 shrink-0" />
+						<span className="sr-only">Remove group</span>
+					</Button>
+				)}
+			</div>
+
+			{group.children.map((child, index) =>
+				child.type === "group" ? (
+					<FilterGroupEditor
+						key={index}
+						group={child}
+						depth={depth + 1}
+						fields={fields}
+						members={members}
+						onChange={(next) => updateChild(index, next)}
+						onRemove={() => updateChild(index, null)}
+					/>
+				) : (
+					<FilterConditionRow
+						key={index}
+						condition={child}
+						fields={fields}
+						members={members}
+						onChange={(next) => updateChild(index, next)}
+						onRemove={() => updateChild(index, null)}
+					/>
+				),
+			)}
+
+			<div className="flex gap-2">
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					disabled={!firstField}
+					onClick={() =>
+						firstField &&
+						onChange({
+							...group,
+							children: [...group.children, createCondition(firstField)],
+						})
+					}
+				>
+					<PlusIcon className="size-4" />
+					Condition
+				</Button>
+				{depth < savedViewsConfig.maxFilterDepth && (
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={() =>
+							onChange({
+								...group,
+								children: [...group.children, createFilterGroup()],
+							})
+						}
+					>
+						<PlusIcon className="size-4" />
+						Group
+					</Button>
+				)}
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Editor of nested AND / OR filter groups over standard and custom fields,
+ * see lib/filters for how filters are matched
+ */
+export function FilterBuilder({
+	fields,
+	value,
+	onChange,
+}: {
+	fields: FilterField[];
+	value: FilterGroup;
+	onChange: (value: FilterGroup) => void;
+}): React.JSX.Element {
+	const { data: organization } = authClient.useActiveOrganization();
+	const members = (organization?.members ?? []).map((member) => ({
+		value: member.userId,
+		label: member.user.name || member.user.email,
+	}));
+
+	return (
+		<FilterGroupEditor
+			group={value}
+			depth={0}
+			fields={fields}
+			members={members}
+			onChange={onChange}
+		/>
+	);
+}
@@ -0,0 +1,617 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { PlusIcon, XIcon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardFooter,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { heatScoreConfig } from "@/config/heat-score.config";
+import {
+	ChannelTypes,
+	CustomFieldEntity,
+	HeatScoreRunReason,
+	HeatScoreRunStatus,
+	HeatScoreSignalType,
+	HeatScoreSignalTypes,
+} from "@/lib/db/schema/enums";
+import type {
+	HeatScoreDistribution,
+	HeatScoreModelSettings,
+	HeatScorePreview,
+} from "@/lib/ember/memoria/scoring";
+import { capitalize, cn } from "@/lib/utils";
+import {
+	type HeatScoreModel,
+	type HeatScoreSignal,
+	heatScoreModelSchema,
+} from "@/schemas/heat-score.schema";
+import { trpc } from "@/trpc/client";
+
+const ANY_FORM = "any";
+
+const signalTypeLabels: Record<HeatScoreSignalType, string> = {
+	recency: "Recent interaction",
+	interactions: "Interactions",
+	lifetime_value: "Lifetime value",
+	response_time: "Response time",
+	form_submitted: "Form submitted",
+	quote_accepted: "Quote accepted",
+	tag: "Tag",
+	channel: "Channel used",
+	custom_field: "Custom field",
+};
+
+const levelLabels: Record<keyof HeatScoreDistribution, string> = {
+	hot: "Hot",
+	warm: "Warm",
+	cold: "Cold",
+};
+
+function createSignal(type: HeatScoreSignalType): HeatScoreSignal {
+	switch (type) {
+		case HeatScoreSignalType.recency:
+		case HeatScoreSignalType.quoteAccepted:
+			return { type, weight: 20 };
+		case HeatScoreSignalType.interactions:
+			return { type, weight: 20, target: 10 };
+		case HeatScoreSignalType.lifetimeValue:
+			return { type, weight: 20, target: 100000 };
+		case HeatScoreSignalType.responseTime:
+			return { type, weight: 20, target: 300 };
+		case HeatScoreSignalType.formSubmitted:
+			return { type, weight: 20, formId: null };
+		case HeatScoreSignalType.tag:
+			return { type, weight: 20, tag: "" };
+		case HeatScoreSignalType.channel:
+			return { type, weight: 20, channel: "whatsapp" };
+		case HeatScoreSignalType.customField:
+			return { type, weight: 20, key: "", value: "" };
+	}
+}
+
+function toModel(settings: HeatScoreModel): HeatScoreModel {
+	return {
+		decayHalfLifeDays: settings.decayHalfLifeDays,
+		hotThreshold: settings.hotThreshold,
+		warmThreshold: settings.warmThreshold,
+		signals: settings.signals,
+	};
+}
+
+function NumberInput({
+	id,
+	value,
+	onChange,
+	className,
+}: {
+	id?: string;
+	value: number;
+	onChange: (value: number) => void;
+	className?: string;
+}): React.JSX.Element {
+	return (
+		<Input
+			id={id}
+			type="number"
+			className={cn("h-8", className)}
+			value={Number.isNaN(value) ? "" : value}
+			onChange={(event) => onChange(event.target.valueAsNumber)}
+		/>
+	);
+}
+
+/**
+ * Inputs of the settings specific to a signal type
+ */
+function SignalParameters({
+	signal,
+	onChange,
+}: {
+	signal: HeatScoreSignal;
+	onChange: (signal: HeatScoreSignal) => void;
+}): React.JSX.Element | null {
+	const { data: forms } = trpc.organization.form.list.useQuery(
+		{ limit: 100 },
+		{ enabled: signal.type === HeatScoreSignalType.formSubmitted },
+	);
+	const { data: customFields } = trpc.organization.customField.list.useQuery(
+		{ entity: CustomFieldEntity.contact },
+		{ enabled: signal.type === HeatScoreSignalType.customField },
+	);
+
+	switch (signal.type) {
+		case HeatScoreSignalType.interactions:
+		case HeatScoreSignalType.lifetimeValue:
+		case HeatScoreSignalType.responseTime: {
+			// Lifetime value is stored in cents, response time in seconds
+			const scale =
+				signal.type === HeatScoreSignalType.lifetimeValue
+					? 100
+					: signal.type === HeatScoreSignalType.responseTime
+						? 60
+						: 1;
+			const unit =
+				signal.type === HeatScoreSignalType.lifetimeValue
+					? "or more ($)"
+					: signal.type === HeatScoreSignalType.responseTime
+						? "minutes or less"
+						: "or more";
+			return (
+				<div className="flex items-center gap-2 text-muted-foreground text-sm">
+					<span>Full points at</span>
+					<NumberInput
+						className="w-24"
+						value={signal.target / scale}
+						onChange={(value) =>
+							onChange({ ...signal, target: Math.round(value * scale) })
+						}
+					/>
+					<span>{unit}</span>
+				</div>
+			);
+		}
+		case HeatScoreSignalType.formSubmitted:
+			return (
+				<Select
+					value={signal.formId ?? ANY_FORM}
+					onValueChange={(value) =>
+						onChange({ ...signal, formId: value === ANY_FORM ? null : value })
+					}
+				>
+					<SelectTrigger className="h-8 w-full sm:w-48">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={ANY_FORM}>Any form</SelectItem>
+						{forms?.forms.map((form) => (
+							<SelectItem key={form.id} value={form.id}>
+								{form.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			);
+		case HeatScoreSignalType.tag:
+			return (
+				<Input
+					className="h-8 w-full sm:w-48"
+					placeholder="vip"
+					value={signal.tag}
+					onChange={(event) => onChange({ ...signal, tag: event.target.value })}
+				/>
+			);
+		case HeatScoreSignalType.channel:
+			return (
+				<Select
+					value={signal.channel}
+					onValueChange={(value) =>
+						onChange({ ...signal, channel: value as typeof signal.channel })
+					}
+				>
+					<SelectTrigger className="h-8 w-full sm:w-48">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{ChannelTypes.map((channel) => (
+							<SelectItem key={channel} value={channel}>
+								{capitalize(channel)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			);
+		case HeatScoreSignalType.customField:
+			return (
+				<div className="flex flex-wrap items-center gap-2">
+					<Select
+						value={signal.key || undefined}
+						onValueChange={(key) => onChange({ ...signal, key })}
+					>
+						<SelectTrigger className="h-8 w-full sm:w-40">
+							<SelectValue placeholder="Field" />
+						</SelectTrigger>
+						<SelectContent>
+							{customFields?.map((field) => (
+								<SelectItem key={field.key} value={field.key}>
+									{field.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Input
+						className="h-8 w-full sm:w-36"
+						placeholder="Any value"
+						value={signal.value}
+						onChange={(event) =>
+							onChange({ ...signal, value: event.target.value })
+						}
+					/>
+				</div>
+			);
+		default:
+			return null;
+	}
+}
+
+function SignalRow({
+	signal,
+	onChange,
+	onRemove,
+}: {
+	signal: HeatScoreSignal;
+	onChange: (signal: HeatScoreSignal) => void;
+	onRemove: () => void;
+}): React.JSX.Element {
+	return (
+		<div className="flex flex-wrap items-center gap-2 border-b py-2 last:border-b-0">
+			<Select
+				value={signal.type}
+				onValueChange={(type) =>
+					onChange({
+						...createSignal(type as HeatScoreSignalType),
+						weight: signal.weight,
+					})
+				}
+			>
+				<SelectTrigger className="h-8 w-full sm:w-44">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{HeatScoreSignalTypes.map((type) => (
+						<SelectItem key={type} value={type}>
+							{signalTypeLabels[type]}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			<div className="flex items-center gap-2 text-muted-foreground text-sm">
+				<NumberInput
+					className="w-20"
+					value={signal.weight}
+					onChange={(weight) => onChange({ ...signal, weight })}
+				/>
+				<span>points</span>
+			</div>
+			<SignalParameters signal={signal} onChange={onChange} />
+			<Button
+				type="button"
+				size="icon"
+				variant="ghost"
+				className="ml-auto size-8"
+				onClick={onRemove}
+			>
+				<XIcon className="size-4" />
+				<span className="sr-only">Remove signal</span>
+			</Button>
+		</div>
+	);
+}
+
+function PreviewPanel({
+	preview,
+}: {
+	preview: HeatScorePreview;
+}): React.JSX.Element {
+	const highest = Math.max(1, ...preview.histogram);
+
+	return (
+		<div className="space-y-4 rounded-md border p-4">
+			<p className="text-muted-foreground text-sm">
+				{preview.sampled < preview.total
+					? `Based on ${preview.sampled} of ${preview.total} active contacts, picked at random.`
+					: `Based on all ${preview.total} active contacts.`}
+			</p>
+			<div className="grid grid-cols-3 gap-4">
+				{(Object.keys(levelLabels) as (keyof HeatScoreDistribution)[]).map(
+					(level) => (
+						<div key={level} className="space-y-1">
+							<p className="text-muted-foreground text-xs">
+								{levelLabels[level]}
+							</p>
+							<p className="font-medium text-lg tabular-nums">
+								{preview.preview[level]}
+							</p>
+							<p className="text-muted-foreground text-xs tabular-nums">
+								{preview.current[level]} now
+							</p>
+						</div>
+					),
+				)}
+			</div>
+			<div className="flex h-24 items-end gap-1">
+				{preview.histogram.map((count, index) => (
+					<div
+						key={index}
+						className="flex flex-1 flex-col items-center gap-1"
+						title={`${index * 10}-${index === 9 ? 100 : index * 10 + 9}: ${count}`}
+					>
+						<div
+							className="w-full rounded-sm bg-primary/70"
+							style={{ height: `${(count / highest) * 72}px` }}
+						/>
+						<span className="text-[10px] text-muted-foreground">
+							{index * 10}
+						</span>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
+
+function HeatScoreModelForm({
+	settings,
+}: {
+	settings: HeatScoreModelSettings;
+}): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const [draft, setDraft] = React.useState<HeatScoreModel>(() =>
+		toModel(settings),
+	);
+	const [preview, setPreview] = React.useState<HeatScorePreview | null>(null);
+
+	const previewMutation = trpc.organization.heatScore.preview.useMutation({
+		onSuccess: (data) => setPreview(data),
+		onError: (error) => {
+			toast.error(error.message || "Failed to preview the model");
+		},
+	});
+
+	const updateModelMutation =
+		trpc.organization.heatScore.updateModel.useMutation({
+			onSuccess: () => {
+				toast.success("Heat score model saved, contacts are being re-scored");
+				utils.organization.heatScore.getModel.invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to save the model");
+			},
+		});
+
+	const update = (changes: Partial<HeatScoreModel>) => {
+		setDraft((current) => ({ ...current, ...changes }));
+		setPreview(null);
+	};
+
+	const updateSignal = (index: number, signal: HeatScoreSignal) => {
+		update({
+			signals: draft.signals.map((current, i) =>
+				i === index ? signal : current,
+			),
+		});
+	};
+
+	// Validated model, or null after showing what is wrong
+	const getValidModel = (): HeatScoreModel | null => {
+		const result = heatScoreModelSchema.safeParse(draft);
+		if (!result.success) {
+			toast.error(result.error.issues[0]?.message ?? "Invalid model");
+			return null;
+		}
+		return result.data;
+	};
+
+	const maxScore = draft.signals.reduce(
+		(total, signal) => total + Math.max(signal.weight || 0, 0),
+		0,
+	);
+
+	return (
+		<>
+			<CardContent className="space-y-6">
+				<div className="grid gap-4 sm:grid-cols-3">
+					<div className="space-y-2">
+						<Label htmlFor="decayHalfLifeDays">Half-life (days)</Label>
+						<NumberInput
+							id="decayHalfLifeDays"
+							value={draft.decayHalfLifeDays}
+							onChange={(decayHalfLifeDays) => update({ decayHalfLifeDays })}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="hotThreshold">Hot from</Label>
+						<NumberInput
+							id="hotThreshold"
+							value={draft.hotThreshold}
+							onChange={(hotThreshold) => update({ hotThreshold })}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="warmThreshold">Warm from</Label>
+						<NumberInput
+							id="warmThreshold"
+							value={draft.warmThreshold}
+							onChange={(warmThreshold) => update({ warmThreshold })}
+						/>
+					</div>
+				</div>
+				<p className="text-muted-foreground text-sm">
+					Recent interactions, form submissions, accepted quotes and channels
+					give their points on the day they happen, halved every half-life
+					after. Scores are capped at 100
+					{maxScore > 100 ? `, signals add up to ${maxScore}` : ""}.
+				</p>
+
+				<div>
+					{draft.signals.map((signal, index) => (
+						<SignalRow
+							key={index}
+							signal={signal}
+							onChange={(value) => updateSignal(index, value)}
+							onRemove={() =>
+								update({
+									signals: draft.signals.filter((_, i) => i !== index),
+								})
+							}
+						/>
+					))}
+					<Button
+						type="button"
+						size="sm"
+						variant="ghost"
+						className="mt-2"
+						disabled={draft.signals.length >= heatScoreConfig.maxSignals}
+						onClick={() =>
+							update({
+								signals: [
+									...draft.signals,
+									createSignal(HeatScoreSignalType.tag),
+								],
+							})
+						}
+					>
+						<PlusIcon className="size-4" />
+						Add signal
+					</Button>
+				</div>
+
+				{preview && <PreviewPanel preview={preview} />}
+			</CardContent>
+			<CardFooter className="flex flex-wrap justify-between gap-2">
+				<Button
+					type="button"
+					variant="ghost"
+					onClick={() => update(toModel(heatScoreConfig.defaultModel))}
+				>
+					Use default model
+				</Button>
+				<div className="flex gap-2">
+					<Button
+						type="button"
+						variant="outline"
+						loading={previewMutation.isPending}
+						onClick={() => {
+							const model = getValidModel();
+							if (model) previewMutation.mutate(model);
+						}}
+					>
+						Preview
+					</Button>
+					<Button
+						type="button"
+						loading={updateModelMutation.isPending}
+						onClick={() => {
+							const model = getValidModel();
+							if (model) updateModelMutation.mutate(model);
+						}}
+					>
+						Save
+					</Button>
+				</div>
+			</CardFooter>
+		</>
+	);
+}
+
+/**
+ * Progress of the latest re-scoring of all contacts
+ */
+function RunStatus({
+	run,
+}: {
+	run: NonNullable<HeatScoreModelSettings["run"]>;
+}): React.JSX.Element {
+	const reason =
+		run.reason === HeatScoreRunReason.decay ? "Nightly decay" : "Model update";
+
+	if (run.status === HeatScoreRunStatus.running) {
+		const percent =
+			run.totalContacts > 0
+				? Math.min((run.processedContacts / run.totalContacts) * 100, 100)
+				: 0;
+		return (
+			<div className="space-y-2">
+				<div className="flex justify-between text-muted-foreground text-xs">
+					<span>{reason}: re-scoring contacts...</span>
+					<span className="tabular-nums">
+						{Math.min(
+							run.processedContacts,
+							run.totalContacts,
+						).toLocaleString()}{" "}
+						/ {run.totalContacts.toLocaleString()}
+					</span>
+				</div>
+				<Progress value={percent} />
+			</div>
+		);
+	}
+
+	const finishedAt = run.completedAt ?? run.startedAt;
+	return (
+		<p
+			className={cn(
+				"text-xs",
+				run.status === HeatScoreRunStatus.failed
+					? "text-destructive"
+					: "text-muted-foreground",
+			)}
+		>
+			{reason} {formatDistanceToNow(finishedAt, { addSuffix: true })}:{" "}
+			{run.status === HeatScoreRunStatus.completed
+				? `${run.updatedContacts.toLocaleString()} of ${run.processedContacts.toLocaleString()} contacts changed score`
+				: run.status === HeatScoreRunStatus.cancelled
+					? "replaced by a newer model"
+					: (run.errorMessage ?? "failed")}
+		</p>
+	);
+}
+
+/**
+ * Card component for the heat score model of the organization.
+ * Only rendered for organization admins.
+ */
+export function HeatScoreModelCard(): React.JSX.Element {
+	const { data: settings, isLoading } =
+		trpc.organization.heatScore.getModel.useQuery(undefined, {
+			refetchInterval: (query) =>
+				query.state.data?.run?.status === HeatScoreRunStatus.running
+					? 2_000
+					: false,
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Heat score</CardTitle>
+				<CardDescription>
+					Choose the signals that make a contact hot and how many points each is
+					worth. Preview the result on your contacts before saving.
+				</CardDescription>
+			</CardHeader>
+			{settings?.run && (
+				<CardContent>
+					<RunStatus run={settings.run} />
+				</CardContent>
+			)}
+			{isLoading || !settings ? (
+				<CardContent>
+					<Skeleton className="h-48 w-full" />
+				</CardContent>
+			) : (
+				<HeatScoreModelForm
+					key={settings.updatedAt?.toISOString() ?? "default"}
+					settings={settings}
+				/>
+			)}
+		</Card>
+	);
+}
@@ -0,0 +1,717 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { DownloadIcon, UploadIcon } from "lucide-react";
+import * as React from "react";
+import { useDropzone } from "react-dropzone";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetFooter,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { importsConfig } from "@/config/imports.config";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import {
+	ImportDuplicateAction,
+	ImportEntity,
+	ImportStatus,
+} from "@/lib/db/schema/enums";
+import {
+	CUSTOM_FIELD_PREFIX,
+	customFieldEntityByImportEntity,
+	type ImportMapping,
+	importFields,
+} from "@/lib/imports/fields";
+import { cn, downloadCsv } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+export type ImportWizardModalProps = NiceModalHocProps & {
+	entity: ImportEntity;
+};
+
+type Step = "upload" | "mapping" | "preview" | "progress";
+
+type ImportSummary = {
+	id: string;
+	entity: ImportEntity;
+	status: ImportStatus;
+	fileName: string;
+	headers: string[];
+	mapping: ImportMapping;
+	totalRows: number;
+	processedRows: number;
+	createdCount: number;
+	mergedCount: number;
+	skippedCount: number;
+	errorCount: number;
+	errorMessage: string | null;
+	createdAt: Date;
+};
+
+type Decision = { action: ImportDuplicateAction; contactId?: string };
+
+const IGNORE = "ignore";
+const EXCEL_EXTENSION = /\.xlsx$/i;
+
+const entityLabels: Record<ImportEntity, string> = {
+	[ImportEntity.contacts]: "Contacts",
+	[ImportEntity.leads]: "Leads",
+};
+
+const statusLabels: Record<ImportStatus, string> = {
+	[ImportStatus.mapping]: "Not started",
+	[ImportStatus.processing]: "Importing",
+	[ImportStatus.completed]: "Completed",
+	[ImportStatus.failed]: "Failed",
+};
+
+function getDuplicateActionLabel(
+	entity: ImportEntity,
+	action: ImportDuplicateAction,
+): string {
+	switch (action) {
+		case ImportDuplicateAction.create:
+			return "Create anyway";
+		case ImportDuplicateAction.merge:
+			return entity === ImportEntity.leads
+				? "Link to the existing contact"
+				: "Merge into the existing contact";
+		case ImportDuplicateAction.skip:
+			return "Skip";
+	}
+}
+
+function ImportCounts({ job }: { job: ImportSummary }) {
+	return (
+		<div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground text-xs">
+			<span>
+				Created <span className="text-foreground">{job.createdCount}</span>
+			</span>
+			<span>
+				{job.entity === ImportEntity.leads ? "Linked" : "Merged"}{" "}
+				<span className="text-foreground">{job.mergedCount}</span>
+			</span>
+			<span>
+				Skipped <span className="text-foreground">{job.skippedCount}</span>
+			</span>
+			<span>
+				Errors <span className="text-foreground">{job.errorCount}</span>
+			</span>
+		</div>
+	);
+}
+
+function ErrorReportButton({ importId }: { importId: string }) {
+	const errorReportMutation = trpc.organization.import.errorReport.useMutation({
+		onSuccess: (report) => {
+			downloadCsv(report.csv, report.fileName);
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to download the error report");
+		},
+	});
+
+	return (
+		<Button
+			type="button"
+			size="sm"
+			variant="outline"
+			loading={errorReportMutation.isPending}
+			onClick={() => errorReportMutation.mutate({ id: importId })}
+		>
+			<DownloadIcon className="size-4" />
+			Error report
+		</Button>
+	);
+}
+
+/**
+ * Upload-and-map wizard importing contacts or leads from a CSV / Excel file
+ */
+export const ImportWizardModal = NiceModal.create<ImportWizardModalProps>(
+	(props) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const [entity, setEntity] = React.useState(props.entity);
+		const [step, setStep] = React.useState<Step>("upload");
+		const [job, setJob] = React.useState<ImportSummary>();
+		const [sampleRows, setSampleRows] = React.useState<string[][]>([]);
+		const [mapping, setMapping] = React.useState<ImportMapping>([]);
+		const [duplicateAction, setDuplicateAction] =
+			React.useState<ImportDuplicateAction>(ImportDuplicateAction.skip);
+		const [decisions, setDecisions] = React.useState<Record<number, Decision>>(
+			{},
+		);
+		const [uploading, setUploading] = React.useState(false);
+
+		const { data: recentImports } = trpc.organization.import.list.useQuery(
+			{ entity },
+			{ enabled: step === "upload" },
+		);
+
+		const { data: customFields } = trpc.organization.customField.list.useQuery(
+			{ entity: customFieldEntityByImportEntity[job?.entity ?? entity] },
+			{ enabled: step === "mapping" },
+		);
+
+		const { data: progress } = trpc.organization.import.get.useQuery(
+			{ id: job?.id ?? "" },
+			{
+				enabled: step === "progress" && !!job,
+				refetchInterval: (query) =>
+					query.state.data?.status === ImportStatus.processing ? 2_000 : false,
+			},
+		);
+
+		const createUploadUrlMutation =
+			trpc.organization.import.createUploadUrl.useMutation();
+		const createMutation = trpc.organization.import.create.useMutation();
+
+		const previewMutation = trpc.organization.import.preview.useMutation({
+			onSuccess: () => {
+				setDecisions({});
+				setStep("preview");
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to preview the import");
+			},
+		});
+
+		const startMutation = trpc.organization.import.start.useMutation({
+			onSuccess: (started) => {
+				setJob(started);
+				setStep("progress");
+				utils.organization.import.get.setData({ id: started.id }, started);
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to start the import");
+			},
+		});
+
+		// Imported records show up in the lists once the import is done
+		const finished =
+			progress?.status === ImportStatus.completed ||
+			progress?.status === ImportStatus.failed;
+		React.useEffect(() => {
+			if (finished) {
+				utils.organization.lead.list.invalidate();
+				utils.organization.contact.list.invalidate();
+			}
+		}, [finished, utils]);
+
+		const uploadFile = async (file: File) => {
+			const mimeType = EXCEL_EXTENSION.test(file.name)
+				? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+				: "text/csv";
+
+			const { path, signedUrl } = await createUploadUrlMutation.mutateAsync({
+				fileName: file.name,
+				mimeType,
+				fileSize: file.size,
+			});
+
+			const response = await fetch(signedUrl, {
+				method: "PUT",
+				body: file,
+				headers: {
+					"Content-Type": mimeType,
+				},
+			});
+
+			if (!response.ok) {
+				throw new Error(`Failed to upload ${file.name}`);
+			}
+
+			const created = await createMutation.mutateAsync({
+				entity,
+				path,
+				fileName: file.name,
+				mimeType,
+				fileSize: file.size,
+			});
+
+			setJob(created);
+			setSampleRows(created.sampleRows);
+			setMapping(created.mapping);
+			setStep("mapping");
+		};
+
+		const { getRootProps, getInputProps, isDragActive } = useDropzone({
+			accept: {
+				"text/csv": [".csv"],
+				"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+					".xlsx",
+				],
+			},
+			maxFiles: 1,
+			maxSize: importsConfig.maxFileSizeBytes,
+			disabled: uploading,
+			onDropRejected: () => {
+				toast.error(
+					"Only CSV and Excel (.xlsx) files up to 10 MB are supported",
+				);
+			},
+			onDropAccepted: async ([file]) => {
+				if (!file) return;
+				setUploading(true);
+				try {
+					await uploadFile(file);
+				} catch (error) {
+					toast.error(
+						error instanceof Error ? error.message : "Could not upload file",
+					);
+				} finally {
+					setUploading(false);
+				}
+			},
+		});
+
+		const setTarget = (index: number, target: string) => {
+			setMapping(
+				mapping.map((value, column) =>
+					column === index ? (target === IGNORE ? null : target) : value,
+				),
+			);
+		};
+
+		const handleStart = () => {
+			if (!job) return;
+			startMutation.mutate({
+				id: job.id,
+				duplicateAction,
+				decisions: Object.entries(decisions).map(([rowNumber, decision]) => ({
+					rowNumber: Number(rowNumber),
+					...decision,
+				})),
+			});
+		};
+
+		const preview = previewMutation.data;
+		const fields = importFields[job?.entity ?? entity];
+		const current = progress ?? job;
+
+		return (
+			<Sheet
+				open={modal.visible}
+				onOpenChange={(open) => !open && modal.handleClose()}
+			>
+				<SheetContent
+					className="sm:max-w-3xl"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+				>
+					<SheetHeader>
+						<SheetTitle>Import {entityLabels[entity].toLowerCase()}</SheetTitle>
+						<SheetDescription>
+							{job
+								? job.fileName
+								: "Upload a CSV or Excel file with a header row."}
+						</SheetDescription>
+					</SheetHeader>
+
+					<ScrollArea className="flex-1">
+						<div className="space-y-4 px-6 py-2">
+							{step === "upload" && (
+								<>
+									<Select
+										value={entity}
+										onValueChange={(value) => setEntity(value as ImportEntity)}
+									>
+										<SelectTrigger className="w-48">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{Object.values(ImportEntity).map((value) => (
+												<SelectItem key={value} value={value}>
+													{entityLabels[value]}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									<div
+										{...getRootProps()}
+										className={cn(
+											"flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border border-dashed p-8 text-center text-sm transition-colors",
+											isDragActive
+												? "border-primary bg-primary/5"
+												: "hover:bg-muted/50",
+											uploading && "cursor-wait opacity-60",
+										)}
+									>
+										<input {...getInputProps()} />
+										<UploadIcon className="size-5 text-muted-foreground" />
+										<p className="font-medium">
+											{uploading
+												? "Uploading..."
+												: "Drop a CSV or Excel file here"}
+										</p>
+										<p className="text-muted-foreground text-xs">
+											or click to browse (up to 10 MB and{" "}
+											{importsConfig.maxRows.toLocaleString()} rows)
+										</p>
+									</div>
+
+									<div className="space-y-2">
+										<p className="font-medium text-sm">Recent imports</p>
+										{!recentImports || recentImports.length === 0 ? (
+											<EmptyText>No imports yet.</EmptyText>
+										) : (
+											recentImports.map((recent) => (
+												<div
+													key={recent.id}
+													className="flex items-center gap-3 rounded-md border p-3 text-sm"
+												>
+													<div className="min-w-0 flex-1 space-y-1">
+														<div className="flex items-center gap-2">
+															<span className="truncate font-medium">
+																{recent.fileName}
+															</span>
+															<Badge variant="outline">
+																{statusLabels[recent.status]}
+															</Badge>
+														</div>
+														<div className="text-muted-foreground text-xs">
+															{format(recent.createdAt, "MMM d, HH:mm")} ·{" "}
+															{recent.processedRows}/{recent.totalRows} rows
+														</div>
+														{recent.status !== ImportStatus.mapping && (
+															<ImportCounts job={recent} />
+														)}
+													</div>
+													{recent.errorCount > 0 && (
+														<ErrorReportButton importId={recent.id} />
+													)}
+												</div>
+											))
+										)}
+									</div>
+								</>
+							)}
+
+							{step === "mapping" && job && (
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Column</TableHead>
+											<TableHead>Example</TableHead>
+											<TableHead>Import as</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{job.headers.map((header, index) => (
+											<TableRow key={`${header}-${index}`}>
+												<TableCell className="font-medium">{header}</TableCell>
+												<TableCell className="max-w-48 truncate text-muted-foreground text-xs">
+													{sampleRows
+														.map((row) => row[index])
+														.filter(Boolean)
+														.join(", ")}
+												</TableCell>
+												<TableCell>
+													<Select
+														value={mapping[index] ?? IGNORE}
+														onValueChange={(value) => setTarget(index, value)}
+													>
+														<SelectTrigger className="w-56">
+															<SelectValue />
+														</SelectTrigger>
+														<SelectContent>
+															<SelectItem value={IGNORE}>
+																Don't import
+															</SelectItem>
+															{fields.map((field) => (
+																<SelectItem key={field.key} value={field.key}>
+																	{field.label}
+																</SelectItem>
+															))}
+															{customFields?.map((field) => (
+																<SelectItem
+																	key={field.id}
+																	value={`${CUSTOM_FIELD_PREFIX}${field.key}`}
+																>
+																	{field.label}
+																</SelectItem>
+															))}
+														</SelectContent>
+													</Select>
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							)}
+
+							{step === "preview" && job && preview && (
+								<>
+									<Alert
+										variant={
+											preview.invalidRowCount > 0 ? "destructive" : "default"
+										}
+									>
+										<AlertDescription>
+											{preview.totalRows.toLocaleString()} rows,{" "}
+											{preview.invalidRowCount.toLocaleString()} with errors.
+											Rows with errors are not imported and are listed in the
+											error report.
+										</AlertDescription>
+									</Alert>
+
+									{preview.invalidRows.length > 0 && (
+										<div className="max-h-40 space-y-1 overflow-auto rounded-md border p-3 text-xs">
+											{preview.invalidRows.map((row) => (
+												<p key={row.rowNumber}>
+													<span className="font-medium">
+														Row {row.rowNumber}:
+													</span>{" "}
+													<span className="text-destructive">
+														{row.errors.join("; ")}
+													</span>
+												</p>
+											))}
+										</div>
+									)}
+
+									<div className="flex flex-wrap items-center gap-2 text-sm">
+										<span>Rows matching an existing contact:</span>
+										<Select
+											value={duplicateAction}
+											onValueChange={(value) =>
+												setDuplicateAction(value as ImportDuplicateAction)
+											}
+										>
+											<SelectTrigger className="w-64">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{Object.values(ImportDuplicateAction).map((action) => (
+													<SelectItem key={action} value={action}>
+														{getDuplicateActionLabel(job.entity, action)}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</div>
+
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead>Row</TableHead>
+												<TableHead>Name</TableHead>
+												<TableHead>Result</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{preview.rows.map((row) => (
+												<TableRow key={row.rowNumber}>
+													<TableCell className="text-muted-foreground">
+														{row.rowNumber}
+													</TableCell>
+													<TableCell>
+														{row.data ? (
+															<>
+																<div className="font-medium">
+																	{row.data.firstName} {row.data.lastName}
+																</div>
+																{row.data.email && (
+																	<div className="text-muted-foreground text-xs">
+																		{row.data.email}
+																	</div>
+																)}
+															</>
+														) : (
+															<span className="text-muted-foreground text-xs">
+																{row.values.filter(Boolean).join(", ")}
+															</span>
+														)}
+													</TableCell>
+													<TableCell>
+														{row.errors.length > 0 ? (
+															<span className="text-destructive text-xs">
+																{row.errors.join("; ")}
+															</span>
+														) : row.duplicates.length === 0 ? (
+															<Badge variant="secondary">New</Badge>
+														) : (
+															<Select
+																value={(() => {
+																	const decision = decisions[row.rowNumber];
+																	if (!decision) return "default";
+																	return decision.action ===
+																		ImportDuplicateAction.merge
+																		? `${decision.action}:${decision.contactId}`
+																		: decision.action;
+																})()}
+																onValueChange={(value) => {
+																	const { [row.rowNumber]: _, ...rest } =
+																		decisions;
+																	if (value === "default") {
+																		setDecisions(rest);
+																		return;
+																	}
+																	const [action, contactId] = value.split(":");
+																	setDecisions({
+																		...rest,
+																		[row.rowNumber]: {
+																			action: action as ImportDuplicateAction,
+																			contactId,
+																		},
+																	});
+																}}
+															>
+																<SelectTrigger className="w-72">
+																	<SelectValue />
+																</SelectTrigger>
+																<SelectContent>
+																	<SelectItem value="default">
+																		Default (
+																		{getDuplicateActionLabel(
+																			job.entity,
+																			duplicateAction,
+																		).toLowerCase()}
+																		)
+																	</SelectItem>
+																	<SelectItem
+																		value={ImportDuplicateAction.create}
+																	>
+																		Create anyway
+																	</SelectItem>
+																	<SelectItem
+																		value={ImportDuplicateAction.skip}
+																	>
+																		Skip
+																	</SelectItem>
+																	{row.duplicates.map((duplicate) => (
+																		<SelectItem
+																			key={duplicate.id}
+																			value={`${ImportDuplicateAction.merge}:${duplicate.id}`}
+																		>
+																			{job.entity === ImportEntity.leads
+																				? "Link to"
+																				: "Merge into"}{" "}
+																			{duplicate.firstName} {duplicate.lastName}{" "}
+																			({Math.round(duplicate.confidence * 100)}
+																			%, {duplicate.matchReason.toLowerCase()})
+																		</SelectItem>
+																	))}
+																</SelectContent>
+															</Select>
+														)}
+													</TableCell>
+												</TableRow>
+											))}
+										</TableBody>
+									</Table>
+									{preview.totalRows > preview.rows.length && (
+										<p className="text-muted-foreground text-xs">
+											Showing the first {preview.rows.length} rows. Other rows
+											matching an existing contact use the default action.
+										</p>
+									)}
+								</>
+							)}
+
+							{step === "progress" && current && (
+								<div className="space-y-4">
+									<div className="flex items-center justify-between text-sm">
+										<span className="font-medium">
+											{statusLabels[current.status]}
+										</span>
+										<span className="text-muted-foreground">
+											{current.processedRows.toLocaleString()} /{" "}
+											{current.totalRows.toLocaleString()} rows
+										</span>
+									</div>
+									<Progress
+										value={
+											current.totalRows > 0
+												? (current.processedRows / current.totalRows) * 100
+												: 0
+										}
+									/>
+									<ImportCounts job={current} />
+									{current.status === ImportStatus.processing && (
+										<p className="text-muted-foreground text-xs">
+											Large files are imported in the background, you can close
+											this panel and check on the import later.
+										</p>
+									)}
+									{current.errorMessage && (
+										<Alert variant="destructive">
+											<AlertDescription>
+												{current.errorMessage}
+											</AlertDescription>
+										</Alert>
+									)}
+									{current.errorCount > 0 && (
+										<ErrorReportButton importId={current.id} />
+									)}
+								</div>
+							)}
+						</div>
+					</ScrollArea>
+
+					<SheetFooter className="flex-row justify-end gap-2 border-t">
+						{step === "mapping" && job && (
+							<Button
+								type="button"
+								loading={previewMutation.isPending}
+								onClick={() => previewMutation.mutate({ id: job.id, mapping })}
+							>
+								Preview
+							</Button>
+						)}
+						{step === "preview" && (
+							<>
+								<Button
+									type="button"
+									variant="outline"
+									disabled={startMutation.isPending}
+									onClick={() => setStep("mapping")}
+								>
+									Back
+								</Button>
+								<Button
+									type="button"
+									loading={startMutation.isPending}
+									onClick={handleStart}
+								>
+									Import
+								</Button>
+							</>
+						)}
+						{step === "progress" && (
+							<Button type="button" onClick={modal.handleClose}>
+								{finished ? "Done" : "Close"}
+							</Button>
+						)}
+					</SheetFooter>
+				</SheetContent>
+			</Sheet>
+		);
+	},
+);
@@ -0,0 +1,376 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import {
+	BookOpenIcon,
+	LinkIcon,
+	RefreshCwIcon,
+	Trash2Icon,
+	UploadIcon,
+} from "lucide-react";
+import * as React from "react";
+import { useDropzone } from "react-dropzone";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CenteredSpinner } from "@/components/ui/custom/centered-spinner";
+import {
+	Empty,
+	EmptyDescription,
+	EmptyHeader,
+	EmptyMedia,
+	EmptyTitle,
+} from "@/components/ui/empty";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { knowledgeConfig } from "@/config/knowledge.config";
+import type {
+	KnowledgeDocumentStatus,
+	KnowledgeSourceType,
+} from "@/lib/db/schema/enums";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+const SHARED = "shared";
+
+const sourceLabels: Record<KnowledgeSourceType, string> = {
+	pdf: "PDF",
+	markdown: "Markdown",
+	url: "Web page",
+};
+
+const statusLabels: Record<KnowledgeDocumentStatus, string> = {
+	pending: "Queued",
+	processing: "Processing",
+	ready: "Ready",
+	failed: "Failed",
+};
+
+export function KnowledgeDocuments(): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const [agentId, setAgentId] = React.useState<string>(SHARED);
+	const [url, setUrl] = React.useState("");
+	const [uploading, setUploading] = React.useState(false);
+
+	const { data: agentsData } = trpc.organization.agent.list.useQuery({
+		limit: 100,
+	});
+
+	const { data, isPending } = trpc.organization.knowledge.list.useQuery(
+		{},
+		{
+			// Follow ingestion until every document is ready or failed
+			refetchInterval: (query) =>
+				query.state.data?.documents.some(
+					(document) =>
+						document.status === "pending" || document.status === "processing",
+				)
+					? 3000
+					: false,
+		},
+	);
+
+	const createUploadUrlMutation =
+		trpc.organization.knowledge.createUploadUrl.useMutation();
+	const createMutation = trpc.organization.knowledge.create.useMutation({
+		onSuccess: () => {
+			utils.organization.knowledge.list.invalidate();
+		},
+	});
+	const reprocessMutation = trpc.organization.knowledge.reprocess.useMutation({
+		onSuccess: () => {
+			toast.success("Document queued for processing");
+			utils.organization.knowledge.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to reprocess document");
+		},
+	});
+	const deleteMutation = trpc.organization.knowledge.delete.useMutation({
+		onSuccess: () => {
+			toast.success("Document deleted");
+			utils.organization.knowledge.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to delete document");
+		},
+	});
+
+	const selectedAgentId = agentId === SHARED ? null : agentId;
+
+	const uploadFile = async (file: File): Promise<void> => {
+		// Browsers often report Markdown files without a type
+		const mimeType =
+			file.type === "application/pdf" ? "application/pdf" : "text/markdown";
+
+		const { path, signedUrl } = await createUploadUrlMutation.mutateAsync({
+			fileName: file.name,
+			mimeType,
+			fileSize: file.size,
+		});
+
+		const response = await fetch(signedUrl, {
+			method: "PUT",
+			body: file,
+			headers: {
+				"Content-Type": mimeType,
+			},
+		});
+
+		if (!response.ok) {
+			throw new Error(`Failed to upload ${file.name}`);
+		}
+
+		await createMutation.mutateAsync({
+			agentId: selectedAgentId,
+			source: {
+				type: "file",
+				path,
+				fileName: file.name,
+				mimeType,
+				fileSize: file.size,
+			},
+		});
+	};
+
+	const { getRootProps, getInputProps, isDragActive } = useDropzone({
+		accept: {
+			"application/pdf": [".pdf"],
+			"text/markdown": [".md", ".markdown"],
+			"text/plain": [".txt"],
+		},
+		maxSize: knowledgeConfig.maxFileSizeBytes,
+		disabled: uploading,
+		onDropRejected: () => {
+			toast.error(
+				"Only PDF, Markdown and text files up to 20 MB are supported",
+			);
+		},
+		onDropAccepted: async (files) => {
+			setUploading(true);
+			try {
+				for (const file of files) {
+					await uploadFile(file);
+				}
+				toast.success(
+					files.length === 1
+						? "Document uploaded"
+						: `${files.length} documents uploaded`,
+				);
+			} catch (error) {
+				toast.error(
+					error instanceof Error ? error.message : "Could not upload document",
+				);
+			} finally {
+				setUploading(false);
+			}
+		},
+	});
+
+	const handleAddUrl = (event: React.FormEvent): void => {
+		event.preventDefault();
+		const value = url.trim();
+		if (!value) return;
+
+		createMutation.mutate(
+			{ agentId: selectedAgentId, source: { type: "url", url: value } },
+			{
+				onSuccess: () => {
+					setUrl("");
+					toast.success("Web page added");
+				},
+				onError: (error) => {
+					toast.error(error.message || "Failed to add web page");
+				},
+			},
+		);
+	};
+
+	const documents = data?.documents ?? [];
+
+	return (
+		<div className="space-y-6">
+			<div className="grid gap-4 md:grid-cols-[1fr_1fr]">
+				<div
+					{...getRootProps()}
+					className={cn(
+						"flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border border-dashed p-6 text-center text-sm transition-colors",
+						isDragActive ? "border-primary bg-primary/5" : "hover:bg-muted/50",
+						uploading && "cursor-wait opacity-60",
+					)}
+				>
+					<input {...getInputProps()} />
+					<UploadIcon className="size-5 text-muted-foreground" />
+					<p className="font-medium">
+						{uploading ? "Uploading..." : "Drop PDF or Markdown files here"}
+					</p>
+					<p className="text-muted-foreground text-xs">
+						or click to browse (up to 20 MB)
+					</p>
+				</div>
+				<div className="space-y-3 rounded-lg border p-4">
+					<form className="flex gap-2" onSubmit={handleAddUrl}>
+						<Input
+							type="url"
+							value={url}
+							placeholder="https://example.com/faq"
+							onChange={(event) => setUrl(event.target.value)}
+						/>
+						<Button
+							type="submit"
+							variant="outline"
+							disabled={!url.trim()}
+							loading={createMutation.isPending && !uploading}
+						>
+							<LinkIcon className="size-4" />
+							Add page
+						</Button>
+					</form>
+					<Select value={agentId} onValueChange={setAgentId}>
+						<SelectTrigger className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={SHARED}>Shared with all agents</SelectItem>
+							{agentsData?.agents.map((agent) => (
+								<SelectItem key={agent.id} value={agent.id}>
+									Only {agent.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<p className="text-muted-foreground text-xs">
+						New documents are available to the selected agents once they are
+						ready.
+					</p>
+				</div>
+			</div>
+
+			{isPending ? (
+				<CenteredSpinner />
+			) : documents.length === 0 ? (
+				<Empty>
+					<EmptyHeader>
+						<EmptyMedia variant="icon">
+							<BookOpenIcon />
+						</EmptyMedia>
+						<EmptyTitle>No documents yet</EmptyTitle>
+						<EmptyDescription>
+							Upload product sheets, policies or FAQs so your agents can answer
+							from them.
+						</EmptyDescription>
+					</EmptyHeader>
+				</Empty>
+			) : (
+				<div className="rounded-lg border">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Title</TableHead>
+								<TableHead>Source</TableHead>
+								<TableHead>Agent</TableHead>
+								<TableHead>Status</TableHead>
+								<TableHead className="text-right">Chunks</TableHead>
+								<TableHead>Added</TableHead>
+								<TableHead className="w-24" />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{documents.map((document) => (
+								<TableRow key={document.id}>
+									<TableCell className="max-w-xs truncate font-medium">
+										{document.sourceUrl ? (
+											<a
+												href={document.sourceUrl}
+												target="_blank"
+												rel="noopener noreferrer"
+												className="hover:underline"
+											>
+												{document.title}
+											</a>
+										) : (
+											document.title
+										)}
+									</TableCell>
+									<TableCell>{sourceLabels[document.sourceType]}</TableCell>
+									<TableCell className="text-muted-foreground">
+										{document.agentName ?? "All agents"}
+									</TableCell>
+									<TableCell>
+										<Badge
+											variant={
+												document.status === "failed"
+													? "destructive"
+													: document.status === "ready"
+														? "secondary"
+														: "outline"
+											}
+											title={document.errorMessage ?? undefined}
+										>
+											{statusLabels[document.status]}
+										</Badge>
+									</TableCell>
+									<TableCell className="text-right">
+										{document.chunkCount}
+									</TableCell>
+									<TableCell className="text-muted-foreground">
+										{formatDistanceToNow(new Date(document.createdAt), {
+											addSuffix: true,
+										})}
+									</TableCell>
+									<TableCell>
+										<div className="flex justify-end gap-1">
+											<Button
+												size="icon"
+												variant="ghost"
+												disabled={document.status === "processing"}
+												loading={
+													reprocessMutation.isPending &&
+													reprocessMutation.variables?.id === document.id
+												}
+												onClick={() =>
+													reprocessMutation.mutate({ id: document.id })
+												}
+											>
+												<RefreshCwIcon className="size-4" />
+												<span className="sr-only">Reprocess</span>
+											</Button>
+											<Button
+												size="icon"
+												variant="ghost"
+												loading={
+													deleteMutation.isPending &&
+													deleteMutation.variables?.id === document.id
+												}
+												onClick={() =>
+													deleteMutation.mutate({ id: document.id })
+												}
+											>
+												<Trash2Icon className="size-4" />
+												<span className="sr-only">Delete</span>
+											</Button>
+										</div>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+		</div>
+	);
+}
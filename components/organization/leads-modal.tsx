@@ -1,7 +1,11 @@
 "use client";
 
 import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { MessageSquareIcon } from "lucide-react";
 import { toast } from "sonner";
+import { ContactHeatBadge } from "@/components/organization/contact-heat-badge";
+import { CustomFieldInputs } from "@/components/organization/custom-field-inputs";
 import { Button } from "@/components/ui/button";
 import { Field } from "@/components/ui/field";
 import {
@@ -29,10 +33,12 @@ import {
 	SheetHeader,
 	SheetTitle,
 } from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Textarea } from "@/components/ui/textarea";
 import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
 import { useZodForm } from "@/hooks/use-zod-form";
 import {
+	CustomFieldEntity,
 	LeadSource,
 	LeadSources,
 	LeadStatus,
@@ -50,7 +56,7 @@ export type LeadsModalProps = NiceModalHocProps & {
 		id: string;
 		firstName: string;
 		lastName: string;
-		email: string;
+		email: string | null;
 		phone?: string | null;
 		company?: string | null;
 		jobTitle?: string | null;
@@ -59,9 +65,86 @@ export type LeadsModalProps = NiceModalHocProps & {
 		estimatedValue?: number | null;
 		notes?: string | null;
 		assignedToId?: string | null;
+		contactId?: string | null;
+		customFields?: Record<string, unknown>;
 	};
 };
 
+function LinkedContactSection({ leadId }: { leadId: string }) {
+	const { data: lead, isPending } = trpc.organization.lead.get.useQuery({
+		id: leadId,
+	});
+	const { data: heatScoreModel } =
+		trpc.organization.heatScore.getModel.useQuery();
+
+	if (isPending) {
+		return (
+			<div className="space-y-2 rounded-md border p-3">
+				<Skeleton className="h-5 w-40" />
+				<Skeleton className="h-12 w-full" />
+			</div>
+		);
+	}
+
+	const contact = lead?.contact;
+	if (!contact) {
+		return null;
+	}
+
+	return (
+		<div className="space-y-3 rounded-md border p-3">
+			<div className="flex items-center justify-between gap-2">
+				<div className="min-w-0">
+					<p className="truncate font-medium text-sm">
+						{contact.firstName} {contact.lastName}
+					</p>
+					<p className="truncate text-muted-foreground text-xs">
+						{contact.lastInteractionAt
+							? `Last interaction ${format(contact.lastInteractionAt, "MMM d, yyyy")}${contact.lastInteractionChannel ? ` via ${contact.lastInteractionChannel}` : ""}`
+							: "No interactions yet"}
+					</p>
+				</div>
+				<ContactHeatBadge
+					className="shrink-0"
+					score={contact.heatScore}
+					thresholds={heatScoreModel}
+				/>
+			</div>
+
+			{contact.conversations.length > 0 ? (
+				<ul className="space-y-2">
+					{contact.conversations.map((conversation) => (
+						<li
+							key={conversation.id}
+							className="rounded-md bg-muted/50 px-3 py-2 text-sm"
+						>
+							<div className="flex items-center justify-between gap-2">
+								<span className="flex items-center gap-1.5 font-medium">
+									<MessageSquareIcon className="size-3.5 text-muted-foreground" />
+									{capitalize(conversation.channel)}
+								</span>
+								<span className="text-muted-foreground text-xs">
+									{conversation.messageCount} messages
+									{conversation.lastMessageAt
+										? ` · ${format(conversation.lastMessageAt, "MMM d")}`
+										: ""}
+								</span>
+							</div>
+							{conversation.summary && (
+								<p className="mt-1 line-clamp-2 text-muted-foreground text-xs">
+									{conversation.summary}
+								</p>
+							)}
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="text-muted-foreground text-xs">No conversations yet</p>
+			)}
+		</div>
+	);
+}
+
 export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 	const modal = useEnhancedModal();
 	const utils = trpc.useUtils();
@@ -89,6 +172,10 @@ export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 		},
 	});
 
+	const { data: customFields } = trpc.organization.customField.list.useQuery({
+		entity: CustomFieldEntity.lead,
+	});
+
 	const form = useZodForm({
 		schema: isEditing ? updateLeadSchema : createLeadSchema,
 		defaultValues: isEditing
@@ -96,7 +183,7 @@ export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 					id: lead.id,
 					firstName: lead.firstName,
 					lastName: lead.lastName,
-					email: lead.email,
+					email: lead.email ?? undefined,
 					phone: lead.phone ?? "",
 					company: lead.company ?? "",
 					jobTitle: lead.jobTitle ?? "",
@@ -104,6 +191,7 @@ export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 					source: lead.source as LeadSource,
 					estimatedValue: lead.estimatedValue ?? undefined,
 					notes: lead.notes ?? "",
+					customFields: lead.customFields ?? {},
 				}
 			: {
 					firstName: "",
@@ -116,6 +204,7 @@ export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 					source: LeadSource.other,
 					estimatedValue: undefined,
 					notes: "",
+					customFields: {},
 				},
 	});
 
@@ -159,6 +248,10 @@ export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 					>
 						<ScrollArea className="flex-1">
 							<div className="space-y-4 px-6 py-4">
+								{isEditing && lead.contactId && (
+									<LinkedContactSection leadId={lead.id} />
+								)}
+
 								<div className="grid grid-cols-2 gap-4">
 									<FormField
 										control={form.control}
@@ -213,6 +306,7 @@ export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 														placeholder="john.doe@example.com"
 														autoComplete="off"
 														{...field}
+														value={field.value ?? ""}
 													/>
 												</FormControl>
 												<FormMessage />
@@ -396,6 +490,22 @@ export const LeadsModal = NiceModal.create<LeadsModalProps>(({ lead }) => {
 										</FormItem>
 									)}
 								/>
+
+								<FormField
+									control={form.control}
+									name="customFields"
+									render={({ field }) => (
+										<FormItem>
+											<CustomFieldInputs
+												definitions={customFields ?? []}
+												value={field.value}
+												onChange={field.onChange}
+												disabled={isPending}
+											/>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
 							</div>
 						</ScrollArea>
 
@@ -5,9 +5,16 @@ import type {
 	ColumnDef,
 	ColumnFiltersState,
 	SortingState,
+	VisibilityState,
 } from "@tanstack/react-table";
 import { format } from "date-fns";
-import { MoreHorizontalIcon, PlusIcon } from "lucide-react";
+import {
+	Columns3Icon,
+	ListFilterIcon,
+	MoreHorizontalIcon,
+	PlusIcon,
+	UploadIcon,
+} from "lucide-react";
 import {
 	parseAsArrayOf,
 	parseAsInteger,
@@ -18,8 +25,12 @@ import {
 import * as React from "react";
 import { toast } from "sonner";
 import { ConfirmationModal } from "@/components/confirmation-modal";
+import { countFilterConditions } from "@/components/organization/filter-builder";
+import { FilterBuilderModal } from "@/components/organization/filter-builder-modal";
+import { ImportWizardModal } from "@/components/organization/import-wizard-modal";
 import { LeadsBulkActions } from "@/components/organization/leads-bulk-actions";
 import { LeadsModal } from "@/components/organization/leads-modal";
+import { SavedViewsMenu } from "@/components/organization/saved-views-menu";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -30,6 +41,7 @@ import {
 } from "@/components/ui/custom/data-table";
 import {
 	DropdownMenu,
+	DropdownMenuCheckboxItem,
 	DropdownMenuContent,
 	DropdownMenuItem,
 	DropdownMenuSeparator,
@@ -37,8 +49,23 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { UserAvatar } from "@/components/user/user-avatar";
 import { appConfig } from "@/config/app.config";
-import { LeadSources, LeadStatuses } from "@/lib/db/schema/enums";
+import { formatCustomFieldValue } from "@/lib/custom-fields/values";
+import {
+	CustomFieldEntity,
+	CustomFieldType,
+	ImportEntity,
+	LeadSources,
+	LeadStatuses,
+	SavedViewEntity,
+} from "@/lib/db/schema/enums";
+import { CUSTOM_FIELD_PREFIX } from "@/lib/filters/fields";
+import type { SavedView } from "@/lib/saved-views/types";
 import { capitalize, cn } from "@/lib/utils";
+import {
+	type FilterCondition,
+	type FilterGroup,
+	filterGroupSchema,
+} from "@/schemas/filter.schema";
 import { LeadSortField } from "@/schemas/organization-lead-schemas";
 import { trpc } from "@/trpc/client";
 
@@ -49,7 +76,7 @@ interface Lead {
 	organizationId: string;
 	firstName: string;
 	lastName: string;
-	email: string;
+	email: string | null;
 	phone: string | null;
 	company: string | null;
 	jobTitle: string | null;
@@ -58,6 +85,8 @@ interface Lead {
 	estimatedValue: number | null;
 	notes: string | null;
 	assignedToId: string | null;
+	contactId: string | null;
+	customFields: Record<string, unknown>;
 	createdAt: Date;
 	updatedAt: Date;
 	assignedTo: {
@@ -134,6 +163,26 @@ export function LeadsTable(): React.JSX.Element {
 		}),
 	);
 
+	// Selected options of select and multi-select custom fields, by key
+	const [customFieldFilter, setCustomFieldFilter] = useQueryState<
+		Record<string, string[]>
+	>(
+		"customFields",
+		parseAsJson<Record<string, string[]>>((value) => {
+			if (!value || typeof value !== "object" || Array.isArray(value)) {
+				return {};
+			}
+			return Object.fromEntries(
+				Object.entries(value).filter(
+					(entry): entry is [string, string[]] =>
+						Array.isArray(entry[1]) && entry[1].length > 0,
+				),
+			);
+		})
+			.withDefault({})
+			.withOptions({ shallow: true }),
+	);
+
 	const [sorting, setSorting] = useQueryState<SortingState>(
 		"sort",
 		parseAsJson<SortingState>((value) => {
@@ -150,8 +199,34 @@ export function LeadsTable(): React.JSX.Element {
 			.withOptions({ shallow: true }),
 	);
 
+	// Filter builder conditions
+	const [advancedFilter, setAdvancedFilter] = useQueryState<FilterGroup | null>(
+		"filter",
+		parseAsJson<FilterGroup | null>((value) => {
+			const parsed = filterGroupSchema.safeParse(value);
+			return parsed.success ? parsed.data : null;
+		}).withOptions({ shallow: true }),
+	);
+
+	// Visible column ids in display order, empty shows every column
+	const [visibleColumns, setVisibleColumns] = useQueryState(
+		"columns",
+		parseAsArrayOf(parseAsString).withDefault([]).withOptions({
+			shallow: true,
+		}),
+	);
+
+	const [viewId, setViewId] = useQueryState(
+		"view",
+		parseAsString.withOptions({ shallow: true }),
+	);
+
 	const utils = trpc.useUtils();
 
+	const { data: customFields } = trpc.organization.customField.list.useQuery({
+		entity: CustomFieldEntity.lead,
+	});
+
 	// Build columnFilters from URL state
 	const columnFilters: ColumnFiltersState = React.useMemo(() => {
 		const filters: ColumnFiltersState = [];
@@ -164,8 +239,11 @@ export function LeadsTable(): React.JSX.Element {
 		if (createdAtFilter && createdAtFilter.length > 0) {
 			filters.push({ id: "createdAt", value: createdAtFilter });
 		}
+		for (const [key, value] of Object.entries(customFieldFilter ?? {})) {
+			filters.push({ id: `${CUSTOM_FIELD_PREFIX}${key}`, value });
+		}
 		return filters;
-	}, [statusFilter, sourceFilter, createdAtFilter]);
+	}, [statusFilter, sourceFilter, createdAtFilter, customFieldFilter]);
 
 	const handleFiltersChange = (filters: ColumnFiltersState): void => {
 		const getFilterValue = (id: string): string[] => {
@@ -176,12 +254,47 @@ export function LeadsTable(): React.JSX.Element {
 		setStatusFilter(getFilterValue("status"));
 		setSourceFilter(getFilterValue("source"));
 		setCreatedAtFilter(getFilterValue("createdAt"));
+		setCustomFieldFilter(
+			Object.fromEntries(
+				filters
+					.filter((filter) => filter.id.startsWith(CUSTOM_FIELD_PREFIX))
+					.map((filter): [string, string[]] => [
+						filter.id.slice(CUSTOM_FIELD_PREFIX.length),
+						getFilterValue(filter.id),
+					])
+					.filter(([, value]) => value.length > 0),
+			),
+		);
 
 		if (pageIndex !== 0) {
 			setPageIndex(0);
 		}
 	};
 
+	const handleAdvancedFilterChange = (filter: FilterGroup | null): void => {
+		setAdvancedFilter(filter);
+		if (pageIndex !== 0) {
+			setPageIndex(0);
+		}
+	};
+
+	// A view replaces the filters, columns and sort of the list
+	const handleViewSelect = (view: SavedView | null): void => {
+		setViewId(view?.id ?? null);
+		setAdvancedFilter(view?.filter ?? null);
+		setVisibleColumns(view?.columns ?? []);
+		setSorting(
+			view?.sort
+				? [{ id: view.sort.field, desc: view.sort.order === "desc" }]
+				: DEFAULT_SORTING,
+		);
+		setStatusFilter([]);
+		setSourceFilter([]);
+		setCreatedAtFilter([]);
+		setCustomFieldFilter({});
+		setPageIndex(0);
+	};
+
 	const handleSortingChange = (newSorting: SortingState): void => {
 		// When clearing sort, fall back to default to keep URL and state consistent
 		setSorting(newSorting.length > 0 ? newSorting : DEFAULT_SORTING);
@@ -199,8 +312,11 @@ export function LeadsTable(): React.JSX.Element {
 		)
 			? (currentSort.id as LeadSortField)
 			: "createdAt";
+		const sortByCustomField = currentSort.id.startsWith(CUSTOM_FIELD_PREFIX)
+			? currentSort.id.slice(CUSTOM_FIELD_PREFIX.length)
+			: undefined;
 		const sortOrder = currentSort.desc ? ("desc" as const) : ("asc" as const);
-		return { sortBy, sortOrder };
+		return { sortBy, sortByCustomField, sortOrder };
 	}, [sorting]);
 
 	const { data, isPending } = trpc.organization.lead.list.useQuery(
@@ -210,7 +326,9 @@ export function LeadsTable(): React.JSX.Element {
 				(pageIndex || 0) * (pageSize || appConfig.pagination.defaultLimit),
 			query: searchQuery || "",
 			sortBy: sortParams.sortBy,
+			sortByCustomField: sortParams.sortByCustomField,
 			sortOrder: sortParams.sortOrder,
+			filter: advancedFilter ?? undefined,
 			filters: {
 				status: (statusFilter || []) as (
 					| "new"
@@ -237,6 +355,9 @@ export function LeadsTable(): React.JSX.Element {
 					| "this-month"
 					| "older"
 				)[],
+				customFields: Object.entries(customFieldFilter ?? {}).map(
+					([key, value]) => ({ key, operator: "equals" as const, value }),
+				),
 			},
 		},
 		{
@@ -307,9 +428,9 @@ export function LeadsTable(): React.JSX.Element {
 			cell: ({ row }) => (
 				<span
 					className="block max-w-[250px] truncate text-foreground/80"
-					title={row.original.email}
+					title={row.original.email || undefined}
 				>
-					{row.original.email}
+					{row.original.email || "-"}
 				</span>
 			),
 		},
@@ -355,6 +476,29 @@ export function LeadsTable(): React.JSX.Element {
 				</span>
 			),
 		},
+		...(customFields ?? []).map(
+			(definition): ColumnDef<Lead> => ({
+				id: `${CUSTOM_FIELD_PREFIX}${definition.key}`,
+				accessorFn: (lead) => lead.customFields[definition.key],
+				header: ({ column }) => (
+					<SortableColumnHeader column={column} title={definition.label} />
+				),
+				cell: ({ row }) => {
+					const value = formatCustomFieldValue(
+						definition,
+						row.original.customFields[definition.key],
+					);
+					return (
+						<span
+							className="block max-w-[150px] truncate text-foreground/80"
+							title={value || undefined}
+						>
+							{value || "-"}
+						</span>
+					);
+				},
+			}),
+		),
 		{
 			accessorKey: "createdAt",
 			header: ({ column }) => (
@@ -441,11 +585,118 @@ export function LeadsTable(): React.JSX.Element {
 				{ value: "older", label: "Older" },
 			],
 		},
+		...(customFields ?? [])
+			.filter(
+				(definition) =>
+					definition.type === CustomFieldType.select ||
+					definition.type === CustomFieldType.multiSelect,
+			)
+			.map(
+				(definition): FilterConfig => ({
+					key: `${CUSTOM_FIELD_PREFIX}${definition.key}`,
+					title: definition.label,
+					options: definition.options.map((option) => ({
+						value: option,
+						label: option,
+					})),
+				}),
+			),
+	];
+
+	const columnLabels: Record<string, string> = {
+		name: "Name",
+		company: "Company",
+		email: "Email",
+		status: "Status",
+		source: "Source",
+		estimatedValue: "Value",
+		...Object.fromEntries(
+			(customFields ?? []).map((definition) => [
+				`${CUSTOM_FIELD_PREFIX}${definition.key}`,
+				definition.label,
+			]),
+		),
+		createdAt: "Created",
+	};
+	const columnIds = Object.keys(columnLabels);
+
+	const columnVisibility: VisibilityState =
+		visibleColumns.length > 0
+			? Object.fromEntries(
+					columnIds.map((id) => [id, visibleColumns.includes(id)]),
+				)
+			: {};
+
+	const handleColumnToggle = (id: string, visible: boolean): void => {
+		const current = visibleColumns.length > 0 ? visibleColumns : columnIds;
+		setVisibleColumns(
+			visible ? [...current, id] : current.filter((column) => column !== id),
+		);
+	};
+
+	// Quick filters are saved as conditions, the created date buckets are
+	// relative to today and aren't saved
+	const quickFilterConditions: FilterCondition[] = [
+		...(statusFilter.length > 0
+			? [
+					{
+						type: "condition" as const,
+						field: "status",
+						operator: "equals" as const,
+						value: statusFilter,
+					},
+				]
+			: []),
+		...(sourceFilter.length > 0
+			? [
+					{
+						type: "condition" as const,
+						field: "source",
+						operator: "equals" as const,
+						value: sourceFilter,
+					},
+				]
+			: []),
+		...Object.entries(customFieldFilter ?? {}).map(([key, value]) => ({
+			type: "condition" as const,
+			field: `${CUSTOM_FIELD_PREFIX}${key}`,
+			operator: "equals" as const,
+			value,
+		})),
 	];
+	const currentSort = sorting?.[0];
+	const viewState = {
+		filter:
+			quickFilterConditions.length > 0
+				? {
+						type: "group" as const,
+						combinator: "and" as const,
+						children: [
+							...quickFilterConditions,
+							...(advancedFilter ? [advancedFilter] : []),
+						],
+					}
+				: (advancedFilter ?? null),
+		columns: visibleColumns,
+		sort: currentSort
+			? {
+					field: currentSort.id,
+					order: currentSort.desc ? ("desc" as const) : ("asc" as const),
+				}
+			: null,
+	};
+
+	const advancedFilterCount = countFilterConditions(advancedFilter);
 
 	return (
 		<DataTable
 			columnFilters={columnFilters}
+			columnOrder={
+				visibleColumns.length > 0
+					? ["select", ...visibleColumns, "actions"]
+					: []
+			}
+			columnVisibility={columnVisibility}
 			columns={columns}
 			data={(data?.leads as Lead[]) || []}
 			emptyMessage="No leads found."
@@ -470,10 +721,67 @@ export function LeadsTable(): React.JSX.Element {
 			defaultSorting={DEFAULT_SORTING}
 			sorting={sorting}
 			toolbarActions={
-				<Button onClick={() => NiceModal.show(LeadsModal)} size="sm">
-					<PlusIcon className="size-4 shrink-0" />
-					Add Lead
-				</Button>
+				<>
+					<SavedViewsMenu
+						entity={SavedViewEntity.lead}
+						activeViewId={viewId}
+						state={viewState}
+						onSelect={handleViewSelect}
+					/>
+					<Button
+						onClick={() =>
+							NiceModal.show(FilterBuilderModal, {
+								entity: SavedViewEntity.lead,
+								filter: advancedFilter,
+								onApply: handleAdvancedFilterChange,
+							})
+						}
+						size="sm"
+						variant="outline"
+					>
+						<ListFilterIcon className="size-4 shrink-0" />
+						Filter
+						{advancedFilterCount > 0 && (
+							<Badge className="px-1.5 py-0 text-xs" variant="secondary">
+								{advancedFilterCount}
+							</Badge>
+						)}
+					</Button>
+					<DropdownMenu>
+						<DropdownMenuTrigger asChild>
+							<Button size="sm" variant="outline">
+								<Columns3Icon className="size-4 shrink-0" />
+								Columns
+							</Button>
+						</DropdownMenuTrigger>
+						<DropdownMenuContent align="end">
+							{columnIds.map((id) => (
+								<DropdownMenuCheckboxItem
+									key={id}
+									checked={columnVisibility[id] !== false}
+									onCheckedChange={(checked) => handleColumnToggle(id, checked)}
+									onSelect={(event) => event.preventDefault()}
+								>
+									{columnLabels[id]}
+								</DropdownMenuCheckboxItem>
+							))}
+						</DropdownMenuContent>
+					</DropdownMenu>
+					<Button
+						onClick={() =>
+							NiceModal.show(ImportWizardModal, { entity: ImportEntity.leads })
+						}
+						size="sm"
+						variant="outline"
+					>
+						<UploadIcon className="size-4 shrink-0" />
+						Import
+					</Button>
+					<Button onClick={() => NiceModal.show(LeadsModal)} size="sm">
+						<PlusIcon className="size-4 shrink-0" />
+						Add Lead
+					</Button>
+				</>
 			}
 			totalCount={data?.total ?? 0}
 		/>
@@ -1,10 +1,15 @@
 "use client";
 
 import {
+	BookOpenIcon,
 	BotIcon,
 	ChevronRight,
 	CoinsIcon,
+	ContactIcon,
+	CopyIcon,
 	CreditCardIcon,
+	InboxIcon,
+	KanbanIcon,
 	LayoutDashboardIcon,
 	SettingsIcon,
 	UserSearchIcon,
@@ -65,11 +70,36 @@ export function OrganizationMenuItems(): React.JSX.Element {
 					icon: LayoutDashboardIcon,
 					exactMatch: true,
 				},
+				{
+					label: "Inbox",
+					href: `${basePath}/inbox`,
+					icon: InboxIcon,
+				},
+				{
+					label: "Contacts",
+					href: `${basePath}/contacts`,
+					icon: ContactIcon,
+				},
 				{
 					label: "Leads",
 					href: `${basePath}/leads`,
 					icon: UserSearchIcon,
 				},
+				{
+					label: "Duplicates",
+					href: `${basePath}/duplicates`,
+					icon: CopyIcon,
+				},
+				{
+					label: "Pipeline",
+					href: `${basePath}/pipeline`,
+					icon: KanbanIcon,
+				},
+				{
+					label: "Knowledge base",
+					href: `${basePath}/knowledge`,
+					icon: BookOpenIcon,
+				},
 				{
 					label: "AI Chatbot",
 					href: `${basePath}/chatbot`,
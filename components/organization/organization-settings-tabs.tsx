@@ -4,11 +4,16 @@ import { parseAsStringLiteral, useQueryState } from "nuqs";
 import type * as React from "react";
 import { CreditsSettingsTab } from "@/components/billing/credits-settings-tab";
 import { SubscriptionSettingsTab } from "@/components/billing/subscription-settings-tab";
+import { ApiKeysCard } from "@/components/organization/api-keys-card";
+import { CustomFieldsCard } from "@/components/organization/custom-fields-card";
 import { DeleteOrganizationCard } from "@/components/organization/delete-organization-card";
+import { HeatScoreModelCard } from "@/components/organization/heat-score-model-card";
 import { OrganizationChangeNameCard } from "@/components/organization/organization-change-name-card";
 import { OrganizationInviteMemberCard } from "@/components/organization/organization-invite-member-card";
 import { OrganizationLogoCard } from "@/components/organization/organization-logo-card";
 import { OrganizationMembersCard } from "@/components/organization/organization-members-card";
+import { TagsCard } from "@/components/organization/tags-card";
+import { WebhooksCard } from "@/components/organization/webhooks-card";
 import {
 	UnderlinedTabs,
 	UnderlinedTabsContent,
@@ -17,7 +22,17 @@ import {
 } from "@/components/ui/custom/underlined-tabs";
 import { billingConfig } from "@/config/billing.config";
 
-const tabValues = ["general", "members", "subscription", "credits"] as const;
+const tabValues = [
+	"general",
+	"members",
+	"subscription",
+	"credits",
+	"customFields",
+	"tags",
+	"heatScore",
+	"api",
+	"webhooks",
+] as const;
 type TabValue = (typeof tabValues)[number];
 
 type OrganizationSettingsTabsProps = {
@@ -49,6 +64,27 @@ export function OrganizationSettingsTabs({
 				{billingConfig.enabled && (
 					<UnderlinedTabsTrigger value="credits">Credits</UnderlinedTabsTrigger>
 				)}
+				{isAdmin && (
+					<UnderlinedTabsTrigger value="customFields">
+						Custom fields
+					</UnderlinedTabsTrigger>
+				)}
+				{isAdmin && (
+					<UnderlinedTabsTrigger value="tags">Tags</UnderlinedTabsTrigger>
+				)}
+				{isAdmin && (
+					<UnderlinedTabsTrigger value="heatScore">
+						Heat score
+					</UnderlinedTabsTrigger>
+				)}
+				{isAdmin && (
+					<UnderlinedTabsTrigger value="api">API</UnderlinedTabsTrigger>
+				)}
+				{isAdmin && (
+					<UnderlinedTabsTrigger value="webhooks">
+						Webhooks
+					</UnderlinedTabsTrigger>
+				)}
 			</UnderlinedTabsList>
 			<UnderlinedTabsContent value="general">
 				<div className="space-y-4">
@@ -73,6 +109,31 @@ export function OrganizationSettingsTabs({
 					<CreditsSettingsTab isAdmin={isAdmin} />
 				</UnderlinedTabsContent>
 			)}
+			{isAdmin && (
+				<UnderlinedTabsContent value="customFields">
+					<CustomFieldsCard />
+				</UnderlinedTabsContent>
+			)}
+			{isAdmin && (
+				<UnderlinedTabsContent value="tags">
+					<TagsCard />
+				</UnderlinedTabsContent>
+			)}
+			{isAdmin && (
+				<UnderlinedTabsContent value="heatScore">
+					<HeatScoreModelCard />
+				</UnderlinedTabsContent>
+			)}
+			{isAdmin && (
+				<UnderlinedTabsContent value="api">
+					<ApiKeysCard />
+				</UnderlinedTabsContent>
+			)}
+			{isAdmin && (
+				<UnderlinedTabsContent value="webhooks">
+					<WebhooksCard />
+				</UnderlinedTabsContent>
+			)}
 		</UnderlinedTabs>
 	);
 }
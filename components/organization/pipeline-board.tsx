@@ -0,0 +1,455 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import {
+	CalendarIcon,
+	KanbanIcon,
+	PlusIcon,
+	Settings2Icon,
+	TimerIcon,
+} from "lucide-react";
+import { parseAsString, useQueryState } from "nuqs";
+import * as React from "react";
+import { toast } from "sonner";
+import { DealsModal } from "@/components/organization/deals-modal";
+import { PipelineStagesModal } from "@/components/organization/pipeline-stages-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CenteredSpinner } from "@/components/ui/custom/centered-spinner";
+import {
+	Empty,
+	EmptyDescription,
+	EmptyHeader,
+	EmptyMedia,
+	EmptyTitle,
+} from "@/components/ui/empty";
+import { Input } from "@/components/ui/input";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { UserAvatar } from "@/components/user/user-avatar";
+import { formatCurrency } from "@/lib/billing/utils";
+import type { PipelineBoardData as Board } from "@/lib/ember/pipelines/pipelines";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+type BoardStage = Board["stages"][number];
+type BoardDeal = BoardStage["deals"][number];
+
+const stageTypeColors: Record<string, string> = {
+	open: "border-t-primary/60",
+	won: "border-t-green-500",
+	lost: "border-t-red-500",
+};
+
+function formatTotals(
+	totals: { currency: string; amount: number; weightedAmount: number }[],
+	key: "amount" | "weightedAmount",
+): string {
+	if (totals.length === 0) {
+		return formatCurrency(0, "usd");
+	}
+	return totals
+		.map((total) => formatCurrency(total[key], total.currency))
+		.join(" · ");
+}
+
+/**
+ * Board with a deal moved to a position of a stage, as the server will save it
+ */
+function moveDealOnBoard(
+	board: Board,
+	dealId: string,
+	stageId: string,
+	position: number,
+): Board {
+	const deal = board.stages
+		.flatMap((stage) => stage.deals)
+		.find((candidate) => candidate.id === dealId);
+	if (!deal) {
+		return board;
+	}
+
+	return {
+		...board,
+		stages: board.stages.map((stage) => {
+			const deals = stage.deals.filter((candidate) => candidate.id !== dealId);
+			if (stage.id === stageId) {
+				deals.splice(Math.min(position, deals.length), 0, {
+					...deal,
+					stageId,
+					isRotting: deal.stageId === stageId ? deal.isRotting : false,
+				});
+			}
+			return { ...stage, deals };
+		}),
+	};
+}
+
+function NewPipelineButton({
+	onCreated,
+}: {
+	onCreated: (pipelineId: string) => void;
+}) {
+	const utils = trpc.useUtils();
+	const [open, setOpen] = React.useState(false);
+	const [name, setName] = React.useState("");
+
+	const createPipelineMutation = trpc.organization.pipeline.create.useMutation({
+		onSuccess: (pipeline) => {
+			toast.success("Pipeline created");
+			utils.organization.pipeline.list.invalidate();
+			setOpen(false);
+			setName("");
+			onCreated(pipeline.id);
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to create pipeline");
+		},
+	});
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<Button variant="outline" size="sm">
+					<PlusIcon className="size-4" />
+					Pipeline
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent align="end" className="w-72">
+				<form
+					className="space-y-2"
+					onSubmit={(e) => {
+						e.preventDefault();
+						createPipelineMutation.mutate({ name });
+					}}
+				>
+					<Input
+						placeholder="Pipeline name"
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						autoFocus
+					/>
+					<Button
+						type="submit"
+						size="sm"
+						className="w-full"
+						disabled={!name.trim()}
+						loading={createPipelineMutation.isPending}
+					>
+						Create pipeline
+					</Button>
+				</form>
+			</PopoverContent>
+		</Popover>
+	);
+}
+
+function DealCard({
+	deal,
+	stages,
+	pipelineId,
+	onDragStart,
+	onDrop,
+}: {
+	deal: BoardDeal;
+	stages: { id: string; name: string }[];
+	pipelineId: string;
+	onDragStart: () => void;
+	onDrop: () => void;
+}) {
+	const leadName = deal.lead
+		? `${deal.lead.firstName} ${deal.lead.lastName}`.trim()
+		: null;
+
+	return (
+		<button
+			type="button"
+			draggable
+			onDragStart={(e) => {
+				e.dataTransfer.effectAllowed = "move";
+				e.dataTransfer.setData("text/plain", deal.id);
+				onDragStart();
+			}}
+			onDragOver={(e) => e.preventDefault()}
+			onDrop={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				onDrop();
+			}}
+			onClick={() =>
+				NiceModal.show(DealsModal, {
+					pipelineId,
+					stages,
+					deal: {
+						id: deal.id,
+						title: deal.title,
+						stageId: deal.stageId,
+						amount: deal.amount,
+						currency: deal.currency,
+						expectedCloseDate: deal.expectedCloseDate,
+						notes: deal.notes,
+					},
+				})
+			}
+			className={cn(
+				"w-full cursor-grab space-y-2 rounded-md border bg-background p-3 text-left text-sm shadow-xs transition-colors hover:bg-accent/50 active:cursor-grabbing",
+				deal.isRotting && "border-orange-400 dark:border-orange-600",
+			)}
+		>
+			<div className="flex items-start justify-between gap-2">
+				<span className="line-clamp-2 font-medium">{deal.title}</span>
+				{deal.owner && (
+					<UserAvatar
+						className="size-5 shrink-0"
+						name={deal.owner.name}
+						src={deal.owner.image ?? undefined}
+					/>
+				)}
+			</div>
+			{(leadName || deal.lead?.company) && (
+				<p className="truncate text-muted-foreground text-xs">
+					{[leadName, deal.lead?.company].filter(Boolean).join(" · ")}
+				</p>
+			)}
+			<div className="flex items-center justify-between gap-2 text-xs">
+				<span className="font-medium">
+					{formatCurrency(deal.amount, deal.currency)}
+				</span>
+				<span className="flex items-center gap-1.5 text-muted-foreground">
+					{deal.isRotting && (
+						<Badge className="border-none bg-orange-100 text-foreground dark:bg-orange-900">
+							<TimerIcon />
+							Rotting
+						</Badge>
+					)}
+					{deal.expectedCloseDate && (
+						<span className="flex items-center gap-1">
+							<CalendarIcon className="size-3" />
+							{format(deal.expectedCloseDate, "MMM d")}
+						</span>
+					)}
+				</span>
+			</div>
+		</button>
+	);
+}
+
+export function PipelineBoard(): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const [pipelineId, setPipelineId] = useQueryState(
+		"pipeline",
+		parseAsString.withOptions({ shallow: true }),
+	);
+	const [draggedDealId, setDraggedDealId] = React.useState<string | null>(null);
+	const [dropStageId, setDropStageId] = React.useState<string | null>(null);
+
+	const { data: pipelines } = trpc.organization.pipeline.list.useQuery();
+	const boardInput = { pipelineId: pipelineId ?? undefined };
+	const { data: board, isPending } = trpc.organization.pipeline.board.useQuery(
+		boardInput,
+		{ placeholderData: (prev) => prev },
+	);
+
+	const moveDealMutation = trpc.organization.pipeline.moveDeal.useMutation({
+		onMutate: async ({ id, stageId, position }) => {
+			await utils.organization.pipeline.board.cancel(boardInput);
+			const previous = utils.organization.pipeline.board.getData(boardInput);
+			if (previous) {
+				utils.organization.pipeline.board.setData(
+					boardInput,
+					moveDealOnBoard(previous, id, stageId, position),
+				);
+			}
+			return { previous };
+		},
+		onError: (error, _input, context) => {
+			if (context?.previous) {
+				utils.organization.pipeline.board.setData(boardInput, context.previous);
+			}
+			toast.error(error.message || "Failed to move deal");
+		},
+		onSettled: () => {
+			utils.organization.pipeline.board.invalidate();
+		},
+	});
+
+	// Insert before the deal dropped on, or at the end of the column
+	const handleDrop = (stage: BoardStage, beforeDealId?: string) => {
+		const dealId = draggedDealId;
+		setDraggedDealId(null);
+		setDropStageId(null);
+		if (!dealId || dealId === beforeDealId) return;
+
+		const others = stage.deals.filter((deal) => deal.id !== dealId);
+		const index = beforeDealId
+			? others.findIndex((deal) => deal.id === beforeDealId)
+			: -1;
+		const position = index === -1 ? others.length : index;
+
+		const current = stage.deals.findIndex((deal) => deal.id === dealId);
+		if (current === position) return;
+
+		moveDealMutation.mutate({ id: dealId, stageId: stage.id, position });
+	};
+
+	if (isPending || !board) {
+		return <CenteredSpinner />;
+	}
+
+	const stageOptions = board.stages.map((stage) => ({
+		id: stage.id,
+		name: stage.name,
+	}));
+
+	return (
+		<div className="flex flex-col gap-4">
+			<div className="flex flex-wrap items-center gap-2">
+				{pipelines && pipelines.length > 1 && (
+					<Select
+						value={board.pipeline.id}
+						onValueChange={(value) => setPipelineId(value)}
+					>
+						<SelectTrigger className="w-48" size="sm">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{pipelines.map((pipeline) => (
+								<SelectItem key={pipeline.id} value={pipeline.id}>
+									{pipeline.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				)}
+				<div className="text-sm">
+					<span className="text-muted-foreground">Weighted forecast: </span>
+					<span className="font-medium">
+						{formatTotals(board.forecast, "weightedAmount")}
+					</span>
+				</div>
+				<div className="ml-auto flex items-center gap-2">
+					<NewPipelineButton onCreated={(id) => setPipelineId(id)} />
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() =>
+							NiceModal.show(PipelineStagesModal, {
+								pipelineId: board.pipeline.id,
+								stages: board.stages.map((stage) => ({
+									...stage,
+									dealCount: stage.deals.length,
+								})),
+							})
+						}
+					>
+						<Settings2Icon className="size-4" />
+						Stages
+					</Button>
+					<Button
+						size="sm"
+						onClick={() =>
+							NiceModal.show(DealsModal, {
+								pipelineId: board.pipeline.id,
+								stages: stageOptions,
+							})
+						}
+					>
+						<PlusIcon className="size-4" />
+						Deal
+					</Button>
+				</div>
+			</div>
+
+			{board.stages.length === 0 ? (
+				<Empty>
+					<EmptyHeader>
+						<EmptyMedia variant="icon">
+							<KanbanIcon />
+						</EmptyMedia>
+						<EmptyTitle>No stages</EmptyTitle>
+						<EmptyDescription>
+							Add stages to this pipeline to start tracking deals.
+						</EmptyDescription>
+					</EmptyHeader>
+				</Empty>
+			) : (
+				<ScrollArea className="w-full">
+					<div className="flex gap-3 pb-4">
+						{board.stages.map((stage) => (
+							<section
+								key={stage.id}
+								aria-label={stage.name}
+								onDragOver={(e) => {
+									e.preventDefault();
+									setDropStageId(stage.id);
+								}}
+								onDragLeave={() => setDropStageId(null)}
+								onDrop={(e) => {
+									e.preventDefault();
+									handleDrop(stage);
+								}}
+								className={cn(
+									"flex w-72 shrink-0 flex-col gap-2 rounded-lg border border-t-4 bg-muted/40 p-2",
+									stageTypeColors[stage.type],
+									dropStageId === stage.id && "bg-accent",
+								)}
+							>
+								<header className="space-y-1 px-1 pt-1">
+									<div className="flex items-center justify-between gap-2">
+										<h3 className="truncate font-medium text-sm">
+											{stage.name}
+										</h3>
+										<span className="text-muted-foreground text-xs">
+											{stage.probability}%
+										</span>
+									</div>
+									<div className="flex items-center justify-between gap-2 text-muted-foreground text-xs">
+										<span>
+											{stage.forecast?.dealCount ?? 0} deals
+											{stage.forecast?.rottingCount
+												? ` · ${stage.forecast.rottingCount} rotting`
+												: ""}
+										</span>
+										<span
+											title={`Total ${formatTotals(stage.forecast?.totals ?? [], "amount")}`}
+										>
+											{formatTotals(
+												stage.forecast?.totals ?? [],
+												"weightedAmount",
+											)}
+										</span>
+									</div>
+								</header>
+								<div className="flex min-h-24 flex-col gap-2">
+									{stage.deals.map((deal) => (
+										<DealCard
+											key={deal.id}
+											deal={deal}
+											stages={stageOptions}
+											pipelineId={board.pipeline.id}
+											onDragStart={() => setDraggedDealId(deal.id)}
+											onDrop={() => handleDrop(stage, deal.id)}
+										/>
+									))}
+								</div>
+							</section>
+						))}
+					</div>
+					<ScrollBar orientation="horizontal" />
+				</ScrollArea>
+			)}
+		</div>
+	);
+}
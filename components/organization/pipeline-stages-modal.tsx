@@ -0,0 +1,386 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, Trash2Icon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import {
+	type PipelineStageType,
+	PipelineStageTypes,
+} from "@/lib/db/schema/enums";
+import { capitalize } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+type Stage = {
+	id: string;
+	name: string;
+	type: PipelineStageType;
+	probability: number;
+	rottingDays: number | null;
+	dealCount: number;
+};
+
+export type PipelineStagesModalProps = NiceModalHocProps & {
+	pipelineId: string;
+	stages: Stage[];
+};
+
+type StageDraft = {
+	name: string;
+	type: PipelineStageType;
+	probability: string;
+	rottingDays: string;
+};
+
+function toDraft(stage: Omit<Stage, "id" | "dealCount">): StageDraft {
+	return {
+		name: stage.name,
+		type: stage.type,
+		probability: String(stage.probability),
+		rottingDays: stage.rottingDays === null ? "" : String(stage.rottingDays),
+	};
+}
+
+function fromDraft(draft: StageDraft) {
+	return {
+		name: draft.name.trim(),
+		type: draft.type,
+		probability: Math.min(100, Math.max(0, Number(draft.probability) || 0)),
+		rottingDays: draft.rottingDays ? Number(draft.rottingDays) : null,
+	};
+}
+
+function StageFields({
+	draft,
+	onChange,
+}: {
+	draft: StageDraft;
+	onChange: (draft: StageDraft) => void;
+}) {
+	return (
+		<div className="grid grid-cols-2 gap-2">
+			<div className="col-span-2 space-y-1">
+				<Label className="text-xs">Name</Label>
+				<Input
+					value={draft.name}
+					onChange={(e) => onChange({ ...draft, name: e.target.value })}
+				/>
+			</div>
+			<div className="space-y-1">
+				<Label className="text-xs">Probability (%)</Label>
+				<Input
+					type="number"
+					min={0}
+					max={100}
+					value={draft.probability}
+					onChange={(e) => onChange({ ...draft, probability: e.target.value })}
+				/>
+			</div>
+			<div className="space-y-1">
+				<Label className="text-xs">Rotting after (days)</Label>
+				<Input
+					type="number"
+					min={1}
+					placeholder="Never"
+					value={draft.rottingDays}
+					onChange={(e) => onChange({ ...draft, rottingDays: e.target.value })}
+				/>
+			</div>
+			<div className="col-span-2 space-y-1">
+				<Label className="text-xs">Type</Label>
+				<Select
+					value={draft.type}
+					onValueChange={(type) =>
+						onChange({ ...draft, type: type as PipelineStageType })
+					}
+				>
+					<SelectTrigger className="w-full">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{PipelineStageTypes.map((type) => (
+							<SelectItem key={type} value={type}>
+								{capitalize(type)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+		</div>
+	);
+}
+
+function StageRow({
+	stage,
+	otherStages,
+	isFirst,
+	isLast,
+	onMove,
+}: {
+	stage: Stage;
+	otherStages: Stage[];
+	isFirst: boolean;
+	isLast: boolean;
+	onMove: (direction: -1 | 1) => void;
+}) {
+	const utils = trpc.useUtils();
+	const [draft, setDraft] = React.useState(() => toDraft(stage));
+	const [moveDealsTo, setMoveDealsTo] = React.useState<string>();
+
+	const isDirty =
+		JSON.stringify(fromDraft(draft)) !==
+		JSON.stringify(fromDraft(toDraft(stage)));
+
+	const invalidate = () => {
+		utils.organization.pipeline.board.invalidate();
+		utils.organization.pipeline.list.invalidate();
+	};
+
+	const updateStageMutation =
+		trpc.organization.pipeline.updateStage.useMutation({
+			onSuccess: () => {
+				toast.success("Stage updated");
+				invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to update stage");
+			},
+		});
+
+	const deleteStageMutation =
+		trpc.organization.pipeline.deleteStage.useMutation({
+			onSuccess: () => {
+				toast.success("Stage deleted");
+				invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to delete stage");
+			},
+		});
+
+	const handleDelete = () => {
+		NiceModal.show(ConfirmationModal, {
+			title: `Delete "${stage.name}"?`,
+			message:
+				stage.dealCount > 0
+					? `Its ${stage.dealCount} deals move to the selected stage.`
+					: "This stage has no deals.",
+			confirmLabel: "Delete",
+			destructive: true,
+			onConfirm: () =>
+				deleteStageMutation.mutate({
+					id: stage.id,
+					moveDealsToStageId: moveDealsTo,
+				}),
+		});
+	};
+
+	return (
+		<div className="space-y-3 rounded-md border p-3">
+			<StageFields draft={draft} onChange={setDraft} />
+
+			{stage.dealCount > 0 && (
+				<div className="space-y-1">
+					<Label className="text-xs">Move deals on delete to</Label>
+					<Select value={moveDealsTo} onValueChange={setMoveDealsTo}>
+						<SelectTrigger className="w-full">
+							<SelectValue placeholder="Select stage" />
+						</SelectTrigger>
+						<SelectContent>
+							{otherStages.map((other) => (
+								<SelectItem key={other.id} value={other.id}>
+									{other.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			)}
+
+			<div className="flex items-center gap-1">
+				<Button
+					type="button"
+					variant="ghost"
+					size="icon"
+					disabled={isFirst}
+					onClick={() => onMove(-1)}
+				>
+					<ArrowUpIcon className="size-4" />
+					<span className="sr-only">Move up</span>
+				</Button>
+				<Button
+					type="button"
+					variant="ghost"
+					size="icon"
+					disabled={isLast}
+					onClick={() => onMove(1)}
+				>
+					<ArrowDownIcon className="size-4" />
+					<span className="sr-only">Move down</span>
+				</Button>
+				<Button
+					type="button"
+					variant="ghost"
+					size="icon"
+					className="text-destructive"
+					disabled={
+						deleteStageMutation.isPending ||
+						otherStages.length === 0 ||
+						(stage.dealCount > 0 && !moveDealsTo)
+					}
+					onClick={handleDelete}
+				>
+					<Trash2Icon className="size-4" />
+					<span className="sr-only">Delete stage</span>
+				</Button>
+				<Button
+					type="button"
+					size="sm"
+					className="ml-auto"
+					disabled={!isDirty || !draft.name.trim()}
+					loading={updateStageMutation.isPending}
+					onClick={() =>
+						updateStageMutation.mutate({ id: stage.id, ...fromDraft(draft) })
+					}
+				>
+					Save
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+export const PipelineStagesModal = NiceModal.create<PipelineStagesModalProps>(
+	({ pipelineId, stages: initialStages }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const { data: board } = trpc.organization.pipeline.board.useQuery({
+			pipelineId,
+		});
+		const stages: Stage[] =
+			board?.stages.map((stage) => ({
+				...stage,
+				dealCount: stage.deals.length,
+			})) ?? initialStages;
+
+		const [newStage, setNewStage] = React.useState<StageDraft>(() =>
+			toDraft({ name: "", type: "open", probability: 50, rottingDays: null }),
+		);
+
+		const invalidate = () => {
+			utils.organization.pipeline.board.invalidate();
+			utils.organization.pipeline.list.invalidate();
+		};
+
+		const createStageMutation =
+			trpc.organization.pipeline.createStage.useMutation({
+				onSuccess: () => {
+					toast.success("Stage added");
+					setNewStage(
+						toDraft({
+							name: "",
+							type: "open",
+							probability: 50,
+							rottingDays: null,
+						}),
+					);
+					invalidate();
+				},
+				onError: (error) => {
+					toast.error(error.message || "Failed to add stage");
+				},
+			});
+
+		const reorderStagesMutation =
+			trpc.organization.pipeline.reorderStages.useMutation({
+				onSuccess: invalidate,
+				onError: (error) => {
+					toast.error(error.message || "Failed to reorder stages");
+				},
+			});
+
+		const moveStage = (index: number, direction: -1 | 1) => {
+			const stageIds = stages.map((stage) => stage.id);
+			const [moved] = stageIds.splice(index, 1);
+			if (!moved) return;
+			stageIds.splice(index + direction, 0, moved);
+			reorderStagesMutation.mutate({ pipelineId, stageIds });
+		};
+
+		return (
+			<Sheet
+				open={modal.visible}
+				onOpenChange={(open) => !open && modal.handleClose()}
+			>
+				<SheetContent
+					className="sm:max-w-lg"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+				>
+					<SheetHeader>
+						<SheetTitle>Pipeline stages</SheetTitle>
+						<SheetDescription>
+							Probability weights the forecast. Deals rot when they stay in a
+							stage longer than its rotting days.
+						</SheetDescription>
+					</SheetHeader>
+
+					<ScrollArea className="flex-1">
+						<div className="space-y-3 px-6 py-4">
+							{stages.map((stage, index) => (
+								<StageRow
+									key={stage.id}
+									stage={stage}
+									otherStages={stages.filter((other) => other.id !== stage.id)}
+									isFirst={index === 0}
+									isLast={index === stages.length - 1}
+									onMove={(direction) => moveStage(index, direction)}
+								/>
+							))}
+
+							<div className="space-y-3 rounded-md border border-dashed p-3">
+								<p className="font-medium text-sm">New stage</p>
+								<StageFields draft={newStage} onChange={setNewStage} />
+								<Button
+									type="button"
+									size="sm"
+									variant="outline"
+									disabled={!newStage.name.trim()}
+									loading={createStageMutation.isPending}
+									onClick={() =>
+										createStageMutation.mutate({
+											pipelineId,
+											...fromDraft(newStage),
+										})
+									}
+								>
+									<PlusIcon className="size-4" />
+									Add stage
+								</Button>
+							</div>
+						</div>
+					</ScrollArea>
+				</SheetContent>
+			</Sheet>
+		);
+	},
+);
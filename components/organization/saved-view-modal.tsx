@@ -0,0 +1,188 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field } from "@/components/ui/field";
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import {
+	type SavedViewEntity,
+	SavedViewVisibility,
+} from "@/lib/db/schema/enums";
+import type { SavedView } from "@/lib/saved-views/types";
+import type { FilterGroup } from "@/schemas/filter.schema";
+import {
+	createSavedViewSchema,
+	type SavedViewSort,
+} from "@/schemas/saved-view.schema";
+import { trpc } from "@/trpc/client";
+
+const savedViewFormSchema = createSavedViewSchema.pick({
+	name: true,
+	visibility: true,
+});
+
+export type SavedViewModalProps = NiceModalHocProps & {
+	entity: SavedViewEntity;
+	// Filter, layout and sort saved with a new view
+	state: {
+		filter: FilterGroup | null;
+		columns: string[];
+		sort: SavedViewSort | null;
+	};
+	// Renames or shares the view instead of creating one
+	view?: SavedView;
+	onSaved?: (view: SavedView) => void;
+};
+
+export const SavedViewModal = NiceModal.create<SavedViewModalProps>(
+	({ entity, state, view, onSaved }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const isEditing = !!view;
+
+		const onSuccess = (saved: SavedView) => {
+			toast.success(isEditing ? "View updated" : "View saved");
+			utils.organization.savedView.list.invalidate();
+			onSaved?.(saved);
+			modal.handleClose();
+		};
+
+		const createViewMutation = trpc.organization.savedView.create.useMutation({
+			onSuccess,
+			onError: (error) => {
+				toast.error(error.message || "Failed to save view");
+			},
+		});
+
+		const updateViewMutation = trpc.organization.savedView.update.useMutation({
+			onSuccess,
+			onError: (error) => {
+				toast.error(error.message || "Failed to update view");
+			},
+		});
+
+		const isPending =
+			createViewMutation.isPending || updateViewMutation.isPending;
+
+		const form = useZodForm({
+			schema: savedViewFormSchema,
+			defaultValues: {
+				name: view?.name ?? "",
+				visibility: view?.visibility ?? SavedViewVisibility.personal,
+			},
+		});
+
+		const onSubmit = form.handleSubmit((data) => {
+			if (view) {
+				updateViewMutation.mutate({ id: view.id, ...data });
+			} else {
+				createViewMutation.mutate({ entity, ...state, ...data });
+			}
+		});
+
+		return (
+			<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+				<DialogContent
+					className="max-w-md"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+					onClose={modal.handleClose}
+				>
+					<DialogHeader>
+						<DialogTitle>{isEditing ? "Edit view" : "Save view"}</DialogTitle>
+						<DialogDescription>
+							{isEditing
+								? "Rename the view or change who sees it."
+								: "Save the current filters, columns and sort."}
+						</DialogDescription>
+					</DialogHeader>
+
+					<Form {...form}>
+						<form onSubmit={onSubmit} className="space-y-4">
+							<FormField
+								control={form.control}
+								name="name"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Name</FormLabel>
+											<FormControl>
+												<Input
+													placeholder="Hot leads this month"
+													autoComplete="off"
+													{...field}
+												/>
+											</FormControl>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="visibility"
+								render={({ field }) => (
+									<FormItem className="flex items-center justify-between gap-4">
+										<div className="space-y-1">
+											<FormLabel>Share with the organization</FormLabel>
+											<FormDescription>
+												Every member sees shared views.
+											</FormDescription>
+										</div>
+										<FormControl>
+											<Switch
+												checked={field.value === SavedViewVisibility.shared}
+												onCheckedChange={(checked) =>
+													field.onChange(
+														checked
+															? SavedViewVisibility.shared
+															: SavedViewVisibility.personal,
+													)
+												}
+											/>
+										</FormControl>
+									</FormItem>
+								)}
+							/>
+
+							<DialogFooter>
+								<Button
+									type="button"
+									variant="outline"
+									onClick={modal.handleClose}
+									disabled={isPending}
+								>
+									Cancel
+								</Button>
+								<Button type="submit" disabled={isPending} loading={isPending}>
+									{isEditing ? "Save" : "Save view"}
+								</Button>
+							</DialogFooter>
+						</form>
+					</Form>
+				</DialogContent>
+			</Dialog>
+		);
+	},
+);
@@ -0,0 +1,169 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { CheckIcon, ChevronDownIcon, UsersIcon } from "lucide-react";
+import type * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import {
+	SavedViewModal,
+	type SavedViewModalProps,
+} from "@/components/organization/saved-view-modal";
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+	type SavedViewEntity,
+	SavedViewVisibility,
+} from "@/lib/db/schema/enums";
+import type { SavedView } from "@/lib/saved-views/types";
+import { trpc } from "@/trpc/client";
+
+type SavedViewsMenuProps = {
+	entity: SavedViewEntity;
+	activeViewId: string | null;
+	// Current filter, layout and sort of the list
+	state: SavedViewModalProps["state"];
+	// Null selects the default view
+	onSelect: (view: SavedView | null) => void;
+};
+
+/**
+ * Picks, saves and manages the saved views of the contact or lead list
+ */
+export function SavedViewsMenu({
+	entity,
+	activeViewId,
+	state,
+	onSelect,
+}: SavedViewsMenuProps): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const { data: views } = trpc.organization.savedView.list.useQuery({ entity });
+	const activeView = views?.find((view) => view.id === activeViewId);
+	const defaultLabel = `All ${entity}s`;
+
+	const updateViewMutation = trpc.organization.savedView.update.useMutation({
+		onSuccess: () => {
+			toast.success("View updated");
+			utils.organization.savedView.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to update view");
+		},
+	});
+
+	const deleteViewMutation = trpc.organization.savedView.delete.useMutation({
+		onSuccess: () => {
+			toast.success("View deleted");
+			utils.organization.savedView.list.invalidate();
+			onSelect(null);
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to delete view");
+		},
+	});
+
+	const sharedViews = (views ?? []).filter(
+		(view) => view.visibility === SavedViewVisibility.shared,
+	);
+	const personalViews = (views ?? []).filter(
+		(view) => view.visibility === SavedViewVisibility.personal,
+	);
+
+	const renderViews = (label: string, items: SavedView[]) =>
+		items.length > 0 && (
+			<>
+				<DropdownMenuLabel className="text-muted-foreground text-xs">
+					{label}
+				</DropdownMenuLabel>
+				{items.map((view) => (
+					<DropdownMenuItem key={view.id} onClick={() => onSelect(view)}>
+						<span className="truncate">{view.name}</span>
+						{view.id === activeViewId && (
+							<CheckIcon className="ml-auto size-4 shrink-0" />
+						)}
+					</DropdownMenuItem>
+				))}
+			</>
+		);
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button size="sm" variant="outline" className="max-w-56">
+					{activeView?.visibility === SavedViewVisibility.shared && (
+						<UsersIcon className="size-4 shrink-0" />
+					)}
+					<span className="truncate">{activeView?.name ?? defaultLabel}</span>
+					<ChevronDownIcon className="size-4 shrink-0" />
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="start" className="w-60">
+				<DropdownMenuItem onClick={() => onSelect(null)}>
+					{defaultLabel}
+					{!activeView && <CheckIcon className="ml-auto size-4 shrink-0" />}
+				</DropdownMenuItem>
+				{renderViews("Shared", sharedViews)}
+				{renderViews("Personal", personalViews)}
+				<DropdownMenuSeparator />
+				<DropdownMenuItem
+					onClick={() =>
+						NiceModal.show(SavedViewModal, {
+							entity,
+							state,
+							onSaved: onSelect,
+						})
+					}
+				>
+					Save as new view...
+				</DropdownMenuItem>
+				{activeView?.editable && (
+					<>
+						<DropdownMenuItem
+							onClick={() =>
+								updateViewMutation.mutate({ id: activeView.id, ...state })
+							}
+						>
+							Update "{activeView.name}"
+						</DropdownMenuItem>
+						<DropdownMenuItem
+							onClick={() =>
+								NiceModal.show(SavedViewModal, {
+									entity,
+									state,
+									view: activeView,
+								})
+							}
+						>
+							Rename or share...
+						</DropdownMenuItem>
+						<DropdownMenuItem
+							variant="destructive"
+							onClick={() =>
+								NiceModal.show(ConfirmationModal, {
+									title: "Delete view?",
+									message:
+										activeView.visibility === SavedViewVisibility.shared
+											? `${activeView.name} will be deleted for every member.`
+											: `${activeView.name} will be deleted.`,
+									confirmLabel: "Delete",
+									destructive: true,
+									onConfirm: () =>
+										deleteViewMutation.mutate({ id: activeView.id }),
+								})
+							}
+						>
+							Delete view
+						</DropdownMenuItem>
+					</>
+				)}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
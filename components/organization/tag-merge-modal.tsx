@@ -0,0 +1,143 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field } from "@/components/ui/field";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import { mergeTagsSchema } from "@/schemas/tag.schema";
+import { trpc } from "@/trpc/client";
+
+type TagOption = { id: string; name: string };
+
+export type TagMergeModalProps = NiceModalHocProps & {
+	tag: TagOption & { contactCount: number };
+	tags: TagOption[];
+};
+
+export const TagMergeModal = NiceModal.create<TagMergeModalProps>(
+	({ tag, tags }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+
+		const mergeTagsMutation = trpc.organization.tag.merge.useMutation({
+			onSuccess: () => {
+				toast.success("Tags merged");
+				utils.organization.tag.list.invalidate();
+				utils.organization.contact.list.invalidate();
+				modal.handleClose();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to merge tags");
+			},
+		});
+
+		const form = useZodForm({
+			schema: mergeTagsSchema,
+			defaultValues: {
+				sourceIds: [tag.id],
+				targetId: "",
+			},
+		});
+
+		const onSubmit = form.handleSubmit((data) => {
+			mergeTagsMutation.mutate(data);
+		});
+
+		return (
+			<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+				<DialogContent
+					className="max-w-md"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+					onClose={modal.handleClose}
+				>
+					<DialogHeader>
+						<DialogTitle>Merge "{tag.name}"</DialogTitle>
+						<DialogDescription>
+							The {tag.contactCount} contacts tagged "{tag.name}" get the tag
+							you choose instead, then "{tag.name}" is deleted.
+						</DialogDescription>
+					</DialogHeader>
+
+					<Form {...form}>
+						<form onSubmit={onSubmit} className="space-y-4">
+							<FormField
+								control={form.control}
+								name="targetId"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Merge into</FormLabel>
+											<Select
+												value={field.value}
+												onValueChange={field.onChange}
+											>
+												<FormControl>
+													<SelectTrigger className="w-full">
+														<SelectValue placeholder="Select a tag" />
+													</SelectTrigger>
+												</FormControl>
+												<SelectContent>
+													{tags
+														.filter((option) => option.id !== tag.id)
+														.map((option) => (
+															<SelectItem key={option.id} value={option.id}>
+																{option.name}
+															</SelectItem>
+														))}
+												</SelectContent>
+											</Select>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<DialogFooter>
+								<Button
+									type="button"
+									variant="outline"
+									onClick={modal.handleClose}
+									disabled={mergeTagsMutation.isPending}
+								>
+									Cancel
+								</Button>
+								<Button
+									type="submit"
+									disabled={mergeTagsMutation.isPending}
+									loading={mergeTagsMutation.isPending}
+								>
+									Merge
+								</Button>
+							</DialogFooter>
+						</form>
+					</Form>
+				</DialogContent>
+			</Dialog>
+		);
+	},
+);
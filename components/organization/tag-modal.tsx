@@ -0,0 +1,206 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { CheckIcon } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field } from "@/components/ui/field";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import { cn } from "@/lib/utils";
+import { createTagSchema } from "@/schemas/tag.schema";
+import { trpc } from "@/trpc/client";
+
+const tagColors = [
+	"#ef4444",
+	"#f97316",
+	"#eab308",
+	"#22c55e",
+	"#14b8a6",
+	"#3b82f6",
+	"#8b5cf6",
+	"#ec4899",
+	"#64748b",
+];
+
+export type TagModalProps = NiceModalHocProps & {
+	tag?: {
+		id: string;
+		name: string;
+		color: string | null;
+		description: string | null;
+	};
+};
+
+export const TagModal = NiceModal.create<TagModalProps>(({ tag }) => {
+	const modal = useEnhancedModal();
+	const utils = trpc.useUtils();
+	const isEditing = !!tag;
+
+	const onSuccess = () => {
+		toast.success(isEditing ? "Tag updated" : "Tag created");
+		utils.organization.tag.list.invalidate();
+		utils.organization.contact.list.invalidate();
+		modal.handleClose();
+	};
+
+	const createTagMutation = trpc.organization.tag.create.useMutation({
+		onSuccess,
+		onError: (error) => {
+			toast.error(error.message || "Failed to create tag");
+		},
+	});
+
+	const updateTagMutation = trpc.organization.tag.update.useMutation({
+		onSuccess,
+		onError: (error) => {
+			toast.error(error.message || "Failed to update tag");
+		},
+	});
+
+	const isPending = createTagMutation.isPending || updateTagMutation.isPending;
+
+	const form = useZodForm({
+		schema: createTagSchema,
+		defaultValues: {
+			name: tag?.name ?? "",
+			color: tag?.color ?? null,
+			description: tag?.description ?? "",
+		},
+	});
+
+	const onSubmit = form.handleSubmit((data) => {
+		if (tag) {
+			updateTagMutation.mutate({ id: tag.id, ...data });
+		} else {
+			createTagMutation.mutate(data);
+		}
+	});
+
+	return (
+		<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+			<DialogContent
+				className="max-w-md"
+				onAnimationEndCapture={modal.handleAnimationEndCapture}
+				onClose={modal.handleClose}
+			>
+				<DialogHeader>
+					<DialogTitle>{isEditing ? "Edit tag" : "Create tag"}</DialogTitle>
+					<DialogDescription>
+						{isEditing
+							? "Renaming a tag renames it on every contact."
+							: "Tags are saved in lowercase."}
+					</DialogDescription>
+				</DialogHeader>
+
+				<Form {...form}>
+					<form onSubmit={onSubmit} className="space-y-4">
+						<FormField
+							control={form.control}
+							name="name"
+							render={({ field }) => (
+								<FormItem asChild>
+									<Field>
+										<FormLabel>Name</FormLabel>
+										<FormControl>
+											<Input placeholder="vip" autoComplete="off" {...field} />
+										</FormControl>
+										<FormMessage />
+									</Field>
+								</FormItem>
+							)}
+						/>
+
+						<FormField
+							control={form.control}
+							name="color"
+							render={({ field }) => (
+								<FormItem asChild>
+									<Field>
+										<FormLabel>Color</FormLabel>
+										<div className="flex flex-wrap gap-2">
+											{tagColors.map((color) => (
+												<button
+													key={color}
+													type="button"
+													className={cn(
+														"flex size-7 items-center justify-center rounded-full text-white ring-offset-2 ring-offset-background",
+														field.value === color && "ring-2 ring-ring",
+													)}
+													style={{ backgroundColor: color }}
+													onClick={() =>
+														field.onChange(field.value === color ? null : color)
+													}
+												>
+													{field.value === color && (
+														<CheckIcon className="size-4" />
+													)}
+													<span className="sr-only">{color}</span>
+												</button>
+											))}
+										</div>
+										<FormMessage />
+									</Field>
+								</FormItem>
+							)}
+						/>
+
+						<FormField
+							control={form.control}
+							name="description"
+							render={({ field }) => (
+								<FormItem asChild>
+									<Field>
+										<FormLabel>Description</FormLabel>
+										<FormControl>
+											<Textarea
+												className="resize-none"
+												rows={3}
+												placeholder="Customers with more than 3 orders"
+												{...field}
+												value={field.value ?? ""}
+											/>
+										</FormControl>
+										<FormMessage />
+									</Field>
+								</FormItem>
+							)}
+						/>
+
+						<DialogFooter>
+							<Button
+								type="button"
+								variant="outline"
+								onClick={modal.handleClose}
+								disabled={isPending}
+							>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={isPending} loading={isPending}>
+								{isEditing ? "Save" : "Create tag"}
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	);
+});
@@ -0,0 +1,159 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { MoreVerticalIcon, PlusIcon } from "lucide-react";
+import type * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { TagMergeModal } from "@/components/organization/tag-merge-modal";
+import { TagModal } from "@/components/organization/tag-modal";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import type { TagSummary } from "@/lib/ember/memoria/tags";
+import { trpc } from "@/trpc/client";
+
+/**
+ * Card component for managing the contact tags of the organization.
+ * Only rendered for organization admins.
+ */
+export function TagsCard(): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const { data: tags, isLoading } = trpc.organization.tag.list.useQuery();
+
+	const deleteTagMutation = trpc.organization.tag.delete.useMutation({
+		onSuccess: () => {
+			toast.success("Tag deleted");
+			utils.organization.tag.list.invalidate();
+			utils.organization.contact.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to delete tag");
+		},
+	});
+
+	const handleDelete = (tag: TagSummary) => {
+		NiceModal.show(ConfirmationModal, {
+			title: "Delete tag?",
+			message: `"${tag.name}" will be removed from ${tag.contactCount} contacts.`,
+			confirmLabel: "Delete",
+			destructive: true,
+			onConfirm: () => deleteTagMutation.mutate({ id: tag.id }),
+		});
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-start justify-between gap-4">
+				<div className="space-y-1.5">
+					<CardTitle>Tags</CardTitle>
+					<CardDescription>
+						Rename, merge or delete the tags used on contacts. Changes apply to
+						every tagged contact.
+					</CardDescription>
+				</div>
+				<Button
+					type="button"
+					size="sm"
+					variant="outline"
+					onClick={() => NiceModal.show(TagModal)}
+				>
+					<PlusIcon className="size-4" />
+					Add tag
+				</Button>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<Skeleton className="h-16 w-full" />
+				) : !tags || tags.length === 0 ? (
+					<EmptyText>No tags yet.</EmptyText>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Tag</TableHead>
+								<TableHead className="text-right">Contacts</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{tags.map((tag) => (
+								<TableRow key={tag.id}>
+									<TableCell>
+										<div className="flex items-center gap-2 font-medium text-sm">
+											<span
+												className="size-3 shrink-0 rounded-full border"
+												style={{ backgroundColor: tag.color ?? undefined }}
+											/>
+											{tag.name}
+										</div>
+										{tag.description && (
+											<div className="max-w-80 truncate text-muted-foreground text-xs">
+												{tag.description}
+											</div>
+										)}
+									</TableCell>
+									<TableCell className="text-right tabular-nums">
+										{tag.contactCount}
+									</TableCell>
+									<TableCell className="text-right">
+										<DropdownMenu>
+											<DropdownMenuTrigger asChild>
+												<Button type="button" variant="ghost" size="icon">
+													<MoreVerticalIcon className="size-4 shrink-0" />
+													<span className="sr-only">Tag actions</span>
+												</Button>
+											</DropdownMenuTrigger>
+											<DropdownMenuContent align="end">
+												<DropdownMenuItem
+													onClick={() => NiceModal.show(TagModal, { tag })}
+												>
+													Edit
+												</DropdownMenuItem>
+												<DropdownMenuItem
+													disabled={tags.length < 2}
+													onClick={() =>
+														NiceModal.show(TagMergeModal, { tag, tags })
+													}
+												>
+													Merge into...
+												</DropdownMenuItem>
+												<DropdownMenuItem
+													className="text-destructive"
+													onClick={() => handleDelete(tag)}
+												>
+													Delete
+												</DropdownMenuItem>
+											</DropdownMenuContent>
+										</DropdownMenu>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { ChevronRightIcon, RotateCwIcon, SendIcon } from "lucide-react";
+import * as React from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Collapsible,
+	CollapsibleContent,
+	CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import {
+	WebhookDeliveryStatus,
+	WebhookDeliveryStatuses,
+	WebhookEventType,
+	WebhookEventTypes,
+} from "@/lib/db/schema/enums";
+import { capitalize } from "@/lib/utils";
+import { trpc } from "@/trpc/client";
+
+export type WebhookDeliveriesModalProps = NiceModalHocProps & {
+	endpoint: {
+		id: string;
+		url: string;
+		events: WebhookEventType[];
+	};
+};
+
+type Delivery = {
+	id: string;
+	eventId: string;
+	eventType: WebhookEventType;
+	payload: string;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	responseStatus: number | null;
+	responseBody: string | null;
+	error: string | null;
+	durationMs: number | null;
+	isTest: boolean;
+	replayOfId: string | null;
+	createdAt: Date;
+};
+
+const statusBadgeVariants: Record<
+	WebhookDeliveryStatus,
+	"default" | "secondary" | "destructive"
+> = {
+	[WebhookDeliveryStatus.pending]: "secondary",
+	[WebhookDeliveryStatus.succeeded]: "default",
+	[WebhookDeliveryStatus.failed]: "destructive",
+};
+
+function formatPayload(payload: string): string {
+	try {
+		return JSON.stringify(JSON.parse(payload), null, 2);
+	} catch {
+		return payload;
+	}
+}
+
+function DeliveryRow({
+	delivery,
+	onReplay,
+	isReplaying,
+}: {
+	delivery: Delivery;
+	onReplay: () => void;
+	isReplaying: boolean;
+}) {
+	return (
+		<Collapsible className="group/delivery rounded-md border">
+			<CollapsibleTrigger asChild>
+				<button
+					type="button"
+					className="flex w-full items-center gap-2 p-3 text-left text-sm"
+				>
+					<ChevronRightIcon className="size-4 shrink-0 transition-transform group-data-[state=open]/delivery:rotate-90" />
+					<Badge variant={statusBadgeVariants[delivery.status]}>
+						{capitalize(delivery.status)}
+					</Badge>
+					<span className="truncate font-mono text-xs">
+						{delivery.eventType}
+					</span>
+					{delivery.isTest && <Badge variant="outline">Test</Badge>}
+					{delivery.replayOfId && <Badge variant="outline">Replay</Badge>}
+					<span className="ml-auto shrink-0 text-muted-foreground text-xs">
+						{format(delivery.createdAt, "MMM d, HH:mm:ss")}
+					</span>
+				</button>
+			</CollapsibleTrigger>
+			<CollapsibleContent>
+				<div className="space-y-3 border-t p-3 text-xs">
+					<div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+						<span>
+							Attempts:{" "}
+							<span className="text-foreground">{delivery.attempts}</span>
+						</span>
+						<span>
+							Response:{" "}
+							<span className="text-foreground">
+								{delivery.responseStatus ?? "—"}
+							</span>
+						</span>
+						{delivery.durationMs !== null && (
+							<span>
+								Duration:{" "}
+								<span className="text-foreground">
+									{delivery.durationMs} ms
+								</span>
+							</span>
+						)}
+						<span className="font-mono">Event {delivery.eventId}</span>
+					</div>
+					{delivery.error && (
+						<p className="text-destructive">{delivery.error}</p>
+					)}
+					<div className="space-y-1">
+						<p className="font-medium">Payload</p>
+						<pre className="max-h-64 overflow-auto rounded bg-muted p-2">
+							{formatPayload(delivery.payload)}
+						</pre>
+					</div>
+					{delivery.responseBody && (
+						<div className="space-y-1">
+							<p className="font-medium">Response body</p>
+							<pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded bg-muted p-2">
+								{delivery.responseBody}
+							</pre>
+						</div>
+					)}
+					<Button
+						type="button"
+						size="sm"
+						variant="outline"
+						disabled={delivery.status === WebhookDeliveryStatus.pending}
+						loading={isReplaying}
+						onClick={onReplay}
+					>
+						<RotateCwIcon className="size-4" />
+						Replay
+					</Button>
+				</div>
+			</CollapsibleContent>
+		</Collapsible>
+	);
+}
+
+export const WebhookDeliveriesModal =
+	NiceModal.create<WebhookDeliveriesModalProps>(({ endpoint }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const [status, setStatus] = React.useState<WebhookDeliveryStatus>();
+		// Created date of the last delivery of each previous page
+		const [pages, setPages] = React.useState<Date[]>([]);
+		const [testEventType, setTestEventType] = React.useState<WebhookEventType>(
+			endpoint.events[0] ?? WebhookEventType.contactCreated,
+		);
+
+		const { data, isLoading } = trpc.organization.webhook.deliveries.useQuery({
+			endpointId: endpoint.id,
+			status,
+			before: pages.at(-1),
+		});
+
+		const testMutation = trpc.organization.webhook.test.useMutation({
+			onSuccess: (delivery) => {
+				if (delivery.status === WebhookDeliveryStatus.succeeded) {
+					toast.success(`Endpoint responded with ${delivery.responseStatus}`);
+				} else {
+					toast.error(delivery.error ?? "Test delivery failed");
+				}
+				setPages([]);
+				utils.organization.webhook.deliveries.invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to send test event");
+			},
+		});
+
+		const replayMutation = trpc.organization.webhook.replay.useMutation({
+			onSuccess: () => {
+				toast.success("Delivery queued again");
+				setPages([]);
+				utils.organization.webhook.deliveries.invalidate();
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to replay delivery");
+			},
+		});
+
+		return (
+			<Sheet
+				open={modal.visible}
+				onOpenChange={(open) => !open && modal.handleClose()}
+			>
+				<SheetContent
+					className="sm:max-w-2xl"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+				>
+					<SheetHeader>
+						<SheetTitle>Webhook deliveries</SheetTitle>
+						<SheetDescription className="break-all font-mono text-xs">
+							{endpoint.url}
+						</SheetDescription>
+					</SheetHeader>
+
+					<div className="flex flex-wrap items-center gap-2 px-6">
+						<Select
+							value={testEventType}
+							onValueChange={(value) =>
+								setTestEventType(value as WebhookEventType)
+							}
+						>
+							<SelectTrigger className="w-56 font-mono text-xs">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{WebhookEventTypes.map((eventType) => (
+									<SelectItem
+										key={eventType}
+										value={eventType}
+										className="font-mono text-xs"
+									>
+										{eventType}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							type="button"
+							size="sm"
+							variant="outline"
+							loading={testMutation.isPending}
+							onClick={() =>
+								testMutation.mutate({
+									id: endpoint.id,
+									eventType: testEventType,
+								})
+							}
+						>
+							<SendIcon className="size-4" />
+							Send test
+						</Button>
+						<Select
+							value={status ?? "all"}
+							onValueChange={(value) => {
+								setStatus(
+									value === "all"
+										? undefined
+										: (value as WebhookDeliveryStatus),
+								);
+								setPages([]);
+							}}
+						>
+							<SelectTrigger className="ml-auto w-36">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="all">All statuses</SelectItem>
+								{WebhookDeliveryStatuses.map((value) => (
+									<SelectItem key={value} value={value}>
+										{capitalize(value)}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<ScrollArea className="flex-1">
+						<div className="space-y-2 px-6 py-4">
+							{isLoading ? (
+								<Skeleton className="h-24 w-full" />
+							) : !data || data.items.length === 0 ? (
+								<EmptyText>No deliveries yet.</EmptyText>
+							) : (
+								data.items.map((delivery) => (
+									<DeliveryRow
+										key={delivery.id}
+										delivery={delivery}
+										isReplaying={
+											replayMutation.isPending &&
+											replayMutation.variables?.id === delivery.id
+										}
+										onReplay={() => replayMutation.mutate({ id: delivery.id })}
+									/>
+								))
+							)}
+
+							{(pages.length > 0 || data?.nextBefore) && (
+								<div className="flex justify-between pt-2">
+									<Button
+										type="button"
+										size="sm"
+										variant="outline"
+										disabled={pages.length === 0}
+										onClick={() => setPages(pages.slice(0, -1))}
+									>
+										Newer
+									</Button>
+									<Button
+										type="button"
+										size="sm"
+										variant="outline"
+										disabled={!data?.nextBefore}
+										onClick={() =>
+											data?.nextBefore && setPages([...pages, data.nextBefore])
+										}
+									>
+										Older
+									</Button>
+								</div>
+							)}
+						</div>
+					</ScrollArea>
+				</SheetContent>
+			</Sheet>
+		);
+	});
@@ -0,0 +1,211 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { toast } from "sonner";
+import { WebhookSecretModal } from "@/components/organization/webhook-secret-modal";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field } from "@/components/ui/field";
+import {
+	Form,
+	FormControl,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+import { useZodForm } from "@/hooks/use-zod-form";
+import {
+	type WebhookEventType,
+	WebhookEventTypes,
+} from "@/lib/db/schema/enums";
+import { createWebhookEndpointSchema } from "@/schemas/webhook.schema";
+import { trpc } from "@/trpc/client";
+
+export type WebhookEndpointModalProps = NiceModalHocProps & {
+	endpoint?: {
+		id: string;
+		url: string;
+		description: string | null;
+		events: WebhookEventType[];
+	};
+};
+
+export const WebhookEndpointModal = NiceModal.create<WebhookEndpointModalProps>(
+	({ endpoint }) => {
+		const modal = useEnhancedModal();
+		const utils = trpc.useUtils();
+		const isEditing = !!endpoint;
+
+		const createEndpointMutation = trpc.organization.webhook.create.useMutation(
+			{
+				onSuccess: (data) => {
+					utils.organization.webhook.list.invalidate();
+					modal.handleClose();
+					NiceModal.show(WebhookSecretModal, { secret: data.secret });
+				},
+				onError: (error) => {
+					toast.error(error.message || "Failed to create webhook endpoint");
+				},
+			},
+		);
+
+		const updateEndpointMutation = trpc.organization.webhook.update.useMutation(
+			{
+				onSuccess: () => {
+					toast.success("Webhook endpoint updated");
+					utils.organization.webhook.list.invalidate();
+					modal.handleClose();
+				},
+				onError: (error) => {
+					toast.error(error.message || "Failed to update webhook endpoint");
+				},
+			},
+		);
+
+		const isPending =
+			createEndpointMutation.isPending || updateEndpointMutation.isPending;
+
+		const form = useZodForm({
+			schema: createWebhookEndpointSchema,
+			defaultValues: {
+				url: endpoint?.url ?? "",
+				description: endpoint?.description ?? "",
+				events: endpoint?.events ?? [],
+			},
+		});
+
+		const onSubmit = form.handleSubmit((data) => {
+			if (endpoint) {
+				updateEndpointMutation.mutate({ id: endpoint.id, ...data });
+			} else {
+				createEndpointMutation.mutate(data);
+			}
+		});
+
+		return (
+			<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+				<DialogContent
+					className="max-w-lg"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+					onClose={modal.handleClose}
+				>
+					<DialogHeader>
+						<DialogTitle>
+							{isEditing ? "Edit webhook endpoint" : "Add webhook endpoint"}
+						</DialogTitle>
+						<DialogDescription>
+							Events are POSTed as signed JSON and retried with backoff until
+							the endpoint answers with a 2xx status.
+						</DialogDescription>
+					</DialogHeader>
+
+					<Form {...form}>
+						<form onSubmit={onSubmit} className="space-y-4">
+							<FormField
+								control={form.control}
+								name="url"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>URL</FormLabel>
+											<FormControl>
+												<Input
+													placeholder="https://example.com/webhooks/ember"
+													autoComplete="off"
+													{...field}
+												/>
+											</FormControl>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="description"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Description</FormLabel>
+											<FormControl>
+												<Input
+													placeholder="CRM sync"
+													autoComplete="off"
+													{...field}
+													value={field.value ?? ""}
+												/>
+											</FormControl>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<FormField
+								control={form.control}
+								name="events"
+								render={({ field }) => (
+									<FormItem asChild>
+										<Field>
+											<FormLabel>Events</FormLabel>
+											<div className="grid grid-cols-2 gap-2">
+												{WebhookEventTypes.map((eventType) => (
+													<Label
+														key={eventType}
+														className="flex items-center gap-2 font-mono font-normal text-xs"
+													>
+														<Checkbox
+															checked={field.value.includes(eventType)}
+															onCheckedChange={(checked) =>
+																field.onChange(
+																	checked
+																		? [...field.value, eventType]
+																		: field.value.filter(
+																				(value) => value !== eventType,
+																			),
+																)
+															}
+														/>
+														{eventType}
+													</Label>
+												))}
+											</div>
+											<FormMessage />
+										</Field>
+									</FormItem>
+								)}
+							/>
+
+							<DialogFooter>
+								<Button
+									type="button"
+									variant="outline"
+									onClick={modal.handleClose}
+									disabled={isPending}
+								>
+									Cancel
+								</Button>
+								<Button type="submit" disabled={isPending} loading={isPending}>
+									{isEditing ? "Save" : "Add endpoint"}
+								</Button>
+							</DialogFooter>
+						</form>
+					</Form>
+				</DialogContent>
+			</Dialog>
+		);
+	},
+);
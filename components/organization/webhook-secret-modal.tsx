@@ -0,0 +1,80 @@
+"use client";
+
+import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
+import { CopyIcon } from "lucide-react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useEnhancedModal } from "@/hooks/use-enhanced-modal";
+
+export type WebhookSecretModalProps = NiceModalHocProps & {
+	secret: string;
+};
+
+/**
+ * Shows the signing secret of an endpoint once, after creation or rotation
+ */
+export const WebhookSecretModal = NiceModal.create<WebhookSecretModalProps>(
+	({ secret }) => {
+		const modal = useEnhancedModal();
+
+		const handleCopy = () => {
+			navigator.clipboard.writeText(secret);
+			toast.success("Copied!");
+		};
+
+		return (
+			<Dialog open={modal.visible} onOpenChange={modal.handleOpenChange}>
+				<DialogContent
+					className="max-w-lg"
+					onAnimationEndCapture={modal.handleAnimationEndCapture}
+					onClose={modal.handleClose}
+				>
+					<DialogHeader>
+						<DialogTitle>Signing secret</DialogTitle>
+						<DialogDescription>
+							Requests carry an <code>Ember-Signature</code> header: the
+							HMAC-SHA256 of <code>{"<timestamp>.<body>"}</code> with this
+							secret.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-3">
+						<Alert>
+							<AlertDescription>
+								Copy this secret now, it won't be shown again.
+							</AlertDescription>
+						</Alert>
+						<div className="flex items-center gap-2">
+							<Input readOnly value={secret} className="font-mono text-xs" />
+							<Button
+								type="button"
+								variant="outline"
+								size="icon"
+								onClick={handleCopy}
+							>
+								<CopyIcon className="size-4" />
+								<span className="sr-only">Copy signing secret</span>
+							</Button>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" onClick={modal.handleClose}>
+							Done
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		);
+	},
+);
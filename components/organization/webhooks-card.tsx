@@ -0,0 +1,218 @@
+"use client";
+
+import NiceModal from "@ebay/nice-modal-react";
+import { format } from "date-fns";
+import { MoreVerticalIcon, PlusIcon } from "lucide-react";
+import type * as React from "react";
+import { toast } from "sonner";
+import { ConfirmationModal } from "@/components/confirmation-modal";
+import { WebhookDeliveriesModal } from "@/components/organization/webhook-deliveries-modal";
+import { WebhookEndpointModal } from "@/components/organization/webhook-endpoint-modal";
+import { WebhookSecretModal } from "@/components/organization/webhook-secret-modal";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { EmptyText } from "@/components/ui/custom/empty-text";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/trpc/client";
+
+/**
+ * Card component for managing the webhook endpoints of the organization.
+ * Only rendered for organization admins.
+ */
+export function WebhooksCard(): React.JSX.Element {
+	const utils = trpc.useUtils();
+	const { data: endpoints, isLoading } =
+		trpc.organization.webhook.list.useQuery();
+
+	const updateEndpointMutation = trpc.organization.webhook.update.useMutation({
+		onSuccess: () => {
+			utils.organization.webhook.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to update webhook endpoint");
+		},
+	});
+
+	const deleteEndpointMutation = trpc.organization.webhook.delete.useMutation({
+		onSuccess: () => {
+			toast.success("Webhook endpoint deleted");
+			utils.organization.webhook.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error(error.message || "Failed to delete webhook endpoint");
+		},
+	});
+
+	const rotateSecretMutation =
+		trpc.organization.webhook.rotateSecret.useMutation({
+			onSuccess: (data) => {
+				NiceModal.show(WebhookSecretModal, { secret: data.secret });
+			},
+			onError: (error) => {
+				toast.error(error.message || "Failed to rotate signing secret");
+			},
+		});
+
+	const handleDelete = (endpoint: { id: string; url: string }) => {
+		NiceModal.show(ConfirmationModal, {
+			title: "Delete webhook endpoint?",
+			message: `${endpoint.url} will stop receiving events and its delivery log will be deleted.`,
+			confirmLabel: "Delete",
+			destructive: true,
+			onConfirm: () => deleteEndpointMutation.mutate({ id: endpoint.id }),
+		});
+	};
+
+	const handleRotateSecret = (endpoint: { id: string; url: string }) => {
+		NiceModal.show(ConfirmationModal, {
+			title: "Rotate signing secret?",
+			message: `Requests to ${endpoint.url} will be signed with a new secret right away, update the receiver before rotating.`,
+			confirmLabel: "Rotate",
+			onConfirm: () => rotateSecretMutation.mutate({ id: endpoint.id }),
+		});
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row justify-between">
+				<div className="flex flex-col space-y-1.5">
+					<CardTitle>Webhooks</CardTitle>
+					<CardDescription>
+						Send signed events to your systems when contacts, leads,
+						conversations, forms and quotes change.
+					</CardDescription>
+				</div>
+				<Button
+					type="button"
+					size="sm"
+					onClick={() => NiceModal.show(WebhookEndpointModal)}
+				>
+					<PlusIcon className="size-4" />
+					Add endpoint
+				</Button>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<Skeleton className="h-24 w-full" />
+				) : !endpoints || endpoints.length === 0 ? (
+					<EmptyText>No webhook endpoints yet.</EmptyText>
+				) : (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>Endpoint</TableHead>
+								<TableHead>Events</TableHead>
+								<TableHead>Active</TableHead>
+								<TableHead />
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{endpoints.map((endpoint) => (
+								<TableRow key={endpoint.id}>
+									<TableCell>
+										<div className="max-w-72 truncate font-mono text-xs">
+											{endpoint.url}
+										</div>
+										{endpoint.description && (
+											<div className="font-medium text-sm">
+												{endpoint.description}
+											</div>
+										)}
+										<div className="text-muted-foreground text-xs">
+											Created {format(endpoint.createdAt, "MMM d, yyyy")}
+											{endpoint.createdBy ? ` by ${endpoint.createdBy}` : ""}
+										</div>
+									</TableCell>
+									<TableCell>
+										<div className="flex max-w-64 flex-wrap gap-1">
+											{endpoint.events.map((eventType) => (
+												<Badge
+													key={eventType}
+													variant="outline"
+													className="font-mono text-xs"
+												>
+													{eventType}
+												</Badge>
+											))}
+										</div>
+									</TableCell>
+									<TableCell>
+										<Switch
+											checked={endpoint.active}
+											disabled={updateEndpointMutation.isPending}
+											onCheckedChange={(active) =>
+												updateEndpointMutation.mutate({
+													id: endpoint.id,
+													active,
+												})
+											}
+										/>
+									</TableCell>
+									<TableCell className="text-right">
+										<DropdownMenu>
+											<DropdownMenuTrigger asChild>
+												<Button type="button" variant="ghost" size="icon">
+													<MoreVerticalIcon className="size-4 shrink-0" />
+													<span className="sr-only">Endpoint actions</span>
+												</Button>
+											</DropdownMenuTrigger>
+											<DropdownMenuContent align="end">
+												<DropdownMenuItem
+													onClick={() =>
+														NiceModal.show(WebhookDeliveriesModal, { endpoint })
+													}
+												>
+													Deliveries
+												</DropdownMenuItem>
+												<DropdownMenuItem
+													onClick={() =>
+														NiceModal.show(WebhookEndpointModal, { endpoint })
+													}
+												>
+													Edit
+												</DropdownMenuItem>
+												<DropdownMenuItem
+													onClick={() => handleRotateSecret(endpoint)}
+												>
+													Rotate secret
+												</DropdownMenuItem>
+												<DropdownMenuItem
+													className="text-destructive"
+													onClick={() => handleDelete(endpoint)}
+												>
+													Delete
+												</DropdownMenuItem>
+											</DropdownMenuContent>
+										</DropdownMenu>
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
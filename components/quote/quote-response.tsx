@@ -0,0 +1,93 @@
+"use client";
+
+import { CheckIcon, XIcon } from "lucide-react";
+import { useRouter } from "next/navigation";
+import * as React from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/trpc/client";
+
+export type QuoteResponseProps = {
+	token: string;
+};
+
+/**
+ * Accept / decline buttons of the public quote page
+ */
+export function QuoteResponse({
+	token,
+}: QuoteResponseProps): React.JSX.Element {
+	const router = useRouter();
+	const [isDeclining, setIsDeclining] = React.useState(false);
+	const [reason, setReason] = React.useState("");
+
+	const respondMutation = trpc.quote.respond.useMutation({
+		onSuccess: () => {
+			router.refresh();
+		},
+	});
+
+	return (
+		<div className="space-y-3">
+			{respondMutation.error && (
+				<Alert variant="destructive">
+					<AlertDescription>{respondMutation.error.message}</AlertDescription>
+				</Alert>
+			)}
+			{isDeclining ? (
+				<div className="space-y-3">
+					<Textarea
+						rows={3}
+						maxLength={1000}
+						value={reason}
+						placeholder="Let us know why (optional)"
+						onChange={(event) => setReason(event.target.value)}
+					/>
+					<div className="flex justify-end gap-2">
+						<Button
+							variant="ghost"
+							disabled={respondMutation.isPending}
+							onClick={() => setIsDeclining(false)}
+						>
+							Back
+						</Button>
+						<Button
+							variant="destructive"
+							loading={respondMutation.isPending}
+							onClick={() =>
+								respondMutation.mutate({
+									token,
+									decision: "declined",
+									reason: reason.trim() || undefined,
+								})
+							}
+						>
+							Decline quote
+						</Button>
+					</div>
+				</div>
+			) : (
+				<div className="flex justify-end gap-2">
+					<Button
+						variant="outline"
+						disabled={respondMutation.isPending}
+						onClick={() => setIsDeclining(true)}
+					>
+						<XIcon className="size-4" />
+						Decline
+					</Button>
+					<Button
+						loading={respondMutation.isPending}
+						onClick={() =>
+							respondMutation.mutate({ token, decision: "accepted" })
+						}
+					>
+						<CheckIcon className="size-4" />
+						Accept quote
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -4,6 +4,7 @@ import {
 	type Column,
 	type ColumnDef,
 	type ColumnFiltersState,
+	type ColumnOrderState,
 	flexRender,
 	getCoreRowModel,
 	getFacetedRowModel,
@@ -101,6 +102,9 @@ export interface DataTableProps<TData> {
 	sorting?: SortingState;
 	defaultSorting?: SortingState;
 	onSortingChange?: (sorting: SortingState) => void;
+	columnVisibility?: VisibilityState;
+	onColumnVisibilityChange?: (columnVisibility: VisibilityState) => void;
+	columnOrder?: ColumnOrderState;
 	pageSize?: number;
 	pageIndex?: number;
 	totalCount: number;
@@ -147,6 +151,9 @@ export function DataTable<TData>({
 	sorting: sortingProp,
 	defaultSorting = [],
 	onSortingChange,
+	columnVisibility: columnVisibilityProp,
+	onColumnVisibilityChange,
+	columnOrder,
 	pageSize = 25,
 	pageIndex = 0,
 	totalCount,
@@ -168,7 +175,7 @@ export function DataTable<TData>({
 }: DataTableProps<TData>) {
 	const [mounted, setMounted] = React.useState(false);
 	const [internalRowSelection, setInternalRowSelection] = React.useState({});
-	const [columnVisibility, setColumnVisibility] =
+	const [internalColumnVisibility, setInternalColumnVisibility] =
 		React.useState<VisibilityState>({});
 	const [internalColumnFilters, setInternalColumnFilters] =
 		React.useState<ColumnFiltersState>([]);
@@ -184,6 +191,10 @@ export function DataTable<TData>({
 		? (sortingProp ?? [])
 		: internalSorting;
 
+	// Use controlled column visibility if provided, otherwise use internal state
+	const currentColumnVisibility =
+		columnVisibilityProp ?? internalColumnVisibility;
+
 	React.useEffect(() => {
 		setMounted(true);
 	}, []);
@@ -203,7 +214,8 @@ export function DataTable<TData>({
 		columns,
 		state: {
 			sorting: currentSorting,
-			columnVisibility,
+			columnVisibility: currentColumnVisibility,
+			columnOrder: columnOrder ?? [],
 			rowSelection: enableRowSelection ? currentRowSelection : {},
 			columnFilters: currentColumnFilters,
 			pagination: enablePagination
@@ -237,7 +249,15 @@ export function DataTable<TData>({
 				? onFiltersChange(newFilters)
 				: setInternalColumnFilters(newFilters);
 		},
-		onColumnVisibilityChange: setColumnVisibility,
+		onColumnVisibilityChange: (updater) => {
+			const newVisibility =
+				typeof updater === "function"
+					? updater(currentColumnVisibility)
+					: updater;
+			onColumnVisibilityChange
+				? onColumnVisibilityChange(newVisibility)
+				: setInternalColumnVisibility(newVisibility);
+		},
 		onPaginationChange: enablePagination
 			? (updater) => {
 					const newPagination =
@@ -3,6 +3,7 @@
 import NiceModal, { type NiceModalHocProps } from "@ebay/nice-modal-react";
 import {
 	BotIcon,
+	ContactIcon,
 	CreditCardIcon,
 	HomeIcon,
 	LayoutDashboardIcon,
@@ -60,6 +61,11 @@ const organizationNavItems: NavItem[] = [
 		href: "/dashboard/organization",
 		icon: LayoutDashboardIcon,
 	},
+	{
+		title: "Contacts",
+		href: "/dashboard/organization/contacts",
+		icon: ContactIcon,
+	},
 	{
 		title: "Leads",
 		href: "/dashboard/organization/leads",
@@ -0,0 +1,25 @@
+export const apiConfig = {
+	// Version in the URL of the public REST API (/api/v1/...)
+	version: "v1",
+	// Start of every key, to make leaked keys easy to spot
+	keyPrefix: "ember_",
+	// Characters of the key kept in clear to tell keys apart
+	visiblePrefixLength: 12,
+	maxKeysPerOrganization: 25,
+	// Minimum time between two updates of a key's last used timestamp
+	lastUsedUpdateIntervalMs: 60_000,
+	// Cursor pagination
+	defaultPageSize: 25,
+	maxPageSize: 100,
+} satisfies ApiConfig;
+
+// Type definitions
+export type ApiConfig = {
+	version: string;
+	keyPrefix: string;
+	visiblePrefixLength: number;
+	maxKeysPerOrganization: number;
+	lastUsedUpdateIntervalMs: number;
+	defaultPageSize: number;
+	maxPageSize: number;
+};
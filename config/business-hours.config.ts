@@ -0,0 +1,16 @@
+export const businessHoursConfig = {
+	// Sent outside business hours when neither the channel nor the organization has one
+	defaultAwayMessage:
+		"Thanks for your message! Our team is currently away. We'll get back to you as soon as we're back.",
+	// An away message is not repeated in the same conversation within this window
+	awayMessageCooldownHours: 12,
+	// How far ahead to look for the next opening (holidays and closed weekdays)
+	nextOpeningLookaheadDays: 30,
+} satisfies BusinessHoursConfig;
+
+// Type definitions
+export type BusinessHoursConfig = {
+	defaultAwayMessage: string;
+	awayMessageCooldownHours: number;
+	nextOpeningLookaheadDays: number;
+};
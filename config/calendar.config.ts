@@ -0,0 +1,34 @@
+export const calendarConfig = {
+	// Calendar provider used for new meetings, see lib/ember/calendar/providers
+	provider: "local",
+	// Used when neither the contact nor the availability has a timezone
+	defaultTimezone: "UTC",
+	// Working hours used when the organization has no availability configured
+	// (keyed by weekday, 0 = Sunday)
+	defaultWorkingHours: {
+		1: [{ start: "09:00", end: "17:00" }],
+		2: [{ start: "09:00", end: "17:00" }],
+		3: [{ start: "09:00", end: "17:00" }],
+		4: [{ start: "09:00", end: "17:00" }],
+		5: [{ start: "09:00", end: "17:00" }],
+	},
+	defaultSlotDurationMinutes: 30,
+	// Slots offered to the contact at once
+	proposalCount: 3,
+	// Reminder sent through the conversation (and email) before the meeting
+	reminderMinutesBefore: 60,
+} satisfies CalendarConfig;
+
+// Type definitions
+export type WorkingHours = Partial<
+	Record<number, Array<{ start: string; end: string }>>
+>;
+
+export type CalendarConfig = {
+	provider: string;
+	defaultTimezone: string;
+	defaultWorkingHours: WorkingHours;
+	defaultSlotDurationMinutes: number;
+	proposalCount: number;
+	reminderMinutesBefore: number;
+};
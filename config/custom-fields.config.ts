@@ -0,0 +1,22 @@
+export const customFieldsConfig = {
+	// Fields an organization can define per entity (contacts / leads)
+	maxFieldsPerEntity: 50,
+	// Choices of select and multi-select fields
+	maxOptions: 100,
+	maxOptionLength: 100,
+	maxTextLength: 1000,
+	// Currency of new currency fields (ISO 4217)
+	defaultCurrency: "USD",
+	// Custom field filters in a single list query
+	maxFilters: 10,
+} satisfies CustomFieldsConfig;
+
+// Type definitions
+export type CustomFieldsConfig = {
+	maxFieldsPerEntity: number;
+	maxOptions: number;
+	maxOptionLength: number;
+	maxTextLength: number;
+	defaultCurrency: string;
+	maxFilters: number;
+};
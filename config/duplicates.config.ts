@@ -0,0 +1,29 @@
+export const duplicatesConfig = {
+	// Lowest confidence (0-1) at which contacts are reported as duplicates
+	detectionThreshold: 0.7,
+	// Defaults for organizations that haven't changed their settings
+	defaults: {
+		autoMergeEnabled: true,
+		autoMergeConfidence: 95, // 0-100
+		scanEnabled: true,
+	},
+	// Lowest auto-merge confidence an organization can choose (0-100)
+	minAutoMergeConfidence: 70,
+	// Contacts checked per duplicate scan job, the next batch is its own job
+	scanBatchSize: 100,
+	// Candidates per page of the review queue
+	pageSize: 20,
+} satisfies DuplicatesConfig;
+
+// Type definitions
+export type DuplicatesConfig = {
+	detectionThreshold: number;
+	defaults: {
+		autoMergeEnabled: boolean;
+		autoMergeConfidence: number;
+		scanEnabled: boolean;
+	};
+	minAutoMergeConfidence: number;
+	scanBatchSize: number;
+	pageSize: number;
+};
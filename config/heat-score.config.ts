@@ -0,0 +1,51 @@
+import { HeatScoreSignalType } from "@/lib/db/schema/enums";
+import type { HeatScoreSignal } from "@/schemas/heat-score.schema";
+
+export const heatScoreConfig = {
+	// Model of organizations that haven't defined their own, close to the
+	// original recency / frequency / value / engagement buckets
+	defaultModel: {
+		decayHalfLifeDays: 14,
+		hotThreshold: 80,
+		warmThreshold: 50,
+		signals: [
+			{ type: HeatScoreSignalType.recency, weight: 30 },
+			{ type: HeatScoreSignalType.interactions, weight: 30, target: 16 },
+			{ type: HeatScoreSignalType.lifetimeValue, weight: 20, target: 100000 }, // $1000
+			{ type: HeatScoreSignalType.responseTime, weight: 20, target: 300 }, // 5 minutes
+		],
+	},
+	maxSignals: 20,
+	maxDecayHalfLifeDays: 365,
+	// Contacts scored when previewing a model, picked at random
+	previewSampleSize: 5000,
+	// Contacts re-scored per recalculation job (one statement), the next batch
+	// is its own job
+	recalculationBatchSize: 5000,
+	// A running recalculation without a job left is marked failed after this
+	staleRunMinutes: 30,
+	// Score changes listed in the history of a contact
+	historyLimit: 50,
+	// Score changes older than this are deleted by the nightly decay
+	historyRetentionDays: 365,
+	// Score changes deleted per statement when pruning
+	historyPruneBatchSize: 10000,
+} satisfies HeatScoreConfig;
+
+// Type definitions
+export type HeatScoreConfig = {
+	defaultModel: {
+		decayHalfLifeDays: number;
+		hotThreshold: number;
+		warmThreshold: number;
+		signals: HeatScoreSignal[];
+	};
+	maxSignals: number;
+	maxDecayHalfLifeDays: number;
+	previewSampleSize: number;
+	recalculationBatchSize: number;
+	staleRunMinutes: number;
+	historyLimit: number;
+	historyRetentionDays: number;
+	historyPruneBatchSize: number;
+};
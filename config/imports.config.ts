@@ -0,0 +1,33 @@
+export const importsConfig = {
+	// Upload limits
+	maxFileSizeBytes: 10 * 1024 * 1024,
+	allowedMimeTypes: [
+		"text/csv",
+		"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	],
+	maxRows: 50_000,
+	// Rows shown (and checked for duplicates) in the preview step
+	previewRowCount: 50,
+	// Imports up to this many rows run right away instead of in the job queue
+	inlineRowLimit: 200,
+	// Rows processed per background job
+	chunkSize: 500,
+	// Minimum name similarity (0-1) for detectDuplicateContacts
+	duplicateNameThreshold: 0.85,
+	// Candidates below this confidence are not treated as duplicates
+	duplicateMinConfidence: 0.8,
+	recentImportsLimit: 10,
+} satisfies ImportsConfig;
+
+// Type definitions
+export type ImportsConfig = {
+	maxFileSizeBytes: number;
+	allowedMimeTypes: string[];
+	maxRows: number;
+	previewRowCount: number;
+	inlineRowLimit: number;
+	chunkSize: number;
+	duplicateNameThreshold: number;
+	duplicateMinConfidence: number;
+	recentImportsLimit: number;
+};
@@ -0,0 +1,33 @@
+export const jobsConfig = {
+	// Jobs running at the same time for a single organization
+	perOrganizationConcurrency: 3,
+	// Jobs claimed per worker batch
+	batchSize: 10,
+	// Delay between polls of the in-process worker
+	pollIntervalMs: 2_000,
+	// Running jobs older than this are considered abandoned and retried
+	lockTimeoutMs: 5 * 60 * 1000,
+	// Attempts before a job is dead-lettered
+	defaultMaxAttempts: 5,
+	// Exponential backoff between attempts: base * 2^(attempt - 1), capped
+	backoff: {
+		baseMs: 15_000,
+		maxMs: 60 * 60 * 1000,
+	},
+	// Time budget for a single cron invocation of the worker route
+	cronBudgetMs: 50_000,
+} satisfies JobsConfig;
+
+// Type definitions
+export type JobsConfig = {
+	perOrganizationConcurrency: number;
+	batchSize: number;
+	pollIntervalMs: number;
+	lockTimeoutMs: number;
+	defaultMaxAttempts: number;
+	backoff: {
+		baseMs: number;
+		maxMs: number;
+	};
+	cronBudgetMs: number;
+};
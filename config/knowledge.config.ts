@@ -0,0 +1,31 @@
+export const knowledgeConfig = {
+	// "<provider>:<modelId>", see lib/ember/core/providers
+	embeddingModel: "openai:text-embedding-3-small",
+	// Must match the knowledge_chunk.embedding column
+	embeddingDimensions: 1536,
+	// Target chunk size (characters) and overlap between consecutive chunks
+	chunkSize: 1_200,
+	chunkOverlap: 200,
+	// Chunks added to the prompt for each incoming message
+	topK: 5,
+	// Chunks less similar than this (cosine, 0-1) are ignored
+	minSimilarity: 0.3,
+	// Upload limits
+	maxFileSizeBytes: 20 * 1024 * 1024,
+	allowedMimeTypes: ["application/pdf", "text/markdown", "text/plain"],
+	// Web pages larger than this are truncated before chunking
+	maxUrlContentBytes: 5 * 1024 * 1024,
+} satisfies KnowledgeConfig;
+
+// Type definitions
+export type KnowledgeConfig = {
+	embeddingModel: string;
+	embeddingDimensions: number;
+	chunkSize: number;
+	chunkOverlap: number;
+	topK: number;
+	minSimilarity: number;
+	maxFileSizeBytes: number;
+	allowedMimeTypes: string[];
+	maxUrlContentBytes: number;
+};
@@ -0,0 +1,65 @@
+import { PipelineStageType } from "@/lib/db/schema/enums";
+
+export const pipelinesConfig = {
+	// Pipeline created the first time an organization opens the board
+	defaultPipelineName: "Sales",
+	defaultStages: [
+		{
+			name: "Qualified",
+			type: PipelineStageType.open,
+			probability: 10,
+			rottingDays: 14,
+		},
+		{
+			name: "Meeting scheduled",
+			type: PipelineStageType.open,
+			probability: 25,
+			rottingDays: 14,
+		},
+		{
+			name: "Proposal sent",
+			type: PipelineStageType.open,
+			probability: 50,
+			rottingDays: 10,
+		},
+		{
+			name: "Negotiation",
+			type: PipelineStageType.open,
+			probability: 75,
+			rottingDays: 7,
+		},
+		{
+			name: "Won",
+			type: PipelineStageType.won,
+			probability: 100,
+			rottingDays: null,
+		},
+		{
+			name: "Lost",
+			type: PipelineStageType.lost,
+			probability: 0,
+			rottingDays: null,
+		},
+	],
+	// Currency of deals created without one
+	defaultCurrency: "usd",
+	// Limits keeping boards usable
+	maxPipelines: 20,
+	maxStagesPerPipeline: 20,
+} satisfies PipelinesConfig;
+
+// Type definitions
+export type PipelineStageDefaults = {
+	name: string;
+	type: PipelineStageType;
+	probability: number;
+	rottingDays: number | null;
+};
+
+export type PipelinesConfig = {
+	defaultPipelineName: string;
+	defaultStages: PipelineStageDefaults[];
+	defaultCurrency: string;
+	maxPipelines: number;
+	maxStagesPerPipeline: number;
+};
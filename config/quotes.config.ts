@@ -0,0 +1,12 @@
+export const quotesConfig = {
+	// Days a sent quote can still be accepted
+	validityDays: 30,
+	// Currency of quotes without catalog products
+	defaultCurrency: "usd",
+} satisfies QuotesConfig;
+
+// Type definitions
+export type QuotesConfig = {
+	validityDays: number;
+	defaultCurrency: string;
+};
@@ -0,0 +1,20 @@
+export const savedViewsConfig = {
+	// Views a member can create per entity (contacts / leads), shared included
+	maxViewsPerUser: 50,
+	maxNameLength: 100,
+	// Conditions in a filter, all groups included
+	maxFilterConditions: 25,
+	// Groups nested in the top group of a filter
+	maxFilterDepth: 3,
+	// Column ids stored in the layout of a view
+	maxColumns: 50,
+} satisfies SavedViewsConfig;
+
+// Type definitions
+export type SavedViewsConfig = {
+	maxViewsPerUser: number;
+	maxNameLength: number;
+	maxFilterConditions: number;
+	maxFilterDepth: number;
+	maxColumns: number;
+};
@@ -0,0 +1,22 @@
+export const webhooksConfig = {
+	// Start of every signing secret
+	secretPrefix: "whsec_",
+	maxEndpointsPerOrganization: 10,
+	// Time allowed for an endpoint to respond
+	timeoutMs: 10_000,
+	// Delivery attempts before giving up, spaced by the job queue backoff
+	maxAttempts: 8,
+	// Characters of the endpoint response kept in the delivery log
+	maxResponseBodyLength: 2_000,
+	deliveryLogPageSize: 50,
+} satisfies WebhooksConfig;
+
+// Type definitions
+export type WebhooksConfig = {
+	secretPrefix: string;
+	maxEndpointsPerOrganization: number;
+	timeoutMs: number;
+	maxAttempts: number;
+	maxResponseBodyLength: number;
+	deliveryLogPageSize: number;
+};
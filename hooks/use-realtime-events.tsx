@@ -0,0 +1,143 @@
+"use client";
+
+import * as React from "react";
+import type { RealtimeEvent } from "@/lib/realtime/events";
+import { trpc } from "@/trpc/client";
+
+const REALTIME_EVENT_TYPES: RealtimeEvent["type"][] = [
+	"message.created",
+	"message.status",
+	"conversation.updated",
+];
+
+/**
+ * Subscribes to the organization's realtime stream and patches the
+ * React Query cache, so inbox and timeline views update without polling.
+ *
+ * The stream is scoped server-side to the session's active organization;
+ * `organizationId` only re-opens it when the active organization changes.
+ */
+export function useRealtimeEvents(organizationId: string): void {
+	const utils = trpc.useUtils();
+
+	const handleEvent = React.useCallback(
+		(event: RealtimeEvent) => {
+			const conversationId = event.conversationId;
+
+			switch (event.type) {
+				case "message.created": {
+					const { message } = event;
+					if (message) {
+						utils.organization.conversation.get.setData(
+							{ id: conversationId },
+							(conversation) => {
+								if (
+									!conversation ||
+									conversation.messages.some((m) => m.id === message.id)
+								) {
+									return conversation;
+								}
+								return {
+									...conversation,
+									messages: [
+										...conversation.messages,
+										{
+											...message,
+											externalId: null,
+											mediaUrl: null,
+											mediaMimeType: null,
+											model: null,
+											creditsUsed: null,
+											actionTriggered: null,
+											citations: [],
+											replyToId: null,
+											errorMessage: null,
+											sentBy: null,
+											createdAt: new Date(message.createdAt),
+										},
+									],
+								};
+							},
+						);
+						// Human replies need the sender's name
+						if (message.sentById) {
+							utils.organization.conversation.get.invalidate({
+								id: conversationId,
+							});
+						}
+					} else {
+						// Content too long for the event, load it
+						utils.organization.conversation.get.invalidate({
+							id: conversationId,
+						});
+					}
+
+					utils.organization.conversation.list.invalidate();
+					utils.organization.conversation.counts.invalidate();
+					utils.organization.contact.timeline.invalidate({
+						contactId: event.contactId,
+					});
+					break;
+				}
+				case "message.status": {
+					utils.organization.conversation.get.setData(
+						{ id: conversationId },
+						(conversation) =>
+							conversation && {
+								...conversation,
+								messages: conversation.messages.map((m) =>
+									m.id === event.messageId
+										? {
+												...m,
+												deliveryStatus: event.deliveryStatus,
+												errorMessage: event.errorMessage ?? m.errorMessage,
+											}
+										: m,
+								),
+							},
+					);
+					break;
+				}
+				case "conversation.updated": {
+					// Assignee details come from the server
+					utils.organization.conversation.get.invalidate({
+						id: conversationId,
+					});
+					utils.organization.conversation.list.invalidate();
+					utils.organization.conversation.counts.invalidate();
+					break;
+				}
+			}
+		},
+		[utils],
+	);
+
+	React.useEffect(() => {
+		if (!organizationId || typeof EventSource === "undefined") {
+			return;
+		}
+
+		const source = new EventSource("/api/realtime");
+
+		const listener = (message: MessageEvent<string>) => {
+			try {
+				handleEvent(JSON.parse(message.data) as RealtimeEvent);
+			} catch {
+				// Ignore malformed events
+			}
+		};
+
+		for (const type of REALTIME_EVENT_TYPES) {
+			source.addEventListener(type, listener);
+		}
+
+		// EventSource reconnects on its own; refetch what may have been missed
+		source.addEventListener("open", () => {
+			utils.organization.conversation.invalidate();
+		});
+
+		return () => {
+			source.close();
+		};
+	}, [organizationId, handleEvent, utils]);
+}
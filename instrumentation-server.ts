@@ -62,3 +62,15 @@ if (enableSentry && env.NEXT_PUBLIC_SENTRY_DSN) {
 		},
 	});
 }
+
+// In-process job worker for long-running servers (Vercel uses the cron route)
+if (env.JOB_WORKER_ENABLED) {
+	void import("@/lib/jobs/worker").then(({ startWorker }) => startWorker());
+}
+
+// Route webhooks of channels configured before their account ids were stored
+void import("@/lib/ember/canales/manager")
+	.then(({ channelManager }) => channelManager.backfillExternalAccountIds())
+	.catch((error) => {
+		console.error("Failed to backfill channel account ids", error);
+	});
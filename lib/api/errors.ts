@@ -0,0 +1,29 @@
+/**
+ * Error raised by API key management.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class ApiKeyError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: ApiKeyError["code"], message: string) {
+		super(message);
+		this.name = "ApiKeyError";
+		this.code = code;
+	}
+}
+
+/**
+ * Error returned by the public REST API.
+ * `status` is the HTTP status, `code` a stable machine-readable reason.
+ */
+export class ApiError extends Error {
+	public readonly status: number;
+	public readonly code: string;
+
+	constructor(status: number, code: string, message: string) {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+		this.code = code;
+	}
+}
@@ -0,0 +1,150 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { ZodError, type z } from "zod";
+import { billingConfig } from "@/config/billing.config";
+import { getActivePlanForOrganization } from "@/lib/billing/queries";
+import { isStripeConfigured } from "@/lib/billing/stripe";
+import { CustomFieldError } from "@/lib/custom-fields/errors";
+import type { ApiKeyScope } from "@/lib/db/schema/enums";
+import { logger } from "@/lib/logger";
+import { ApiError } from "./errors";
+import { type ApiKeyContext, authenticateApiKey, hasScope } from "./keys";
+
+/**
+ * Public REST API route handlers
+ *
+ * Every handler authenticates the API key from the `Authorization: Bearer`
+ * header, checks the organization plan includes API access and the key has
+ * the required scope. Errors are returned as `{ error: { code, message } }`.
+ */
+
+export interface ApiRequestContext<Params> {
+	apiKey: ApiKeyContext;
+	params: Params;
+}
+
+type ApiHandler<Params> = (
+	req: NextRequest,
+	context: ApiRequestContext<Params>,
+) => Promise<Response>;
+
+export function apiJson(data: unknown, status = 200): NextResponse {
+	return NextResponse.json(data, { status });
+}
+
+function apiErrorResponse(
+	status: number,
+	code: string,
+	message: string,
+	issues?: { path: string; message: string }[],
+): NextResponse {
+	return NextResponse.json(
+		{ error: { code, message, ...(issues && { issues }) } },
+		{ status },
+	);
+}
+
+/**
+ * API access is part of paid plans (see config/billing.config.ts)
+ */
+async function hasApiAccess(organizationId: string): Promise<boolean> {
+	if (!billingConfig.enabled || !isStripeConfigured()) {
+		return true;
+	}
+
+	const activePlan = await getActivePlanForOrganization(organizationId);
+	return !!activePlan && activePlan.planId !== "free";
+}
+
+function getBearerToken(req: NextRequest): string | null {
+	const header = req.headers.get("authorization");
+	const match = header?.match(/^Bearer\s+(\S+)$/i);
+	return match?.[1] ?? null;
+}
+
+export function parseQuery<T extends z.ZodType>(
+	req: NextRequest,
+	schema: T,
+): z.infer<T> {
+	return schema.parse(Object.fromEntries(req.nextUrl.searchParams));
+}
+
+export async function parseBody<T extends z.ZodType>(
+	req: NextRequest,
+	schema: T,
+): Promise<z.infer<T>> {
+	let body: unknown;
+	try {
+		body = await req.json();
+	} catch {
+		throw new ApiError(400, "invalid_json", "Request body must be JSON");
+	}
+	return schema.parse(body);
+}
+
+/**
+ * Wrap a route handler with API key authentication and error handling
+ */
+export function apiRoute<Params = Record<string, never>>(
+	scope: ApiKeyScope,
+	handler: ApiHandler<Params>,
+) {
+	return async (
+		req: NextRequest,
+		{ params }: { params: Promise<Params> },
+	): Promise<Response> => {
+		try {
+			const token = getBearerToken(req);
+			if (!token) {
+				throw new ApiError(
+					401,
+					"unauthorized",
+					"Missing API key, send it as `Authorization: Bearer <key>`",
+				);
+			}
+
+			const apiKey = await authenticateApiKey(token);
+			if (!apiKey) {
+				throw new ApiError(401, "unauthorized", "Invalid API key");
+			}
+
+			if (!(await hasApiAccess(apiKey.organizationId))) {
+				throw new ApiError(
+					403,
+					"plan_required",
+					"API access requires a paid plan",
+				);
+			}
+
+			if (!hasScope(apiKey.scopes, scope)) {
+				throw new ApiError(
+					403,
+					"insufficient_scope",
+					`This API key is missing the "${scope}" permission`,
+				);
+			}
+
+			return await handler(req, { apiKey, params: await params });
+		} catch (error) {
+			if (error instanceof ApiError) {
+				return apiErrorResponse(error.status, error.code, error.message);
+			}
+			if (error instanceof CustomFieldError) {
+				return apiErrorResponse(400, "invalid_custom_fields", error.message);
+			}
+			if (error instanceof ZodError) {
+				return apiErrorResponse(
+					400,
+					"validation_error",
+					"Invalid request",
+					error.issues.map((issue) => ({
+						path: issue.path.join("."),
+						message: issue.message,
+					})),
+				);
+			}
+
+			logger.error({ error, path: req.nextUrl.pathname }, "API request failed");
+			return apiErrorResponse(500, "internal_error", "Internal server error");
+		}
+	};
+}
@@ -0,0 +1,214 @@
+import crypto from "node:crypto";
+import { and, count, desc, eq, isNull } from "drizzle-orm";
+import { apiConfig } from "@/config/api.config";
+import { db } from "@/lib/db";
+import { type ApiKeyScope, ApiKeyScopes } from "@/lib/db/schema/enums";
+import { apiKeyTable, userTable } from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+import type { CreateApiKeyInput } from "@/schemas/api-key.schema";
+import { ApiKeyError } from "./errors";
+
+/**
+ * API Keys - Organization keys for the public REST API
+ *
+ * Keys are random and only their SHA-256 hash is stored, so a lookup by hash
+ * is enough to authenticate a request. The plain key is returned once, when
+ * it is created.
+ */
+
+const KEY_BYTES = 32;
+
+export interface ApiKeyContext {
+	apiKeyId: string;
+	organizationId: string;
+	scopes: ApiKeyScope[];
+}
+
+export function hashApiKey(key: string): string {
+	return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): {
+	key: string;
+	prefix: string;
+	keyHash: string;
+} {
+	const key = `${apiConfig.keyPrefix}${crypto.randomBytes(KEY_BYTES).toString("base64url")}`;
+
+	return {
+		key,
+		prefix: key.slice(0, apiConfig.visiblePrefixLength),
+		keyHash: hashApiKey(key),
+	};
+}
+
+/**
+ * Scopes stored on a key, unknown values (removed scopes) are dropped
+ */
+export function parseScopes(value: string): ApiKeyScope[] {
+	try {
+		const scopes: unknown = JSON.parse(value);
+		if (!Array.isArray(scopes)) return [];
+		return ApiKeyScopes.filter((scope) => scopes.includes(scope));
+	} catch {
+		return [];
+	}
+}
+
+export function hasScope(scopes: ApiKeyScope[], scope: ApiKeyScope): boolean {
+	return scopes.includes(scope);
+}
+
+/**
+ * Keys of an organization, newest first. Revoked keys are kept for reference.
+ */
+export async function listApiKeys(organizationId: string) {
+	const keys = await db
+		.select({
+			id: apiKeyTable.id,
+			name: apiKeyTable.name,
+			prefix: apiKeyTable.prefix,
+			scopes: apiKeyTable.scopes,
+			lastUsedAt: apiKeyTable.lastUsedAt,
+			expiresAt: apiKeyTable.expiresAt,
+			revokedAt: apiKeyTable.revokedAt,
+			createdAt: apiKeyTable.createdAt,
+			createdBy: userTable.name,
+		})
+		.from(apiKeyTable)
+		.leftJoin(userTable, eq(apiKeyTable.createdById, userTable.id))
+		.where(eq(apiKeyTable.organizationId, organizationId))
+		.orderBy(desc(apiKeyTable.createdAt));
+
+	return keys.map((key) => ({ ...key, scopes: parseScopes(key.scopes) }));
+}
+
+/**
+ * Create a key. The returned `key` is never stored and can't be shown again.
+ */
+export async function createApiKey(
+	organizationId: string,
+	input: CreateApiKeyInput,
+	actorId: string,
+) {
+	if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) {
+		throw new ApiKeyError("BAD_REQUEST", "Expiration must be in the future");
+	}
+
+	const [active] = await db
+		.select({ count: count() })
+		.from(apiKeyTable)
+		.where(
+			and(
+				eq(apiKeyTable.organizationId, organizationId),
+				isNull(apiKeyTable.revokedAt),
+			),
+		);
+	if ((active?.count ?? 0) >= apiConfig.maxKeysPerOrganization) {
+		throw new ApiKeyError(
+			"BAD_REQUEST",
+			`An organization can have up to ${apiConfig.maxKeysPerOrganization} active API keys`,
+		);
+	}
+
+	const { key, prefix, keyHash } = generateApiKey();
+	const [apiKey] = await db
+		.insert(apiKeyTable)
+		.values({
+			organizationId,
+			name: input.name,
+			prefix,
+			keyHash,
+			scopes: JSON.stringify(input.scopes),
+			createdById: actorId,
+			expiresAt: input.expiresAt ?? null,
+		})
+		.returning({
+			id: apiKeyTable.id,
+			name: apiKeyTable.name,
+			prefix: apiKeyTable.prefix,
+			createdAt: apiKeyTable.createdAt,
+		});
+
+	if (!apiKey) {
+		throw new Error("Failed to create API key");
+	}
+
+	logger.info(
+		{ organizationId, apiKeyId: apiKey.id, scopes: input.scopes },
+		"API key created",
+	);
+
+	return { ...apiKey, scopes: input.scopes, key };
+}
+
+export async function revokeApiKey(
+	organizationId: string,
+	apiKeyId: string,
+): Promise<void> {
+	const [revoked] = await db
+		.update(apiKeyTable)
+		.set({ revokedAt: new Date() })
+		.where(
+			and(
+				eq(apiKeyTable.id, apiKeyId),
+				eq(apiKeyTable.organizationId, organizationId),
+				isNull(apiKeyTable.revokedAt),
+			),
+		)
+		.returning({ id: apiKeyTable.id });
+
+	if (!revoked) {
+		throw new ApiKeyError("NOT_FOUND", "API key not found");
+	}
+
+	logger.info({ organizationId, apiKeyId }, "API key revoked");
+}
+
+/**
+ * Resolve the key of a request. Returns null for unknown, revoked or
+ * expired keys.
+ */
+export async function authenticateApiKey(
+	key: string,
+): Promise<ApiKeyContext | null> {
+	if (!key.startsWith(apiConfig.keyPrefix)) {
+		return null;
+	}
+
+	const apiKey = await db.query.apiKeyTable.findFirst({
+		where: eq(apiKeyTable.keyHash, hashApiKey(key)),
+	});
+
+	const now = new Date();
+	if (
+		!apiKey ||
+		apiKey.revokedAt ||
+		(apiKey.expiresAt && apiKey.expiresAt <= now)
+	) {
+		return null;
+	}
+
+	// Throttled, a busy integration shouldn't write on every request
+	if (
+		!apiKey.lastUsedAt ||
+		now.getTime() - apiKey.lastUsedAt.getTime() >=
+			apiConfig.lastUsedUpdateIntervalMs
+	) {
+		db.update(apiKeyTable)
+			.set({ lastUsedAt: now })
+			.where(eq(apiKeyTable.id, apiKey.id))
+			.catch((error) => {
+				logger.warn(
+					{ error, apiKeyId: apiKey.id },
+					"Failed to update API key last used timestamp",
+				);
+			});
+	}
+
+	return {
+		apiKeyId: apiKey.id,
+		organizationId: apiKey.organizationId,
+		scopes: parseScopes(apiKey.scopes),
+	};
+}
@@ -0,0 +1,289 @@
+import { z } from "zod";
+import { apiConfig } from "@/config/api.config";
+import { appConfig } from "@/config/app.config";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+import {
+	apiContactSchema,
+	apiConversationSchema,
+	apiCreateContactSchema,
+	apiCreateLeadSchema,
+	apiErrorSchema,
+	apiFormSchema,
+	apiLeadSchema,
+	apiListContactsSchema,
+	apiListConversationsSchema,
+	apiListFormsSchema,
+	apiListLeadsSchema,
+	apiListProductsSchema,
+	apiMessageSchema,
+	apiPageQuerySchema,
+	apiPageSchema,
+	apiProductSchema,
+	apiUpdateContactSchema,
+	apiUpdateLeadSchema,
+} from "@/schemas/api.schema";
+
+/**
+ * OpenAPI - Document of the public REST API, generated from its Zod schemas
+ *
+ * Every route in app/api/v1 has an operation here. Request schemas are
+ * described as the client sends them, response schemas as the API returns them.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+interface ApiOperation {
+	method: "get" | "post" | "patch" | "delete";
+	path: string;
+	tag: string;
+	summary: string;
+	scope: ApiKeyScope;
+	query?: z.ZodObject;
+	body?: z.ZodType;
+	response?: z.ZodType;
+	status?: number;
+}
+
+const operations: ApiOperation[] = [
+	{
+		method: "get",
+		path: "/contacts",
+		tag: "Contacts",
+		summary: "List contacts",
+		scope: ApiKeyScope.contactsRead,
+		query: apiListContactsSchema,
+		response: apiPageSchema(apiContactSchema),
+	},
+	{
+		method: "post",
+		path: "/contacts",
+		tag: "Contacts",
+		summary: "Create a contact",
+		scope: ApiKeyScope.contactsWrite,
+		body: apiCreateContactSchema,
+		response: apiContactSchema,
+		status: 201,
+	},
+	{
+		method: "get",
+		path: "/contacts/{id}",
+		tag: "Contacts",
+		summary: "Get a contact",
+		scope: ApiKeyScope.contactsRead,
+		response: apiContactSchema,
+	},
+	{
+		method: "patch",
+		path: "/contacts/{id}",
+		tag: "Contacts",
+		summary: "Update a contact",
+		scope: ApiKeyScope.contactsWrite,
+		body: apiUpdateContactSchema,
+		response: apiContactSchema,
+	},
+	{
+		method: "delete",
+		path: "/contacts/{id}",
+		tag: "Contacts",
+		summary: "Delete a contact",
+		scope: ApiKeyScope.contactsWrite,
+		status: 204,
+	},
+	{
+		method: "get",
+		path: "/leads",
+		tag: "Leads",
+		summary: "List leads",
+		scope: ApiKeyScope.leadsRead,
+		query: apiListLeadsSchema,
+		response: apiPageSchema(apiLeadSchema),
+	},
+	{
+		method: "post",
+		path: "/leads",
+		tag: "Leads",
+		summary: "Create a lead",
+		scope: ApiKeyScope.leadsWrite,
+		body: apiCreateLeadSchema,
+		response: apiLeadSchema,
+		status: 201,
+	},
+	{
+		method: "get",
+		path: "/leads/{id}",
+		tag: "Leads",
+		summary: "Get a lead",
+		scope: ApiKeyScope.leadsRead,
+		response: apiLeadSchema,
+	},
+	{
+		method: "patch",
+		path: "/leads/{id}",
+		tag: "Leads",
+		summary: "Update a lead",
+		scope: ApiKeyScope.leadsWrite,
+		body: apiUpdateLeadSchema,
+		response: apiLeadSchema,
+	},
+	{
+		method: "get",
+		path: "/conversations",
+		tag: "Conversations",
+		summary: "List conversations",
+		scope: ApiKeyScope.conversationsRead,
+		query: apiListConversationsSchema,
+		response: apiPageSchema(apiConversationSchema),
+	},
+	{
+		method: "get",
+		path: "/conversations/{id}",
+		tag: "Conversations",
+		summary: "Get a conversation",
+		scope: ApiKeyScope.conversationsRead,
+		response: apiConversationSchema,
+	},
+	{
+		method: "get",
+		path: "/conversations/{id}/messages",
+		tag: "Conversations",
+		summary: "List the messages of a conversation",
+		scope: ApiKeyScope.conversationsRead,
+		query: apiPageQuerySchema,
+		response: apiPageSchema(apiMessageSchema),
+	},
+	{
+		method: "get",
+		path: "/forms",
+		tag: "Forms",
+		summary: "List forms",
+		scope: ApiKeyScope.formsRead,
+		query: apiListFormsSchema,
+		response: apiPageSchema(apiFormSchema),
+	},
+	{
+		method: "get",
+		path: "/forms/{id}",
+		tag: "Forms",
+		summary: "Get a form",
+		scope: ApiKeyScope.formsRead,
+		response: apiFormSchema,
+	},
+	{
+		method: "get",
+		path: "/products",
+		tag: "Products",
+		summary: "List products",
+		scope: ApiKeyScope.productsRead,
+		query: apiListProductsSchema,
+		response: apiPageSchema(apiProductSchema),
+	},
+	{
+		method: "get",
+		path: "/products/{id}",
+		tag: "Products",
+		summary: "Get a product",
+		scope: ApiKeyScope.productsRead,
+		response: apiProductSchema,
+	},
+];
+
+function toJsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+	const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, {
+		io,
+		unrepresentable: "any",
+	}) as JsonSchema;
+	return jsonSchema;
+}
+
+function getQueryParameters(query: z.ZodObject) {
+	const schema = toJsonSchema(query, "input");
+	const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+	const required = new Set((schema.required ?? []) as string[]);
+
+	return Object.entries(properties).map(([name, property]) => ({
+		name,
+		in: "query",
+		required: required.has(name),
+		schema: property,
+	}));
+}
+
+function jsonContent(schema: JsonSchema) {
+	return { "application/json": { schema } };
+}
+
+function getOperation(operation: ApiOperation) {
+	const parameters = [
+		...(operation.path.includes("{id}")
+			? [
+					{
+						name: "id",
+						in: "path",
+						required: true,
+						schema: { type: "string", format: "uuid" },
+					},
+				]
+			: []),
+		...(operation.query ? getQueryParameters(operation.query) : []),
+	];
+	const status = operation.status ?? 200;
+	const errorResponse = {
+		description: "Error",
+		content: jsonContent({ $ref: "#/components/schemas/Error" }),
+	};
+
+	return {
+		tags: [operation.tag],
+		summary: operation.summary,
+		description: `Requires the \`${operation.scope}\` permission.`,
+		...(parameters.length > 0 && { parameters }),
+		...(operation.body && {
+			requestBody: {
+				required: true,
+				content: jsonContent(toJsonSchema(operation.body, "input")),
+			},
+		}),
+		responses: {
+			[status]: {
+				description: status === 204 ? "No content" : "Success",
+				...(operation.response && {
+					content: jsonContent(toJsonSchema(operation.response, "output")),
+				}),
+			},
+			400: errorResponse,
+			401: errorResponse,
+			403: errorResponse,
+			...(operation.path.includes("{id}") && { 404: errorResponse }),
+		},
+	};
+}
+
+/**
+ * OpenAPI 3.1 document of the current API version
+ */
+export function buildOpenApiDocument() {
+	const paths: Record<string, Record<string, unknown>> = {};
+	for (const operation of operations) {
+		const path = (paths[operation.path] ??= {});
+		path[operation.method] = getOperation(operation);
+	}
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: `${appConfig.appName} API`,
+			version: apiConfig.version,
+		},
+		servers: [{ url: `${appConfig.baseUrl}/api/${apiConfig.version}` }],
+		security: [{ bearerAuth: [] }],
+		components: {
+			securitySchemes: {
+				bearerAuth: { type: "http", scheme: "bearer" },
+			},
+			schemas: {
+				Error: toJsonSchema(apiErrorSchema, "output"),
+			},
+		},
+		paths,
+	};
+}
@@ -0,0 +1,83 @@
+import { desc, type SQL, sql } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { ApiError } from "./errors";
+
+/**
+ * Cursor pagination - Newest first, keyed on (created_at, id)
+ *
+ * The cursor is the position of the last row of a page. Postgres timestamps
+ * have microseconds but JavaScript dates only milliseconds, so rows are
+ * ordered and compared on the timestamp truncated to milliseconds.
+ */
+
+export interface PageCursor {
+	createdAt: Date;
+	id: string;
+}
+
+export interface Page<T> {
+	data: T[];
+	nextCursor: string | null;
+}
+
+// Any uuid Postgres reads, ids of the cursor go to a ::uuid cast
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeCursor(row: PageCursor): string {
+	return Buffer.from(`${row.createdAt.toISOString()}|${row.id}`).toString(
+		"base64url",
+	);
+}
+
+export function decodeCursor(cursor: string): PageCursor {
+	const [createdAt, id] = Buffer.from(cursor, "base64url")
+		.toString("utf8")
+		.split("|");
+	const date = new Date(createdAt ?? "");
+
+	if (!id || !UUID_PATTERN.test(id) || Number.isNaN(date.getTime())) {
+		throw new ApiError(400, "invalid_cursor", "Invalid pagination cursor");
+	}
+	return { createdAt: date, id };
+}
+
+function truncated(createdAt: AnyPgColumn): SQL {
+	return sql`date_trunc('milliseconds', ${createdAt})`;
+}
+
+/**
+ * Condition selecting the rows after the cursor, undefined on the first page
+ */
+export function afterCursor(
+	createdAt: AnyPgColumn,
+	id: AnyPgColumn,
+	cursor: string | undefined,
+): SQL | undefined {
+	if (!cursor) return undefined;
+
+	const position = decodeCursor(cursor);
+	return sql`(${truncated(createdAt)}, ${id}) < (${position.createdAt.toISOString()}::timestamptz, ${position.id}::uuid)`;
+}
+
+export function cursorOrder(createdAt: AnyPgColumn, id: AnyPgColumn): SQL[] {
+	return [desc(truncated(createdAt)), desc(id)];
+}
+
+/**
+ * Build a page from rows queried with `limit + 1`, the extra row telling
+ * whether there is a next page
+ */
+export function toPage<Row extends PageCursor, T>(
+	rows: Row[],
+	limit: number,
+	serialize: (row: Row) => T,
+): Page<T> {
+	const pageRows = rows.slice(0, limit);
+	const last = pageRows[pageRows.length - 1];
+
+	return {
+		data: pageRows.map(serialize),
+		nextCursor: rows.length > limit && last ? encodeCursor(last) : null,
+	};
+}
@@ -0,0 +1,109 @@
+import type {
+	contactTable,
+	conversationMessageTable,
+	conversationTable,
+	leadTable,
+} from "@/lib/db/schema/tables";
+import type {
+	ApiContact,
+	ApiConversation,
+	ApiLead,
+	ApiMessage,
+} from "@/schemas/api.schema";
+
+/**
+ * Serializers - Resources as returned by the REST API and sent in webhook
+ * payloads. Dates are ISO strings.
+ */
+
+type ContactRow = typeof contactTable.$inferSelect;
+type LeadRow = typeof leadTable.$inferSelect;
+type ConversationRow = typeof conversationTable.$inferSelect;
+type MessageRow = typeof conversationMessageTable.$inferSelect;
+
+function parseJson<T>(value: string | null, fallback: T): T {
+	if (!value) return fallback;
+	try {
+		return JSON.parse(value) as T;
+	} catch {
+		return fallback;
+	}
+}
+
+export function toApiContact(contact: ContactRow): ApiContact {
+	return {
+		id: contact.id,
+		firstName: contact.firstName,
+		lastName: contact.lastName,
+		email: contact.email,
+		phone: contact.phone,
+		company: contact.company,
+		timezone: contact.timezone,
+		language: contact.language ?? "es",
+		channelPreference: contact.channelPreference,
+		assignedToId: contact.assignedToId,
+		customFields: parseJson(contact.customFields, null),
+		tags: parseJson(contact.tags, []),
+		status: contact.status,
+		heatScore: contact.heatScore,
+		lastInteractionAt: contact.lastInteractionAt?.toISOString() ?? null,
+		createdAt: contact.createdAt.toISOString(),
+		updatedAt: contact.updatedAt.toISOString(),
+	};
+}
+
+export function toApiLead(lead: LeadRow): ApiLead {
+	return {
+		id: lead.id,
+		firstName: lead.firstName,
+		lastName: lead.lastName,
+		email: lead.email,
+		phone: lead.phone,
+		company: lead.company,
+		jobTitle: lead.jobTitle,
+		status: lead.status,
+		source: lead.source,
+		estimatedValue: lead.estimatedValue,
+		notes: lead.notes,
+		customFields: parseJson(lead.customFields, null),
+		assignedToId: lead.assignedToId,
+		contactId: lead.contactId,
+		createdAt: lead.createdAt.toISOString(),
+		updatedAt: lead.updatedAt.toISOString(),
+	};
+}
+
+export function toApiConversation(
+	conversation: ConversationRow,
+): ApiConversation {
+	return {
+		id: conversation.id,
+		contactId: conversation.contactId,
+		status: conversation.status,
+		channel: conversation.channel,
+		handledByAi: conversation.handledByAi,
+		transferredToHuman: conversation.transferredToHuman,
+		messageCount: conversation.messageCount,
+		summary: conversation.summary,
+		sentiment: conversation.sentiment,
+		lastMessageAt: conversation.lastMessageAt?.toISOString() ?? null,
+		closedAt: conversation.closedAt?.toISOString() ?? null,
+		createdAt: conversation.createdAt.toISOString(),
+		updatedAt: conversation.updatedAt.toISOString(),
+	};
+}
+
+export function toApiMessage(message: MessageRow): ApiMessage {
+	return {
+		id: message.id,
+		conversationId: message.conversationId,
+		direction: message.direction,
+		role: message.role,
+		content: message.content,
+		contentType: message.contentType,
+		channel: message.channel,
+		mediaUrl: message.mediaUrl,
+		generatedByAi: message.generatedByAi,
+		createdAt: message.createdAt.toISOString(),
+	};
+}
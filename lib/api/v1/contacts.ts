@@ -0,0 +1,188 @@
+import { and, eq, ne, or, sql } from "drizzle-orm";
+import { resolveCustomFieldValues } from "@/lib/custom-fields/definitions";
+import { serializeCustomFieldValues } from "@/lib/custom-fields/values";
+import { db } from "@/lib/db";
+import {
+	ContactSourceType,
+	ContactStatus,
+	CustomFieldEntity,
+	HeatScoreSignalType,
+} from "@/lib/db/schema/enums";
+import { contactTable } from "@/lib/db/schema/tables";
+import { findOrCreateContact } from "@/lib/ember/memoria/queries";
+import { rescoreContacts } from "@/lib/ember/memoria/scoring";
+import { setContactTags } from "@/lib/ember/memoria/tags";
+import type {
+	ApiContact,
+	ApiCreateContactInput,
+	ApiListContactsInput,
+	ApiUpdateContactInput,
+} from "@/schemas/api.schema";
+import { ApiError } from "../errors";
+import { afterCursor, cursorOrder, type Page, toPage } from "../pagination";
+import { toApiContact } from "../serializers";
+
+type ContactRow = typeof contactTable.$inferSelect;
+
+async function getContactRow(
+	organizationId: string,
+	contactId: string,
+): Promise<ContactRow> {
+	const contact = await db.query.contactTable.findFirst({
+		where: and(
+			eq(contactTable.id, contactId),
+			eq(contactTable.organizationId, organizationId),
+		),
+	});
+
+	if (!contact) {
+		throw new ApiError(404, "not_found", "Contact not found");
+	}
+	return contact;
+}
+
+/**
+ * Contacts of an organization, newest first. Merged contacts are only
+ * listed when filtering on their status.
+ */
+export async function listApiContacts(
+	organizationId: string,
+	input: ApiListContactsInput,
+): Promise<Page<ApiContact>> {
+	const rows: ContactRow[] = await db
+		.select()
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.organizationId, organizationId),
+				input.status
+					? eq(contactTable.status, input.status)
+					: ne(contactTable.status, ContactStatus.merged),
+				input.email
+					? sql`lower(${contactTable.email}) = ${input.email.toLowerCase()}`
+					: undefined,
+				afterCursor(contactTable.createdAt, contactTable.id, input.cursor),
+			),
+		)
+		.orderBy(...cursorOrder(contactTable.createdAt, contactTable.id))
+		.limit(input.limit + 1);
+
+	return toPage(rows, input.limit, toApiContact);
+}
+
+export async function getApiContact(
+	organizationId: string,
+	contactId: string,
+): Promise<ApiContact> {
+	return toApiContact(await getContactRow(organizationId, contactId));
+}
+
+/**
+ * Create a contact. A contact with the same email or phone is a conflict,
+ * the client should update it instead.
+ */
+export async function createApiContact(
+	organizationId: string,
+	input: ApiCreateContactInput,
+): Promise<ApiContact> {
+	const identifiers = [
+		input.email ? eq(contactTable.email, input.email) : undefined,
+		input.phone ? eq(contactTable.phone, input.phone) : undefined,
+	].filter((condition) => condition !== undefined);
+
+	if (identifiers.length > 0) {
+		const existing = await db.query.contactTable.findFirst({
+			where: and(
+				eq(contactTable.organizationId, organizationId),
+				eq(contactTable.status, ContactStatus.active),
+				or(...identifiers),
+			),
+			columns: { id: true },
+		});
+		if (existing) {
+			throw new ApiError(
+				409,
+				"contact_exists",
+				`A contact with this email or phone already exists: ${existing.id}`,
+			);
+		}
+	}
+
+	const { sourceIdentifier, sourceMetadata, ...profile } = input;
+	const contact: ContactRow = await findOrCreateContact(organizationId, {
+		firstName: profile.firstName,
+		lastName: profile.lastName,
+		email: profile.email,
+		phone: profile.phone,
+		sourceType: ContactSourceType.api,
+		sourceIdentifier,
+		sourceMetadata,
+	});
+
+	return await updateApiContact(organizationId, contact.id, profile);
+}
+
+export async function updateApiContact(
+	organizationId: string,
+	contactId: string,
+	input: ApiUpdateContactInput,
+): Promise<ApiContact> {
+	const { tags, customFields, ...data } = input;
+	const values =
+		customFields === undefined
+			? undefined
+			: await resolveCustomFieldValues(
+					organizationId,
+					CustomFieldEntity.contact,
+					customFields ?? {},
+				);
+
+	return await db.transaction(async (tx) => {
+		const [contact]: ContactRow[] = await tx
+			.update(contactTable)
+			.set({
+				...data,
+				...(values && { customFields: serializeCustomFieldValues(values) }),
+				updatedAt: new Date(),
+			})
+			.where(
+				and(
+					eq(contactTable.id, contactId),
+					eq(contactTable.organizationId, organizationId),
+				),
+			)
+			.returning();
+
+		if (!contact) {
+			throw new ApiError(404, "not_found", "Contact not found");
+		}
+
+		if (tags !== undefined) {
+			const names = await setContactTags(organizationId, contact.id, tags, tx);
+			contact.tags = JSON.stringify(names);
+		}
+
+		await rescoreContacts(
+			organizationId,
+			[contact.id],
+			[HeatScoreSignalType.tag, HeatScoreSignalType.customField],
+			tx,
+		);
+		return toApiContact(contact);
+	});
+}
+
+export async function deleteApiContact(
+	organizationId: string,
+	contactId: string,
+): Promise<void> {
+	await getContactRow(organizationId, contactId);
+	await db
+		.delete(contactTable)
+		.where(
+			and(
+				eq(contactTable.id, contactId),
+				eq(contactTable.organizationId, organizationId),
+			),
+		);
+}
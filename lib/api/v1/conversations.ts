@@ -0,0 +1,107 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	conversationMessageTable,
+	conversationTable,
+} from "@/lib/db/schema/tables";
+import type {
+	ApiConversation,
+	ApiListConversationsInput,
+	ApiMessage,
+	ApiPageQuery,
+} from "@/schemas/api.schema";
+import { ApiError } from "../errors";
+import { afterCursor, cursorOrder, type Page, toPage } from "../pagination";
+import { toApiConversation, toApiMessage } from "../serializers";
+
+type ConversationRow = typeof conversationTable.$inferSelect;
+
+async function getConversationRow(
+	organizationId: string,
+	conversationId: string,
+): Promise<ConversationRow> {
+	const conversation = await db.query.conversationTable.findFirst({
+		where: and(
+			eq(conversationTable.id, conversationId),
+			eq(conversationTable.organizationId, organizationId),
+		),
+	});
+
+	if (!conversation) {
+		throw new ApiError(404, "not_found", "Conversation not found");
+	}
+	return conversation;
+}
+
+export async function listApiConversations(
+	organizationId: string,
+	input: ApiListConversationsInput,
+): Promise<Page<ApiConversation>> {
+	const rows = await db
+		.select()
+		.from(conversationTable)
+		.where(
+			and(
+				eq(conversationTable.organizationId, organizationId),
+				input.status ? eq(conversationTable.status, input.status) : undefined,
+				input.channel
+					? eq(conversationTable.channel, input.channel)
+					: undefined,
+				input.contactId
+					? eq(conversationTable.contactId, input.contactId)
+					: undefined,
+				afterCursor(
+					conversationTable.createdAt,
+					conversationTable.id,
+					input.cursor,
+				),
+			),
+		)
+		.orderBy(...cursorOrder(conversationTable.createdAt, conversationTable.id))
+		.limit(input.limit + 1);
+
+	return toPage(rows, input.limit, toApiConversation);
+}
+
+export async function getApiConversation(
+	organizationId: string,
+	conversationId: string,
+): Promise<ApiConversation> {
+	return toApiConversation(
+		await getConversationRow(organizationId, conversationId),
+	);
+}
+
+/**
+ * Messages of a conversation, newest first
+ */
+export async function listApiConversationMessages(
+	organizationId: string,
+	conversationId: string,
+	input: ApiPageQuery,
+): Promise<Page<ApiMessage>> {
+	await getConversationRow(organizationId, conversationId);
+
+	const rows = await db
+		.select()
+		.from(conversationMessageTable)
+		.where(
+			and(
+				eq(conversationMessageTable.conversationId, conversationId),
+				afterCursor(
+					conversationMessageTable.createdAt,
+					conversationMessageTable.id,
+					input.cursor,
+				),
+			),
+		)
+		.orderBy(
+			...cursorOrder(
+				conversationMessageTable.createdAt,
+				conversationMessageTable.id,
+			),
+		)
+		.limit(input.limit + 1);
+
+	return toPage(rows, input.limit, toApiMessage);
+}
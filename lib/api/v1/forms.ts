@@ -0,0 +1,72 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { formTable } from "@/lib/db/schema/tables";
+import type { ApiForm, ApiListFormsInput } from "@/schemas/api.schema";
+import { ApiError } from "../errors";
+import { afterCursor, cursorOrder, type Page, toPage } from "../pagination";
+
+type FormRow = typeof formTable.$inferSelect;
+
+function parseFields(value: string): ApiForm["fields"] {
+	try {
+		const fields: unknown = JSON.parse(value);
+		return Array.isArray(fields) ? (fields as ApiForm["fields"]) : [];
+	} catch {
+		return [];
+	}
+}
+
+function toApiForm(form: FormRow): ApiForm {
+	return {
+		id: form.id,
+		name: form.name,
+		description: form.description,
+		slug: form.slug,
+		fields: parseFields(form.fields),
+		active: form.active,
+		views: form.views,
+		submissions: form.submissions,
+		publishedAt: form.publishedAt?.toISOString() ?? null,
+		createdAt: form.createdAt.toISOString(),
+		updatedAt: form.updatedAt.toISOString(),
+	};
+}
+
+export async function listApiForms(
+	organizationId: string,
+	input: ApiListFormsInput,
+): Promise<Page<ApiForm>> {
+	const rows = await db
+		.select()
+		.from(formTable)
+		.where(
+			and(
+				eq(formTable.organizationId, organizationId),
+				input.active
+					? eq(formTable.active, input.active === "true")
+					: undefined,
+				afterCursor(formTable.createdAt, formTable.id, input.cursor),
+			),
+		)
+		.orderBy(...cursorOrder(formTable.createdAt, formTable.id))
+		.limit(input.limit + 1);
+
+	return toPage(rows, input.limit, toApiForm);
+}
+
+export async function getApiForm(
+	organizationId: string,
+	formId: string,
+): Promise<ApiForm> {
+	const form = await db.query.formTable.findFirst({
+		where: and(
+			eq(formTable.id, formId),
+			eq(formTable.organizationId, organizationId),
+		),
+	});
+
+	if (!form) {
+		throw new ApiError(404, "not_found", "Form not found");
+	}
+	return toApiForm(form);
+}
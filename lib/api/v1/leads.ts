@@ -0,0 +1,107 @@
+import { and, eq } from "drizzle-orm";
+import { resolveCustomFieldValues } from "@/lib/custom-fields/definitions";
+import { serializeCustomFieldValues } from "@/lib/custom-fields/values";
+import { db } from "@/lib/db";
+import { CustomFieldEntity } from "@/lib/db/schema/enums";
+import { leadTable } from "@/lib/db/schema/tables";
+import { updateLeads } from "@/lib/ember/memoria/leads";
+import type {
+	ApiCreateLeadInput,
+	ApiLead,
+	ApiListLeadsInput,
+	ApiUpdateLeadInput,
+} from "@/schemas/api.schema";
+import { ApiError } from "../errors";
+import { afterCursor, cursorOrder, type Page, toPage } from "../pagination";
+import { toApiLead } from "../serializers";
+
+export async function listApiLeads(
+	organizationId: string,
+	input: ApiListLeadsInput,
+): Promise<Page<ApiLead>> {
+	const rows = await db
+		.select()
+		.from(leadTable)
+		.where(
+			and(
+				eq(leadTable.organizationId, organizationId),
+				input.status ? eq(leadTable.status, input.status) : undefined,
+				input.source ? eq(leadTable.source, input.source) : undefined,
+				input.contactId ? eq(leadTable.contactId, input.contactId) : undefined,
+				afterCursor(leadTable.createdAt, leadTable.id, input.cursor),
+			),
+		)
+		.orderBy(...cursorOrder(leadTable.createdAt, leadTable.id))
+		.limit(input.limit + 1);
+
+	return toPage(rows, input.limit, toApiLead);
+}
+
+export async function getApiLead(
+	organizationId: string,
+	leadId: string,
+): Promise<ApiLead> {
+	const lead = await db.query.leadTable.findFirst({
+		where: and(
+			eq(leadTable.id, leadId),
+			eq(leadTable.organizationId, organizationId),
+		),
+	});
+
+	if (!lead) {
+		throw new ApiError(404, "not_found", "Lead not found");
+	}
+	return toApiLead(lead);
+}
+
+export async function createApiLead(
+	organizationId: string,
+	input: ApiCreateLeadInput,
+): Promise<ApiLead> {
+	const { customFields, ...data } = input;
+	const values = await resolveCustomFieldValues(
+		organizationId,
+		CustomFieldEntity.lead,
+		customFields ?? {},
+	);
+
+	const [lead] = await db
+		.insert(leadTable)
+		.values({
+			...data,
+			customFields: serializeCustomFieldValues(values),
+			organizationId,
+		})
+		.returning();
+
+	if (!lead) {
+		throw new Error("Failed to create lead");
+	}
+	return toApiLead(lead);
+}
+
+export async function updateApiLead(
+	organizationId: string,
+	leadId: string,
+	input: ApiUpdateLeadInput,
+): Promise<ApiLead> {
+	const { customFields, ...data } = input;
+	const values =
+		customFields === undefined
+			? undefined
+			: await resolveCustomFieldValues(
+					organizationId,
+					CustomFieldEntity.lead,
+					customFields ?? {},
+				);
+
+	const [lead] = await updateLeads(organizationId, eq(leadTable.id, leadId), {
+		...data,
+		...(values && { customFields: serializeCustomFieldValues(values) }),
+	});
+
+	if (!lead) {
+		throw new ApiError(404, "not_found", "Lead not found");
+	}
+	return toApiLead(lead);
+}
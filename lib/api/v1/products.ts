@@ -0,0 +1,83 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { productTable } from "@/lib/db/schema/tables";
+import type { ApiListProductsInput, ApiProduct } from "@/schemas/api.schema";
+import { ApiError } from "../errors";
+import { afterCursor, cursorOrder, type Page, toPage } from "../pagination";
+
+type ProductRow = typeof productTable.$inferSelect;
+
+function parseList(value: string | null): string[] {
+	if (!value) return [];
+	try {
+		const list: unknown = JSON.parse(value);
+		return Array.isArray(list) ? list.map(String) : [];
+	} catch {
+		return [];
+	}
+}
+
+function toApiProduct(product: ProductRow): ApiProduct {
+	return {
+		id: product.id,
+		sku: product.sku,
+		name: product.name,
+		description: product.description,
+		categoryId: product.categoryId,
+		tags: parseList(product.tags),
+		price: product.price,
+		compareAtPrice: product.compareAtPrice,
+		currency: product.currency,
+		trackInventory: product.trackInventory,
+		stockQuantity: product.stockQuantity ?? 0,
+		lowStockThreshold: product.lowStockThreshold ?? 0,
+		images: parseList(product.images),
+		active: product.active,
+		externalId: product.externalId,
+		externalSource: product.externalSource,
+		createdAt: product.createdAt.toISOString(),
+		updatedAt: product.updatedAt.toISOString(),
+	};
+}
+
+export async function listApiProducts(
+	organizationId: string,
+	input: ApiListProductsInput,
+): Promise<Page<ApiProduct>> {
+	const rows = await db
+		.select()
+		.from(productTable)
+		.where(
+			and(
+				eq(productTable.organizationId, organizationId),
+				input.active
+					? eq(productTable.active, input.active === "true")
+					: undefined,
+				input.categoryId
+					? eq(productTable.categoryId, input.categoryId)
+					: undefined,
+				afterCursor(productTable.createdAt, productTable.id, input.cursor),
+			),
+		)
+		.orderBy(...cursorOrder(productTable.createdAt, productTable.id))
+		.limit(input.limit + 1);
+
+	return toPage(rows, input.limit, toApiProduct);
+}
+
+export async function getApiProduct(
+	organizationId: string,
+	productId: string,
+): Promise<ApiProduct> {
+	const product = await db.query.productTable.findFirst({
+		where: and(
+			eq(productTable.id, productId),
+			eq(productTable.organizationId, organizationId),
+		),
+	});
+
+	if (!product) {
+		throw new ApiError(404, "not_found", "Product not found");
+	}
+	return toApiProduct(product);
+}
@@ -0,0 +1,50 @@
+import { db } from "@/lib/db";
+import type {
+	CredentialAuditAction,
+	CredentialResourceType,
+} from "@/lib/db/schema/enums";
+import { credentialAuditLogTable } from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+import { isSecretField } from "./secrets";
+
+/**
+ * Record a change to the credentials of an integration.
+ * Only field names are stored, never values.
+ */
+export async function recordCredentialChange(params: {
+	organizationId: string;
+	resourceType: CredentialResourceType;
+	resourceId: string;
+	action: CredentialAuditAction;
+	fields: string[];
+	keyId?: string | null;
+	actorId?: string | null;
+}): Promise<void> {
+	await db.insert(credentialAuditLogTable).values({
+		organizationId: params.organizationId,
+		resourceType: params.resourceType,
+		resourceId: params.resourceId,
+		action: params.action,
+		fields: JSON.stringify(params.fields),
+		keyId: params.keyId ?? null,
+		actorId: params.actorId ?? null,
+	});
+
+	logger.info(
+		{
+			organizationId: params.organizationId,
+			resourceType: params.resourceType,
+			resourceId: params.resourceId,
+			action: params.action,
+			fields: params.fields,
+		},
+		"Credentials changed",
+	);
+}
+
+/**
+ * Whether a set of changed fields touches a secret (and must be audited)
+ */
+export function includesSecretField(fields: string[]): boolean {
+	return fields.some(isSecretField);
+}
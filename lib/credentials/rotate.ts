@@ -0,0 +1,165 @@
+import { and, eq, isNotNull } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	CredentialAuditAction,
+	CredentialResourceType,
+} from "@/lib/db/schema/enums";
+import {
+	channelConfigTable,
+	inventorySyncConfigTable,
+	webhookEndpointTable,
+} from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+import { recordCredentialChange } from "./audit";
+import { getCredentialsKeyId, rewrapCredentials } from "./vault";
+
+export interface RotationResult {
+	rotated: number;
+	upToDate: number;
+	failed: number;
+}
+
+interface StoredCredentials {
+	id: string;
+	organizationId: string;
+	credentials: string | null;
+}
+
+/**
+ * Re-encrypt the data keys of all stored credentials with the current master
+ * key (and encrypt legacy plain JSON). Retired keys must stay configured in
+ * CREDENTIALS_PREVIOUS_KEYS until this completes without failures.
+ */
+export async function rotateCredentialKeys(): Promise<RotationResult> {
+	const result: RotationResult = { rotated: 0, upToDate: 0, failed: 0 };
+
+	const channelConfigs = await db
+		.select({
+			id: channelConfigTable.id,
+			organizationId: channelConfigTable.organizationId,
+			credentials: channelConfigTable.credentials,
+		})
+		.from(channelConfigTable)
+		.where(isNotNull(channelConfigTable.credentials));
+
+	for (const row of channelConfigs) {
+		await rotateRow(
+			row,
+			CredentialResourceType.channelConfig,
+			async (previous, next) => {
+				const updated = await db
+					.update(channelConfigTable)
+					.set({ credentials: next })
+					.where(
+						and(
+							eq(channelConfigTable.id, row.id),
+							eq(channelConfigTable.credentials, previous),
+						),
+					)
+					.returning({ id: channelConfigTable.id });
+				return updated.length > 0;
+			},
+			result,
+		);
+	}
+
+	const syncConfigs = await db
+		.select({
+			id: inventorySyncConfigTable.id,
+			organizationId: inventorySyncConfigTable.organizationId,
+			credentials: inventorySyncConfigTable.credentials,
+		})
+		.from(inventorySyncConfigTable);
+
+	for (const row of syncConfigs) {
+		await rotateRow(
+			row,
+			CredentialResourceType.inventorySyncConfig,
+			async (previous, next) => {
+				const updated = await db
+					.update(inventorySyncConfigTable)
+					.set({ credentials: next })
+					.where(
+						and(
+							eq(inventorySyncConfigTable.id, row.id),
+							eq(inventorySyncConfigTable.credentials, previous),
+						),
+					)
+					.returning({ id: inventorySyncConfigTable.id });
+				return updated.length > 0;
+			},
+			result,
+		);
+	}
+
+	const webhookEndpoints = await db
+		.select({
+			id: webhookEndpointTable.id,
+			organizationId: webhookEndpointTable.organizationId,
+			credentials: webhookEndpointTable.secret,
+		})
+		.from(webhookEndpointTable);
+
+	for (const row of webhookEndpoints) {
+		await rotateRow(
+			row,
+			CredentialResourceType.webhookEndpoint,
+			async (previous, next) => {
+				const updated = await db
+					.update(webhookEndpointTable)
+					.set({ secret: next })
+					.where(
+						and(
+							eq(webhookEndpointTable.id, row.id),
+							eq(webhookEndpointTable.secret, previous),
+						),
+					)
+					.returning({ id: webhookEndpointTable.id });
+				return updated.length > 0;
+			},
+			result,
+		);
+	}
+
+	logger.info(result, "Credentials key rotation finished");
+	return result;
+}
+
+async function rotateRow(
+	row: StoredCredentials,
+	resourceType: CredentialResourceType,
+	save: (previous: string, next: string) => Promise<boolean>,
+	result: RotationResult,
+): Promise<void> {
+	if (!row.credentials) return;
+
+	try {
+		const next = rewrapCredentials(row.credentials);
+		if (!next) {
+			result.upToDate++;
+			return;
+		}
+
+		// Skipped if the credentials changed meanwhile (they use the current key)
+		if (!(await save(row.credentials, next))) {
+			result.upToDate++;
+			return;
+		}
+
+		await recordCredentialChange({
+			organizationId: row.organizationId,
+			resourceType,
+			resourceId: row.id,
+			action: CredentialAuditAction.rotated,
+			fields: [],
+			keyId: getCredentialsKeyId(next),
+		});
+		result.rotated++;
+	} catch (error) {
+		logger.error(
+			{ error, resourceType, resourceId: row.id },
+			"Failed to rotate credentials key",
+		);
+		result.failed++;
+	}
+}
@@ -0,0 +1,101 @@
+/**
+ * Secret Fields - Write-only credential fields in the API
+ *
+ * Secret values (tokens, keys, passwords) are never sent back to the browser:
+ * reads return a mask, and a mask sent back on update keeps the stored value.
+ */
+
+/** Credential keys holding secrets: accessToken, authToken, apiKey, consumerSecret... */
+const SECRET_FIELD_PATTERN = /(token|secret|password|key)$/i;
+
+/** Prefix of masked values, a value starting with it is never saved */
+export const MASKED_SECRET_PREFIX = "••••";
+
+/** Trailing characters left visible so users can tell secrets apart */
+const VISIBLE_SUFFIX_LENGTH = 4;
+const MIN_LENGTH_FOR_SUFFIX = 12;
+
+export function isSecretField(field: string): boolean {
+	return SECRET_FIELD_PATTERN.test(field);
+}
+
+export function isMaskedSecret(value: unknown): boolean {
+	return typeof value === "string" && value.startsWith(MASKED_SECRET_PREFIX);
+}
+
+/**
+ * Mask a secret value, keeping the last characters of long values
+ */
+export function maskSecret(value: unknown): string {
+	const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+	if (text.length < MIN_LENGTH_FOR_SUFFIX) {
+		return MASKED_SECRET_PREFIX.repeat(2);
+	}
+	return `${MASKED_SECRET_PREFIX}${text.slice(-VISIBLE_SUFFIX_LENGTH)}`;
+}
+
+/**
+ * Credentials safe to return to the browser: secret fields are masked
+ */
+export function maskCredentials(
+	credentials: Record<string, unknown>,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(credentials).map(([field, value]) => [
+			field,
+			isSecretField(field) &&
+			value !== null &&
+			value !== "" &&
+			value !== undefined
+				? maskSecret(value)
+				: value,
+		]),
+	);
+}
+
+/**
+ * Apply credentials from an update over the stored ones.
+ * Masked values and omitted secret fields keep the stored secret,
+ * null removes a field, other fields are replaced.
+ */
+export function mergeCredentials(
+	existing: Record<string, unknown>,
+	incoming: Record<string, unknown>,
+): Record<string, unknown> {
+	const merged: Record<string, unknown> = {};
+
+	for (const [field, value] of Object.entries(existing)) {
+		if (isSecretField(field)) {
+			merged[field] = value;
+		}
+	}
+
+	for (const [field, value] of Object.entries(incoming)) {
+		if (isMaskedSecret(value)) {
+			continue;
+		}
+		if (value === null) {
+			delete merged[field];
+			continue;
+		}
+		merged[field] = value;
+	}
+
+	return merged;
+}
+
+/**
+ * Fields whose value differs between two sets of credentials
+ */
+export function getChangedFields(
+	before: Record<string, unknown>,
+	after: Record<string, unknown>,
+): string[] {
+	const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+	return [...fields]
+		.filter(
+			(field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+		)
+		.sort();
+}
@@ -0,0 +1,245 @@
+import crypto from "node:crypto";
+import { env } from "@/lib/env";
+
+/**
+ * Credentials Vault - Envelope encryption for integration credentials
+ *
+ * Each record is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is encrypted with the master key from the environment. Rotating the
+ * master key only re-encrypts the data keys, see ./rotate.
+ *
+ * Stored format: `ev1:<master key id>:<encrypted data key>:<iv>:<tag>:<ciphertext>`
+ * (base64 parts). Rows saved before the vault are plain JSON and still readable.
+ */
+
+const FORMAT_PREFIX = "ev1";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class CredentialsVaultError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CredentialsVaultError";
+	}
+}
+
+interface MasterKey {
+	id: string;
+	key: Buffer;
+}
+
+function parseMasterKey(id: string, value: string): MasterKey {
+	const key = Buffer.from(value.trim(), "base64");
+	if (!id || id.includes(":") || key.length !== KEY_BYTES) {
+		throw new CredentialsVaultError(
+			`Invalid credentials master key "${id}": expected a base64 ${KEY_BYTES}-byte key and an id without ":"`,
+		);
+	}
+	return { id, key };
+}
+
+/**
+ * Master key used for new records
+ */
+export function getCurrentMasterKey(): MasterKey {
+	if (!env.CREDENTIALS_MASTER_KEY) {
+		throw new CredentialsVaultError("CREDENTIALS_MASTER_KEY is not configured");
+	}
+	return parseMasterKey(
+		env.CREDENTIALS_MASTER_KEY_ID,
+		env.CREDENTIALS_MASTER_KEY,
+	);
+}
+
+/**
+ * Current and retired master keys, by id
+ */
+function getMasterKeys(): Map<string, MasterKey> {
+	const keys = new Map<string, MasterKey>();
+
+	for (const entry of (env.CREDENTIALS_PREVIOUS_KEYS ?? "").split(",")) {
+		if (!entry.trim()) continue;
+		const separator = entry.indexOf(":");
+		const masterKey = parseMasterKey(
+			entry.slice(0, separator).trim(),
+			entry.slice(separator + 1),
+		);
+		keys.set(masterKey.id, masterKey);
+	}
+
+	if (env.CREDENTIALS_MASTER_KEY) {
+		const current = getCurrentMasterKey();
+		keys.set(current.id, current);
+	}
+
+	return keys;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer) {
+	const iv = crypto.randomBytes(IV_BYTES);
+	const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+	const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+	return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function decrypt(
+	key: Buffer,
+	iv: Buffer,
+	tag: Buffer,
+	ciphertext: Buffer,
+): Buffer {
+	const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+	decipher.setAuthTag(tag);
+	return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function wrapDataKey(masterKey: MasterKey, dataKey: Buffer): string {
+	const { iv, tag, ciphertext } = encrypt(masterKey.key, dataKey);
+	return Buffer.concat([iv, tag, ciphertext]).toString("base64");
+}
+
+function unwrapDataKey(masterKey: MasterKey, wrapped: string): Buffer {
+	const raw = Buffer.from(wrapped, "base64");
+	return decrypt(
+		masterKey.key,
+		raw.subarray(0, IV_BYTES),
+		raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+		raw.subarray(IV_BYTES + TAG_BYTES),
+	);
+}
+
+interface SealedParts {
+	keyId: string;
+	wrappedKey: string;
+	iv: string;
+	tag: string;
+	ciphertext: string;
+}
+
+function parseSealed(value: string): SealedParts {
+	const [prefix, keyId, wrappedKey, iv, tag, ciphertext] = value.split(":");
+	if (
+		prefix !== FORMAT_PREFIX ||
+		!keyId ||
+		!wrappedKey ||
+		!iv ||
+		!tag ||
+		ciphertext === undefined
+	) {
+		throw new CredentialsVaultError("Malformed encrypted credentials");
+	}
+	return { keyId, wrappedKey, iv, tag, ciphertext };
+}
+
+function findMasterKey(keyId: string): MasterKey {
+	const masterKey = getMasterKeys().get(keyId);
+	if (!masterKey) {
+		throw new CredentialsVaultError(
+			`Credentials are encrypted with unknown master key "${keyId}"`,
+		);
+	}
+	return masterKey;
+}
+
+/**
+ * Whether a stored value is encrypted by the vault (rather than legacy plain JSON)
+ */
+export function isEncryptedCredentials(value: string): boolean {
+	return value.startsWith(`${FORMAT_PREFIX}:`);
+}
+
+/**
+ * Master key id of a stored value, null for legacy plain JSON
+ */
+export function getCredentialsKeyId(value: string): string | null {
+	return isEncryptedCredentials(value) ? parseSealed(value).keyId : null;
+}
+
+/**
+ * Encrypt credentials with a new data key under the current master key
+ */
+export function encryptCredentials(
+	credentials: Record<string, unknown>,
+): string {
+	const masterKey = getCurrentMasterKey();
+	const dataKey = crypto.randomBytes(KEY_BYTES);
+	const { iv, tag, ciphertext } = encrypt(
+		dataKey,
+		Buffer.from(JSON.stringify(credentials), "utf8"),
+	);
+
+	return [
+		FORMAT_PREFIX,
+		masterKey.id,
+		wrapDataKey(masterKey, dataKey),
+		iv.toString("base64"),
+		tag.toString("base64"),
+		ciphertext.toString("base64"),
+	].join(":");
+}
+
+/**
+ * Decrypt stored credentials (legacy plain JSON is parsed as is)
+ */
+export function decryptCredentials(
+	value: string | null | undefined,
+): Record<string, unknown> {
+	if (!value) return {};
+
+	if (!isEncryptedCredentials(value)) {
+		return JSON.parse(value) as Record<string, unknown>;
+	}
+
+	const sealed = parseSealed(value);
+	try {
+		const dataKey = unwrapDataKey(
+			findMasterKey(sealed.keyId),
+			sealed.wrappedKey,
+		);
+		const plaintext = decrypt(
+			dataKey,
+			Buffer.from(sealed.iv, "base64"),
+			Buffer.from(sealed.tag, "base64"),
+			Buffer.from(sealed.ciphertext, "base64"),
+		);
+		return JSON.parse(plaintext.toString("utf8")) as Record<string, unknown>;
+	} catch (error) {
+		if (error instanceof CredentialsVaultError) throw error;
+		throw new CredentialsVaultError("Failed to decrypt credentials");
+	}
+}
+
+/**
+ * Re-encrypt the data key of a stored value under the current master key.
+ * Legacy plain JSON is encrypted. Returns null when already up to date.
+ */
+export function rewrapCredentials(value: string): string | null {
+	if (!isEncryptedCredentials(value)) {
+		return encryptCredentials(JSON.parse(value) as Record<string, unknown>);
+	}
+
+	const current = getCurrentMasterKey();
+	const sealed = parseSealed(value);
+	if (sealed.keyId === current.id) {
+		return null;
+	}
+
+	let dataKey: Buffer;
+	try {
+		dataKey = unwrapDataKey(findMasterKey(sealed.keyId), sealed.wrappedKey);
+	} catch (error) {
+		if (error instanceof CredentialsVaultError) throw error;
+		throw new CredentialsVaultError("Failed to decrypt credentials data key");
+	}
+
+	return [
+		FORMAT_PREFIX,
+		current.id,
+		wrapDataKey(current, dataKey),
+		sealed.iv,
+		sealed.tag,
+		sealed.ciphertext,
+	].join(":");
+}
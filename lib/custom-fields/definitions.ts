@@ -0,0 +1,267 @@
+import { and, asc, count, eq, inArray, max } from "drizzle-orm";
+import { customFieldsConfig } from "@/config/custom-fields.config";
+import { db } from "@/lib/db";
+import { type CustomFieldEntity, CustomFieldType } from "@/lib/db/schema/enums";
+import { customFieldDefinitionTable } from "@/lib/db/schema/tables";
+import type {
+	CreateCustomFieldInput,
+	ReorderCustomFieldsInput,
+	UpdateCustomFieldInput,
+} from "@/schemas/custom-field.schema";
+import { CustomFieldError } from "./errors";
+import type { CustomFieldDefinition, CustomFieldValues } from "./types";
+import { validateCustomFieldValues } from "./values";
+
+/**
+ * Custom Field Definitions - The fields an organization adds to its contacts
+ * and leads
+ *
+ * Deleting a field (or removing one of its options) leaves the stored values
+ * in place, they are shown again if a field with the same key is defined.
+ */
+
+type CustomFieldDefinitionRow = typeof customFieldDefinitionTable.$inferSelect;
+
+const SELECT_TYPES: CustomFieldType[] = [
+	CustomFieldType.select,
+	CustomFieldType.multiSelect,
+];
+
+function parseOptions(value: string): string[] {
+	try {
+		const options: unknown = JSON.parse(value);
+		return Array.isArray(options) ? options.map(String) : [];
+	} catch {
+		return [];
+	}
+}
+
+export function toCustomFieldDefinition(
+	row: CustomFieldDefinitionRow,
+): CustomFieldDefinition {
+	return {
+		id: row.id,
+		entity: row.entity,
+		key: row.key,
+		label: row.label,
+		type: row.type,
+		options: parseOptions(row.options),
+		currency: row.currency,
+		required: row.required,
+		position: row.position,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+/**
+ * Options and currency as stored for a field type
+ */
+function toTypeSettings(
+	type: CustomFieldType,
+	options: string[],
+	currency: string | null | undefined,
+): { options: string; currency: string | null } {
+	const uniqueOptions = [...new Set(options)];
+	if (SELECT_TYPES.includes(type) && uniqueOptions.length === 0) {
+		throw new CustomFieldError("BAD_REQUEST", "Add at least one option");
+	}
+
+	return {
+		options: JSON.stringify(SELECT_TYPES.includes(type) ? uniqueOptions : []),
+		currency:
+			type === CustomFieldType.currency
+				? (currency ?? customFieldsConfig.defaultCurrency)
+				: null,
+	};
+}
+
+async function getCustomFieldRow(
+	organizationId: string,
+	fieldId: string,
+): Promise<CustomFieldDefinitionRow> {
+	const field = await db.query.customFieldDefinitionTable.findFirst({
+		where: and(
+			eq(customFieldDefinitionTable.id, fieldId),
+			eq(customFieldDefinitionTable.organizationId, organizationId),
+		),
+	});
+
+	if (!field) {
+		throw new CustomFieldError("NOT_FOUND", "Custom field not found");
+	}
+	return field;
+}
+
+/**
+ * Custom fields of an organization in display order
+ */
+export async function listCustomFieldDefinitions(
+	organizationId: string,
+	entity?: CustomFieldEntity,
+): Promise<CustomFieldDefinition[]> {
+	const rows = await db
+		.select()
+		.from(customFieldDefinitionTable)
+		.where(
+			and(
+				eq(customFieldDefinitionTable.organizationId, organizationId),
+				entity ? eq(customFieldDefinitionTable.entity, entity) : undefined,
+			),
+		)
+		.orderBy(
+			asc(customFieldDefinitionTable.entity),
+			asc(customFieldDefinitionTable.position),
+			asc(customFieldDefinitionTable.createdAt),
+		);
+
+	return rows.map(toCustomFieldDefinition);
+}
+
+export async function createCustomFieldDefinition(
+	organizationId: string,
+	input: CreateCustomFieldInput,
+): Promise<CustomFieldDefinition> {
+	const scope = and(
+		eq(customFieldDefinitionTable.organizationId, organizationId),
+		eq(customFieldDefinitionTable.entity, input.entity),
+	);
+
+	const [existing] = await db
+		.select({
+			count: count(),
+			lastPosition: max(customFieldDefinitionTable.position),
+		})
+		.from(customFieldDefinitionTable)
+		.where(scope);
+	if ((existing?.count ?? 0) >= customFieldsConfig.maxFieldsPerEntity) {
+		throw new CustomFieldError(
+			"BAD_REQUEST",
+			`You can define up to ${customFieldsConfig.maxFieldsPerEntity} custom fields per record type`,
+		);
+	}
+
+	const duplicate = await db.query.customFieldDefinitionTable.findFirst({
+		where: and(scope, eq(customFieldDefinitionTable.key, input.key)),
+		columns: { id: true },
+	});
+	if (duplicate) {
+		throw new CustomFieldError(
+			"CONFLICT",
+			`A custom field with the key "${input.key}" already exists`,
+		);
+	}
+
+	const [field] = await db
+		.insert(customFieldDefinitionTable)
+		.values({
+			organizationId,
+			entity: input.entity,
+			key: input.key,
+			label: input.label,
+			type: input.type,
+			...toTypeSettings(input.type, input.options, input.currency),
+			required: input.required,
+			position: (existing?.lastPosition ?? -1) + 1,
+		})
+		.returning();
+
+	if (!field) {
+		throw new Error("Failed to create custom field");
+	}
+	return toCustomFieldDefinition(field);
+}
+
+/**
+ * Update the label, options, currency or requirement of a field
+ */
+export async function updateCustomFieldDefinition(
+	organizationId: string,
+	input: UpdateCustomFieldInput,
+): Promise<CustomFieldDefinition> {
+	const field = await getCustomFieldRow(organizationId, input.id);
+
+	const [updated] = await db
+		.update(customFieldDefinitionTable)
+		.set({
+			...(input.label !== undefined && { label: input.label }),
+			...(input.required !== undefined && { required: input.required }),
+			...toTypeSettings(
+				field.type,
+				input.options ?? parseOptions(field.options),
+				input.currency === undefined ? field.currency : input.currency,
+			),
+		})
+		.where(eq(customFieldDefinitionTable.id, field.id))
+		.returning();
+
+	if (!updated) {
+		throw new CustomFieldError("NOT_FOUND", "Custom field not found");
+	}
+	return toCustomFieldDefinition(updated);
+}
+
+export async function deleteCustomFieldDefinition(
+	organizationId: string,
+	fieldId: string,
+): Promise<void> {
+	const field = await getCustomFieldRow(organizationId, fieldId);
+	await db
+		.delete(customFieldDefinitionTable)
+		.where(eq(customFieldDefinitionTable.id, field.id));
+}
+
+/**
+ * Set the display order of the fields of an entity, `ids` first to last
+ */
+export async function reorderCustomFieldDefinitions(
+	organizationId: string,
+	input: ReorderCustomFieldsInput,
+): Promise<void> {
+	await db.transaction(async (tx) => {
+		const fields = await tx
+			.select({ id: customFieldDefinitionTable.id })
+			.from(customFieldDefinitionTable)
+			.where(
+				and(
+					eq(customFieldDefinitionTable.organizationId, organizationId),
+					eq(customFieldDefinitionTable.entity, input.entity),
+					inArray(customFieldDefinitionTable.id, input.ids),
+				),
+			);
+		if (fields.length !== new Set(input.ids).size) {
+			throw new CustomFieldError("NOT_FOUND", "Custom field not found");
+		}
+
+		for (const [position, id] of input.ids.entries()) {
+			await tx
+				.update(customFieldDefinitionTable)
+				.set({ position })
+				.where(eq(customFieldDefinitionTable.id, id));
+		}
+	});
+}
+
+/**
+ * Validate the custom fields of a contact or lead being saved by a person or
+ * an API client. Required fields are enforced.
+ */
+export async function resolveCustomFieldValues(
+	organizationId: string,
+	entity: CustomFieldEntity,
+	values: CustomFieldValues,
+): Promise<CustomFieldValues> {
+	const definitions = await listCustomFieldDefinitions(organizationId, entity);
+	const result = validateCustomFieldValues(definitions, values, {
+		enforceRequired: true,
+	});
+
+	const [issue] = result.issues;
+	if (issue) {
+		const label =
+			definitions.find((definition) => definition.key === issue.key)?.label ??
+			issue.key;
+		throw new CustomFieldError("BAD_REQUEST", `${label}: ${issue.message}`);
+	}
+	return result.values;
+}
@@ -0,0 +1,13 @@
+/**
+ * Error raised by custom field definitions and values.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class CustomFieldError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: CustomFieldError["code"], message: string) {
+		super(message);
+		this.name = "CustomFieldError";
+		this.code = code;
+	}
+}
@@ -0,0 +1,188 @@
+import { type Column, type SQL, sql } from "drizzle-orm";
+import { type CustomFieldEntity, CustomFieldType } from "@/lib/db/schema/enums";
+import type { CustomFieldFilter } from "@/schemas/custom-field.schema";
+import { listCustomFieldDefinitions } from "./definitions";
+import { CustomFieldError } from "./errors";
+import type { CustomFieldDefinition } from "./types";
+import { coerceCustomFieldValue, customFieldValueSchema } from "./values";
+
+/**
+ * Custom Field Filters - Filter and sort contacts and leads on the values of
+ * their `custom_fields` JSON
+ *
+ * Values that don't match the type of their field (stored before the field
+ * was defined) never match a filter and sort last.
+ */
+
+const NUMERIC_TYPES: CustomFieldType[] = [
+	CustomFieldType.number,
+	CustomFieldType.currency,
+];
+
+const RANGE_TYPES: CustomFieldType[] = [...NUMERIC_TYPES, CustomFieldType.date];
+
+const TEXT_TYPES: CustomFieldType[] = [
+	CustomFieldType.text,
+	CustomFieldType.url,
+];
+
+/**
+ * The value of a field as a comparable SQL expression
+ */
+function valueExpression(column: Column, definition: CustomFieldDefinition) {
+	const json = sql`(${column}::jsonb -> ${definition.key}::text)`;
+
+	if (NUMERIC_TYPES.includes(definition.type)) {
+		return sql`(case when jsonb_typeof(${json}) = 'number' then (${json})::numeric end)`;
+	}
+	if (definition.type === CustomFieldType.date) {
+		return sql`(case when jsonb_typeof(${json}) = 'string' and ${json} #>> '{}' ~ '^\\d{4}-\\d{2}-\\d{2}$' then ${json} #>> '{}' end)`;
+	}
+	return sql`(${json} #>> '{}')`;
+}
+
+/**
+ * The values of a filter converted to the type of the field
+ */
+function parseFilterValues(
+	definition: CustomFieldDefinition,
+	filter: CustomFieldFilter,
+): [string | number, ...(string | number)[]] {
+	const raw = (
+		Array.isArray(filter.value) ? filter.value : [filter.value ?? ""]
+	).filter((value) => value.trim() !== "");
+	if (raw.length === 0) {
+		throw new CustomFieldError(
+			"BAD_REQUEST",
+			`${definition.label}: enter a value to filter on`,
+		);
+	}
+
+	// A multi-select filter is on a single option
+	const spec =
+		definition.type === CustomFieldType.multiSelect
+			? { ...definition, type: CustomFieldType.select }
+			: definition;
+	const schema = customFieldValueSchema(spec);
+
+	const values = raw.map((value) => {
+		const parsed = schema.safeParse(coerceCustomFieldValue(spec, value));
+		if (!parsed.success) {
+			throw new CustomFieldError(
+				"BAD_REQUEST",
+				`${definition.label}: ${parsed.error.issues[0]?.message ?? "Invalid value"}`,
+			);
+		}
+		return parsed.data as string | number;
+	});
+	return values as [string | number, ...(string | number)[]];
+}
+
+/**
+ * Condition of a filter on a custom field, also used by the filter builder
+ * (lib/filters)
+ */
+export function customFieldFilterCondition(
+	column: Column,
+	definition: CustomFieldDefinition,
+	filter: CustomFieldFilter,
+): SQL {
+	const json = sql`(${column}::jsonb -> ${definition.key}::text)`;
+	const expression = valueExpression(column, definition);
+	const isMultiSelect = definition.type === CustomFieldType.multiSelect;
+
+	// Multi-select values are arrays, matched on having an option
+	const matches = (value: string | number): SQL =>
+		isMultiSelect
+			? sql`coalesce(${json} @> jsonb_build_array(${value}::text), false)`
+			: definition.type === CustomFieldType.text
+				? sql`lower(${expression}) = lower(${value}::text)`
+				: sql`${expression} = ${value}`;
+
+	switch (filter.operator) {
+		case "isEmpty":
+			return sql`${json} is null`;
+		case "isNotEmpty":
+			return sql`${json} is not null`;
+		case "equals": {
+			const values = parseFilterValues(definition, filter);
+			return sql`(${sql.join(values.map(matches), sql` or `)})`;
+		}
+		case "notEquals": {
+			const [value] = parseFilterValues(definition, filter);
+			return sql`not coalesce(${matches(value)}, false)`;
+		}
+		case "contains": {
+			if (isMultiSelect) {
+				const [value] = parseFilterValues(definition, filter);
+				return matches(value);
+			}
+			if (!TEXT_TYPES.includes(definition.type)) {
+				break;
+			}
+			const [value] = parseFilterValues(definition, filter);
+			return sql`${expression} ilike ${`%${value}%`}`;
+		}
+		case "greaterThan":
+		case "lessThan": {
+			if (!RANGE_TYPES.includes(definition.type)) {
+				break;
+			}
+			const [bound] = parseFilterValues(definition, filter);
+			return filter.operator === "greaterThan"
+				? sql`${expression} > ${bound}`
+				: sql`${expression} < ${bound}`;
+		}
+	}
+
+	throw new CustomFieldError(
+		"BAD_REQUEST",
+		`${definition.label}: this filter isn't available for ${definition.type.replace("_", "-")} fields`,
+	);
+}
+
+/**
+ * Conditions and sort order on the custom fields of contacts or leads.
+ * `column` is the `custom_fields` column of the listed table.
+ */
+export async function buildCustomFieldQuery(
+	organizationId: string,
+	entity: CustomFieldEntity,
+	column: Column,
+	input: {
+		filters?: CustomFieldFilter[];
+		sortKey?: string;
+		sortOrder: "asc" | "desc";
+	},
+): Promise<{ conditions: SQL[]; orderBy: SQL | null }> {
+	const filters = input.filters ?? [];
+	if (filters.length === 0 && !input.sortKey) {
+		return { conditions: [], orderBy: null };
+	}
+
+	const definitions = new Map(
+		(await listCustomFieldDefinitions(organizationId, entity)).map(
+			(definition) => [definition.key, definition],
+		),
+	);
+	const getDefinition = (key: string): CustomFieldDefinition => {
+		const definition = definitions.get(key);
+		if (!definition) {
+			throw new CustomFieldError(
+				"BAD_REQUEST",
+				`Unknown custom field "${key}"`,
+			);
+		}
+		return definition;
+	};
+
+	const conditions = filters.map((filter) =>
+		customFieldFilterCondition(column, getDefinition(filter.key), filter),
+	);
+
+	const orderBy = input.sortKey
+		? sql`${valueExpression(column, getDefinition(input.sortKey))} ${sql.raw(input.sortOrder)} nulls last`
+		: null;
+
+	return { conditions, orderBy };
+}
@@ -0,0 +1,33 @@
+import type { CustomFieldEntity, CustomFieldType } from "@/lib/db/schema/enums";
+
+/**
+ * Custom field types shared by the registry, the value validation and the
+ * list filters
+ */
+
+export interface CustomFieldDefinition {
+	id: string;
+	entity: CustomFieldEntity;
+	/** Key of the value in the `custom_fields` JSON of a record */
+	key: string;
+	label: string;
+	type: CustomFieldType;
+	/** Choices of select and multi-select fields */
+	options: string[];
+	/** ISO 4217 code of currency fields */
+	currency: string | null;
+	required: boolean;
+	position: number;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * The `custom_fields` JSON of a contact or lead, keyed by field key
+ */
+export type CustomFieldValues = Record<string, unknown>;
+
+export interface CustomFieldIssue {
+	key: string;
+	message: string;
+}
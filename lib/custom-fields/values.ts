@@ -0,0 +1,238 @@
+import { z } from "zod";
+import { customFieldsConfig } from "@/config/custom-fields.config";
+import { CustomFieldType } from "@/lib/db/schema/enums";
+import type {
+	CustomFieldDefinition,
+	CustomFieldIssue,
+	CustomFieldValues,
+} from "./types";
+
+/**
+ * Custom Field Values - Validation of the `custom_fields` JSON of contacts
+ * and leads
+ *
+ * Text, select and URL values are stored as strings, number and currency
+ * values as numbers, dates as YYYY-MM-DD strings and multi-select values as
+ * arrays of strings. Keys without a definition are kept as they are: contacts
+ * had free-form custom fields before the registry.
+ */
+
+type FieldSpec = Pick<CustomFieldDefinition, "type" | "options">;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+	if (!DATE_PATTERN.test(value)) return false;
+	const date = new Date(`${value}T00:00:00Z`);
+	return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function toDateValue(value: string): string {
+	if (DATE_PATTERN.test(value)) return value;
+
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) return value;
+	return [
+		date.getFullYear(),
+		String(date.getMonth() + 1).padStart(2, "0"),
+		String(date.getDate()).padStart(2, "0"),
+	].join("-");
+}
+
+/**
+ * The option matching a value regardless of case, or the value itself
+ */
+function matchOption(options: string[], value: string): string {
+	const normalized = value.toLowerCase();
+	return options.find((option) => option.toLowerCase() === normalized) ?? value;
+}
+
+/**
+ * Key suggested for a field label, e.g. "Preferred Store" -> "preferred_store"
+ */
+export function toCustomFieldKey(label: string): string {
+	const key = label
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "_")
+		.replace(/^_+|_+$/g, "");
+	if (!key) return "field";
+	return (/^[a-z]/.test(key) ? key : `field_${key}`).slice(0, 64);
+}
+
+export function isEmptyCustomFieldValue(value: unknown): boolean {
+	return (
+		value === null ||
+		value === undefined ||
+		(typeof value === "string" && value.trim() === "") ||
+		(Array.isArray(value) && value.length === 0)
+	);
+}
+
+/**
+ * Schema of the stored value of a field
+ */
+export function customFieldValueSchema(definition: FieldSpec): z.ZodType {
+	const optionSchema = z
+		.string()
+		.refine((value) => definition.options.includes(value), {
+			error: (issue) => `"${String(issue.input)}" is not one of the options`,
+		});
+
+	switch (definition.type) {
+		case CustomFieldType.number:
+			return z.number({ error: "Enter a number" });
+		case CustomFieldType.currency:
+			return z
+				.number({ error: "Enter an amount" })
+				.transform((amount) => Math.round(amount * 100) / 100);
+		case CustomFieldType.date:
+			return z
+				.string({ error: "Enter a date" })
+				.refine(isValidDate, "Enter a date as YYYY-MM-DD");
+		case CustomFieldType.select:
+			return optionSchema;
+		case CustomFieldType.multiSelect:
+			return z
+				.array(optionSchema, { error: "Select one or more options" })
+				.transform((values) => [...new Set(values)]);
+		case CustomFieldType.url:
+			return z
+				.string()
+				.trim()
+				.max(customFieldsConfig.maxTextLength)
+				.url("Enter a valid URL")
+				.refine((url) => /^https?:\/\//i.test(url), "Enter a valid URL");
+		default:
+			return z.string().trim().max(customFieldsConfig.maxTextLength);
+	}
+}
+
+/**
+ * Convert a spreadsheet cell or form answer to the type of a field. The
+ * result still has to be validated, unreadable values are returned as is.
+ */
+export function coerceCustomFieldValue(
+	definition: FieldSpec,
+	raw: string,
+): unknown {
+	const value = raw.trim();
+	if (!value) return null;
+
+	switch (definition.type) {
+		case CustomFieldType.number:
+			return Number(value.replace(/[\s,]/g, ""));
+		case CustomFieldType.currency:
+			return Number(value.replace(/[^0-9.-]/g, ""));
+		case CustomFieldType.date:
+			return toDateValue(value);
+		case CustomFieldType.select:
+			return matchOption(definition.options, value);
+		case CustomFieldType.multiSelect:
+			return value
+				.split(/[,;|]/)
+				.map((option) => option.trim())
+				.filter(Boolean)
+				.map((option) => matchOption(definition.options, option));
+		default:
+			return value;
+	}
+}
+
+/**
+ * Validate the custom fields of a record. Empty values are dropped, required
+ * fields are only checked with `enforceRequired` (automatic sources such as
+ * channels, forms and imports fill what they can).
+ */
+export function validateCustomFieldValues(
+	definitions: CustomFieldDefinition[],
+	values: CustomFieldValues,
+	options: { enforceRequired: boolean },
+): { values: CustomFieldValues; issues: CustomFieldIssue[] } {
+	const keys = new Set(definitions.map((definition) => definition.key));
+	const result: CustomFieldValues = {};
+	const issues: CustomFieldIssue[] = [];
+
+	for (const [key, value] of Object.entries(values)) {
+		if (!keys.has(key) && !isEmptyCustomFieldValue(value)) {
+			result[key] = value;
+		}
+	}
+
+	for (const definition of definitions) {
+		const value = values[definition.key];
+		if (isEmptyCustomFieldValue(value)) {
+			if (options.enforceRequired && definition.required) {
+				issues.push({ key: definition.key, message: "Required" });
+			}
+			continue;
+		}
+
+		const parsed = customFieldValueSchema(definition).safeParse(value);
+		if (parsed.success) {
+			result[definition.key] = parsed.data;
+		} else {
+			issues.push({
+				key: definition.key,
+				message: parsed.error.issues[0]?.message ?? "Invalid value",
+			});
+		}
+	}
+
+	return { values: result, issues };
+}
+
+/**
+ * Custom fields of a record from its `custom_fields` column
+ */
+export function parseCustomFieldValues(
+	value: string | null,
+): CustomFieldValues {
+	if (!value) return {};
+	try {
+		const parsed: unknown = JSON.parse(value);
+		return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+			? (parsed as CustomFieldValues)
+			: {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Custom fields as stored in the `custom_fields` column, null when empty
+ */
+export function serializeCustomFieldValues(
+	values: CustomFieldValues | null | undefined,
+): string | null {
+	return values && Object.keys(values).length > 0
+		? JSON.stringify(values)
+		: null;
+}
+
+/**
+ * Value as shown in tables and profiles, empty string when not set
+ */
+export function formatCustomFieldValue(
+	definition: Pick<CustomFieldDefinition, "type" | "currency">,
+	value: unknown,
+): string {
+	if (isEmptyCustomFieldValue(value)) return "";
+
+	switch (definition.type) {
+		case CustomFieldType.number:
+			return typeof value === "number" ? value.toLocaleString() : String(value);
+		case CustomFieldType.currency:
+			return typeof value === "number"
+				? new Intl.NumberFormat(undefined, {
+						style: "currency",
+						currency: definition.currency ?? customFieldsConfig.defaultCurrency,
+					}).format(value)
+				: String(value);
+		case CustomFieldType.multiSelect:
+			return Array.isArray(value) ? value.join(", ") : String(value);
+		default:
+			return String(value);
+	}
+}
@@ -0,0 +1,16 @@
+CREATE TABLE "inventory_sync_config" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"source" text NOT NULL,
+	"credentials" text NOT NULL,
+	"sync_schedule" text,
+	"auto_sync" boolean DEFAULT false NOT NULL,
+	"field_mapping" text,
+	"last_synced_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "inventory_sync_config" ADD CONSTRAINT "inventory_sync_config_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "inventory_sync_config_organization_id_idx" ON "inventory_sync_config" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "inventory_sync_config_source_idx" ON "inventory_sync_config" USING btree ("source");
\ No newline at end of file
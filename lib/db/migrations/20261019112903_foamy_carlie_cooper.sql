@@ -0,0 +1,4 @@
+ALTER TABLE "contact_note" DROP CONSTRAINT "contact_note_created_by_id_user_id_fk";
+--> statement-breakpoint
+ALTER TABLE "contact_note" ALTER COLUMN "created_by_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "contact_note" ADD CONSTRAINT "contact_note_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
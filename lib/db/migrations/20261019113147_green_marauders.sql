@@ -0,0 +1,11 @@
+DROP INDEX "conversation_message_external_id_idx";--> statement-breakpoint
+ALTER TABLE "channel_config" ADD COLUMN "external_account_id" text;--> statement-breakpoint
+CREATE INDEX "channel_config_type_account_idx" ON "channel_config" USING btree ("channel_type","external_account_id");--> statement-breakpoint
+-- Webhook retries may have stored a message twice, keep its first copy
+DELETE FROM "conversation_message" m
+USING "conversation_message" earlier
+WHERE m."external_id" IS NOT NULL
+	AND earlier."channel" = m."channel"
+	AND earlier."external_id" = m."external_id"
+	AND (earlier."created_at", earlier."id") < (m."created_at", m."id");--> statement-breakpoint
+CREATE UNIQUE INDEX "conversation_message_channel_external_id_idx" ON "conversation_message" USING btree ("channel","external_id");
\ No newline at end of file
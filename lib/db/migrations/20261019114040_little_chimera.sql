@@ -0,0 +1,3 @@
+ALTER TABLE "conversation" ADD COLUMN "transferred_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "conversation" ADD COLUMN "last_read_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "conversation_org_transferred_idx" ON "conversation" USING btree ("organization_id","transferred_to_human");
\ No newline at end of file
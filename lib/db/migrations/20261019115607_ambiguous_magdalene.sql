@@ -0,0 +1,43 @@
+CREATE EXTENSION IF NOT EXISTS vector;--> statement-breakpoint
+CREATE TABLE "knowledge_chunk" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"content" text NOT NULL,
+	"embedding" vector(1536) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "knowledge_document" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"agent_id" uuid,
+	"title" text NOT NULL,
+	"source_type" text NOT NULL,
+	"storage_path" text,
+	"source_url" text,
+	"mime_type" text,
+	"file_size" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"error_message" text,
+	"chunk_count" integer DEFAULT 0 NOT NULL,
+	"processed_at" timestamp with time zone,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversation_message" ADD COLUMN "citations" text;--> statement-breakpoint
+ALTER TABLE "knowledge_chunk" ADD CONSTRAINT "knowledge_chunk_document_id_knowledge_document_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."knowledge_document"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_chunk" ADD CONSTRAINT "knowledge_chunk_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_document" ADD CONSTRAINT "knowledge_document_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_document" ADD CONSTRAINT "knowledge_document_agent_id_agent_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "knowledge_document" ADD CONSTRAINT "knowledge_document_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "knowledge_chunk_document_id_idx" ON "knowledge_chunk" USING btree ("document_id");--> statement-breakpoint
+CREATE INDEX "knowledge_chunk_organization_id_idx" ON "knowledge_chunk" USING btree ("organization_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "knowledge_chunk_document_index_idx" ON "knowledge_chunk" USING btree ("document_id","chunk_index");--> statement-breakpoint
+CREATE INDEX "knowledge_chunk_embedding_idx" ON "knowledge_chunk" USING hnsw ("embedding" vector_cosine_ops);--> statement-breakpoint
+CREATE INDEX "knowledge_document_organization_id_idx" ON "knowledge_document" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "knowledge_document_agent_id_idx" ON "knowledge_document" USING btree ("agent_id");--> statement-breakpoint
+CREATE INDEX "knowledge_document_status_idx" ON "knowledge_document" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,52 @@
+CREATE TABLE "quote_item" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"quote_id" uuid NOT NULL,
+	"product_id" uuid,
+	"sku" text,
+	"description" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_price" integer NOT NULL,
+	"compare_at_price" integer,
+	"total" integer NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "quote" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"conversation_id" uuid,
+	"number" text NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"currency" text DEFAULT 'usd' NOT NULL,
+	"subtotal" integer DEFAULT 0 NOT NULL,
+	"discount_total" integer DEFAULT 0 NOT NULL,
+	"total" integer DEFAULT 0 NOT NULL,
+	"notes" text,
+	"valid_until" timestamp with time zone,
+	"public_token" text NOT NULL,
+	"pdf_path" text,
+	"agreement_id" uuid,
+	"sent_at" timestamp with time zone,
+	"responded_at" timestamp with time zone,
+	"decline_reason" text,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "quote_item" ADD CONSTRAINT "quote_item_quote_id_quote_id_fk" FOREIGN KEY ("quote_id") REFERENCES "public"."quote"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote_item" ADD CONSTRAINT "quote_item_product_id_product_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."product"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote" ADD CONSTRAINT "quote_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote" ADD CONSTRAINT "quote_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote" ADD CONSTRAINT "quote_conversation_id_conversation_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversation"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote" ADD CONSTRAINT "quote_agreement_id_contact_agreement_id_fk" FOREIGN KEY ("agreement_id") REFERENCES "public"."contact_agreement"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "quote" ADD CONSTRAINT "quote_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "quote_item_quote_id_idx" ON "quote_item" USING btree ("quote_id");--> statement-breakpoint
+CREATE INDEX "quote_item_product_id_idx" ON "quote_item" USING btree ("product_id");--> statement-breakpoint
+CREATE INDEX "quote_organization_id_idx" ON "quote" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "quote_contact_id_idx" ON "quote" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "quote_status_idx" ON "quote" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "quote_org_number_idx" ON "quote" USING btree ("organization_id","number");--> statement-breakpoint
+CREATE UNIQUE INDEX "quote_public_token_idx" ON "quote" USING btree ("public_token");
\ No newline at end of file
@@ -0,0 +1,60 @@
+CREATE TABLE "availability" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"user_id" uuid,
+	"agent_id" uuid,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"working_hours" text NOT NULL,
+	"slot_duration_minutes" integer DEFAULT 30 NOT NULL,
+	"buffer_minutes" integer DEFAULT 0 NOT NULL,
+	"min_notice_minutes" integer DEFAULT 120 NOT NULL,
+	"max_days_ahead" integer DEFAULT 14 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "meeting" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"conversation_id" uuid,
+	"agent_id" uuid,
+	"host_user_id" uuid,
+	"title" text NOT NULL,
+	"description" text,
+	"status" text DEFAULT 'proposed' NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"proposed_slots" text,
+	"starts_at" timestamp with time zone,
+	"ends_at" timestamp with time zone,
+	"timezone" text NOT NULL,
+	"location" text,
+	"meeting_url" text,
+	"provider" text,
+	"external_event_id" text,
+	"invite_sequence" integer DEFAULT 0 NOT NULL,
+	"confirmed_at" timestamp with time zone,
+	"reminder_sent_at" timestamp with time zone,
+	"cancelled_at" timestamp with time zone,
+	"cancel_reason" text,
+	"created_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "availability" ADD CONSTRAINT "availability_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "availability" ADD CONSTRAINT "availability_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "availability" ADD CONSTRAINT "availability_agent_id_agent_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agent"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meeting" ADD CONSTRAINT "meeting_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meeting" ADD CONSTRAINT "meeting_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meeting" ADD CONSTRAINT "meeting_conversation_id_conversation_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversation"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meeting" ADD CONSTRAINT "meeting_agent_id_agent_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agent"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meeting" ADD CONSTRAINT "meeting_host_user_id_user_id_fk" FOREIGN KEY ("host_user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "meeting" ADD CONSTRAINT "meeting_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "availability_organization_id_idx" ON "availability" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "availability_user_id_idx" ON "availability" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "availability_agent_id_idx" ON "availability" USING btree ("agent_id");--> statement-breakpoint
+CREATE INDEX "meeting_organization_id_idx" ON "meeting" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "meeting_contact_id_idx" ON "meeting" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "meeting_conversation_id_idx" ON "meeting" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "meeting_status_starts_at_idx" ON "meeting" USING btree ("status","starts_at");
\ No newline at end of file
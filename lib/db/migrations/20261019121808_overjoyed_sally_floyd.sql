@@ -0,0 +1,16 @@
+CREATE TABLE "business_hours" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"weekly_hours" text NOT NULL,
+	"holidays" text,
+	"away_message" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "business_hours_organization_id_unique" UNIQUE("organization_id")
+);
+--> statement-breakpoint
+ALTER TABLE "channel_config" ADD COLUMN "after_hours_action" text DEFAULT 'away_message' NOT NULL;--> statement-breakpoint
+ALTER TABLE "channel_config" ADD COLUMN "away_message" text;--> statement-breakpoint
+ALTER TABLE "conversation" ADD COLUMN "away_message_sent_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "business_hours" ADD CONSTRAINT "business_hours_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
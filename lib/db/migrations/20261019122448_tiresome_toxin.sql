@@ -0,0 +1,16 @@
+CREATE TABLE "credential_audit_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"resource_type" text NOT NULL,
+	"resource_id" uuid NOT NULL,
+	"action" text NOT NULL,
+	"fields" text DEFAULT '[]' NOT NULL,
+	"key_id" text,
+	"actor_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "credential_audit_log" ADD CONSTRAINT "credential_audit_log_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credential_audit_log" ADD CONSTRAINT "credential_audit_log_actor_id_user_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credential_audit_log_organization_id_idx" ON "credential_audit_log" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "credential_audit_log_resource_idx" ON "credential_audit_log" USING btree ("resource_type","resource_id");
\ No newline at end of file
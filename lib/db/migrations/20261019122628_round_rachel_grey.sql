@@ -0,0 +1,31 @@
+CREATE TABLE "contact_channel_identity" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"channel" text NOT NULL,
+	"identifier" text NOT NULL,
+	"account_id" text,
+	"display_name" text,
+	"first_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_channel_identity" ADD CONSTRAINT "contact_channel_identity_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_channel_identity" ADD CONSTRAINT "contact_channel_identity_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_channel_identity_contact_id_idx" ON "contact_channel_identity" USING btree ("contact_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "contact_channel_identity_org_channel_identifier_idx" ON "contact_channel_identity" USING btree ("organization_id","channel","identifier");--> statement-breakpoint
+-- Backfill from the senders already recorded as contact sources
+INSERT INTO "contact_channel_identity" ("organization_id", "contact_id", "channel", "identifier", "first_seen_at", "last_seen_at")
+SELECT DISTINCT ON (c."organization_id", s."source_type", lower(trim(s."source_identifier")))
+	c."organization_id", c."id", s."source_type",
+	CASE WHEN s."source_type" = 'email' THEN lower(trim(s."source_identifier")) ELSE trim(s."source_identifier") END,
+	s."first_seen", s."last_seen"
+FROM "contact_source" s
+INNER JOIN "contact" c ON c."id" = s."contact_id"
+WHERE s."source_type" IN ('whatsapp', 'instagram', 'facebook', 'email')
+	AND s."source_identifier" IS NOT NULL
+	AND trim(s."source_identifier") <> ''
+	AND c."status" = 'active'
+ORDER BY c."organization_id", s."source_type", lower(trim(s."source_identifier")), s."last_seen" DESC
+ON CONFLICT DO NOTHING;
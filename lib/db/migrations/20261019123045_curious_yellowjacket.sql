@@ -0,0 +1,14 @@
+ALTER TABLE "lead" ALTER COLUMN "email" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "lead" ADD COLUMN "contact_id" uuid;--> statement-breakpoint
+ALTER TABLE "lead" ADD CONSTRAINT "lead_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lead_contact_id_idx" ON "lead" USING btree ("contact_id");--> statement-breakpoint
+UPDATE "lead" SET "contact_id" = "matched"."contact_id"
+FROM (
+	SELECT DISTINCT ON ("lead"."id") "lead"."id" AS "lead_id", "contact"."id" AS "contact_id"
+	FROM "lead"
+	INNER JOIN "contact" ON "contact"."organization_id" = "lead"."organization_id"
+		AND lower("contact"."email") = lower("lead"."email")
+		AND "contact"."status" = 'active'
+	ORDER BY "lead"."id", "contact"."created_at"
+) AS "matched"
+WHERE "lead"."id" = "matched"."lead_id";
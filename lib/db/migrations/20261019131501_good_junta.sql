@@ -0,0 +1,18 @@
+CREATE TABLE "custom_field_definition" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"entity" text NOT NULL,
+	"key" text NOT NULL,
+	"label" text NOT NULL,
+	"type" text NOT NULL,
+	"options" text DEFAULT '[]' NOT NULL,
+	"currency" text,
+	"required" boolean DEFAULT false NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lead" ADD COLUMN "custom_fields" text;--> statement-breakpoint
+ALTER TABLE "custom_field_definition" ADD CONSTRAINT "custom_field_definition_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "custom_field_definition_org_entity_key_idx" ON "custom_field_definition" USING btree ("organization_id","entity","key");
\ No newline at end of file
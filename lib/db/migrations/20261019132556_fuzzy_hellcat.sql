@@ -0,0 +1,45 @@
+CREATE TABLE "contact_tag" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"tag_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tag" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"color" text,
+	"description" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_tag" ADD CONSTRAINT "contact_tag_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_tag" ADD CONSTRAINT "contact_tag_tag_id_tag_id_fk" FOREIGN KEY ("tag_id") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tag" ADD CONSTRAINT "tag_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "contact_tag_contact_tag_idx" ON "contact_tag" USING btree ("contact_id","tag_id");--> statement-breakpoint
+CREATE INDEX "contact_tag_tag_id_idx" ON "contact_tag" USING btree ("tag_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tag_org_name_idx" ON "tag" USING btree ("organization_id","name");--> statement-breakpoint
+-- Backfill from the JSON tags of the contacts
+INSERT INTO "tag" ("organization_id", "name")
+SELECT DISTINCT c."organization_id", lower(regexp_replace(trim(t."value"), '\s+', ' ', 'g'))
+FROM "contact" c
+CROSS JOIN LATERAL jsonb_array_elements_text(c."tags"::jsonb) AS t("value")
+WHERE c."tags" LIKE '[%' AND trim(t."value") <> ''
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+INSERT INTO "contact_tag" ("contact_id", "tag_id")
+SELECT DISTINCT c."id", tag."id"
+FROM "contact" c
+CROSS JOIN LATERAL jsonb_array_elements_text(c."tags"::jsonb) AS t("value")
+INNER JOIN "tag" tag ON tag."organization_id" = c."organization_id"
+	AND tag."name" = lower(regexp_replace(trim(t."value"), '\s+', ' ', 'g'))
+WHERE c."tags" LIKE '[%'
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+UPDATE "contact" SET "tags" = (
+	SELECT coalesce(json_agg(t."name" ORDER BY t."name"), '[]')::text
+	FROM "contact_tag" ct
+	INNER JOIN "tag" t ON t."id" = ct."tag_id"
+	WHERE ct."contact_id" = "contact"."id"
+)
+WHERE "tags" IS NOT NULL;
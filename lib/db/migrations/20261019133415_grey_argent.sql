@@ -0,0 +1,19 @@
+CREATE TABLE "saved_view" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"entity" text NOT NULL,
+	"name" text NOT NULL,
+	"visibility" text DEFAULT 'personal' NOT NULL,
+	"created_by_id" uuid,
+	"filter" text,
+	"columns" text DEFAULT '[]' NOT NULL,
+	"sort_field" text,
+	"sort_order" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_view" ADD CONSTRAINT "saved_view_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_view" ADD CONSTRAINT "saved_view_created_by_id_user_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "saved_view_org_entity_idx" ON "saved_view" USING btree ("organization_id","entity");--> statement-breakpoint
+CREATE INDEX "saved_view_created_by_id_idx" ON "saved_view" USING btree ("created_by_id");
\ No newline at end of file
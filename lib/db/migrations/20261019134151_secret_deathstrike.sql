@@ -0,0 +1,18 @@
+CREATE TABLE "contact_merge" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"primary_contact_id" uuid NOT NULL,
+	"source" text DEFAULT 'manual' NOT NULL,
+	"merged_by_id" uuid,
+	"snapshot" text NOT NULL,
+	"unmerged_at" timestamp with time zone,
+	"unmerged_by_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_primary_contact_id_contact_id_fk" FOREIGN KEY ("primary_contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_merged_by_id_user_id_fk" FOREIGN KEY ("merged_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_unmerged_by_id_user_id_fk" FOREIGN KEY ("unmerged_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_merge_organization_id_idx" ON "contact_merge" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "contact_merge_primary_contact_id_idx" ON "contact_merge" USING btree ("primary_contact_id");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "duplicate_candidate" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"matched_contact_id" uuid NOT NULL,
+	"confidence" integer NOT NULL,
+	"match_reason" text NOT NULL,
+	"source" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"resolved_by_id" uuid,
+	"resolved_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "duplicate_settings" (
+	"organization_id" uuid PRIMARY KEY NOT NULL,
+	"auto_merge_enabled" boolean DEFAULT true NOT NULL,
+	"auto_merge_confidence" integer DEFAULT 95 NOT NULL,
+	"scan_enabled" boolean DEFAULT true NOT NULL,
+	"last_scan_at" timestamp with time zone,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "duplicate_candidate" ADD CONSTRAINT "duplicate_candidate_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "duplicate_candidate" ADD CONSTRAINT "duplicate_candidate_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "duplicate_candidate" ADD CONSTRAINT "duplicate_candidate_matched_contact_id_contact_id_fk" FOREIGN KEY ("matched_contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "duplicate_candidate" ADD CONSTRAINT "duplicate_candidate_resolved_by_id_user_id_fk" FOREIGN KEY ("resolved_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "duplicate_settings" ADD CONSTRAINT "duplicate_settings_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "duplicate_candidate_pair_idx" ON "duplicate_candidate" USING btree ("contact_id","matched_contact_id");--> statement-breakpoint
+CREATE INDEX "duplicate_candidate_org_status_idx" ON "duplicate_candidate" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "duplicate_candidate_matched_contact_id_idx" ON "duplicate_candidate" USING btree ("matched_contact_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "contact_score_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"score" integer NOT NULL,
+	"previous_score" integer NOT NULL,
+	"contributions" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "heat_score_model" (
+	"organization_id" uuid PRIMARY KEY NOT NULL,
+	"decay_half_life_days" integer NOT NULL,
+	"hot_threshold" integer NOT NULL,
+	"warm_threshold" integer NOT NULL,
+	"signals" text NOT NULL,
+	"updated_by_id" uuid,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_score_history" ADD CONSTRAINT "contact_score_history_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_score_history" ADD CONSTRAINT "contact_score_history_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "heat_score_model" ADD CONSTRAINT "heat_score_model_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "heat_score_model" ADD CONSTRAINT "heat_score_model_updated_by_id_user_id_fk" FOREIGN KEY ("updated_by_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_score_history_contact_created_idx" ON "contact_score_history" USING btree ("contact_id","created_at");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "heat_score_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"reason" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"key" text NOT NULL,
+	"total_contacts" integer DEFAULT 0 NOT NULL,
+	"processed_contacts" integer DEFAULT 0 NOT NULL,
+	"updated_contacts" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "heat_score_run" ADD CONSTRAINT "heat_score_run_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "heat_score_run_organization_key_unique" ON "heat_score_run" USING btree ("organization_id","key");--> statement-breakpoint
+CREATE INDEX "heat_score_run_organization_started_idx" ON "heat_score_run" USING btree ("organization_id","started_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "conversation_message" ADD COLUMN "reply_to_id" uuid;--> statement-breakpoint
+ALTER TABLE "conversation_message" ADD CONSTRAINT "conversation_message_reply_to_id_conversation_message_id_fk" FOREIGN KEY ("reply_to_id") REFERENCES "public"."conversation_message"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "conversation_message_reply_to_id_idx" ON "conversation_message" USING btree ("reply_to_id");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "contact_score_history_created_at_idx" ON "contact_score_history" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Parse text as jsonb, null when it isn't valid JSON, so one malformed row
+-- doesn't fail a statement reading a JSON text column
+CREATE OR REPLACE FUNCTION try_jsonb(value text) RETURNS jsonb
+LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE AS $$
+BEGIN
+	RETURN value::jsonb;
+EXCEPTION WHEN invalid_text_representation THEN
+	RETURN NULL;
+END;
+$$;
@@ -144,6 +144,76 @@ export const ContactStatus = {
 export type ContactStatus = (typeof ContactStatus)[keyof typeof ContactStatus];
 export const ContactStatuses = Object.values(ContactStatus);
 
+// Contact merge source enum
+export const ContactMergeSource = {
+	manual: "manual",
+	review: "review", // From the duplicate review queue
+	form: "form",
+	auto: "auto",
+} as const;
+export type ContactMergeSource =
+	(typeof ContactMergeSource)[keyof typeof ContactMergeSource];
+export const ContactMergeSources = Object.values(ContactMergeSource);
+
+// Duplicate candidate status enum
+export const DuplicateCandidateStatus = {
+	pending: "pending",
+	merged: "merged",
+	dismissed: "dismissed", // Not a duplicate, never suggested again
+} as const;
+export type DuplicateCandidateStatus =
+	(typeof DuplicateCandidateStatus)[keyof typeof DuplicateCandidateStatus];
+export const DuplicateCandidateStatuses = Object.values(
+	DuplicateCandidateStatus,
+);
+
+// Duplicate candidate source enum
+export const DuplicateCandidateSource = {
+	form: "form",
+	scan: "scan",
+} as const;
+export type DuplicateCandidateSource =
+	(typeof DuplicateCandidateSource)[keyof typeof DuplicateCandidateSource];
+export const DuplicateCandidateSources = Object.values(
+	DuplicateCandidateSource,
+);
+
+// Heat score signal type enum
+export const HeatScoreSignalType = {
+	recency: "recency", // Last interaction, decays
+	interactions: "interactions", // Interaction count
+	lifetimeValue: "lifetime_value",
+	responseTime: "response_time", // Average response time
+	formSubmitted: "form_submitted", // Decays
+	quoteAccepted: "quote_accepted", // Decays
+	tag: "tag",
+	channel: "channel", // Contacted on a channel, decays
+	customField: "custom_field",
+} as const;
+export type HeatScoreSignalType =
+	(typeof HeatScoreSignalType)[keyof typeof HeatScoreSignalType];
+export const HeatScoreSignalTypes = Object.values(HeatScoreSignalType);
+
+// Heat score run reason enum
+export const HeatScoreRunReason = {
+	modelUpdate: "model_update",
+	decay: "decay", // Nightly pass, decaying signals lose points over time
+} as const;
+export type HeatScoreRunReason =
+	(typeof HeatScoreRunReason)[keyof typeof HeatScoreRunReason];
+export const HeatScoreRunReasons = Object.values(HeatScoreRunReason);
+
+// Heat score run status enum
+export const HeatScoreRunStatus = {
+	running: "running",
+	completed: "completed",
+	cancelled: "cancelled", // Replaced by a newer run
+	failed: "failed",
+} as const;
+export type HeatScoreRunStatus =
+	(typeof HeatScoreRunStatus)[keyof typeof HeatScoreRunStatus];
+export const HeatScoreRunStatuses = Object.values(HeatScoreRunStatus);
+
 // Contact source type enum
 export const ContactSourceType = {
 	form: "form",
@@ -154,6 +224,7 @@ export const ContactSourceType = {
 	email: "email",
 	manual: "manual",
 	api: "api",
+	import: "import",
 } as const;
 export type ContactSourceType =
 	(typeof ContactSourceType)[keyof typeof ContactSourceType];
@@ -309,6 +380,229 @@ export type VoiceCallStatus =
 	(typeof VoiceCallStatus)[keyof typeof VoiceCallStatus];
 export const VoiceCallStatuses = Object.values(VoiceCallStatus);
 
+// Background job type enum
+export const JobType = {
+	aiReply: "ai_reply",
+	messageDelivery: "message_delivery",
+	formWebhook: "form_webhook",
+	inventorySync: "inventory_sync",
+	knowledgeIngest: "knowledge_ingest",
+	meetingReminder: "meeting_reminder",
+	webhookDelivery: "webhook_delivery",
+	dataImport: "data_import",
+	duplicateScan: "duplicate_scan",
+	heatScoreRecalculation: "heat_score_recalculation",
+} as const;
+export type JobType = (typeof JobType)[keyof typeof JobType];
+export const JobTypes = Object.values(JobType);
+
+// Background job status enum
+export const JobStatus = {
+	pending: "pending",
+	running: "running",
+	completed: "completed",
+	dead: "dead", // Exhausted retries (dead-letter)
+} as const;
+export type JobStatus = (typeof JobStatus)[keyof typeof JobStatus];
+export const JobStatuses = Object.values(JobStatus);
+
+// Knowledge document source enum
+export const KnowledgeSourceType = {
+	pdf: "pdf",
+	markdown: "markdown",
+	url: "url",
+} as const;
+export type KnowledgeSourceType =
+	(typeof KnowledgeSourceType)[keyof typeof KnowledgeSourceType];
+export const KnowledgeSourceTypes = Object.values(KnowledgeSourceType);
+
+// Knowledge document ingestion status enum
+export const KnowledgeDocumentStatus = {
+	pending: "pending",
+	processing: "processing",
+	ready: "ready",
+	failed: "failed",
+} as const;
+export type KnowledgeDocumentStatus =
+	(typeof KnowledgeDocumentStatus)[keyof typeof KnowledgeDocumentStatus];
+export const KnowledgeDocumentStatuses = Object.values(KnowledgeDocumentStatus);
+
+// Quote status enum
+export const QuoteStatus = {
+	draft: "draft",
+	sent: "sent",
+	accepted: "accepted",
+	declined: "declined",
+	expired: "expired",
+} as const;
+export type QuoteStatus = (typeof QuoteStatus)[keyof typeof QuoteStatus];
+export const QuoteStatuses = Object.values(QuoteStatus);
+
+// Meeting status enum
+export const MeetingStatus = {
+	proposed: "proposed", // Slots offered, waiting for the contact to pick one
+	confirmed: "confirmed",
+	cancelled: "cancelled",
+	completed: "completed",
+} as const;
+export type MeetingStatus = (typeof MeetingStatus)[keyof typeof MeetingStatus];
+export const MeetingStatuses = Object.values(MeetingStatus);
+
+// What a channel does with messages received outside business hours
+export const AfterHoursAction = {
+	awayMessage: "away_message", // Reply with the away message, no AI reply
+	queueForHuman: "queue_for_human", // Away message and hand over to the next human shift
+	aiReply: "ai_reply", // Let the AI agent answer as usual
+} as const;
+export type AfterHoursAction =
+	(typeof AfterHoursAction)[keyof typeof AfterHoursAction];
+export const AfterHoursActions = Object.values(AfterHoursAction);
+
+// Records holding encrypted integration credentials
+export const CredentialResourceType = {
+	channelConfig: "channel_config",
+	inventorySyncConfig: "inventory_sync_config",
+	webhookEndpoint: "webhook_endpoint",
+} as const;
+export type CredentialResourceType =
+	(typeof CredentialResourceType)[keyof typeof CredentialResourceType];
+export const CredentialResourceTypes = Object.values(CredentialResourceType);
+
+// Credential audit action enum
+export const CredentialAuditAction = {
+	created: "created",
+	updated: "updated",
+	deleted: "deleted",
+	rotated: "rotated", // Data key re-encrypted with a new master key
+} as const;
+export type CredentialAuditAction =
+	(typeof CredentialAuditAction)[keyof typeof CredentialAuditAction];
+export const CredentialAuditActions = Object.values(CredentialAuditAction);
+
+// Pipeline stage type enum, deals in won/lost stages are closed
+export const PipelineStageType = {
+	open: "open",
+	won: "won",
+	lost: "lost",
+} as const;
+export type PipelineStageType =
+	(typeof PipelineStageType)[keyof typeof PipelineStageType];
+export const PipelineStageTypes = Object.values(PipelineStageType);
+
+// Deal status enum, follows the type of the deal's stage
+export const DealStatus = {
+	open: "open",
+	won: "won",
+	lost: "lost",
+} as const;
+export type DealStatus = (typeof DealStatus)[keyof typeof DealStatus];
+export const DealStatuses = Object.values(DealStatus);
+
+// Permissions of an organization API key on the public REST API
+export const ApiKeyScope = {
+	contactsRead: "contacts:read",
+	contactsWrite: "contacts:write",
+	leadsRead: "leads:read",
+	leadsWrite: "leads:write",
+	conversationsRead: "conversations:read",
+	formsRead: "forms:read",
+	productsRead: "products:read",
+} as const;
+export type ApiKeyScope = (typeof ApiKeyScope)[keyof typeof ApiKeyScope];
+export const ApiKeyScopes = Object.values(ApiKeyScope);
+
+// Events an organization webhook endpoint can subscribe to
+export const WebhookEventType = {
+	contactCreated: "contact.created",
+	leadStatusChanged: "lead.status_changed",
+	conversationTransferred: "conversation.transferred",
+	messageReceived: "message.received",
+	formSubmitted: "form.submitted",
+	quoteAccepted: "quote.accepted",
+} as const;
+export type WebhookEventType =
+	(typeof WebhookEventType)[keyof typeof WebhookEventType];
+export const WebhookEventTypes = Object.values(WebhookEventType);
+
+// Webhook delivery status enum
+export const WebhookDeliveryStatus = {
+	pending: "pending", // Queued or waiting for a retry
+	succeeded: "succeeded",
+	failed: "failed", // Out of attempts
+} as const;
+export type WebhookDeliveryStatus =
+	(typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+export const WebhookDeliveryStatuses = Object.values(WebhookDeliveryStatus);
+
+// Records a CSV / Excel import can create
+export const ImportEntity = {
+	contacts: "contacts",
+	leads: "leads",
+} as const;
+export type ImportEntity = (typeof ImportEntity)[keyof typeof ImportEntity];
+export const ImportEntities = Object.values(ImportEntity);
+
+// Import status enum
+export const ImportStatus = {
+	mapping: "mapping", // Uploaded, columns being mapped and previewed
+	processing: "processing",
+	completed: "completed",
+	failed: "failed",
+} as const;
+export type ImportStatus = (typeof ImportStatus)[keyof typeof ImportStatus];
+export const ImportStatuses = Object.values(ImportStatus);
+
+// What an import does with a row matching an existing contact
+export const ImportDuplicateAction = {
+	create: "create", // Create a new record anyway
+	merge: "merge", // Update (contacts) or link to (leads) the existing contact
+	skip: "skip",
+} as const;
+export type ImportDuplicateAction =
+	(typeof ImportDuplicateAction)[keyof typeof ImportDuplicateAction];
+export const ImportDuplicateActions = Object.values(ImportDuplicateAction);
+
+// Records an organization can define custom fields for
+export const CustomFieldEntity = {
+	contact: "contact",
+	lead: "lead",
+} as const;
+export type CustomFieldEntity =
+	(typeof CustomFieldEntity)[keyof typeof CustomFieldEntity];
+export const CustomFieldEntities = Object.values(CustomFieldEntity);
+
+// Type of a custom field value, see lib/custom-fields/values
+export const CustomFieldType = {
+	text: "text",
+	number: "number",
+	date: "date", // YYYY-MM-DD
+	select: "select",
+	multiSelect: "multi_select",
+	currency: "currency", // Amount in the field currency
+	url: "url",
+} as const;
+export type CustomFieldType =
+	(typeof CustomFieldType)[keyof typeof CustomFieldType];
+export const CustomFieldTypes = Object.values(CustomFieldType);
+
+// Records a saved view lists
+export const SavedViewEntity = {
+	contact: "contact",
+	lead: "lead",
+} as const;
+export type SavedViewEntity =
+	(typeof SavedViewEntity)[keyof typeof SavedViewEntity];
+export const SavedViewEntities = Object.values(SavedViewEntity);
+
+// Who sees a saved view
+export const SavedViewVisibility = {
+	personal: "personal", // Only its creator
+	shared: "shared", // Every member of the organization
+} as const;
+export type SavedViewVisibility =
+	(typeof SavedViewVisibility)[keyof typeof SavedViewVisibility];
+export const SavedViewVisibilities = Object.values(SavedViewVisibility);
+
 export function enumToPgEnum<T extends Record<string, string>>(myEnum: T) {
 	return Object.values(myEnum).map((value) => value) as [
 		T[keyof T],
@@ -4,33 +4,62 @@ import {
 	agentAssignmentTable,
 	agentTable,
 	aiChatTable,
+	apiKeyTable,
+	availabilityTable,
 	billingEventTable,
+	businessHoursTable,
 	channelConfigTable,
 	contactAgreementTable,
+	contactChannelIdentityTable,
+	contactMergeTable,
 	contactNoteTable,
+	contactScoreHistoryTable,
 	contactSourceTable,
 	contactTable,
+	contactTagTable,
 	conversationMessageTable,
 	conversationTable,
+	credentialAuditLogTable,
 	creditBalanceTable,
 	creditDeductionFailureTable,
 	creditTransactionTable,
+	customFieldDefinitionTable,
+	dealStageHistoryTable,
+	dealTable,
+	duplicateCandidateTable,
+	duplicateSettingsTable,
 	formSubmissionTable,
 	formTable,
+	heatScoreModelTable,
+	heatScoreRunTable,
+	importJobTable,
+	importRowErrorTable,
 	invitationTable,
+	jobTable,
+	knowledgeChunkTable,
+	knowledgeDocumentTable,
 	leadTable,
+	meetingTable,
 	memberTable,
 	orderItemTable,
 	orderTable,
 	organizationTable,
+	pipelineStageTable,
+	pipelineTable,
 	productCategoryTable,
 	productTable,
+	quoteItemTable,
+	quoteTable,
+	savedViewTable,
 	sessionTable,
 	subscriptionItemTable,
 	subscriptionTable,
+	tagTable,
 	twoFactorTable,
 	userTable,
 	voiceCallTable,
+	webhookDeliveryTable,
+	webhookEndpointTable,
 } from "./tables";
 
 export const accountRelations = relations(accountTable, ({ one }) => ({
@@ -78,13 +107,28 @@ export const organizationRelations = relations(
 		contacts: many(contactTable),
 		contactAgreements: many(contactAgreementTable),
 		contactNotes: many(contactNoteTable),
+		contactChannelIdentities: many(contactChannelIdentityTable),
+		tags: many(tagTable),
 		channelConfigs: many(channelConfigTable),
 		conversations: many(conversationTable),
 		agents: many(agentTable),
+		knowledgeDocuments: many(knowledgeDocumentTable),
 		forms: many(formTable),
 		voiceCalls: many(voiceCallTable),
 		products: many(productTable),
 		productCategories: many(productCategoryTable),
+		quotes: many(quoteTable),
+		meetings: many(meetingTable),
+		availabilities: many(availabilityTable),
+		businessHours: one(businessHoursTable),
+		credentialAuditLogs: many(credentialAuditLogTable),
+		pipelines: many(pipelineTable),
+		deals: many(dealTable),
+		apiKeys: many(apiKeyTable),
+		webhookEndpoints: many(webhookEndpointTable),
+		importJobs: many(importJobTable),
+		customFieldDefinitions: many(customFieldDefinitionTable),
+		savedViews: many(savedViewTable),
 	}),
 );
 
@@ -178,7 +222,7 @@ export const aiChatRelations = relations(aiChatTable, ({ one }) => ({
 }));
 
 // Lead relations
-export const leadRelations = relations(leadTable, ({ one }) => ({
+export const leadRelations = relations(leadTable, ({ one, many }) => ({
 	organization: one(organizationTable, {
 		fields: [leadTable.organizationId],
 		references: [organizationTable.id],
@@ -187,6 +231,11 @@ export const leadRelations = relations(leadTable, ({ one }) => ({
 		fields: [leadTable.assignedToId],
 		references: [userTable.id],
 	}),
+	contact: one(contactTable, {
+		fields: [leadTable.contactId],
+		references: [contactTable.id],
+	}),
+	deals: many(dealTable),
 }));
 
 // Credit relations
@@ -256,14 +305,159 @@ export const contactRelations = relations(contactTable, ({ one, many }) => ({
 		relationName: "contactMerge",
 	}),
 	sources: many(contactSourceTable),
+	channelIdentities: many(contactChannelIdentityTable),
+	contactTags: many(contactTagTable),
+	merges: many(contactMergeTable),
+	scoreHistory: many(contactScoreHistoryTable),
 	agreements: many(contactAgreementTable),
 	notes: many(contactNoteTable),
 	conversations: many(conversationTable),
 	voiceCalls: many(voiceCallTable),
 	formSubmissions: many(formSubmissionTable),
 	agentAssignments: many(agentAssignmentTable),
+	quotes: many(quoteTable),
+	meetings: many(meetingTable),
+	leads: many(leadTable),
+	deals: many(dealTable),
 }));
 
+// Contact channel identity relations
+export const contactChannelIdentityRelations = relations(
+	contactChannelIdentityTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [contactChannelIdentityTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		contact: one(contactTable, {
+			fields: [contactChannelIdentityTable.contactId],
+			references: [contactTable.id],
+		}),
+	}),
+);
+
+// Tag relations
+export const tagRelations = relations(tagTable, ({ one, many }) => ({
+	organization: one(organizationTable, {
+		fields: [tagTable.organizationId],
+		references: [organizationTable.id],
+	}),
+	contactTags: many(contactTagTable),
+}));
+
+export const contactTagRelations = relations(contactTagTable, ({ one }) => ({
+	contact: one(contactTable, {
+		fields: [contactTagTable.contactId],
+		references: [contactTable.id],
+	}),
+	tag: one(tagTable, {
+		fields: [contactTagTable.tagId],
+		references: [tagTable.id],
+	}),
+}));
+
+// Contact merge relations
+export const contactMergeRelations = relations(
+	contactMergeTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [contactMergeTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		primaryContact: one(contactTable, {
+			fields: [contactMergeTable.primaryContactId],
+			references: [contactTable.id],
+		}),
+		mergedBy: one(userTable, {
+			fields: [contactMergeTable.mergedById],
+			references: [userTable.id],
+			relationName: "contactMergeMergedBy",
+		}),
+		unmergedBy: one(userTable, {
+			fields: [contactMergeTable.unmergedById],
+			references: [userTable.id],
+			relationName: "contactMergeUnmergedBy",
+		}),
+	}),
+);
+
+// Duplicate settings relations
+export const duplicateSettingsRelations = relations(
+	duplicateSettingsTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [duplicateSettingsTable.organizationId],
+			references: [organizationTable.id],
+		}),
+	}),
+);
+
+// Duplicate candidate relations
+export const duplicateCandidateRelations = relations(
+	duplicateCandidateTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [duplicateCandidateTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		contact: one(contactTable, {
+			fields: [duplicateCandidateTable.contactId],
+			references: [contactTable.id],
+			relationName: "duplicateCandidateContact",
+		}),
+		matchedContact: one(contactTable, {
+			fields: [duplicateCandidateTable.matchedContactId],
+			references: [contactTable.id],
+			relationName: "duplicateCandidateMatchedContact",
+		}),
+		resolvedBy: one(userTable, {
+			fields: [duplicateCandidateTable.resolvedById],
+			references: [userTable.id],
+		}),
+	}),
+);
+
+// Heat score model relations
+export const heatScoreModelRelations = relations(
+	heatScoreModelTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [heatScoreModelTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		updatedBy: one(userTable, {
+			fields: [heatScoreModelTable.updatedById],
+			references: [userTable.id],
+		}),
+	}),
+);
+
+// Heat score run relations
+export const heatScoreRunRelations = relations(
+	heatScoreRunTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [heatScoreRunTable.organizationId],
+			references: [organizationTable.id],
+		}),
+	}),
+);
+
+// Contact score history relations
+export const contactScoreHistoryRelations = relations(
+	contactScoreHistoryTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [contactScoreHistoryTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		contact: one(contactTable, {
+			fields: [contactScoreHistoryTable.contactId],
+			references: [contactTable.id],
+		}),
+	}),
+);
+
 // Contact source relations
 export const contactSourceRelations = relations(
 	contactSourceTable,
@@ -366,10 +560,44 @@ export const agentRelations = relations(agentTable, ({ one, many }) => ({
 		references: [organizationTable.id],
 	}),
 	assignments: many(agentAssignmentTable),
+	knowledgeDocuments: many(knowledgeDocumentTable),
 	forms: many(formTable),
 	voiceCalls: many(voiceCallTable),
+	meetings: many(meetingTable),
+	availabilities: many(availabilityTable),
 }));
 
+// Knowledge document relations
+export const knowledgeDocumentRelations = relations(
+	knowledgeDocumentTable,
+	({ one, many }) => ({
+		organization: one(organizationTable, {
+			fields: [knowledgeDocumentTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		agent: one(agentTable, {
+			fields: [knowledgeDocumentTable.agentId],
+			references: [agentTable.id],
+		}),
+		createdBy: one(userTable, {
+			fields: [knowledgeDocumentTable.createdById],
+			references: [userTable.id],
+		}),
+		chunks: many(knowledgeChunkTable),
+	}),
+);
+
+// Knowledge chunk relations
+export const knowledgeChunkRelations = relations(
+	knowledgeChunkTable,
+	({ one }) => ({
+		document: one(knowledgeDocumentTable, {
+			fields: [knowledgeChunkTable.documentId],
+			references: [knowledgeDocumentTable.id],
+		}),
+	}),
+);
+
 // Agent assignment relations
 export const agentAssignmentRelations = relations(
 	agentAssignmentTable,
@@ -438,7 +666,7 @@ export const voiceCallRelations = relations(voiceCallTable, ({ one }) => ({
 }));
 
 // Product relations
-export const productRelations = relations(productTable, ({ one }) => ({
+export const productRelations = relations(productTable, ({ one, many }) => ({
 	organization: one(organizationTable, {
 		fields: [productTable.organizationId],
 		references: [organizationTable.id],
@@ -447,6 +675,7 @@ export const productRelations = relations(productTable, ({ one }) => ({
 		fields: [productTable.categoryId],
 		references: [productCategoryTable.id],
 	}),
+	quoteItems: many(quoteItemTable),
 }));
 
 // Product category relations
@@ -470,3 +699,282 @@ export const productCategoryRelations = relations(
 		products: many(productTable),
 	}),
 );
+
+// Quote relations
+export const quoteRelations = relations(quoteTable, ({ one, many }) => ({
+	organization: one(organizationTable, {
+		fields: [quoteTable.organizationId],
+		references: [organizationTable.id],
+	}),
+	contact: one(contactTable, {
+		fields: [quoteTable.contactId],
+		references: [contactTable.id],
+	}),
+	conversation: one(conversationTable, {
+		fields: [quoteTable.conversationId],
+		references: [conversationTable.id],
+	}),
+	agreement: one(contactAgreementTable, {
+		fields: [quoteTable.agreementId],
+		references: [contactAgreementTable.id],
+	}),
+	createdBy: one(userTable, {
+		fields: [quoteTable.createdById],
+		references: [userTable.id],
+	}),
+	items: many(quoteItemTable),
+}));
+
+// Quote item relations
+export const quoteItemRelations = relations(quoteItemTable, ({ one }) => ({
+	quote: one(quoteTable, {
+		fields: [quoteItemTable.quoteId],
+		references: [quoteTable.id],
+	}),
+	product: one(productTable, {
+		fields: [quoteItemTable.productId],
+		references: [productTable.id],
+	}),
+}));
+
+// Availability relations
+export const availabilityRelations = relations(
+	availabilityTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [availabilityTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		user: one(userTable, {
+			fields: [availabilityTable.userId],
+			references: [userTable.id],
+		}),
+		agent: one(agentTable, {
+			fields: [availabilityTable.agentId],
+			references: [agentTable.id],
+		}),
+	}),
+);
+
+// Meeting relations
+export const meetingRelations = relations(meetingTable, ({ one }) => ({
+	organization: one(organizationTable, {
+		fields: [meetingTable.organizationId],
+		references: [organizationTable.id],
+	}),
+	contact: one(contactTable, {
+		fields: [meetingTable.contactId],
+		references: [contactTable.id],
+	}),
+	conversation: one(conversationTable, {
+		fields: [meetingTable.conversationId],
+		references: [conversationTable.id],
+	}),
+	agent: one(agentTable, {
+		fields: [meetingTable.agentId],
+		references: [agentTable.id],
+	}),
+	hostUser: one(userTable, {
+		fields: [meetingTable.hostUserId],
+		references: [userTable.id],
+	}),
+	createdBy: one(userTable, {
+		fields: [meetingTable.createdById],
+		references: [userTable.id],
+	}),
+}));
+
+// Business hours relations
+export const businessHoursRelations = relations(
+	businessHoursTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [businessHoursTable.organizationId],
+			references: [organizationTable.id],
+		}),
+	}),
+);
+
+// Credential audit log relations
+export const credentialAuditLogRelations = relations(
+	credentialAuditLogTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [credentialAuditLogTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		actor: one(userTable, {
+			fields: [credentialAuditLogTable.actorId],
+			references: [userTable.id],
+		}),
+	}),
+);
+
+// Pipeline relations
+export const pipelineRelations = relations(pipelineTable, ({ one, many }) => ({
+	organization: one(organizationTable, {
+		fields: [pipelineTable.organizationId],
+		references: [organizationTable.id],
+	}),
+	stages: many(pipelineStageTable),
+	deals: many(dealTable),
+}));
+
+export const pipelineStageRelations = relations(
+	pipelineStageTable,
+	({ one, many }) => ({
+		organization: one(organizationTable, {
+			fields: [pipelineStageTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		pipeline: one(pipelineTable, {
+			fields: [pipelineStageTable.pipelineId],
+			references: [pipelineTable.id],
+		}),
+		deals: many(dealTable),
+	}),
+);
+
+// Deal relations
+export const dealRelations = relations(dealTable, ({ one, many }) => ({
+	organization: one(organizationTable, {
+		fields: [dealTable.organizationId],
+		references: [organizationTable.id],
+	}),
+	pipeline: one(pipelineTable, {
+		fields: [dealTable.pipelineId],
+		references: [pipelineTable.id],
+	}),
+	stage: one(pipelineStageTable, {
+		fields: [dealTable.stageId],
+		references: [pipelineStageTable.id],
+	}),
+	lead: one(leadTable, {
+		fields: [dealTable.leadId],
+		references: [leadTable.id],
+	}),
+	contact: one(contactTable, {
+		fields: [dealTable.contactId],
+		references: [contactTable.id],
+	}),
+	owner: one(userTable, {
+		fields: [dealTable.ownerId],
+		references: [userTable.id],
+	}),
+	stageHistory: many(dealStageHistoryTable),
+}));
+
+export const dealStageHistoryRelations = relations(
+	dealStageHistoryTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [dealStageHistoryTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		deal: one(dealTable, {
+			fields: [dealStageHistoryTable.dealId],
+			references: [dealTable.id],
+		}),
+		changedBy: one(userTable, {
+			fields: [dealStageHistoryTable.changedById],
+			references: [userTable.id],
+		}),
+	}),
+);
+
+// API key relations
+export const apiKeyRelations = relations(apiKeyTable, ({ one }) => ({
+	organization: one(organizationTable, {
+		fields: [apiKeyTable.organizationId],
+		references: [organizationTable.id],
+	}),
+	createdBy: one(userTable, {
+		fields: [apiKeyTable.createdById],
+		references: [userTable.id],
+	}),
+}));
+
+// Webhook endpoint relations
+export const webhookEndpointRelations = relations(
+	webhookEndpointTable,
+	({ one, many }) => ({
+		organization: one(organizationTable, {
+			fields: [webhookEndpointTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		createdBy: one(userTable, {
+			fields: [webhookEndpointTable.createdById],
+			references: [userTable.id],
+		}),
+		deliveries: many(webhookDeliveryTable),
+	}),
+);
+
+// Webhook delivery relations
+export const webhookDeliveryRelations = relations(
+	webhookDeliveryTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [webhookDeliveryTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		endpoint: one(webhookEndpointTable, {
+			fields: [webhookDeliveryTable.endpointId],
+			references: [webhookEndpointTable.id],
+		}),
+	}),
+);
+
+export const customFieldDefinitionRelations = relations(
+	customFieldDefinitionTable,
+	({ one }) => ({
+		organization: one(organizationTable, {
+			fields: [customFieldDefinitionTable.organizationId],
+			references: [organizationTable.id],
+		}),
+	}),
+);
+
+export const savedViewRelations = relations(savedViewTable, ({ one }) => ({
+	organization: one(organizationTable, {
+		fields: [savedViewTable.organizationId],
+		references: [organizationTable.id],
+	}),
+	createdBy: one(userTable, {
+		fields: [savedViewTable.createdById],
+		references: [userTable.id],
+	}),
+}));
+
+export const importJobRelations = relations(
+	importJobTable,
+	({ one, many }) => ({
+		organization: one(organizationTable, {
+			fields: [importJobTable.organizationId],
+			references: [organizationTable.id],
+		}),
+		createdBy: one(userTable, {
+			fields: [importJobTable.createdById],
+			references: [userTable.id],
+		}),
+		rowErrors: many(importRowErrorTable),
+	}),
+);
+
+export const importRowErrorRelations = relations(
+	importRowErrorTable,
+	({ one }) => ({
+		import: one(importJobTable, {
+			fields: [importRowErrorTable.importId],
+			references: [importJobTable.id],
+		}),
+	}),
+);
+
+// Background job relations
+export const jobRelations = relations(jobTable, ({ one }) => ({
+	organization: one(organizationTable, {
+		fields: [jobTable.organizationId],
+		references: [organizationTable.id],
+	}),
+}));
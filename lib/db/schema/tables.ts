@@ -1,5 +1,6 @@
 import { sql } from "drizzle-orm";
 import {
+	type AnyPgColumn,
 	boolean,
 	check,
 	index,
@@ -9,36 +10,62 @@ import {
 	timestamp,
 	uniqueIndex,
 	uuid,
+	vector,
 } from "drizzle-orm/pg-core";
 import {
+	AfterHoursAction,
 	AgentType,
 	BillingInterval,
 	ChannelType,
 	ContactAgreementStatus,
 	ContactAgreementType,
+	ContactMergeSource,
 	ContactNoteType,
 	ContactSourceType,
 	ContactStatus,
 	ConversationStatus,
+	CredentialAuditAction,
+	CredentialResourceType,
 	CreditTransactionType,
+	CustomFieldEntity,
+	CustomFieldType,
+	DealStatus,
+	DuplicateCandidateSource,
+	DuplicateCandidateStatus,
 	enumToPgEnum,
 	FormPostSubmitAction,
+	HeatScoreRunReason,
+	HeatScoreRunStatus,
+	ImportDuplicateAction,
+	ImportEntity,
+	ImportStatus,
 	InvitationStatus,
+	JobStatus,
+	JobType,
+	KnowledgeDocumentStatus,
+	KnowledgeSourceType,
 	LeadSource,
 	LeadStatus,
+	MeetingStatus,
 	MemberRole,
 	MessageContentType,
 	MessageDeliveryStatus,
 	MessageDirection,
 	MessageRole,
 	OrderStatus,
+	PipelineStageType,
 	PriceModel,
 	PriceType,
+	QuoteStatus,
+	SavedViewEntity,
+	SavedViewVisibility,
 	SubscriptionStatus,
 	UserRole,
 	VoiceCallDirection,
 	VoiceCallStatus,
 	VoiceProvider,
+	WebhookDeliveryStatus,
+	WebhookEventType,
 } from "./enums";
 
 export const accountTable = pgTable(
@@ -705,10 +732,14 @@ export const leadTable = pgTable(
 		// Contact information
 		firstName: text("first_name").notNull(),
 		lastName: text("last_name").notNull(),
-		email: text("email").notNull(),
+		email: text("email"), // Leads converted from chat contacts may have none
 		phone: text("phone"),
 		company: text("company"),
 		jobTitle: text("job_title"),
+		// Contact the lead was converted from, see lib/ember/memoria/leads
+		contactId: uuid("contact_id").references(() => contactTable.id, {
+			onDelete: "set null",
+		}),
 		// Lead details
 		status: text("status", { enum: enumToPgEnum(LeadStatus) })
 			.$type<LeadStatus>()
@@ -721,6 +752,8 @@ export const leadTable = pgTable(
 		// Value and notes
 		estimatedValue: integer("estimated_value"), // Amount in cents
 		notes: text("notes"),
+		// Custom fields, see lib/custom-fields
+		customFields: text("custom_fields"), // JSON
 		// Assigned to
 		assignedToId: uuid("assigned_to_id").references(() => userTable.id, {
 			onDelete: "set null",
@@ -740,6 +773,7 @@ export const leadTable = pgTable(
 		index("lead_source_idx").on(table.source),
 		index("lead_assigned_to_id_idx").on(table.assignedToId),
 		index("lead_email_idx").on(table.email),
+		index("lead_contact_id_idx").on(table.contactId),
 		index("lead_created_at_idx").on(table.createdAt),
 		// Composite index for common query: leads by organization and status
 		index("lead_org_status_idx").on(table.organizationId, table.status),
@@ -770,7 +804,7 @@ export const contactTable: any = pgTable(
 		company: text("company"),
 		// Ember-specific fields
 		heatScore: integer("heat_score").notNull().default(0), // 0-100
-		tags: text("tags"), // JSON array
+		tags: text("tags"), // JSON array of tag names, kept in sync with contact_tag
 		channelPreference: text("channel_preference"),
 		timezone: text("timezone"),
 		language: text("language").default("es"),
@@ -863,6 +897,304 @@ export const contactSourceTable = pgTable(
 	],
 );
 
+/**
+ * Contact channel identity table - How to reach a contact on each channel:
+ * WhatsApp wa_id, Instagram scoped ID, Facebook PSID, phone numbers and email aliases.
+ * Recorded from inbound messages and used as the recipient of replies.
+ */
+export const contactChannelIdentityTable = pgTable(
+	"contact_channel_identity",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		channel: text("channel", { enum: enumToPgEnum(ChannelType) })
+			.$type<ChannelType>()
+			.notNull(),
+		identifier: text("identifier").notNull(), // wa_id, IGSID, PSID, phone number or email
+		// Receiving account the identifier is scoped to (page / IG account, phone_number_id, inbound address)
+		accountId: text("account_id"),
+		displayName: text("display_name"),
+		firstSeenAt: timestamp("first_seen_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		// The most recently seen identity of a channel receives replies
+		lastSeenAt: timestamp("last_seen_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		index("contact_channel_identity_contact_id_idx").on(table.contactId),
+		// One contact per handle and channel in an organization
+		uniqueIndex("contact_channel_identity_org_channel_identifier_idx").on(
+			table.organizationId,
+			table.channel,
+			table.identifier,
+		),
+	],
+);
+
+/**
+ * Tag table - Labels an organization puts on its contacts. Names are stored
+ * trimmed and lowercase.
+ */
+export const tagTable = pgTable(
+	"tag",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		name: text("name").notNull(),
+		color: text("color"), // Hex color, e.g. #f97316
+		description: text("description"),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		uniqueIndex("tag_org_name_idx").on(table.organizationId, table.name),
+	],
+);
+
+/**
+ * Contact tag table - Tags of a contact. The contact's `tags` column keeps a
+ * JSON copy of the names for readers that only need to display them.
+ */
+export const contactTagTable = pgTable(
+	"contact_tag",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		tagId: uuid("tag_id")
+			.notNull()
+			.references(() => tagTable.id, { onDelete: "cascade" }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		uniqueIndex("contact_tag_contact_tag_idx").on(table.contactId, table.tagId),
+		index("contact_tag_tag_id_idx").on(table.tagId),
+	],
+);
+
+/**
+ * Contact merge table - One row per merge of duplicates into a primary contact,
+ * with the pre-merge state and moved row ids needed to unmerge it
+ */
+export const contactMergeTable = pgTable(
+	"contact_merge",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		primaryContactId: uuid("primary_contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		source: text("source", { enum: enumToPgEnum(ContactMergeSource) })
+			.$type<ContactMergeSource>()
+			.notNull()
+			.default(ContactMergeSource.manual),
+		// Null for automatic merges
+		mergedById: uuid("merged_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		snapshot: text("snapshot").notNull(), // JSON, see lib/ember/memoria/merger.ts
+		unmergedAt: timestamp("unmerged_at", { withTimezone: true }),
+		unmergedById: uuid("unmerged_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		index("contact_merge_organization_id_idx").on(table.organizationId),
+		index("contact_merge_primary_contact_id_idx").on(table.primaryContactId),
+	],
+);
+
+/**
+ * Duplicate settings table - How an organization handles detected duplicate
+ * contacts. Organizations without a row use config/duplicates.config.ts.
+ */
+export const duplicateSettingsTable = pgTable("duplicate_settings", {
+	organizationId: uuid("organization_id")
+		.primaryKey()
+		.references(() => organizationTable.id, { onDelete: "cascade" }),
+	// Duplicates found on form submission at or above this confidence (0-100)
+	// are merged right away, the others wait for review
+	autoMergeEnabled: boolean("auto_merge_enabled").notNull().default(true),
+	autoMergeConfidence: integer("auto_merge_confidence").notNull().default(95),
+	scanEnabled: boolean("scan_enabled").notNull().default(true),
+	lastScanAt: timestamp("last_scan_at", { withTimezone: true }),
+	updatedAt: timestamp("updated_at", { withTimezone: true })
+		.notNull()
+		.defaultNow()
+		.$onUpdate(() => new Date()),
+});
+
+/**
+ * Duplicate candidate table - Pairs of contacts that may be the same person,
+ * waiting for review. Dismissed pairs are kept so they aren't suggested again.
+ * `contactId` is always the lower of the two ids, so a pair has a single row.
+ */
+export const duplicateCandidateTable = pgTable(
+	"duplicate_candidate",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		matchedContactId: uuid("matched_contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		confidence: integer("confidence").notNull(), // 0-100
+		matchReason: text("match_reason").notNull(),
+		source: text("source", { enum: enumToPgEnum(DuplicateCandidateSource) })
+			.$type<DuplicateCandidateSource>()
+			.notNull(),
+		status: text("status", { enum: enumToPgEnum(DuplicateCandidateStatus) })
+			.$type<DuplicateCandidateStatus>()
+			.notNull()
+			.default(DuplicateCandidateStatus.pending),
+		resolvedById: uuid("resolved_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		uniqueIndex("duplicate_candidate_pair_idx").on(
+			table.contactId,
+			table.matchedContactId,
+		),
+		index("duplicate_candidate_org_status_idx").on(
+			table.organizationId,
+			table.status,
+		),
+		index("duplicate_candidate_matched_contact_id_idx").on(
+			table.matchedContactId,
+		),
+	],
+);
+
+/**
+ * Heat score model table - How an organization scores its contacts.
+ * Organizations without a row use the default model of
+ * config/heat-score.config.ts.
+ */
+export const heatScoreModelTable = pgTable("heat_score_model", {
+	organizationId: uuid("organization_id")
+		.primaryKey()
+		.references(() => organizationTable.id, { onDelete: "cascade" }),
+	// Days after which the points of a decaying signal are halved
+	decayHalfLifeDays: integer("decay_half_life_days").notNull(),
+	// Lowest scores of hot and warm contacts (0-100)
+	hotThreshold: integer("hot_threshold").notNull(),
+	warmThreshold: integer("warm_threshold").notNull(),
+	signals: text("signals").notNull(), // JSON array of HeatScoreSignal
+	updatedById: uuid("updated_by_id").references(() => userTable.id, {
+		onDelete: "set null",
+	}),
+	updatedAt: timestamp("updated_at", { withTimezone: true })
+		.notNull()
+		.defaultNow()
+		.$onUpdate(() => new Date()),
+});
+
+/**
+ * Contact score history table - Heat score changes of a contact, with the
+ * points each signal contributed
+ */
+export const contactScoreHistoryTable = pgTable(
+	"contact_score_history",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		score: integer("score").notNull(), // 0-100
+		previousScore: integer("previous_score").notNull(),
+		contributions: text("contributions").notNull(), // JSON array of HeatScoreContribution
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		index("contact_score_history_contact_created_idx").on(
+			table.contactId,
+			table.createdAt,
+		),
+		// Pruning of old changes
+		index("contact_score_history_created_at_idx").on(table.createdAt),
+	],
+);
+
+/**
+ * Heat score run table - Progress of a re-scoring of all active contacts of
+ * an organization, run in batches by heat_score_recalculation jobs
+ */
+export const heatScoreRunTable = pgTable(
+	"heat_score_run",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		reason: text("reason", { enum: enumToPgEnum(HeatScoreRunReason) })
+			.$type<HeatScoreRunReason>()
+			.notNull(),
+		status: text("status", { enum: enumToPgEnum(HeatScoreRunStatus) })
+			.$type<HeatScoreRunStatus>()
+			.notNull()
+			.default(HeatScoreRunStatus.running),
+		key: text("key").notNull(), // Keeps a run from starting twice, e.g. the date of a decay pass
+		// Progress
+		totalContacts: integer("total_contacts").notNull().default(0),
+		processedContacts: integer("processed_contacts").notNull().default(0),
+		updatedContacts: integer("updated_contacts").notNull().default(0),
+		errorMessage: text("error_message"),
+		startedAt: timestamp("started_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+	},
+	(table) => [
+		uniqueIndex("heat_score_run_organization_key_unique").on(
+			table.organizationId,
+			table.key,
+		),
+		index("heat_score_run_organization_started_idx").on(
+			table.organizationId,
+			table.startedAt,
+		),
+	],
+);
+
 /**
  * Contact agreement table - Tracks agreements, promises, and commitments made with contacts
  * Critical for maintaining consistency across conversations
@@ -921,9 +1253,10 @@ export const contactNoteTable = pgTable(
 			.$type<ContactNoteType>()
 			.notNull()
 			.default(ContactNoteType.general),
-		createdById: uuid("created_by_id")
-			.notNull()
-			.references(() => userTable.id, { onDelete: "cascade" }),
+		// Null when the note was written by an AI agent
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.notNull()
 			.defaultNow(),
@@ -953,9 +1286,19 @@ export const channelConfigTable = pgTable(
 			.$type<ChannelType>()
 			.notNull(),
 		enabled: boolean("enabled").notNull().default(false),
-		credentials: text("credentials"), // JSON with encrypted keys
+		credentials: text("credentials"), // Encrypted JSON, see lib/credentials/vault
+		// Provider account receiving webhooks (phone_number_id, page id, Twilio number, inbound email)
+		externalAccountId: text("external_account_id"),
 		autoReply: boolean("auto_reply").notNull().default(true),
 		businessHoursOnly: boolean("business_hours_only").notNull().default(false),
+		// Applied outside business hours when businessHoursOnly is set
+		afterHoursAction: text("after_hours_action", {
+			enum: enumToPgEnum(AfterHoursAction),
+		})
+			.$type<AfterHoursAction>()
+			.notNull()
+			.default(AfterHoursAction.awayMessage),
+		awayMessage: text("away_message"), // Overrides the organization away message
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.notNull()
 			.defaultNow(),
@@ -966,6 +1309,11 @@ export const channelConfigTable = pgTable(
 	},
 	(table) => [
 		index("channel_config_organization_id_idx").on(table.organizationId),
+		// Resolve organization from inbound webhooks
+		index("channel_config_type_account_idx").on(
+			table.channelType,
+			table.externalAccountId,
+		),
 		// Unique constraint: one config per channel per organization
 		uniqueIndex("channel_config_org_type_idx").on(
 			table.organizationId,
@@ -1003,6 +1351,13 @@ export const conversationTable = pgTable(
 			onDelete: "set null",
 		}),
 		transferReason: text("transfer_reason"),
+		transferredAt: timestamp("transferred_at", { withTimezone: true }),
+		// Last away message sent, to avoid repeating it on every message
+		awayMessageSentAt: timestamp("away_message_sent_at", {
+			withTimezone: true,
+		}),
+		// Last time a human agent opened the conversation (inbox unread counts)
+		lastReadAt: timestamp("last_read_at", { withTimezone: true }),
 		// Tracking
 		messageCount: integer("message_count").notNull().default(0),
 		lastMessageAt: timestamp("last_message_at", { withTimezone: true }),
@@ -1026,6 +1381,11 @@ export const conversationTable = pgTable(
 		index("conversation_last_message_idx").on(table.lastMessageAt),
 		// Composite for active conversations by org
 		index("conversation_org_status_idx").on(table.organizationId, table.status),
+		// Composite for the human inbox
+		index("conversation_org_transferred_idx").on(
+			table.organizationId,
+			table.transferredToHuman,
+		),
 	],
 );
 
@@ -1067,6 +1427,13 @@ export const conversationMessageTable = pgTable(
 		creditsUsed: integer("credits_used"),
 		// Actions triggered
 		actionTriggered: text("action_triggered"), // JSON array of actions
+		// Knowledge chunks the reply was grounded on
+		citations: text("citations"), // JSON array of citations
+		// Inbound message an AI reply answers, so a retried reply job finds it
+		replyToId: uuid("reply_to_id").references(
+			(): AnyPgColumn => conversationMessageTable.id,
+			{ onDelete: "set null" },
+		),
 		// Status
 		deliveryStatus: text("delivery_status", {
 			enum: enumToPgEnum(MessageDeliveryStatus),
@@ -1083,8 +1450,14 @@ export const conversationMessageTable = pgTable(
 	(table) => [
 		index("conversation_message_conversation_id_idx").on(table.conversationId),
 		index("conversation_message_created_at_idx").on(table.createdAt),
-		index("conversation_message_external_id_idx").on(table.externalId),
+		// Idempotency for provider webhooks (NULLs are not considered equal)
+		uniqueIndex("conversation_message_channel_external_id_idx").on(
+			table.channel,
+			table.externalId,
+		),
 		index("conversation_message_channel_idx").on(table.channel),
+		// One AI reply per inbound message
+		uniqueIndex("conversation_message_reply_to_id_idx").on(table.replyToId),
 		// Composite for loading conversation messages
 		index("conversation_message_conv_created_idx").on(
 			table.conversationId,
@@ -1121,7 +1494,7 @@ export const agentTable = pgTable(
 		systemPrompt: text("system_prompt").notNull(),
 		temperature: integer("temperature").default(70), // 0-100, stored as integer
 		maxTokens: integer("max_tokens").default(2000),
-		model: text("model").notNull().default("gpt-4"),
+		model: text("model").notNull().default("gpt-4"), // "<provider>:<modelId>" or bare id (claude-* → anthropic, else openai)
 		// Behavior
 		objectives: text("objectives"), // JSON array
 		escalationRules: text("escalation_rules"), // JSON
@@ -1185,6 +1558,94 @@ export const agentAssignmentTable = pgTable(
 	],
 );
 
+/**
+ * Knowledge document table - PDFs, Markdown files and web pages agents can answer from
+ */
+export const knowledgeDocumentTable = pgTable(
+	"knowledge_document",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		// Null = shared by every agent of the organization
+		agentId: uuid("agent_id").references(() => agentTable.id, {
+			onDelete: "cascade",
+		}),
+		title: text("title").notNull(),
+		sourceType: text("source_type", {
+			enum: enumToPgEnum(KnowledgeSourceType),
+		})
+			.$type<KnowledgeSourceType>()
+			.notNull(),
+		// Uploaded files live in the knowledge bucket, web pages are fetched
+		storagePath: text("storage_path"),
+		sourceUrl: text("source_url"),
+		mimeType: text("mime_type"),
+		fileSize: integer("file_size"),
+		// Ingestion
+		status: text("status", { enum: enumToPgEnum(KnowledgeDocumentStatus) })
+			.$type<KnowledgeDocumentStatus>()
+			.notNull()
+			.default(KnowledgeDocumentStatus.pending),
+		errorMessage: text("error_message"),
+		chunkCount: integer("chunk_count").notNull().default(0),
+		processedAt: timestamp("processed_at", { withTimezone: true }),
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("knowledge_document_organization_id_idx").on(table.organizationId),
+		index("knowledge_document_agent_id_idx").on(table.agentId),
+		index("knowledge_document_status_idx").on(table.status),
+	],
+);
+
+/**
+ * Knowledge chunk table - Embedded passages of a knowledge document (pgvector)
+ */
+export const knowledgeChunkTable = pgTable(
+	"knowledge_chunk",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		documentId: uuid("document_id")
+			.notNull()
+			.references(() => knowledgeDocumentTable.id, { onDelete: "cascade" }),
+		// Denormalized for retrieval without a join
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		chunkIndex: integer("chunk_index").notNull(),
+		content: text("content").notNull(),
+		// Must match knowledgeConfig.embeddingDimensions
+		embedding: vector("embedding", { dimensions: 1536 }).notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		index("knowledge_chunk_document_id_idx").on(table.documentId),
+		index("knowledge_chunk_organization_id_idx").on(table.organizationId),
+		uniqueIndex("knowledge_chunk_document_index_idx").on(
+			table.documentId,
+			table.chunkIndex,
+		),
+		// Approximate nearest neighbour search on cosine distance
+		index("knowledge_chunk_embedding_idx").using(
+			"hnsw",
+			table.embedding.op("vector_cosine_ops"),
+		),
+	],
+);
+
 /**
  * Form table - Form builder for lead capture
  */
@@ -1439,7 +1900,7 @@ export const inventorySyncConfigTable = pgTable(
 			.notNull()
 			.references(() => organizationTable.id, { onDelete: "cascade" }),
 		source: text("source").notNull(), // shopify, woocommerce, custom_api, csv
-		credentials: text("credentials").notNull(), // JSON encrypted
+		credentials: text("credentials").notNull(), // Encrypted JSON, see lib/credentials/vault
 		syncSchedule: text("sync_schedule"), // Cron expression
 		autoSync: boolean("auto_sync").notNull().default(false),
 		fieldMapping: text("field_mapping"), // JSON - maps external fields to our schema
@@ -1457,3 +1918,776 @@ export const inventorySyncConfigTable = pgTable(
 		index("inventory_sync_config_source_idx").on(table.source),
 	],
 );
+
+/**
+ * Quote table - Price quotes sent to contacts, accepted or declined through a public link
+ */
+export const quoteTable = pgTable(
+	"quote",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		conversationId: uuid("conversation_id").references(
+			() => conversationTable.id,
+			{ onDelete: "set null" },
+		),
+		number: text("number").notNull(), // Q-XXXXXXXX
+		status: text("status", { enum: enumToPgEnum(QuoteStatus) })
+			.$type<QuoteStatus>()
+			.notNull()
+			.default(QuoteStatus.draft),
+		// Totals (in cents)
+		currency: text("currency").notNull().default("usd"),
+		subtotal: integer("subtotal").notNull().default(0), // Before discounts
+		discountTotal: integer("discount_total").notNull().default(0),
+		total: integer("total").notNull().default(0),
+		notes: text("notes"),
+		validUntil: timestamp("valid_until", { withTimezone: true }),
+		// Public accept / decline link
+		publicToken: text("public_token").notNull(),
+		pdfPath: text("pdf_path"),
+		// Agreement tracking the quote on the contact
+		agreementId: uuid("agreement_id").references(
+			() => contactAgreementTable.id,
+			{ onDelete: "set null" },
+		),
+		sentAt: timestamp("sent_at", { withTimezone: true }),
+		respondedAt: timestamp("responded_at", { withTimezone: true }),
+		declineReason: text("decline_reason"),
+		// Null when created by an AI agent
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("quote_organization_id_idx").on(table.organizationId),
+		index("quote_contact_id_idx").on(table.contactId),
+		index("quote_status_idx").on(table.status),
+		uniqueIndex("quote_org_number_idx").on(table.organizationId, table.number),
+		uniqueIndex("quote_public_token_idx").on(table.publicToken),
+	],
+);
+
+/**
+ * Quote item table - Line items of a quote, priced from the product catalog
+ */
+export const quoteItemTable = pgTable(
+	"quote_item",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		quoteId: uuid("quote_id")
+			.notNull()
+			.references(() => quoteTable.id, { onDelete: "cascade" }),
+		productId: uuid("product_id").references(() => productTable.id, {
+			onDelete: "set null",
+		}),
+		// Snapshot at quote time, products may change later
+		sku: text("sku"),
+		description: text("description").notNull(),
+		quantity: integer("quantity").notNull(),
+		unitPrice: integer("unit_price").notNull(), // in cents
+		compareAtPrice: integer("compare_at_price"), // Original price for discounts
+		total: integer("total").notNull(), // unitPrice * quantity
+		position: integer("position").notNull().default(0),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		index("quote_item_quote_id_idx").on(table.quoteId),
+		index("quote_item_product_id_idx").on(table.productId),
+	],
+);
+
+/**
+ * Availability table - Working hours used to propose meeting slots.
+ * Belongs to a user or an agent; a row with neither is the organization default.
+ */
+export const availabilityTable = pgTable(
+	"availability",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		userId: uuid("user_id").references(() => userTable.id, {
+			onDelete: "cascade",
+		}),
+		agentId: uuid("agent_id").references(() => agentTable.id, {
+			onDelete: "cascade",
+		}),
+		timezone: text("timezone").notNull().default("UTC"), // IANA name
+		workingHours: text("working_hours").notNull(), // JSON: { "1": [{ "start": "09:00", "end": "17:00" }] } keyed by weekday (0 = Sunday)
+		slotDurationMinutes: integer("slot_duration_minutes").notNull().default(30),
+		bufferMinutes: integer("buffer_minutes").notNull().default(0), // Kept free around meetings
+		minNoticeMinutes: integer("min_notice_minutes").notNull().default(120),
+		maxDaysAhead: integer("max_days_ahead").notNull().default(14),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("availability_organization_id_idx").on(table.organizationId),
+		index("availability_user_id_idx").on(table.userId),
+		index("availability_agent_id_idx").on(table.agentId),
+	],
+);
+
+/**
+ * Meeting table - Meetings booked with contacts, by agents or team members
+ */
+export const meetingTable = pgTable(
+	"meeting",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => contactTable.id, { onDelete: "cascade" }),
+		conversationId: uuid("conversation_id").references(
+			() => conversationTable.id,
+			{ onDelete: "set null" },
+		),
+		// Whose availability the meeting uses
+		agentId: uuid("agent_id").references(() => agentTable.id, {
+			onDelete: "set null",
+		}),
+		hostUserId: uuid("host_user_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		title: text("title").notNull(),
+		description: text("description"),
+		status: text("status", { enum: enumToPgEnum(MeetingStatus) })
+			.$type<MeetingStatus>()
+			.notNull()
+			.default(MeetingStatus.proposed),
+		durationMinutes: integer("duration_minutes").notNull(),
+		proposedSlots: text("proposed_slots"), // JSON array of ISO start times
+		// Set once confirmed
+		startsAt: timestamp("starts_at", { withTimezone: true }),
+		endsAt: timestamp("ends_at", { withTimezone: true }),
+		timezone: text("timezone").notNull(), // Contact timezone, used in messages
+		location: text("location"),
+		meetingUrl: text("meeting_url"),
+		// Calendar provider event
+		provider: text("provider"),
+		externalEventId: text("external_event_id"),
+		// Incremented on each invite update (ICS SEQUENCE)
+		inviteSequence: integer("invite_sequence").notNull().default(0),
+		confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
+		reminderSentAt: timestamp("reminder_sent_at", { withTimezone: true }),
+		cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+		cancelReason: text("cancel_reason"),
+		// Null when booked by an AI agent
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("meeting_organization_id_idx").on(table.organizationId),
+		index("meeting_contact_id_idx").on(table.contactId),
+		index("meeting_conversation_id_idx").on(table.conversationId),
+		index("meeting_status_starts_at_idx").on(table.status, table.startsAt),
+	],
+);
+
+/**
+ * Business hours table - Weekly opening hours and holidays of an organization,
+ * used by channels that only auto-reply during business hours
+ */
+export const businessHoursTable = pgTable("business_hours", {
+	id: uuid("id").primaryKey().defaultRandom(),
+	organizationId: uuid("organization_id")
+		.notNull()
+		.unique()
+		.references(() => organizationTable.id, { onDelete: "cascade" }),
+	timezone: text("timezone").notNull().default("UTC"), // IANA name
+	weeklyHours: text("weekly_hours").notNull(), // JSON, same format as availability working hours
+	holidays: text("holidays"), // JSON: [{ "date": "2026-12-25", "name": "Christmas" }]
+	awayMessage: text("away_message"),
+	createdAt: timestamp("created_at", { withTimezone: true })
+		.notNull()
+		.defaultNow(),
+	updatedAt: timestamp("updated_at", { withTimezone: true })
+		.notNull()
+		.defaultNow()
+		.$onUpdate(() => new Date()),
+});
+
+/**
+ * Credential audit log - Who changed which secret fields of an integration, and when.
+ * Never stores secret values.
+ */
+export const credentialAuditLogTable = pgTable(
+	"credential_audit_log",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		resourceType: text("resource_type", {
+			enum: enumToPgEnum(CredentialResourceType),
+		})
+			.$type<CredentialResourceType>()
+			.notNull(),
+		resourceId: uuid("resource_id").notNull(), // Kept after the record is deleted
+		action: text("action", { enum: enumToPgEnum(CredentialAuditAction) })
+			.$type<CredentialAuditAction>()
+			.notNull(),
+		fields: text("fields").notNull().default("[]"), // JSON array of changed field names
+		keyId: text("key_id"), // Master key encrypting the data key after the change
+		// Null for system changes (key rotation)
+		actorId: uuid("actor_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		index("credential_audit_log_organization_id_idx").on(table.organizationId),
+		index("credential_audit_log_resource_idx").on(
+			table.resourceType,
+			table.resourceId,
+		),
+	],
+);
+
+/**
+ * Pipeline table - Sales pipelines of an organization, shown as kanban boards
+ */
+export const pipelineTable = pgTable(
+	"pipeline",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		name: text("name").notNull(),
+		isDefault: boolean("is_default").notNull().default(false),
+		position: integer("position").notNull().default(0),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("pipeline_organization_id_idx").on(table.organizationId),
+		// One default pipeline per organization
+		uniqueIndex("pipeline_org_default_idx")
+			.on(table.organizationId)
+			.where(sql`${table.isDefault}`),
+	],
+);
+
+/**
+ * Pipeline stage table - Columns of a pipeline board
+ */
+export const pipelineStageTable = pgTable(
+	"pipeline_stage",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		pipelineId: uuid("pipeline_id")
+			.notNull()
+			.references(() => pipelineTable.id, { onDelete: "cascade" }),
+		name: text("name").notNull(),
+		position: integer("position").notNull().default(0),
+		type: text("type", { enum: enumToPgEnum(PipelineStageType) })
+			.$type<PipelineStageType>()
+			.notNull()
+			.default(PipelineStageType.open),
+		probability: integer("probability").notNull().default(0), // 0-100, weights the forecast
+		rottingDays: integer("rotting_days"), // Days in stage before a deal is rotting, null = never
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("pipeline_stage_pipeline_id_idx").on(table.pipelineId),
+		check(
+			"pipeline_stage_probability_range",
+			sql`${table.probability} BETWEEN 0 AND 100`,
+		),
+	],
+);
+
+/**
+ * Deal table - An opportunity moving through a pipeline, separate from the
+ * lead or contact it is sold to
+ */
+export const dealTable = pgTable(
+	"deal",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		pipelineId: uuid("pipeline_id")
+			.notNull()
+			.references(() => pipelineTable.id, { onDelete: "cascade" }),
+		// Stages with deals are deleted by moving their deals first
+		stageId: uuid("stage_id")
+			.notNull()
+			.references(() => pipelineStageTable.id, { onDelete: "restrict" }),
+		leadId: uuid("lead_id").references(() => leadTable.id, {
+			onDelete: "set null",
+		}),
+		contactId: uuid("contact_id").references(() => contactTable.id, {
+			onDelete: "set null",
+		}),
+		title: text("title").notNull(),
+		status: text("status", { enum: enumToPgEnum(DealStatus) })
+			.$type<DealStatus>()
+			.notNull()
+			.default(DealStatus.open),
+		amount: integer("amount").notNull().default(0), // In cents
+		currency: text("currency").notNull().default("usd"),
+		expectedCloseDate: timestamp("expected_close_date", {
+			withTimezone: true,
+		}),
+		position: integer("position").notNull().default(0), // Order in the stage column
+		notes: text("notes"),
+		ownerId: uuid("owner_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		stageChangedAt: timestamp("stage_changed_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		closedAt: timestamp("closed_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("deal_organization_id_idx").on(table.organizationId),
+		index("deal_pipeline_stage_idx").on(table.pipelineId, table.stageId),
+		index("deal_lead_id_idx").on(table.leadId),
+		index("deal_contact_id_idx").on(table.contactId),
+	],
+);
+
+/**
+ * Deal stage history table - Every stage change of a deal
+ */
+export const dealStageHistoryTable = pgTable(
+	"deal_stage_history",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		dealId: uuid("deal_id")
+			.notNull()
+			.references(() => dealTable.id, { onDelete: "cascade" }),
+		// Null when the deal was created, or the stage was deleted
+		fromStageId: uuid("from_stage_id").references(() => pipelineStageTable.id, {
+			onDelete: "set null",
+		}),
+		toStageId: uuid("to_stage_id").references(() => pipelineStageTable.id, {
+			onDelete: "set null",
+		}),
+		// Stage names when the change happened, stages can be renamed or deleted
+		fromStageName: text("from_stage_name"),
+		toStageName: text("to_stage_name").notNull(),
+		// Null for automatic changes
+		changedById: uuid("changed_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [index("deal_stage_history_deal_id_idx").on(table.dealId)],
+);
+
+// ============================================================================
+// PUBLIC API TABLES
+// ============================================================================
+
+/**
+ * API key table - Organization keys for the public REST API.
+ * Only a hash of the key is stored, the key is shown once on creation.
+ */
+export const apiKeyTable = pgTable(
+	"api_key",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		name: text("name").notNull(),
+		// First characters of the key, to tell keys apart in the UI
+		prefix: text("prefix").notNull(),
+		keyHash: text("key_hash").notNull(), // SHA-256 hex
+		scopes: text("scopes").notNull().default("[]"), // JSON array of ApiKeyScope
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+		expiresAt: timestamp("expires_at", { withTimezone: true }),
+		revokedAt: timestamp("revoked_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("api_key_organization_id_idx").on(table.organizationId),
+		uniqueIndex("api_key_key_hash_idx").on(table.keyHash),
+	],
+);
+
+// ============================================================================
+// WEBHOOK TABLES
+// ============================================================================
+
+/**
+ * Webhook endpoint table - Organization URLs receiving signed event payloads.
+ * The signing secret is encrypted by the credentials vault.
+ */
+export const webhookEndpointTable = pgTable(
+	"webhook_endpoint",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		url: text("url").notNull(),
+		description: text("description"),
+		events: text("events").notNull().default("[]"), // JSON array of WebhookEventType
+		secret: text("secret").notNull(), // Encrypted { secret }
+		active: boolean("active").notNull().default(true),
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("webhook_endpoint_organization_id_idx").on(table.organizationId),
+	],
+);
+
+/**
+ * Webhook delivery table - One row per event sent to an endpoint, updated on
+ * each attempt. Replays are new rows with the same event id.
+ */
+export const webhookDeliveryTable = pgTable(
+	"webhook_delivery",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		endpointId: uuid("endpoint_id")
+			.notNull()
+			.references(() => webhookEndpointTable.id, { onDelete: "cascade" }),
+		eventId: uuid("event_id").notNull(),
+		eventType: text("event_type", { enum: enumToPgEnum(WebhookEventType) })
+			.$type<WebhookEventType>()
+			.notNull(),
+		payload: text("payload").notNull(), // JSON body sent to the endpoint
+		status: text("status", { enum: enumToPgEnum(WebhookDeliveryStatus) })
+			.$type<WebhookDeliveryStatus>()
+			.notNull()
+			.default(WebhookDeliveryStatus.pending),
+		attempts: integer("attempts").notNull().default(0),
+		// Outcome of the last attempt
+		responseStatus: integer("response_status"),
+		responseBody: text("response_body"), // Truncated
+		error: text("error"),
+		durationMs: integer("duration_ms"),
+		isTest: boolean("is_test").notNull().default(false),
+		replayOfId: uuid("replay_of_id"),
+		lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+		deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("webhook_delivery_organization_id_idx").on(table.organizationId),
+		// Composite for the delivery log of an endpoint
+		index("webhook_delivery_endpoint_created_at_idx").on(
+			table.endpointId,
+			table.createdAt,
+		),
+	],
+);
+
+// ============================================================================
+// CUSTOM FIELD TABLES
+// ============================================================================
+
+/**
+ * Custom field definition table - Typed fields an organization adds to its
+ * contacts or leads. Values are stored in the `custom_fields` JSON of each
+ * record, keyed by `key`.
+ */
+export const customFieldDefinitionTable = pgTable(
+	"custom_field_definition",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		entity: text("entity", { enum: enumToPgEnum(CustomFieldEntity) })
+			.$type<CustomFieldEntity>()
+			.notNull(),
+		key: text("key").notNull(), // Can't change once values are stored
+		label: text("label").notNull(),
+		type: text("type", { enum: enumToPgEnum(CustomFieldType) })
+			.$type<CustomFieldType>()
+			.notNull(),
+		options: text("options").notNull().default("[]"), // JSON array, choices of select fields
+		currency: text("currency"), // ISO 4217 code of currency fields
+		required: boolean("required").notNull().default(false),
+		position: integer("position").notNull().default(0),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		uniqueIndex("custom_field_definition_org_entity_key_idx").on(
+			table.organizationId,
+			table.entity,
+			table.key,
+		),
+	],
+);
+
+/**
+ * Saved view table - A named filter, column layout and sort of the contact or
+ * lead list, personal to its creator or shared with the organization.
+ */
+export const savedViewTable = pgTable(
+	"saved_view",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		entity: text("entity", { enum: enumToPgEnum(SavedViewEntity) })
+			.$type<SavedViewEntity>()
+			.notNull(),
+		name: text("name").notNull(),
+		visibility: text("visibility", {
+			enum: enumToPgEnum(SavedViewVisibility),
+		})
+			.$type<SavedViewVisibility>()
+			.notNull()
+			.default(SavedViewVisibility.personal),
+		// Shared views are kept when their creator leaves
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		filter: text("filter"), // JSON filter group, see lib/filters
+		columns: text("columns").notNull().default("[]"), // JSON array of visible column ids
+		sortField: text("sort_field"),
+		sortOrder: text("sort_order", { enum: ["asc", "desc"] }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("saved_view_org_entity_idx").on(table.organizationId, table.entity),
+		index("saved_view_created_by_id_idx").on(table.createdById),
+	],
+);
+
+// ============================================================================
+// IMPORT TABLES
+// ============================================================================
+
+/**
+ * Import job table - A CSV / Excel file of contacts or leads being mapped,
+ * previewed and processed in chunks by the job queue.
+ */
+export const importJobTable = pgTable(
+	"import_job",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id")
+			.notNull()
+			.references(() => organizationTable.id, { onDelete: "cascade" }),
+		entity: text("entity", { enum: enumToPgEnum(ImportEntity) })
+			.$type<ImportEntity>()
+			.notNull(),
+		status: text("status", { enum: enumToPgEnum(ImportStatus) })
+			.$type<ImportStatus>()
+			.notNull()
+			.default(ImportStatus.mapping),
+		// Uploaded file in the documents bucket
+		fileName: text("file_name").notNull(),
+		storagePath: text("storage_path").notNull(),
+		mimeType: text("mime_type").notNull(),
+		fileSize: integer("file_size").notNull(),
+		headers: text("headers").notNull().default("[]"), // JSON array of column names
+		mapping: text("mapping").notNull().default("[]"), // JSON array, target field per column (null = ignored)
+		// Rows matching an existing contact
+		duplicateAction: text("duplicate_action", {
+			enum: enumToPgEnum(ImportDuplicateAction),
+		})
+			.$type<ImportDuplicateAction>()
+			.notNull()
+			.default(ImportDuplicateAction.skip),
+		decisions: text("decisions").notNull().default("{}"), // JSON, per row overrides of duplicateAction
+		// Progress
+		totalRows: integer("total_rows").notNull().default(0),
+		processedRows: integer("processed_rows").notNull().default(0),
+		createdCount: integer("created_count").notNull().default(0),
+		mergedCount: integer("merged_count").notNull().default(0),
+		skippedCount: integer("skipped_count").notNull().default(0),
+		errorCount: integer("error_count").notNull().default(0),
+		errorMessage: text("error_message"),
+		createdById: uuid("created_by_id").references(() => userTable.id, {
+			onDelete: "set null",
+		}),
+		startedAt: timestamp("started_at", { withTimezone: true }),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [index("import_job_organization_id_idx").on(table.organizationId)],
+);
+
+/**
+ * Import row error table - Rows an import could not process, for the
+ * downloadable error report
+ */
+export const importRowErrorTable = pgTable(
+	"import_row_error",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		importId: uuid("import_id")
+			.notNull()
+			.references(() => importJobTable.id, { onDelete: "cascade" }),
+		rowNumber: integer("row_number").notNull(), // Row of the file, the header is row 1
+		values: text("values").notNull(), // JSON array of the original cells
+		errors: text("errors").notNull(), // JSON array of messages
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => [
+		index("import_row_error_import_id_row_number_idx").on(
+			table.importId,
+			table.rowNumber,
+		),
+	],
+);
+
+// ============================================================================
+// BACKGROUND JOBS TABLE
+// ============================================================================
+
+/**
+ * Job table - Postgres-backed queue for AI replies, deliveries, webhooks and syncs
+ */
+export const jobTable = pgTable(
+	"job",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		organizationId: uuid("organization_id").references(
+			() => organizationTable.id,
+			{ onDelete: "cascade" },
+		),
+		type: text("type", { enum: enumToPgEnum(JobType) })
+			.$type<JobType>()
+			.notNull(),
+		payload: text("payload").notNull(), // JSON
+		status: text("status", { enum: enumToPgEnum(JobStatus) })
+			.$type<JobStatus>()
+			.notNull()
+			.default(JobStatus.pending),
+		// Prevents enqueueing the same work twice (e.g. one reply per message)
+		uniqueKey: text("unique_key"),
+		// Retries
+		attempts: integer("attempts").notNull().default(0),
+		maxAttempts: integer("max_attempts").notNull().default(5),
+		runAt: timestamp("run_at", { withTimezone: true }).notNull().defaultNow(),
+		lastError: text("last_error"),
+		// Worker lock
+		lockedAt: timestamp("locked_at", { withTimezone: true }),
+		lockedBy: text("locked_by"),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.notNull()
+			.defaultNow(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.notNull()
+			.defaultNow()
+			.$onUpdate(() => new Date()),
+	},
+	(table) => [
+		index("job_organization_id_idx").on(table.organizationId),
+		// Composite for claiming due jobs
+		index("job_status_run_at_idx").on(table.status, table.runAt),
+		index("job_type_idx").on(table.type),
+		uniqueIndex("job_unique_key_idx").on(table.uniqueKey),
+	],
+);
@@ -1,8 +1,9 @@
 import { render } from "@react-email/render";
-import { sendEmail } from "./resend";
+import { type EmailAttachment, sendEmail } from "./resend";
 import type { ConfirmEmailAddressChangeEmailProps } from "./templates/confirm-email-address-change-email";
 import type { ContactFormEmailProps } from "./templates/contact-form-email";
 import type { DisputeReceivedEmailProps } from "./templates/dispute-received-email";
+import type { MeetingInviteEmailProps } from "./templates/meeting-invite-email";
 import type { OrganizationInvitationEmailProps } from "./templates/organization-invitation-email";
 import type { PasswordResetEmailProps } from "./templates/password-reset-email";
 import type { PaymentFailedEmailProps } from "./templates/payment-failed-email";
@@ -191,3 +192,42 @@ export async function sendDisputeReceivedEmail(
 		text,
 	});
 }
+
+export async function sendMeetingInviteEmail(
+	input: MeetingInviteEmailProps & {
+		recipient: string;
+		// ICS file (invite, update or cancellation)
+		calendarEvent?: string;
+	},
+): Promise<void> {
+	const { MeetingInviteEmail } = await import(
+		"./templates/meeting-invite-email"
+	);
+	const component = MeetingInviteEmail(input);
+	const html = await render(component);
+	const text = await render(component, { plainText: true });
+
+	const attachments: EmailAttachment[] | undefined = input.calendarEvent
+		? [
+				{
+					filename: "invite.ics",
+					content: Buffer.from(input.calendarEvent),
+					contentType: `text/calendar; method=${input.kind === "cancellation" ? "CANCEL" : "REQUEST"}`,
+				},
+			]
+		: undefined;
+
+	const subjects: Record<MeetingInviteEmailProps["kind"], string> = {
+		invite: `Meeting confirmed: ${input.title}`,
+		reminder: `Reminder: ${input.title}`,
+		cancellation: `Meeting cancelled: ${input.title}`,
+	};
+
+	await sendEmail({
+		recipient: input.recipient,
+		subject: subjects[input.kind],
+		html,
+		text,
+		attachments,
+	});
+}
@@ -47,12 +47,19 @@ function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+export type EmailAttachment = {
+	filename: string;
+	content: string | Buffer;
+	contentType?: string;
+};
+
 export type EmailPayload = {
 	recipient: string;
 	subject: string;
 	text: string;
 	html: string;
 	replyTo?: string;
+	attachments?: EmailAttachment[];
 };
 
 /**
@@ -108,6 +115,7 @@ export async function sendEmail(
 				html: payload.html,
 				text: payload.text,
 				replyTo: sanitizedReplyTo,
+				attachments: payload.attachments,
 			});
 
 			if (response.error) {
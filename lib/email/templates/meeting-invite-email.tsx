@@ -0,0 +1,116 @@
+import {
+	Body,
+	Button,
+	Container,
+	Head,
+	Heading,
+	Hr,
+	Html,
+	Preview,
+	Section,
+	Text,
+} from "@react-email/components";
+import { Tailwind } from "@react-email/tailwind";
+import type * as React from "react";
+
+export type MeetingInviteEmailProps = {
+	kind: "invite" | "reminder" | "cancellation";
+	organizationName: string;
+	recipientName: string;
+	title: string;
+	when: string; // Formatted in the recipient's timezone
+	timezone: string;
+	location?: string | null;
+	meetingUrl?: string | null;
+};
+
+const headings: Record<MeetingInviteEmailProps["kind"], string> = {
+	invite: "Meeting confirmed",
+	reminder: "Meeting reminder",
+	cancellation: "Meeting cancelled",
+};
+
+function MeetingInviteEmail({
+	kind,
+	organizationName,
+	recipientName,
+	title,
+	when,
+	timezone,
+	location,
+	meetingUrl,
+}: MeetingInviteEmailProps): React.JSX.Element {
+	return (
+		<Html>
+			<Head />
+			<Preview>
+				{headings[kind]}: {title}
+			</Preview>
+			<Tailwind>
+				<Body className="m-auto bg-white px-2 font-sans">
+					<Container className="mx-auto my-[40px] max-w-[465px] rounded-sm border border-[#eaeaea] border-solid p-[20px]">
+						<Heading className="mx-0 my-[30px] p-0 text-center font-normal text-[24px] text-black">
+							{headings[kind]}
+						</Heading>
+						<Text className="text-[14px] text-black leading-[24px]">
+							Hello {recipientName},
+						</Text>
+						<Text className="text-[14px] text-black leading-[24px]">
+							{kind === "invite" &&
+								`Your meeting with ${organizationName} is booked. The calendar invite is attached.`}
+							{kind === "reminder" &&
+								`This is a reminder of your upcoming meeting with ${organizationName}.`}
+							{kind === "cancellation" &&
+								`Your meeting with ${organizationName} has been cancelled.`}
+						</Text>
+
+						<Section className="my-[24px] rounded-md border border-[#eaeaea] border-solid bg-[#f9f9f9] p-[16px]">
+							<Text className="m-0 text-[14px] text-black leading-[24px]">
+								<strong>{title}</strong>
+							</Text>
+							<Text className="m-0 text-[14px] text-black leading-[24px]">
+								{when} ({timezone})
+							</Text>
+							{location && (
+								<Text className="m-0 text-[14px] text-black leading-[24px]">
+									{location}
+								</Text>
+							)}
+						</Section>
+
+						{meetingUrl && kind !== "cancellation" && (
+							<Section className="my-[32px] text-center">
+								<Button
+									href={meetingUrl}
+									className="rounded-sm bg-[#000000] px-5 py-3 text-center font-semibold text-[12px] text-white no-underline"
+								>
+									Join meeting
+								</Button>
+							</Section>
+						)}
+
+						<Hr className="mx-0 my-[26px] w-full border border-[#eaeaea] border-solid" />
+						<Text className="text-[#666666] text-[12px] leading-[24px]">
+							You receive this email because you booked a meeting with{" "}
+							{organizationName}.
+						</Text>
+					</Container>
+				</Body>
+			</Tailwind>
+		</Html>
+	);
+}
+
+MeetingInviteEmail.PreviewProps = {
+	kind: "invite",
+	organizationName: "Acme",
+	recipientName: "Jane Doe",
+	title: "Product demo",
+	when: "Tuesday, October 21, 2026 at 10:00 AM",
+	timezone: "America/Mexico_City",
+	location: null,
+	meetingUrl: "https://meet.example.com/abc",
+} satisfies MeetingInviteEmailProps;
+
+export default MeetingInviteEmail;
+export { MeetingInviteEmail };
@@ -1,15 +1,19 @@
-import type { Action } from "@/lib/ember/core/decision-maker";
 import { logger } from "@/lib/logger";
+import { createNoteHandler } from "./handlers/create-note";
+import { createQuoteHandler } from "./handlers/create-quote";
+import { scheduleMeetingHandler } from "./handlers/schedule-meeting";
+import { searchProductHandler } from "./handlers/search-product";
+import { sendDocumentHandler } from "./handlers/send-document";
+import { sendLinkHandler } from "./handlers/send-link";
+import { transferToHumanHandler } from "./handlers/transfer-to-human";
+import { updateTagsHandler } from "./handlers/update-tags";
+import type { Action, ActionContext, ActionHandler } from "./types";
 
 /**
- * Actions Executor - Orchestrates execution of actions decided by AI
+ * Actions Executor - Orchestrates execution of actions requested by AI
  */
 
-export interface ActionHandler {
-	name: string;
-	execute: (params: Record<string, unknown>) => Promise<unknown>;
-	validate: (params: Record<string, unknown>) => boolean;
-}
+export type { Action, ActionContext, ActionHandler } from "./types";
 
 class ActionsExecutor {
 	private handlers: Map<string, ActionHandler> = new Map();
@@ -25,7 +29,7 @@ class ActionsExecutor {
 	/**
 	 * Execute an action
 	 */
-	async execute(action: Action): Promise<unknown> {
+	async execute(action: Action, context: ActionContext): Promise<unknown> {
 		const handler = this.handlers.get(action.type);
 
 		if (!handler) {
@@ -33,10 +37,11 @@ class ActionsExecutor {
 			throw new Error(`No handler registered for action: ${action.type}`);
 		}
 
-		// Validate params
-		if (!handler.validate(action.params)) {
+		// Validate params against the handler schema
+		const parsed = handler.parameters.safeParse(action.params);
+		if (!parsed.success) {
 			logger.error(
-				{ actionType: action.type, params: action.params },
+				{ actionType: action.type, params: action.params, error: parsed.error },
 				"Action params validation failed",
 			);
 			throw new Error(`Invalid params for action: ${action.type}`);
@@ -44,10 +49,10 @@ class ActionsExecutor {
 
 		try {
 			logger.info(
-				{ actionType: action.type, params: action.params },
+				{ actionType: action.type, params: parsed.data },
 				"Executing action",
 			);
-			const result = await handler.execute(action.params);
+			const result = await handler.execute(parsed.data, context);
 			logger.info({ actionType: action.type }, "Action executed successfully");
 			return result;
 		} catch (error) {
@@ -62,8 +67,18 @@ class ActionsExecutor {
 	/**
 	 * Execute multiple actions in parallel
 	 */
-	async executeAll(actions: Action[]): Promise<unknown[]> {
-		return Promise.all(actions.map((action) => this.execute(action)));
+	async executeAll(
+		actions: Action[],
+		context: ActionContext,
+	): Promise<unknown[]> {
+		return Promise.all(actions.map((action) => this.execute(action, context)));
+	}
+
+	/**
+	 * Get a registered handler
+	 */
+	getHandler(actionType: string): ActionHandler | undefined {
+		return this.handlers.get(actionType);
 	}
 
 	/**
@@ -84,12 +99,12 @@ class ActionsExecutor {
 // Singleton instance
 export const actionsExecutor = new ActionsExecutor();
 
-// Auto-register handlers
-import "./handlers/send-link";
-import "./handlers/send-document";
-import "./handlers/create-quote";
-import "./handlers/schedule-meeting";
-import "./handlers/transfer-to-human";
-import "./handlers/create-note";
-import "./handlers/update-tags";
-import "./handlers/search-product";
+// Register built-in handlers
+actionsExecutor.register(sendLinkHandler);
+actionsExecutor.register(sendDocumentHandler);
+actionsExecutor.register(createQuoteHandler);
+actionsExecutor.register(scheduleMeetingHandler);
+actionsExecutor.register(transferToHumanHandler);
+actionsExecutor.register(createNoteHandler);
+actionsExecutor.register(updateTagsHandler);
+actionsExecutor.register(searchProductHandler);
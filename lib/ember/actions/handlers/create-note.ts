@@ -1,35 +1,27 @@
+import { z } from "zod";
 import { db } from "@/lib/db";
 import { contactNoteTable } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "../executor";
+import { defineActionHandler } from "../types";
 
 /**
  * Create Note Action Handler
  * Creates an internal note on the contact record
  */
 
-actionsExecutor.register({
+export const createNoteHandler = defineActionHandler({
 	name: "create-note",
+	description:
+		"Save an internal note on the contact with an important fact learned in the conversation",
+	parameters: z.object({
+		content: z.string().min(1).describe("Note content"),
+	}),
 
-	validate(params): boolean {
-		return (
-			typeof params.contactId === "string" && typeof params.content === "string"
-		);
-	},
-
-	async execute(params) {
-		const { contactId, content, organizationId, createdById } = params as {
-			contactId: string;
-			content: string;
-			organizationId: string;
-			createdById: string;
-		};
-
+	async execute({ content }, { organizationId, contactId }) {
 		await db.insert(contactNoteTable).values({
 			organizationId,
 			contactId,
 			content,
 			type: "general",
-			createdById,
 		});
 
 		return { success: true };
@@ -1,53 +1,102 @@
-import { db } from "@/lib/db";
-import { conversationMessageTable } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "../executor";
+import { z } from "zod";
+import {
+	createQuote,
+	getQuotePublicUrl,
+	sendQuote,
+} from "@/lib/ember/quotes/quotes";
+import { logger } from "@/lib/logger";
+import { defineActionHandler } from "../types";
 
 /**
  * Create Quote Action Handler
- * Generates a quotation PDF and sends it to the contact
+ * Creates a quote priced from the inventory and sends its PDF to the contact.
+ * The model never sets prices: items outside the inventory are left unpriced
+ * in a draft the team reviews and sends.
  */
 
-actionsExecutor.register({
+export const createQuoteHandler = defineActionHandler({
 	name: "create-quote",
+	description:
+		"Create a price quote for the contact with the products or services they asked about. Products are priced from the inventory; items that are not in it are left for the team to price and send",
+	parameters: z.object({
+		items: z
+			.array(
+				z.object({
+					sku: z
+						.string()
+						.optional()
+						.describe("SKU of an inventory product, priced from the inventory"),
+					description: z
+						.string()
+						.optional()
+						.describe(
+							"Description of a service or item not in the inventory, priced by the team",
+						),
+					quantity: z.number().int().positive(),
+				}),
+			)
+			.min(1),
+		notes: z
+			.string()
+			.optional()
+			.describe("Terms or remarks shown on the quote"),
+	}),
 
-	validate(params): boolean {
-		return (
-			typeof params.conversationId === "string" &&
-			typeof params.contactId === "string"
-		);
-	},
+	async execute(
+		{ items, notes },
+		{ organizationId, conversationId, contactId },
+	) {
+		// Lines with a SKU must match an active product, priceQuoteItems throws
+		// otherwise. Lines without one are kept at 0 until the team prices them.
+		const customItems = items.filter((item) => !item.sku);
+		if (customItems.some((item) => !item.description)) {
+			throw new Error("Items without a SKU need a description");
+		}
 
-	async execute(params) {
-		const { conversationId, contactId, items } = params as {
-			conversationId: string;
-			contactId: string;
-			items: Array<{ description: string; quantity: number; price: number }>;
-		};
+		const quote = await createQuote({
+			organizationId,
+			contactId,
+			conversationId,
+			items: items.map((item) =>
+				item.sku
+					? {
+							sku: item.sku,
+							description: item.description,
+							quantity: item.quantity,
+						}
+					: {
+							description: item.description,
+							quantity: item.quantity,
+							unitPrice: 0,
+						},
+			),
+			notes,
+		});
 
-		// In production, this would:
-		// 1. Generate PDF quote using react-pdf or similar
-		// 2. Upload PDF to S3
-		// 3. Send PDF via channel manager
-		// 4. Create quote record in database
+		if (customItems.length > 0) {
+			logger.info(
+				{ organizationId, quoteId: quote.id, customItems: customItems.length },
+				"Quote with items outside the inventory kept as a draft for review",
+			);
 
-		// Placeholder implementation
-		const quoteNumber = `Q-${Date.now()}`;
+			return {
+				success: true,
+				status: quote.status,
+				quoteNumber: quote.number,
+				message:
+					"Some items are not in the inventory. The quote was saved for the team to price and send, let the contact know they will receive it soon",
+			};
+		}
 
-		await db.insert(conversationMessageTable).values({
-			conversationId,
-			direction: "outbound",
-			role: "assistant",
-			content: `Quote ${quoteNumber} generated and sent`,
-			contentType: "document",
-			channel: "web",
-			generatedByAi: true,
-			actionTriggered: JSON.stringify({
-				type: "create-quote",
-				quoteNumber,
-				items,
-			}),
-		} as unknown as typeof conversationMessageTable.$inferInsert);
-
-		return { success: true, quoteNumber };
+		const sent = await sendQuote(quote.id, organizationId);
+
+		return {
+			success: true,
+			status: sent.status,
+			quoteNumber: sent.number,
+			total: sent.total / 100,
+			currency: sent.currency,
+			url: getQuotePublicUrl(sent.publicToken),
+		};
 	},
 });
@@ -1,50 +1,121 @@
-import { db } from "@/lib/db";
-import { conversationMessageTable } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "../executor";
+import { z } from "zod";
+import { MeetingError } from "@/lib/ember/calendar/errors";
+import {
+	bookMeeting,
+	formatMeetingTime,
+	proposeMeetingSlots,
+} from "@/lib/ember/calendar/meetings";
+import { defineActionHandler } from "../types";
 
 /**
  * Schedule Meeting Action Handler
- * Creates a meeting/appointment booking
+ * Proposes free slots from the agent's availability, then books the one the contact picks
  */
 
-actionsExecutor.register({
+export const scheduleMeetingHandler = defineActionHandler({
 	name: "schedule-meeting",
+	description:
+		"Schedule a meeting, call or appointment with the contact. Call it without requestedTime to get free slots to offer, then with requestedTime once the contact picks or asks for a specific time. Share the returned times with the contact exactly as labeled",
+	parameters: z.object({
+		requestedTime: z
+			.string()
+			.datetime({ offset: true })
+			.optional()
+			.describe(
+				"Exact start time the contact picked or asked for, ISO 8601 with the contact's UTC offset",
+			),
+		earliestTime: z
+			.string()
+			.datetime({ offset: true })
+			.optional()
+			.describe(
+				"Only propose slots from this time on (e.g. 'next week'), ISO 8601 with offset",
+			),
+		durationMinutes: z.number().int().min(15).max(240).optional(),
+		title: z
+			.string()
+			.max(200)
+			.optional()
+			.describe("Short meeting title, e.g. 'Product demo'"),
+		description: z.string().max(1000).optional(),
+	}),
 
-	validate(params): boolean {
-		return (
-			typeof params.conversationId === "string" &&
-			typeof params.contactId === "string"
-		);
-	},
+	async execute(
+		{ requestedTime, earliestTime, durationMinutes, title, description },
+		{ organizationId, conversationId, contactId, agentId },
+	) {
+		const meetingTitle = title || "Meeting";
+
+		if (requestedTime) {
+			const start = new Date(requestedTime);
+
+			try {
+				const meeting = await bookMeeting({
+					organizationId,
+					agentId,
+					contactId,
+					conversationId,
+					start,
+					durationMinutes,
+					title: meetingTitle,
+					description,
+				});
+
+				return {
+					success: true,
+					status: "confirmed",
+					meetingId: meeting.id,
+					startsAt: meeting.startsAt?.toISOString(),
+					time: formatMeetingTime(start, meeting.timezone),
+					timezone: meeting.timezone,
+					meetingUrl: meeting.meetingUrl,
+				};
+			} catch (error) {
+				if (!(error instanceof MeetingError) || error.code !== "CONFLICT") {
+					throw error;
+				}
+			}
 
-	async execute(params) {
-		const { conversationId, contactId, proposedTimes } = params as {
-			conversationId: string;
-			contactId: string;
-			proposedTimes?: string[];
-		};
-
-		// In production, this would:
-		// 1. Check calendar availability
-		// 2. Create meeting in Google Calendar / Calendly
-		// 3. Send calendar invite
-		// 4. Create reminder tasks
-
-		// Placeholder implementation
-		await db.insert(conversationMessageTable).values({
+			// Offer the closest alternatives instead
+			const { slots, timezone } = await proposeMeetingSlots({
+				organizationId,
+				agentId,
+				contactId,
+				conversationId,
+				title: meetingTitle,
+				description,
+				durationMinutes,
+				from: start,
+			});
+
+			return {
+				success: false,
+				status: "unavailable",
+				message: "The requested time is not available",
+				alternatives: slots,
+				timezone,
+			};
+		}
+
+		const { slots, timezone } = await proposeMeetingSlots({
+			organizationId,
+			agentId,
+			contactId,
 			conversationId,
-			direction: "outbound",
-			role: "assistant",
-			content: "Meeting scheduling initiated",
-			contentType: "text",
-			channel: "web",
-			generatedByAi: true,
-			actionTriggered: JSON.stringify({
-				type: "schedule-meeting",
-				proposedTimes,
-			}),
-		} as unknown as typeof conversationMessageTable.$inferInsert);
-
-		return { success: true, status: "pending_confirmation" };
+			title: meetingTitle,
+			description,
+			durationMinutes,
+			from: earliestTime ? new Date(earliestTime) : undefined,
+		});
+
+		if (slots.length === 0) {
+			return {
+				success: false,
+				status: "no_availability",
+				message: "No free slots in the booking window",
+			};
+		}
+
+		return { success: true, status: "proposed", slots, timezone };
 	},
 });
@@ -1,28 +1,22 @@
+import { z } from "zod";
 import { db } from "@/lib/db";
 import { conversationMessageTable } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "../executor";
+import { defineActionHandler } from "../types";
 
 /**
  * Search Product Action Handler
  * Searches product inventory and returns results
  */
 
-actionsExecutor.register({
+export const searchProductHandler = defineActionHandler({
 	name: "search-product",
+	description:
+		"Search the product inventory for availability and prices before answering",
+	parameters: z.object({
+		query: z.string().min(1).describe("Product name, SKU or keywords"),
+	}),
 
-	validate(params): boolean {
-		return (
-			typeof params.query === "string" &&
-			typeof params.conversationId === "string"
-		);
-	},
-
-	async execute(params) {
-		const { query, conversationId } = params as {
-			query: string;
-			conversationId: string;
-		};
-
+	async execute({ query }, { conversationId, channel }) {
 		// In production, this would:
 		// 1. Search productTable with fuzzy matching
 		// 2. Return top results with availability
@@ -35,7 +29,7 @@ actionsExecutor.register({
 			role: "assistant",
 			content: `Searching for: ${query}`,
 			contentType: "text",
-			channel: "web",
+			channel,
 			generatedByAi: true,
 			actionTriggered: JSON.stringify({ type: "search-product", query }),
 		} as unknown as typeof conversationMessageTable.$inferInsert);
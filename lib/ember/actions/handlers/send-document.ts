@@ -1,29 +1,29 @@
+import { z } from "zod";
 import { db } from "@/lib/db";
 import { conversationMessageTable } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "../executor";
+import { defineActionHandler } from "../types";
 
 /**
  * Send Document Action Handler
  * Sends a document attachment in the conversation
  */
 
-actionsExecutor.register({
+export const sendDocumentHandler = defineActionHandler({
 	name: "send-document",
+	description:
+		"Send a document (brochure, contract, invoice, receipt) to the contact",
+	parameters: z.object({
+		documentType: z
+			.enum(["pdf", "contract", "invoice", "receipt", "document"])
+			.describe("Kind of document to send"),
+		documentUrl: z
+			.string()
+			.url()
+			.optional()
+			.describe("URL of the document, when known"),
+	}),
 
-	validate(params): boolean {
-		return (
-			typeof params.conversationId === "string" &&
-			typeof params.documentType === "string"
-		);
-	},
-
-	async execute(params) {
-		const { conversationId, documentType, documentUrl } = params as {
-			conversationId: string;
-			documentType: string;
-			documentUrl?: string;
-		};
-
+	async execute({ documentType, documentUrl }, { conversationId, channel }) {
 		// In production, this would:
 		// 1. Generate/fetch the document
 		// 2. Upload to S3
@@ -36,7 +36,7 @@ actionsExecutor.register({
 			role: "assistant",
 			content: `Document sent: ${documentType}`,
 			contentType: "document",
-			channel: "web",
+			channel,
 			generatedByAi: true,
 			mediaUrl: documentUrl || null,
 			actionTriggered: JSON.stringify({ type: "send-document", documentType }),
@@ -1,30 +1,23 @@
+import { z } from "zod";
 import { db } from "@/lib/db";
 import { conversationMessageTable } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "../executor";
+import { defineActionHandler } from "../types";
 
 /**
  * Send Link Action Handler
  * Sends a clickable link in the conversation
  */
 
-actionsExecutor.register({
+export const sendLinkHandler = defineActionHandler({
 	name: "send-link",
+	description:
+		"Send a clickable link to the contact (product page, payment link, catalog, etc.)",
+	parameters: z.object({
+		url: z.string().url().describe("Absolute http(s) URL to send"),
+		title: z.string().optional().describe("Short label shown with the link"),
+	}),
 
-	validate(params): boolean {
-		return (
-			typeof params.conversationId === "string" &&
-			typeof params.url === "string" &&
-			(params.url as string).startsWith("http")
-		);
-	},
-
-	async execute(params) {
-		const { conversationId, url, title } = params as {
-			conversationId: string;
-			url: string;
-			title?: string;
-		};
-
+	async execute({ url, title }, { conversationId, channel }) {
 		// Save link message
 		await db.insert(conversationMessageTable).values({
 			conversationId,
@@ -32,7 +25,7 @@ actionsExecutor.register({
 			role: "assistant",
 			content: title ? `${title}: ${url}` : url,
 			contentType: "text",
-			channel: "web",
+			channel,
 			generatedByAi: true,
 			actionTriggered: JSON.stringify({ type: "send-link", url, title }),
 		} as unknown as typeof conversationMessageTable.$inferInsert);
@@ -1,51 +1,81 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
 import { db } from "@/lib/db";
 import {
 	conversationMessageTable,
 	conversationTable,
 } from "@/lib/db/schema/tables";
 import { logger } from "@/lib/logger";
-import { actionsExecutor } from "../executor";
+import {
+	publishConversationUpdated,
+	publishRealtimeEvent,
+	toRealtimeMessage,
+} from "@/lib/realtime/events";
+import { emitConversationTransferred } from "@/lib/webhooks/events";
+import { defineActionHandler } from "../types";
 
 /**
  * Transfer to Human Action Handler
  * Escalates conversation to a human agent
  */
 
-actionsExecutor.register({
+export const transferToHumanHandler = defineActionHandler({
 	name: "transfer-to-human",
+	description:
+		"Transfer the conversation to a human agent when the contact asks for one or the request is beyond your capabilities",
+	parameters: z.object({
+		reason: z.string().optional().describe("Why the conversation is escalated"),
+		priority: z.enum(["low", "normal", "high"]).default("high"),
+	}),
 
-	validate(params): boolean {
-		return typeof params.conversationId === "string";
-	},
-
-	async execute(params) {
-		const { conversationId, reason, priority } = params as {
-			conversationId: string;
-			reason?: string;
-			priority?: string;
-		};
+	async execute({ reason, priority }, context) {
+		const { conversationId, organizationId, channel } = context;
 
 		// 1. Update conversation status
-		await db
+		const [conversation] = await db
 			.update(conversationTable)
 			.set({
 				transferredToHuman: true,
 				transferReason: reason || "Customer requested human assistance",
+				transferredAt: new Date(),
 				status: "active",
 			})
-			.where(eq(conversationTable.id, conversationId));
+			.where(
+				and(
+					eq(conversationTable.id, conversationId),
+					eq(conversationTable.organizationId, organizationId),
+				),
+			)
+			.returning();
 
 		// 2. Add system message about transfer
-		await db.insert(conversationMessageTable).values({
-			conversationId,
-			direction: "outbound",
-			role: "system",
-			content: `Conversation transferred to human agent. Reason: ${reason || "Customer request"}`,
-			contentType: "text",
-			channel: "web",
-			actionTriggered: JSON.stringify({ type: "transfer-to-human", reason }),
-		} as unknown as typeof conversationMessageTable.$inferInsert);
+		const [systemMessage] = await db
+			.insert(conversationMessageTable)
+			.values({
+				conversationId,
+				direction: "outbound",
+				role: "system",
+				content: `Conversation transferred to human agent. Reason: ${reason || "Customer request"}`,
+				contentType: "text",
+				channel,
+				actionTriggered: JSON.stringify({ type: "transfer-to-human", reason }),
+			} as unknown as typeof conversationMessageTable.$inferInsert)
+			.returning();
+
+		// Live update for the human inbox
+		if (conversation) {
+			await publishConversationUpdated(conversation);
+			await emitConversationTransferred(conversation);
+		}
+		if (systemMessage) {
+			await publishRealtimeEvent({
+				type: "message.created",
+				organizationId,
+				conversationId,
+				contactId: context.contactId,
+				message: toRealtimeMessage(systemMessage),
+			});
+		}
 
 		// 3. Notify available human agents (in production)
 		// - Send notification to team
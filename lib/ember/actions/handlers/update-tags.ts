@@ -1,51 +1,59 @@
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
 import { db } from "@/lib/db";
+import { HeatScoreSignalType, LeadStatus } from "@/lib/db/schema/enums";
 import { contactTable } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "../executor";
+import {
+	convertContactToLead,
+	hasQualifiedTag,
+} from "@/lib/ember/memoria/leads";
+import { rescoreContacts } from "@/lib/ember/memoria/scoring";
+import { addContactTags, getContactTagNames } from "@/lib/ember/memoria/tags";
+import { defineActionHandler } from "../types";
 
 /**
  * Update Tags Action Handler
- * Updates contact tags based on conversation insights
+ * Updates contact tags based on conversation insights.
+ * Tagging a contact as qualified moves it into the lead pipeline.
  */
 
-actionsExecutor.register({
+export const updateTagsHandler = defineActionHandler({
 	name: "update-tags",
+	description:
+		"Add tags to the contact based on conversation insights (e.g. interested, quote-requested)",
+	parameters: z.object({
+		tags: z.array(z.string().min(1)).min(1).describe("Tags to add"),
+	}),
 
-	validate(params): boolean {
-		return typeof params.contactId === "string" && Array.isArray(params.tags);
-	},
-
-	async execute(params) {
-		const { contactId, tags } = params as {
-			contactId: string;
-			tags: string[];
-		};
-
+	async execute({ tags }, { organizationId, contactId }) {
 		// Get current contact
 		const contact = await db.query.contactTable.findFirst({
-			where: eq(contactTable.id, contactId),
+			where: and(
+				eq(contactTable.id, contactId),
+				eq(contactTable.organizationId, organizationId),
+			),
 		});
 
 		if (!contact) {
 			throw new Error("Contact not found");
 		}
 
-		// Parse existing tags
-		const currentTags =
-			typeof contact.tags === "string"
-				? JSON.parse(contact.tags)
-				: contact.tags || [];
-
-		// Merge tags (avoid duplicates)
-		const mergedTags = Array.from(new Set([...currentTags, ...tags]));
-
-		// Update contact
-		await db
-			.update(contactTable)
-			.set({
-				tags: JSON.stringify(mergedTags),
-			})
-			.where(eq(contactTable.id, contactId));
+		// Add the tags, creating the ones the organization doesn't have yet
+		const currentTags = await getContactTagNames([contactId]);
+		const mergedTags = await addContactTags(organizationId, contactId, tags);
+		await rescoreContacts(
+			organizationId,
+			[contactId],
+			[HeatScoreSignalType.tag],
+		);
+
+		// Newly qualified contacts become (or advance to) qualified leads
+		if (hasQualifiedTag(tags) && !hasQualifiedTag(currentTags)) {
+			const conversion = await convertContactToLead(organizationId, contactId, {
+				status: LeadStatus.qualified,
+			});
+			return { success: true, tags: mergedTags, leadId: conversion?.lead.id };
+		}
 
 		return { success: true, tags: mergedTags };
 	},
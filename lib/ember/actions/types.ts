@@ -0,0 +1,47 @@
+import type { z } from "zod";
+
+/**
+ * Action types shared by the executor, the handlers and Ember Core
+ */
+
+/**
+ * Conversation-level context injected by Ember Core.
+ * The model never supplies these values, so it cannot act on other records.
+ */
+export interface ActionContext {
+	organizationId: string;
+	conversationId: string;
+	contactId: string;
+	channel: string;
+	/** Agent answering the conversation */
+	agentId?: string;
+}
+
+/**
+ * An action requested by the model (tool name + raw arguments)
+ */
+export interface Action {
+	type: string;
+	params: Record<string, unknown>;
+}
+
+export interface ActionHandler<TParameters extends z.ZodObject = z.ZodObject> {
+	name: string;
+	/** Shown to the model as the tool description */
+	description: string;
+	/** Parameters the model must provide, offered to the model as the tool schema */
+	parameters: TParameters;
+	execute(
+		params: z.infer<TParameters>,
+		context: ActionContext,
+	): Promise<unknown>;
+}
+
+/**
+ * Helper that keeps `execute` params typed from the handler schema
+ */
+export function defineActionHandler<TParameters extends z.ZodObject>(
+	handler: ActionHandler<TParameters>,
+): ActionHandler<TParameters> {
+	return handler;
+}
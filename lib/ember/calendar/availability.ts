@@ -0,0 +1,382 @@
+import { TZDate } from "@date-fns/tz";
+import { and, eq, gt, inArray, isNull, lt, or } from "drizzle-orm";
+import { calendarConfig, type WorkingHours } from "@/config/calendar.config";
+import { db } from "@/lib/db";
+import { MeetingStatus } from "@/lib/db/schema/enums";
+import { availabilityTable, meetingTable } from "@/lib/db/schema/tables";
+import { getCalendarProvider } from "./providers";
+
+/**
+ * Availability - Free meeting slots from working hours and busy times
+ *
+ * Working hours are read in the host's timezone (so 09:00 stays 09:00 across
+ * DST changes); slots are returned as absolute times and shown to contacts in
+ * their own timezone.
+ */
+
+export interface TimeInterval {
+	start: Date;
+	end: Date;
+}
+
+export interface AvailabilitySettings {
+	timezone: string;
+	workingHours: WorkingHours;
+	slotDurationMinutes: number;
+	bufferMinutes: number;
+	minNoticeMinutes: number;
+	maxDaysAhead: number;
+}
+
+export interface HostScope {
+	organizationId: string;
+	agentId?: string | null;
+	hostUserId?: string | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Whether `timezone` is an IANA timezone known to the runtime
+ */
+export function isValidTimezone(timezone: string | null | undefined): boolean {
+	if (!timezone) return false;
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parse working hours stored as JSON, dropping malformed ranges
+ */
+export function parseWorkingHours(value: unknown): WorkingHours {
+	const raw =
+		typeof value === "string" ? (JSON.parse(value) as unknown) : value;
+	if (!raw || typeof raw !== "object") return {};
+
+	const workingHours: WorkingHours = {};
+	for (const [day, ranges] of Object.entries(raw)) {
+		const weekday = Number(day);
+		if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) continue;
+		if (!Array.isArray(ranges)) continue;
+
+		workingHours[weekday] = ranges.filter(
+			(range): range is { start: string; end: string } =>
+				typeof range?.start === "string" &&
+				typeof range?.end === "string" &&
+				TIME_PATTERN.test(range.start) &&
+				TIME_PATTERN.test(range.end) &&
+				range.start < range.end,
+		);
+	}
+	return workingHours;
+}
+
+/**
+ * Slot start times within working hours that don't overlap a busy interval
+ * (extended by the buffer on both sides), between `from` and `to`.
+ */
+export function computeAvailableSlots(params: {
+	workingHours: WorkingHours;
+	timezone: string;
+	from: Date;
+	to: Date;
+	durationMinutes: number;
+	bufferMinutes?: number;
+	busy?: TimeInterval[];
+}): Date[] {
+	const { workingHours, timezone, from, to, durationMinutes } = params;
+	const bufferMs = (params.bufferMinutes ?? 0) * MINUTE_MS;
+	const durationMs = durationMinutes * MINUTE_MS;
+	const busy = (params.busy ?? []).map((interval) => ({
+		start: interval.start.getTime() - bufferMs,
+		end: interval.end.getTime() + bufferMs,
+	}));
+
+	const slots: Date[] = [];
+	const firstDay = TZDate.tz(timezone, from.getTime());
+
+	for (let offset = 0; ; offset++) {
+		const day = new TZDate(
+			firstDay.getFullYear(),
+			firstDay.getMonth(),
+			firstDay.getDate() + offset,
+			timezone,
+		);
+		if (day.getTime() >= to.getTime()) break;
+
+		for (const range of workingHours[day.getDay()] ?? []) {
+			const rangeStart = atTime(day, range.start, timezone).getTime();
+			const rangeEnd = atTime(day, range.end, timezone).getTime();
+
+			for (
+				let start = rangeStart;
+				start + durationMs <= rangeEnd;
+				start += durationMs
+			) {
+				const end = start + durationMs;
+				if (start < from.getTime() || end > to.getTime()) continue;
+				if (
+					busy.some((interval) => start < interval.end && end > interval.start)
+				) {
+					continue;
+				}
+				slots.push(new Date(start));
+			}
+		}
+	}
+
+	return slots;
+}
+
+/**
+ * Whether an interval lies within a single working hours range
+ */
+export function isWithinWorkingHours(
+	interval: TimeInterval,
+	workingHours: WorkingHours,
+	timezone: string,
+): boolean {
+	const day = TZDate.tz(timezone, interval.start.getTime());
+
+	return (workingHours[day.getDay()] ?? []).some(
+		(range) =>
+			interval.start.getTime() >=
+				atTime(day, range.start, timezone).getTime() &&
+			interval.end.getTime() <= atTime(day, range.end, timezone).getTime(),
+	);
+}
+
+/**
+ * Pick slots to offer, spread over different days first
+ */
+export function pickProposalSlots(
+	slots: Date[],
+	count: number,
+	timezone: string,
+): Date[] {
+	const picked: Date[] = [];
+	const days = new Set<string>();
+
+	for (const slot of slots) {
+		if (picked.length >= count) break;
+		const day = dayKey(slot, timezone);
+		if (!days.has(day)) {
+			days.add(day);
+			picked.push(slot);
+		}
+	}
+
+	for (const slot of slots) {
+		if (picked.length >= count) break;
+		if (!picked.some((p) => p.getTime() === slot.getTime())) {
+			picked.push(slot);
+		}
+	}
+
+	return picked.sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Availability of an agent or user, falling back to the organization default
+ * and then to the app defaults
+ */
+export async function getAvailabilitySettings(
+	scope: HostScope,
+): Promise<AvailabilitySettings> {
+	const owners = [
+		...(scope.hostUserId
+			? [eq(availabilityTable.userId, scope.hostUserId)]
+			: []),
+		...(scope.agentId ? [eq(availabilityTable.agentId, scope.agentId)] : []),
+		and(isNull(availabilityTable.userId), isNull(availabilityTable.agentId)),
+	];
+
+	const rows = await db
+		.select()
+		.from(availabilityTable)
+		.where(
+			and(
+				eq(availabilityTable.organizationId, scope.organizationId),
+				or(...owners),
+			),
+		);
+
+	const row =
+		rows.find((r) => scope.hostUserId && r.userId === scope.hostUserId) ??
+		rows.find((r) => scope.agentId && r.agentId === scope.agentId) ??
+		rows.find((r) => !r.userId && !r.agentId);
+
+	if (!row) {
+		return {
+			timezone: calendarConfig.defaultTimezone,
+			workingHours: calendarConfig.defaultWorkingHours,
+			slotDurationMinutes: calendarConfig.defaultSlotDurationMinutes,
+			bufferMinutes: 0,
+			minNoticeMinutes: 120,
+			maxDaysAhead: 14,
+		};
+	}
+
+	return {
+		timezone: isValidTimezone(row.timezone)
+			? row.timezone
+			: calendarConfig.defaultTimezone,
+		workingHours: parseWorkingHours(row.workingHours),
+		slotDurationMinutes: row.slotDurationMinutes,
+		bufferMinutes: row.bufferMinutes,
+		minNoticeMinutes: row.minNoticeMinutes,
+		maxDaysAhead: row.maxDaysAhead,
+	};
+}
+
+/**
+ * Busy times of a host: its confirmed meetings plus the calendar provider's events
+ */
+export async function getBusyIntervals(
+	scope: HostScope,
+	from: Date,
+	to: Date,
+	options?: { excludeMeetingId?: string },
+): Promise<TimeInterval[]> {
+	const hostConditions = [
+		...(scope.hostUserId
+			? [eq(meetingTable.hostUserId, scope.hostUserId)]
+			: []),
+		...(scope.agentId ? [eq(meetingTable.agentId, scope.agentId)] : []),
+	];
+
+	const meetings = await db
+		.select({
+			id: meetingTable.id,
+			startsAt: meetingTable.startsAt,
+			endsAt: meetingTable.endsAt,
+		})
+		.from(meetingTable)
+		.where(
+			and(
+				eq(meetingTable.organizationId, scope.organizationId),
+				inArray(meetingTable.status, [MeetingStatus.confirmed]),
+				lt(meetingTable.startsAt, to),
+				gt(meetingTable.endsAt, from),
+				// Without a host, every meeting of the organization counts
+				...(hostConditions.length > 0 ? [or(...hostConditions)] : []),
+			),
+		);
+
+	const external = await getCalendarProvider().getBusyIntervals({
+		...scope,
+		from,
+		to,
+	});
+
+	return [
+		...meetings.flatMap((meeting) =>
+			meeting.id !== options?.excludeMeetingId &&
+			meeting.startsAt &&
+			meeting.endsAt
+				? [{ start: meeting.startsAt, end: meeting.endsAt }]
+				: [],
+		),
+		...external,
+	];
+}
+
+/**
+ * Free slots of a host from now (plus the minimum notice) up to its booking horizon
+ */
+export async function findAvailableSlots(
+	scope: HostScope,
+	options?: {
+		from?: Date;
+		durationMinutes?: number;
+		excludeMeetingId?: string;
+	},
+): Promise<{ slots: Date[]; settings: AvailabilitySettings }> {
+	const settings = await getAvailabilitySettings(scope);
+	const now = Date.now();
+	const earliest = now + settings.minNoticeMinutes * MINUTE_MS;
+	const from = new Date(Math.max(earliest, options?.from?.getTime() ?? 0));
+	const to = new Date(now + settings.maxDaysAhead * 24 * 60 * MINUTE_MS);
+
+	if (from >= to) {
+		return { slots: [], settings };
+	}
+
+	const busy = await getBusyIntervals(scope, from, to, {
+		excludeMeetingId: options?.excludeMeetingId,
+	});
+
+	const slots = computeAvailableSlots({
+		workingHours: settings.workingHours,
+		timezone: settings.timezone,
+		from,
+		to,
+		durationMinutes: options?.durationMinutes ?? settings.slotDurationMinutes,
+		bufferMinutes: settings.bufferMinutes,
+		busy,
+	});
+
+	return { slots, settings };
+}
+
+/**
+ * Whether a specific time requested by the contact can be booked
+ */
+export async function isSlotAvailable(
+	scope: HostScope,
+	start: Date,
+	durationMinutes: number,
+	options?: { excludeMeetingId?: string },
+): Promise<boolean> {
+	const settings = await getAvailabilitySettings(scope);
+	const now = Date.now();
+	const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+
+	if (
+		start.getTime() < now + settings.minNoticeMinutes * MINUTE_MS ||
+		start.getTime() > now + settings.maxDaysAhead * 24 * 60 * MINUTE_MS ||
+		!isWithinWorkingHours(
+			{ start, end },
+			settings.workingHours,
+			settings.timezone,
+		)
+	) {
+		return false;
+	}
+
+	const bufferMs = settings.bufferMinutes * MINUTE_MS;
+	const busy = await getBusyIntervals(
+		scope,
+		new Date(start.getTime() - bufferMs),
+		new Date(end.getTime() + bufferMs),
+		options,
+	);
+
+	return busy.every(
+		(interval) =>
+			start.getTime() >= interval.end.getTime() + bufferMs ||
+			end.getTime() <= interval.start.getTime() - bufferMs,
+	);
+}
+
+function atTime(day: TZDate, time: string, timezone: string): TZDate {
+	const [hours = 0, minutes = 0] = time.split(":").map(Number);
+	return new TZDate(
+		day.getFullYear(),
+		day.getMonth(),
+		day.getDate(),
+		hours,
+		minutes,
+		timezone,
+	);
+}
+
+function dayKey(date: Date, timezone: string): string {
+	const local = TZDate.tz(timezone, date.getTime());
+	return `${local.getFullYear()}-${local.getMonth()}-${local.getDate()}`;
+}
@@ -0,0 +1,159 @@
+import { TZDate } from "@date-fns/tz";
+import { eq } from "drizzle-orm";
+import { businessHoursConfig } from "@/config/business-hours.config";
+import { calendarConfig, type WorkingHours } from "@/config/calendar.config";
+import { db } from "@/lib/db";
+import { businessHoursTable } from "@/lib/db/schema/tables";
+import { isValidTimezone, parseWorkingHours } from "./availability";
+
+/**
+ * Business Hours - When the organization's team is available to answer
+ *
+ * Weekly hours are read in the organization's timezone, like availability
+ * working hours; holidays are full local days without business hours.
+ */
+
+export interface Holiday {
+	date: string; // YYYY-MM-DD in the organization timezone
+	name?: string;
+}
+
+export interface BusinessHoursSettings {
+	/** False when the organization has not saved a schedule (app defaults apply) */
+	configured: boolean;
+	timezone: string;
+	weeklyHours: WorkingHours;
+	holidays: Holiday[];
+	awayMessage: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse holidays stored as JSON, dropping malformed entries
+ */
+export function parseHolidays(value: unknown): Holiday[] {
+	const raw =
+		typeof value === "string" ? (JSON.parse(value) as unknown) : value;
+	if (!Array.isArray(raw)) return [];
+
+	return raw
+		.filter(
+			(holiday): holiday is Holiday =>
+				typeof holiday?.date === "string" && DATE_PATTERN.test(holiday.date),
+		)
+		.map((holiday) => ({
+			date: holiday.date,
+			...(typeof holiday.name === "string" ? { name: holiday.name } : {}),
+		}));
+}
+
+/**
+ * Whether `at` falls within the weekly hours, outside holidays
+ */
+export function isWithinBusinessHours(
+	settings: Pick<
+		BusinessHoursSettings,
+		"timezone" | "weeklyHours" | "holidays"
+	>,
+	at: Date = new Date(),
+): boolean {
+	const local = TZDate.tz(settings.timezone, at.getTime());
+	if (isHoliday(local, settings.holidays)) return false;
+
+	return (settings.weeklyHours[local.getDay()] ?? []).some(
+		(range) =>
+			at.getTime() >= atTime(local, range.start, settings.timezone).getTime() &&
+			at.getTime() < atTime(local, range.end, settings.timezone).getTime(),
+	);
+}
+
+/**
+ * Start of the next business hours range after `from`, or `from` itself when
+ * already open. Null when nothing opens within the lookahead window.
+ */
+export function getNextOpening(
+	settings: Pick<
+		BusinessHoursSettings,
+		"timezone" | "weeklyHours" | "holidays"
+	>,
+	from: Date = new Date(),
+): Date | null {
+	if (isWithinBusinessHours(settings, from)) return from;
+
+	const { timezone } = settings;
+	const firstDay = TZDate.tz(timezone, from.getTime());
+
+	for (
+		let offset = 0;
+		offset <= businessHoursConfig.nextOpeningLookaheadDays;
+		offset++
+	) {
+		const day = new TZDate(
+			firstDay.getFullYear(),
+			firstDay.getMonth(),
+			firstDay.getDate() + offset,
+			timezone,
+		);
+		if (isHoliday(day, settings.holidays)) continue;
+
+		const starts = (settings.weeklyHours[day.getDay()] ?? [])
+			.map((range) => atTime(day, range.start, timezone))
+			.filter((start) => start.getTime() > from.getTime())
+			.sort((a, b) => a.getTime() - b.getTime());
+
+		if (starts[0]) {
+			return new Date(starts[0].getTime());
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Business hours of an organization, falling back to the default working hours
+ */
+export async function getBusinessHours(
+	organizationId: string,
+): Promise<BusinessHoursSettings> {
+	const row = await db.query.businessHoursTable.findFirst({
+		where: eq(businessHoursTable.organizationId, organizationId),
+	});
+
+	if (!row) {
+		return {
+			configured: false,
+			timezone: calendarConfig.defaultTimezone,
+			weeklyHours: calendarConfig.defaultWorkingHours,
+			holidays: [],
+			awayMessage: null,
+		};
+	}
+
+	return {
+		configured: true,
+		timezone: isValidTimezone(row.timezone)
+			? row.timezone
+			: calendarConfig.defaultTimezone,
+		weeklyHours: parseWorkingHours(row.weeklyHours),
+		holidays: parseHolidays(row.holidays),
+		awayMessage: row.awayMessage,
+	};
+}
+
+function atTime(day: TZDate, time: string, timezone: string): TZDate {
+	const [hours = 0, minutes = 0] = time.split(":").map(Number);
+	return new TZDate(
+		day.getFullYear(),
+		day.getMonth(),
+		day.getDate(),
+		hours,
+		minutes,
+		timezone,
+	);
+}
+
+function isHoliday(day: TZDate, holidays: Holiday[]): boolean {
+	const date = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, "0")}-${String(day.getDate()).padStart(2, "0")}`;
+	return holidays.some((holiday) => holiday.date === date);
+}
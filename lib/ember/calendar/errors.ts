@@ -0,0 +1,13 @@
+/**
+ * Error raised by meeting operations.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class MeetingError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: MeetingError["code"], message: string) {
+		super(message);
+		this.name = "MeetingError";
+		this.code = code;
+	}
+}
@@ -0,0 +1,114 @@
+/**
+ * ICS - iCalendar (RFC 5545) files for meeting invites
+ *
+ * Times are written in UTC so calendar apps show them in the viewer's timezone.
+ */
+
+export interface IcsEvent {
+	/** Stable across updates and cancellation of the same meeting */
+	uid: string;
+	/** Incremented on every update so calendars replace the previous version */
+	sequence: number;
+	method: "REQUEST" | "CANCEL";
+	start: Date;
+	end: Date;
+	summary: string;
+	description?: string | null;
+	location?: string | null;
+	url?: string | null;
+	organizer: { name: string; email: string };
+	attendee?: { name: string; email: string } | null;
+}
+
+/** Lines longer than this (in octets) are folded */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Build an .ics file for a meeting invite, update or cancellation
+ */
+export function buildIcsEvent(event: IcsEvent): string {
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//EmberCRM//Meetings//EN",
+		"CALSCALE:GREGORIAN",
+		`METHOD:${event.method}`,
+		"BEGIN:VEVENT",
+		`UID:${escapeText(event.uid)}`,
+		`SEQUENCE:${event.sequence}`,
+		`DTSTAMP:${formatIcsDate(new Date())}`,
+		`DTSTART:${formatIcsDate(event.start)}`,
+		`DTEND:${formatIcsDate(event.end)}`,
+		`SUMMARY:${escapeText(event.summary)}`,
+		...(event.description
+			? [`DESCRIPTION:${escapeText(event.description)}`]
+			: []),
+		...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+		...(event.url ? [`URL:${event.url}`] : []),
+		`ORGANIZER;CN=${escapeParam(event.organizer.name)}:mailto:${event.organizer.email}`,
+		...(event.attendee
+			? [
+					`ATTENDEE;CN=${escapeParam(event.attendee.name)};ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:${event.attendee.email}`,
+				]
+			: []),
+		`STATUS:${event.method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+		"END:VEVENT",
+		"END:VCALENDAR",
+	];
+
+	return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * UTC date-time, e.g. 20261021T150000Z
+ */
+export function formatIcsDate(date: Date): string {
+	return date
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r?\n/g, "\\n");
+}
+
+function escapeParam(value: string): string {
+	// Parameter values can't contain quotes; quoting allows ; , and :
+	return `"${value.replace(/"/g, "'")}"`;
+}
+
+/**
+ * Fold long lines (continuation lines start with a space),
+ * without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+		return line;
+	}
+
+	const parts: string[] = [];
+	let current = "";
+	let currentOctets = 0;
+
+	for (const char of line) {
+		const octets = encoder.encode(char).length;
+		// Continuation lines lose one octet to the leading space
+		const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (currentOctets + octets > limit) {
+			parts.push(current);
+			current = "";
+			currentOctets = 0;
+		}
+		current += char;
+		currentOctets += octets;
+	}
+	parts.push(current);
+
+	return parts.join("\r\n ");
+}
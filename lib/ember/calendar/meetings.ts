@@ -0,0 +1,521 @@
+import { TZDate } from "@date-fns/tz";
+import { format } from "date-fns";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { calendarConfig } from "@/config/calendar.config";
+import { db } from "@/lib/db";
+import { JobType, MeetingStatus } from "@/lib/db/schema/enums";
+import {
+	contactTable,
+	meetingTable,
+	organizationTable,
+} from "@/lib/db/schema/tables";
+import { sendMeetingInviteEmail } from "@/lib/email";
+import { channelManager } from "@/lib/ember/canales/manager";
+import { env } from "@/lib/env";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import { getBaseUrl } from "@/lib/utils";
+import {
+	findAvailableSlots,
+	type HostScope,
+	isSlotAvailable,
+	isValidTimezone,
+	pickProposalSlots,
+} from "./availability";
+import { MeetingError } from "./errors";
+import { buildIcsEvent } from "./ics";
+import { getCalendarProvider, type Meeting } from "./providers";
+
+/**
+ * Meetings - Slot proposals, booking, invites and reminders
+ *
+ * An agent first proposes a few free slots (shown in the contact's timezone),
+ * then books the one the contact picks. Booking mirrors the meeting to the
+ * calendar provider, emails an ICS invite and schedules the reminder job.
+ */
+
+export interface MeetingSlot {
+	/** ISO 8601 start time */
+	start: string;
+	/** Start time in the contact's timezone */
+	label: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Human-readable time in a timezone, e.g. "Tuesday, October 21 at 10:00 AM"
+ */
+export function formatMeetingTime(date: Date, timezone: string): string {
+	return format(
+		TZDate.tz(timezone, date.getTime()),
+		"EEEE, MMMM d 'at' h:mm a",
+	);
+}
+
+/**
+ * Offer free slots to the contact, keeping them on the conversation's
+ * pending proposal (created if needed)
+ */
+export async function proposeMeetingSlots(
+	input: HostScope & {
+		contactId: string;
+		conversationId?: string | null;
+		title: string;
+		description?: string | null;
+		durationMinutes?: number;
+		/** Propose slots from this time on (e.g. a day the contact asked for) */
+		from?: Date;
+		createdById?: string | null;
+	},
+): Promise<{
+	meeting: Meeting | null;
+	slots: MeetingSlot[];
+	timezone: string;
+}> {
+	const contact = await getMeetingContact(
+		input.contactId,
+		input.organizationId,
+	);
+	const pending = input.conversationId
+		? await findPendingProposal(input.conversationId)
+		: null;
+
+	const { slots, settings } = await findAvailableSlots(input, {
+		from: input.from,
+		durationMinutes: input.durationMinutes,
+	});
+	const durationMinutes = input.durationMinutes ?? settings.slotDurationMinutes;
+	const timezone = getContactTimezone(contact.timezone, settings.timezone);
+	const proposed = pickProposalSlots(
+		slots,
+		calendarConfig.proposalCount,
+		timezone,
+	);
+
+	if (proposed.length === 0) {
+		return { meeting: pending, slots: [], timezone };
+	}
+
+	const values = {
+		title: input.title,
+		description: input.description ?? null,
+		durationMinutes,
+		timezone,
+		proposedSlots: JSON.stringify(proposed.map((slot) => slot.toISOString())),
+	};
+
+	const [meeting] = pending
+		? await db
+				.update(meetingTable)
+				.set(values)
+				.where(eq(meetingTable.id, pending.id))
+				.returning()
+		: await db
+				.insert(meetingTable)
+				.values({
+					...values,
+					organizationId: input.organizationId,
+					contactId: input.contactId,
+					conversationId: input.conversationId ?? null,
+					agentId: input.agentId ?? null,
+					hostUserId: input.hostUserId ?? null,
+					createdById: input.createdById ?? null,
+				})
+				.returning();
+
+	return {
+		meeting: meeting ?? null,
+		slots: proposed.map((slot) => ({
+			start: slot.toISOString(),
+			label: formatMeetingTime(slot, timezone),
+		})),
+		timezone,
+	};
+}
+
+/**
+ * Book a meeting at `start`: the conversation's pending proposal when there is
+ * one, otherwise a new meeting. Rebooking a confirmed meeting reschedules it.
+ */
+export async function bookMeeting(
+	input: HostScope & {
+		contactId: string;
+		conversationId?: string | null;
+		meetingId?: string;
+		start: Date;
+		durationMinutes?: number;
+		title: string;
+		description?: string | null;
+		location?: string | null;
+		meetingUrl?: string | null;
+		createdById?: string | null;
+	},
+): Promise<Meeting> {
+	const contact = await getMeetingContact(
+		input.contactId,
+		input.organizationId,
+	);
+
+	let existing: Meeting | null = null;
+	if (input.meetingId) {
+		existing = await findMeeting(input.meetingId, input.organizationId);
+	} else if (input.conversationId) {
+		existing = await findPendingProposal(input.conversationId);
+	}
+
+	if (existing?.status === MeetingStatus.cancelled) {
+		throw new MeetingError("CONFLICT", "This meeting was cancelled");
+	}
+
+	const scope: HostScope = {
+		organizationId: input.organizationId,
+		agentId: existing?.agentId ?? input.agentId,
+		hostUserId: existing?.hostUserId ?? input.hostUserId,
+	};
+	const durationMinutes =
+		input.durationMinutes ??
+		existing?.durationMinutes ??
+		calendarConfig.defaultSlotDurationMinutes;
+
+	const available = await isSlotAvailable(scope, input.start, durationMinutes, {
+		excludeMeetingId: existing?.id,
+	});
+	if (!available) {
+		throw new MeetingError("CONFLICT", "That time is not available");
+	}
+
+	const provider = getCalendarProvider();
+	const endsAt = new Date(input.start.getTime() + durationMinutes * MINUTE_MS);
+	const values = {
+		status: MeetingStatus.confirmed,
+		title: input.title || existing?.title || "Meeting",
+		description: input.description ?? existing?.description ?? null,
+		durationMinutes,
+		startsAt: input.start,
+		endsAt,
+		timezone: getContactTimezone(contact.timezone, existing?.timezone),
+		location: input.location ?? existing?.location ?? null,
+		meetingUrl: input.meetingUrl ?? existing?.meetingUrl ?? null,
+		provider: provider.name,
+		confirmedAt: new Date(),
+		reminderSentAt: null,
+	};
+
+	const [saved] = existing
+		? await db
+				.update(meetingTable)
+				.set({
+					...values,
+					// Calendars replace the invite only when the sequence grows
+					inviteSequence:
+						existing.status === MeetingStatus.confirmed
+							? existing.inviteSequence + 1
+							: existing.inviteSequence,
+				})
+				.where(eq(meetingTable.id, existing.id))
+				.returning()
+		: await db
+				.insert(meetingTable)
+				.values({
+					...values,
+					organizationId: input.organizationId,
+					contactId: input.contactId,
+					conversationId: input.conversationId ?? null,
+					agentId: input.agentId ?? null,
+					hostUserId: input.hostUserId ?? null,
+					createdById: input.createdById ?? null,
+				})
+				.returning();
+
+	if (!saved) {
+		throw new Error("Failed to save meeting");
+	}
+
+	let meeting = saved;
+
+	try {
+		const event = await provider.upsertEvent(meeting);
+		const [updated] = await db
+			.update(meetingTable)
+			.set({
+				externalEventId: event.externalEventId,
+				meetingUrl: event.meetingUrl ?? meeting.meetingUrl,
+			})
+			.where(eq(meetingTable.id, meeting.id))
+			.returning();
+		meeting = updated ?? meeting;
+	} catch (error) {
+		// The booking stands, the event can be synced again by rebooking
+		logger.error(
+			{ error, meetingId: meeting.id, provider: provider.name },
+			"Failed to create calendar event",
+		);
+	}
+
+	await sendMeetingEmail(meeting, "invite");
+	await scheduleMeetingReminder(meeting);
+
+	logger.info(
+		{ meetingId: meeting.id, organizationId: meeting.organizationId },
+		"Meeting booked",
+	);
+
+	return meeting;
+}
+
+/**
+ * Cancel a meeting, its calendar event and (when confirmed) the contact's invite
+ */
+export async function cancelMeeting(
+	meetingId: string,
+	organizationId: string,
+	reason?: string | null,
+): Promise<Meeting> {
+	const meeting = await findMeeting(meetingId, organizationId);
+
+	if (
+		meeting.status === MeetingStatus.cancelled ||
+		meeting.status === MeetingStatus.completed
+	) {
+		throw new MeetingError(
+			"CONFLICT",
+			`This meeting is already ${meeting.status}`,
+		);
+	}
+
+	const [cancelled] = await db
+		.update(meetingTable)
+		.set({
+			status: MeetingStatus.cancelled,
+			cancelledAt: new Date(),
+			cancelReason: reason ?? null,
+			inviteSequence: meeting.inviteSequence + 1,
+		})
+		.where(eq(meetingTable.id, meeting.id))
+		.returning();
+
+	if (!cancelled) {
+		throw new Error("Failed to cancel meeting");
+	}
+
+	if (meeting.status === MeetingStatus.confirmed) {
+		if (meeting.provider && meeting.externalEventId) {
+			try {
+				await getCalendarProvider(meeting.provider).cancelEvent(meeting);
+			} catch (error) {
+				logger.error(
+					{ error, meetingId: meeting.id, provider: meeting.provider },
+					"Failed to cancel calendar event",
+				);
+			}
+		}
+
+		await sendMeetingEmail(cancelled, "cancellation");
+	}
+
+	return cancelled;
+}
+
+/**
+ * Remind the contact of a confirmed meeting through its conversation,
+ * or by email when the meeting has no conversation.
+ * `startsAt` identifies the booking the reminder was scheduled for.
+ */
+export async function sendMeetingReminder(
+	meetingId: string,
+	startsAt: string,
+): Promise<void> {
+	const meeting = await db.query.meetingTable.findFirst({
+		where: eq(meetingTable.id, meetingId),
+	});
+
+	// Cancelled, rescheduled or already reminded
+	if (
+		!meeting ||
+		meeting.status !== MeetingStatus.confirmed ||
+		meeting.startsAt?.toISOString() !== startsAt ||
+		meeting.reminderSentAt
+	) {
+		return;
+	}
+
+	if (meeting.conversationId) {
+		const when = formatMeetingTime(meeting.startsAt, meeting.timezone);
+		await channelManager.sendMessage(meeting.conversationId, {
+			content: `Reminder: "${meeting.title}" is on ${when} (${meeting.timezone}).${meeting.meetingUrl ? ` Join here: ${meeting.meetingUrl}` : ""}`,
+			generatedByAi: true,
+		});
+	} else {
+		await sendMeetingEmail(meeting, "reminder");
+	}
+
+	await db
+		.update(meetingTable)
+		.set({ reminderSentAt: new Date() })
+		.where(eq(meetingTable.id, meeting.id));
+}
+
+/**
+ * Proposal still waiting for the contact in a conversation
+ */
+export async function findPendingProposal(
+	conversationId: string,
+): Promise<Meeting | null> {
+	const meeting = await db.query.meetingTable.findFirst({
+		where: and(
+			eq(meetingTable.conversationId, conversationId),
+			eq(meetingTable.status, MeetingStatus.proposed),
+		),
+		orderBy: desc(meetingTable.createdAt),
+	});
+
+	return meeting ?? null;
+}
+
+async function findMeeting(
+	meetingId: string,
+	organizationId: string,
+): Promise<Meeting> {
+	const meeting = await db.query.meetingTable.findFirst({
+		where: and(
+			eq(meetingTable.id, meetingId),
+			eq(meetingTable.organizationId, organizationId),
+		),
+	});
+
+	if (!meeting) {
+		throw new MeetingError("NOT_FOUND", "Meeting not found");
+	}
+
+	return meeting;
+}
+
+async function getMeetingContact(contactId: string, organizationId: string) {
+	const [contact] = await db
+		.select({
+			firstName: sql<string>`${contactTable.firstName}`,
+			lastName: sql<string>`${contactTable.lastName}`,
+			email: sql<string | null>`${contactTable.email}`,
+			timezone: sql<string | null>`${contactTable.timezone}`,
+		})
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.id, contactId),
+				eq(contactTable.organizationId, organizationId),
+			),
+		);
+
+	if (!contact) {
+		throw new MeetingError("NOT_FOUND", "Contact not found");
+	}
+
+	return contact;
+}
+
+function getContactTimezone(
+	contactTimezone: string | null,
+	fallback?: string | null,
+): string {
+	if (isValidTimezone(contactTimezone)) return contactTimezone as string;
+	if (isValidTimezone(fallback)) return fallback as string;
+	return calendarConfig.defaultTimezone;
+}
+
+/**
+ * Queue the reminder of a confirmed meeting (skipped when it's too close)
+ */
+async function scheduleMeetingReminder(meeting: Meeting): Promise<void> {
+	if (!meeting.startsAt) return;
+
+	const runAt = new Date(
+		meeting.startsAt.getTime() -
+			calendarConfig.reminderMinutesBefore * MINUTE_MS,
+	);
+	if (runAt.getTime() <= Date.now()) return;
+
+	await enqueueJob({
+		type: JobType.meetingReminder,
+		organizationId: meeting.organizationId,
+		payload: {
+			meetingId: meeting.id,
+			startsAt: meeting.startsAt.toISOString(),
+		},
+		runAt,
+		// One reminder per booking; a reschedule gets its own
+		uniqueKey: `meeting_reminder:${meeting.id}:${meeting.startsAt.getTime()}`,
+	});
+}
+
+/**
+ * Email the contact an invite (with ICS), reminder or cancellation.
+ * Failures are logged: the meeting is booked either way.
+ */
+async function sendMeetingEmail(
+	meeting: Meeting,
+	kind: "invite" | "reminder" | "cancellation",
+): Promise<void> {
+	if (!meeting.startsAt || !meeting.endsAt) return;
+
+	const [contact, organization] = await Promise.all([
+		getMeetingContact(meeting.contactId, meeting.organizationId),
+		db.query.organizationTable.findFirst({
+			where: eq(organizationTable.id, meeting.organizationId),
+			columns: { name: true },
+		}),
+	]);
+
+	if (!contact.email) return;
+
+	const organizationName = organization?.name ?? "";
+	const recipientName = `${contact.firstName} ${contact.lastName}`.trim();
+
+	const calendarEvent =
+		kind === "reminder"
+			? undefined
+			: buildIcsEvent({
+					uid: `${meeting.id}@${new URL(getBaseUrl()).hostname}`,
+					sequence: meeting.inviteSequence,
+					method: kind === "cancellation" ? "CANCEL" : "REQUEST",
+					start: meeting.startsAt,
+					end: meeting.endsAt,
+					summary: meeting.title,
+					description: meeting.description,
+					location: meeting.location ?? meeting.meetingUrl,
+					url: meeting.meetingUrl,
+					organizer: {
+						name: organizationName,
+						email: getOrganizerEmail(),
+					},
+					attendee: { name: recipientName, email: contact.email },
+				});
+
+	try {
+		await sendMeetingInviteEmail({
+			recipient: contact.email,
+			kind,
+			organizationName,
+			recipientName,
+			title: meeting.title,
+			when: formatMeetingTime(meeting.startsAt, meeting.timezone),
+			timezone: meeting.timezone,
+			location: meeting.location,
+			meetingUrl: meeting.meetingUrl,
+			calendarEvent,
+		});
+	} catch (error) {
+		logger.error(
+			{ error, meetingId: meeting.id, kind },
+			"Failed to send meeting email",
+		);
+	}
+}
+
+/**
+ * Address of EMAIL_FROM ("Name <address>" or a bare address)
+ */
+function getOrganizerEmail(): string {
+	const from = env.EMAIL_FROM ?? "";
+	return from.match(/<([^>]+)>/)?.[1] ?? from;
+}
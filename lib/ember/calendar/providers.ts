@@ -0,0 +1,73 @@
+import { calendarConfig } from "@/config/calendar.config";
+import type { meetingTable } from "@/lib/db/schema/tables";
+
+/**
+ * Calendar Provider Registry
+ *
+ * Providers report the host's busy times and mirror confirmed meetings as
+ * calendar events (Google Calendar, Outlook...). The built-in "local" provider
+ * keeps meetings in the database only, and tests register their own stub.
+ */
+
+export type Meeting = typeof meetingTable.$inferSelect;
+
+export interface CalendarProvider {
+	name: string;
+	/** Busy times outside the meetings table (other calendar events) */
+	getBusyIntervals(params: {
+		organizationId: string;
+		agentId?: string | null;
+		hostUserId?: string | null;
+		from: Date;
+		to: Date;
+	}): Promise<Array<{ start: Date; end: Date }>>;
+	/** Create or update the event of a confirmed meeting */
+	upsertEvent(
+		meeting: Meeting,
+	): Promise<{ externalEventId: string; meetingUrl?: string | null }>;
+	cancelEvent(meeting: Meeting): Promise<void>;
+}
+
+const providers = new Map<string, CalendarProvider>();
+
+/**
+ * Register (or replace) a calendar provider
+ */
+export function registerCalendarProvider(provider: CalendarProvider): void {
+	providers.set(provider.name, provider);
+}
+
+/**
+ * Remove a previously registered provider override
+ */
+export function unregisterCalendarProvider(name: string): void {
+	providers.delete(name);
+	registerBuiltInProviders();
+}
+
+export function getCalendarProvider(
+	name: string = calendarConfig.provider,
+): CalendarProvider {
+	const provider = providers.get(name);
+	if (!provider) {
+		throw new Error(`Unknown calendar provider "${name}"`);
+	}
+	return provider;
+}
+
+function registerBuiltInProviders(): void {
+	if (!providers.has("local")) {
+		providers.set("local", {
+			name: "local",
+			// Confirmed meetings are already read from the database
+			getBusyIntervals: async () => [],
+			upsertEvent: async (meeting) => ({
+				externalEventId: meeting.id,
+				meetingUrl: meeting.meetingUrl,
+			}),
+			cancelEvent: async () => {},
+		});
+	}
+}
+
+registerBuiltInProviders();
@@ -0,0 +1,168 @@
+import { and, eq } from "drizzle-orm";
+import { businessHoursConfig } from "@/config/business-hours.config";
+import { db } from "@/lib/db";
+import { AfterHoursAction } from "@/lib/db/schema/enums";
+import {
+	conversationMessageTable,
+	conversationTable,
+} from "@/lib/db/schema/tables";
+import {
+	getBusinessHours,
+	getNextOpening,
+	isWithinBusinessHours,
+} from "@/lib/ember/calendar/business-hours";
+import { logger } from "@/lib/logger";
+import {
+	publishConversationUpdated,
+	publishRealtimeEvent,
+	toRealtimeMessage,
+} from "@/lib/realtime/events";
+import { emitConversationTransferred } from "@/lib/webhooks/events";
+import { type ChannelConfig, channelManager } from "./manager";
+
+/**
+ * After Hours - What a channel does with messages received while the team
+ * is away, for channels configured to auto-reply during business hours only
+ */
+
+export interface AfterHoursResult {
+	/** Whether the AI agent should still answer the message */
+	aiReply: boolean;
+	/** Set when the message arrived outside business hours */
+	action?: AfterHoursAction;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Apply the channel's after-hours action to an inbound message.
+ * Within business hours (or without businessHoursOnly) the AI answers as usual.
+ */
+export async function applyAfterHoursPolicy(
+	conversationId: string,
+	config: Pick<
+		ChannelConfig,
+		"organizationId" | "businessHoursOnly" | "afterHoursAction" | "awayMessage"
+	>,
+	receivedAt: Date = new Date(),
+): Promise<AfterHoursResult> {
+	if (!config.businessHoursOnly) {
+		return { aiReply: true };
+	}
+
+	const businessHours = await getBusinessHours(config.organizationId);
+	if (isWithinBusinessHours(businessHours, receivedAt)) {
+		return { aiReply: true };
+	}
+
+	const action = config.afterHoursAction;
+	if (action === AfterHoursAction.aiReply) {
+		return { aiReply: true, action };
+	}
+
+	const conversation = await db.query.conversationTable.findFirst({
+		where: and(
+			eq(conversationTable.id, conversationId),
+			eq(conversationTable.organizationId, config.organizationId),
+		),
+	});
+	if (!conversation) {
+		return { aiReply: false, action };
+	}
+
+	if (
+		action === AfterHoursAction.queueForHuman &&
+		!conversation.transferredToHuman
+	) {
+		const nextOpening = getNextOpening(businessHours, receivedAt);
+		await queueForNextShift(conversation, nextOpening);
+	}
+
+	const cooldownMs = businessHoursConfig.awayMessageCooldownHours * HOUR_MS;
+	const recentlySent =
+		conversation.awayMessageSentAt &&
+		receivedAt.getTime() - conversation.awayMessageSentAt.getTime() <
+			cooldownMs;
+
+	if (!recentlySent) {
+		const content =
+			config.awayMessage ||
+			businessHours.awayMessage ||
+			businessHoursConfig.defaultAwayMessage;
+
+		try {
+			await channelManager.sendMessage(conversationId, { content });
+			await db
+				.update(conversationTable)
+				.set({ awayMessageSentAt: receivedAt })
+				.where(eq(conversationTable.id, conversationId));
+		} catch (error) {
+			// The message is kept for the team even if the away message fails
+			logger.error(
+				{ error, conversationId },
+				"Failed to send after-hours away message",
+			);
+		}
+	}
+
+	logger.info(
+		{ conversationId, action, awayMessageSent: !recentlySent },
+		"Message received outside business hours",
+	);
+
+	return { aiReply: false, action };
+}
+
+/**
+ * Hand the conversation to the human inbox, to be picked up when the team is back
+ */
+async function queueForNextShift(
+	conversation: typeof conversationTable.$inferSelect,
+	nextOpening: Date | null,
+): Promise<void> {
+	const reason = "Received outside business hours";
+
+	const [updated] = await db
+		.update(conversationTable)
+		.set({
+			transferredToHuman: true,
+			transferReason: reason,
+			transferredAt: new Date(),
+			status: "active",
+		})
+		.where(eq(conversationTable.id, conversation.id))
+		.returning();
+
+	const [systemMessage] = await db
+		.insert(conversationMessageTable)
+		.values({
+			conversationId: conversation.id,
+			direction: "outbound",
+			role: "system",
+			content: nextOpening
+				? `Conversation queued for the team. ${reason}, next opening ${nextOpening.toISOString()}.`
+				: `Conversation queued for the team. ${reason}.`,
+			contentType: "text",
+			channel: conversation.channel,
+			actionTriggered: JSON.stringify({
+				type: "after-hours",
+				action: AfterHoursAction.queueForHuman,
+				nextOpening: nextOpening?.toISOString() ?? null,
+			}),
+		} as unknown as typeof conversationMessageTable.$inferInsert)
+		.returning();
+
+	if (updated) {
+		await publishConversationUpdated(updated);
+		await emitConversationTransferred(updated);
+	}
+	if (systemMessage) {
+		await publishRealtimeEvent({
+			type: "message.created",
+			organizationId: conversation.organizationId,
+			conversationId: conversation.id,
+			contactId: conversation.contactId,
+			message: toRealtimeMessage(systemMessage),
+		});
+	}
+}
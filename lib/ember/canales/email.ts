@@ -1,5 +1,6 @@
 import crypto from "node:crypto";
 import { sendEmail } from "@/lib/email";
+import { env } from "@/lib/env";
 import type {
 	ChannelAdapter,
 	ChannelConfig,
@@ -44,6 +45,10 @@ export class EmailAdapter implements ChannelAdapter {
 			contentType: "text",
 			channel: "email",
 			externalId: data.id,
+			sender: {
+				...parseEmailAddress(data.from),
+				accountId: data.to,
+			},
 			metadata: {
 				from: data.from,
 				to: data.to,
@@ -90,14 +95,23 @@ export class EmailAdapter implements ChannelAdapter {
 		};
 	}
 
+	getAccountId(credentials: Record<string, unknown>): string | undefined {
+		const address =
+			(credentials.inboundEmail as string | undefined) ||
+			(credentials.fromEmail as string | undefined);
+		return address?.toLowerCase() || undefined;
+	}
+
 	validateWebhook(payload: unknown, signature: string): boolean {
 		// Resend webhook validation
-		const webhookSecret = process.env.RESEND_WEBHOOK_SECRET || "";
+		const webhookSecret = env.RESEND_WEBHOOK_SECRET || "";
 		if (!webhookSecret) {
-			return true; // Skip validation if not configured
+			throw new Error("RESEND_WEBHOOK_SECRET not configured");
 		}
 
-		const payloadString = JSON.stringify(payload);
+		// Signatures are computed over the raw request body
+		const payloadString =
+			typeof payload === "string" ? payload : JSON.stringify(payload);
 		const hmac = crypto.createHmac("sha256", webhookSecret);
 		hmac.update(payloadString);
 		const calculatedSignature = hmac.digest("hex");
@@ -131,3 +145,16 @@ export class EmailAdapter implements ChannelAdapter {
     `.trim();
 	}
 }
+
+/**
+ * Parse "Name <address>" into sender details
+ */
+function parseEmailAddress(
+	value: string,
+): NonNullable<NormalizedMessage["sender"]> {
+	const match = value.match(/^\s*"?([^"<]*)"?\s*<([^>]+)>\s*$/);
+	const email = (match?.[2] ?? value).trim().toLowerCase();
+	const name = match?.[1]?.trim();
+
+	return { identifier: email, email, name: name || undefined };
+}
@@ -1,4 +1,5 @@
 import crypto from "node:crypto";
+import { env } from "@/lib/env";
 import type {
 	ChannelAdapter,
 	ChannelConfig,
@@ -77,6 +78,12 @@ export class InstagramAdapter implements ChannelAdapter {
 			channel: "instagram",
 			externalId: message.mid,
 			mediaUrl,
+			sender: messaging?.sender.id
+				? {
+						identifier: messaging.sender.id,
+						accountId: messaging.recipient.id,
+					}
+				: undefined,
 			metadata: {
 				senderId: messaging?.sender.id,
 				recipientId: messaging?.recipient.id,
@@ -148,13 +155,24 @@ export class InstagramAdapter implements ChannelAdapter {
 		};
 	}
 
+	getAccountId(credentials: Record<string, unknown>): string | undefined {
+		// Messaging webhooks are addressed to the Instagram professional account
+		return (
+			(credentials.instagramAccountId as string | undefined) ||
+			(credentials.pageId as string | undefined) ||
+			undefined
+		);
+	}
+
 	validateWebhook(payload: unknown, signature: string): boolean {
-		const appSecret = process.env.INSTAGRAM_APP_SECRET || "";
+		const appSecret = env.INSTAGRAM_APP_SECRET || "";
 		if (!appSecret) {
 			throw new Error("INSTAGRAM_APP_SECRET not configured");
 		}
 
-		const payloadString = JSON.stringify(payload);
+		// Signatures are computed over the raw request body
+		const payloadString =
+			typeof payload === "string" ? payload : JSON.stringify(payload);
 		const hmac = crypto.createHmac("sha256", appSecret);
 		hmac.update(payloadString);
 		const calculatedSignature = `sha256=${hmac.digest("hex")}`;
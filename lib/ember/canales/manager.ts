@@ -1,12 +1,47 @@
-import { and, eq } from "drizzle-orm";
+import { and, desc, eq, isNotNull, isNull, ne, sql } from "drizzle-orm";
+import {
+	includesSecretField,
+	recordCredentialChange,
+} from "@/lib/credentials/audit";
+import { getChangedFields, mergeCredentials } from "@/lib/credentials/secrets";
+import {
+	decryptCredentials,
+	encryptCredentials,
+	getCredentialsKeyId,
+} from "@/lib/credentials/vault";
 import { db } from "@/lib/db";
-import type { ChannelType } from "@/lib/db/schema/enums";
+import {
+	type AfterHoursAction,
+	ChannelType,
+	ContactSourceType,
+	ContactStatus,
+	ConversationStatus,
+	CredentialAuditAction,
+	CredentialResourceType,
+	HeatScoreSignalType,
+	MessageDeliveryStatus,
+} from "@/lib/db/schema/enums";
 import {
 	channelConfigTable,
+	contactSourceTable,
 	contactTable,
 	conversationMessageTable,
 	conversationTable,
 } from "@/lib/db/schema/tables";
+import {
+	findContactByChannelIdentity,
+	getRecipientIdentity,
+	recordChannelIdentity,
+} from "@/lib/ember/memoria/identities";
+import { findOrCreateContact } from "@/lib/ember/memoria/queries";
+import { rescoreContacts } from "@/lib/ember/memoria/scoring";
+import { logger } from "@/lib/logger";
+import { publishRealtimeEvent, toRealtimeMessage } from "@/lib/realtime/events";
+import { emitMessageReceived } from "@/lib/webhooks/events";
+import { EmailAdapter } from "./email";
+import { InstagramAdapter } from "./instagram";
+import { SMSAdapter } from "./sms";
+import { WhatsAppAdapter } from "./whatsapp";
 
 /**
  * Normalized message format for all channels
@@ -23,6 +58,15 @@ export interface NormalizedMessage {
 	externalId?: string;
 	mediaUrl?: string;
 	mediaMimeType?: string;
+	/** Sender identity extracted from the provider payload (inbound only) */
+	sender?: {
+		identifier: string; // wa_id, PSID/IGSID, phone number or email
+		// Receiving account scoping the identifier (page / IG account, phone_number_id, inbound address)
+		accountId?: string;
+		phone?: string;
+		email?: string;
+		name?: string;
+	};
 	metadata?: Record<string, unknown>;
 }
 
@@ -37,6 +81,8 @@ export interface ChannelConfig {
 	credentials: Record<string, unknown>;
 	autoReply: boolean;
 	businessHoursOnly: boolean;
+	afterHoursAction: AfterHoursAction;
+	awayMessage: string | null;
 }
 
 /**
@@ -67,11 +113,28 @@ export interface ChannelAdapter {
 	}>;
 
 	/**
-	 * Validate webhook signature
+	 * Provider account id that inbound webhooks are addressed to
+	 */
+	getAccountId(credentials: Record<string, unknown>): string | undefined;
+
+	/**
+	 * Validate webhook signature (payload is the raw request body when available)
 	 */
 	validateWebhook(payload: unknown, signature: string): boolean;
 }
 
+/**
+ * Contact source used when a contact is first seen on a channel
+ */
+const CHANNEL_SOURCE_TYPES: Partial<Record<ChannelType, ContactSourceType>> = {
+	whatsapp: ContactSourceType.whatsapp,
+	instagram: ContactSourceType.instagram,
+	facebook: ContactSourceType.facebook,
+	sms: ContactSourceType.phone,
+	calls: ContactSourceType.phone,
+	email: ContactSourceType.email,
+};
+
 /**
  * Channel Manager - Orchestrates multi-channel communication
  */
@@ -112,18 +175,113 @@ export class ChannelManager {
 
 		return {
 			...config,
-			credentials: config.credentials ? JSON.parse(config.credentials) : {},
+			credentials: decryptCredentials(config.credentials),
+		};
+	}
+
+	/**
+	 * Resolve the channel configuration an inbound webhook is addressed to
+	 */
+	async findChannelConfigByAccount(
+		channelType: ChannelType,
+		accountId: string,
+	): Promise<ChannelConfig | null> {
+		const config = await db.query.channelConfigTable.findFirst({
+			where: and(
+				eq(channelConfigTable.channelType, channelType),
+				eq(channelConfigTable.externalAccountId, accountId),
+			),
+		});
+
+		if (!config) {
+			// Configs saved before the account id was stored can't be matched
+			// until backfillExternalAccountIds runs
+			const unrouted = await db.query.channelConfigTable.findFirst({
+				where: and(
+					eq(channelConfigTable.channelType, channelType),
+					isNull(channelConfigTable.externalAccountId),
+					isNotNull(channelConfigTable.credentials),
+				),
+				columns: { id: true },
+			});
+			if (unrouted) {
+				logger.warn(
+					{ channelType, accountId },
+					"Webhook matched no channel config, some configs of this channel have no account id yet",
+				);
+			}
+			return null;
+		}
+
+		return {
+			...config,
+			credentials: decryptCredentials(config.credentials),
 		};
 	}
 
+	/**
+	 * Set the webhook routing key of configs saved before it was stored, from
+	 * their credentials. Returns the number of configs updated.
+	 */
+	async backfillExternalAccountIds(): Promise<number> {
+		const configs = await db
+			.select({
+				id: channelConfigTable.id,
+				channelType: channelConfigTable.channelType,
+				credentials: channelConfigTable.credentials,
+			})
+			.from(channelConfigTable)
+			.where(
+				and(
+					isNull(channelConfigTable.externalAccountId),
+					isNotNull(channelConfigTable.credentials),
+				),
+			);
+
+		let updated = 0;
+		for (const config of configs) {
+			try {
+				const accountId = this.getAdapter(config.channelType)?.getAccountId(
+					decryptCredentials(config.credentials),
+				);
+				if (!accountId) {
+					continue;
+				}
+
+				const rows = await db
+					.update(channelConfigTable)
+					.set({ externalAccountId: accountId })
+					.where(
+						and(
+							eq(channelConfigTable.id, config.id),
+							isNull(channelConfigTable.externalAccountId),
+						),
+					)
+					.returning({ id: channelConfigTable.id });
+				updated += rows.length;
+			} catch (error) {
+				logger.error(
+					{ error, channelConfigId: config.id },
+					"Failed to backfill channel account id",
+				);
+			}
+		}
+
+		if (updated > 0) {
+			logger.info({ updated }, "Backfilled channel account ids");
+		}
+		return updated;
+	}
+
 	/**
 	 * Process incoming message from any channel
+	 * Returns null when the message was already received (same externalId)
 	 */
 	async processIncomingMessage(
 		organizationId: string,
 		channelType: ChannelType,
 		payload: unknown,
-	): Promise<NormalizedMessage> {
+	): Promise<NormalizedMessage | null> {
 		const adapter = this.getAdapter(channelType);
 		if (!adapter) {
 			throw new Error(`No adapter registered for channel: ${channelType}`);
@@ -132,6 +290,60 @@ export class ChannelManager {
 		// Normalize the message
 		const normalizedMessage = await adapter.normalizeIncoming(payload);
 
+		// Providers retry webhooks, skip messages we already stored
+		if (normalizedMessage.externalId) {
+			const existing = await db.query.conversationMessageTable.findFirst({
+				where: and(
+					eq(conversationMessageTable.channel, channelType),
+					eq(conversationMessageTable.externalId, normalizedMessage.externalId),
+				),
+				columns: { id: true },
+			});
+
+			if (existing) {
+				return null;
+			}
+		}
+
+		// Resolve contact and conversation
+		if (!normalizedMessage.contactId) {
+			normalizedMessage.contactId = await this.resolveContact(
+				organizationId,
+				channelType,
+				normalizedMessage,
+			);
+		}
+
+		// Remember how to reach the sender on this channel
+		if (normalizedMessage.sender) {
+			await recordChannelIdentity({
+				organizationId,
+				contactId: normalizedMessage.contactId,
+				channel: channelType,
+				identifier: normalizedMessage.sender.identifier,
+				accountId: normalizedMessage.sender.accountId,
+				displayName: normalizedMessage.sender.name,
+			});
+		}
+
+		await rescoreContacts(
+			organizationId,
+			[normalizedMessage.contactId],
+			[
+				HeatScoreSignalType.recency,
+				HeatScoreSignalType.interactions,
+				HeatScoreSignalType.channel,
+			],
+		);
+
+		if (!normalizedMessage.conversationId) {
+			normalizedMessage.conversationId = await this.resolveConversation(
+				organizationId,
+				channelType,
+				normalizedMessage.contactId,
+			);
+		}
+
 		// Save to database
 		const savedMessages = await db
 			.insert(conversationMessageTable)
@@ -148,6 +360,12 @@ export class ChannelManager {
 				generatedByAi: false,
 				deliveryStatus: "received",
 			} as unknown as typeof conversationMessageTable.$inferInsert)
+			.onConflictDoNothing({
+				target: [
+					conversationMessageTable.channel,
+					conversationMessageTable.externalId,
+				],
+			})
 			.returning();
 
 		const savedMessage = (
@@ -155,9 +373,34 @@ export class ChannelManager {
 		)[0];
 
 		if (!savedMessage) {
+			// Lost a race against a concurrent delivery of the same webhook
+			if (normalizedMessage.externalId) {
+				return null;
+			}
 			throw new Error("Failed to save message");
 		}
 
+		await db
+			.update(conversationTable)
+			.set({
+				lastMessageAt: new Date(),
+				messageCount: sql`${conversationTable.messageCount} + 1`,
+			})
+			.where(eq(conversationTable.id, normalizedMessage.conversationId));
+
+		await publishRealtimeEvent({
+			type: "message.created",
+			organizationId,
+			conversationId: normalizedMessage.conversationId,
+			contactId: normalizedMessage.contactId,
+			message: toRealtimeMessage(savedMessage),
+		});
+		await emitMessageReceived(
+			organizationId,
+			normalizedMessage.contactId,
+			savedMessage,
+		);
+
 		return {
 			...normalizedMessage,
 			id: savedMessage.id,
@@ -196,89 +439,388 @@ export class ChannelManager {
 			throw new Error("Contact not found");
 		}
 
-		// Get channel config
+		// Web chat has no provider, the widget reads replies from the history
+		let result: { externalId?: string; status: string } = {
+			status: MessageDeliveryStatus.sent,
+		};
+
+		if (conversation.channel !== ChannelType.web) {
+			// Get channel config
+			const config = await this.getChannelConfig(
+				conversation.organizationId,
+				conversation.channel,
+			);
+
+			if (!config || !config.enabled) {
+				throw new Error(
+					`Channel ${conversation.channel} is not configured or disabled`,
+				);
+			}
+
+			// Get adapter
+			const adapter = this.getAdapter(conversation.channel);
+			if (!adapter) {
+				throw new Error(`No adapter for channel: ${conversation.channel}`);
+			}
+
+			const recipient = await this.resolveRecipient(
+				conversation.channel,
+				contact,
+			);
+
+			// Send through adapter
+			result = await adapter.sendMessage(config, recipient, {
+				content: message.content,
+				contentType: message.contentType,
+				mediaUrl: message.mediaUrl,
+			});
+		}
+
+		// Save to database
+		const [savedMessage] = await db
+			.insert(conversationMessageTable)
+			.values({
+				conversationId,
+				direction: "outbound",
+				role: message.sentById ? "human_agent" : "assistant",
+				content: message.content,
+				contentType: message.contentType || "text",
+				channel: conversation.channel,
+				externalId: result.externalId,
+				mediaUrl: message.mediaUrl,
+				generatedByAi: message.generatedByAi ?? false,
+				model: message.model,
+				creditsUsed: message.creditsUsed ?? 0,
+				deliveryStatus: result.status,
+				sentById: message.sentById,
+			} as unknown as typeof conversationMessageTable.$inferInsert)
+			.returning();
+
+		// Update conversation last message timestamp
+		await db
+			.update(conversationTable)
+			.set({
+				lastMessageAt: new Date(),
+				messageCount: db.$count(
+					conversationMessageTable,
+					eq(conversationMessageTable.conversationId, conversationId),
+				),
+			})
+			.where(eq(conversationTable.id, conversationId));
+
+		if (savedMessage) {
+			await publishRealtimeEvent({
+				type: "message.created",
+				organizationId: conversation.organizationId,
+				conversationId,
+				contactId: conversation.contactId,
+				message: toRealtimeMessage(savedMessage),
+			});
+		}
+	}
+
+	/**
+	 * Deliver an already-saved outbound message (e.g. an AI reply) through its channel
+	 */
+	async deliverMessage(messageId: string): Promise<void> {
+		const message = await db.query.conversationMessageTable.findFirst({
+			where: eq(conversationMessageTable.id, messageId),
+		});
+
+		if (!message) {
+			throw new Error("Message not found");
+		}
+
+		const conversation = await db.query.conversationTable.findFirst({
+			where: eq(conversationTable.id, message.conversationId),
+			with: {
+				contact: true,
+			},
+		});
+
+		const contact = conversation?.contact;
+		if (!conversation || !contact || Array.isArray(contact)) {
+			throw new Error("Conversation not found");
+		}
+
 		const config = await this.getChannelConfig(
 			conversation.organizationId,
 			conversation.channel,
 		);
+		const adapter = this.getAdapter(conversation.channel);
 
-		if (!config || !config.enabled) {
+		if (!config || !config.enabled || !adapter) {
 			throw new Error(
 				`Channel ${conversation.channel} is not configured or disabled`,
 			);
 		}
 
-		// Get adapter
-		const adapter = this.getAdapter(conversation.channel);
-		if (!adapter) {
-			throw new Error(`No adapter for channel: ${conversation.channel}`);
+		try {
+			const recipient = await this.resolveRecipient(
+				conversation.channel,
+				contact,
+			);
+			const result = await adapter.sendMessage(config, recipient, {
+				content: message.content,
+				contentType: message.contentType as
+					| "text"
+					| "image"
+					| "audio"
+					| "video"
+					| "document",
+				mediaUrl: message.mediaUrl ?? undefined,
+			});
+
+			await db
+				.update(conversationMessageTable)
+				.set({
+					externalId: result.externalId,
+					deliveryStatus: result.status,
+				} as Partial<typeof conversationMessageTable.$inferInsert>)
+				.where(eq(conversationMessageTable.id, messageId));
+
+			await publishRealtimeEvent({
+				type: "message.status",
+				organizationId: conversation.organizationId,
+				conversationId: conversation.id,
+				messageId,
+				deliveryStatus: result.status as MessageDeliveryStatus,
+			});
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : "Failed to deliver";
+
+			await db
+				.update(conversationMessageTable)
+				.set({
+					deliveryStatus: MessageDeliveryStatus.failed,
+					errorMessage,
+				})
+				.where(eq(conversationMessageTable.id, messageId));
+
+			await publishRealtimeEvent({
+				type: "message.status",
+				organizationId: conversation.organizationId,
+				conversationId: conversation.id,
+				messageId,
+				deliveryStatus: MessageDeliveryStatus.failed,
+				errorMessage,
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Apply a delivery receipt from the provider (sent / delivered / read / failed)
+	 */
+	async updateDeliveryStatus(
+		channelType: ChannelType,
+		externalId: string,
+		deliveryStatus: MessageDeliveryStatus,
+		errorMessage?: string,
+	): Promise<void> {
+		const [message] = await db
+			.update(conversationMessageTable)
+			.set({
+				deliveryStatus,
+				...(errorMessage && { errorMessage }),
+			})
+			.where(
+				and(
+					eq(conversationMessageTable.channel, channelType),
+					eq(conversationMessageTable.externalId, externalId),
+				),
+			)
+			.returning({
+				id: conversationMessageTable.id,
+				conversationId: conversationMessageTable.conversationId,
+			});
+
+		if (!message) {
+			return;
 		}
 
-		// Determine recipient identifier based on channel
-		let recipient = "";
-		switch (conversation.channel) {
-			case "whatsapp":
-			case "sms":
-			case "calls":
-				recipient = ("phone" in contact ? contact.phone : "") || "";
-				break;
-			case "email":
-				recipient = ("email" in contact ? contact.email : "") || "";
-				break;
-			case "instagram":
-			case "facebook":
-				// Would need to get social media identifier from contact metadata
-				recipient = ("externalId" in contact ? contact.externalId : "") || "";
-				break;
-			default:
-				throw new Error(`Unsupported channel: ${conversation.channel}`);
+		const conversation = await db.query.conversationTable.findFirst({
+			where: eq(conversationTable.id, message.conversationId),
+			columns: { organizationId: true },
+		});
+
+		if (conversation) {
+			await publishRealtimeEvent({
+				type: "message.status",
+				organizationId: conversation.organizationId,
+				conversationId: message.conversationId,
+				messageId: message.id,
+				deliveryStatus,
+				errorMessage,
+			});
 		}
+	}
+
+	/**
+	 * Channel handle to send a contact's messages to: the channel identity last
+	 * seen, or the contact's phone / email for channels addressed by them
+	 */
+	private async resolveRecipient(
+		channel: ChannelType,
+		contact: Record<string, unknown>,
+	): Promise<string> {
+		let recipient = await getRecipientIdentity(contact.id as string, channel);
 
 		if (!recipient) {
-			throw new Error(
-				`No recipient identifier for channel ${conversation.channel}`,
-			);
+			switch (channel) {
+				case "whatsapp":
+				case "sms":
+				case "calls":
+					recipient = contact.phone as string | null;
+					break;
+				case "email":
+					recipient = contact.email as string | null;
+					break;
+				case "instagram":
+				case "facebook":
+					// Scoped IDs are only known once the contact wrote to us
+					break;
+				default:
+					throw new Error(`Unsupported channel: ${channel}`);
+			}
 		}
 
-		// Send through adapter
-		const result = await adapter.sendMessage(config, recipient, {
-			content: message.content,
-			contentType: message.contentType,
-			mediaUrl: message.mediaUrl,
-		});
+		if (!recipient) {
+			throw new Error(`No recipient identifier for channel ${channel}`);
+		}
 
-		// Save to database
-		await db.insert(conversationMessageTable).values({
-			conversationId,
-			direction: "outbound",
-			role: message.sentById ? "human_agent" : "assistant",
-			content: message.content,
-			contentType: message.contentType || "text",
-			channel: conversation.channel,
-			externalId: result.externalId,
-			mediaUrl: message.mediaUrl,
-			generatedByAi: message.generatedByAi ?? false,
-			model: message.model,
-			creditsUsed: message.creditsUsed ?? 0,
-			deliveryStatus: result.status,
-			sentById: message.sentById,
-		} as unknown as typeof conversationMessageTable.$inferInsert);
+		return recipient;
+	}
+
+	/**
+	 * Find the sender's contact, creating it on first contact
+	 */
+	private async resolveContact(
+		organizationId: string,
+		channelType: ChannelType,
+		message: NormalizedMessage,
+	): Promise<string> {
+		const sender = message.sender;
+		const sourceType = CHANNEL_SOURCE_TYPES[channelType];
+
+		if (!sender || !sourceType) {
+			throw new Error(`Cannot identify sender for channel: ${channelType}`);
+		}
+
+		// Known sender on this channel
+		const knownContactId =
+			(await findContactByChannelIdentity(
+				organizationId,
+				channelType,
+				sender.identifier,
+			)) ??
+			(await this.findContactBySource(organizationId, sourceType, sender));
+
+		if (knownContactId) {
+			await db
+				.update(contactTable)
+				.set({
+					lastInteractionAt: new Date(),
+					lastInteractionChannel: channelType,
+					interactionCount: sql`${contactTable.interactionCount} + 1`,
+				})
+				.where(eq(contactTable.id, knownContactId));
+
+			return knownContactId;
+		}
+
+		const [firstName, ...lastName] = (sender.name || "").trim().split(/\s+/);
+		const contact = await findOrCreateContact(organizationId, {
+			email: sender.email,
+			phone: sender.phone,
+			firstName: firstName || sender.phone || sender.email || sender.identifier,
+			lastName: lastName.join(" "),
+			sourceType,
+			sourceIdentifier: sender.identifier,
+		});
 
-		// Update conversation last message timestamp
 		await db
-			.update(conversationTable)
-			.set({
-				lastMessageAt: new Date(),
-				messageCount: db.$count(
-					conversationMessageTable,
-					eq(conversationMessageTable.conversationId, conversationId),
+			.update(contactTable)
+			.set({ lastInteractionChannel: channelType })
+			.where(eq(contactTable.id, contact.id));
+
+		return contact.id;
+	}
+
+	/**
+	 * Contact recorded with this sender as a source, for contacts created
+	 * before channel identities were recorded
+	 */
+	private async findContactBySource(
+		organizationId: string,
+		sourceType: ContactSourceType,
+		sender: NonNullable<NormalizedMessage["sender"]>,
+	): Promise<string | null> {
+		const [known] = await db
+			.select({ id: contactTable.id })
+			.from(contactSourceTable)
+			.innerJoin(
+				contactTable,
+				eq(contactSourceTable.contactId, contactTable.id),
+			)
+			.where(
+				and(
+					eq(contactTable.organizationId, organizationId),
+					eq(contactTable.status, ContactStatus.active),
+					eq(contactSourceTable.sourceType, sourceType),
+					eq(contactSourceTable.sourceIdentifier, sender.identifier),
 				),
+			)
+			.limit(1);
+
+		return (known?.id as string | undefined) ?? null;
+	}
+
+	/**
+	 * Continue the contact's open conversation on this channel or start a new one
+	 */
+	private async resolveConversation(
+		organizationId: string,
+		channelType: ChannelType,
+		contactId: string,
+	): Promise<string> {
+		const open = await db.query.conversationTable.findFirst({
+			where: and(
+				eq(conversationTable.organizationId, organizationId),
+				eq(conversationTable.contactId, contactId),
+				eq(conversationTable.channel, channelType),
+				ne(conversationTable.status, ConversationStatus.closed),
+			),
+			orderBy: desc(conversationTable.lastMessageAt),
+			columns: { id: true },
+		});
+
+		if (open) {
+			return open.id;
+		}
+
+		const [conversation] = await db
+			.insert(conversationTable)
+			.values({
+				organizationId,
+				contactId,
+				channel: channelType,
+				status: ConversationStatus.active,
 			})
-			.where(eq(conversationTable.id, conversationId));
+			.returning({ id: conversationTable.id });
+
+		if (!conversation) {
+			throw new Error("Failed to create conversation");
+		}
+
+		return conversation.id;
 	}
 
 	/**
-	 * Update channel configuration
+	 * Update channel configuration.
+	 * Credentials are merged with the stored ones (masked secrets are kept),
+	 * encrypted, and secret changes are audited.
 	 */
 	async updateChannelConfig(
 		organizationId: string,
@@ -288,7 +830,10 @@ export class ChannelManager {
 			credentials?: Record<string, unknown>;
 			autoReply?: boolean;
 			businessHoursOnly?: boolean;
+			afterHoursAction?: AfterHoursAction;
+			awayMessage?: string | null;
 		},
+		actorId?: string,
 	): Promise<void> {
 		const existing = await db.query.channelConfigTable.findFirst({
 			where: and(
@@ -297,29 +842,70 @@ export class ChannelManager {
 			),
 		});
 
+		const { credentials: incoming, ...settings } = updates;
+		const previous = decryptCredentials(existing?.credentials);
+		const credentials = incoming
+			? mergeCredentials(previous, incoming)
+			: undefined;
+		const changedFields = credentials
+			? getChangedFields(previous, credentials)
+			: [];
+		const encrypted =
+			credentials && (changedFields.length > 0 || !existing?.credentials)
+				? encryptCredentials(credentials)
+				: undefined;
+
+		// Keep the webhook routing key in sync with the credentials
+		const externalAccountId = credentials
+			? (this.getAdapter(channelType)?.getAccountId(credentials) ?? null)
+			: undefined;
+
+		let configId: string;
 		if (existing) {
 			// Update existing
 			await db
 				.update(channelConfigTable)
 				.set({
-					...updates,
-					credentials: updates.credentials
-						? JSON.stringify(updates.credentials)
-						: undefined,
+					...settings,
+					credentials: encrypted,
+					externalAccountId,
 					updatedAt: new Date(),
 				})
 				.where(eq(channelConfigTable.id, existing.id));
+			configId = existing.id;
 		} else {
 			// Create new
-			await db.insert(channelConfigTable).values({
+			const [created] = await db
+				.insert(channelConfigTable)
+				.values({
+					organizationId,
+					channelType,
+					enabled: updates.enabled ?? true,
+					credentials: encrypted ?? null,
+					externalAccountId,
+					autoReply: updates.autoReply ?? false,
+					businessHoursOnly: updates.businessHoursOnly ?? false,
+					afterHoursAction: updates.afterHoursAction,
+					awayMessage: updates.awayMessage,
+				})
+				.returning({ id: channelConfigTable.id });
+			if (!created) {
+				throw new Error("Failed to create channel configuration");
+			}
+			configId = created.id;
+		}
+
+		if (encrypted && includesSecretField(changedFields)) {
+			await recordCredentialChange({
 				organizationId,
-				channelType,
-				enabled: updates.enabled ?? true,
-				credentials: updates.credentials
-					? JSON.stringify(updates.credentials)
-					: null,
-				autoReply: updates.autoReply ?? false,
-				businessHoursOnly: updates.businessHoursOnly ?? false,
+				resourceType: CredentialResourceType.channelConfig,
+				resourceId: configId,
+				action: existing
+					? CredentialAuditAction.updated
+					: CredentialAuditAction.created,
+				fields: changedFields,
+				keyId: getCredentialsKeyId(encrypted),
+				actorId,
 			});
 		}
 	}
@@ -358,3 +944,9 @@ export class ChannelManager {
 
 // Export singleton instance
 export const channelManager = new ChannelManager();
+
+// Register built-in adapters
+channelManager.registerAdapter(new WhatsAppAdapter());
+channelManager.registerAdapter(new InstagramAdapter());
+channelManager.registerAdapter(new SMSAdapter());
+channelManager.registerAdapter(new EmailAdapter());
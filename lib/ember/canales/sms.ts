@@ -1,4 +1,5 @@
 import crypto from "node:crypto";
+import { env } from "@/lib/env";
 import type {
 	ChannelAdapter,
 	ChannelConfig,
@@ -56,6 +57,11 @@ export class SMSAdapter implements ChannelAdapter {
 			externalId: data.MessageSid,
 			mediaUrl,
 			mediaMimeType,
+			sender: {
+				identifier: data.From,
+				phone: data.From,
+				accountId: data.To,
+			},
 			metadata: {
 				from: data.From,
 				to: data.To,
@@ -125,14 +131,19 @@ export class SMSAdapter implements ChannelAdapter {
 		};
 	}
 
+	getAccountId(credentials: Record<string, unknown>): string | undefined {
+		// Twilio posts the receiving number as `To`
+		return (credentials.phoneNumber as string | undefined) || undefined;
+	}
+
 	validateWebhook(payload: unknown, signature: string): boolean {
-		const authToken = process.env.TWILIO_AUTH_TOKEN || "";
+		const authToken = env.TWILIO_AUTH_TOKEN || "";
 		if (!authToken) {
 			throw new Error("TWILIO_AUTH_TOKEN not configured");
 		}
 
 		const data = payload as Record<string, string>;
-		const url = process.env.TWILIO_WEBHOOK_URL || "";
+		const url = env.TWILIO_WEBHOOK_URL || "";
 
 		// Twilio signature validation
 		const params = Object.keys(data)
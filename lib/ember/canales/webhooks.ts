@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import { type ChannelType, JobType } from "@/lib/db/schema/enums";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import { applyAfterHoursPolicy } from "./after-hours";
+import {
+	type ChannelConfig,
+	channelManager,
+	type NormalizedMessage,
+} from "./manager";
+
+/**
+ * Inbound webhook handling shared by app/api/webhooks/<channel> routes
+ */
+
+export interface IngestResult {
+	status: "processed" | "duplicate" | "ignored";
+	message?: NormalizedMessage;
+	config?: ChannelConfig;
+}
+
+/**
+ * Answer Meta's subscription handshake (WhatsApp / Instagram)
+ * GET ?hub.mode=subscribe&hub.verify_token=...&hub.challenge=...
+ */
+export function verifyMetaSubscription(
+	searchParams: URLSearchParams,
+	verifyToken: string | undefined,
+): NextResponse {
+	const mode = searchParams.get("hub.mode");
+	const token = searchParams.get("hub.verify_token");
+	const challenge = searchParams.get("hub.challenge");
+
+	if (mode === "subscribe" && verifyToken && token === verifyToken) {
+		return new NextResponse(challenge ?? "", { status: 200 });
+	}
+
+	return NextResponse.json({ error: "Verification failed" }, { status: 403 });
+}
+
+/**
+ * Parse a JSON webhook body, undefined when it isn't a JSON object
+ */
+export function parseWebhookBody<T extends object>(
+	body: string,
+): T | undefined {
+	try {
+		const payload: unknown = JSON.parse(body);
+		return typeof payload === "object" && payload !== null
+			? (payload as T)
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Verify the provider signature with the channel adapter
+ */
+export function verifyWebhookSignature(
+	channelType: ChannelType,
+	payload: unknown,
+	signature: string | null,
+): boolean {
+	const adapter = channelManager.getAdapter(channelType);
+	if (!adapter) {
+		return false;
+	}
+
+	try {
+		return adapter.validateWebhook(payload, signature ?? "");
+	} catch (error) {
+		// Missing app secret / auth token
+		logger.error({ error, channelType }, "Webhook signature check failed");
+		return false;
+	}
+}
+
+/**
+ * Resolve the organization from the receiving account and store the message
+ */
+export async function ingestWebhookMessage(
+	channelType: ChannelType,
+	accountId: string | undefined,
+	payload: unknown,
+): Promise<IngestResult> {
+	if (!accountId) {
+		logger.warn({ channelType }, "Webhook without receiving account");
+		return { status: "ignored" };
+	}
+
+	const config = await channelManager.findChannelConfigByAccount(
+		channelType,
+		accountId,
+	);
+
+	if (!config || !config.enabled) {
+		logger.warn(
+			{ channelType, accountId },
+			"Webhook for unknown or disabled channel",
+		);
+		return { status: "ignored" };
+	}
+
+	const message = await channelManager.processIncomingMessage(
+		config.organizationId,
+		channelType,
+		payload,
+	);
+
+	if (!message) {
+		logger.info(
+			{ channelType, accountId },
+			"Duplicate webhook message skipped",
+		);
+		return { status: "duplicate" };
+	}
+
+	return { status: "processed", message, config };
+}
+
+/**
+ * Queue the AI reply for an ingested message.
+ * The reply is generated and delivered by the job worker, with retries.
+ * Outside business hours the channel's after-hours action applies first.
+ */
+export async function queueIncomingReply(
+	message: NormalizedMessage,
+	config: ChannelConfig,
+): Promise<void> {
+	if (!config.autoReply) {
+		return;
+	}
+
+	const afterHours = await applyAfterHoursPolicy(
+		message.conversationId,
+		config,
+	);
+	if (!afterHours.aiReply) {
+		return;
+	}
+
+	await enqueueJob({
+		type: JobType.aiReply,
+		organizationId: config.organizationId,
+		payload: {
+			conversationId: message.conversationId,
+			contactId: message.contactId,
+			channel: message.channel,
+			messageId: message.id,
+			content: message.content,
+		},
+		uniqueKey: `ai_reply:${message.id}`,
+	});
+}
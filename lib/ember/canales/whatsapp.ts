@@ -1,4 +1,5 @@
 import crypto from "node:crypto";
+import { env } from "@/lib/env";
 import type {
 	ChannelAdapter,
 	ChannelConfig,
@@ -31,6 +32,10 @@ export class WhatsAppAdapter implements ChannelAdapter {
 							video?: { id: string; mime_type: string };
 							document?: { id: string; filename: string; mime_type: string };
 						}>;
+						contacts?: Array<{
+							wa_id: string;
+							profile?: { name?: string };
+						}>;
 						metadata?: {
 							phone_number_id: string;
 						};
@@ -98,6 +103,12 @@ export class WhatsAppAdapter implements ChannelAdapter {
 			externalId: message.id,
 			mediaUrl,
 			mediaMimeType,
+			sender: {
+				identifier: message.from,
+				phone: `+${message.from}`,
+				name: value?.contacts?.[0]?.profile?.name,
+				accountId: value?.metadata?.phone_number_id,
+			},
 			metadata: {
 				from: message.from,
 				timestamp: message.timestamp,
@@ -175,16 +186,25 @@ export class WhatsAppAdapter implements ChannelAdapter {
 		};
 	}
 
+	/**
+	 * Webhooks are addressed to the business phone number id
+	 */
+	getAccountId(credentials: Record<string, unknown>): string | undefined {
+		return (credentials.phoneNumberId as string | undefined) || undefined;
+	}
+
 	/**
 	 * Validate WhatsApp webhook signature
 	 */
 	validateWebhook(payload: unknown, signature: string): boolean {
-		const appSecret = process.env.WHATSAPP_APP_SECRET || "";
+		const appSecret = env.WHATSAPP_APP_SECRET || "";
 		if (!appSecret) {
 			throw new Error("WHATSAPP_APP_SECRET not configured");
 		}
 
-		const payloadString = JSON.stringify(payload);
+		// Signatures are computed over the raw request body
+		const payloadString =
+			typeof payload === "string" ? payload : JSON.stringify(payload);
 		const hmac = crypto.createHmac("sha256", appSecret);
 		hmac.update(payloadString);
 		const calculatedSignature = `sha256=${hmac.digest("hex")}`;
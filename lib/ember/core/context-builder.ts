@@ -1,11 +1,23 @@
-import { and, desc, eq } from "drizzle-orm";
+import { and, asc, desc, eq, gt, inArray, or } from "drizzle-orm";
 import { db } from "@/lib/db";
+import { MeetingStatus } from "@/lib/db/schema/enums";
 import {
 	contactAgreementTable,
 	contactNoteTable,
 	contactTable,
 	conversationMessageTable,
+	meetingTable,
 } from "@/lib/db/schema/tables";
+import {
+	getBusinessHours,
+	getNextOpening,
+	isWithinBusinessHours,
+} from "@/lib/ember/calendar/business-hours";
+import {
+	type KnowledgeMatch,
+	retrieveKnowledge,
+} from "@/lib/ember/knowledge/retrieval";
+import { logger } from "@/lib/logger";
 
 /**
  * Context Builder - Constructs comprehensive context from Memoria
@@ -53,6 +65,30 @@ export interface ContactContext {
 		topics: string[];
 		sentiment: string | null;
 	};
+	/** Slot proposals waiting for an answer and upcoming meetings */
+	meetings: Array<{
+		id: string;
+		title: string;
+		status: string;
+		startsAt: Date | null;
+		timezone: string;
+		proposedSlots: string[];
+	}>;
+	/** Knowledge base passages relevant to the current message */
+	knowledge: KnowledgeMatch[];
+	/** Whether the team is available now, when the organization has business hours */
+	businessHours: {
+		open: boolean;
+		nextOpening: Date | null;
+		timezone: string;
+	} | null;
+}
+
+export interface BuildContextOptions {
+	/** Agent answering (scopes agent-specific knowledge documents) */
+	agentId: string;
+	/** Current message, used to retrieve knowledge */
+	query: string;
 }
 
 /**
@@ -61,6 +97,7 @@ export interface ContactContext {
 export async function buildContext(
 	contactId: string,
 	conversationId: string,
+	options?: BuildContextOptions,
 ): Promise<ContactContext> {
 	// Get contact information
 	const contact = await db.query.contactTable.findFirst({
@@ -95,9 +132,34 @@ export async function buildContext(
 		limit: 10,
 	});
 
+	// Get pending proposals and upcoming meetings
+	const meetings = await db.query.meetingTable.findMany({
+		where: and(
+			eq(meetingTable.contactId, contactId),
+			or(
+				eq(meetingTable.status, MeetingStatus.proposed),
+				and(
+					inArray(meetingTable.status, [MeetingStatus.confirmed]),
+					gt(meetingTable.startsAt, new Date()),
+				),
+			),
+		),
+		orderBy: asc(meetingTable.startsAt),
+		limit: 5,
+	});
+
+	// Get whether the team is currently available
+	const businessHours = await getBusinessHours(contact.organizationId);
+	const now = new Date();
+
 	// Get conversation summary
 	const conversationSummary = await buildConversationSummary(conversationId);
 
+	// Get knowledge relevant to the current message
+	const knowledge = options
+		? await findRelevantKnowledge(contact.organizationId, options)
+		: [];
+
 	return {
 		contact: {
 			id: contact.id,
@@ -134,10 +196,51 @@ export async function buildContext(
 			createdAt: note.createdAt,
 			createdBy: note.createdById,
 		})),
+		meetings: meetings.map((meeting) => ({
+			id: meeting.id,
+			title: meeting.title,
+			status: meeting.status,
+			startsAt: meeting.startsAt,
+			timezone: meeting.timezone,
+			proposedSlots: meeting.proposedSlots
+				? (JSON.parse(meeting.proposedSlots) as string[])
+				: [],
+		})),
 		conversationSummary,
+		knowledge,
+		businessHours: businessHours.configured
+			? {
+					open: isWithinBusinessHours(businessHours, now),
+					nextOpening: getNextOpening(businessHours, now),
+					timezone: businessHours.timezone,
+				}
+			: null,
 	};
 }
 
+/**
+ * Retrieve knowledge for the current message.
+ * Replies still go out without it if retrieval fails.
+ */
+async function findRelevantKnowledge(
+	organizationId: string,
+	options: BuildContextOptions,
+): Promise<KnowledgeMatch[]> {
+	try {
+		return await retrieveKnowledge({
+			organizationId,
+			agentId: options.agentId,
+			query: options.query,
+		});
+	} catch (error) {
+		logger.warn(
+			{ error, organizationId, agentId: options.agentId },
+			"Failed to retrieve knowledge",
+		);
+		return [];
+	}
+}
+
 /**
  * Build conversation summary
  */
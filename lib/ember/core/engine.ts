@@ -1,5 +1,6 @@
+import { generateText, type ModelMessage, stepCountIs, type ToolSet } from "ai";
 import { and, desc, eq, isNull } from "drizzle-orm";
-import { consumeCredits } from "@/lib/billing/credits";
+import { calculateCreditCost, consumeCredits } from "@/lib/billing/credits";
 import { db } from "@/lib/db";
 import {
 	agentAssignmentTable,
@@ -7,11 +8,15 @@ import {
 	conversationMessageTable,
 	conversationTable,
 } from "@/lib/db/schema/tables";
-import { actionsExecutor } from "@/lib/ember/actions/executor";
+import { isValidTimezone } from "@/lib/ember/calendar/availability";
+import { formatMeetingTime } from "@/lib/ember/calendar/meetings";
 import { channelManager } from "@/lib/ember/canales/manager";
+import { toKnowledgeCitations } from "@/lib/ember/knowledge/retrieval";
 import { logger } from "@/lib/logger";
+import { publishRealtimeEvent, toRealtimeMessage } from "@/lib/realtime/events";
 import { buildContext } from "./context-builder";
-import { decideActions } from "./decision-maker";
+import { buildActionTools, type TriggeredAction } from "./decision-maker";
+import { resolveModel } from "./providers";
 
 /**
  * Ember Core - AI Conversation Engine
@@ -25,9 +30,12 @@ interface ProcessMessageInput {
 	organizationId: string;
 	contactId: string;
 	channel: string;
+	/** Inbound message being answered, at most one reply is saved for it */
+	replyToId?: string;
 }
 
 interface ProcessMessageResult {
+	messageId: string;
 	response: string;
 	actionsTriggered: Array<{
 		action: string;
@@ -38,14 +46,23 @@ interface ProcessMessageResult {
 	model: string;
 }
 
+/** Max model round-trips per message when the agent calls tools */
+const MAX_TOOL_STEPS = 5;
+
 /**
  * Main processing function for incoming messages
  */
 export async function processMessage(
 	input: ProcessMessageInput,
 ): Promise<ProcessMessageResult> {
-	const { conversationId, messageContent, organizationId, contactId, channel } =
-		input;
+	const {
+		conversationId,
+		messageContent,
+		organizationId,
+		contactId,
+		channel,
+		replyToId,
+	} = input;
 
 	try {
 		// 1. Get or assign agent to conversation
@@ -56,8 +73,11 @@ export async function processMessage(
 
 		const agent = assignment.agent as unknown as typeof agentTable.$inferSelect;
 
-		// 2. Build context from Memoria
-		const context = await buildContext(contactId, conversationId);
+		// 2. Build context from Memoria (and the knowledge base)
+		const context = await buildContext(contactId, conversationId, {
+			agentId: agent.id,
+			query: messageContent,
+		});
 
 		// 3. Get conversation history
 		const messages = await getConversationHistory(conversationId, 20);
@@ -65,7 +85,15 @@ export async function processMessage(
 		// 4. Prepare system prompt with agent configuration
 		const systemPrompt = buildSystemPrompt(agent, context);
 
-		// 5. Call AI model
+		// 5. Offer allowed actions to the model as tools
+		const actionsTriggered: TriggeredAction[] = [];
+		const tools = buildActionTools(
+			agent,
+			{ organizationId, conversationId, contactId, channel, agentId: agent.id },
+			actionsTriggered,
+		);
+
+		// 6. Call AI model (tool calls are validated and executed during generation)
 		const aiResponse = await callAIModel({
 			systemPrompt,
 			messages,
@@ -73,65 +101,78 @@ export async function processMessage(
 			temperature: agent.temperature || 70,
 			maxTokens: agent.maxTokens || 1000,
 			model: agent.model,
+			tools,
 		});
 
-		// 6. Decide actions based on response
-		const actions = await decideActions(
-			aiResponse.content,
-			agent,
-			context,
-			conversationId,
-		);
-
-		// 7. Execute actions in parallel
-		const actionResults = await Promise.allSettled(
-			actions.map((action) => actionsExecutor.execute(action)),
-		);
-
-		// 8. Save AI message
-		await db.insert(conversationMessageTable).values({
-			conversationId,
-			direction: "outbound",
-			role: "assistant",
-			content: aiResponse.content,
-			contentType: "text",
-			channel,
-			generatedByAi: true,
-			model: agent.model,
-			creditsUsed: aiResponse.tokensUsed,
-			actionTriggered: actions.length > 0 ? JSON.stringify(actions) : null,
-		} as unknown as typeof conversationMessageTable.$inferInsert);
+		// 7. Save AI message
+		const [savedMessage] = await db
+			.insert(conversationMessageTable)
+			.values({
+				conversationId,
+				direction: "outbound",
+				role: "assistant",
+				content: aiResponse.content,
+				contentType: "text",
+				channel,
+				generatedByAi: true,
+				replyToId,
+				model: agent.model,
+				creditsUsed: aiResponse.creditsUsed,
+				actionTriggered:
+					actionsTriggered.length > 0 ? JSON.stringify(actionsTriggered) : null,
+				citations:
+					context.knowledge.length > 0
+						? JSON.stringify(toKnowledgeCitations(context.knowledge))
+						: null,
+			} as unknown as typeof conversationMessageTable.$inferInsert)
+			.returning();
+
+		if (savedMessage) {
+			await publishRealtimeEvent({
+				type: "message.created",
+				organizationId,
+				conversationId,
+				contactId,
+				message: toRealtimeMessage(savedMessage),
+			});
+		}
 
-		// 9. Send response through channel (saved in DB, actual sending happens via webhooks/channel adapters)
-		// The response is already saved in conversationMessageTable above
+		// 8. Send response through channel
+		// The response is saved above; callers deliver it with channelManager.deliverMessage(messageId)
 
-		// 10. Deduct credits
+		// 9. Deduct credits
 		await consumeCredits({
 			organizationId,
-			amount: aiResponse.tokensUsed,
+			amount: aiResponse.creditsUsed,
 			description: `AI response in conversation ${conversationId}`,
+			model: agent.model,
+			inputTokens: aiResponse.inputTokens,
+			outputTokens: aiResponse.outputTokens,
+			referenceType: "conversation",
+			referenceId: conversationId,
 			metadata: { conversationId, agentId: agent.id },
 		});
 
-		// 11. Update assignment stats
+		// 10. Update assignment stats
 		if (assignment.id) {
 			await db
 				.update(agentAssignmentTable)
 				.set({
 					messagesHandled: (assignment.messagesHandled || 0) + 1,
-					creditsUsed: (assignment.creditsUsed || 0) + aiResponse.tokensUsed,
+					creditsUsed: (assignment.creditsUsed || 0) + aiResponse.creditsUsed,
 				})
 				.where(eq(agentAssignmentTable.id, assignment.id));
 		}
 
 		return {
+			messageId: savedMessage?.id ?? "",
 			response: aiResponse.content,
-			actionsTriggered: actionResults.map((result, i) => ({
-				action: actions[i]?.type || "unknown",
-				status: result.status === "fulfilled" ? "success" : "failed",
-				result: result.status === "fulfilled" ? result.value : undefined,
+			actionsTriggered: actionsTriggered.map(({ action, status, result }) => ({
+				action,
+				status,
+				result,
 			})),
-			creditsUsed: aiResponse.tokensUsed,
+			creditsUsed: aiResponse.creditsUsed,
 			model: agent.model,
 		};
 	} catch (error) {
@@ -248,12 +289,22 @@ function buildSystemPrompt(
 		prompt += "\n";
 	}
 
-	// Add knowledge base
+	// Add knowledge base (legacy inline entries)
 	if (knowledgeBase && Object.keys(knowledgeBase).length > 0) {
 		prompt += "## Knowledge Base:\n";
 		prompt += JSON.stringify(knowledgeBase, null, 2) + "\n\n";
 	}
 
+	// Add knowledge documents relevant to the current message
+	if (context && context.knowledge.length > 0) {
+		prompt += "## Relevant Knowledge:\n";
+		prompt +=
+			"Use these excerpts from the organization's documents when they answer the question. If they don't, do not make up the information.\n\n";
+		context.knowledge.forEach((match, index) => {
+			prompt += `[${index + 1}] ${match.title}\n${match.content}\n\n`;
+		});
+	}
+
 	// Add contact context
 	if (context) {
 		prompt += "## Contact Information:\n";
@@ -264,6 +315,9 @@ function buildSystemPrompt(
 		if (context.contact.phone) {
 			prompt += `- Phone: ${context.contact.phone}\n`;
 		}
+		if (isValidTimezone(context.contact.timezone)) {
+			prompt += `- Timezone: ${context.contact.timezone} (local time now: ${formatMeetingTime(new Date(), context.contact.timezone as string)})\n`;
+		}
 		prompt += `- Heat Score: ${context.contact.heatScore}/100\n`;
 		prompt += `- Last Interaction: ${context.contact.lastInteractionAt}\n`;
 		prompt += `- Total Interactions: ${context.contact.interactionCount}\n`;
@@ -275,6 +329,30 @@ function buildSystemPrompt(
 			}
 		}
 
+		if (context.meetings.length > 0) {
+			prompt += "\n## Meetings:\n";
+			for (const meeting of context.meetings) {
+				if (meeting.status === "proposed") {
+					const slots = meeting.proposedSlots
+						.map((slot) => formatMeetingTime(new Date(slot), meeting.timezone))
+						.join("; ");
+					prompt += `- ${meeting.title}: slots offered, waiting for the contact to pick one (${slots}). Proposed start times: ${meeting.proposedSlots.join(", ")}\n`;
+				} else if (meeting.startsAt) {
+					prompt += `- ${meeting.title}: confirmed for ${formatMeetingTime(meeting.startsAt, meeting.timezone)} (${meeting.timezone})\n`;
+				}
+			}
+		}
+
+		if (context.businessHours && !context.businessHours.open) {
+			const { nextOpening, timezone } = context.businessHours;
+			prompt += "\n## Business Hours:\n";
+			prompt += nextOpening
+				? `The team is currently away and back on ${formatMeetingTime(nextOpening, timezone)} (${timezone}). `
+				: "The team is currently away. ";
+			prompt +=
+				"Do not promise an immediate answer from a person; offer to help yourself or let them know when the team is back.\n";
+		}
+
 		prompt += "\n";
 	}
 
@@ -282,53 +360,75 @@ function buildSystemPrompt(
 }
 
 /**
- * Call AI model (supports multiple providers)
+ * Call AI model (supports multiple providers, see ./providers)
  */
-async function callAIModel(params: {
+export async function callAIModel(params: {
 	systemPrompt: string;
 	messages: Array<{ role: string; content: string }>;
 	userMessage: string;
 	temperature: number;
 	maxTokens: number;
 	model: string;
-}): Promise<{ content: string; tokensUsed: number }> {
-	const { systemPrompt, messages, userMessage, temperature, maxTokens, model } =
-		params;
-
-	// For now, we'll use a placeholder
-	// In production, integrate with Anthropic Claude API or OpenAI
-	// Based on model string: "gpt-4", "claude-3-sonnet", etc.
-
-	// Placeholder response
-	logger.info(
-		{ model, messageCount: messages.length },
-		"AI model call (placeholder)",
+	tools?: ToolSet;
+}): Promise<{
+	content: string;
+	inputTokens: number;
+	outputTokens: number;
+	creditsUsed: number;
+}> {
+	const {
+		systemPrompt,
+		messages,
+		userMessage,
+		temperature,
+		maxTokens,
+		model,
+		tools,
+	} = params;
+
+	const { modelId, provider, languageModel } = resolveModel(model);
+
+	const history: ModelMessage[] = messages.map((msg) =>
+		msg.role === "user"
+			? { role: "user", content: msg.content }
+			: { role: "assistant", content: msg.content },
 	);
 
-	// TODO: Implement actual AI API calls
-	// Example for Claude:
-	/*
-	const response = await anthropic.messages.create({
-		model: model,
-		max_tokens: maxTokens,
-		temperature: temperature / 100, // Convert 0-100 to 0-1
+	// The inbound message is usually already persisted (and part of history)
+	const lastMessage = history[history.length - 1];
+	if (
+		!lastMessage ||
+		lastMessage.role !== "user" ||
+		lastMessage.content !== userMessage
+	) {
+		history.push({ role: "user", content: userMessage });
+	}
+
+	const result = await generateText({
+		model: languageModel,
 		system: systemPrompt,
-		messages: [
-			...messages.map(m => ({ role: m.role, content: m.content })),
-			{ role: "user", content: userMessage }
-		]
+		messages: history,
+		temperature: temperature / 100, // Stored as 0-100
+		maxOutputTokens: maxTokens,
+		tools,
+		// Let the model read tool results and write the final reply
+		stopWhen: stepCountIs(MAX_TOOL_STEPS),
 	});
 
-	return {
-		content: response.content[0].text,
-		tokensUsed: response.usage.input_tokens + response.usage.output_tokens
-	};
-	*/
+	// Usage across all steps (tool calls + final reply)
+	const inputTokens = result.totalUsage.inputTokens ?? 0;
+	const outputTokens = result.totalUsage.outputTokens ?? 0;
+
+	logger.info(
+		{ provider, model: modelId, inputTokens, outputTokens },
+		"AI model call completed",
+	);
 
-	// Placeholder implementation
 	return {
-		content: `This is a placeholder AI response. The actual AI integration will be implemented in production. User message was: "${userMessage}"`,
-		tokensUsed: 150, // Estimated tokens
+		content: result.text,
+		inputTokens,
+		outputTokens,
+		creditsUsed: calculateCreditCost(modelId, inputTokens, outputTokens),
 	};
 }
 
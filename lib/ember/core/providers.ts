@@ -0,0 +1,168 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { EmbeddingModel, LanguageModel } from "ai";
+import { env } from "@/lib/env";
+
+/**
+ * Ember Core - LLM Provider Registry
+ *
+ * Maps an agent's `model` string to a concrete language model.
+ *
+ * Model strings are either `<provider>:<modelId>` (e.g. "anthropic:claude-3-5-sonnet",
+ * "local:llama3.1") or a bare model id, in which case the provider is inferred
+ * ("claude-*" → anthropic, anything else → openai).
+ *
+ * Embedding models (knowledge base) use the same model strings.
+ */
+
+export type ModelProviderFactory = (modelId: string) => LanguageModel;
+
+export type EmbeddingProviderFactory = (modelId: string) => EmbeddingModel;
+
+export interface ResolvedModel {
+	provider: string;
+	modelId: string;
+	languageModel: LanguageModel;
+}
+
+const providers = new Map<string, ModelProviderFactory>();
+const embeddingProviders = new Map<string, EmbeddingProviderFactory>();
+
+/**
+ * Register (or replace) a provider factory.
+ * Used by tests to plug in a deterministic mock model.
+ */
+export function registerModelProvider(
+	name: string,
+	factory: ModelProviderFactory,
+): void {
+	providers.set(name, factory);
+}
+
+/**
+ * Remove a previously registered provider override
+ */
+export function unregisterModelProvider(name: string): void {
+	providers.delete(name);
+	registerBuiltInProviders();
+}
+
+/**
+ * Register (or replace) an embedding provider factory
+ */
+export function registerEmbeddingProvider(
+	name: string,
+	factory: EmbeddingProviderFactory,
+): void {
+	embeddingProviders.set(name, factory);
+}
+
+/**
+ * Split a model string into provider and model id
+ */
+export function parseModelString(model: string): {
+	provider: string;
+	modelId: string;
+} {
+	const separatorIndex = model.indexOf(":");
+	if (separatorIndex > 0) {
+		return {
+			provider: model.slice(0, separatorIndex),
+			modelId: model.slice(separatorIndex + 1),
+		};
+	}
+
+	if (model.startsWith("claude-")) {
+		return { provider: "anthropic", modelId: model };
+	}
+
+	return { provider: "openai", modelId: model };
+}
+
+/**
+ * Resolve an agent model string to a language model instance
+ */
+export function resolveModel(model: string): ResolvedModel {
+	const { provider, modelId } = parseModelString(model);
+	const factory = providers.get(provider);
+
+	if (!factory) {
+		throw new Error(`Unknown AI provider "${provider}" for model "${model}"`);
+	}
+
+	return { provider, modelId, languageModel: factory(modelId) };
+}
+
+/**
+ * Resolve an embedding model string to an embedding model instance
+ */
+export function resolveEmbeddingModel(model: string): EmbeddingModel {
+	const { provider, modelId } = parseModelString(model);
+	const factory = embeddingProviders.get(provider);
+
+	if (!factory) {
+		throw new Error(
+			`Unknown embedding provider "${provider}" for model "${model}"`,
+		);
+	}
+
+	return factory(modelId);
+}
+
+function registerBuiltInProviders(): void {
+	if (!providers.has("openai")) {
+		providers.set("openai", (modelId) => {
+			if (!env.OPENAI_API_KEY) {
+				throw new Error("OPENAI_API_KEY is not configured");
+			}
+			return createOpenAI({ apiKey: env.OPENAI_API_KEY })(modelId);
+		});
+	}
+
+	if (!providers.has("anthropic")) {
+		providers.set("anthropic", (modelId) => {
+			if (!env.ANTHROPIC_API_KEY) {
+				throw new Error("ANTHROPIC_API_KEY is not configured");
+			}
+			return createAnthropic({ apiKey: env.ANTHROPIC_API_KEY })(modelId);
+		});
+	}
+
+	if (!providers.has("local")) {
+		providers.set("local", (modelId) => {
+			if (!env.LOCAL_LLM_BASE_URL) {
+				throw new Error("LOCAL_LLM_BASE_URL is not configured");
+			}
+			return createOpenAICompatible({
+				name: "local",
+				baseURL: env.LOCAL_LLM_BASE_URL,
+				apiKey: env.LOCAL_LLM_API_KEY,
+			})(modelId);
+		});
+	}
+
+	if (!embeddingProviders.has("openai")) {
+		embeddingProviders.set("openai", (modelId) => {
+			if (!env.OPENAI_API_KEY) {
+				throw new Error("OPENAI_API_KEY is not configured");
+			}
+			return createOpenAI({ apiKey: env.OPENAI_API_KEY }).embedding(modelId);
+		});
+	}
+
+	if (!embeddingProviders.has("local")) {
+		embeddingProviders.set("local", (modelId) => {
+			if (!env.LOCAL_LLM_BASE_URL) {
+				throw new Error("LOCAL_LLM_BASE_URL is not configured");
+			}
+			return createOpenAICompatible({
+				name: "local",
+				baseURL: env.LOCAL_LLM_BASE_URL,
+				apiKey: env.LOCAL_LLM_API_KEY,
+			}).textEmbeddingModel(modelId);
+		});
+	}
+}
+
+registerBuiltInProviders();
@@ -1,17 +1,36 @@
 import { eq, sql } from "drizzle-orm";
+import { duplicatesConfig } from "@/config/duplicates.config";
+import { listCustomFieldDefinitions } from "@/lib/custom-fields/definitions";
+import type {
+	CustomFieldDefinition,
+	CustomFieldValues,
+} from "@/lib/custom-fields/types";
+import {
+	coerceCustomFieldValue,
+	validateCustomFieldValues,
+} from "@/lib/custom-fields/values";
 import { db } from "@/lib/db";
-import type { ContactSourceType } from "@/lib/db/schema/enums";
 import {
+	type ContactSourceType,
+	CustomFieldEntity,
+	HeatScoreSignalType,
+	JobType,
+	WebhookEventType,
+} from "@/lib/db/schema/enums";
+import {
+	contactTable,
 	conversationTable,
 	formSubmissionTable,
 	formTable,
 } from "@/lib/db/schema/tables";
 import { agentManager } from "@/lib/ember/agents/manager";
-import {
-	detectDuplicateContacts,
-	mergeContacts,
-} from "@/lib/ember/memoria/merger";
+import { resolveSubmissionDuplicates } from "@/lib/ember/memoria/duplicates";
+import { detectDuplicateContacts } from "@/lib/ember/memoria/merger";
 import { findOrCreateContact } from "@/lib/ember/memoria/queries";
+import { rescoreContacts } from "@/lib/ember/memoria/scoring";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { emitWebhookEvent } from "@/lib/webhooks/events";
+import type { FormFieldInput } from "@/schemas/form.schema";
 import {
 	getFormById,
 	incrementFormViews,
@@ -90,6 +109,38 @@ function extractContactInfo(data: Record<string, unknown>): {
 	return result;
 }
 
+/**
+ * Answers of the fields mapped to contact custom fields, converted to the
+ * type of each custom field. Answers that don't fit are left out.
+ */
+function extractCustomFieldValues(
+	data: Record<string, unknown>,
+	fields: FormFieldInput[],
+	definitions: CustomFieldDefinition[],
+): CustomFieldValues {
+	const definitionsByKey = new Map(
+		definitions.map((definition) => [definition.key, definition]),
+	);
+	const values: CustomFieldValues = {};
+
+	for (const field of fields) {
+		const definition = field.customField
+			? definitionsByKey.get(field.customField)
+			: undefined;
+		const answer = data[field.id];
+		if (!definition || answer === undefined || answer === null) continue;
+
+		values[definition.key] = coerceCustomFieldValue(
+			definition,
+			Array.isArray(answer) ? answer.join(",") : String(answer),
+		);
+	}
+
+	return validateCustomFieldValues(definitions, values, {
+		enforceRequired: false,
+	}).values;
+}
+
 /**
  * Process form submission
  */
@@ -139,7 +190,7 @@ export async function processFormSubmission(
 			},
 		});
 
-		// 5. Detect and merge duplicates
+		// 5. Merge confident duplicates, queue the others for review
 		const duplicates = await detectDuplicateContacts(
 			form.organizationId,
 			{
@@ -148,18 +199,33 @@ export async function processFormSubmission(
 				firstName: contactInfo.firstName,
 				lastName: contactInfo.lastName,
 			},
-			0.7, // 70% similarity threshold
+			duplicatesConfig.detectionThreshold,
 		);
 
 		if (duplicates.length > 0) {
-			// Merge duplicates into the contact
-			const duplicateIds = duplicates
-				.map((d) => d.id)
-				.filter((id) => id !== contact.id);
+			await resolveSubmissionDuplicates(
+				form.organizationId,
+				contact.id,
+				duplicates,
+			);
+		}
 
-			if (duplicateIds.length > 0) {
-				await mergeContacts(contact.id, duplicateIds);
-			}
+		// Answers mapped to custom fields replace the values of the contact
+		const customFields = extractCustomFieldValues(
+			data,
+			form.fields,
+			await listCustomFieldDefinitions(
+				form.organizationId,
+				CustomFieldEntity.contact,
+			),
+		);
+		if (Object.keys(customFields).length > 0) {
+			await tx
+				.update(contactTable)
+				.set({
+					customFields: sql`(coalesce(${contactTable.customFields}, '{}')::jsonb || ${JSON.stringify(customFields)}::jsonb)::text`,
+				})
+				.where(eq(contactTable.id, contact.id));
 		}
 
 		// 6. Save submission
@@ -192,6 +258,13 @@ export async function processFormSubmission(
 			})
 			.where(eq(formTable.id, formId));
 
+		await rescoreContacts(
+			form.organizationId,
+			[contact.id],
+			[HeatScoreSignalType.formSubmitted, HeatScoreSignalType.customField],
+			tx,
+		);
+
 		// 8. Start conversation if configured
 		if (
 			form.postSubmitAction === "start_conversation" &&
@@ -221,27 +294,47 @@ export async function processFormSubmission(
 			}
 		}
 
-		// 9. Trigger webhook if configured
+		// 9. Queue webhook if configured (retried by the job worker)
 		if (form.webhookUrl) {
-			// Fire webhook asynchronously (don't wait)
-			fetch(form.webhookUrl, {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
+			await enqueueJob(
+				{
+					type: JobType.formWebhook,
+					organizationId: form.organizationId,
+					payload: {
+						url: form.webhookUrl,
+						body: {
+							formId: form.id,
+							formName: form.name,
+							submissionId: submission.id,
+							contactId: contact.id,
+							data,
+							submittedAt: submission.submittedAt,
+						},
+					},
+					uniqueKey: `form_webhook:${submission.id}`,
 				},
-				body: JSON.stringify({
-					formId: form.id,
-					formName: form.name,
-					submissionId: submission.id,
-					contactId: contact.id,
-					data,
-					submittedAt: submission.submittedAt,
-				}),
-			}).catch((error) => {
-				console.error("Webhook failed:", error);
-			});
+				tx,
+			);
 		}
 
+		// Organization webhook endpoints subscribed to form submissions
+		await emitWebhookEvent(
+			{
+				organizationId: form.organizationId,
+				type: WebhookEventType.formSubmitted,
+				data: {
+					form: { id: form.id, name: form.name },
+					submission: {
+						id: submission.id,
+						contactId: contact.id,
+						data,
+						submittedAt: submission.submittedAt.toISOString(),
+					},
+				},
+			},
+			tx,
+		);
+
 		// 10. Send email notification if configured
 		if (form.emailNotification) {
 			// TODO: Send email notification (use existing sendEmail)
@@ -1,4 +1,5 @@
 import { eq } from "drizzle-orm";
+import { decryptCredentials } from "@/lib/credentials/vault";
 import { db } from "@/lib/db";
 import { inventorySyncConfigTable, productTable } from "@/lib/db/schema/tables";
 import { logger } from "@/lib/logger";
@@ -39,10 +40,7 @@ export async function syncInventory(
 		}
 
 		// Parse credentials
-		const credentials =
-			typeof syncConfig.credentials === "string"
-				? JSON.parse(syncConfig.credentials)
-				: syncConfig.credentials || {};
+		const credentials = decryptCredentials(syncConfig.credentials);
 
 		// Sync based on source
 		switch (syncConfig.source) {
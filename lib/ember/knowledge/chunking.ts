@@ -0,0 +1,147 @@
+import { knowledgeConfig } from "@/config/knowledge.config";
+
+/**
+ * Knowledge Chunking - Splits extracted document text into passages
+ * small enough to embed and to quote in a prompt.
+ *
+ * Paragraphs are kept together where possible; longer paragraphs are split
+ * on sentences and, as a last resort, on a hard character limit.
+ */
+
+export interface ChunkOptions {
+	/** Target chunk length in characters */
+	chunkSize: number;
+	/** Characters repeated from the end of the previous chunk */
+	chunkOverlap: number;
+}
+
+const defaultChunkOptions: ChunkOptions = {
+	chunkSize: knowledgeConfig.chunkSize,
+	chunkOverlap: knowledgeConfig.chunkOverlap,
+};
+
+/**
+ * Split text into overlapping chunks
+ */
+export function chunkText(
+	text: string,
+	options: ChunkOptions = defaultChunkOptions,
+): string[] {
+	const { chunkSize, chunkOverlap } = options;
+	const normalized = normalizeText(text);
+	if (!normalized) {
+		return [];
+	}
+
+	const chunks: string[] = [];
+	let current = "";
+
+	for (const unit of splitUnits(normalized, chunkSize)) {
+		if (!current) {
+			current = unit;
+			continue;
+		}
+
+		if (current.length + unit.length + 2 <= chunkSize) {
+			current += `\n\n${unit}`;
+			continue;
+		}
+
+		chunks.push(current);
+		const overlap = getOverlap(current, chunkOverlap);
+		current =
+			overlap && overlap.length + unit.length + 1 <= chunkSize
+				? `${overlap} ${unit}`
+				: unit;
+	}
+
+	if (current) {
+		chunks.push(current);
+	}
+
+	return chunks;
+}
+
+/**
+ * Convert an HTML page to plain text (scripts, styles and markup removed)
+ */
+export function htmlToText(html: string): string {
+	const text = html
+		.replace(/<(script|style|noscript|svg|template)[\s\S]*?<\/\1>/gi, " ")
+		.replace(/<!--[\s\S]*?-->/g, " ")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(
+			/<\/(p|div|section|article|li|tr|h[1-6]|blockquote|pre)>/gi,
+			"\n\n",
+		)
+		.replace(/<[^>]+>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;|&apos;/g, "'");
+
+	return normalizeText(text);
+}
+
+/**
+ * Title of an HTML page, if it has one
+ */
+export function extractHtmlTitle(html: string): string | null {
+	const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+	const title = match?.[1] ? htmlToText(match[1]) : "";
+	return title || null;
+}
+
+function normalizeText(text: string): string {
+	return text
+		.replace(/\r\n?/g, "\n")
+		.replace(/[ \t\f\v]+/g, " ")
+		.replace(/ *\n */g, "\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Paragraphs, with the ones longer than a chunk split further
+ */
+function splitUnits(text: string, chunkSize: number): string[] {
+	const units: string[] = [];
+
+	for (const paragraph of text.split("\n\n")) {
+		if (paragraph.length <= chunkSize) {
+			units.push(paragraph);
+			continue;
+		}
+
+		for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+			if (sentence.length <= chunkSize) {
+				units.push(sentence);
+				continue;
+			}
+
+			for (let start = 0; start < sentence.length; start += chunkSize) {
+				units.push(sentence.slice(start, start + chunkSize));
+			}
+		}
+	}
+
+	return units.filter((unit) => unit.trim().length > 0);
+}
+
+/**
+ * End of a chunk to repeat at the start of the next one, cut on a word boundary
+ */
+function getOverlap(chunk: string, chunkOverlap: number): string {
+	if (chunkOverlap <= 0) {
+		return "";
+	}
+	if (chunk.length <= chunkOverlap) {
+		return chunk;
+	}
+
+	const tail = chunk.slice(-chunkOverlap);
+	const boundary = tail.search(/\s/);
+	return (boundary === -1 ? tail : tail.slice(boundary + 1)).trim();
+}
@@ -0,0 +1,212 @@
+import { embedMany } from "ai";
+import { eq } from "drizzle-orm";
+import { extractText } from "unpdf";
+import { knowledgeConfig } from "@/config/knowledge.config";
+import { db } from "@/lib/db";
+import {
+	KnowledgeDocumentStatus,
+	KnowledgeSourceType,
+} from "@/lib/db/schema/enums";
+import {
+	knowledgeChunkTable,
+	knowledgeDocumentTable,
+} from "@/lib/db/schema/tables";
+import { resolveEmbeddingModel } from "@/lib/ember/core/providers";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import { fetchPublicUrl } from "@/lib/net/public-url";
+import { getObject } from "@/lib/storage";
+import { chunkText, extractHtmlTitle, htmlToText } from "./chunking";
+
+/**
+ * Knowledge Ingestion - Extracts, chunks and embeds knowledge documents
+ *
+ * Runs in the background job queue (`knowledge_ingest`); re-ingesting a
+ * document replaces its chunks.
+ */
+
+type KnowledgeDocument = typeof knowledgeDocumentTable.$inferSelect;
+
+/** Chunk rows inserted per statement */
+const INSERT_BATCH_SIZE = 100;
+
+/** Time allowed to download a web page */
+const URL_FETCH_TIMEOUT_MS = 15_000;
+
+/** Redirects followed to download a web page, each target must be public */
+const URL_MAX_REDIRECTS = 5;
+
+/**
+ * Bucket holding uploaded knowledge files
+ */
+export function getKnowledgeBucket(): string {
+	if (!env.S3_KNOWLEDGE_BUCKET_NAME) {
+		throw new Error("S3_KNOWLEDGE_BUCKET_NAME is not configured");
+	}
+	return env.S3_KNOWLEDGE_BUCKET_NAME;
+}
+
+/**
+ * Extract, chunk and embed a document, replacing its previous chunks.
+ * Marks the document as failed (and rethrows) when any step fails.
+ */
+export async function ingestKnowledgeDocument(
+	documentId: string,
+): Promise<void> {
+	const document = await db.query.knowledgeDocumentTable.findFirst({
+		where: eq(knowledgeDocumentTable.id, documentId),
+	});
+
+	// Deleted while queued
+	if (!document) {
+		return;
+	}
+
+	await db
+		.update(knowledgeDocumentTable)
+		.set({ status: KnowledgeDocumentStatus.processing, errorMessage: null })
+		.where(eq(knowledgeDocumentTable.id, document.id));
+
+	try {
+		const { text, title } = await loadDocumentText(document);
+		const chunks = chunkText(text);
+
+		if (chunks.length === 0) {
+			throw new Error("No text could be extracted from the document");
+		}
+
+		const { embeddings } = await embedMany({
+			model: resolveEmbeddingModel(knowledgeConfig.embeddingModel),
+			values: chunks,
+			maxParallelCalls: 2,
+		});
+
+		const dimensions = embeddings[0]?.length ?? 0;
+		if (dimensions !== knowledgeConfig.embeddingDimensions) {
+			throw new Error(
+				`Embedding model returned ${dimensions} dimensions, expected ${knowledgeConfig.embeddingDimensions}`,
+			);
+		}
+
+		await db.transaction(async (tx) => {
+			await tx
+				.delete(knowledgeChunkTable)
+				.where(eq(knowledgeChunkTable.documentId, document.id));
+
+			const rows = chunks.map((content, chunkIndex) => ({
+				documentId: document.id,
+				organizationId: document.organizationId,
+				chunkIndex,
+				content,
+				embedding: embeddings[chunkIndex] as number[],
+			}));
+
+			for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+				await tx
+					.insert(knowledgeChunkTable)
+					.values(rows.slice(i, i + INSERT_BATCH_SIZE));
+			}
+
+			await tx
+				.update(knowledgeDocumentTable)
+				.set({
+					status: KnowledgeDocumentStatus.ready,
+					chunkCount: chunks.length,
+					processedAt: new Date(),
+					errorMessage: null,
+					// Web pages are created with their URL as title
+					...(title &&
+						document.title === document.sourceUrl && {
+							title: title.slice(0, 200),
+						}),
+				})
+				.where(eq(knowledgeDocumentTable.id, document.id));
+		});
+
+		logger.info(
+			{ documentId: document.id, chunks: chunks.length },
+			"Knowledge document ingested",
+		);
+	} catch (error) {
+		await db
+			.update(knowledgeDocumentTable)
+			.set({
+				status: KnowledgeDocumentStatus.failed,
+				errorMessage:
+					error instanceof Error ? error.message : "Failed to process document",
+			})
+			.where(eq(knowledgeDocumentTable.id, document.id));
+
+		throw error;
+	}
+}
+
+/**
+ * Plain text of a document, from the knowledge bucket or the web
+ */
+async function loadDocumentText(
+	document: KnowledgeDocument,
+): Promise<{ text: string; title: string | null }> {
+	switch (document.sourceType) {
+		case KnowledgeSourceType.pdf: {
+			const data = await getObject(
+				requireStoragePath(document),
+				getKnowledgeBucket(),
+			);
+			const { text } = await extractText(data, { mergePages: true });
+			return { text, title: null };
+		}
+		case KnowledgeSourceType.markdown: {
+			const data = await getObject(
+				requireStoragePath(document),
+				getKnowledgeBucket(),
+			);
+			return { text: new TextDecoder().decode(data), title: null };
+		}
+		case KnowledgeSourceType.url: {
+			if (!document.sourceUrl) {
+				throw new Error("Document has no source URL");
+			}
+			return fetchUrlText(document.sourceUrl);
+		}
+	}
+}
+
+function requireStoragePath(document: KnowledgeDocument): string {
+	if (!document.storagePath) {
+		throw new Error("Document has no uploaded file");
+	}
+	return document.storagePath;
+}
+
+async function fetchUrlText(
+	url: string,
+): Promise<{ text: string; title: string | null }> {
+	const response = await fetchPublicUrl(url, {
+		headers: {
+			Accept: "text/html, text/markdown, text/plain;q=0.9",
+		},
+		maxRedirects: URL_MAX_REDIRECTS,
+		signal: AbortSignal.timeout(URL_FETCH_TIMEOUT_MS),
+	});
+
+	if (!response.ok) {
+		throw new Error(`URL responded with ${response.status}`);
+	}
+
+	const contentType = response.headers.get("content-type") ?? "";
+	if (!/text\/(html|plain|markdown)|application\/xhtml/.test(contentType)) {
+		throw new Error(`Unsupported content type: ${contentType || "unknown"}`);
+	}
+
+	const body = (await response.text()).slice(
+		0,
+		knowledgeConfig.maxUrlContentBytes,
+	);
+
+	if (contentType.includes("html")) {
+		return { text: htmlToText(body), title: extractHtmlTitle(body) };
+	}
+
+	return { text: body, title: null };
+}
@@ -0,0 +1,101 @@
+import { embed } from "ai";
+import { and, cosineDistance, eq, isNull, or, sql } from "drizzle-orm";
+import { knowledgeConfig } from "@/config/knowledge.config";
+import { db } from "@/lib/db";
+import { KnowledgeDocumentStatus } from "@/lib/db/schema/enums";
+import {
+	knowledgeChunkTable,
+	knowledgeDocumentTable,
+} from "@/lib/db/schema/tables";
+import { resolveEmbeddingModel } from "@/lib/ember/core/providers";
+
+/**
+ * Knowledge Retrieval - Finds the passages most relevant to a message
+ */
+
+export interface KnowledgeMatch {
+	chunkId: string;
+	documentId: string;
+	title: string;
+	content: string;
+	/** Cosine similarity, 0-1 */
+	similarity: number;
+}
+
+/**
+ * Reference to a passage a reply was grounded on,
+ * stored on the outbound message (`conversation_message.citations`)
+ */
+export interface KnowledgeCitation {
+	documentId: string;
+	chunkId: string;
+	title: string;
+	similarity: number;
+}
+
+/**
+ * Top-k chunks of the organization's ready documents for a query,
+ * limited to documents shared with every agent or assigned to this one
+ */
+export async function retrieveKnowledge(params: {
+	organizationId: string;
+	agentId: string;
+	query: string;
+	topK?: number;
+}): Promise<KnowledgeMatch[]> {
+	const query = params.query.trim();
+	if (!query) {
+		return [];
+	}
+
+	const { embedding } = await embed({
+		model: resolveEmbeddingModel(knowledgeConfig.embeddingModel),
+		value: query,
+	});
+
+	const distance = cosineDistance(knowledgeChunkTable.embedding, embedding);
+
+	const matches = await db
+		.select({
+			chunkId: knowledgeChunkTable.id,
+			documentId: knowledgeChunkTable.documentId,
+			title: knowledgeDocumentTable.title,
+			content: knowledgeChunkTable.content,
+			similarity: sql<number>`1 - (${distance})`.mapWith(Number),
+		})
+		.from(knowledgeChunkTable)
+		.innerJoin(
+			knowledgeDocumentTable,
+			eq(knowledgeChunkTable.documentId, knowledgeDocumentTable.id),
+		)
+		.where(
+			and(
+				eq(knowledgeChunkTable.organizationId, params.organizationId),
+				eq(knowledgeDocumentTable.status, KnowledgeDocumentStatus.ready),
+				or(
+					isNull(knowledgeDocumentTable.agentId),
+					eq(knowledgeDocumentTable.agentId, params.agentId),
+				),
+			),
+		)
+		.orderBy(distance)
+		.limit(params.topK ?? knowledgeConfig.topK);
+
+	return matches.filter(
+		(match) => match.similarity >= knowledgeConfig.minSimilarity,
+	);
+}
+
+/**
+ * Citations to store with a reply built from these matches
+ */
+export function toKnowledgeCitations(
+	matches: KnowledgeMatch[],
+): KnowledgeCitation[] {
+	return matches.map((match) => ({
+		documentId: match.documentId,
+		chunkId: match.chunkId,
+		title: match.title,
+		similarity: Math.round(match.similarity * 1000) / 1000,
+	}));
+}
@@ -0,0 +1,609 @@
+import { and, asc, count, desc, eq, gt, inArray, or, sql } from "drizzle-orm";
+import { duplicatesConfig } from "@/config/duplicates.config";
+import { db } from "@/lib/db";
+import {
+	ContactMergeSource,
+	ContactStatus,
+	DuplicateCandidateSource,
+	DuplicateCandidateStatus,
+	JobStatus,
+	JobType,
+} from "@/lib/db/schema/enums";
+import {
+	contactTable,
+	duplicateCandidateTable,
+	duplicateSettingsTable,
+	jobTable,
+	organizationTable,
+} from "@/lib/db/schema/tables";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import {
+	type ListDuplicateCandidatesInput,
+	type MergeableContactField,
+	MergeableContactFields,
+	type MergeDuplicateCandidateInput,
+	type UpdateDuplicateSettingsInput,
+} from "@/schemas/duplicate.schema";
+import { ContactMergeError } from "./errors";
+import {
+	type DuplicateCandidate,
+	detectDuplicateContacts,
+	mergeContacts,
+} from "./merger";
+
+/**
+ * Duplicates - Review queue of contacts that may be the same person
+ *
+ * Form submissions merge the duplicates found at or above the organization's
+ * auto-merge confidence and queue the others. A scheduled scan queues the
+ * duplicates of every active contact. Dismissed pairs are never queued or
+ * merged automatically again.
+ */
+
+type ContactRow = typeof contactTable.$inferSelect;
+type CandidateRow = typeof duplicateCandidateTable.$inferSelect;
+
+export interface DuplicateSettings {
+	autoMergeEnabled: boolean;
+	autoMergeConfidence: number; // 0-100
+	scanEnabled: boolean;
+	lastScanAt: Date | null;
+	isScanRunning: boolean;
+}
+
+/** A contact of a candidate pair, with the fields compared side by side */
+export type DuplicateContact = Pick<
+	ContactRow,
+	| MergeableContactField
+	| "id"
+	| "status"
+	| "heatScore"
+	| "interactionCount"
+	| "lastInteractionAt"
+	| "tags"
+	| "createdAt"
+>;
+
+export interface DuplicateCandidateItem {
+	id: string;
+	confidence: number; // 0-100
+	matchReason: string;
+	source: DuplicateCandidateSource;
+	status: DuplicateCandidateStatus;
+	resolvedAt: Date | null;
+	createdAt: Date;
+	contact: DuplicateContact;
+	matchedContact: DuplicateContact;
+}
+
+/**
+ * The two contacts of a pair, lower id first, as stored
+ */
+export function orderContactPair(
+	contactId: string,
+	otherContactId: string,
+): [string, string] {
+	return contactId < otherContactId
+		? [contactId, otherContactId]
+		: [otherContactId, contactId];
+}
+
+async function isDuplicateScanRunning(
+	organizationId: string,
+): Promise<boolean> {
+	const job = await db.query.jobTable.findFirst({
+		where: and(
+			eq(jobTable.organizationId, organizationId),
+			eq(jobTable.type, JobType.duplicateScan),
+			inArray(jobTable.status, [JobStatus.pending, JobStatus.running]),
+		),
+		columns: { id: true },
+	});
+	return !!job;
+}
+
+export async function getDuplicateSettings(
+	organizationId: string,
+): Promise<DuplicateSettings> {
+	const settings = await db.query.duplicateSettingsTable.findFirst({
+		where: eq(duplicateSettingsTable.organizationId, organizationId),
+	});
+
+	return {
+		autoMergeEnabled:
+			settings?.autoMergeEnabled ?? duplicatesConfig.defaults.autoMergeEnabled,
+		autoMergeConfidence:
+			settings?.autoMergeConfidence ??
+			duplicatesConfig.defaults.autoMergeConfidence,
+		scanEnabled: settings?.scanEnabled ?? duplicatesConfig.defaults.scanEnabled,
+		lastScanAt: settings?.lastScanAt ?? null,
+		isScanRunning: await isDuplicateScanRunning(organizationId),
+	};
+}
+
+export async function updateDuplicateSettings(
+	organizationId: string,
+	input: UpdateDuplicateSettingsInput,
+): Promise<DuplicateSettings> {
+	await db
+		.insert(duplicateSettingsTable)
+		.values({ organizationId, ...input })
+		.onConflictDoUpdate({
+			target: duplicateSettingsTable.organizationId,
+			set: { ...input, updatedAt: new Date() },
+		});
+	return await getDuplicateSettings(organizationId);
+}
+
+/**
+ * Queue detected duplicates of a contact for review. Pairs already queued,
+ * merged or dismissed are left as they are.
+ */
+async function queueDuplicateCandidates(
+	organizationId: string,
+	contactId: string,
+	candidates: DuplicateCandidate[],
+	source: DuplicateCandidateSource,
+): Promise<number> {
+	const values = candidates
+		.filter((candidate) => candidate.id !== contactId)
+		.map((candidate) => {
+			const [first, second] = orderContactPair(contactId, candidate.id);
+			return {
+				organizationId,
+				contactId: first,
+				matchedContactId: second,
+				confidence: Math.round(candidate.confidence * 100),
+				matchReason: candidate.matchReason,
+				source,
+			};
+		});
+	if (values.length === 0) {
+		return 0;
+	}
+
+	const inserted = await db
+		.insert(duplicateCandidateTable)
+		.values(values)
+		.onConflictDoNothing()
+		.returning({ id: duplicateCandidateTable.id });
+	return inserted.length;
+}
+
+/**
+ * Ids of the contacts dismissed as "not a duplicate" of a contact
+ */
+async function getDismissedContactIds(
+	contactId: string,
+	candidateIds: string[],
+): Promise<Set<string>> {
+	if (candidateIds.length === 0) {
+		return new Set();
+	}
+
+	const rows = await db
+		.select({
+			contactId: duplicateCandidateTable.contactId,
+			matchedContactId: duplicateCandidateTable.matchedContactId,
+		})
+		.from(duplicateCandidateTable)
+		.where(
+			and(
+				eq(duplicateCandidateTable.status, DuplicateCandidateStatus.dismissed),
+				or(
+					and(
+						eq(duplicateCandidateTable.contactId, contactId),
+						inArray(duplicateCandidateTable.matchedContactId, candidateIds),
+					),
+					and(
+						inArray(duplicateCandidateTable.contactId, candidateIds),
+						eq(duplicateCandidateTable.matchedContactId, contactId),
+					),
+				),
+			),
+		);
+	return new Set(
+		rows.map((row) =>
+			row.contactId === contactId ? row.matchedContactId : row.contactId,
+		),
+	);
+}
+
+/**
+ * Merge the duplicates of a submitted contact that are confident enough and
+ * queue the others for review. Returns the ids of the merged contacts.
+ */
+export async function resolveSubmissionDuplicates(
+	organizationId: string,
+	contactId: string,
+	candidates: DuplicateCandidate[],
+): Promise<string[]> {
+	const others = candidates.filter((candidate) => candidate.id !== contactId);
+	const dismissed = await getDismissedContactIds(
+		contactId,
+		others.map((candidate) => candidate.id),
+	);
+	const settings = await getDuplicateSettings(organizationId);
+
+	const toMerge: string[] = [];
+	const toQueue: DuplicateCandidate[] = [];
+	for (const candidate of others) {
+		if (dismissed.has(candidate.id)) {
+			continue;
+		}
+		if (
+			settings.autoMergeEnabled &&
+			Math.round(candidate.confidence * 100) >= settings.autoMergeConfidence
+		) {
+			toMerge.push(candidate.id);
+		} else {
+			toQueue.push(candidate);
+		}
+	}
+
+	if (toMerge.length > 0) {
+		await mergeContacts(contactId, toMerge, {
+			source: ContactMergeSource.form,
+		});
+	}
+	await queueDuplicateCandidates(
+		organizationId,
+		contactId,
+		toQueue,
+		DuplicateCandidateSource.form,
+	);
+	return toMerge;
+}
+
+/**
+ * Queue the duplicates of one contact for review, as the scan does. Returns
+ * the number of pairs queued.
+ */
+export async function scanContactDuplicates(
+	organizationId: string,
+	contactId: string,
+): Promise<number> {
+	const contact: ContactRow | undefined = await db.query.contactTable.findFirst(
+		{
+			where: and(
+				eq(contactTable.id, contactId),
+				eq(contactTable.organizationId, organizationId),
+			),
+		},
+	);
+	if (!contact) {
+		throw new ContactMergeError("NOT_FOUND", "Contact not found");
+	}
+	if (contact.status !== ContactStatus.active) {
+		return 0;
+	}
+
+	const candidates = await detectDuplicateContacts(
+		organizationId,
+		contact,
+		duplicatesConfig.detectionThreshold,
+	);
+	return await queueDuplicateCandidates(
+		organizationId,
+		contact.id,
+		candidates,
+		DuplicateCandidateSource.scan,
+	);
+}
+
+function toDuplicateContact(contact: ContactRow): DuplicateContact {
+	return {
+		id: contact.id,
+		status: contact.status,
+		firstName: contact.firstName,
+		lastName: contact.lastName,
+		email: contact.email,
+		phone: contact.phone,
+		company: contact.company,
+		timezone: contact.timezone,
+		channelPreference: contact.channelPreference,
+		language: contact.language,
+		heatScore: contact.heatScore,
+		interactionCount: contact.interactionCount,
+		lastInteractionAt: contact.lastInteractionAt,
+		tags: contact.tags,
+		createdAt: contact.createdAt,
+	};
+}
+
+/**
+ * Candidates of the review queue with both contacts, most confident first.
+ * Pending pairs whose contacts are no longer both active are left out.
+ */
+export async function listDuplicateCandidates(
+	organizationId: string,
+	input: ListDuplicateCandidatesInput,
+): Promise<{ items: DuplicateCandidateItem[]; total: number }> {
+	const activeContacts = db
+		.select({ id: contactTable.id })
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.organizationId, organizationId),
+				eq(contactTable.status, ContactStatus.active),
+			),
+		);
+	const where = and(
+		eq(duplicateCandidateTable.organizationId, organizationId),
+		eq(duplicateCandidateTable.status, input.status),
+		input.status === DuplicateCandidateStatus.pending
+			? and(
+					inArray(duplicateCandidateTable.contactId, activeContacts),
+					inArray(duplicateCandidateTable.matchedContactId, activeContacts),
+				)
+			: undefined,
+		input.contactId
+			? or(
+					eq(duplicateCandidateTable.contactId, input.contactId),
+					eq(duplicateCandidateTable.matchedContactId, input.contactId),
+				)
+			: undefined,
+	);
+
+	const [candidates, [totalRow]] = await Promise.all([
+		db
+			.select()
+			.from(duplicateCandidateTable)
+			.where(where)
+			.orderBy(
+				input.status === DuplicateCandidateStatus.pending
+					? desc(duplicateCandidateTable.confidence)
+					: desc(duplicateCandidateTable.resolvedAt),
+				desc(duplicateCandidateTable.createdAt),
+			)
+			.limit(duplicatesConfig.pageSize)
+			.offset(input.page * duplicatesConfig.pageSize),
+		db.select({ count: count() }).from(duplicateCandidateTable).where(where),
+	]);
+
+	const contactIds = candidates.flatMap((candidate) => [
+		candidate.contactId,
+		candidate.matchedContactId,
+	]);
+	const contacts: ContactRow[] =
+		contactIds.length > 0
+			? await db.query.contactTable.findMany({
+					where: inArray(contactTable.id, contactIds),
+				})
+			: [];
+	const contactsById = new Map(
+		contacts.map((contact) => [contact.id, toDuplicateContact(contact)]),
+	);
+
+	const items: DuplicateCandidateItem[] = [];
+	for (const candidate of candidates) {
+		const contact = contactsById.get(candidate.contactId);
+		const matchedContact = contactsById.get(candidate.matchedContactId);
+		if (!contact || !matchedContact) {
+			continue;
+		}
+		items.push({
+			id: candidate.id,
+			confidence: candidate.confidence,
+			matchReason: candidate.matchReason,
+			source: candidate.source,
+			status: candidate.status,
+			resolvedAt: candidate.resolvedAt,
+			createdAt: candidate.createdAt,
+			contact,
+			matchedContact,
+		});
+	}
+	return { items, total: totalRow?.count ?? 0 };
+}
+
+async function getPendingCandidate(
+	organizationId: string,
+	candidateId: string,
+): Promise<CandidateRow> {
+	const candidate = await db.query.duplicateCandidateTable.findFirst({
+		where: and(
+			eq(duplicateCandidateTable.id, candidateId),
+			eq(duplicateCandidateTable.organizationId, organizationId),
+		),
+	});
+	if (!candidate) {
+		throw new ContactMergeError("NOT_FOUND", "Duplicate not found");
+	}
+	if (candidate.status !== DuplicateCandidateStatus.pending) {
+		throw new ContactMergeError(
+			"CONFLICT",
+			"This duplicate was already reviewed",
+		);
+	}
+	return candidate;
+}
+
+/**
+ * Merge a pair of the queue into the contact picked as primary, with the
+ * field values picked by the reviewer
+ */
+export async function mergeDuplicateCandidate(
+	organizationId: string,
+	input: MergeDuplicateCandidateInput,
+	userId: string,
+): Promise<ContactRow> {
+	const candidate = await getPendingCandidate(organizationId, input.id);
+	const pair = [candidate.contactId, candidate.matchedContactId];
+	if (!pair.includes(input.primaryId)) {
+		throw new ContactMergeError(
+			"BAD_REQUEST",
+			"The primary contact must be one of the pair",
+		);
+	}
+	const duplicateId = pair.find((id) => id !== input.primaryId) as string;
+
+	const contacts: ContactRow[] = await db.query.contactTable.findMany({
+		where: inArray(contactTable.id, pair),
+	});
+	const duplicate = contacts.find((contact) => contact.id === duplicateId);
+	if (
+		contacts.length !== 2 ||
+		contacts.some((contact) => contact.status !== ContactStatus.active)
+	) {
+		throw new ContactMergeError(
+			"CONFLICT",
+			"One of these contacts was merged or changed since",
+		);
+	}
+
+	const fields: Partial<Pick<ContactRow, MergeableContactField>> = {};
+	for (const field of MergeableContactFields) {
+		const winnerId = input.fields[field];
+		if (winnerId && !pair.includes(winnerId)) {
+			throw new ContactMergeError(
+				"BAD_REQUEST",
+				"Field values must come from one of the pair",
+			);
+		}
+		if (winnerId === duplicateId && duplicate) {
+			fields[field] = duplicate[field];
+		}
+	}
+
+	const merged = await mergeContacts(input.primaryId, [duplicateId], {
+		source: ContactMergeSource.review,
+		mergedById: userId,
+		fields,
+	});
+
+	await db
+		.update(duplicateCandidateTable)
+		.set({
+			status: DuplicateCandidateStatus.merged,
+			resolvedById: userId,
+			resolvedAt: new Date(),
+		})
+		.where(eq(duplicateCandidateTable.id, candidate.id));
+	return merged;
+}
+
+/**
+ * Mark a pair as not duplicates, it isn't suggested or merged again
+ */
+export async function dismissDuplicateCandidate(
+	organizationId: string,
+	candidateId: string,
+	userId: string,
+): Promise<void> {
+	const candidate = await getPendingCandidate(organizationId, candidateId);
+	await db
+		.update(duplicateCandidateTable)
+		.set({
+			status: DuplicateCandidateStatus.dismissed,
+			resolvedById: userId,
+			resolvedAt: new Date(),
+		})
+		.where(eq(duplicateCandidateTable.id, candidate.id));
+}
+
+/**
+ * Queue a duplicate scan of the organization. `runId` keeps a scan from being
+ * queued twice (e.g. the date of a scheduled scan). Returns false when the
+ * scan was already queued or another scan is running.
+ */
+export async function startDuplicateScan(
+	organizationId: string,
+	runId: string,
+): Promise<boolean> {
+	if (await isDuplicateScanRunning(organizationId)) {
+		return false;
+	}
+	const job = await enqueueJob({
+		type: JobType.duplicateScan,
+		organizationId,
+		payload: { runId, cursor: null },
+		uniqueKey: `duplicate_scan:${organizationId}:${runId}:start`,
+	});
+	return !!job;
+}
+
+/**
+ * Queue the scheduled duplicate scan of every organization that didn't turn
+ * it off. Returns the number of scans queued.
+ */
+export async function startScheduledDuplicateScans(
+	runId: string,
+): Promise<number> {
+	const organizations = await db
+		.select({ id: organizationTable.id })
+		.from(organizationTable)
+		.leftJoin(
+			duplicateSettingsTable,
+			eq(duplicateSettingsTable.organizationId, organizationTable.id),
+		)
+		.where(
+			sql`coalesce(${duplicateSettingsTable.scanEnabled}, ${duplicatesConfig.defaults.scanEnabled})`,
+		);
+
+	let started = 0;
+	for (const organization of organizations) {
+		if (await startDuplicateScan(organization.id, runId)) {
+			started++;
+		}
+	}
+	return started;
+}
+
+/**
+ * Queue the duplicates of the next batch of active contacts after `cursor`
+ * (a contact id), then queue the next batch as its own job
+ */
+export async function scanDuplicateContacts(
+	organizationId: string,
+	payload: { runId: string; cursor: string | null },
+): Promise<void> {
+	const contacts: ContactRow[] = await db.query.contactTable.findMany({
+		where: and(
+			eq(contactTable.organizationId, organizationId),
+			eq(contactTable.status, ContactStatus.active),
+			payload.cursor ? gt(contactTable.id, payload.cursor) : undefined,
+		),
+		orderBy: asc(contactTable.id),
+		limit: duplicatesConfig.scanBatchSize,
+	});
+
+	let queued = 0;
+	for (const contact of contacts) {
+		const candidates = await detectDuplicateContacts(
+			organizationId,
+			contact,
+			duplicatesConfig.detectionThreshold,
+		);
+		queued += await queueDuplicateCandidates(
+			organizationId,
+			contact.id,
+			candidates,
+			DuplicateCandidateSource.scan,
+		);
+	}
+	logger.info(
+		{ organizationId, runId: payload.runId, contacts: contacts.length, queued },
+		"Scanned contacts for duplicates",
+	);
+
+	const last = contacts.at(-1);
+	if (!last || contacts.length < duplicatesConfig.scanBatchSize) {
+		await db
+			.insert(duplicateSettingsTable)
+			.values({ organizationId, lastScanAt: new Date() })
+			.onConflictDoUpdate({
+				target: duplicateSettingsTable.organizationId,
+				set: { lastScanAt: new Date() },
+			});
+		return;
+	}
+
+	await enqueueJob({
+		type: JobType.duplicateScan,
+		organizationId,
+		payload: { runId: payload.runId, cursor: last.id },
+		uniqueKey: `duplicate_scan:${organizationId}:${payload.runId}:${last.id}`,
+	});
+}
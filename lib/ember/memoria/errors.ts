@@ -0,0 +1,27 @@
+/**
+ * Error raised by tag management.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class TagError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: TagError["code"], message: string) {
+		super(message);
+		this.name = "TagError";
+		this.code = code;
+	}
+}
+
+/**
+ * Error raised when merging, unmerging or reviewing duplicate contacts.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class ContactMergeError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: ContactMergeError["code"], message: string) {
+		super(message);
+		this.name = "ContactMergeError";
+		this.code = code;
+	}
+}
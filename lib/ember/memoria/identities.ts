@@ -0,0 +1,122 @@
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { type ChannelType, ContactStatus } from "@/lib/db/schema/enums";
+import {
+	contactChannelIdentityTable,
+	contactTable,
+} from "@/lib/db/schema/tables";
+
+/**
+ * Channel Identities - A contact's handles on each channel
+ *
+ * Scoped IDs (Instagram IGSID, Messenger PSID) can only be learned from inbound
+ * messages, so every inbound message records the sender's identity and replies
+ * go to the most recently seen one.
+ */
+
+export interface ChannelIdentityInput {
+	organizationId: string;
+	contactId: string;
+	channel: ChannelType;
+	identifier: string;
+	accountId?: string | null;
+	displayName?: string | null;
+}
+
+/**
+ * Identifiers are compared case-insensitively for email, as is otherwise
+ */
+export function normalizeChannelIdentifier(
+	channel: ChannelType,
+	identifier: string,
+): string {
+	const trimmed = identifier.trim();
+	return channel === "email" ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * Active contact owning a handle on a channel
+ */
+export async function findContactByChannelIdentity(
+	organizationId: string,
+	channel: ChannelType,
+	identifier: string,
+): Promise<string | null> {
+	const [identity] = await db
+		.select({ contactId: contactChannelIdentityTable.contactId })
+		.from(contactChannelIdentityTable)
+		.innerJoin(
+			contactTable,
+			eq(contactChannelIdentityTable.contactId, contactTable.id),
+		)
+		.where(
+			and(
+				eq(contactChannelIdentityTable.organizationId, organizationId),
+				eq(contactChannelIdentityTable.channel, channel),
+				eq(
+					contactChannelIdentityTable.identifier,
+					normalizeChannelIdentifier(channel, identifier),
+				),
+				eq(contactTable.status, ContactStatus.active),
+			),
+		)
+		.limit(1);
+
+	return (identity?.contactId as string | undefined) ?? null;
+}
+
+/**
+ * Record that a contact was seen with a handle.
+ * A handle already linked to another contact stays with it (see mergeContacts).
+ */
+export async function recordChannelIdentity(
+	input: ChannelIdentityInput,
+): Promise<void> {
+	const identifier = normalizeChannelIdentifier(
+		input.channel,
+		input.identifier,
+	);
+	if (!identifier) return;
+
+	await db
+		.insert(contactChannelIdentityTable)
+		.values({
+			organizationId: input.organizationId,
+			contactId: input.contactId,
+			channel: input.channel,
+			identifier,
+			accountId: input.accountId ?? null,
+			displayName: input.displayName ?? null,
+		})
+		.onConflictDoUpdate({
+			target: [
+				contactChannelIdentityTable.organizationId,
+				contactChannelIdentityTable.channel,
+				contactChannelIdentityTable.identifier,
+			],
+			set: {
+				lastSeenAt: new Date(),
+				accountId: sql`coalesce(excluded.account_id, ${contactChannelIdentityTable.accountId})`,
+				displayName: sql`coalesce(excluded.display_name, ${contactChannelIdentityTable.displayName})`,
+			},
+		});
+}
+
+/**
+ * Handle that receives replies on a channel: the most recently seen one
+ */
+export async function getRecipientIdentity(
+	contactId: string,
+	channel: ChannelType,
+): Promise<string | null> {
+	const identity = await db.query.contactChannelIdentityTable.findFirst({
+		where: and(
+			eq(contactChannelIdentityTable.contactId, contactId),
+			eq(contactChannelIdentityTable.channel, channel),
+		),
+		orderBy: desc(contactChannelIdentityTable.lastSeenAt),
+		columns: { identifier: true },
+	});
+
+	return identity?.identifier ?? null;
+}
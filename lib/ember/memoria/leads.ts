@@ -0,0 +1,290 @@
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	type ChannelType,
+	ContactSourceType,
+	type ConversationStatus,
+	LeadSource,
+	LeadStatus,
+	LeadStatuses,
+} from "@/lib/db/schema/enums";
+import {
+	contactSourceTable,
+	contactTable,
+	conversationTable,
+	leadTable,
+} from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+import { emitLeadStatusChanged } from "@/lib/webhooks/events";
+
+/**
+ * Leads - The sales pipeline view of a contact
+ *
+ * Contacts are everyone the organization talks to, leads are the ones being
+ * sold to. A lead links to the contact it was converted from, so its
+ * conversations and heat score follow it through the pipeline.
+ */
+
+type Lead = typeof leadTable.$inferSelect;
+
+export interface LeadContactSummary {
+	id: string;
+	firstName: string;
+	lastName: string;
+	email: string | null;
+	phone: string | null;
+	heatScore: number;
+	lastInteractionAt: Date | null;
+	lastInteractionChannel: string | null;
+	conversations: {
+		id: string;
+		channel: ChannelType;
+		status: ConversationStatus;
+		messageCount: number;
+		lastMessageAt: Date | null;
+		summary: string | null;
+	}[];
+}
+
+/** Conversations shown with a lead */
+const LEAD_CONVERSATIONS_LIMIT = 10;
+
+/** Contact tag that turns a contact into a qualified lead */
+export const QUALIFIED_TAG = "qualified";
+
+/** Statuses a lead no longer moves out of automatically */
+const CLOSED_STATUSES: LeadStatus[] = [LeadStatus.won, LeadStatus.lost];
+
+const leadSourceByContactSource: Record<ContactSourceType, LeadSource> = {
+	[ContactSourceType.form]: LeadSource.website,
+	[ContactSourceType.whatsapp]: LeadSource.socialMedia,
+	[ContactSourceType.instagram]: LeadSource.socialMedia,
+	[ContactSourceType.facebook]: LeadSource.socialMedia,
+	[ContactSourceType.phone]: LeadSource.coldCall,
+	[ContactSourceType.email]: LeadSource.email,
+	[ContactSourceType.manual]: LeadSource.other,
+	[ContactSourceType.api]: LeadSource.other,
+	[ContactSourceType.import]: LeadSource.other,
+};
+
+/**
+ * Whether a list of tags includes the qualified tag (case-insensitive)
+ */
+export function hasQualifiedTag(tags: unknown[]): boolean {
+	return tags.some(
+		(tag) =>
+			typeof tag === "string" && tag.trim().toLowerCase() === QUALIFIED_TAG,
+	);
+}
+
+/**
+ * Whether moving a lead from one status to another goes forward in the
+ * pipeline. Closed leads never move.
+ */
+export function isLeadStatusAdvance(from: LeadStatus, to: LeadStatus): boolean {
+	if (CLOSED_STATUSES.includes(from)) {
+		return false;
+	}
+	return LeadStatuses.indexOf(to) > LeadStatuses.indexOf(from);
+}
+
+/**
+ * Lead source matching how the contact first reached the organization
+ */
+async function getLeadSourceForContact(contactId: string): Promise<LeadSource> {
+	const source = await db.query.contactSourceTable.findFirst({
+		where: eq(contactSourceTable.contactId, contactId),
+		orderBy: asc(contactSourceTable.createdAt),
+		columns: { sourceType: true },
+	});
+
+	return source
+		? leadSourceByContactSource[source.sourceType as ContactSourceType]
+		: LeadSource.other;
+}
+
+/**
+ * Update the leads of an organization matching `where`, and emit
+ * `lead.status_changed` for the ones that moved to another status
+ */
+export async function updateLeads(
+	organizationId: string,
+	where: SQL | undefined,
+	data: Partial<typeof leadTable.$inferInsert>,
+): Promise<Lead[]> {
+	return db.transaction(async (tx) => {
+		const previous = await tx
+			.select({ id: leadTable.id, status: leadTable.status })
+			.from(leadTable)
+			.where(and(eq(leadTable.organizationId, organizationId), where))
+			.for("update");
+
+		if (previous.length === 0) {
+			return [];
+		}
+
+		const leads = await tx
+			.update(leadTable)
+			.set(data)
+			.where(
+				inArray(
+					leadTable.id,
+					previous.map((lead) => lead.id),
+				),
+			)
+			.returning();
+
+		const previousStatuses = new Map(
+			previous.map((lead) => [lead.id, lead.status]),
+		);
+		for (const lead of leads) {
+			const previousStatus = previousStatuses.get(lead.id);
+			if (previousStatus) {
+				await emitLeadStatusChanged(lead, previousStatus, tx);
+			}
+		}
+
+		return leads;
+	});
+}
+
+/**
+ * Convert a contact to a lead.
+ * Reuses the contact's lead, or links an unlinked lead with the same email,
+ * before creating a new one. An existing lead only moves forward to the
+ * requested status. Returns null when the contact does not exist.
+ */
+export async function convertContactToLead(
+	organizationId: string,
+	contactId: string,
+	options: {
+		status?: LeadStatus;
+		source?: LeadSource;
+		assignedToId?: string | null;
+	} = {},
+): Promise<{ lead: Lead; created: boolean } | null> {
+	const contact = await db.query.contactTable.findFirst({
+		where: and(
+			eq(contactTable.id, contactId),
+			eq(contactTable.organizationId, organizationId),
+		),
+	});
+
+	if (!contact) {
+		return null;
+	}
+
+	const status = options.status ?? LeadStatus.new;
+
+	let existing = await db.query.leadTable.findFirst({
+		where: and(
+			eq(leadTable.organizationId, organizationId),
+			eq(leadTable.contactId, contactId),
+		),
+	});
+
+	if (!existing && contact.email) {
+		existing = await db.query.leadTable.findFirst({
+			where: and(
+				eq(leadTable.organizationId, organizationId),
+				isNull(leadTable.contactId),
+				sql`lower(${leadTable.email}) = ${contact.email.toLowerCase()}`,
+			),
+		});
+	}
+
+	if (existing) {
+		const [lead] = await updateLeads(
+			organizationId,
+			eq(leadTable.id, existing.id),
+			{
+				contactId,
+				...(isLeadStatusAdvance(existing.status, status) ? { status } : {}),
+			},
+		);
+
+		return { lead: lead ?? existing, created: false };
+	}
+
+	const [lead] = await db
+		.insert(leadTable)
+		.values({
+			organizationId,
+			contactId,
+			firstName: contact.firstName,
+			lastName: contact.lastName,
+			email: contact.email,
+			phone: contact.phone,
+			company: contact.company,
+			status,
+			source: options.source ?? (await getLeadSourceForContact(contactId)),
+			assignedToId: options.assignedToId ?? contact.assignedToId ?? null,
+		})
+		.returning();
+
+	if (!lead) {
+		throw new Error("Failed to create lead");
+	}
+
+	logger.info(
+		{ organizationId, contactId, leadId: lead.id, status },
+		"Contact converted to lead",
+	);
+
+	return { lead, created: true };
+}
+
+/**
+ * Linked contact of a lead with its heat score and latest conversations
+ */
+export async function getLeadContactSummary(
+	contactId: string,
+): Promise<LeadContactSummary | null> {
+	const [contact] = await db
+		.select({
+			id: sql<string>`${contactTable.id}`,
+			firstName: sql<string>`${contactTable.firstName}`,
+			lastName: sql<string>`${contactTable.lastName}`,
+			email: sql<string | null>`${contactTable.email}`,
+			phone: sql<string | null>`${contactTable.phone}`,
+			heatScore: sql<number>`${contactTable.heatScore}`,
+			lastInteractionAt:
+				sql<Date | null>`${contactTable.lastInteractionAt}`.mapWith(
+					contactTable.lastInteractionAt,
+				),
+			lastInteractionChannel: sql<
+				string | null
+			>`${contactTable.lastInteractionChannel}`,
+		})
+		.from(contactTable)
+		.where(eq(contactTable.id, contactId));
+
+	if (!contact) {
+		return null;
+	}
+
+	const conversations = await db
+		.select({
+			id: conversationTable.id,
+			channel: conversationTable.channel,
+			status: conversationTable.status,
+			messageCount: conversationTable.messageCount,
+			lastMessageAt: conversationTable.lastMessageAt,
+			summary: conversationTable.summary,
+		})
+		.from(conversationTable)
+		.where(eq(conversationTable.contactId, contactId))
+		.orderBy(desc(conversationTable.lastMessageAt))
+		.limit(LEAD_CONVERSATIONS_LIMIT);
+
+	return { ...contact, conversations };
+}
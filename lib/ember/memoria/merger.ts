@@ -1,17 +1,43 @@
-import { and, eq, ilike, inArray, or, sql } from "drizzle-orm";
+import {
+	and,
+	desc,
+	eq,
+	gt,
+	ilike,
+	inArray,
+	isNull,
+	or,
+	sql,
+} from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
 import { db } from "@/lib/db";
-import { ContactStatus } from "@/lib/db/schema/enums";
+import {
+	ContactMergeSource,
+	ContactStatus,
+	DuplicateCandidateStatus,
+} from "@/lib/db/schema/enums";
 import {
 	agentAssignmentTable,
 	contactAgreementTable,
+	contactChannelIdentityTable,
+	contactMergeTable,
 	contactNoteTable,
 	contactSourceTable,
 	contactTable,
 	conversationTable,
+	duplicateCandidateTable,
 	formSubmissionTable,
+	leadTable,
+	meetingTable,
+	quoteTable,
 	voiceCallTable,
 } from "@/lib/db/schema/tables";
+import type { MergeableContactField } from "@/schemas/duplicate.schema";
+import { ContactMergeError } from "./errors";
 import { recalculateHeatScore } from "./scoring";
+import { addContactTags, getContactTagNames, setContactTags } from "./tags";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 /**
  * Duplicate candidate with confidence score
@@ -223,29 +249,17 @@ export async function detectDuplicateContacts(
 }
 
 /**
- * Merge tags from multiple contacts
+ * Merge the tags of the duplicates into the primary contact. Returns the tag
+ * names of the primary contact.
  */
-function mergeTags(...tagArrays: (string | null)[]): string[] {
-	const allTags = new Set<string>();
-
-	for (const tags of tagArrays) {
-		if (tags) {
-			try {
-				const parsed = typeof tags === "string" ? JSON.parse(tags) : tags;
-				if (Array.isArray(parsed)) {
-					for (const tag of parsed) {
-						if (typeof tag === "string") {
-							allTags.add(tag.trim().toLowerCase());
-						}
-					}
-				}
-			} catch {
-				// Skip invalid JSON
-			}
-		}
-	}
-
-	return Array.from(allTags);
+async function mergeTags(
+	tx: Transaction,
+	organizationId: string,
+	primaryId: string,
+	duplicateIds: string[],
+): Promise<string[]> {
+	const names = await getContactTagNames(duplicateIds, tx);
+	return await addContactTags(organizationId, primaryId, names, tx);
 }
 
 /**
@@ -272,25 +286,169 @@ function mergeCustomFields(
 	return merged;
 }
 
+type ContactRow = typeof contactTable.$inferSelect;
+
 /**
- * Merge multiple contacts into a single primary contact
+ * Fields of the primary contact a merge rewrites
+ */
+type MergedContactFields = Pick<
+	ContactRow,
+	| "firstName"
+	| "lastName"
+	| "language"
+	| "phone"
+	| "email"
+	| "company"
+	| "timezone"
+	| "channelPreference"
+	| "customFields"
+	| "lifetimeValue"
+	| "interactionCount"
+	| "mergedContactIds"
+>;
+
+/**
+ * Rows re-pointed from the duplicates to the primary contact, by table
+ */
+const contactReferenceTables = {
+	conversation: conversationTable,
+	agreement: contactAgreementTable,
+	note: contactNoteTable,
+	source: contactSourceTable,
+	channelIdentity: contactChannelIdentityTable,
+	agentAssignment: agentAssignmentTable,
+	formSubmission: formSubmissionTable,
+	voiceCall: voiceCallTable,
+	quote: quoteTable,
+	meeting: meetingTable,
+	lead: leadTable,
+};
+type ContactReference = keyof typeof contactReferenceTables;
+type ContactReferenceTable = PgTable & { id: PgColumn; contactId: PgColumn };
+
+/**
+ * What a merge changed, stored as JSON in `contact_merge.snapshot`
+ */
+export interface ContactMergeSnapshot {
+	primary: MergedContactFields; // Before the merge
+	merged: MergedContactFields; // Written by the merge
+	duplicates: Array<
+		Pick<
+			ContactRow,
+			| "id"
+			| "firstName"
+			| "lastName"
+			| "email"
+			| "phone"
+			| "status"
+			| "mergedWithId"
+			| "lifetimeValue"
+			| "interactionCount"
+		>
+	>;
+	// Row ids by table, then by the duplicate they came from
+	movedRows: Partial<Record<ContactReference, Record<string, string[]>>>;
+	addedTags: string[]; // Tags of the duplicates the primary didn't have
+}
+
+export interface ContactMergeSummary {
+	id: string;
+	source: ContactMergeSource;
+	mergedBy: { id: string; name: string } | null;
+	createdAt: Date;
+	unmergedAt: Date | null;
+	unmergedBy: { id: string; name: string } | null;
+	duplicates: ContactMergeSnapshot["duplicates"];
+	movedRowCount: number;
+	canUnmerge: boolean;
+}
+
+function pickMergedFields(contact: MergedContactFields): MergedContactFields {
+	return {
+		firstName: contact.firstName,
+		lastName: contact.lastName,
+		language: contact.language,
+		phone: contact.phone,
+		email: contact.email,
+		company: contact.company,
+		timezone: contact.timezone,
+		channelPreference: contact.channelPreference,
+		customFields: contact.customFields,
+		lifetimeValue: contact.lifetimeValue,
+		interactionCount: contact.interactionCount,
+		mergedContactIds: contact.mergedContactIds,
+	};
+}
+
+function parseContactIds(value: string | null): string[] {
+	return value ? (JSON.parse(value) as string[]) : [];
+}
+
+/**
+ * Move rows of a table between contacts. Returns the moved row ids by the
+ * contact they came from.
+ */
+async function moveContactRows(
+	tx: Transaction,
+	table: ContactReferenceTable,
+	fromContactIds: string[],
+	toContactId: string,
+): Promise<Record<string, string[]>> {
+	const rows = (await tx
+		.select({ id: table.id, contactId: table.contactId })
+		.from(table)
+		.where(inArray(table.contactId, fromContactIds))) as {
+		id: string;
+		contactId: string;
+	}[];
+	if (rows.length === 0) {
+		return {};
+	}
+
+	await tx
+		.update(table)
+		.set({ contactId: toContactId })
+		.where(
+			inArray(
+				table.id,
+				rows.map((row) => row.id),
+			),
+		);
+
+	const moved: Record<string, string[]> = {};
+	for (const row of rows) {
+		(moved[row.contactId] ??= []).push(row.id);
+	}
+	return moved;
+}
+
+/**
+ * Merge multiple contacts into a single primary contact. The merge is logged
+ * with what it changed so it can be undone with unmergeContacts.
  */
 export async function mergeContacts(
 	primaryId: string,
 	duplicateIds: string[],
-): Promise<typeof contactTable.$inferSelect> {
+	options: {
+		source?: ContactMergeSource;
+		mergedById?: string | null;
+		// Values picked by a reviewer, replacing the combined ones
+		fields?: Partial<Pick<ContactRow, MergeableContactField>>;
+	} = {},
+): Promise<ContactRow> {
 	return await db
 		.transaction(async (tx) => {
 			// 1. Get all contacts
-			const primary = await tx.query.contactTable.findFirst({
-				where: eq(contactTable.id, primaryId),
-			});
+			const primary: ContactRow | undefined =
+				await tx.query.contactTable.findFirst({
+					where: eq(contactTable.id, primaryId),
+				});
 
 			if (!primary) {
 				throw new Error("Primary contact not found");
 			}
 
-			const duplicates = await tx.query.contactTable.findMany({
+			const duplicates: ContactRow[] = await tx.query.contactTable.findMany({
 				where: inArray(contactTable.id, duplicateIds),
 			});
 
@@ -299,7 +457,10 @@ export async function mergeContacts(
 			}
 
 			// 2. Combine information (keep first non-null value)
-			const merged = {
+			const merged: MergedContactFields = {
+				firstName: primary.firstName,
+				lastName: primary.lastName,
+				language: primary.language,
 				phone: primary.phone || duplicates.find((d) => d.phone)?.phone || null,
 				email: primary.email || duplicates.find((d) => d.email)?.email || null,
 				company:
@@ -312,9 +473,6 @@ export async function mergeContacts(
 					primary.channelPreference ||
 					duplicates.find((d) => d.channelPreference)?.channelPreference ||
 					null,
-				tags: JSON.stringify(
-					mergeTags(primary.tags, ...duplicates.map((d) => d.tags)),
-				),
 				customFields: JSON.stringify(
 					mergeCustomFields(
 						primary.customFields,
@@ -328,11 +486,10 @@ export async function mergeContacts(
 					primary.interactionCount +
 					duplicates.reduce((sum, d) => sum + d.interactionCount, 0),
 				mergedContactIds: JSON.stringify([
-					...(primary.mergedContactIds
-						? JSON.parse(primary.mergedContactIds)
-						: []),
+					...parseContactIds(primary.mergedContactIds),
 					...duplicateIds,
 				]),
+				...options.fields,
 			};
 
 			// 3. Update primary contact
@@ -344,41 +501,25 @@ export async function mergeContacts(
 				})
 				.where(eq(contactTable.id, primaryId));
 
-			// 4. Migrate all references to primary contact
-			await tx
-				.update(conversationTable)
-				.set({ contactId: primaryId })
-				.where(inArray(conversationTable.contactId, duplicateIds));
-
-			await tx
-				.update(contactAgreementTable)
-				.set({ contactId: primaryId })
-				.where(inArray(contactAgreementTable.contactId, duplicateIds));
-
-			await tx
-				.update(contactNoteTable)
-				.set({ contactId: primaryId })
-				.where(inArray(contactNoteTable.contactId, duplicateIds));
-
-			await tx
-				.update(contactSourceTable)
-				.set({ contactId: primaryId })
-				.where(inArray(contactSourceTable.contactId, duplicateIds));
-
-			await tx
-				.update(agentAssignmentTable)
-				.set({ contactId: primaryId })
-				.where(inArray(agentAssignmentTable.contactId, duplicateIds));
-
-			await tx
-				.update(formSubmissionTable)
-				.set({ contactId: primaryId })
-				.where(inArray(formSubmissionTable.contactId, duplicateIds));
+			const primaryTags = await getContactTagNames([primaryId], tx);
+			const mergedTags = await mergeTags(
+				tx,
+				primary.organizationId,
+				primaryId,
+				duplicateIds,
+			);
 
-			await tx
-				.update(voiceCallTable)
-				.set({ contactId: primaryId })
-				.where(inArray(voiceCallTable.contactId, duplicateIds));
+			// 4. Migrate all references to primary contact. Replies keep reaching
+			// the duplicates' handles (PSIDs, wa_ids, email aliases).
+			const movedRows: ContactMergeSnapshot["movedRows"] = {};
+			for (const [reference, table] of Object.entries(
+				contactReferenceTables,
+			) as [ContactReference, ContactReferenceTable][]) {
+				const moved = await moveContactRows(tx, table, duplicateIds, primaryId);
+				if (Object.keys(moved).length > 0) {
+					movedRows[reference] = moved;
+				}
+			}
 
 			// 5. Mark duplicates as merged
 			await tx
@@ -390,9 +531,31 @@ export async function mergeContacts(
 				})
 				.where(inArray(contactTable.id, duplicateIds));
 
-			// 6. Recalculate heat score with new interaction count
-			// Note: recalculateHeatScore will be called outside transaction to avoid type issues
-			// await recalculateHeatScore(primaryId, tx);
+			// 6. Log the merge
+			const snapshot: ContactMergeSnapshot = {
+				primary: pickMergedFields(primary),
+				merged,
+				duplicates: duplicates.map((duplicate) => ({
+					id: duplicate.id,
+					firstName: duplicate.firstName,
+					lastName: duplicate.lastName,
+					email: duplicate.email,
+					phone: duplicate.phone,
+					status: duplicate.status,
+					mergedWithId: duplicate.mergedWithId,
+					lifetimeValue: duplicate.lifetimeValue,
+					interactionCount: duplicate.interactionCount,
+				})),
+				movedRows,
+				addedTags: mergedTags.filter((name) => !primaryTags.includes(name)),
+			};
+			await tx.insert(contactMergeTable).values({
+				organizationId: primary.organizationId,
+				primaryContactId: primaryId,
+				source: options.source ?? ContactMergeSource.manual,
+				mergedById: options.mergedById ?? null,
+				snapshot: JSON.stringify(snapshot),
+			});
 
 			// 7. Return updated primary contact
 			const updatedPrimary = await tx.query.contactTable.findFirst({
@@ -412,6 +575,246 @@ export async function mergeContacts(
 		});
 }
 
+/**
+ * Fields of the primary contact after undoing a merge. Fields changed since
+ * the merge keep their current value, totals lose what the duplicates added.
+ */
+export function getUnmergedContactFields(
+	current: MergedContactFields,
+	snapshot: ContactMergeSnapshot,
+	restoredIds: string[],
+): MergedContactFields {
+	const restoreField = <K extends keyof MergedContactFields>(key: K) =>
+		current[key] === snapshot.merged[key]
+			? snapshot.primary[key]
+			: current[key];
+	const restored = snapshot.duplicates.filter((duplicate) =>
+		restoredIds.includes(duplicate.id),
+	);
+
+	return {
+		firstName: restoreField("firstName"),
+		lastName: restoreField("lastName"),
+		language: restoreField("language"),
+		phone: restoreField("phone"),
+		email: restoreField("email"),
+		company: restoreField("company"),
+		timezone: restoreField("timezone"),
+		channelPreference: restoreField("channelPreference"),
+		customFields: restoreField("customFields"),
+		lifetimeValue: Math.max(
+			(current.lifetimeValue || 0) -
+				restored.reduce((sum, d) => sum + (d.lifetimeValue || 0), 0),
+			0,
+		),
+		interactionCount: Math.max(
+			current.interactionCount -
+				restored.reduce((sum, d) => sum + d.interactionCount, 0),
+			0,
+		),
+		mergedContactIds: JSON.stringify(
+			parseContactIds(current.mergedContactIds).filter(
+				(id) => !restoredIds.includes(id),
+			),
+		),
+	};
+}
+
+/**
+ * Undo a merge: restore the duplicates, move their rows back and revert the
+ * primary contact. Only the latest merge into a contact can be undone.
+ * Returns the ids of the restored contacts.
+ */
+export async function unmergeContacts(
+	organizationId: string,
+	mergeId: string,
+	unmergedById: string | null,
+): Promise<string[]> {
+	const result = await db.transaction(async (tx) => {
+		const merge = await tx.query.contactMergeTable.findFirst({
+			where: and(
+				eq(contactMergeTable.id, mergeId),
+				eq(contactMergeTable.organizationId, organizationId),
+			),
+		});
+		if (!merge) {
+			throw new ContactMergeError("NOT_FOUND", "Merge not found");
+		}
+		if (merge.unmergedAt) {
+			throw new ContactMergeError("CONFLICT", "This merge was already undone");
+		}
+
+		const laterMerge = await tx.query.contactMergeTable.findFirst({
+			where: and(
+				eq(contactMergeTable.primaryContactId, merge.primaryContactId),
+				isNull(contactMergeTable.unmergedAt),
+				gt(contactMergeTable.createdAt, merge.createdAt),
+			),
+		});
+		if (laterMerge) {
+			throw new ContactMergeError(
+				"CONFLICT",
+				"Undo the later merges into this contact first",
+			);
+		}
+
+		const primary: ContactRow | undefined =
+			await tx.query.contactTable.findFirst({
+				where: eq(contactTable.id, merge.primaryContactId),
+			});
+		if (!primary) {
+			throw new ContactMergeError("NOT_FOUND", "Contact not found");
+		}
+		if (primary.status === ContactStatus.merged) {
+			throw new ContactMergeError(
+				"CONFLICT",
+				"This contact was merged into another one, undo that merge first",
+			);
+		}
+
+		const snapshot = JSON.parse(merge.snapshot) as ContactMergeSnapshot;
+
+		// Duplicates deleted since the merge can't be restored, their rows stay
+		const duplicates: ContactRow[] = await tx.query.contactTable.findMany({
+			where: and(
+				inArray(
+					contactTable.id,
+					snapshot.duplicates.map((duplicate) => duplicate.id),
+				),
+				eq(contactTable.mergedWithId, primary.id),
+			),
+		});
+		const restoredIds = duplicates.map((duplicate) => duplicate.id);
+
+		// 1. Restore the duplicates
+		for (const duplicate of snapshot.duplicates) {
+			if (!restoredIds.includes(duplicate.id)) {
+				continue;
+			}
+			await tx
+				.update(contactTable)
+				.set({
+					status: duplicate.status,
+					mergedWithId: duplicate.mergedWithId,
+					updatedAt: new Date(),
+				})
+				.where(eq(contactTable.id, duplicate.id));
+		}
+
+		// 2. Move their rows back, unless moved again or deleted since
+		for (const [reference, moved] of Object.entries(snapshot.movedRows) as [
+			ContactReference,
+			Record<string, string[]>,
+		][]) {
+			const table: ContactReferenceTable = contactReferenceTables[reference];
+			for (const [contactId, rowIds] of Object.entries(moved)) {
+				if (!restoredIds.includes(contactId)) {
+					continue;
+				}
+				await tx
+					.update(table)
+					.set({ contactId })
+					.where(
+						and(inArray(table.id, rowIds), eq(table.contactId, primary.id)),
+					);
+			}
+		}
+
+		// 3. Revert the primary contact
+		await tx
+			.update(contactTable)
+			.set({
+				...getUnmergedContactFields(primary, snapshot, restoredIds),
+				updatedAt: new Date(),
+			})
+			.where(eq(contactTable.id, primary.id));
+
+		if (snapshot.addedTags.length > 0) {
+			const tags = await getContactTagNames([primary.id], tx);
+			await setContactTags(
+				organizationId,
+				primary.id,
+				tags.filter((name) => !snapshot.addedTags.includes(name)),
+				tx,
+			);
+		}
+
+		// The review queue doesn't suggest the pairs again
+		if (restoredIds.length > 0) {
+			await tx
+				.update(duplicateCandidateTable)
+				.set({
+					status: DuplicateCandidateStatus.dismissed,
+					resolvedById: unmergedById,
+					resolvedAt: new Date(),
+				})
+				.where(
+					or(
+						and(
+							eq(duplicateCandidateTable.contactId, primary.id),
+							inArray(duplicateCandidateTable.matchedContactId, restoredIds),
+						),
+						and(
+							inArray(duplicateCandidateTable.contactId, restoredIds),
+							eq(duplicateCandidateTable.matchedContactId, primary.id),
+						),
+					),
+				);
+		}
+
+		await tx
+			.update(contactMergeTable)
+			.set({ unmergedAt: new Date(), unmergedById })
+			.where(eq(contactMergeTable.id, merge.id));
+
+		return { primaryId: primary.id, restoredIds };
+	});
+
+	// Recalculate heat scores after transaction completes
+	for (const contactId of [result.primaryId, ...result.restoredIds]) {
+		await recalculateHeatScore(contactId);
+	}
+	return result.restoredIds;
+}
+
+/**
+ * Merges into a contact, newest first
+ */
+export async function listContactMerges(
+	organizationId: string,
+	contactId: string,
+): Promise<ContactMergeSummary[]> {
+	const merges = await db.query.contactMergeTable.findMany({
+		where: and(
+			eq(contactMergeTable.organizationId, organizationId),
+			eq(contactMergeTable.primaryContactId, contactId),
+		),
+		orderBy: desc(contactMergeTable.createdAt),
+		with: {
+			mergedBy: { columns: { id: true, name: true } },
+			unmergedBy: { columns: { id: true, name: true } },
+		},
+	});
+
+	const latestActive = merges.find((merge) => !merge.unmergedAt);
+	return merges.map((merge) => {
+		const snapshot = JSON.parse(merge.snapshot) as ContactMergeSnapshot;
+		return {
+			id: merge.id,
+			source: merge.source,
+			mergedBy: merge.mergedBy as ContactMergeSummary["mergedBy"],
+			createdAt: merge.createdAt,
+			unmergedAt: merge.unmergedAt,
+			unmergedBy: merge.unmergedBy as ContactMergeSummary["unmergedBy"],
+			duplicates: snapshot.duplicates,
+			movedRowCount: Object.values(snapshot.movedRows)
+				.flatMap((moved) => Object.values(moved))
+				.reduce((sum, rowIds) => sum + rowIds.length, 0),
+			canUnmerge: merge.id === latestActive?.id,
+		};
+	});
+}
+
 /**
  * Automatically merge contacts with high confidence (>=0.9)
  * Returns the number of merges performed
@@ -443,6 +846,7 @@ export async function autoMergeHighConfidenceDuplicates(
 				await mergeContacts(
 					contact.id,
 					highConfidenceDupes.map((d) => d.id),
+					{ source: ContactMergeSource.auto },
 				);
 				mergeCount += highConfidenceDupes.length;
 			} catch (error) {
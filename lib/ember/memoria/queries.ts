@@ -3,6 +3,7 @@ import {
 	asc,
 	desc,
 	eq,
+	getTableColumns,
 	gte,
 	ilike,
 	inArray,
@@ -10,16 +11,33 @@ import {
 	or,
 	sql,
 } from "drizzle-orm";
+import { toApiContact } from "@/lib/api/serializers";
+import { buildCustomFieldQuery } from "@/lib/custom-fields/filters";
 import { db } from "@/lib/db";
-import { type ContactSourceType, ContactStatus } from "@/lib/db/schema/enums";
+import {
+	type ContactSourceType,
+	ContactStatus,
+	CustomFieldEntity,
+	HeatScoreSignalType,
+	HeatScoreSignalTypes,
+	SavedViewEntity,
+	WebhookEventType,
+} from "@/lib/db/schema/enums";
 import {
 	contactAgreementTable,
+	contactChannelIdentityTable,
 	contactNoteTable,
 	contactSourceTable,
 	contactTable,
+	conversationMessageTable,
 	conversationTable,
+	userTable,
 } from "@/lib/db/schema/tables";
+import { buildFilterCondition } from "@/lib/filters/conditions";
+import { emitWebhookEvent } from "@/lib/webhooks/events";
 import type { ListContactsInput } from "@/schemas/contact.schema";
+import { getHeatScoreModel, heatLevelCounts, rescoreContacts } from "./scoring";
+import { contactTagCondition } from "./tags";
 
 /**
  * Find or create a contact based on identifying information
@@ -105,6 +123,13 @@ export async function findOrCreateContact(
 					.where(eq(contactSourceTable.id, existingSource.id));
 			}
 
+			await rescoreContacts(
+				organizationId,
+				[existing.id],
+				[HeatScoreSignalType.recency, HeatScoreSignalType.interactions],
+				tx,
+			);
+
 			return existing;
 		}
 
@@ -142,6 +167,22 @@ export async function findOrCreateContact(
 			interactionCount: 1,
 		});
 
+		await rescoreContacts(
+			organizationId,
+			[newContact.id],
+			HeatScoreSignalTypes,
+			tx,
+		);
+
+		await emitWebhookEvent(
+			{
+				organizationId,
+				type: WebhookEventType.contactCreated,
+				data: { contact: toApiContact(newContact) },
+			},
+			tx,
+		);
+
 		return newContact;
 	});
 }
@@ -161,6 +202,9 @@ export async function getContactProfile(contactId: string) {
 				},
 			},
 			sources: true,
+			channelIdentities: {
+				orderBy: desc(contactChannelIdentityTable.lastSeenAt),
+			},
 			notes: {
 				with: {
 					createdBy: {
@@ -170,8 +214,11 @@ export async function getContactProfile(contactId: string) {
 						},
 					},
 				},
+				orderBy: desc(contactNoteTable.createdAt),
+			},
+			agreements: {
+				orderBy: desc(contactAgreementTable.createdAt),
 			},
-			agreements: true,
 			conversations: {
 				limit: 10, // Last 10 conversations
 			},
@@ -237,13 +284,37 @@ export async function listContacts(
 		conditions.push(lte(contactTable.heatScore, filters.maxHeatScore));
 	}
 
-	// Tags filter (if provided)
-	if (filters.tags && filters.tags.length > 0) {
-		// This is a simplified version - in production you'd want full-text search
-		const tagConditions = filters.tags.map((tag) =>
-			ilike(contactTable.tags, `%${tag}%`),
-		);
-		conditions.push(or(...tagConditions)!);
+	// Exact tag matches, any or all of the tags
+	const tagCondition = contactTagCondition(
+		organizationId,
+		filters.tags ?? [],
+		filters.tagMatch,
+	);
+	if (tagCondition) {
+		conditions.push(tagCondition);
+	}
+
+	// Custom field filters and sort
+	const customFieldQuery = await buildCustomFieldQuery(
+		organizationId,
+		CustomFieldEntity.contact,
+		contactTable.customFields,
+		{
+			filters: filters.customFields,
+			sortKey: filters.orderByCustomField,
+			sortOrder: filters.orderDirection,
+		},
+	);
+	conditions.push(...customFieldQuery.conditions);
+
+	// Filter builder conditions
+	const filterCondition = await buildFilterCondition(
+		organizationId,
+		SavedViewEntity.contact,
+		filters.filter,
+	);
+	if (filterCondition) {
+		conditions.push(filterCondition);
 	}
 
 	// Build order by
@@ -278,7 +349,9 @@ export async function listContacts(
 	// Get contacts
 	const contacts = await db.query.contactTable.findMany({
 		where: and(...conditions),
-		orderBy: orderByClause,
+		orderBy: customFieldQuery.orderBy
+			? [customFieldQuery.orderBy, orderByClause]
+			: orderByClause,
 		limit: filters.limit,
 		offset: filters.offset,
 		with: {
@@ -306,81 +379,99 @@ export async function listContacts(
 	};
 }
 
-/**
- * Get contact timeline - all interactions across channels
- */
-export async function getContactTimeline(contactId: string, limit = 50) {
-	// Get conversations with messages
-	const conversations = await db.query.conversationTable.findMany({
-		where: eq(conversationTable.contactId, contactId),
-		with: {
-			messages: {
-				orderBy: (messages, { desc }) => [desc(messages.createdAt)],
-				limit: 100, // Get latest 100 messages
-			},
-		},
-		orderBy: (conversations, { desc }) => [desc(conversations.lastMessageAt)],
-	});
-
-	// Get notes
-	const notes = await db.query.contactNoteTable.findMany({
-		where: eq(contactNoteTable.contactId, contactId),
-		with: {
-			createdBy: {
-				columns: {
-					id: true,
-					name: true,
-				},
-			},
-		},
-		orderBy: (notes, { desc }) => [desc(notes.createdAt)],
-	});
+export type ContactNoteWithAuthor = typeof contactNoteTable.$inferSelect & {
+	createdBy: { id: string; name: string } | null;
+};
 
-	// Get agreements
-	const agreements = await db.query.contactAgreementTable.findMany({
-		where: eq(contactAgreementTable.contactId, contactId),
-		orderBy: (agreements, { desc }) => [desc(agreements.createdAt)],
-	});
+export type ContactAgreement = typeof contactAgreementTable.$inferSelect;
 
-	// Combine and sort all timeline events
-	const timelineEvents: Array<{
-		type: "message" | "note" | "agreement";
-		timestamp: Date;
-		data: unknown;
-	}> = [];
-
-	// Add messages
-	for (const conversation of conversations) {
-		for (const message of conversation.messages) {
-			timelineEvents.push({
-				type: "message",
-				timestamp: message.createdAt,
-				data: {
-					...message,
-					conversationId: conversation.id,
-					channel: conversation.channel,
-				},
-			});
-		}
-	}
+/**
+ * Event of a contact timeline, newest first
+ */
+export type ContactTimelineEvent =
+	| {
+			type: "message";
+			timestamp: Date;
+			data: typeof conversationMessageTable.$inferSelect;
+	  }
+	| { type: "note"; timestamp: Date; data: ContactNoteWithAuthor }
+	| {
+			type: "agreement";
+			timestamp: Date;
+			data: ContactAgreement;
+	  }
+	| {
+			type: "source";
+			timestamp: Date;
+			data: typeof contactSourceTable.$inferSelect;
+	  };
 
-	// Add notes
-	for (const note of notes) {
-		timelineEvents.push({
-			type: "note",
+/**
+ * Get contact timeline - all interactions across channels
+ */
+export async function getContactTimeline(
+	contactId: string,
+	limit = 50,
+): Promise<ContactTimelineEvent[]> {
+	// The latest events of each kind, merged below
+	const [messages, notes, agreements, sources] = await Promise.all([
+		db
+			.select(getTableColumns(conversationMessageTable))
+			.from(conversationMessageTable)
+			.innerJoin(
+				conversationTable,
+				eq(conversationTable.id, conversationMessageTable.conversationId),
+			)
+			.where(eq(conversationTable.contactId, contactId))
+			.orderBy(desc(conversationMessageTable.createdAt))
+			.limit(limit),
+		db
+			.select({
+				...getTableColumns(contactNoteTable),
+				createdBy: { id: userTable.id, name: userTable.name },
+			})
+			.from(contactNoteTable)
+			.leftJoin(userTable, eq(userTable.id, contactNoteTable.createdById))
+			.where(eq(contactNoteTable.contactId, contactId))
+			.orderBy(desc(contactNoteTable.createdAt))
+			.limit(limit),
+		db
+			.select()
+			.from(contactAgreementTable)
+			.where(eq(contactAgreementTable.contactId, contactId))
+			.orderBy(desc(contactAgreementTable.createdAt))
+			.limit(limit),
+		// Shown when the contact first came from each source
+		db
+			.select()
+			.from(contactSourceTable)
+			.where(eq(contactSourceTable.contactId, contactId))
+			.orderBy(desc(contactSourceTable.firstSeen))
+			.limit(limit),
+	]);
+
+	const timelineEvents: ContactTimelineEvent[] = [
+		...messages.map((message) => ({
+			type: "message" as const,
+			timestamp: message.createdAt,
+			data: message,
+		})),
+		...notes.map((note) => ({
+			type: "note" as const,
 			timestamp: note.createdAt,
 			data: note,
-		});
-	}
-
-	// Add agreements
-	for (const agreement of agreements) {
-		timelineEvents.push({
-			type: "agreement",
+		})),
+		...agreements.map((agreement) => ({
+			type: "agreement" as const,
 			timestamp: agreement.createdAt,
 			data: agreement,
-		});
-	}
+		})),
+		...sources.map((source) => ({
+			type: "source" as const,
+			timestamp: source.firstSeen,
+			data: source,
+		})),
+	];
 
 	// Sort by timestamp (newest first)
 	timelineEvents.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
@@ -393,42 +484,41 @@ export async function getContactTimeline(contactId: string, limit = 50) {
  * Get contact statistics for dashboard
  */
 export async function getContactStats(organizationId: string) {
-	const contacts = await db.query.contactTable.findMany({
-		where: and(
-			eq(contactTable.organizationId, organizationId),
-			eq(contactTable.status, ContactStatus.active),
-		),
-		columns: {
-			heatScore: true,
-			lifetimeValue: true,
-			lastInteractionAt: true,
-		},
-	});
+	const model = await getHeatScoreModel(organizationId);
 
 	const now = Date.now();
-	const oneDayAgo = now - 24 * 60 * 60 * 1000;
-	const sevenDaysAgo = now - 7 * 24 * 60 * 60 * 1000;
-	const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
+	const oneDayAgo = new Date(now - 24 * 60 * 60 * 1000);
+	const sevenDaysAgo = new Date(now - 7 * 24 * 60 * 60 * 1000);
+	const thirtyDaysAgo = new Date(now - 30 * 24 * 60 * 60 * 1000);
+
+	const activeSince = (date: Date) =>
+		sql<number>`(count(*) filter (where ${contactTable.lastInteractionAt} >= ${date}))::int`;
+
+	const [stats] = await db
+		.select({
+			total: sql<number>`count(*)::int`,
+			...heatLevelCounts(contactTable.heatScore, model),
+			activeToday: activeSince(oneDayAgo),
+			activeThisWeek: activeSince(sevenDaysAgo),
+			activeThisMonth: activeSince(thirtyDaysAgo),
+			totalLifetimeValue: sql<number>`coalesce(sum(${contactTable.lifetimeValue}), 0)::float8`,
+		})
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.organizationId, organizationId),
+				eq(contactTable.status, ContactStatus.active),
+			),
+		);
 
 	return {
-		total: contacts.length,
-		hot: contacts.filter((c) => c.heatScore >= 80).length,
-		warm: contacts.filter((c) => c.heatScore >= 50 && c.heatScore < 80).length,
-		cold: contacts.filter((c) => c.heatScore < 50).length,
-		activeToday: contacts.filter(
-			(c) => c.lastInteractionAt && c.lastInteractionAt.getTime() >= oneDayAgo,
-		).length,
-		activeThisWeek: contacts.filter(
-			(c) =>
-				c.lastInteractionAt && c.lastInteractionAt.getTime() >= sevenDaysAgo,
-		).length,
-		activeThisMonth: contacts.filter(
-			(c) =>
-				c.lastInteractionAt && c.lastInteractionAt.getTime() >= thirtyDaysAgo,
-		).length,
-		totalLifetimeValue: contacts.reduce(
-			(sum, c) => sum + (c.lifetimeValue || 0),
-			0,
-		),
+		total: stats?.total ?? 0,
+		hot: stats?.hot ?? 0,
+		warm: stats?.warm ?? 0,
+		cold: stats?.cold ?? 0,
+		activeToday: stats?.activeToday ?? 0,
+		activeThisWeek: stats?.activeThisWeek ?? 0,
+		activeThisMonth: stats?.activeThisMonth ?? 0,
+		totalLifetimeValue: stats?.totalLifetimeValue ?? 0,
 	};
 }
@@ -1,134 +1,640 @@
-import { and, eq, gte, sql } from "drizzle-orm";
+import {
+	and,
+	type Column,
+	desc,
+	eq,
+	exists,
+	gt,
+	inArray,
+	lt,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { z } from "zod";
+import { heatScoreConfig } from "@/config/heat-score.config";
 import { db } from "@/lib/db";
 import {
+	ContactStatus,
+	HeatScoreRunReason,
+	HeatScoreRunStatus,
+	HeatScoreSignalType,
+	JobStatus,
+	JobType,
+	QuoteStatus,
+} from "@/lib/db/schema/enums";
+import {
+	contactChannelIdentityTable,
+	contactScoreHistoryTable,
 	contactTable,
-	conversationMessageTable,
+	contactTagTable,
 	conversationTable,
+	formSubmissionTable,
+	formTable,
+	heatScoreModelTable,
+	heatScoreRunTable,
+	jobTable,
+	organizationTable,
+	quoteTable,
+	tagTable,
 } from "@/lib/db/schema/tables";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import {
+	type HeatScoreModel,
+	type HeatScoreSignal,
+	heatScoreSignalSchema,
+} from "@/schemas/heat-score.schema";
 
 /**
- * Calculate heat score for a contact (0-100)
+ * Scoring - Heat score (0-100) of contacts from their organization's model
+ *
+ * A model is a list of weighted signals. Scaled signals (interactions,
+ * lifetime value, response time) give their weight in proportion to their
+ * target. Decaying signals (recency, form submissions, accepted quotes,
+ * channels) give their full weight on the day of the event, halved every
+ * `decayHalfLifeDays` after it. Tags and custom fields give their weight when
+ * they match. The score is the sum, rounded and clamped to 0-100, and every
+ * change is logged with the points each signal contributed. Decay alone only
+ * logs the changes of heat level, and the log is pruned past
+ * `historyRetentionDays`.
  *
- * Heat score components:
- * - Recency (0-30 points): Days since last interaction
- * - Frequency (0-30 points): Number of interactions in last 30 days
- * - Value (0-20 points): Lifetime value
- * - Engagement (0-20 points): Average response time
+ * Scores are computed in SQL, a batch of contacts per statement. Events
+ * re-score their contact when the model uses the signals they change, and a
+ * nightly run re-scores every contact as decaying signals lose points.
  */
-export async function calculateHeatScore(contactId: string): Promise<number> {
-	const dbInstance = db;
 
-	// Get contact data
-	const contact = await dbInstance.query.contactTable.findFirst({
-		where: eq(contactTable.id, contactId),
+type ScoringExecutor = Pick<typeof db, "execute">;
+
+type HeatScoreRun = typeof heatScoreRunTable.$inferSelect;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** Signals whose points go down with time alone */
+const DECAYING_SIGNAL_TYPES: HeatScoreSignalType[] = [
+	HeatScoreSignalType.recency,
+	HeatScoreSignalType.formSubmitted,
+	HeatScoreSignalType.quoteAccepted,
+	HeatScoreSignalType.channel,
+];
+
+export interface HeatScoreModelSettings extends HeatScoreModel {
+	isDefault: boolean;
+	updatedAt: Date | null;
+	/** Latest re-scoring of all contacts */
+	run: HeatScoreRun | null;
+}
+
+export interface HeatScoreDistribution {
+	hot: number;
+	warm: number;
+	cold: number;
+}
+
+export type HeatLevel = keyof HeatScoreDistribution;
+
+export interface HeatScoreContribution {
+	label: string;
+	points: number;
+}
+
+export interface HeatScoreHistoryEntry {
+	id: string;
+	score: number;
+	previousScore: number;
+	contributions: HeatScoreContribution[];
+	createdAt: Date;
+}
+
+export interface HeatScorePreview {
+	total: number;
+	sampled: number;
+	current: HeatScoreDistribution;
+	preview: HeatScoreDistribution;
+	/** Sampled contacts per 10 points of the previewed score (90-100 last) */
+	histogram: number[];
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Share (0-1) of its points a decaying signal gives `date` ago, (almost)
+ * nothing without a date
+ */
+function decaySql(date: SQL | Column, halfLifeDays: number): SQL {
+	// Capped so power() can't underflow, or overflow on future dates
+	const halfLives = sql`extract(epoch from (now() - ${date}))::float8 / ${halfLifeDays * DAY_SECONDS}::float8`;
+	return sql`power(0.5::float8, least(greatest(coalesce(${halfLives}, 1000), 0), 1000))`;
+}
+
+/**
+ * Whether the custom field `key` of the contact has `value`, ignoring case.
+ * Any value but an empty one matches an empty `value`.
+ */
+function customFieldMatchSql(key: string, value: string): SQL {
+	// Multi-select values are arrays, matched on having the value. try_jsonb
+	// reads malformed JSON as null, a contact with it matches nothing instead
+	// of failing the statement of its whole batch.
+	return sql`exists (
+		select 1
+		from (select try_jsonb(${contactTable.customFields}) -> ${key}::text as json) as custom_field,
+			jsonb_array_elements_text(case jsonb_typeof(custom_field.json) when 'array' then custom_field.json else jsonb_build_array(custom_field.json) end) as field(value)
+		where field.value <> ''${value ? sql` and lower(field.value) = lower(${value}::text)` : sql``}
+	)`;
+}
+
+/**
+ * Share (0-1) of its weight a signal gives the contact of the row
+ */
+function signalStrengthSql(signal: HeatScoreSignal, halfLifeDays: number): SQL {
+	switch (signal.type) {
+		case HeatScoreSignalType.recency:
+			return decaySql(contactTable.lastInteractionAt, halfLifeDays);
+		case HeatScoreSignalType.interactions:
+			return sql`least(${contactTable.interactionCount}::float8 / ${signal.target}::float8, 1)`;
+		case HeatScoreSignalType.lifetimeValue:
+			return sql`least(greatest(coalesce(${contactTable.lifetimeValue}, 0), 0)::float8 / ${signal.target}::float8, 1)`;
+		case HeatScoreSignalType.responseTime:
+			// Full weight at or under the target, less the slower the replies
+			return sql`(case when ${contactTable.averageResponseTime} is null then 0 else least(${signal.target}::float8 / greatest(${contactTable.averageResponseTime}, 1)::float8, 1) end)`;
+		case HeatScoreSignalType.formSubmitted:
+			return decaySql(
+				sql`(select max(${formSubmissionTable.submittedAt}) from ${formSubmissionTable} where ${and(
+					eq(formSubmissionTable.contactId, contactTable.id),
+					signal.formId
+						? eq(formSubmissionTable.formId, signal.formId)
+						: undefined,
+				)})`,
+				halfLifeDays,
+			);
+		case HeatScoreSignalType.quoteAccepted:
+			return decaySql(
+				sql`(select max(coalesce(${quoteTable.respondedAt}, ${quoteTable.updatedAt})) from ${quoteTable} where ${and(
+					eq(quoteTable.contactId, contactTable.id),
+					eq(quoteTable.status, QuoteStatus.accepted),
+				)})`,
+				halfLifeDays,
+			);
+		case HeatScoreSignalType.tag:
+			return sql`(case when exists (select 1 from ${contactTagTable} inner join ${tagTable} on ${tagTable.id} = ${contactTagTable.tagId} where ${and(
+				eq(contactTagTable.contactId, contactTable.id),
+				eq(tagTable.name, signal.tag),
+			)}) then 1 else 0 end)`;
+		case HeatScoreSignalType.channel:
+			return decaySql(
+				sql`(select max(${contactChannelIdentityTable.lastSeenAt}) from ${contactChannelIdentityTable} where ${and(
+					eq(contactChannelIdentityTable.contactId, contactTable.id),
+					eq(contactChannelIdentityTable.channel, signal.channel),
+				)})`,
+				halfLifeDays,
+			);
+		case HeatScoreSignalType.customField:
+			return sql`(case when ${customFieldMatchSql(signal.key, signal.value)} then 1 else 0 end)`;
+	}
+}
+
+/**
+ * Points (float8) a signal gives the contact of the row
+ */
+export function signalPointsSql(
+	signal: HeatScoreSignal,
+	halfLifeDays: number,
+): SQL {
+	return sql`(${signal.weight}::float8 * ${signalStrengthSql(signal, halfLifeDays)})`;
+}
+
+/**
+ * Score (0-100) of the contact of the row
+ */
+export function heatScoreSql(model: HeatScoreModel): SQL {
+	if (model.signals.length === 0) {
+		return sql`0`;
+	}
+	const points = model.signals.map((signal) =>
+		signalPointsSql(signal, model.decayHalfLifeDays),
+	);
+	return sql`least(greatest(round(${sql.join(points, sql` + `)}), 0), 100)::int`;
+}
+
+/**
+ * What a signal stands for in the score history, e.g. `Tagged "vip"`
+ */
+export function describeHeatScoreSignal(
+	signal: HeatScoreSignal,
+	formNames: Record<string, string> = {},
+): string {
+	switch (signal.type) {
+		case HeatScoreSignalType.recency:
+			return "Recent interaction";
+		case HeatScoreSignalType.interactions:
+			return "Interactions";
+		case HeatScoreSignalType.lifetimeValue:
+			return "Lifetime value";
+		case HeatScoreSignalType.responseTime:
+			return "Response time";
+		case HeatScoreSignalType.formSubmitted:
+			return signal.formId
+				? `Submitted "${formNames[signal.formId] ?? "a deleted form"}"`
+				: "Submitted a form";
+		case HeatScoreSignalType.quoteAccepted:
+			return "Accepted a quote";
+		case HeatScoreSignalType.tag:
+			return `Tagged "${signal.tag}"`;
+		case HeatScoreSignalType.channel:
+			return `Reached on ${signal.channel}`;
+		case HeatScoreSignalType.customField:
+			return signal.value
+				? `${signal.key} is "${signal.value}"`
+				: `${signal.key} is set`;
+	}
+}
+
+/**
+ * Whether a model has a signal of one of `types`, i.e. whether an event
+ * changing them can change scores
+ */
+export function usesHeatScoreSignals(
+	model: HeatScoreModel,
+	types: readonly HeatScoreSignalType[],
+): boolean {
+	return model.signals.some((signal) => types.includes(signal.type));
+}
+
+export function getHeatLevel(
+	score: number,
+	model: Pick<HeatScoreModel, "hotThreshold" | "warmThreshold">,
+): HeatLevel {
+	if (score >= model.hotThreshold) return "hot";
+	if (score >= model.warmThreshold) return "warm";
+	return "cold";
+}
+
+/**
+ * Heat level of a `score` in SQL, as getHeatLevel
+ */
+function heatLevelSql(
+	score: SQL,
+	model: Pick<HeatScoreModel, "hotThreshold" | "warmThreshold">,
+): SQL {
+	return sql`case when ${score} >= ${model.hotThreshold} then 'hot' when ${score} >= ${model.warmThreshold} then 'warm' else 'cold' end`;
+}
+
+/**
+ * Aggregates counting the hot, warm and cold contacts of a query on `score`
+ */
+export function heatLevelCounts(
+	score: SQL | SQL.Aliased | Column,
+	model: Pick<HeatScoreModel, "hotThreshold" | "warmThreshold">,
+): { [TLevel in HeatLevel]: SQL<number> } {
+	return {
+		hot: sql<number>`(count(*) filter (where ${score} >= ${model.hotThreshold}))::int`,
+		warm: sql<number>`(count(*) filter (where ${score} >= ${model.warmThreshold} and ${score} < ${model.hotThreshold}))::int`,
+		cold: sql<number>`(count(*) filter (where ${score} < ${model.warmThreshold}))::int`,
+	};
+}
+
+// ============================================================================
+// Models
+// ============================================================================
+
+/**
+ * Signals stored on a model row, dropping the ones that no longer validate
+ */
+function parseSignals(json: string): HeatScoreSignal[] {
+	try {
+		const result = z.array(z.unknown()).safeParse(JSON.parse(json));
+		if (!result.success) return [];
+		return result.data.flatMap((item) => {
+			const signal = heatScoreSignalSchema.safeParse(item);
+			return signal.success ? [signal.data] : [];
+		});
+	} catch {
+		return [];
+	}
+}
+
+export async function getHeatScoreModelSettings(
+	organizationId: string,
+): Promise<HeatScoreModelSettings> {
+	const [row, run] = await Promise.all([
+		db.query.heatScoreModelTable.findFirst({
+			where: eq(heatScoreModelTable.organizationId, organizationId),
+		}),
+		getLatestHeatScoreRun(organizationId),
+	]);
+
+	if (!row) {
+		return {
+			...heatScoreConfig.defaultModel,
+			isDefault: true,
+			updatedAt: null,
+			run,
+		};
+	}
+
+	return {
+		decayHalfLifeDays: row.decayHalfLifeDays,
+		hotThreshold: row.hotThreshold,
+		warmThreshold: row.warmThreshold,
+		signals: parseSignals(row.signals),
+		isDefault: false,
+		updatedAt: row.updatedAt,
+		run,
+	};
+}
+
+export async function getHeatScoreModel(
+	organizationId: string,
+): Promise<HeatScoreModel> {
+	const row = await db.query.heatScoreModelTable.findFirst({
+		where: eq(heatScoreModelTable.organizationId, organizationId),
 	});
 
-	if (!contact) {
-		throw new Error("Contact not found");
+	if (!row) {
+		return heatScoreConfig.defaultModel;
 	}
 
-	let score = 0;
+	return {
+		decayHalfLifeDays: row.decayHalfLifeDays,
+		hotThreshold: row.hotThreshold,
+		warmThreshold: row.warmThreshold,
+		signals: parseSignals(row.signals),
+	};
+}
 
-	// 1. Recency score (0-30 points)
-	if (contact.lastInteractionAt) {
-		const daysSinceLastInteraction = Math.floor(
-			(Date.now() - contact.lastInteractionAt.getTime()) /
-				(1000 * 60 * 60 * 24),
-		);
+/**
+ * Save the model of an organization and re-score its contacts with it
+ */
+export async function updateHeatScoreModel(
+	organizationId: string,
+	model: HeatScoreModel,
+	updatedById: string,
+): Promise<HeatScoreModelSettings> {
+	const values = {
+		decayHalfLifeDays: model.decayHalfLifeDays,
+		hotThreshold: model.hotThreshold,
+		warmThreshold: model.warmThreshold,
+		signals: JSON.stringify(model.signals),
+		updatedById,
+	};
+	await db
+		.insert(heatScoreModelTable)
+		.values({ organizationId, ...values })
+		.onConflictDoUpdate({
+			target: heatScoreModelTable.organizationId,
+			set: { ...values, updatedAt: new Date() },
+		});
 
-		if (daysSinceLastInteraction === 0) {
-			score += 30; // Interacted today
-		} else if (daysSinceLastInteraction <= 1) {
-			score += 28; // Yesterday
-		} else if (daysSinceLastInteraction <= 3) {
-			score += 25; // Last 3 days
-		} else if (daysSinceLastInteraction <= 7) {
-			score += 20; // Last week
-		} else if (daysSinceLastInteraction <= 14) {
-			score += 15; // Last 2 weeks
-		} else if (daysSinceLastInteraction <= 30) {
-			score += 10; // Last month
-		} else if (daysSinceLastInteraction <= 60) {
-			score += 5; // Last 2 months
-		}
-		// 0 points if > 60 days
+	await startHeatScoreRun(
+		organizationId,
+		HeatScoreRunReason.modelUpdate,
+		new Date().toISOString(),
+	);
+	return await getHeatScoreModelSettings(organizationId);
+}
+
+// ============================================================================
+// Contacts
+// ============================================================================
+
+function parseJson<T>(json: string | null, fallback: T): T {
+	if (!json) return fallback;
+	try {
+		return (JSON.parse(json) as T) ?? fallback;
+	} catch {
+		return fallback;
 	}
+}
 
-	// 2. Frequency score (0-30 points)
-	// Count interactions in last 30 days
-	const recentInteractionCount = contact.interactionCount || 0;
-
-	// Scale: 1-5 interactions = 10 pts, 6-15 = 20 pts, 16+ = 30 pts
-	if (recentInteractionCount >= 16) {
-		score += 30;
-	} else if (recentInteractionCount >= 6) {
-		score += 20;
-	} else if (recentInteractionCount >= 1) {
-		score += 10;
+/**
+ * Names of the forms the signals of a model refer to
+ */
+async function getFormNames(
+	organizationId: string,
+	model: HeatScoreModel,
+): Promise<Record<string, string>> {
+	const formIds = model.signals.flatMap((signal) =>
+		signal.type === HeatScoreSignalType.formSubmitted && signal.formId
+			? [signal.formId]
+			: [],
+	);
+	if (formIds.length === 0) {
+		return {};
 	}
 
-	// 3. Value score (0-20 points)
-	const lifetimeValue = contact.lifetimeValue || 0;
-
-	// Scale based on value (customize thresholds as needed)
-	if (lifetimeValue >= 100000) {
-		// $1000+
-		score += 20;
-	} else if (lifetimeValue >= 50000) {
-		// $500+
-		score += 15;
-	} else if (lifetimeValue >= 10000) {
-		// $100+
-		score += 10;
-	} else if (lifetimeValue >= 1000) {
-		// $10+
-		score += 5;
+	const forms = await db
+		.select({ id: formTable.id, name: formTable.name })
+		.from(formTable)
+		.where(
+			and(
+				eq(formTable.organizationId, organizationId),
+				inArray(formTable.id, formIds),
+			),
+		);
+	return Object.fromEntries(forms.map((form) => [form.id, form.name]));
+}
+
+/**
+ * Re-score the contacts matching `where`, in one statement: the scores that
+ * changed are stored and logged in the score history with the points of each
+ * signal. With `levelChangesOnly`, only changes of heat level are logged.
+ * With a `limit`, scores the first contacts by id, the next batch starting
+ * after `lastId`.
+ */
+async function rescoreContactSet(
+	organizationId: string,
+	model: HeatScoreModel,
+	where: SQL | undefined,
+	options: {
+		limit?: number;
+		executor?: ScoringExecutor;
+		levelChangesOnly?: boolean;
+	} = {},
+): Promise<{ scanned: number; lastId: string | null; updated: number }> {
+	const { limit, executor = db, levelChangesOnly = false } = options;
+	const formNames = await getFormNames(organizationId, model);
+
+	const points = model.signals.map((signal) =>
+		signalPointsSql(signal, model.decayHalfLifeDays),
+	);
+	const labels = model.signals.map(
+		(signal) => sql`${describeHeatScoreSignal(signal, formNames)}::text`,
+	);
+	// Empty arrays need their type
+	const pointsArray = points.length
+		? sql`array[${sql.join(points, sql`, `)}]::float8[]`
+		: sql`'{}'::float8[]`;
+	const labelsArray = labels.length
+		? sql`array[${sql.join(labels, sql`, `)}]`
+		: sql`'{}'::text[]`;
+
+	const result = await executor.execute<{
+		scanned: number;
+		last_id: string | null;
+		updated: number;
+	}>(sql`
+		with scored as (
+			select ${contactTable.id} as id, ${contactTable.heatScore} as previous_score, ${pointsArray} as points
+			from ${contactTable}
+			where ${where ?? sql`true`}
+			order by ${contactTable.id}
+			${limit ? sql`limit ${limit}` : sql``}
+		),
+		totals as (
+			select id, previous_score,
+				least(greatest(round((select coalesce(sum(p), 0) from unnest(points) as p)), 0), 100)::int as score,
+				(
+					select coalesce(jsonb_agg(jsonb_build_object('label', signal.label, 'points', round(signal.points::numeric, 1)) order by signal.ord), '[]'::jsonb)
+					from unnest(points, ${labelsArray}) with ordinality as signal(points, label, ord)
+					where round(signal.points::numeric, 1) <> 0
+				) as contributions
+			from scored
+		),
+		changed as (
+			update ${contactTable} set heat_score = totals.score
+			from totals
+			where ${contactTable.id} = totals.id and totals.score <> totals.previous_score
+			returning ${contactTable.id}
+		),
+		history as (
+			insert into ${contactScoreHistoryTable} (organization_id, contact_id, score, previous_score, contributions)
+			select ${organizationId}::uuid, id, score, previous_score, contributions::text
+			from totals
+			where score <> previous_score${
+				levelChangesOnly
+					? sql` and ${heatLevelSql(sql`score`, model)} <> ${heatLevelSql(sql`previous_score`, model)}`
+					: sql``
+			}
+		)
+		select
+			(select count(*) from scored)::int as scanned,
+			(select id from scored order by id desc limit 1) as last_id,
+			(select count(*) from changed)::int as updated
+	`);
+
+	const row = result.rows[0];
+	return {
+		scanned: row?.scanned ?? 0,
+		lastId: row?.last_id ?? null,
+		updated: row?.updated ?? 0,
+	};
+}
+
+/**
+ * Re-score contacts after an event changing some of their signals, e.g. a
+ * tag added. Skipped when the model of the organization uses none of
+ * `signalTypes`. Pass the transaction of the event as `executor`.
+ */
+export async function rescoreContacts(
+	organizationId: string,
+	contactIds: string[],
+	signalTypes: readonly HeatScoreSignalType[],
+	executor: ScoringExecutor = db,
+): Promise<void> {
+	if (contactIds.length === 0) {
+		return;
 	}
 
-	// 4. Engagement score (0-20 points)
-	// Based on average response time
-	const avgResponseTime = contact.averageResponseTime || null;
-
-	if (avgResponseTime !== null) {
-		// Response time in seconds
-		// Fast: < 5 min = 20 pts
-		// Medium: < 30 min = 15 pts
-		// Slow: < 2 hours = 10 pts
-		// Very slow: < 24 hours = 5 pts
-		if (avgResponseTime < 300) {
-			// 5 minutes
-			score += 20;
-		} else if (avgResponseTime < 1800) {
-			// 30 minutes
-			score += 15;
-		} else if (avgResponseTime < 7200) {
-			// 2 hours
-			score += 10;
-		} else if (avgResponseTime < 86400) {
-			// 24 hours
-			score += 5;
-		}
+	const model = await getHeatScoreModel(organizationId);
+	if (!usesHeatScoreSignals(model, signalTypes)) {
+		return;
 	}
 
-	// Ensure score is between 0 and 100
-	return Math.min(Math.max(Math.round(score), 0), 100);
+	await rescoreContactSet(
+		organizationId,
+		model,
+		and(
+			eq(contactTable.organizationId, organizationId),
+			eq(contactTable.status, ContactStatus.active),
+			inArray(contactTable.id, contactIds),
+		),
+		{ executor },
+	);
 }
 
 /**
  * Recalculate and update heat score for a contact
  */
 export async function recalculateHeatScore(contactId: string): Promise<number> {
-	const heatScore = await calculateHeatScore(contactId);
+	const contact = await db.query.contactTable.findFirst({
+		where: eq(contactTable.id, contactId),
+		columns: { organizationId: true },
+	});
 
-	await db
-		.update(contactTable)
-		.set({
-			heatScore,
-			updatedAt: new Date(),
-		})
-		.where(eq(contactTable.id, contactId));
+	if (!contact) {
+		throw new Error("Contact not found");
+	}
+
+	const model = await getHeatScoreModel(contact.organizationId);
+	await rescoreContactSet(
+		contact.organizationId,
+		model,
+		eq(contactTable.id, contactId),
+	);
 
-	return heatScore;
+	const updated = await db.query.contactTable.findFirst({
+		where: eq(contactTable.id, contactId),
+		columns: { heatScore: true },
+	});
+	return updated?.heatScore ?? 0;
+}
+
+/**
+ * Score changes of a contact, latest first
+ */
+export async function getContactScoreHistory(
+	organizationId: string,
+	contactId: string,
+): Promise<HeatScoreHistoryEntry[]> {
+	const rows = await db.query.contactScoreHistoryTable.findMany({
+		where: and(
+			eq(contactScoreHistoryTable.organizationId, organizationId),
+			eq(contactScoreHistoryTable.contactId, contactId),
+		),
+		orderBy: desc(contactScoreHistoryTable.createdAt),
+		limit: heatScoreConfig.historyLimit,
+	});
+
+	return rows.map((row) => ({
+		id: row.id,
+		score: row.score,
+		previousScore: row.previousScore,
+		contributions: parseJson<HeatScoreContribution[]>(row.contributions, []),
+		createdAt: row.createdAt,
+	}));
+}
+
+/**
+ * Delete the score changes older than `historyRetentionDays`, in batches.
+ * Returns the number of changes deleted.
+ */
+export async function pruneContactScoreHistory(): Promise<number> {
+	const { historyRetentionDays, historyPruneBatchSize } = heatScoreConfig;
+	const cutoff = new Date(
+		Date.now() - historyRetentionDays * DAY_SECONDS * 1000,
+	);
+
+	let pruned = 0;
+	for (;;) {
+		const deleted = await db
+			.delete(contactScoreHistoryTable)
+			.where(
+				inArray(
+					contactScoreHistoryTable.id,
+					db
+						.select({ id: contactScoreHistoryTable.id })
+						.from(contactScoreHistoryTable)
+						.where(lt(contactScoreHistoryTable.createdAt, cutoff))
+						.limit(historyPruneBatchSize),
+				),
+			)
+			.returning({ id: contactScoreHistoryTable.id });
+		pruned += deleted.length;
+		if (deleted.length < historyPruneBatchSize) {
+			return pruned;
+		}
+	}
 }
 
 /**
@@ -181,84 +687,344 @@ export async function calculateAverageResponseTime(
 	);
 
 	// Update contact
-	await db
+	const [contact] = await db
 		.update(contactTable)
 		.set({
 			averageResponseTime: avgResponseTime,
 			updatedAt: new Date(),
 		})
-		.where(eq(contactTable.id, contactId));
+		.where(eq(contactTable.id, contactId))
+		.returning({ organizationId: contactTable.organizationId });
+
+	if (contact) {
+		await rescoreContacts(
+			contact.organizationId,
+			[contactId],
+			[HeatScoreSignalType.responseTime],
+		);
+	}
 
 	return avgResponseTime;
 }
 
+// ============================================================================
+// Organizations
+// ============================================================================
+
 /**
- * Batch recalculate heat scores for all active contacts in an organization
- * Useful for periodic background jobs
+ * Latest re-scoring of all contacts of an organization. A run left running
+ * without a job to continue it is marked failed.
  */
-export async function batchRecalculateHeatScores(
+async function getLatestHeatScoreRun(
 	organizationId: string,
-): Promise<number> {
-	const contacts = await db.query.contactTable.findMany({
+): Promise<HeatScoreRun | null> {
+	const run = await db.query.heatScoreRunTable.findFirst({
+		where: eq(heatScoreRunTable.organizationId, organizationId),
+		orderBy: desc(heatScoreRunTable.startedAt),
+	});
+
+	if (
+		!run ||
+		run.status !== HeatScoreRunStatus.running ||
+		run.startedAt.getTime() >
+			Date.now() - heatScoreConfig.staleRunMinutes * 60 * 1000
+	) {
+		return run ?? null;
+	}
+
+	const job = await db.query.jobTable.findFirst({
 		where: and(
-			eq(contactTable.organizationId, organizationId),
-			eq(contactTable.status, "active"),
+			eq(jobTable.organizationId, organizationId),
+			eq(jobTable.type, JobType.heatScoreRecalculation),
+			inArray(jobTable.status, [JobStatus.pending, JobStatus.running]),
 		),
+		columns: { id: true },
 	});
+	if (job) {
+		return run;
+	}
 
-	let updated = 0;
+	const [failed] = await db
+		.update(heatScoreRunTable)
+		.set({
+			status: HeatScoreRunStatus.failed,
+			errorMessage: "The recalculation stopped before re-scoring every contact",
+			completedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(heatScoreRunTable.id, run.id),
+				eq(heatScoreRunTable.status, HeatScoreRunStatus.running),
+			),
+		)
+		.returning();
+	return failed ?? run;
+}
 
-	for (const contact of contacts) {
-		try {
-			await recalculateHeatScore(contact.id);
-			updated++;
-		} catch (error) {
-			console.error(
-				`Failed to recalculate heat score for contact ${contact.id}:`,
-				error,
-			);
+/**
+ * Start re-scoring every active contact of an organization, in batches run by
+ * heat_score_recalculation jobs. A model update replaces a running run, a
+ * decay pass leaves it be. `key` keeps a run from starting twice.
+ */
+export async function startHeatScoreRun(
+	organizationId: string,
+	reason: HeatScoreRunReason,
+	key: string,
+): Promise<boolean> {
+	const latest = await getLatestHeatScoreRun(organizationId);
+	if (latest?.status === HeatScoreRunStatus.running) {
+		// The running run already decays the scores
+		if (reason === HeatScoreRunReason.decay) {
+			return false;
 		}
+		await db
+			.update(heatScoreRunTable)
+			.set({ status: HeatScoreRunStatus.cancelled, completedAt: new Date() })
+			.where(
+				and(
+					eq(heatScoreRunTable.organizationId, organizationId),
+					eq(heatScoreRunTable.status, HeatScoreRunStatus.running),
+				),
+			);
 	}
 
-	return updated;
+	const totalContacts = await db.$count(
+		contactTable,
+		and(
+			eq(contactTable.organizationId, organizationId),
+			eq(contactTable.status, ContactStatus.active),
+		),
+	);
+	const [run] = await db
+		.insert(heatScoreRunTable)
+		.values({ organizationId, reason, key, totalContacts })
+		.onConflictDoNothing()
+		.returning({ id: heatScoreRunTable.id });
+	if (!run) {
+		return false;
+	}
+
+	await enqueueJob({
+		type: JobType.heatScoreRecalculation,
+		organizationId,
+		payload: { runId: run.id, cursor: null },
+		uniqueKey: `heat_score_recalculation:${run.id}:start`,
+	});
+	return true;
 }
 
 /**
- * Get heat score distribution for an organization
- * Useful for dashboard analytics
+ * Start the nightly decay pass of every organization with active contacts
+ * and a model with decaying signals. `runKey` (e.g. the date) keeps a pass
+ * from starting twice. Returns the number of runs started.
  */
-export async function getHeatScoreDistribution(
+export async function startHeatScoreDecay(runKey: string): Promise<number> {
+	const organizations = await db
+		.select({ id: organizationTable.id })
+		.from(organizationTable)
+		.where(
+			exists(
+				db
+					.select({ id: contactTable.id })
+					.from(contactTable)
+					.where(
+						and(
+							eq(contactTable.organizationId, organizationTable.id),
+							eq(contactTable.status, ContactStatus.active),
+						),
+					),
+			),
+		);
+
+	let started = 0;
+	for (const organization of organizations) {
+		const model = await getHeatScoreModel(organization.id);
+		if (!usesHeatScoreSignals(model, DECAYING_SIGNAL_TYPES)) {
+			continue;
+		}
+		if (
+			await startHeatScoreRun(
+				organization.id,
+				HeatScoreRunReason.decay,
+				`decay:${runKey}`,
+			)
+		) {
+			started++;
+		}
+	}
+	return started;
+}
+
+/**
+ * Re-score the next batch of contacts of a run, then queue the next batch as
+ * its own job. The run is marked failed when the job runs out of attempts.
+ */
+export async function processHeatScoreRun(
 	organizationId: string,
-): Promise<{
-	hot: number; // 80-100
-	warm: number; // 50-79
-	cold: number; // 0-49
-}> {
-	const contacts = await db.query.contactTable.findMany({
+	payload: { runId: string; cursor: string | null },
+	isLastAttempt: boolean,
+): Promise<void> {
+	const run = await db.query.heatScoreRunTable.findFirst({
 		where: and(
-			eq(contactTable.organizationId, organizationId),
-			eq(contactTable.status, "active"),
+			eq(heatScoreRunTable.id, payload.runId),
+			eq(heatScoreRunTable.organizationId, organizationId),
 		),
-		columns: {
-			heatScore: true,
-		},
 	});
 
-	const distribution = {
-		hot: 0,
-		warm: 0,
-		cold: 0,
-	};
+	// Finished, or cancelled by a newer run
+	if (!run || run.status !== HeatScoreRunStatus.running) {
+		return;
+	}
+
+	try {
+		const model = await getHeatScoreModel(organizationId);
+		const batchSize = heatScoreConfig.recalculationBatchSize;
 
-	for (const contact of contacts) {
-		if (contact.heatScore >= 80) {
-			distribution.hot++;
-		} else if (contact.heatScore >= 50) {
-			distribution.warm++;
-		} else {
-			distribution.cold++;
+		const batch = await db.transaction(async (tx) => {
+			const batch = await rescoreContactSet(
+				organizationId,
+				model,
+				and(
+					eq(contactTable.organizationId, organizationId),
+					eq(contactTable.status, ContactStatus.active),
+					payload.cursor ? gt(contactTable.id, payload.cursor) : undefined,
+				),
+				{
+					limit: batchSize,
+					executor: tx,
+					// Decay moves most scores a little every night
+					levelChangesOnly: run.reason === HeatScoreRunReason.decay,
+				},
+			);
+			const isDone = batch.scanned < batchSize;
+
+			await tx
+				.update(heatScoreRunTable)
+				.set({
+					processedContacts: sql`${heatScoreRunTable.processedContacts} + ${batch.scanned}`,
+					updatedContacts: sql`${heatScoreRunTable.updatedContacts} + ${batch.updated}`,
+					...(isDone && {
+						status: HeatScoreRunStatus.completed,
+						completedAt: new Date(),
+					}),
+				})
+				.where(
+					and(
+						eq(heatScoreRunTable.id, run.id),
+						eq(heatScoreRunTable.status, HeatScoreRunStatus.running),
+					),
+				);
+			return { ...batch, isDone };
+		});
+
+		if (batch.isDone || !batch.lastId) {
+			logger.info(
+				{ organizationId, runId: run.id, reason: run.reason },
+				"Recalculated heat scores",
+			);
+			return;
 		}
+
+		await enqueueJob({
+			type: JobType.heatScoreRecalculation,
+			organizationId,
+			payload: { runId: run.id, cursor: batch.lastId },
+			uniqueKey: `heat_score_recalculation:${run.id}:${batch.lastId}`,
+		});
+	} catch (error) {
+		if (isLastAttempt) {
+			await db
+				.update(heatScoreRunTable)
+				.set({
+					status: HeatScoreRunStatus.failed,
+					errorMessage:
+						error instanceof Error ? error.message : "Recalculation failed",
+					completedAt: new Date(),
+				})
+				.where(eq(heatScoreRunTable.id, run.id));
+		}
+		throw error;
 	}
+}
+
+/**
+ * Get heat score distribution for an organization
+ * Useful for dashboard analytics
+ */
+export async function getHeatScoreDistribution(
+	organizationId: string,
+): Promise<HeatScoreDistribution> {
+	const model = await getHeatScoreModel(organizationId);
 
-	return distribution;
+	const [distribution] = await db
+		.select(heatLevelCounts(contactTable.heatScore, model))
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.organizationId, organizationId),
+				eq(contactTable.status, ContactStatus.active),
+			),
+		);
+	return distribution ?? { hot: 0, warm: 0, cold: 0 };
+}
+
+/**
+ * Distribution of a random sample of active contacts under the saved model
+ * and under `model`, before saving it
+ */
+export async function previewHeatScoreModel(
+	organizationId: string,
+	model: HeatScoreModel,
+): Promise<HeatScorePreview> {
+	const where = and(
+		eq(contactTable.organizationId, organizationId),
+		eq(contactTable.status, ContactStatus.active),
+	);
+	const [savedModel, total] = await Promise.all([
+		getHeatScoreModel(organizationId),
+		db.$count(contactTable, where),
+	]);
+
+	const sample = db
+		.select({ id: contactTable.id })
+		.from(contactTable)
+		.where(where)
+		.orderBy(sql`random()`)
+		.limit(heatScoreConfig.previewSampleSize);
+	const scored = db.$with("scored").as(
+		db
+			.select({
+				current: sql<number>`${contactTable.heatScore}`.as("current"),
+				preview: sql<number>`${heatScoreSql(model)}`.as("preview"),
+			})
+			.from(contactTable)
+			.where(inArray(contactTable.id, sample)),
+	);
+
+	const buckets = Array.from(
+		{ length: 10 },
+		(_, bucket) =>
+			sql`(count(*) filter (where least(${scored.preview} / 10, 9) = ${bucket}))::int`,
+	);
+	const [row] = await db
+		.with(scored)
+		.select({
+			sampled: sql<number>`count(*)::int`,
+			current: {
+				...heatLevelCounts(scored.current, savedModel),
+			},
+			preview: {
+				...heatLevelCounts(scored.preview, model),
+			},
+			histogram: sql<number[]>`array[${sql.join(buckets, sql`, `)}]`,
+		})
+		.from(scored);
+
+	return {
+		total,
+		sampled: row?.sampled ?? 0,
+		current: row?.current ?? { hot: 0, warm: 0, cold: 0 },
+		preview: row?.preview ?? { hot: 0, warm: 0, cold: 0 },
+		histogram: row?.histogram ?? Array.from({ length: 10 }, () => 0),
+	};
 }
@@ -0,0 +1,436 @@
+import {
+	and,
+	asc,
+	count,
+	eq,
+	inArray,
+	ne,
+	notInArray,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { db } from "@/lib/db";
+import { ContactStatus } from "@/lib/db/schema/enums";
+import {
+	contactTable,
+	contactTagTable,
+	tagTable,
+} from "@/lib/db/schema/tables";
+import type {
+	CreateTagInput,
+	MergeTagsInput,
+	TagMatch,
+	UpdateTagInput,
+} from "@/schemas/tag.schema";
+import { TagError } from "./errors";
+
+/**
+ * Tags - Labels on contacts
+ *
+ * `contact_tag` is the source of truth and is what contacts are filtered on.
+ * Each contact keeps a JSON copy of its tag names in `tags` (sorted), which
+ * every change made here rewrites.
+ */
+
+type TagRow = typeof tagTable.$inferSelect;
+
+/** Anything that can read and write: the db client or an open transaction */
+type TagExecutor = Pick<
+	typeof db,
+	"select" | "selectDistinct" | "insert" | "update" | "delete" | "execute"
+>;
+
+export interface TagSummary {
+	id: string;
+	name: string;
+	color: string | null;
+	description: string | null;
+	contactCount: number; // Contacts not merged into another one
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/** Contacts whose JSON copy is rewritten per statement */
+const SYNC_BATCH_SIZE = 1000;
+
+/**
+ * Tag names are compared trimmed, with single spaces and lowercase
+ */
+export function normalizeTagName(name: string): string {
+	return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function normalizeTagNames(names: string[]): string[] {
+	return [...new Set(names.map(normalizeTagName).filter(Boolean))];
+}
+
+function toTagSummary(row: TagRow, contactCount: number): TagSummary {
+	return {
+		id: row.id,
+		name: row.name,
+		color: row.color,
+		description: row.description,
+		contactCount,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+async function getTagRow(
+	organizationId: string,
+	tagId: string,
+	executor: TagExecutor = db,
+): Promise<TagRow> {
+	const [tag] = await executor
+		.select()
+		.from(tagTable)
+		.where(
+			and(eq(tagTable.id, tagId), eq(tagTable.organizationId, organizationId)),
+		);
+
+	if (!tag) {
+		throw new TagError("NOT_FOUND", "Tag not found");
+	}
+	return tag;
+}
+
+/**
+ * Tags with the given names, created when missing
+ */
+async function ensureTags(
+	executor: TagExecutor,
+	organizationId: string,
+	names: string[],
+): Promise<TagRow[]> {
+	if (names.length === 0) {
+		return [];
+	}
+
+	await executor
+		.insert(tagTable)
+		.values(names.map((name) => ({ organizationId, name })))
+		.onConflictDoNothing();
+
+	return await executor
+		.select()
+		.from(tagTable)
+		.where(
+			and(
+				eq(tagTable.organizationId, organizationId),
+				inArray(tagTable.name, names),
+			),
+		);
+}
+
+async function getTaggedContactIds(
+	executor: TagExecutor,
+	tagIds: string[],
+): Promise<string[]> {
+	const rows = await executor
+		.selectDistinct({ contactId: contactTagTable.contactId })
+		.from(contactTagTable)
+		.where(inArray(contactTagTable.tagId, tagIds));
+	return rows.map((row) => row.contactId);
+}
+
+/**
+ * Rewrite the JSON copy of the tag names of contacts
+ */
+async function syncContactTagNames(
+	executor: TagExecutor,
+	contactIds: string[],
+): Promise<void> {
+	for (let start = 0; start < contactIds.length; start += SYNC_BATCH_SIZE) {
+		const batch = contactIds.slice(start, start + SYNC_BATCH_SIZE);
+		await executor.execute(sql`
+			update "contact" set "tags" = (
+				select coalesce(json_agg(t."name" order by t."name"), '[]')::text
+				from "contact_tag" ct
+				inner join "tag" t on t."id" = ct."tag_id"
+				where ct."contact_id" = "contact"."id"
+			)
+			where ${inArray(contactTable.id, batch)}
+		`);
+	}
+}
+
+/**
+ * Tag names of contacts, sorted
+ */
+export async function getContactTagNames(
+	contactIds: string[],
+	executor: TagExecutor = db,
+): Promise<string[]> {
+	if (contactIds.length === 0) {
+		return [];
+	}
+
+	const rows = await executor
+		.selectDistinct({ name: tagTable.name })
+		.from(contactTagTable)
+		.innerJoin(tagTable, eq(tagTable.id, contactTagTable.tagId))
+		.where(inArray(contactTagTable.contactId, contactIds))
+		.orderBy(asc(tagTable.name));
+	return rows.map((row) => row.name);
+}
+
+/**
+ * Replace the tags of a contact, creating the missing ones. Returns the tag
+ * names of the contact.
+ */
+export async function setContactTags(
+	organizationId: string,
+	contactId: string,
+	names: string[],
+	executor: TagExecutor = db,
+): Promise<string[]> {
+	const tags = await ensureTags(
+		executor,
+		organizationId,
+		normalizeTagNames(names),
+	);
+	const tagIds = tags.map((tag) => tag.id);
+
+	await executor
+		.delete(contactTagTable)
+		.where(
+			and(
+				eq(contactTagTable.contactId, contactId),
+				tagIds.length > 0
+					? notInArray(contactTagTable.tagId, tagIds)
+					: undefined,
+			),
+		);
+	if (tagIds.length > 0) {
+		await executor
+			.insert(contactTagTable)
+			.values(tagIds.map((tagId) => ({ contactId, tagId })))
+			.onConflictDoNothing();
+	}
+	await syncContactTagNames(executor, [contactId]);
+
+	return tags.map((tag) => tag.name).sort();
+}
+
+/**
+ * Add tags to a contact, creating the missing ones. Returns all the tag names
+ * of the contact.
+ */
+export async function addContactTags(
+	organizationId: string,
+	contactId: string,
+	names: string[],
+	executor: TagExecutor = db,
+): Promise<string[]> {
+	const tags = await ensureTags(
+		executor,
+		organizationId,
+		normalizeTagNames(names),
+	);
+
+	if (tags.length > 0) {
+		await executor
+			.insert(contactTagTable)
+			.values(tags.map((tag) => ({ contactId, tagId: tag.id })))
+			.onConflictDoNothing();
+		await syncContactTagNames(executor, [contactId]);
+	}
+
+	return await getContactTagNames([contactId], executor);
+}
+
+/**
+ * Condition on contacts having any or all of the tags
+ */
+export function contactTagCondition(
+	organizationId: string,
+	names: string[],
+	match: TagMatch,
+): SQL | undefined {
+	const normalized = normalizeTagNames(names);
+	if (normalized.length === 0) {
+		return undefined;
+	}
+
+	const taggedContacts = db
+		.select({ contactId: contactTagTable.contactId })
+		.from(contactTagTable)
+		.innerJoin(tagTable, eq(tagTable.id, contactTagTable.tagId))
+		.where(
+			and(
+				eq(tagTable.organizationId, organizationId),
+				inArray(tagTable.name, normalized),
+			),
+		)
+		.groupBy(contactTagTable.contactId)
+		.having(match === "all" ? sql`count(*) = ${normalized.length}` : undefined);
+
+	return inArray(contactTable.id, taggedContacts);
+}
+
+/**
+ * Condition on contacts having at least one tag
+ */
+export function contactHasTagsCondition(): SQL {
+	return inArray(
+		contactTable.id,
+		db
+			.selectDistinct({ contactId: contactTagTable.contactId })
+			.from(contactTagTable),
+	);
+}
+
+/**
+ * Tags of an organization with the number of contacts using them
+ */
+export async function listTags(organizationId: string): Promise<TagSummary[]> {
+	const rows = await db
+		.select({ tag: tagTable, contactCount: count(contactTable.id) })
+		.from(tagTable)
+		.leftJoin(contactTagTable, eq(contactTagTable.tagId, tagTable.id))
+		.leftJoin(
+			contactTable,
+			and(
+				eq(contactTable.id, contactTagTable.contactId),
+				ne(contactTable.status, ContactStatus.merged),
+			),
+		)
+		.where(eq(tagTable.organizationId, organizationId))
+		.groupBy(tagTable.id)
+		.orderBy(asc(tagTable.name));
+
+	return rows.map((row) => toTagSummary(row.tag, row.contactCount));
+}
+
+async function assertTagNameAvailable(
+	organizationId: string,
+	name: string,
+): Promise<void> {
+	const existing = await db.query.tagTable.findFirst({
+		where: and(
+			eq(tagTable.organizationId, organizationId),
+			eq(tagTable.name, name),
+		),
+		columns: { id: true },
+	});
+	if (existing) {
+		throw new TagError(
+			"CONFLICT",
+			`A tag named "${name}" already exists, merge the tags instead`,
+		);
+	}
+}
+
+export async function createTag(
+	organizationId: string,
+	input: CreateTagInput,
+): Promise<TagSummary> {
+	const name = normalizeTagName(input.name);
+	await assertTagNameAvailable(organizationId, name);
+
+	const [tag] = await db
+		.insert(tagTable)
+		.values({
+			organizationId,
+			name,
+			color: input.color ?? null,
+			description: input.description || null,
+		})
+		.returning();
+
+	if (!tag) {
+		throw new Error("Failed to create tag");
+	}
+	return toTagSummary(tag, 0);
+}
+
+/**
+ * Rename a tag or change its color or description. Renaming rewrites the tag
+ * names of its contacts.
+ */
+export async function updateTag(
+	organizationId: string,
+	input: UpdateTagInput,
+): Promise<void> {
+	const tag = await getTagRow(organizationId, input.id);
+	const name =
+		input.name === undefined ? tag.name : normalizeTagName(input.name);
+	if (name !== tag.name) {
+		await assertTagNameAvailable(organizationId, name);
+	}
+
+	await db.transaction(async (tx) => {
+		await tx
+			.update(tagTable)
+			.set({
+				name,
+				...(input.color !== undefined && { color: input.color }),
+				...(input.description !== undefined && {
+					description: input.description || null,
+				}),
+			})
+			.where(eq(tagTable.id, tag.id));
+
+		if (name !== tag.name) {
+			await syncContactTagNames(tx, await getTaggedContactIds(tx, [tag.id]));
+		}
+	});
+}
+
+/**
+ * Move the contacts of the source tags to the target tag and delete the
+ * sources
+ */
+export async function mergeTags(
+	organizationId: string,
+	input: MergeTagsInput,
+): Promise<void> {
+	const sourceIds = [...new Set(input.sourceIds)];
+	if (sourceIds.includes(input.targetId)) {
+		throw new TagError("BAD_REQUEST", "A tag can't be merged into itself");
+	}
+
+	const target = await getTagRow(organizationId, input.targetId);
+	const sources = await db
+		.select({ id: tagTable.id })
+		.from(tagTable)
+		.where(
+			and(
+				eq(tagTable.organizationId, organizationId),
+				inArray(tagTable.id, sourceIds),
+			),
+		);
+	if (sources.length !== sourceIds.length) {
+		throw new TagError("NOT_FOUND", "Tag not found");
+	}
+
+	await db.transaction(async (tx) => {
+		const contactIds = await getTaggedContactIds(tx, sourceIds);
+
+		await tx.execute(sql`
+			insert into "contact_tag" ("contact_id", "tag_id")
+			select "contact_id", ${target.id}::uuid from "contact_tag"
+			where ${inArray(contactTagTable.tagId, sourceIds)}
+			on conflict do nothing
+		`);
+		await tx.delete(tagTable).where(inArray(tagTable.id, sourceIds));
+
+		await syncContactTagNames(tx, contactIds);
+	});
+}
+
+/**
+ * Delete a tag and remove it from its contacts
+ */
+export async function deleteTag(
+	organizationId: string,
+	tagId: string,
+): Promise<void> {
+	const tag = await getTagRow(organizationId, tagId);
+
+	await db.transaction(async (tx) => {
+		const contactIds = await getTaggedContactIds(tx, [tag.id]);
+		await tx.delete(tagTable).where(eq(tagTable.id, tag.id));
+		await syncContactTagNames(tx, contactIds);
+	});
+}
@@ -0,0 +1,343 @@
+import { and, asc, desc, eq, max, ne, sql } from "drizzle-orm";
+import { pipelinesConfig } from "@/config/pipelines.config";
+import { db } from "@/lib/db";
+import { DealStatus, PipelineStageType } from "@/lib/db/schema/enums";
+import {
+	contactTable,
+	dealStageHistoryTable,
+	dealTable,
+	leadTable,
+	pipelineStageTable,
+} from "@/lib/db/schema/tables";
+import type {
+	CreateDealInput,
+	UpdateDealInput,
+} from "@/schemas/pipeline.schema";
+import { PipelineError } from "./errors";
+import {
+	getDealStatusForStage,
+	getPipeline,
+	getPipelineStage,
+} from "./pipelines";
+
+/**
+ * Deals - Opportunities moving through a pipeline
+ *
+ * A deal belongs to one stage at a time. Every stage change is recorded in
+ * the deal's stage history, and the deal's status follows the stage type.
+ */
+
+type Deal = typeof dealTable.$inferSelect;
+
+async function getDeal(organizationId: string, dealId: string): Promise<Deal> {
+	const deal = await db.query.dealTable.findFirst({
+		where: and(
+			eq(dealTable.id, dealId),
+			eq(dealTable.organizationId, organizationId),
+		),
+	});
+
+	if (!deal) {
+		throw new PipelineError("NOT_FOUND", "Deal not found");
+	}
+
+	return deal;
+}
+
+/**
+ * Check that the lead and contact of a deal belong to the organization.
+ * A deal for a lead linked to a contact gets that contact.
+ */
+async function resolveDealPeople(
+	organizationId: string,
+	input: { leadId?: string | null; contactId?: string | null },
+): Promise<{ leadId?: string | null; contactId?: string | null }> {
+	const people: { leadId?: string | null; contactId?: string | null } = {};
+
+	if (input.leadId !== undefined) {
+		people.leadId = input.leadId;
+		if (input.leadId) {
+			const lead = await db.query.leadTable.findFirst({
+				where: and(
+					eq(leadTable.id, input.leadId),
+					eq(leadTable.organizationId, organizationId),
+				),
+				columns: { id: true, contactId: true },
+			});
+			if (!lead) {
+				throw new PipelineError("NOT_FOUND", "Lead not found");
+			}
+			if (input.contactId === undefined && lead.contactId) {
+				people.contactId = lead.contactId;
+			}
+		}
+	}
+
+	if (input.contactId !== undefined) {
+		people.contactId = input.contactId;
+		if (input.contactId) {
+			const [contact] = await db
+				.select({ id: sql<string>`${contactTable.id}` })
+				.from(contactTable)
+				.where(
+					and(
+						eq(contactTable.id, input.contactId),
+						eq(contactTable.organizationId, organizationId),
+					),
+				);
+			if (!contact) {
+				throw new PipelineError("NOT_FOUND", "Contact not found");
+			}
+		}
+	}
+
+	return people;
+}
+
+/**
+ * Create a deal at the end of a stage column. Without a stage, the deal
+ * starts in the first open stage of the pipeline.
+ */
+export async function createDeal(
+	organizationId: string,
+	input: CreateDealInput,
+	actorId?: string | null,
+): Promise<Deal> {
+	const stage = input.stageId
+		? await getPipelineStage(organizationId, input.stageId)
+		: await getFirstOpenStage(organizationId, input.pipelineId);
+
+	if (input.pipelineId && stage.pipelineId !== input.pipelineId) {
+		throw new PipelineError(
+			"BAD_REQUEST",
+			"The stage does not belong to the pipeline",
+		);
+	}
+
+	const people = await resolveDealPeople(organizationId, input);
+	const status = getDealStatusForStage(stage.type);
+	const now = new Date();
+
+	return await db.transaction(async (tx) => {
+		const [last] = await tx
+			.select({ position: max(dealTable.position) })
+			.from(dealTable)
+			.where(eq(dealTable.stageId, stage.id));
+
+		const [deal] = await tx
+			.insert(dealTable)
+			.values({
+				organizationId,
+				pipelineId: stage.pipelineId,
+				stageId: stage.id,
+				title: input.title,
+				status,
+				amount: input.amount,
+				currency: input.currency ?? pipelinesConfig.defaultCurrency,
+				expectedCloseDate: input.expectedCloseDate ?? null,
+				position: (last?.position ?? -1) + 1,
+				notes: input.notes ?? null,
+				ownerId: input.ownerId ?? actorId ?? null,
+				leadId: people.leadId ?? null,
+				contactId: people.contactId ?? null,
+				stageChangedAt: now,
+				closedAt: status === DealStatus.open ? null : now,
+			})
+			.returning();
+
+		if (!deal) {
+			throw new Error("Failed to create deal");
+		}
+
+		await tx.insert(dealStageHistoryTable).values({
+			organizationId,
+			dealId: deal.id,
+			toStageId: stage.id,
+			toStageName: stage.name,
+			changedById: actorId ?? null,
+		});
+
+		return deal;
+	});
+}
+
+async function getFirstOpenStage(organizationId: string, pipelineId?: string) {
+	const pipeline = await getPipeline(organizationId, pipelineId);
+
+	const stage =
+		(await db.query.pipelineStageTable.findFirst({
+			where: and(
+				eq(pipelineStageTable.pipelineId, pipeline.id),
+				eq(pipelineStageTable.type, PipelineStageType.open),
+			),
+			orderBy: asc(pipelineStageTable.position),
+		})) ??
+		(await db.query.pipelineStageTable.findFirst({
+			where: eq(pipelineStageTable.pipelineId, pipeline.id),
+			orderBy: asc(pipelineStageTable.position),
+		}));
+
+	if (!stage) {
+		throw new PipelineError("BAD_REQUEST", "The pipeline has no stages");
+	}
+
+	return stage;
+}
+
+/**
+ * Update deal details. Stage changes go through moveDeal.
+ */
+export async function updateDeal(
+	organizationId: string,
+	input: UpdateDealInput,
+): Promise<Deal> {
+	const { id, leadId, contactId, ...data } = input;
+	const deal = await getDeal(organizationId, id);
+	const people = await resolveDealPeople(organizationId, {
+		leadId,
+		contactId,
+	});
+
+	const [updated] = await db
+		.update(dealTable)
+		.set({ ...data, ...people })
+		.where(eq(dealTable.id, deal.id))
+		.returning();
+
+	return updated ?? deal;
+}
+
+/**
+ * Move a deal to a position in a stage column, possibly in another
+ * pipeline. The other deals of the column shift to make room.
+ */
+export async function moveDeal(
+	organizationId: string,
+	input: { id: string; stageId: string; position: number },
+	actorId?: string | null,
+): Promise<Deal> {
+	const deal = await getDeal(organizationId, input.id);
+	const stage = await getPipelineStage(organizationId, input.stageId);
+	const stageChanged = stage.id !== deal.stageId;
+
+	return await db.transaction(async (tx) => {
+		const columnDeals = await tx
+			.select({ id: dealTable.id, position: dealTable.position })
+			.from(dealTable)
+			.where(and(eq(dealTable.stageId, stage.id), ne(dealTable.id, deal.id)))
+			.orderBy(asc(dealTable.position), asc(dealTable.createdAt));
+
+		const position = Math.min(input.position, columnDeals.length);
+		const ordered = columnDeals.map((columnDeal) => columnDeal.id);
+		ordered.splice(position, 0, deal.id);
+
+		for (const [index, dealId] of ordered.entries()) {
+			if (dealId === deal.id) continue;
+			if (
+				columnDeals.find((columnDeal) => columnDeal.id === dealId)?.position ===
+				index
+			) {
+				continue;
+			}
+			await tx
+				.update(dealTable)
+				.set({ position: index })
+				.where(eq(dealTable.id, dealId));
+		}
+
+		const now = new Date();
+		const status = getDealStatusForStage(stage.type);
+
+		const [moved] = await tx
+			.update(dealTable)
+			.set({
+				position,
+				...(stageChanged
+					? {
+							pipelineId: stage.pipelineId,
+							stageId: stage.id,
+							status,
+							stageChangedAt: now,
+							closedAt: status === DealStatus.open ? null : now,
+						}
+					: {}),
+			})
+			.where(eq(dealTable.id, deal.id))
+			.returning();
+
+		if (!moved) {
+			throw new PipelineError("NOT_FOUND", "Deal not found");
+		}
+
+		if (stageChanged) {
+			const fromStage = await tx.query.pipelineStageTable.findFirst({
+				where: eq(pipelineStageTable.id, deal.stageId),
+				columns: { name: true },
+			});
+
+			await tx.insert(dealStageHistoryTable).values({
+				organizationId,
+				dealId: deal.id,
+				fromStageId: deal.stageId,
+				toStageId: stage.id,
+				fromStageName: fromStage?.name ?? null,
+				toStageName: stage.name,
+				changedById: actorId ?? null,
+			});
+		}
+
+		return moved;
+	});
+}
+
+/**
+ * Delete a deal with its stage history
+ */
+export async function deleteDeal(
+	organizationId: string,
+	dealId: string,
+): Promise<void> {
+	const deal = await getDeal(organizationId, dealId);
+	await db.delete(dealTable).where(eq(dealTable.id, deal.id));
+}
+
+/**
+ * Deal with its lead, contact, owner and stage history, latest change first
+ */
+export async function getDealDetails(organizationId: string, dealId: string) {
+	const deal = await db.query.dealTable.findFirst({
+		where: and(
+			eq(dealTable.id, dealId),
+			eq(dealTable.organizationId, organizationId),
+		),
+		with: {
+			stage: true,
+			owner: {
+				columns: { id: true, name: true, email: true, image: true },
+			},
+			lead: {
+				columns: {
+					id: true,
+					firstName: true,
+					lastName: true,
+					email: true,
+					company: true,
+				},
+			},
+			stageHistory: {
+				orderBy: desc(dealStageHistoryTable.createdAt),
+				with: {
+					changedBy: {
+						columns: { id: true, name: true },
+					},
+				},
+			},
+		},
+	});
+
+	if (!deal) {
+		throw new PipelineError("NOT_FOUND", "Deal not found");
+	}
+
+	return deal;
+}
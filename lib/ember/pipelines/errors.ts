@@ -0,0 +1,13 @@
+/**
+ * Error raised by pipeline and deal operations.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class PipelineError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: PipelineError["code"], message: string) {
+		super(message);
+		this.name = "PipelineError";
+		this.code = code;
+	}
+}
@@ -0,0 +1,136 @@
+import { PipelineStageType } from "@/lib/db/schema/enums";
+
+/**
+ * Forecast - Totals of the deals in each pipeline column
+ *
+ * Amounts are in cents and never converted between currencies, so every
+ * total is split by currency. The weighted amount of a deal is its amount
+ * times the probability of its stage.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForecastStage {
+	id: string;
+	type: PipelineStageType;
+	probability: number;
+	rottingDays: number | null;
+}
+
+export interface ForecastDeal {
+	stageId: string;
+	amount: number;
+	currency: string;
+	stageChangedAt: Date;
+}
+
+export interface CurrencyTotal {
+	currency: string;
+	amount: number;
+	weightedAmount: number;
+}
+
+export interface StageForecast {
+	stageId: string;
+	dealCount: number;
+	rottingCount: number;
+	totals: CurrencyTotal[];
+}
+
+/**
+ * Whether an open deal stayed in its stage longer than the stage allows
+ */
+export function isDealRotting(
+	deal: Pick<ForecastDeal, "stageChangedAt">,
+	stage: Pick<ForecastStage, "type" | "rottingDays">,
+	now: Date = new Date(),
+): boolean {
+	if (stage.type !== PipelineStageType.open || stage.rottingDays === null) {
+		return false;
+	}
+	return (
+		now.getTime() - deal.stageChangedAt.getTime() > stage.rottingDays * DAY_MS
+	);
+}
+
+export function getWeightedAmount(amount: number, probability: number): number {
+	return Math.round((amount * probability) / 100);
+}
+
+function addToTotals(
+	totals: Map<string, CurrencyTotal>,
+	currency: string,
+	amount: number,
+	weightedAmount: number,
+): void {
+	const total = totals.get(currency) ?? {
+		currency,
+		amount: 0,
+		weightedAmount: 0,
+	};
+	total.amount += amount;
+	total.weightedAmount += weightedAmount;
+	totals.set(currency, total);
+}
+
+function sortTotals(totals: Map<string, CurrencyTotal>): CurrencyTotal[] {
+	return [...totals.values()].sort((a, b) =>
+		a.currency.localeCompare(b.currency),
+	);
+}
+
+/**
+ * Deal count, rotting deals and totals of every stage, in stage order
+ */
+export function computeStageForecasts(
+	stages: ForecastStage[],
+	deals: ForecastDeal[],
+	now: Date = new Date(),
+): StageForecast[] {
+	return stages.map((stage) => {
+		const stageDeals = deals.filter((deal) => deal.stageId === stage.id);
+		const totals = new Map<string, CurrencyTotal>();
+
+		for (const deal of stageDeals) {
+			addToTotals(
+				totals,
+				deal.currency,
+				deal.amount,
+				getWeightedAmount(deal.amount, stage.probability),
+			);
+		}
+
+		return {
+			stageId: stage.id,
+			dealCount: stageDeals.length,
+			rottingCount: stageDeals.filter((deal) => isDealRotting(deal, stage, now))
+				.length,
+			totals: sortTotals(totals),
+		};
+	});
+}
+
+/**
+ * Weighted forecast of a pipeline: the totals of its open stages.
+ * Won and lost deals are already closed and are left out.
+ */
+export function computePipelineForecast(
+	stages: ForecastStage[],
+	stageForecasts: StageForecast[],
+): CurrencyTotal[] {
+	const openStageIds = new Set(
+		stages
+			.filter((stage) => stage.type === PipelineStageType.open)
+			.map((stage) => stage.id),
+	);
+	const totals = new Map<string, CurrencyTotal>();
+
+	for (const forecast of stageForecasts) {
+		if (!openStageIds.has(forecast.stageId)) continue;
+		for (const total of forecast.totals) {
+			addToTotals(totals, total.currency, total.amount, total.weightedAmount);
+		}
+	}
+
+	return sortTotals(totals);
+}
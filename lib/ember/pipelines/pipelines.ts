@@ -0,0 +1,572 @@
+import { and, asc, count, eq, ilike, inArray, ne, type SQL } from "drizzle-orm";
+import { pipelinesConfig } from "@/config/pipelines.config";
+import { db } from "@/lib/db";
+import { DealStatus, PipelineStageType } from "@/lib/db/schema/enums";
+import {
+	dealStageHistoryTable,
+	dealTable,
+	pipelineStageTable,
+	pipelineTable,
+} from "@/lib/db/schema/tables";
+import type {
+	CreatePipelineInput,
+	CreatePipelineStageInput,
+	PipelineStageInput,
+	UpdatePipelineInput,
+	UpdatePipelineStageInput,
+} from "@/schemas/pipeline.schema";
+import { PipelineError } from "./errors";
+import {
+	computePipelineForecast,
+	computeStageForecasts,
+	isDealRotting,
+} from "./forecast";
+
+/**
+ * Pipelines - Organization-configured sales pipelines and their stages
+ *
+ * Every organization has a default pipeline, created with the stages from
+ * pipelinesConfig the first time it is needed.
+ */
+
+type Pipeline = typeof pipelineTable.$inferSelect;
+type PipelineStage = typeof pipelineStageTable.$inferSelect;
+
+interface BoardDealOwner {
+	id: string;
+	name: string;
+	image: string | null;
+}
+
+interface BoardDealLead {
+	id: string;
+	firstName: string;
+	lastName: string;
+	company: string | null;
+}
+
+/**
+ * Deal status matching the type of a stage
+ */
+export function getDealStatusForStage(type: PipelineStageType): DealStatus {
+	switch (type) {
+		case PipelineStageType.won:
+			return DealStatus.won;
+		case PipelineStageType.lost:
+			return DealStatus.lost;
+		default:
+			return DealStatus.open;
+	}
+}
+
+/**
+ * Default pipeline of an organization, created on first use
+ */
+export async function ensureDefaultPipeline(
+	organizationId: string,
+): Promise<Pipeline> {
+	const existing = await db.query.pipelineTable.findFirst({
+		where: and(
+			eq(pipelineTable.organizationId, organizationId),
+			eq(pipelineTable.isDefault, true),
+		),
+	});
+
+	if (existing) {
+		return existing;
+	}
+
+	const created = await db.transaction(async (tx) => {
+		// The unique default index keeps concurrent requests from creating two
+		const [pipeline] = await tx
+			.insert(pipelineTable)
+			.values({
+				organizationId,
+				name: pipelinesConfig.defaultPipelineName,
+				isDefault: true,
+			})
+			.onConflictDoNothing()
+			.returning();
+
+		if (!pipeline) {
+			return null;
+		}
+
+		await tx.insert(pipelineStageTable).values(
+			pipelinesConfig.defaultStages.map((stage, position) => ({
+				...stage,
+				organizationId,
+				pipelineId: pipeline.id,
+				position,
+			})),
+		);
+
+		return pipeline;
+	});
+
+	if (created) {
+		return created;
+	}
+
+	const pipeline = await db.query.pipelineTable.findFirst({
+		where: and(
+			eq(pipelineTable.organizationId, organizationId),
+			eq(pipelineTable.isDefault, true),
+		),
+	});
+
+	if (!pipeline) {
+		throw new Error("Failed to create default pipeline");
+	}
+
+	return pipeline;
+}
+
+/**
+ * Pipeline of an organization, or its default pipeline when no id is given
+ */
+export async function getPipeline(
+	organizationId: string,
+	pipelineId?: string,
+): Promise<Pipeline> {
+	if (!pipelineId) {
+		return await ensureDefaultPipeline(organizationId);
+	}
+
+	const pipeline = await db.query.pipelineTable.findFirst({
+		where: and(
+			eq(pipelineTable.id, pipelineId),
+			eq(pipelineTable.organizationId, organizationId),
+		),
+	});
+
+	if (!pipeline) {
+		throw new PipelineError("NOT_FOUND", "Pipeline not found");
+	}
+
+	return pipeline;
+}
+
+/**
+ * Stage of an organization's pipeline
+ */
+export async function getPipelineStage(
+	organizationId: string,
+	stageId: string,
+): Promise<PipelineStage> {
+	const stage = await db.query.pipelineStageTable.findFirst({
+		where: and(
+			eq(pipelineStageTable.id, stageId),
+			eq(pipelineStageTable.organizationId, organizationId),
+		),
+	});
+
+	if (!stage) {
+		throw new PipelineError("NOT_FOUND", "Stage not found");
+	}
+
+	return stage;
+}
+
+/**
+ * Pipelines of an organization with their stages, default first
+ */
+export async function listPipelines(organizationId: string) {
+	await ensureDefaultPipeline(organizationId);
+
+	const pipelines = await db.query.pipelineTable.findMany({
+		where: eq(pipelineTable.organizationId, organizationId),
+		orderBy: (pipeline, { asc, desc }) => [
+			desc(pipeline.isDefault),
+			asc(pipeline.position),
+			asc(pipeline.createdAt),
+		],
+		with: {
+			stages: {
+				orderBy: (stage, { asc }) => [asc(stage.position)],
+			},
+		},
+	});
+
+	return pipelines;
+}
+
+/**
+ * Board of a pipeline: its stages with their deals, rotting flags and
+ * forecast, and the weighted forecast of the whole pipeline
+ */
+export async function getPipelineBoard(
+	organizationId: string,
+	options: { pipelineId?: string; ownerId?: string; query?: string } = {},
+) {
+	const pipeline = await getPipeline(organizationId, options.pipelineId);
+
+	const stages = await db.query.pipelineStageTable.findMany({
+		where: eq(pipelineStageTable.pipelineId, pipeline.id),
+		orderBy: asc(pipelineStageTable.position),
+	});
+
+	const conditions: SQL[] = [eq(dealTable.pipelineId, pipeline.id)];
+	if (options.ownerId) {
+		conditions.push(eq(dealTable.ownerId, options.ownerId));
+	}
+	if (options.query) {
+		conditions.push(ilike(dealTable.title, `%${options.query}%`));
+	}
+
+	const deals = await db.query.dealTable.findMany({
+		where: and(...conditions),
+		orderBy: (deal, { asc }) => [asc(deal.position), asc(deal.createdAt)],
+		with: {
+			owner: {
+				columns: { id: true, name: true, image: true },
+			},
+			lead: {
+				columns: { id: true, firstName: true, lastName: true, company: true },
+			},
+		},
+	});
+
+	const now = new Date();
+	const stageForecasts = computeStageForecasts(stages, deals, now);
+
+	return {
+		pipeline,
+		stages: stages.map((stage, index) => ({
+			...stage,
+			forecast: stageForecasts[index],
+			deals: deals
+				.filter((deal) => deal.stageId === stage.id)
+				.map((deal) => ({
+					...deal,
+					owner: deal.owner as BoardDealOwner | null,
+					lead: deal.lead as BoardDealLead | null,
+					isRotting: isDealRotting(deal, stage, now),
+				})),
+		})),
+		forecast: computePipelineForecast(stages, stageForecasts),
+	};
+}
+
+export type PipelineBoardData = Awaited<ReturnType<typeof getPipelineBoard>>;
+
+function toStageValues(stage: PipelineStageInput) {
+	return {
+		name: stage.name,
+		type: stage.type,
+		probability: stage.probability,
+		rottingDays: stage.rottingDays,
+	};
+}
+
+/**
+ * Create a pipeline, with the default stages when none are given
+ */
+export async function createPipeline(
+	organizationId: string,
+	input: CreatePipelineInput,
+): Promise<Pipeline> {
+	const [existing] = await db
+		.select({ count: count() })
+		.from(pipelineTable)
+		.where(eq(pipelineTable.organizationId, organizationId));
+
+	if ((existing?.count ?? 0) >= pipelinesConfig.maxPipelines) {
+		throw new PipelineError(
+			"BAD_REQUEST",
+			`An organization can have up to ${pipelinesConfig.maxPipelines} pipelines`,
+		);
+	}
+
+	const stages = input.stages ?? pipelinesConfig.defaultStages;
+
+	return await db.transaction(async (tx) => {
+		const [pipeline] = await tx
+			.insert(pipelineTable)
+			.values({
+				organizationId,
+				name: input.name,
+				position: existing?.count ?? 0,
+			})
+			.returning();
+
+		if (!pipeline) {
+			throw new Error("Failed to create pipeline");
+		}
+
+		await tx.insert(pipelineStageTable).values(
+			stages.map((stage, position) => ({
+				...toStageValues(stage),
+				organizationId,
+				pipelineId: pipeline.id,
+				position,
+			})),
+		);
+
+		return pipeline;
+	});
+}
+
+/**
+ * Rename a pipeline or make it the organization's default
+ */
+export async function updatePipeline(
+	organizationId: string,
+	input: UpdatePipelineInput,
+): Promise<Pipeline> {
+	const pipeline = await getPipeline(organizationId, input.id);
+
+	return await db.transaction(async (tx) => {
+		if (input.isDefault && !pipeline.isDefault) {
+			await tx
+				.update(pipelineTable)
+				.set({ isDefault: false })
+				.where(
+					and(
+						eq(pipelineTable.organizationId, organizationId),
+						eq(pipelineTable.isDefault, true),
+					),
+				);
+		}
+
+		const [updated] = await tx
+			.update(pipelineTable)
+			.set({
+				...(input.name ? { name: input.name } : {}),
+				...(input.isDefault ? { isDefault: true } : {}),
+			})
+			.where(eq(pipelineTable.id, pipeline.id))
+			.returning();
+
+		return updated ?? pipeline;
+	});
+}
+
+/**
+ * Delete a pipeline without deals. The default pipeline is kept.
+ */
+export async function deletePipeline(
+	organizationId: string,
+	pipelineId: string,
+): Promise<void> {
+	const pipeline = await getPipeline(organizationId, pipelineId);
+
+	if (pipeline.isDefault) {
+		throw new PipelineError(
+			"BAD_REQUEST",
+			"Make another pipeline the default before deleting this one",
+		);
+	}
+
+	const [deals] = await db
+		.select({ count: count() })
+		.from(dealTable)
+		.where(eq(dealTable.pipelineId, pipeline.id));
+
+	if ((deals?.count ?? 0) > 0) {
+		throw new PipelineError(
+			"CONFLICT",
+			"Move or delete the deals of this pipeline before deleting it",
+		);
+	}
+
+	await db.delete(pipelineTable).where(eq(pipelineTable.id, pipeline.id));
+}
+
+/**
+ * Add a stage at the end of a pipeline
+ */
+export async function createPipelineStage(
+	organizationId: string,
+	input: CreatePipelineStageInput,
+): Promise<PipelineStage> {
+	const pipeline = await getPipeline(organizationId, input.pipelineId);
+
+	const [existing] = await db
+		.select({ count: count() })
+		.from(pipelineStageTable)
+		.where(eq(pipelineStageTable.pipelineId, pipeline.id));
+
+	if ((existing?.count ?? 0) >= pipelinesConfig.maxStagesPerPipeline) {
+		throw new PipelineError(
+			"BAD_REQUEST",
+			`A pipeline can have up to ${pipelinesConfig.maxStagesPerPipeline} stages`,
+		);
+	}
+
+	const [stage] = await db
+		.insert(pipelineStageTable)
+		.values({
+			...toStageValues(input),
+			organizationId,
+			pipelineId: pipeline.id,
+			position: existing?.count ?? 0,
+		})
+		.returning();
+
+	if (!stage) {
+		throw new Error("Failed to create stage");
+	}
+
+	return stage;
+}
+
+/**
+ * Update stage settings. Changing the type of a stage updates the status
+ * of its deals.
+ */
+export async function updatePipelineStage(
+	organizationId: string,
+	input: UpdatePipelineStageInput,
+): Promise<PipelineStage> {
+	const stage = await getPipelineStage(organizationId, input.id);
+	const { id, ...data } = input;
+
+	return await db.transaction(async (tx) => {
+		const [updated] = await tx
+			.update(pipelineStageTable)
+			.set(data)
+			.where(eq(pipelineStageTable.id, id))
+			.returning();
+
+		if (!updated) {
+			throw new PipelineError("NOT_FOUND", "Stage not found");
+		}
+
+		if (updated.type !== stage.type) {
+			const status = getDealStatusForStage(updated.type);
+			await tx
+				.update(dealTable)
+				.set({
+					status,
+					closedAt: status === DealStatus.open ? null : new Date(),
+				})
+				.where(eq(dealTable.stageId, id));
+		}
+
+		return updated;
+	});
+}
+
+/**
+ * Reorder the stages of a pipeline. All of its stages must be given.
+ */
+export async function reorderPipelineStages(
+	organizationId: string,
+	pipelineId: string,
+	stageIds: string[],
+): Promise<void> {
+	const pipeline = await getPipeline(organizationId, pipelineId);
+
+	const stages = await db
+		.select({ id: pipelineStageTable.id })
+		.from(pipelineStageTable)
+		.where(eq(pipelineStageTable.pipelineId, pipeline.id));
+
+	const known = new Set(stages.map((stage) => stage.id));
+	if (
+		stageIds.length !== known.size ||
+		new Set(stageIds).size !== stageIds.length ||
+		!stageIds.every((stageId) => known.has(stageId))
+	) {
+		throw new PipelineError(
+			"BAD_REQUEST",
+			"Give every stage of the pipeline exactly once",
+		);
+	}
+
+	await db.transaction(async (tx) => {
+		for (const [position, stageId] of stageIds.entries()) {
+			await tx
+				.update(pipelineStageTable)
+				.set({ position })
+				.where(eq(pipelineStageTable.id, stageId));
+		}
+	});
+}
+
+/**
+ * Delete a stage. Its deals move to another stage of the same pipeline,
+ * recorded in their stage history.
+ */
+export async function deletePipelineStage(
+	organizationId: string,
+	stageId: string,
+	moveDealsToStageId?: string,
+	actorId?: string | null,
+): Promise<void> {
+	const stage = await getPipelineStage(organizationId, stageId);
+
+	const [remaining] = await db
+		.select({ count: count() })
+		.from(pipelineStageTable)
+		.where(
+			and(
+				eq(pipelineStageTable.pipelineId, stage.pipelineId),
+				ne(pipelineStageTable.id, stage.id),
+			),
+		);
+
+	if ((remaining?.count ?? 0) === 0) {
+		throw new PipelineError(
+			"BAD_REQUEST",
+			"A pipeline needs at least one stage",
+		);
+	}
+
+	const deals = await db
+		.select({ id: dealTable.id })
+		.from(dealTable)
+		.where(eq(dealTable.stageId, stage.id));
+
+	let target: PipelineStage | null = null;
+	if (deals.length > 0) {
+		if (!moveDealsToStageId) {
+			throw new PipelineError(
+				"CONFLICT",
+				"Choose a stage for the deals of this stage",
+			);
+		}
+		target = await getPipelineStage(organizationId, moveDealsToStageId);
+		if (target.pipelineId !== stage.pipelineId || target.id === stage.id) {
+			throw new PipelineError(
+				"BAD_REQUEST",
+				"Deals can only move to another stage of the same pipeline",
+			);
+		}
+	}
+
+	await db.transaction(async (tx) => {
+		if (target && deals.length > 0) {
+			const dealIds = deals.map((deal) => deal.id);
+			const status = getDealStatusForStage(target.type);
+			const now = new Date();
+
+			await tx
+				.update(dealTable)
+				.set({
+					stageId: target.id,
+					status,
+					stageChangedAt: now,
+					closedAt: status === DealStatus.open ? null : now,
+				})
+				.where(inArray(dealTable.id, dealIds));
+
+			await tx.insert(dealStageHistoryTable).values(
+				dealIds.map((dealId) => ({
+					organizationId,
+					dealId,
+					fromStageId: stage.id,
+					toStageId: target.id,
+					fromStageName: stage.name,
+					toStageName: target.name,
+					changedById: actorId ?? null,
+				})),
+			);
+		}
+
+		await tx
+			.delete(pipelineStageTable)
+			.where(eq(pipelineStageTable.id, stage.id));
+	});
+}
@@ -0,0 +1,13 @@
+/**
+ * Error raised by quote operations.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class QuoteError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: QuoteError["code"], message: string) {
+		super(message);
+		this.name = "QuoteError";
+		this.code = code;
+	}
+}
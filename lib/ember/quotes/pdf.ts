@@ -0,0 +1,299 @@
+import {
+	PDFDocument,
+	type PDFFont,
+	type PDFPage,
+	rgb,
+	StandardFonts,
+} from "pdf-lib";
+
+/**
+ * Quote PDF - Server-side rendering of a quote document
+ */
+
+export interface QuotePdfData {
+	number: string;
+	organizationName: string;
+	contact: {
+		name: string;
+		company: string | null;
+		email: string | null;
+	};
+	issuedAt: Date;
+	validUntil: Date | null;
+	currency: string;
+	items: Array<{
+		description: string;
+		sku: string | null;
+		quantity: number;
+		unitPrice: number;
+		compareAtPrice: number | null;
+		total: number;
+	}>;
+	subtotal: number;
+	discountTotal: number;
+	total: number;
+	notes: string | null;
+	/** Public accept / decline page */
+	publicUrl: string;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.12);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.5);
+const LINE_COLOR = rgb(0.85, 0.85, 0.88);
+
+// Column right edges for the items table
+const QUANTITY_RIGHT = MARGIN + 330;
+const UNIT_PRICE_RIGHT = MARGIN + 420;
+const TOTAL_RIGHT = PAGE_WIDTH - MARGIN;
+const DESCRIPTION_WIDTH = 260;
+
+/**
+ * Render a quote as a PDF document
+ */
+export async function renderQuotePdf(data: QuotePdfData): Promise<Uint8Array> {
+	const pdf = await PDFDocument.create();
+	pdf.setTitle(`Quote ${data.number}`);
+	pdf.setAuthor(data.organizationName);
+
+	const regular = await pdf.embedFont(StandardFonts.Helvetica);
+	const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+	const money = (amount: number) => formatAmount(amount, data.currency);
+
+	let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+	let y = PAGE_HEIGHT - MARGIN;
+
+	const text = (
+		value: string,
+		x: number,
+		options: { font?: PDFFont; size?: number; color?: typeof TEXT_COLOR } = {},
+	) => {
+		page.drawText(toPdfText(value), {
+			x,
+			y,
+			font: options.font ?? regular,
+			size: options.size ?? 10,
+			color: options.color ?? TEXT_COLOR,
+		});
+	};
+
+	const textRight = (
+		value: string,
+		right: number,
+		options: { font?: PDFFont; size?: number; color?: typeof TEXT_COLOR } = {},
+	) => {
+		const font = options.font ?? regular;
+		const size = options.size ?? 10;
+		text(
+			value,
+			right - font.widthOfTextAtSize(toPdfText(value), size),
+			options,
+		);
+	};
+
+	const ensureSpace = (height: number) => {
+		if (y - height < MARGIN + 40) {
+			page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+			y = PAGE_HEIGHT - MARGIN;
+		}
+	};
+
+	// Header
+	text(data.organizationName, MARGIN, { font: bold, size: 18 });
+	textRight("QUOTE", TOTAL_RIGHT, { font: bold, size: 18 });
+	y -= 20;
+	textRight(data.number, TOTAL_RIGHT, { color: MUTED_COLOR });
+	y -= 40;
+
+	// Recipient and dates
+	text("Prepared for", MARGIN, { font: bold, size: 9, color: MUTED_COLOR });
+	textRight(`Date: ${formatDate(data.issuedAt)}`, TOTAL_RIGHT, {
+		color: MUTED_COLOR,
+	});
+	y -= 15;
+	text(data.contact.name, MARGIN, { font: bold });
+	if (data.validUntil) {
+		textRight(`Valid until: ${formatDate(data.validUntil)}`, TOTAL_RIGHT, {
+			color: MUTED_COLOR,
+		});
+	}
+	for (const line of [data.contact.company, data.contact.email]) {
+		if (line) {
+			y -= 14;
+			text(line, MARGIN, { color: MUTED_COLOR });
+		}
+	}
+	y -= 36;
+
+	// Items table
+	const drawTableHeader = () => {
+		text("Description", MARGIN, { font: bold, size: 9, color: MUTED_COLOR });
+		textRight("Qty", QUANTITY_RIGHT, {
+			font: bold,
+			size: 9,
+			color: MUTED_COLOR,
+		});
+		textRight("Unit price", UNIT_PRICE_RIGHT, {
+			font: bold,
+			size: 9,
+			color: MUTED_COLOR,
+		});
+		textRight("Total", TOTAL_RIGHT, {
+			font: bold,
+			size: 9,
+			color: MUTED_COLOR,
+		});
+		y -= 8;
+		drawRule(page, y);
+		y -= 16;
+	};
+
+	drawTableHeader();
+
+	for (const item of data.items) {
+		const descriptionLines = wrapText(
+			item.description,
+			regular,
+			10,
+			DESCRIPTION_WIDTH,
+		);
+		const rowHeight =
+			descriptionLines.length * 13 + (item.sku || item.compareAtPrice ? 12 : 0);
+
+		if (y - rowHeight < MARGIN + 40) {
+			ensureSpace(rowHeight);
+			drawTableHeader();
+		}
+
+		const rowTop = y;
+		textRight(String(item.quantity), QUANTITY_RIGHT);
+		textRight(money(item.unitPrice), UNIT_PRICE_RIGHT);
+		textRight(money(item.total), TOTAL_RIGHT);
+
+		for (const line of descriptionLines) {
+			text(line, MARGIN);
+			y -= 13;
+		}
+		if (item.sku) {
+			text(`SKU ${item.sku}`, MARGIN, { size: 8, color: MUTED_COLOR });
+		}
+		if (item.compareAtPrice) {
+			const wasY = y;
+			y = rowTop - 13;
+			textRight(`was ${money(item.compareAtPrice)}`, UNIT_PRICE_RIGHT, {
+				size: 8,
+				color: MUTED_COLOR,
+			});
+			y = wasY;
+		}
+		if (item.sku || item.compareAtPrice) {
+			y -= 12;
+		}
+
+		y -= 6;
+		drawRule(page, y + 4);
+		y -= 12;
+	}
+
+	// Totals
+	ensureSpace(70);
+	y -= 6;
+	const totalsLabelRight = UNIT_PRICE_RIGHT;
+	if (data.discountTotal > 0) {
+		textRight("Subtotal", totalsLabelRight, { color: MUTED_COLOR });
+		textRight(money(data.subtotal), TOTAL_RIGHT);
+		y -= 16;
+		textRight("Discount", totalsLabelRight, { color: MUTED_COLOR });
+		textRight(`-${money(data.discountTotal)}`, TOTAL_RIGHT);
+		y -= 18;
+	}
+	textRight("Total", totalsLabelRight, { font: bold, size: 12 });
+	textRight(money(data.total), TOTAL_RIGHT, { font: bold, size: 12 });
+	y -= 36;
+
+	// Notes
+	if (data.notes) {
+		const noteLines = wrapText(data.notes, regular, 10, CONTENT_WIDTH);
+		ensureSpace(20 + noteLines.length * 13);
+		text("Notes", MARGIN, { font: bold, size: 9, color: MUTED_COLOR });
+		y -= 15;
+		for (const line of noteLines) {
+			ensureSpace(13);
+			text(line, MARGIN);
+			y -= 13;
+		}
+		y -= 16;
+	}
+
+	// Acceptance link
+	ensureSpace(30);
+	text("Accept or decline this quote online:", MARGIN, {
+		size: 9,
+		color: MUTED_COLOR,
+	});
+	y -= 13;
+	text(data.publicUrl, MARGIN, { size: 9 });
+
+	return pdf.save();
+}
+
+function drawRule(page: PDFPage, y: number): void {
+	page.drawLine({
+		start: { x: MARGIN, y },
+		end: { x: PAGE_WIDTH - MARGIN, y },
+		thickness: 0.5,
+		color: LINE_COLOR,
+	});
+}
+
+function formatAmount(amount: number, currency: string): string {
+	return new Intl.NumberFormat("en-US", {
+		style: "currency",
+		currency: currency.toUpperCase(),
+	}).format(amount / 100);
+}
+
+function formatDate(date: Date): string {
+	return new Intl.DateTimeFormat("en-US", { dateStyle: "medium" }).format(date);
+}
+
+/**
+ * Standard PDF fonts only cover WinAnsi (Latin-1 plus a few symbols)
+ */
+function toPdfText(value: string): string {
+	return value
+		.normalize("NFC")
+		.replace(/[\u2000-\u200b\u202f]/g, " ")
+		.replace(/[\r\n\t]+/g, " ")
+		.replace(/[^\x20-\x7e\xa0-\xff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]/g, "?");
+}
+
+function wrapText(
+	value: string,
+	font: PDFFont,
+	size: number,
+	maxWidth: number,
+): string[] {
+	const lines: string[] = [];
+
+	for (const paragraph of value.split(/\r?\n/)) {
+		let line = "";
+		for (const word of toPdfText(paragraph).split(" ")) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+				lines.push(line);
+				line = word;
+			} else {
+				line = candidate;
+			}
+		}
+		lines.push(line);
+	}
+
+	return lines;
+}
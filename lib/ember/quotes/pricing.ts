@@ -0,0 +1,157 @@
+import { and, eq, inArray, or } from "drizzle-orm";
+import { quotesConfig } from "@/config/quotes.config";
+import { db } from "@/lib/db";
+import { productTable } from "@/lib/db/schema/tables";
+import { QuoteError } from "./errors";
+
+/**
+ * Quote Pricing - Prices quote lines from the product catalog
+ *
+ * Catalog lines always use the inventory price; a `compareAtPrice` above it is
+ * shown as the original price and counted as a discount. Lines without a
+ * product (custom services, fees) must carry their own price.
+ */
+
+export interface QuoteItemInput {
+	productId?: string;
+	sku?: string;
+	description?: string;
+	quantity: number;
+	/** In cents, only used for lines without a product */
+	unitPrice?: number;
+}
+
+export interface PricedQuoteItem {
+	productId: string | null;
+	sku: string | null;
+	description: string;
+	quantity: number;
+	unitPrice: number;
+	compareAtPrice: number | null;
+	total: number;
+	position: number;
+}
+
+export interface QuoteTotals {
+	/** Before discounts */
+	subtotal: number;
+	discountTotal: number;
+	total: number;
+}
+
+/**
+ * Totals of a quote (all amounts in cents)
+ */
+export function calculateQuoteTotals(
+	items: Array<
+		Pick<PricedQuoteItem, "quantity" | "unitPrice" | "compareAtPrice">
+	>,
+): QuoteTotals {
+	let subtotal = 0;
+	let total = 0;
+
+	for (const item of items) {
+		const originalPrice = Math.max(
+			item.compareAtPrice ?? item.unitPrice,
+			item.unitPrice,
+		);
+		subtotal += originalPrice * item.quantity;
+		total += item.unitPrice * item.quantity;
+	}
+
+	return { subtotal, discountTotal: subtotal - total, total };
+}
+
+/**
+ * Resolve the products of each line and price it.
+ * Throws a QuoteError for unknown products or mixed currencies.
+ */
+export async function priceQuoteItems(
+	organizationId: string,
+	items: QuoteItemInput[],
+): Promise<{ items: PricedQuoteItem[]; currency: string }> {
+	const productIds = items.flatMap((item) =>
+		item.productId ? [item.productId] : [],
+	);
+	const skus = items.flatMap((item) =>
+		!item.productId && item.sku ? [item.sku] : [],
+	);
+
+	const productConditions = [
+		...(productIds.length > 0 ? [inArray(productTable.id, productIds)] : []),
+		...(skus.length > 0 ? [inArray(productTable.sku, skus)] : []),
+	];
+
+	const products =
+		productConditions.length > 0
+			? await db.query.productTable.findMany({
+					where: and(
+						eq(productTable.organizationId, organizationId),
+						eq(productTable.active, true),
+						or(...productConditions),
+					),
+				})
+			: [];
+
+	const currencies = new Set<string>();
+
+	const pricedItems = items.map((item, position): PricedQuoteItem => {
+		const reference = item.productId ?? item.sku;
+
+		if (reference) {
+			const product = products.find((p) =>
+				item.productId ? p.id === item.productId : p.sku === item.sku,
+			);
+
+			if (!product) {
+				throw new QuoteError("NOT_FOUND", `Product not found: ${reference}`);
+			}
+
+			currencies.add(product.currency.toLowerCase());
+
+			return {
+				productId: product.id,
+				sku: product.sku,
+				description: item.description || product.name,
+				quantity: item.quantity,
+				unitPrice: product.price,
+				compareAtPrice:
+					product.compareAtPrice && product.compareAtPrice > product.price
+						? product.compareAtPrice
+						: null,
+				total: product.price * item.quantity,
+				position,
+			};
+		}
+
+		if (!item.description || item.unitPrice === undefined) {
+			throw new QuoteError(
+				"BAD_REQUEST",
+				"Items without a product need a description and a unit price",
+			);
+		}
+
+		return {
+			productId: null,
+			sku: null,
+			description: item.description,
+			quantity: item.quantity,
+			unitPrice: item.unitPrice,
+			compareAtPrice: null,
+			total: item.unitPrice * item.quantity,
+			position,
+		};
+	});
+
+	if (currencies.size > 1) {
+		throw new QuoteError(
+			"BAD_REQUEST",
+			`Products are priced in different currencies: ${[...currencies].join(", ")}`,
+		);
+	}
+
+	return {
+		items: pricedItems,
+		currency: [...currencies][0] ?? quotesConfig.defaultCurrency,
+	};
+}
@@ -0,0 +1,621 @@
+import { and, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { customAlphabet, nanoid } from "nanoid";
+import { quotesConfig } from "@/config/quotes.config";
+import { formatCurrency } from "@/lib/billing/utils";
+import { db } from "@/lib/db";
+import {
+	ContactAgreementStatus,
+	ContactAgreementType,
+	HeatScoreSignalType,
+	LeadStatus,
+	MessageContentType,
+	MessageDirection,
+	MessageRole,
+	QuoteStatus,
+	WebhookEventType,
+} from "@/lib/db/schema/enums";
+import {
+	contactAgreementTable,
+	contactTable,
+	conversationMessageTable,
+	conversationTable,
+	leadTable,
+	organizationTable,
+	quoteItemTable,
+	quoteTable,
+} from "@/lib/db/schema/tables";
+import { channelManager } from "@/lib/ember/canales/manager";
+import { updateLeads } from "@/lib/ember/memoria/leads";
+import { rescoreContacts } from "@/lib/ember/memoria/scoring";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import { publishRealtimeEvent, toRealtimeMessage } from "@/lib/realtime/events";
+import { putObject } from "@/lib/storage";
+import { getBaseUrl } from "@/lib/utils";
+import { emitWebhookEvent } from "@/lib/webhooks/events";
+import type { WebhookQuote } from "@/lib/webhooks/types";
+import { QuoteError } from "./errors";
+import { renderQuotePdf } from "./pdf";
+import {
+	calculateQuoteTotals,
+	priceQuoteItems,
+	type QuoteItemInput,
+} from "./pricing";
+
+/**
+ * Quotes - Creation, sending and public acceptance of price quotes
+ *
+ * Sending a quote renders its PDF, records a price agreement on the contact
+ * and moves the matching lead to "proposal". The contact's answer on the
+ * public page completes or cancels the agreement and wins or loses the lead.
+ */
+
+export type Quote = typeof quoteTable.$inferSelect;
+export type QuoteItem = typeof quoteItemTable.$inferSelect;
+
+const generateQuoteNumber = customAlphabet(
+	"0123456789ABCDEFGHJKLMNPQRSTUVWXYZ",
+	8,
+);
+
+/** Numbers tried when a generated one is already used by the organization */
+const QUOTE_NUMBER_ATTEMPTS = 5;
+
+function isQuoteNumberTaken(error: unknown): boolean {
+	const { code, constraint } = (error ?? {}) as {
+		code?: string;
+		constraint?: string;
+	};
+	return code === "23505" && constraint === "quote_org_number_idx";
+}
+
+/** Lead statuses a quote event moves a lead to, and the statuses it moves from */
+const leadTransitions: Partial<
+	Record<QuoteStatus, { to: LeadStatus; from: LeadStatus[] }>
+> = {
+	[QuoteStatus.sent]: {
+		to: LeadStatus.proposal,
+		from: [LeadStatus.new, LeadStatus.contacted, LeadStatus.qualified],
+	},
+	[QuoteStatus.accepted]: {
+		to: LeadStatus.won,
+		from: [
+			LeadStatus.new,
+			LeadStatus.contacted,
+			LeadStatus.qualified,
+			LeadStatus.proposal,
+			LeadStatus.negotiation,
+		],
+	},
+	[QuoteStatus.declined]: {
+		to: LeadStatus.lost,
+		from: [LeadStatus.proposal, LeadStatus.negotiation],
+	},
+};
+
+/**
+ * Bucket holding generated quote PDFs
+ */
+export function getDocumentsBucket(): string {
+	if (!env.S3_DOCUMENTS_BUCKET_NAME) {
+		throw new Error("S3_DOCUMENTS_BUCKET_NAME is not configured");
+	}
+	return env.S3_DOCUMENTS_BUCKET_NAME;
+}
+
+/**
+ * Public accept / decline page of a quote
+ */
+export function getQuotePublicUrl(publicToken: string): string {
+	return `${getBaseUrl()}/quote/${publicToken}`;
+}
+
+/**
+ * Create a draft quote priced from the product catalog
+ */
+export async function createQuote(input: {
+	organizationId: string;
+	contactId: string;
+	conversationId?: string | null;
+	items: QuoteItemInput[];
+	notes?: string | null;
+	validUntil?: Date | null;
+	createdById?: string | null;
+}): Promise<Quote & { items: QuoteItem[] }> {
+	const [contact] = await db
+		.select({ id: sql<string>`${contactTable.id}` })
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.id, input.contactId),
+				eq(contactTable.organizationId, input.organizationId),
+			),
+		);
+
+	if (!contact) {
+		throw new QuoteError("NOT_FOUND", "Contact not found");
+	}
+
+	if (input.items.length === 0) {
+		throw new QuoteError("BAD_REQUEST", "A quote needs at least one item");
+	}
+
+	const { items, currency } = await priceQuoteItems(
+		input.organizationId,
+		input.items,
+	);
+	const totals = calculateQuoteTotals(items);
+
+	const insertQuote = () =>
+		db.transaction(async (tx) => {
+			const [quote] = await tx
+				.insert(quoteTable)
+				.values({
+					organizationId: input.organizationId,
+					contactId: input.contactId,
+					conversationId: input.conversationId ?? null,
+					number: `Q-${generateQuoteNumber()}`,
+					currency,
+					...totals,
+					notes: input.notes ?? null,
+					validUntil: input.validUntil ?? null,
+					publicToken: nanoid(32),
+					createdById: input.createdById ?? null,
+				})
+				.returning();
+
+			if (!quote) {
+				throw new Error("Failed to create quote");
+			}
+
+			const savedItems = await tx
+				.insert(quoteItemTable)
+				.values(items.map((item) => ({ ...item, quoteId: quote.id })))
+				.returning();
+
+			return { ...quote, items: savedItems };
+		});
+
+	// The random number can collide with an earlier quote of the organization
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await insertQuote();
+		} catch (error) {
+			if (attempt >= QUOTE_NUMBER_ATTEMPTS || !isQuoteNumberTaken(error)) {
+				throw error;
+			}
+		}
+	}
+}
+
+/**
+ * Render and store the PDF, record the agreement and share the quote
+ * in its conversation (when it has one)
+ */
+export async function sendQuote(
+	quoteId: string,
+	organizationId: string,
+): Promise<Quote> {
+	const quote = await db.query.quoteTable.findFirst({
+		where: and(
+			eq(quoteTable.id, quoteId),
+			eq(quoteTable.organizationId, organizationId),
+		),
+		with: {
+			items: {
+				orderBy: (item, { asc }) => [asc(item.position)],
+			},
+		},
+	});
+
+	if (!quote) {
+		throw new QuoteError("NOT_FOUND", "Quote not found");
+	}
+
+	if (quote.status !== QuoteStatus.draft) {
+		throw new QuoteError("CONFLICT", `Quote ${quote.number} was already sent`);
+	}
+
+	const [organization, contact] = await Promise.all([
+		db.query.organizationTable.findFirst({
+			where: eq(organizationTable.id, organizationId),
+			columns: { name: true },
+		}),
+		getQuoteContact(quote.contactId),
+	]);
+
+	const items = quote.items as QuoteItem[];
+	const validUntil =
+		quote.validUntil ??
+		new Date(Date.now() + quotesConfig.validityDays * 24 * 60 * 60 * 1000);
+	const publicUrl = getQuotePublicUrl(quote.publicToken);
+
+	const pdf = await renderQuotePdf({
+		number: quote.number,
+		organizationName: organization?.name ?? "",
+		contact: {
+			name: contact ? `${contact.firstName} ${contact.lastName}`.trim() : "",
+			company: contact?.company ?? null,
+			email: contact?.email ?? null,
+		},
+		issuedAt: new Date(),
+		validUntil,
+		currency: quote.currency,
+		items,
+		subtotal: quote.subtotal,
+		discountTotal: quote.discountTotal,
+		total: quote.total,
+		notes: quote.notes,
+		publicUrl,
+	});
+
+	const pdfPath = `${organizationId}/quotes/${quote.number}.pdf`;
+	await putObject(pdfPath, getDocumentsBucket(), pdf, "application/pdf");
+
+	const sentQuote = await db.transaction(async (tx) => {
+		const [agreement] = await tx
+			.insert(contactAgreementTable)
+			.values({
+				organizationId,
+				contactId: quote.contactId,
+				conversationId: quote.conversationId,
+				type: ContactAgreementType.priceAgreement,
+				description: `Quote ${quote.number}: ${formatCurrency(quote.total, quote.currency)}`,
+				details: JSON.stringify({
+					quoteId: quote.id,
+					quoteNumber: quote.number,
+					total: quote.total,
+					currency: quote.currency,
+					validUntil: validUntil.toISOString(),
+					items: items.map((item) => ({
+						description: item.description,
+						quantity: item.quantity,
+						unitPrice: item.unitPrice,
+					})),
+				}),
+			})
+			.returning({ id: contactAgreementTable.id });
+
+		const [updated] = await tx
+			.update(quoteTable)
+			.set({
+				status: QuoteStatus.sent,
+				sentAt: new Date(),
+				validUntil,
+				pdfPath,
+				agreementId: agreement?.id ?? null,
+			})
+			.where(eq(quoteTable.id, quote.id))
+			.returning();
+
+		if (!updated) {
+			throw new Error("Failed to update quote");
+		}
+
+		return updated;
+	});
+
+	await updateLeadStatus(organizationId, contact, QuoteStatus.sent);
+
+	if (quote.conversationId) {
+		await shareQuoteInConversation(sentQuote, quote.conversationId);
+	}
+
+	return sentQuote;
+}
+
+/**
+ * Quote shown on the public page, expiring it when past its validity
+ */
+export async function getPublicQuote(publicToken: string) {
+	const quote = await db.query.quoteTable.findFirst({
+		where: eq(quoteTable.publicToken, publicToken),
+		with: {
+			items: {
+				orderBy: (item, { asc }) => [asc(item.position)],
+			},
+			organization: {
+				columns: { name: true, logo: true },
+			},
+		},
+	});
+
+	// Drafts are not shared yet
+	if (!quote || quote.status === QuoteStatus.draft) {
+		return null;
+	}
+
+	const status = isExpired(quote) ? await expireQuote(quote) : quote.status;
+	const contact = await getQuoteContact(quote.contactId);
+
+	return {
+		id: quote.id,
+		number: quote.number,
+		status,
+		currency: quote.currency,
+		subtotal: quote.subtotal,
+		discountTotal: quote.discountTotal,
+		total: quote.total,
+		notes: quote.notes,
+		validUntil: quote.validUntil,
+		sentAt: quote.sentAt,
+		respondedAt: quote.respondedAt,
+		hasPdf: !!quote.pdfPath,
+		items: quote.items as QuoteItem[],
+		organization: quote.organization as { name: string; logo: string | null },
+		contactName: contact
+			? `${contact.firstName} ${contact.lastName}`.trim()
+			: null,
+	};
+}
+
+/**
+ * Accept or decline a sent quote from its public page
+ */
+export async function respondToQuote(
+	publicToken: string,
+	decision: typeof QuoteStatus.accepted | typeof QuoteStatus.declined,
+	reason?: string | null,
+): Promise<Quote> {
+	const quote = await db.query.quoteTable.findFirst({
+		where: eq(quoteTable.publicToken, publicToken),
+	});
+
+	if (!quote || quote.status === QuoteStatus.draft) {
+		throw new QuoteError("NOT_FOUND", "Quote not found");
+	}
+
+	if (quote.status === QuoteStatus.sent && isExpired(quote)) {
+		await expireQuote(quote);
+		throw new QuoteError("CONFLICT", "This quote has expired");
+	}
+
+	if (quote.status !== QuoteStatus.sent) {
+		throw new QuoteError("CONFLICT", `This quote was already ${quote.status}`);
+	}
+
+	const respondedAt = new Date();
+
+	const updated = await db.transaction(async (tx) => {
+		const [row] = await tx
+			.update(quoteTable)
+			.set({
+				status: decision,
+				respondedAt,
+				declineReason:
+					decision === QuoteStatus.declined ? (reason ?? null) : null,
+			})
+			// Guards against a concurrent answer
+			.where(
+				and(
+					eq(quoteTable.id, quote.id),
+					eq(quoteTable.status, QuoteStatus.sent),
+				),
+			)
+			.returning();
+
+		if (!row) {
+			throw new QuoteError("CONFLICT", "This quote was already answered");
+		}
+
+		if (decision === QuoteStatus.accepted) {
+			await emitWebhookEvent(
+				{
+					organizationId: quote.organizationId,
+					type: WebhookEventType.quoteAccepted,
+					data: { quote: toWebhookQuote(row) },
+				},
+				tx,
+			);
+			await rescoreContacts(
+				quote.organizationId,
+				[quote.contactId],
+				[HeatScoreSignalType.quoteAccepted],
+				tx,
+			);
+		}
+
+		if (quote.agreementId) {
+			await tx
+				.update(contactAgreementTable)
+				.set(
+					decision === QuoteStatus.accepted
+						? {
+								status: ContactAgreementStatus.completed,
+								completedAt: respondedAt,
+							}
+						: { status: ContactAgreementStatus.cancelled },
+				)
+				.where(eq(contactAgreementTable.id, quote.agreementId));
+		}
+
+		return row;
+	});
+
+	const contact = await getQuoteContact(quote.contactId);
+	await updateLeadStatus(quote.organizationId, contact, decision);
+
+	if (quote.conversationId) {
+		await addConversationEvent(
+			quote.organizationId,
+			quote.contactId,
+			quote.conversationId,
+			decision === QuoteStatus.accepted
+				? `Quote ${quote.number} was accepted`
+				: `Quote ${quote.number} was declined${reason ? `: ${reason}` : ""}`,
+		);
+	}
+
+	logger.info(
+		{ quoteId: quote.id, organizationId: quote.organizationId, decision },
+		"Quote answered",
+	);
+
+	return updated;
+}
+
+function toWebhookQuote(quote: Quote): WebhookQuote {
+	return {
+		id: quote.id,
+		number: quote.number,
+		status: quote.status,
+		contactId: quote.contactId,
+		conversationId: quote.conversationId,
+		currency: quote.currency,
+		subtotal: quote.subtotal,
+		discountTotal: quote.discountTotal,
+		total: quote.total,
+		validUntil: quote.validUntil?.toISOString() ?? null,
+		respondedAt: quote.respondedAt?.toISOString() ?? null,
+		createdAt: quote.createdAt.toISOString(),
+	};
+}
+
+function isExpired(quote: Quote): boolean {
+	return (
+		quote.status === QuoteStatus.sent &&
+		!!quote.validUntil &&
+		quote.validUntil.getTime() < Date.now()
+	);
+}
+
+async function expireQuote(quote: Quote): Promise<QuoteStatus> {
+	await db.transaction(async (tx) => {
+		await tx
+			.update(quoteTable)
+			.set({ status: QuoteStatus.expired })
+			.where(
+				and(
+					eq(quoteTable.id, quote.id),
+					eq(quoteTable.status, QuoteStatus.sent),
+				),
+			);
+
+		if (quote.agreementId) {
+			await tx
+				.update(contactAgreementTable)
+				.set({ status: ContactAgreementStatus.cancelled })
+				.where(
+					and(
+						eq(contactAgreementTable.id, quote.agreementId),
+						eq(contactAgreementTable.status, ContactAgreementStatus.active),
+					),
+				);
+		}
+	});
+
+	return QuoteStatus.expired;
+}
+
+async function getQuoteContact(contactId: string) {
+	const [contact] = await db
+		.select({
+			id: sql<string>`${contactTable.id}`,
+			firstName: sql<string>`${contactTable.firstName}`,
+			lastName: sql<string>`${contactTable.lastName}`,
+			email: sql<string | null>`${contactTable.email}`,
+			company: sql<string | null>`${contactTable.company}`,
+		})
+		.from(contactTable)
+		.where(eq(contactTable.id, contactId));
+
+	return contact ?? null;
+}
+
+/**
+ * Move the contact's leads along the pipeline: the leads linked to the
+ * contact, or unlinked leads with the contact's email
+ */
+async function updateLeadStatus(
+	organizationId: string,
+	contact: { id: string; email: string | null } | null | undefined,
+	quoteStatus: QuoteStatus,
+): Promise<void> {
+	const transition = leadTransitions[quoteStatus];
+	if (!contact || !transition) {
+		return;
+	}
+
+	const matchesContact = contact.email
+		? or(
+				eq(leadTable.contactId, contact.id),
+				and(
+					isNull(leadTable.contactId),
+					sql`lower(${leadTable.email}) = ${contact.email.toLowerCase()}`,
+				),
+			)
+		: eq(leadTable.contactId, contact.id);
+
+	await updateLeads(
+		organizationId,
+		and(matchesContact, inArray(leadTable.status, transition.from)),
+		{ status: transition.to },
+	);
+}
+
+/**
+ * Send the quote link and PDF to the contact through the conversation channel.
+ * The quote stays sent when delivery fails, the team can share the link again.
+ */
+async function shareQuoteInConversation(
+	quote: Quote,
+	conversationId: string,
+): Promise<void> {
+	const publicUrl = getQuotePublicUrl(quote.publicToken);
+
+	try {
+		await channelManager.sendMessage(conversationId, {
+			content: `Quote ${quote.number} for ${formatCurrency(quote.total, quote.currency)}. Review and accept it here: ${publicUrl}`,
+			contentType: "document",
+			mediaUrl: `${publicUrl}/pdf`,
+			generatedByAi: !quote.createdById,
+			sentById: quote.createdById ?? undefined,
+		});
+	} catch (error) {
+		logger.error(
+			{ error, quoteId: quote.id, conversationId },
+			"Failed to share quote in conversation",
+		);
+	}
+}
+
+/**
+ * Record a quote answer in the conversation for the team
+ */
+async function addConversationEvent(
+	organizationId: string,
+	contactId: string,
+	conversationId: string,
+	content: string,
+): Promise<void> {
+	const [conversation] = await db
+		.select({ channel: conversationTable.channel })
+		.from(conversationTable)
+		.where(eq(conversationTable.id, conversationId));
+
+	if (!conversation) {
+		return;
+	}
+
+	const [message] = await db
+		.insert(conversationMessageTable)
+		.values({
+			conversationId,
+			direction: MessageDirection.outbound,
+			role: MessageRole.system,
+			content,
+			contentType: MessageContentType.text,
+			channel: conversation.channel,
+		})
+		.returning();
+
+	if (message) {
+		await publishRealtimeEvent({
+			type: "message.created",
+			organizationId,
+			conversationId,
+			contactId,
+			message: toRealtimeMessage(message),
+		});
+	}
+}
@@ -25,6 +25,34 @@ export const env = createEnv({
 		POSTGRES_PORT: z.string().default("5432"),
 		DATABASE_URL: z.string().url(),
 
+		// AI providers (Ember agents)
+		OPENAI_API_KEY: z.string().optional(),
+		ANTHROPIC_API_KEY: z.string().optional(),
+		LOCAL_LLM_BASE_URL: z.string().url().optional(),
+		LOCAL_LLM_API_KEY: z.string().optional(),
+
+		// Messaging channels (Ember webhooks)
+		WHATSAPP_APP_SECRET: z.string().optional(),
+		WHATSAPP_VERIFY_TOKEN: z.string().optional(),
+		INSTAGRAM_APP_SECRET: z.string().optional(),
+		INSTAGRAM_VERIFY_TOKEN: z.string().optional(),
+		TWILIO_AUTH_TOKEN: z.string().optional(),
+		TWILIO_WEBHOOK_URL: z.string().url().optional(),
+		RESEND_WEBHOOK_SECRET: z.string().optional(),
+
+		// Integration credentials vault (base64, 32 bytes)
+		CREDENTIALS_MASTER_KEY: z.string().optional(),
+		CREDENTIALS_MASTER_KEY_ID: z.string().default("1"),
+		// Retired keys still able to decrypt, as "id:key" pairs separated by commas
+		CREDENTIALS_PREVIOUS_KEYS: z.string().optional(),
+
+		// Background jobs
+		CRON_SECRET: z.string().optional(),
+		JOB_WORKER_ENABLED: z
+			.string()
+			.default("false")
+			.transform((val) => val === "true"),
+
 		// Email
 		EMAIL_FROM: z.string().optional(),
 		RESEND_API_KEY: z.string().optional(),
@@ -39,6 +67,10 @@ export const env = createEnv({
 		S3_SECRET_ACCESS_KEY: z.string().optional(),
 		S3_ENDPOINT: z.string().optional(),
 		S3_REGION: z.string().optional(),
+		// Private bucket for knowledge base documents (never proxied publicly)
+		S3_KNOWLEDGE_BUCKET_NAME: z.string().optional(),
+		// Private bucket for generated documents (quote PDFs) and contact / lead imports
+		S3_DOCUMENTS_BUCKET_NAME: z.string().optional(),
 
 		// Stripe / Billing
 		STRIPE_SECRET_KEY: z.string().optional(),
@@ -113,6 +145,22 @@ export const env = createEnv({
 		POSTGRES_HOST: process.env.POSTGRES_HOST,
 		POSTGRES_PORT: process.env.POSTGRES_PORT,
 		DATABASE_URL: process.env.DATABASE_URL,
+		OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+		ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+		LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+		LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY,
+		WHATSAPP_APP_SECRET: process.env.WHATSAPP_APP_SECRET,
+		WHATSAPP_VERIFY_TOKEN: process.env.WHATSAPP_VERIFY_TOKEN,
+		INSTAGRAM_APP_SECRET: process.env.INSTAGRAM_APP_SECRET,
+		INSTAGRAM_VERIFY_TOKEN: process.env.INSTAGRAM_VERIFY_TOKEN,
+		TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
+		TWILIO_WEBHOOK_URL: process.env.TWILIO_WEBHOOK_URL,
+		RESEND_WEBHOOK_SECRET: process.env.RESEND_WEBHOOK_SECRET,
+		CREDENTIALS_MASTER_KEY: process.env.CREDENTIALS_MASTER_KEY,
+		CREDENTIALS_MASTER_KEY_ID: process.env.CREDENTIALS_MASTER_KEY_ID,
+		CREDENTIALS_PREVIOUS_KEYS: process.env.CREDENTIALS_PREVIOUS_KEYS,
+		CRON_SECRET: process.env.CRON_SECRET,
+		JOB_WORKER_ENABLED: process.env.JOB_WORKER_ENABLED,
 		EMAIL_FROM: process.env.EMAIL_FROM,
 		RESEND_API_KEY: process.env.RESEND_API_KEY,
 		SENTRY_ORG: process.env.SENTRY_ORG,
@@ -122,6 +170,8 @@ export const env = createEnv({
 		S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
 		S3_ENDPOINT: process.env.S3_ENDPOINT,
 		S3_REGION: process.env.S3_REGION,
+		S3_KNOWLEDGE_BUCKET_NAME: process.env.S3_KNOWLEDGE_BUCKET_NAME,
+		S3_DOCUMENTS_BUCKET_NAME: process.env.S3_DOCUMENTS_BUCKET_NAME,
 		STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
 		STRIPE_WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET,
 		TURNSTILE_SECRET_KEY: process.env.TURNSTILE_SECRET_KEY,
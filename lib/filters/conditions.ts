@@ -0,0 +1,340 @@
+import {
+	and,
+	type Column,
+	gt,
+	gte,
+	ilike,
+	inArray,
+	isNull,
+	lt,
+	not,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { savedViewsConfig } from "@/config/saved-views.config";
+import { listCustomFieldDefinitions } from "@/lib/custom-fields/definitions";
+import { customFieldFilterCondition } from "@/lib/custom-fields/filters";
+import { SavedViewEntity } from "@/lib/db/schema/enums";
+import { contactTable, leadTable } from "@/lib/db/schema/tables";
+import {
+	contactHasTagsCondition,
+	contactTagCondition,
+} from "@/lib/ember/memoria/tags";
+import type { FilterCondition, FilterGroup } from "@/schemas/filter.schema";
+import { FilterError } from "./errors";
+import {
+	CUSTOM_FIELD_PREFIX,
+	type FilterField,
+	filterOperatorsByType,
+	standardFilterFields,
+} from "./fields";
+
+/**
+ * Filter Conditions - Turn the nested AND / OR filters of the filter builder
+ * into SQL on contacts or leads
+ *
+ * Empty groups match everything. Negative operators (notEquals) match records
+ * without a value, like custom field filters do.
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface FilterTable {
+	columns: Record<string, Column>;
+	customFields: Column;
+}
+
+function getFilterTable(entity: SavedViewEntity): FilterTable {
+	if (entity === SavedViewEntity.contact) {
+		return {
+			columns: {
+				firstName: contactTable.firstName,
+				lastName: contactTable.lastName,
+				email: contactTable.email,
+				phone: contactTable.phone,
+				company: contactTable.company,
+				status: contactTable.status,
+				heatScore: contactTable.heatScore,
+				language: contactTable.language,
+				interactionCount: contactTable.interactionCount,
+				lastInteractionAt: contactTable.lastInteractionAt,
+				assignedToId: contactTable.assignedToId,
+				createdAt: contactTable.createdAt,
+			},
+			customFields: contactTable.customFields,
+		};
+	}
+	return {
+		columns: {
+			firstName: leadTable.firstName,
+			lastName: leadTable.lastName,
+			email: leadTable.email,
+			phone: leadTable.phone,
+			company: leadTable.company,
+			jobTitle: leadTable.jobTitle,
+			status: leadTable.status,
+			source: leadTable.source,
+			estimatedValue: leadTable.estimatedValue,
+			assignedToId: leadTable.assignedToId,
+			createdAt: leadTable.createdAt,
+		},
+		customFields: leadTable.customFields,
+	};
+}
+
+/**
+ * Reject filters nested too deep or with too many conditions
+ */
+function assertFilterSize(filter: FilterGroup): void {
+	let conditions = 0;
+
+	const visit = (group: FilterGroup, depth: number): void => {
+		if (depth > savedViewsConfig.maxFilterDepth) {
+			throw new FilterError(
+				"BAD_REQUEST",
+				`Filters can't nest more than ${savedViewsConfig.maxFilterDepth} groups`,
+			);
+		}
+		for (const child of group.children) {
+			if (child.type === "group") {
+				visit(child, depth + 1);
+			} else {
+				conditions += 1;
+			}
+		}
+	};
+	visit(filter, 0);
+
+	if (conditions > savedViewsConfig.maxFilterConditions) {
+		throw new FilterError(
+			"BAD_REQUEST",
+			`Filters can have up to ${savedViewsConfig.maxFilterConditions} conditions`,
+		);
+	}
+}
+
+function collectCustomFieldKeys(filter: FilterGroup, keys: Set<string>): void {
+	for (const child of filter.children) {
+		if (child.type === "group") {
+			collectCustomFieldKeys(child, keys);
+		} else if (child.field.startsWith(CUSTOM_FIELD_PREFIX)) {
+			keys.add(child.field.slice(CUSTOM_FIELD_PREFIX.length));
+		}
+	}
+}
+
+/**
+ * The values of a condition, checked against the type of the field
+ */
+function parseConditionValues(
+	field: FilterField,
+	condition: FilterCondition,
+): string[] {
+	const values = (
+		Array.isArray(condition.value) ? condition.value : [condition.value ?? ""]
+	)
+		.map((value) => value.trim())
+		.filter(Boolean);
+	if (values.length === 0) {
+		throw new FilterError(
+			"BAD_REQUEST",
+			`${field.label}: enter a value to filter on`,
+		);
+	}
+
+	for (const value of values) {
+		const invalid =
+			(field.type === "number" && !Number.isFinite(Number(value))) ||
+			(field.type === "date" &&
+				(!DATE_PATTERN.test(value) ||
+					Number.isNaN(new Date(`${value}T00:00:00Z`).getTime()))) ||
+			(field.type === "select" && !field.options.includes(value)) ||
+			(field.type === "member" && !UUID_PATTERN.test(value));
+		if (invalid) {
+			throw new FilterError(
+				"BAD_REQUEST",
+				`${field.label}: "${value}" isn't a valid value`,
+			);
+		}
+	}
+	return values;
+}
+
+function tagsCondition(
+	organizationId: string,
+	field: FilterField,
+	condition: FilterCondition,
+): SQL {
+	switch (condition.operator) {
+		case "isEmpty":
+			return not(contactHasTagsCondition());
+		case "isNotEmpty":
+			return contactHasTagsCondition();
+	}
+
+	// Names can also be given comma separated
+	const names = parseConditionValues(field, condition).flatMap((value) =>
+		value.split(","),
+	);
+	const matches = contactTagCondition(
+		organizationId,
+		names,
+		condition.operator === "contains" ? "all" : "any",
+	);
+	if (!matches) {
+		throw new FilterError(
+			"BAD_REQUEST",
+			`${field.label}: enter a value to filter on`,
+		);
+	}
+	return condition.operator === "notEquals" ? not(matches) : matches;
+}
+
+function columnCondition(
+	column: Column,
+	field: FilterField,
+	condition: FilterCondition,
+): SQL {
+	switch (condition.operator) {
+		case "isEmpty":
+			return field.type === "text"
+				? sql`coalesce(${column}, '') = ''`
+				: isNull(column);
+		case "isNotEmpty":
+			return field.type === "text"
+				? sql`coalesce(${column}, '') <> ''`
+				: sql`${column} is not null`;
+	}
+
+	const values = parseConditionValues(field, condition);
+	const [value = ""] = values;
+
+	if (field.type === "date") {
+		// Whole UTC days
+		const dayStart = new Date(`${value}T00:00:00Z`);
+		const nextDay = new Date(dayStart.getTime() + DAY_MS);
+		switch (condition.operator) {
+			case "greaterThan":
+				return gte(column, nextDay);
+			case "lessThan":
+				return lt(column, dayStart);
+			default:
+				return and(gte(column, dayStart), lt(column, nextDay))!;
+		}
+	}
+
+	if (field.type === "number") {
+		const numbers = values.map(Number);
+		switch (condition.operator) {
+			case "greaterThan":
+				return gt(column, numbers[0]);
+			case "lessThan":
+				return lt(column, numbers[0]);
+		}
+		const matches = inArray(column, numbers);
+		return condition.operator === "notEquals"
+			? sql`not coalesce(${matches}, false)`
+			: matches;
+	}
+
+	if (field.type === "text" && condition.operator === "contains") {
+		return ilike(column, `%${value}%`);
+	}
+
+	const matches =
+		field.type === "text"
+			? sql`(${sql.join(
+					values.map((text) => sql`lower(${column}) = lower(${text})`),
+					sql` or `,
+				)})`
+			: inArray(column, values);
+	return condition.operator === "notEquals"
+		? sql`not coalesce(${matches}, false)`
+		: matches;
+}
+
+/**
+ * Condition on contacts or leads matching a filter of the filter builder.
+ * Returns undefined when the filter has no conditions.
+ */
+export async function buildFilterCondition(
+	organizationId: string,
+	entity: SavedViewEntity,
+	filter: FilterGroup | null | undefined,
+): Promise<SQL | undefined> {
+	if (!filter) {
+		return undefined;
+	}
+	assertFilterSize(filter);
+
+	const table = getFilterTable(entity);
+	const standardFields = new Map(
+		standardFilterFields[entity].map((field) => [field.key, field]),
+	);
+
+	const customFieldKeys = new Set<string>();
+	collectCustomFieldKeys(filter, customFieldKeys);
+	const definitions = new Map(
+		customFieldKeys.size > 0
+			? (await listCustomFieldDefinitions(organizationId, entity)).map(
+					(definition) => [definition.key, definition],
+				)
+			: [],
+	);
+
+	const toCondition = (condition: FilterCondition): SQL => {
+		if (condition.field.startsWith(CUSTOM_FIELD_PREFIX)) {
+			const key = condition.field.slice(CUSTOM_FIELD_PREFIX.length);
+			const definition = definitions.get(key);
+			if (!definition) {
+				throw new FilterError("BAD_REQUEST", `Unknown custom field "${key}"`);
+			}
+			return customFieldFilterCondition(table.customFields, definition, {
+				key,
+				operator: condition.operator,
+				value: condition.value,
+			});
+		}
+
+		const field = standardFields.get(condition.field);
+		if (!field) {
+			throw new FilterError(
+				"BAD_REQUEST",
+				`Unknown filter field "${condition.field}"`,
+			);
+		}
+		if (!filterOperatorsByType[field.type].includes(condition.operator)) {
+			throw new FilterError(
+				"BAD_REQUEST",
+				`${field.label}: this filter isn't available for ${field.type} fields`,
+			);
+		}
+
+		if (field.type === "tags") {
+			return tagsCondition(organizationId, field, condition);
+		}
+		const column = table.columns[field.key];
+		if (!column) {
+			throw new Error(`Filter field "${field.key}" has no column`);
+		}
+		return columnCondition(column, field, condition);
+	};
+
+	const toGroupCondition = (group: FilterGroup): SQL | undefined => {
+		const conditions = group.children
+			.map((child) =>
+				child.type === "group" ? toGroupCondition(child) : toCondition(child),
+			)
+			.filter((condition): condition is SQL => condition !== undefined);
+		if (conditions.length === 0) {
+			return undefined;
+		}
+		return group.combinator === "or" ? or(...conditions) : and(...conditions);
+	};
+
+	return toGroupCondition(filter);
+}
@@ -0,0 +1,13 @@
+/**
+ * Error raised by an invalid list filter.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class FilterError extends Error {
+	public readonly code: "BAD_REQUEST";
+
+	constructor(code: FilterError["code"], message: string) {
+		super(message);
+		this.name = "FilterError";
+		this.code = code;
+	}
+}
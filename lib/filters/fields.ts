@@ -0,0 +1,130 @@
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import {
+	ContactStatuses,
+	CustomFieldType,
+	LeadSources,
+	LeadStatuses,
+	type SavedViewEntity,
+} from "@/lib/db/schema/enums";
+import type { CustomFieldFilterOperator } from "@/schemas/custom-field.schema";
+
+/**
+ * Filter Fields - The fields of contacts and leads the filter builder offers
+ *
+ * Standard fields are keyed by column, custom fields by "customFields.<key>".
+ * Shared by the dashboard and the SQL conditions in ./conditions.
+ */
+
+// Field id prefix of custom fields, e.g. "customFields.store"
+export const CUSTOM_FIELD_PREFIX = "customFields.";
+
+export type FilterFieldType =
+	| "text"
+	| "number"
+	| "date" // Values as YYYY-MM-DD
+	| "select"
+	| "tags" // Tag names of contacts, a list or comma separated
+	| "member"; // User id of the assigned member
+
+export interface FilterField {
+	key: string;
+	label: string;
+	type: FilterFieldType;
+	/** Choices of select fields */
+	options: string[];
+}
+
+export const filterOperatorsByType: Record<
+	FilterFieldType,
+	CustomFieldFilterOperator[]
+> = {
+	text: ["equals", "notEquals", "contains", "isEmpty", "isNotEmpty"],
+	number: [
+		"equals",
+		"notEquals",
+		"greaterThan",
+		"lessThan",
+		"isEmpty",
+		"isNotEmpty",
+	],
+	date: ["equals", "greaterThan", "lessThan", "isEmpty", "isNotEmpty"],
+	select: ["equals", "notEquals", "isEmpty", "isNotEmpty"],
+	// equals: any of the tags, contains: all of them, notEquals: none of them
+	tags: ["equals", "contains", "notEquals", "isEmpty", "isNotEmpty"],
+	member: ["equals", "notEquals", "isEmpty", "isNotEmpty"],
+};
+
+function standardField(
+	key: string,
+	label: string,
+	type: FilterFieldType,
+	options: readonly string[] = [],
+): FilterField {
+	return { key, label, type, options: [...options] };
+}
+
+export const standardFilterFields: Record<SavedViewEntity, FilterField[]> = {
+	contact: [
+		standardField("firstName", "First name", "text"),
+		standardField("lastName", "Last name", "text"),
+		standardField("email", "Email", "text"),
+		standardField("phone", "Phone", "text"),
+		standardField("company", "Company", "text"),
+		standardField("status", "Status", "select", ContactStatuses),
+		standardField("heatScore", "Heat score", "number"),
+		standardField("tags", "Tags", "tags"),
+		standardField("language", "Language", "text"),
+		standardField("interactionCount", "Interactions", "number"),
+		standardField("lastInteractionAt", "Last interaction", "date"),
+		standardField("assignedToId", "Assigned to", "member"),
+		standardField("createdAt", "Created", "date"),
+	],
+	lead: [
+		standardField("firstName", "First name", "text"),
+		standardField("lastName", "Last name", "text"),
+		standardField("email", "Email", "text"),
+		standardField("phone", "Phone", "text"),
+		standardField("company", "Company", "text"),
+		standardField("jobTitle", "Job title", "text"),
+		standardField("status", "Status", "select", LeadStatuses),
+		standardField("source", "Source", "select", LeadSources),
+		standardField("estimatedValue", "Estimated value", "number"),
+		standardField("assignedToId", "Assigned to", "member"),
+		standardField("createdAt", "Created", "date"),
+	],
+};
+
+const customFieldFilterTypes: Record<CustomFieldType, FilterFieldType> = {
+	[CustomFieldType.text]: "text",
+	[CustomFieldType.url]: "text",
+	[CustomFieldType.number]: "number",
+	[CustomFieldType.currency]: "number",
+	[CustomFieldType.date]: "date",
+	[CustomFieldType.select]: "select",
+	// Equals matches records having any of the options
+	[CustomFieldType.multiSelect]: "select",
+};
+
+export function toCustomFilterField(
+	definition: CustomFieldDefinition,
+): FilterField {
+	return {
+		key: `${CUSTOM_FIELD_PREFIX}${definition.key}`,
+		label: definition.label,
+		type: customFieldFilterTypes[definition.type],
+		options: definition.options,
+	};
+}
+
+/**
+ * Standard and custom fields of an entity, in builder order
+ */
+export function getFilterFields(
+	entity: SavedViewEntity,
+	definitions: CustomFieldDefinition[],
+): FilterField[] {
+	return [
+		...standardFilterFields[entity],
+		...definitions.map(toCustomFilterField),
+	];
+}
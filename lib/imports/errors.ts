@@ -0,0 +1,13 @@
+/**
+ * Error raised by contact and lead imports.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class ImportError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: ImportError["code"], message: string) {
+		super(message);
+		this.name = "ImportError";
+		this.code = code;
+	}
+}
@@ -0,0 +1,349 @@
+import { z } from "zod";
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import {
+	coerceCustomFieldValue,
+	validateCustomFieldValues,
+} from "@/lib/custom-fields/values";
+import {
+	CustomFieldEntity,
+	ImportEntity,
+	LeadSources,
+	LeadStatuses,
+} from "@/lib/db/schema/enums";
+import { contactSchema } from "@/schemas/contact.schema";
+import { createLeadSchema } from "@/schemas/organization-lead-schemas";
+
+/**
+ * Import Fields - Columns of an uploaded file mapped to contact / lead fields
+ *
+ * A mapping holds one target per file column: a field key, a
+ * `customFields.<key>` target for a custom field of the organization or null
+ * to ignore the column.
+ */
+
+export type ImportMapping = (string | null)[];
+
+export type ImportFieldDefinition = {
+	key: string;
+	label: string;
+	/** Normalized header names recognized for this field */
+	aliases: string[];
+};
+
+export const CUSTOM_FIELD_PREFIX = "customFields.";
+
+/** Custom fields of the records an import creates */
+export const customFieldEntityByImportEntity: Record<
+	ImportEntity,
+	CustomFieldEntity
+> = {
+	[ImportEntity.contacts]: CustomFieldEntity.contact,
+	[ImportEntity.leads]: CustomFieldEntity.lead,
+};
+
+const nameFields: ImportFieldDefinition[] = [
+	{
+		key: "fullName",
+		label: "Full name",
+		aliases: ["name", "fullname", "nombre", "nombrecompleto", "contact"],
+	},
+	{
+		key: "firstName",
+		label: "First name",
+		aliases: ["firstname", "first", "givenname", "nombres"],
+	},
+	{
+		key: "lastName",
+		label: "Last name",
+		aliases: ["lastname", "last", "surname", "familyname", "apellido"],
+	},
+	{
+		key: "email",
+		label: "Email",
+		aliases: ["email", "emailaddress", "mail", "correo"],
+	},
+	{
+		key: "phone",
+		label: "Phone",
+		aliases: ["phone", "phonenumber", "mobile", "cell", "telefono", "whatsapp"],
+	},
+	{
+		key: "company",
+		label: "Company",
+		aliases: ["company", "companyname", "organization", "empresa"],
+	},
+];
+
+export const importFields: Record<ImportEntity, ImportFieldDefinition[]> = {
+	[ImportEntity.contacts]: [
+		...nameFields,
+		{ key: "timezone", label: "Timezone", aliases: ["timezone", "tz"] },
+		{
+			key: "language",
+			label: "Language",
+			aliases: ["language", "lang", "idioma"],
+		},
+		{ key: "tags", label: "Tags", aliases: ["tags", "labels", "etiquetas"] },
+	],
+	[ImportEntity.leads]: [
+		...nameFields,
+		{
+			key: "jobTitle",
+			label: "Job title",
+			aliases: ["jobtitle", "title", "position", "role", "cargo"],
+		},
+		{ key: "status", label: "Status", aliases: ["status", "leadstatus"] },
+		{ key: "source", label: "Source", aliases: ["source", "leadsource"] },
+		{
+			key: "estimatedValue",
+			label: "Estimated value",
+			aliases: ["estimatedvalue", "value", "amount", "dealvalue"],
+		},
+		{ key: "notes", label: "Notes", aliases: ["notes", "note", "comments"] },
+	],
+};
+
+/**
+ * Lowercase alphanumeric form of a header, used to match aliases
+ */
+export function normalizeHeader(header: string): string {
+	return header
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Built-in fields and custom fields of an entity as mapping targets
+ */
+function getImportTargets(
+	entity: ImportEntity,
+	customFields: CustomFieldDefinition[],
+): ImportFieldDefinition[] {
+	return [
+		...importFields[entity],
+		...customFields.map((field) => ({
+			key: `${CUSTOM_FIELD_PREFIX}${field.key}`,
+			label: field.label,
+			aliases: [normalizeHeader(field.label), normalizeHeader(field.key)],
+		})),
+	];
+}
+
+/**
+ * Guess the target of each column from its header. Each field is mapped at
+ * most once, unknown columns are ignored.
+ */
+export function suggestImportMapping(
+	entity: ImportEntity,
+	headers: string[],
+	customFields: CustomFieldDefinition[] = [],
+): ImportMapping {
+	const targets = getImportTargets(entity, customFields);
+	const used = new Set<string>();
+
+	return headers.map((header) => {
+		const normalized = normalizeHeader(header);
+		const field = targets.find(
+			(candidate) =>
+				!used.has(candidate.key) &&
+				(candidate.aliases.includes(normalized) ||
+					normalizeHeader(candidate.key) === normalized),
+		);
+		if (!field) return null;
+		used.add(field.key);
+		return field.key;
+	});
+}
+
+/**
+ * Problems with a mapping, empty when it can be previewed
+ */
+export function validateImportMapping(
+	entity: ImportEntity,
+	headers: string[],
+	mapping: ImportMapping,
+	customFields: CustomFieldDefinition[] = [],
+): string[] {
+	if (mapping.length !== headers.length) {
+		return ["The mapping doesn't match the columns of the file"];
+	}
+
+	const problems: string[] = [];
+	const keys = new Set(
+		getImportTargets(entity, customFields).map((field) => field.key),
+	);
+	const seen = new Set<string>();
+
+	for (const target of mapping) {
+		if (target === null) continue;
+		if (!keys.has(target)) {
+			problems.push(
+				target.startsWith(CUSTOM_FIELD_PREFIX)
+					? `Unknown custom field "${target.slice(CUSTOM_FIELD_PREFIX.length)}"`
+					: `Unknown field "${target}"`,
+			);
+		}
+		if (seen.has(target)) {
+			problems.push(`"${target}" is mapped to more than one column`);
+		}
+		seen.add(target);
+	}
+
+	if (!seen.has("fullName") && !seen.has("firstName")) {
+		problems.push("Map a column to the full name or the first name");
+	}
+	if (entity === ImportEntity.leads && !seen.has("email")) {
+		problems.push("Map a column to the email, leads require one");
+	}
+	if (
+		entity === ImportEntity.contacts &&
+		!seen.has("email") &&
+		!seen.has("phone")
+	) {
+		problems.push("Map a column to the email or the phone");
+	}
+
+	return problems;
+}
+
+const importedContactSchema = contactSchema
+	.pick({
+		firstName: true,
+		email: true,
+		phone: true,
+		company: true,
+		timezone: true,
+		language: true,
+		tags: true,
+		customFields: true,
+	})
+	.extend({
+		// Spreadsheets often only have a single name column
+		lastName: z.string().max(100).default(""),
+	})
+	.refine((contact) => !!contact.email || !!contact.phone, {
+		message: "Email or phone is required",
+		path: ["email"],
+	});
+
+const importedLeadSchema = createLeadSchema.omit({ assignedToId: true });
+
+export type ImportedContact = z.output<typeof importedContactSchema>;
+export type ImportedLead = z.output<typeof importedLeadSchema>;
+
+export type MappedImportRow =
+	| { entity: typeof ImportEntity.contacts; data: ImportedContact }
+	| { entity: typeof ImportEntity.leads; data: ImportedLead };
+
+function parseEnumValue<T extends string>(
+	value: string,
+	values: readonly T[],
+): T | string {
+	const normalized = value
+		.trim()
+		.toLowerCase()
+		.replace(/[\s-]+/g, "_");
+	return values.find((candidate) => candidate === normalized) ?? value;
+}
+
+function parseAmount(value: string): number {
+	return Number(value.replace(/[^0-9.-]/g, ""));
+}
+
+/**
+ * Apply a mapping to the cells of a row and validate the result
+ */
+export function mapImportRow(
+	entity: ImportEntity,
+	mapping: ImportMapping,
+	values: string[],
+	customFields: CustomFieldDefinition[] = [],
+): { row: MappedImportRow; errors: [] } | { row: null; errors: string[] } {
+	const data: Record<string, unknown> = {};
+	const customValues: Record<string, unknown> = {};
+	const customFieldsByKey = new Map(
+		customFields.map((field) => [field.key, field]),
+	);
+
+	mapping.forEach((target, index) => {
+		const value = values[index]?.trim() ?? "";
+		if (!target || !value) return;
+
+		if (target.startsWith(CUSTOM_FIELD_PREFIX)) {
+			const field = customFieldsByKey.get(
+				target.slice(CUSTOM_FIELD_PREFIX.length),
+			);
+			if (field) {
+				customValues[field.key] = coerceCustomFieldValue(field, value);
+			}
+			return;
+		}
+
+		switch (target) {
+			case "fullName": {
+				const [firstName = "", ...lastName] = value.split(/\s+/);
+				data.firstName ??= firstName;
+				data.lastName ??= lastName.join(" ");
+				break;
+			}
+			case "email":
+				data.email = value.toLowerCase();
+				break;
+			case "tags":
+				data.tags = value
+					.split(/[,;|]/)
+					.map((tag) => tag.trim().toLowerCase())
+					.filter(Boolean);
+				break;
+			case "status":
+				data.status = parseEnumValue(value, LeadStatuses);
+				break;
+			case "source":
+				data.source = parseEnumValue(value, LeadSources);
+				break;
+			case "estimatedValue":
+				data.estimatedValue = parseAmount(value);
+				break;
+			default:
+				data[target] = value;
+		}
+	});
+
+	// Required custom fields are not enforced, a file fills what it can
+	const custom = validateCustomFieldValues(customFields, customValues, {
+		enforceRequired: false,
+	});
+	if (Object.keys(custom.values).length > 0) {
+		data.customFields = custom.values;
+	}
+	const customErrors = custom.issues.map(
+		(issue) =>
+			`${customFieldsByKey.get(issue.key)?.label ?? issue.key}: ${issue.message}`,
+	);
+
+	const labels = new Map(
+		importFields[entity].map((field) => [field.key, field.label]),
+	);
+	const toErrors = (issues: z.core.$ZodIssue[]): string[] => [
+		...issues.map((issue) => {
+			const key = String(issue.path[0] ?? "");
+			const label = labels.get(key);
+			return label ? `${label}: ${issue.message}` : issue.message;
+		}),
+		...customErrors,
+	];
+
+	if (entity === ImportEntity.contacts) {
+		const result = importedContactSchema.safeParse(data);
+		return result.success && customErrors.length === 0
+			? { row: { entity, data: result.data }, errors: [] }
+			: { row: null, errors: toErrors(result.error?.issues ?? []) };
+	}
+
+	const result = importedLeadSchema.safeParse(data);
+	return result.success && customErrors.length === 0
+		? { row: { entity, data: result.data }, errors: [] }
+		: { row: null, errors: toErrors(result.error?.issues ?? []) };
+}
@@ -0,0 +1,412 @@
+import { and, asc, desc, eq } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { importsConfig } from "@/config/imports.config";
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import { db } from "@/lib/db";
+import {
+	type ImportEntity,
+	ImportStatus,
+	JobType,
+} from "@/lib/db/schema/enums";
+import { importJobTable, importRowErrorTable } from "@/lib/db/schema/tables";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import { deleteObject, getSignedUploadUrl } from "@/lib/storage";
+import type {
+	CreateImportInput,
+	CreateImportUploadUrlInput,
+	PreviewImportInput,
+	StartImportInput,
+} from "@/schemas/import.schema";
+import { ImportError } from "./errors";
+import {
+	type ImportMapping,
+	mapImportRow,
+	suggestImportMapping,
+	validateImportMapping,
+} from "./fields";
+import { EXCEL_MIME_TYPE } from "./parsing";
+import {
+	findImportDuplicates,
+	getImportCustomFields,
+	getImportsBucket,
+	type ImportDecisions,
+	type ImportJob,
+	loadImportFile,
+	parseImportMapping,
+	processImport,
+	toRowNumber,
+} from "./processing";
+
+/**
+ * Imports - Upload, map, preview and start a contact / lead import
+ *
+ * The file is uploaded to the documents bucket, its columns are detected and
+ * mapped, then the preview validates every row and checks the first ones for
+ * duplicates so the user can create, merge or skip them.
+ */
+
+function getImportPrefix(organizationId: string): string {
+	return `${organizationId}/imports/`;
+}
+
+function parseHeaders(value: string): string[] {
+	try {
+		const headers: unknown = JSON.parse(value);
+		return Array.isArray(headers) ? headers.map(String) : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Import as shown in the dashboard
+ */
+export function toImportSummary(job: ImportJob) {
+	return {
+		id: job.id,
+		entity: job.entity,
+		status: job.status,
+		fileName: job.fileName,
+		headers: parseHeaders(job.headers),
+		mapping: parseImportMapping(job.mapping),
+		duplicateAction: job.duplicateAction,
+		totalRows: job.totalRows,
+		processedRows: job.processedRows,
+		createdCount: job.createdCount,
+		mergedCount: job.mergedCount,
+		skippedCount: job.skippedCount,
+		errorCount: job.errorCount,
+		errorMessage: job.errorMessage,
+		startedAt: job.startedAt,
+		completedAt: job.completedAt,
+		createdAt: job.createdAt,
+	};
+}
+
+export type ImportSummary = ReturnType<typeof toImportSummary>;
+
+async function getImportJob(
+	organizationId: string,
+	importId: string,
+): Promise<ImportJob> {
+	const job = await db.query.importJobTable.findFirst({
+		where: and(
+			eq(importJobTable.id, importId),
+			eq(importJobTable.organizationId, organizationId),
+		),
+	});
+
+	if (!job) {
+		throw new ImportError("NOT_FOUND", "Import not found");
+	}
+	return job;
+}
+
+function requireMappingStatus(job: ImportJob): void {
+	if (job.status !== ImportStatus.mapping) {
+		throw new ImportError("CONFLICT", "This import has already been started");
+	}
+}
+
+function requireValidMapping(
+	entity: ImportEntity,
+	headers: string[],
+	mapping: ImportMapping,
+	customFields: CustomFieldDefinition[],
+): void {
+	const [problem] = validateImportMapping(
+		entity,
+		headers,
+		mapping,
+		customFields,
+	);
+	if (problem) {
+		throw new ImportError("BAD_REQUEST", problem);
+	}
+}
+
+/**
+ * Signed URL to upload an import file
+ */
+export async function createImportUploadUrl(
+	organizationId: string,
+	input: CreateImportUploadUrlInput,
+): Promise<{ path: string; signedUrl: string }> {
+	const extension = input.mimeType === EXCEL_MIME_TYPE ? "xlsx" : "csv";
+	const baseName =
+		input.fileName
+			.replace(/\.[^.]+$/, "")
+			.replace(/[^a-zA-Z0-9\-_]+/g, "-")
+			.replace(/^-+|-+$/g, "")
+			.slice(0, 80) || "import";
+	const path = `${getImportPrefix(organizationId)}${nanoid()}-${baseName}.${extension}`;
+
+	const signedUrl = await getSignedUploadUrl(
+		path,
+		getImportsBucket(),
+		input.mimeType,
+	);
+
+	return { path, signedUrl };
+}
+
+/**
+ * Register an uploaded file, detecting its columns and suggesting a mapping.
+ * The first rows are returned as examples for the mapping step.
+ */
+export async function createImport(
+	organizationId: string,
+	input: CreateImportInput,
+	userId: string,
+): Promise<ImportSummary & { sampleRows: string[][] }> {
+	if (!input.path.startsWith(getImportPrefix(organizationId))) {
+		throw new ImportError("BAD_REQUEST", "Invalid upload path");
+	}
+
+	const file = await loadImportFile({
+		storagePath: input.path,
+		mimeType: input.mimeType,
+	});
+	const customFields = await getImportCustomFields({
+		organizationId,
+		entity: input.entity,
+	});
+
+	const [job] = await db
+		.insert(importJobTable)
+		.values({
+			organizationId,
+			entity: input.entity,
+			fileName: input.fileName,
+			storagePath: input.path,
+			mimeType: input.mimeType,
+			fileSize: input.fileSize,
+			headers: JSON.stringify(file.headers),
+			mapping: JSON.stringify(
+				suggestImportMapping(input.entity, file.headers, customFields),
+			),
+			totalRows: file.rows.length,
+			createdById: userId,
+		})
+		.returning();
+
+	if (!job) {
+		throw new Error("Failed to create import");
+	}
+	return { ...toImportSummary(job), sampleRows: file.rows.slice(0, 3) };
+}
+
+export async function getImport(
+	organizationId: string,
+	importId: string,
+): Promise<ImportSummary> {
+	return toImportSummary(await getImportJob(organizationId, importId));
+}
+
+/**
+ * Most recent imports of an organization
+ */
+export async function listImports(
+	organizationId: string,
+	entity?: ImportEntity,
+): Promise<ImportSummary[]> {
+	const jobs = await db
+		.select()
+		.from(importJobTable)
+		.where(
+			and(
+				eq(importJobTable.organizationId, organizationId),
+				entity ? eq(importJobTable.entity, entity) : undefined,
+			),
+		)
+		.orderBy(desc(importJobTable.createdAt))
+		.limit(importsConfig.recentImportsLimit);
+
+	return jobs.map(toImportSummary);
+}
+
+/**
+ * Save a mapping and validate the file with it. Every row is validated, the
+ * first rows are returned with their existing duplicates.
+ */
+export async function previewImport(
+	organizationId: string,
+	input: PreviewImportInput,
+) {
+	const job = await getImportJob(organizationId, input.id);
+	requireMappingStatus(job);
+
+	const headers = parseHeaders(job.headers);
+	const customFields = await getImportCustomFields(job);
+	requireValidMapping(job.entity, headers, input.mapping, customFields);
+
+	await db
+		.update(importJobTable)
+		.set({ mapping: JSON.stringify(input.mapping) })
+		.where(eq(importJobTable.id, job.id));
+
+	const file = await loadImportFile(job);
+	const mappedRows = file.rows.map((values) =>
+		mapImportRow(job.entity, input.mapping, values, customFields),
+	);
+
+	// One row at a time, each lookup scans the contacts of the organization
+	const rows = [];
+	for (const [index, mapped] of mappedRows
+		.slice(0, importsConfig.previewRowCount)
+		.entries()) {
+		const duplicates = mapped.row
+			? await findImportDuplicates(organizationId, mapped.row)
+			: [];
+		rows.push({
+			rowNumber: toRowNumber(index),
+			values: file.rows[index] ?? [],
+			data: mapped.row?.data ?? null,
+			errors: mapped.errors,
+			duplicates: duplicates.map((candidate) => ({
+				id: candidate.id,
+				firstName: candidate.contact.firstName as string,
+				lastName: candidate.contact.lastName as string,
+				email: candidate.contact.email as string | null,
+				phone: candidate.contact.phone as string | null,
+				confidence: candidate.confidence,
+				matchReason: candidate.matchReason,
+			})),
+		});
+	}
+
+	const invalidRows = mappedRows.flatMap((mapped, index) =>
+		mapped.errors.length > 0
+			? [{ rowNumber: toRowNumber(index), errors: mapped.errors }]
+			: [],
+	);
+
+	return {
+		totalRows: file.rows.length,
+		invalidRowCount: invalidRows.length,
+		invalidRows: invalidRows.slice(0, importsConfig.previewRowCount),
+		rows,
+	};
+}
+
+/**
+ * Start processing an import. Small files are imported right away, larger
+ * ones in the job queue.
+ */
+export async function startImport(
+	organizationId: string,
+	input: StartImportInput,
+): Promise<ImportSummary> {
+	const job = await getImportJob(organizationId, input.id);
+	requireMappingStatus(job);
+	requireValidMapping(
+		job.entity,
+		parseHeaders(job.headers),
+		parseImportMapping(job.mapping),
+		await getImportCustomFields(job),
+	);
+
+	const decisions: ImportDecisions = Object.fromEntries(
+		input.decisions.map((decision) => [
+			decision.rowNumber,
+			{ action: decision.action, contactId: decision.contactId },
+		]),
+	);
+
+	const started = await db.transaction(async (tx) => {
+		// Only one request can move the import out of mapping
+		const [updated] = await tx
+			.update(importJobTable)
+			.set({
+				status: ImportStatus.processing,
+				duplicateAction: input.duplicateAction,
+				decisions: JSON.stringify(decisions),
+				startedAt: new Date(),
+			})
+			.where(
+				and(
+					eq(importJobTable.id, job.id),
+					eq(importJobTable.status, ImportStatus.mapping),
+				),
+			)
+			.returning();
+
+		if (!updated) {
+			throw new ImportError("CONFLICT", "This import has already been started");
+		}
+
+		if (updated.totalRows > importsConfig.inlineRowLimit) {
+			await enqueueJob(
+				{
+					type: JobType.dataImport,
+					organizationId,
+					payload: { importId: updated.id },
+					uniqueKey: `data_import:${updated.id}:0`,
+				},
+				tx,
+			);
+		}
+		return updated;
+	});
+
+	if (started.totalRows > importsConfig.inlineRowLimit) {
+		return toImportSummary(started);
+	}
+
+	await processImport(started.id, true);
+	return await getImport(organizationId, started.id);
+}
+
+/**
+ * CSV of the rows that could not be imported, with their original cells
+ */
+export async function getImportErrorReport(
+	organizationId: string,
+	importId: string,
+): Promise<{ fileName: string; csv: string }> {
+	const job = await getImportJob(organizationId, importId);
+
+	const rowErrors = await db
+		.select()
+		.from(importRowErrorTable)
+		.where(eq(importRowErrorTable.importId, job.id))
+		.orderBy(asc(importRowErrorTable.rowNumber));
+
+	const Papa = await import("papaparse");
+	const csv = Papa.unparse({
+		fields: ["Row", ...parseHeaders(job.headers), "Errors"],
+		data: rowErrors.map((rowError) => [
+			rowError.rowNumber,
+			...(JSON.parse(rowError.values) as string[]),
+			(JSON.parse(rowError.errors) as string[]).join("; "),
+		]),
+	});
+
+	const baseName = job.fileName.replace(/\.[^.]+$/, "") || "import";
+	return { fileName: `${baseName}-errors.csv`, csv };
+}
+
+/**
+ * Delete an import, its error report and its file. Imported records stay.
+ */
+export async function deleteImport(
+	organizationId: string,
+	importId: string,
+): Promise<void> {
+	const job = await getImportJob(organizationId, importId);
+	if (job.status === ImportStatus.processing) {
+		throw new ImportError("CONFLICT", "Wait for the import to finish");
+	}
+
+	await db.delete(importJobTable).where(eq(importJobTable.id, job.id));
+
+	try {
+		await deleteObject(job.storagePath, getImportsBucket());
+	} catch (error) {
+		logger.warn(
+			{ importId: job.id, error },
+			"Failed to delete import file from storage",
+		);
+	}
+}
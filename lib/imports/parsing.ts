@@ -0,0 +1,102 @@
+import { importsConfig } from "@/config/imports.config";
+import { ImportError } from "./errors";
+
+/**
+ * Import Parsing - Reads the header and rows of an uploaded CSV / Excel file.
+ * Cells are kept as trimmed strings, mapping and validation happen later.
+ */
+
+export const CSV_MIME_TYPE = "text/csv";
+export const EXCEL_MIME_TYPE =
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export type ParsedImportFile = {
+	headers: string[];
+	/** Data rows, each with one cell per header */
+	rows: string[][];
+};
+
+/**
+ * Header and data rows of a table. Empty rows are dropped and rows are
+ * padded / truncated to the header length.
+ */
+export function toParsedImportFile(table: string[][]): ParsedImportFile {
+	const nonEmpty = table.filter((row) =>
+		row.some((cell) => cell.trim() !== ""),
+	);
+	const [headerRow, ...rows] = nonEmpty;
+
+	if (!headerRow) {
+		throw new ImportError("BAD_REQUEST", "The file is empty");
+	}
+	if (rows.length === 0) {
+		throw new ImportError("BAD_REQUEST", "The file has no data rows");
+	}
+	if (rows.length > importsConfig.maxRows) {
+		throw new ImportError(
+			"BAD_REQUEST",
+			`Files can have up to ${importsConfig.maxRows.toLocaleString()} rows`,
+		);
+	}
+
+	const headers = headerRow.map(
+		(header, index) => header.trim() || `Column ${index + 1}`,
+	);
+
+	return {
+		headers,
+		rows: rows.map((row) =>
+			headers.map((_, index) => row[index]?.trim() ?? ""),
+		),
+	};
+}
+
+async function parseCsv(data: Uint8Array): Promise<string[][]> {
+	const Papa = await import("papaparse");
+	const text = new TextDecoder().decode(data).replace(/^\uFEFF/, "");
+	// The delimiter is detected from the first lines
+	const result = Papa.parse<string[]>(text, { skipEmptyLines: "greedy" });
+	return result.data;
+}
+
+async function parseExcel(data: Uint8Array): Promise<string[][]> {
+	const ExcelJS = await import("exceljs");
+	const workbook = new ExcelJS.Workbook();
+	await workbook.xlsx.load(
+		Buffer.from(data) as unknown as Parameters<typeof workbook.xlsx.load>[0],
+	);
+
+	// Only the first worksheet is imported
+	const worksheet = workbook.worksheets[0];
+	if (!worksheet) {
+		return [];
+	}
+
+	const table: string[][] = [];
+	for (let rowIndex = 1; rowIndex <= worksheet.rowCount; rowIndex++) {
+		const row = worksheet.getRow(rowIndex);
+		table.push(
+			Array.from(
+				{ length: worksheet.columnCount },
+				(_, columnIndex) => row.getCell(columnIndex + 1).text ?? "",
+			),
+		);
+	}
+	return table;
+}
+
+export async function parseImportFile(
+	data: Uint8Array,
+	mimeType: string,
+): Promise<ParsedImportFile> {
+	let table: string[][];
+	try {
+		table =
+			mimeType === EXCEL_MIME_TYPE
+				? await parseExcel(data)
+				: await parseCsv(data);
+	} catch {
+		throw new ImportError("BAD_REQUEST", "The file could not be read");
+	}
+	return toParsedImportFile(table);
+}
@@ -0,0 +1,548 @@
+import { and, eq, sql } from "drizzle-orm";
+import { importsConfig } from "@/config/imports.config";
+import { toApiContact } from "@/lib/api/serializers";
+import { listCustomFieldDefinitions } from "@/lib/custom-fields/definitions";
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import { serializeCustomFieldValues } from "@/lib/custom-fields/values";
+import { db } from "@/lib/db";
+import {
+	ContactSourceType,
+	ContactStatus,
+	HeatScoreSignalType,
+	HeatScoreSignalTypes,
+	ImportDuplicateAction,
+	ImportEntity,
+	ImportStatus,
+	JobType,
+	WebhookEventType,
+} from "@/lib/db/schema/enums";
+import {
+	contactSourceTable,
+	contactTable,
+	importJobTable,
+	importRowErrorTable,
+	leadTable,
+} from "@/lib/db/schema/tables";
+import {
+	type DuplicateCandidate,
+	detectDuplicateContacts,
+} from "@/lib/ember/memoria/merger";
+import { rescoreContacts } from "@/lib/ember/memoria/scoring";
+import { addContactTags, setContactTags } from "@/lib/ember/memoria/tags";
+import { env } from "@/lib/env";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import { getObject } from "@/lib/storage";
+import { emitWebhookEvent } from "@/lib/webhooks/events";
+import { ImportError } from "./errors";
+import {
+	customFieldEntityByImportEntity,
+	type ImportedContact,
+	type ImportedLead,
+	type ImportMapping,
+	type MappedImportRow,
+	mapImportRow,
+} from "./fields";
+import { type ParsedImportFile, parseImportFile } from "./parsing";
+
+/**
+ * Import Processing - Creates, merges or skips the rows of an import
+ *
+ * Large imports run in the job queue (`data_import`), one chunk of rows per
+ * job. Each row is committed together with the import progress, so a retried
+ * chunk resumes after the last processed row instead of importing it twice.
+ */
+
+export type ImportJob = typeof importJobTable.$inferSelect;
+type ContactRow = typeof contactTable.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** Per row overrides of the import duplicate action, keyed by row number */
+export type ImportDecisions = Record<
+	string,
+	{ action: ImportDuplicateAction; contactId?: string }
+>;
+
+type RowOutcome =
+	| { status: "created" | "merged" | "skipped" }
+	| { status: "error"; errors: string[] };
+
+/**
+ * Bucket holding uploaded import files
+ */
+export function getImportsBucket(): string {
+	if (!env.S3_DOCUMENTS_BUCKET_NAME) {
+		throw new Error("S3_DOCUMENTS_BUCKET_NAME is not configured");
+	}
+	return env.S3_DOCUMENTS_BUCKET_NAME;
+}
+
+/**
+ * Row number shown to users: the header is row 1
+ */
+export function toRowNumber(index: number): number {
+	return index + 2;
+}
+
+export function parseImportMapping(value: string): ImportMapping {
+	try {
+		const mapping: unknown = JSON.parse(value);
+		return Array.isArray(mapping)
+			? mapping.map((target) => (typeof target === "string" ? target : null))
+			: [];
+	} catch {
+		return [];
+	}
+}
+
+function parseDecisions(value: string): ImportDecisions {
+	try {
+		return JSON.parse(value) as ImportDecisions;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Custom fields of the records an import creates, mapping targets of its
+ * columns
+ */
+export async function getImportCustomFields(
+	job: Pick<ImportJob, "organizationId" | "entity">,
+): Promise<CustomFieldDefinition[]> {
+	return await listCustomFieldDefinitions(
+		job.organizationId,
+		customFieldEntityByImportEntity[job.entity],
+	);
+}
+
+export async function loadImportFile(
+	job: Pick<ImportJob, "storagePath" | "mimeType">,
+): Promise<ParsedImportFile> {
+	const data = await getObject(job.storagePath, getImportsBucket());
+	return parseImportFile(data, job.mimeType);
+}
+
+/**
+ * Existing contacts a row is likely a duplicate of, best match first
+ */
+export async function findImportDuplicates(
+	organizationId: string,
+	row: MappedImportRow,
+): Promise<DuplicateCandidate[]> {
+	const candidates = await detectDuplicateContacts(
+		organizationId,
+		{
+			email: row.data.email,
+			phone: row.data.phone,
+			firstName: row.data.firstName,
+			lastName: row.data.lastName,
+		},
+		importsConfig.duplicateNameThreshold,
+	);
+	return candidates.filter(
+		(candidate) => candidate.confidence >= importsConfig.duplicateMinConfidence,
+	);
+}
+
+function parseJsonValue<T>(value: string | null, fallback: T): T {
+	if (!value) return fallback;
+	try {
+		return JSON.parse(value) as T;
+	} catch {
+		return fallback;
+	}
+}
+
+async function createContact(
+	tx: Transaction,
+	job: ImportJob,
+	rowNumber: number,
+	data: ImportedContact,
+): Promise<void> {
+	const [contact] = (await tx
+		.insert(contactTable)
+		.values({
+			organizationId: job.organizationId,
+			firstName: data.firstName,
+			lastName: data.lastName,
+			email: data.email ?? null,
+			phone: data.phone ?? null,
+			company: data.company ?? null,
+			timezone: data.timezone ?? null,
+			language: data.language,
+			customFields: serializeCustomFieldValues(data.customFields),
+			status: ContactStatus.active,
+		})
+		.returning()) as ContactRow[];
+
+	if (!contact) {
+		throw new Error("Failed to create contact");
+	}
+	contact.tags = JSON.stringify(
+		await setContactTags(job.organizationId, contact.id, data.tags, tx),
+	);
+
+	await tx.insert(contactSourceTable).values({
+		contactId: contact.id,
+		sourceType: ContactSourceType.import,
+		sourceIdentifier: job.id,
+		sourceMetadata: JSON.stringify({ fileName: job.fileName, rowNumber }),
+	});
+	await rescoreContacts(
+		job.organizationId,
+		[contact.id],
+		HeatScoreSignalTypes,
+		tx,
+	);
+
+	await emitWebhookEvent(
+		{
+			organizationId: job.organizationId,
+			type: WebhookEventType.contactCreated,
+			data: { contact: toApiContact(contact) },
+		},
+		tx,
+	);
+}
+
+/**
+ * Fill the blanks of an existing contact, its own values win
+ */
+async function mergeIntoContact(
+	tx: Transaction,
+	job: ImportJob,
+	rowNumber: number,
+	contactId: string,
+	data: ImportedContact,
+): Promise<void> {
+	const [existing] = (await tx
+		.select()
+		.from(contactTable)
+		.where(
+			and(
+				eq(contactTable.id, contactId),
+				eq(contactTable.organizationId, job.organizationId),
+				eq(contactTable.status, ContactStatus.active),
+			),
+		)
+		.for("update")) as ContactRow[];
+
+	if (!existing) {
+		throw new ImportError(
+			"NOT_FOUND",
+			"The contact to merge into no longer exists",
+		);
+	}
+
+	const customFields = {
+		...data.customFields,
+		...parseJsonValue<Record<string, unknown>>(existing.customFields, {}),
+	};
+
+	await tx
+		.update(contactTable)
+		.set({
+			email: existing.email || data.email || null,
+			phone: existing.phone || data.phone || null,
+			company: existing.company || data.company || null,
+			timezone: existing.timezone || data.timezone || null,
+			customFields: serializeCustomFieldValues(customFields),
+			updatedAt: new Date(),
+		})
+		.where(eq(contactTable.id, existing.id));
+	await addContactTags(job.organizationId, existing.id, data.tags, tx);
+	await rescoreContacts(
+		job.organizationId,
+		[existing.id],
+		[HeatScoreSignalType.tag, HeatScoreSignalType.customField],
+		tx,
+	);
+
+	await tx.insert(contactSourceTable).values({
+		contactId: existing.id,
+		sourceType: ContactSourceType.import,
+		sourceIdentifier: job.id,
+		sourceMetadata: JSON.stringify({ fileName: job.fileName, rowNumber }),
+	});
+}
+
+/**
+ * Create a lead, linked to the matching contact when merging
+ */
+async function createLead(
+	tx: Transaction,
+	job: ImportJob,
+	data: ImportedLead,
+	contactId: string | null,
+): Promise<void> {
+	if (contactId) {
+		const contact = await tx.query.contactTable.findFirst({
+			where: and(
+				eq(contactTable.id, contactId),
+				eq(contactTable.organizationId, job.organizationId),
+			),
+			columns: { id: true },
+		});
+		if (!contact) {
+			throw new ImportError(
+				"NOT_FOUND",
+				"The contact to link the lead to no longer exists",
+			);
+		}
+	}
+
+	await tx.insert(leadTable).values({
+		...data,
+		customFields: serializeCustomFieldValues(data.customFields),
+		organizationId: job.organizationId,
+		contactId,
+	});
+}
+
+/**
+ * Apply a valid row with the chosen duplicate action
+ */
+async function applyImportRow(
+	tx: Transaction,
+	job: ImportJob,
+	rowNumber: number,
+	row: MappedImportRow,
+	action: ImportDuplicateAction,
+	contactId: string | null,
+): Promise<RowOutcome> {
+	if (action === ImportDuplicateAction.skip) {
+		return { status: "skipped" };
+	}
+
+	const mergeContactId =
+		action === ImportDuplicateAction.merge ? contactId : null;
+	if (action === ImportDuplicateAction.merge && !mergeContactId) {
+		return {
+			status: "error",
+			errors: ["No existing contact matches this row to merge into"],
+		};
+	}
+
+	if (row.entity === ImportEntity.leads) {
+		await createLead(tx, job, row.data, mergeContactId);
+		return { status: mergeContactId ? "merged" : "created" };
+	}
+
+	if (mergeContactId) {
+		await mergeIntoContact(tx, job, rowNumber, mergeContactId, row.data);
+		return { status: "merged" };
+	}
+
+	await createContact(tx, job, rowNumber, row.data);
+	return { status: "created" };
+}
+
+/**
+ * Lock the import and check the row is the next one to process
+ */
+async function claimImportRow(
+	tx: Transaction,
+	importId: string,
+	index: number,
+): Promise<boolean> {
+	const [current] = await tx
+		.select({
+			status: importJobTable.status,
+			processedRows: importJobTable.processedRows,
+		})
+		.from(importJobTable)
+		.where(eq(importJobTable.id, importId))
+		.for("update");
+
+	return (
+		current?.status === ImportStatus.processing &&
+		current.processedRows === index
+	);
+}
+
+/**
+ * Advance the import past a row and count its outcome
+ */
+async function recordImportRow(
+	tx: Transaction,
+	importId: string,
+	index: number,
+	values: string[],
+	outcome: RowOutcome,
+): Promise<void> {
+	if (outcome.status === "error") {
+		await tx.insert(importRowErrorTable).values({
+			importId,
+			rowNumber: toRowNumber(index),
+			values: JSON.stringify(values),
+			errors: JSON.stringify(outcome.errors),
+		});
+	}
+
+	const counters = {
+		created: { createdCount: sql`${importJobTable.createdCount} + 1` },
+		merged: { mergedCount: sql`${importJobTable.mergedCount} + 1` },
+		skipped: { skippedCount: sql`${importJobTable.skippedCount} + 1` },
+		error: { errorCount: sql`${importJobTable.errorCount} + 1` },
+	}[outcome.status];
+
+	await tx
+		.update(importJobTable)
+		.set({ processedRows: index + 1, ...counters })
+		.where(eq(importJobTable.id, importId));
+}
+
+/**
+ * Process a single row. Returns false when another worker already did.
+ */
+async function processImportRow(
+	job: ImportJob,
+	index: number,
+	values: string[],
+	mapping: ImportMapping,
+	customFields: CustomFieldDefinition[],
+	decisions: ImportDecisions,
+): Promise<boolean> {
+	const rowNumber = toRowNumber(index);
+	const mapped = mapImportRow(job.entity, mapping, values, customFields);
+
+	let action: ImportDuplicateAction = ImportDuplicateAction.create;
+	let contactId: string | null = null;
+
+	if (mapped.row) {
+		const decision = decisions[rowNumber];
+		const needsCandidates =
+			!decision ||
+			(decision.action === ImportDuplicateAction.merge && !decision.contactId);
+		const [bestMatch] = needsCandidates
+			? await findImportDuplicates(job.organizationId, mapped.row)
+			: [];
+
+		if (decision) {
+			action = decision.action;
+			contactId = decision.contactId ?? bestMatch?.id ?? null;
+		} else if (bestMatch) {
+			action = job.duplicateAction;
+			contactId = bestMatch.id;
+		}
+	}
+
+	try {
+		return await db.transaction(async (tx) => {
+			if (!(await claimImportRow(tx, job.id, index))) {
+				return false;
+			}
+
+			const outcome: RowOutcome = mapped.row
+				? await applyImportRow(
+						tx,
+						job,
+						rowNumber,
+						mapped.row,
+						action,
+						contactId,
+					)
+				: { status: "error", errors: mapped.errors };
+
+			await recordImportRow(tx, job.id, index, values, outcome);
+			return true;
+		});
+	} catch (error) {
+		logger.warn({ importId: job.id, rowNumber, error }, "Import row failed");
+
+		// The row was rolled back, record why it failed and move on
+		return await db.transaction(async (tx) => {
+			if (!(await claimImportRow(tx, job.id, index))) {
+				return false;
+			}
+			await recordImportRow(tx, job.id, index, values, {
+				status: "error",
+				errors: [
+					error instanceof ImportError
+						? error.message
+						: "The row could not be saved",
+				],
+			});
+			return true;
+		});
+	}
+}
+
+/**
+ * Process the next chunk of rows of an import, then queue the following
+ * chunk or mark the import completed. Marks the import failed (and rethrows)
+ * when the file can't be processed on the last attempt.
+ */
+export async function processImport(
+	importId: string,
+	isLastAttempt: boolean,
+): Promise<void> {
+	const job = await db.query.importJobTable.findFirst({
+		where: eq(importJobTable.id, importId),
+	});
+
+	// Deleted or already finished
+	if (!job || job.status !== ImportStatus.processing) {
+		return;
+	}
+
+	try {
+		const file = await loadImportFile(job);
+		const mapping = parseImportMapping(job.mapping);
+		const customFields = await getImportCustomFields(job);
+		const decisions = parseDecisions(job.decisions);
+		const end = Math.min(
+			job.processedRows + importsConfig.chunkSize,
+			file.rows.length,
+		);
+
+		for (let index = job.processedRows; index < end; index++) {
+			const processed = await processImportRow(
+				job,
+				index,
+				file.rows[index] ?? [],
+				mapping,
+				customFields,
+				decisions,
+			);
+			// Another worker is processing this import
+			if (!processed) return;
+		}
+
+		if (end >= file.rows.length) {
+			await db
+				.update(importJobTable)
+				.set({ status: ImportStatus.completed, completedAt: new Date() })
+				.where(
+					and(
+						eq(importJobTable.id, job.id),
+						eq(importJobTable.status, ImportStatus.processing),
+					),
+				);
+			return;
+		}
+
+		await enqueueJob({
+			type: JobType.dataImport,
+			organizationId: job.organizationId,
+			payload: { importId: job.id },
+			uniqueKey: `data_import:${job.id}:${end}`,
+		});
+	} catch (error) {
+		if (isLastAttempt) {
+			await db
+				.update(importJobTable)
+				.set({
+					status: ImportStatus.failed,
+					errorMessage:
+						error instanceof ImportError
+							? error.message
+							: "The import could not be processed",
+					completedAt: new Date(),
+				})
+				.where(eq(importJobTable.id, job.id));
+		}
+		throw error;
+	}
+}
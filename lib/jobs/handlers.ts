@@ -0,0 +1,220 @@
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { JobType } from "@/lib/db/schema/enums";
+import {
+	conversationMessageTable,
+	conversationTable,
+} from "@/lib/db/schema/tables";
+import { sendMeetingReminder } from "@/lib/ember/calendar/meetings";
+import { channelManager } from "@/lib/ember/canales/manager";
+import { processMessage } from "@/lib/ember/core/engine";
+import { syncInventory } from "@/lib/ember/inventario/sync";
+import { ingestKnowledgeDocument } from "@/lib/ember/knowledge/ingestion";
+import { scanDuplicateContacts } from "@/lib/ember/memoria/duplicates";
+import { processHeatScoreRun } from "@/lib/ember/memoria/scoring";
+import { processImport } from "@/lib/imports/processing";
+import { logger } from "@/lib/logger";
+import { processWebhookDelivery } from "@/lib/webhooks/delivery";
+import { enqueueJob } from "./queue";
+import type { Job, JobHandler, JobPayloads } from "./types";
+
+/**
+ * Job Handlers - One handler per job type.
+ * Handlers throw to signal a failed attempt; the worker schedules the retry.
+ */
+
+/**
+ * Generate the AI reply for an inbound message, then queue its delivery.
+ * Delivery is a separate job so a provider outage doesn't re-run the model.
+ * The reply is saved linked to the inbound message, so a retry after it was
+ * saved only queues its delivery instead of running the model and its actions
+ * again.
+ */
+const aiReplyHandler: JobHandler<typeof JobType.aiReply> = async (
+	payload,
+	job,
+) => {
+	if (!job.organizationId) {
+		throw new Error("AI reply job without organization");
+	}
+
+	const conversation = await db.query.conversationTable.findFirst({
+		where: eq(conversationTable.id, payload.conversationId),
+		columns: { transferredToHuman: true },
+	});
+
+	// Human agents own transferred conversations
+	if (!conversation || conversation.transferredToHuman) {
+		return;
+	}
+
+	const savedReply = await db.query.conversationMessageTable.findFirst({
+		where: eq(conversationMessageTable.replyToId, payload.messageId),
+		columns: { id: true },
+	});
+	if (savedReply) {
+		logger.info(
+			{ jobId: job.id, messageId: payload.messageId, replyId: savedReply.id },
+			"AI reply already saved, queueing its delivery",
+		);
+		await enqueueReplyDelivery(job.organizationId, savedReply.id);
+		return;
+	}
+
+	const result = await processMessage({
+		conversationId: payload.conversationId,
+		messageContent: payload.content,
+		organizationId: job.organizationId,
+		contactId: payload.contactId,
+		channel: payload.channel,
+		replyToId: payload.messageId,
+	});
+
+	if (result.response && result.messageId) {
+		await enqueueReplyDelivery(job.organizationId, result.messageId);
+	}
+};
+
+async function enqueueReplyDelivery(
+	organizationId: string,
+	messageId: string,
+): Promise<void> {
+	await enqueueJob({
+		type: JobType.messageDelivery,
+		organizationId,
+		payload: { messageId },
+		uniqueKey: `message_delivery:${messageId}`,
+	});
+}
+
+const messageDeliveryHandler: JobHandler<
+	typeof JobType.messageDelivery
+> = async (payload) => {
+	await channelManager.deliverMessage(payload.messageId);
+};
+
+const formWebhookHandler: JobHandler<typeof JobType.formWebhook> = async (
+	payload,
+) => {
+	const response = await fetch(payload.url, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+		},
+		body: JSON.stringify(payload.body),
+	});
+
+	if (!response.ok) {
+		throw new Error(`Webhook responded with ${response.status}`);
+	}
+};
+
+const inventorySyncHandler: JobHandler<typeof JobType.inventorySync> = async (
+	payload,
+	job,
+) => {
+	if (!job.organizationId) {
+		throw new Error("Inventory sync job without organization");
+	}
+
+	const result = await syncInventory(job.organizationId, payload.syncConfigId);
+
+	if (!result.success) {
+		throw new Error(result.errors.join("; ") || "Inventory sync failed");
+	}
+};
+
+const knowledgeIngestHandler: JobHandler<
+	typeof JobType.knowledgeIngest
+> = async (payload) => {
+	await ingestKnowledgeDocument(payload.documentId);
+};
+
+const meetingReminderHandler: JobHandler<
+	typeof JobType.meetingReminder
+> = async (payload) => {
+	await sendMeetingReminder(payload.meetingId, payload.startsAt);
+};
+
+/**
+ * One attempt of an organization webhook delivery.
+ * The delivery is marked failed when the job runs out of attempts.
+ */
+const webhookDeliveryHandler: JobHandler<
+	typeof JobType.webhookDelivery
+> = async (payload, job) => {
+	await processWebhookDelivery(
+		payload.deliveryId,
+		job.attempts >= job.maxAttempts,
+	);
+};
+
+/**
+ * Next chunk of rows of a contact / lead import.
+ * The import is marked failed when the job runs out of attempts.
+ */
+const dataImportHandler: JobHandler<typeof JobType.dataImport> = async (
+	payload,
+	job,
+) => {
+	await processImport(payload.importId, job.attempts >= job.maxAttempts);
+};
+
+/**
+ * Next batch of contacts of a duplicate scan
+ */
+const duplicateScanHandler: JobHandler<typeof JobType.duplicateScan> = async (
+	payload,
+	job,
+) => {
+	if (!job.organizationId) {
+		throw new Error("Duplicate scan job without organization");
+	}
+
+	await scanDuplicateContacts(job.organizationId, payload);
+};
+
+/**
+ * Next batch of contacts of a heat score recalculation.
+ * The run is marked failed when the job runs out of attempts.
+ */
+const heatScoreRecalculationHandler: JobHandler<
+	typeof JobType.heatScoreRecalculation
+> = async (payload, job) => {
+	if (!job.organizationId) {
+		throw new Error("Heat score recalculation job without organization");
+	}
+
+	await processHeatScoreRun(
+		job.organizationId,
+		payload,
+		job.attempts >= job.maxAttempts,
+	);
+};
+
+const jobHandlers: { [TType in JobType]: JobHandler<TType> } = {
+	[JobType.aiReply]: aiReplyHandler,
+	[JobType.messageDelivery]: messageDeliveryHandler,
+	[JobType.formWebhook]: formWebhookHandler,
+	[JobType.inventorySync]: inventorySyncHandler,
+	[JobType.knowledgeIngest]: knowledgeIngestHandler,
+	[JobType.meetingReminder]: meetingReminderHandler,
+	[JobType.webhookDelivery]: webhookDeliveryHandler,
+	[JobType.dataImport]: dataImportHandler,
+	[JobType.duplicateScan]: duplicateScanHandler,
+	[JobType.heatScoreRecalculation]: heatScoreRecalculationHandler,
+};
+
+/**
+ * Run a claimed job with its handler
+ */
+export async function runJob(job: Job): Promise<void> {
+	const handler = jobHandlers[job.type] as JobHandler | undefined;
+	if (!handler) {
+		throw new Error(`No handler registered for job type: ${job.type}`);
+	}
+
+	const payload = JSON.parse(job.payload) as JobPayloads[JobType];
+	logger.info({ jobId: job.id, type: job.type }, "Running job");
+	await handler(payload, job);
+}
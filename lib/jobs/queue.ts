@@ -0,0 +1,274 @@
+import { and, asc, count, eq, inArray, lt, lte, sql } from "drizzle-orm";
+import { jobsConfig } from "@/config/jobs.config";
+import { db } from "@/lib/db";
+import { JobStatus, type JobType } from "@/lib/db/schema/enums";
+import { jobTable } from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+import type { EnqueueJobInput, Job } from "./types";
+
+/**
+ * Job Queue - Postgres-backed queue with retries and dead-lettering
+ *
+ * Jobs are claimed in a transaction holding an advisory lock, so concurrent
+ * workers never exceed the per-organization concurrency limit. Failed jobs are
+ * retried with exponential backoff until `maxAttempts`, then marked `dead`.
+ */
+
+/** Advisory lock key serializing job claims across workers */
+const CLAIM_LOCK_KEY = 4_207_301;
+
+/** Anything that can insert: the db client or an open transaction */
+type JobExecutor = Pick<typeof db, "insert">;
+
+/**
+ * Add a job to the queue.
+ * Pass a transaction as `executor` to enqueue atomically with other writes.
+ * Returns null when a job with the same `uniqueKey` already exists.
+ */
+export async function enqueueJob<TType extends JobType>(
+	input: EnqueueJobInput<TType>,
+	executor: JobExecutor = db,
+): Promise<Job | null> {
+	const [job] = await executor
+		.insert(jobTable)
+		.values({
+			type: input.type,
+			organizationId: input.organizationId,
+			payload: JSON.stringify(input.payload),
+			runAt: input.runAt ?? new Date(),
+			maxAttempts: input.maxAttempts ?? jobsConfig.defaultMaxAttempts,
+			uniqueKey: input.uniqueKey,
+		})
+		.onConflictDoNothing({ target: jobTable.uniqueKey })
+		.returning();
+
+	return job ?? null;
+}
+
+/**
+ * Delay before the next attempt, after `attempts` failed attempts
+ */
+export function getBackoffDelay(attempts: number): number {
+	const { baseMs, maxMs } = jobsConfig.backoff;
+	const delay = baseMs * 2 ** Math.max(attempts - 1, 0);
+	// Up to 10% jitter so retries from a burst don't line up
+	const jitter = Math.random() * delay * 0.1;
+	return Math.min(delay + jitter, maxMs);
+}
+
+/**
+ * Pick due jobs in order while respecting the per-organization limit.
+ * `runningCounts` holds the jobs already running for each organization.
+ */
+export function selectClaimableJobs(
+	candidates: Job[],
+	runningCounts: Map<string, number>,
+	limit: number,
+	perOrganizationLimit: number,
+): Job[] {
+	const counts = new Map(runningCounts);
+	const selected: Job[] = [];
+
+	for (const job of candidates) {
+		if (selected.length >= limit) break;
+
+		if (job.organizationId) {
+			const running = counts.get(job.organizationId) ?? 0;
+			if (running >= perOrganizationLimit) continue;
+			counts.set(job.organizationId, running + 1);
+		}
+
+		selected.push(job);
+	}
+
+	return selected;
+}
+
+/**
+ * Claim due jobs for a worker, marking them as running
+ */
+export async function claimJobs(
+	workerId: string,
+	limit: number = jobsConfig.batchSize,
+): Promise<Job[]> {
+	return db.transaction(async (tx) => {
+		await tx.execute(sql`select pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+
+		const now = new Date();
+		const staleBefore = new Date(now.getTime() - jobsConfig.lockTimeoutMs);
+
+		// Jobs whose worker died mid-run: dead-letter when out of attempts...
+		await tx
+			.update(jobTable)
+			.set({
+				status: JobStatus.dead,
+				lastError: "Job timed out",
+				lockedAt: null,
+				lockedBy: null,
+			})
+			.where(
+				and(
+					eq(jobTable.status, JobStatus.running),
+					lt(jobTable.lockedAt, staleBefore),
+					sql`${jobTable.attempts} >= ${jobTable.maxAttempts}`,
+				),
+			);
+
+		// ...otherwise put them back in the queue
+		await tx
+			.update(jobTable)
+			.set({
+				status: JobStatus.pending,
+				lastError: "Job timed out",
+				runAt: now,
+				lockedAt: null,
+				lockedBy: null,
+			})
+			.where(
+				and(
+					eq(jobTable.status, JobStatus.running),
+					lt(jobTable.lockedAt, staleBefore),
+				),
+			);
+
+		// Over-fetch so organizations at their limit don't starve the batch
+		const candidates = await tx
+			.select()
+			.from(jobTable)
+			.where(
+				and(eq(jobTable.status, JobStatus.pending), lte(jobTable.runAt, now)),
+			)
+			.orderBy(asc(jobTable.runAt))
+			.limit(limit * 5)
+			.for("update", { skipLocked: true });
+
+		if (candidates.length === 0) {
+			return [];
+		}
+
+		const organizationIds = [
+			...new Set(
+				candidates
+					.map((job) => job.organizationId)
+					.filter((id): id is string => id !== null),
+			),
+		];
+
+		const running =
+			organizationIds.length > 0
+				? await tx
+						.select({
+							organizationId: jobTable.organizationId,
+							count: count(),
+						})
+						.from(jobTable)
+						.where(
+							and(
+								eq(jobTable.status, JobStatus.running),
+								inArray(jobTable.organizationId, organizationIds),
+							),
+						)
+						.groupBy(jobTable.organizationId)
+				: [];
+
+		const runningCounts = new Map<string, number>();
+		for (const row of running) {
+			if (row.organizationId) {
+				runningCounts.set(row.organizationId, row.count);
+			}
+		}
+
+		const selected = selectClaimableJobs(
+			candidates,
+			runningCounts,
+			limit,
+			jobsConfig.perOrganizationConcurrency,
+		);
+
+		if (selected.length === 0) {
+			return [];
+		}
+
+		return tx
+			.update(jobTable)
+			.set({
+				status: JobStatus.running,
+				attempts: sql`${jobTable.attempts} + 1`,
+				lockedAt: now,
+				lockedBy: workerId,
+			})
+			.where(
+				inArray(
+					jobTable.id,
+					selected.map((job) => job.id),
+				),
+			)
+			.returning();
+	});
+}
+
+/**
+ * Mark a claimed job as completed
+ */
+export async function completeJob(job: Job): Promise<void> {
+	await db
+		.update(jobTable)
+		.set({
+			status: JobStatus.completed,
+			completedAt: new Date(),
+			lockedAt: null,
+			lockedBy: null,
+		})
+		.where(eq(jobTable.id, job.id));
+}
+
+/**
+ * Record a failed attempt: retry with backoff, or dead-letter the job
+ */
+export async function failJob(job: Job, error: unknown): Promise<void> {
+	const lastError = error instanceof Error ? error.message : String(error);
+	const exhausted = job.attempts >= job.maxAttempts;
+
+	await db
+		.update(jobTable)
+		.set({
+			status: exhausted ? JobStatus.dead : JobStatus.pending,
+			runAt: exhausted
+				? job.runAt
+				: new Date(Date.now() + getBackoffDelay(job.attempts)),
+			lastError,
+			lockedAt: null,
+			lockedBy: null,
+		})
+		.where(eq(jobTable.id, job.id));
+
+	if (exhausted) {
+		logger.error(
+			{ jobId: job.id, type: job.type, attempts: job.attempts, error },
+			"Job dead-lettered",
+		);
+	} else {
+		logger.warn(
+			{ jobId: job.id, type: job.type, attempts: job.attempts, error },
+			"Job failed, retrying",
+		);
+	}
+}
+
+/**
+ * Put a dead-lettered job back in the queue with a fresh set of attempts
+ */
+export async function requeueJob(jobId: string): Promise<Job | null> {
+	const [job] = await db
+		.update(jobTable)
+		.set({
+			status: JobStatus.pending,
+			attempts: 0,
+			runAt: new Date(),
+			lastError: null,
+		})
+		.where(and(eq(jobTable.id, jobId), eq(jobTable.status, JobStatus.dead)))
+		.returning();
+
+	return job ?? null;
+}
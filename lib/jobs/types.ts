@@ -0,0 +1,74 @@
+import type { JobType } from "@/lib/db/schema/enums";
+import type { jobTable } from "@/lib/db/schema/tables";
+
+/**
+ * Background job types shared by the queue, the handlers and the worker
+ */
+
+export type Job = typeof jobTable.$inferSelect;
+
+/**
+ * Payload stored (as JSON) for each job type
+ */
+export interface JobPayloads {
+	ai_reply: {
+		conversationId: string;
+		contactId: string;
+		channel: string;
+		/** Inbound message being answered */
+		messageId: string;
+		content: string;
+	};
+	message_delivery: {
+		messageId: string;
+	};
+	form_webhook: {
+		url: string;
+		body: Record<string, unknown>;
+	};
+	inventory_sync: {
+		syncConfigId: string;
+	};
+	knowledge_ingest: {
+		documentId: string;
+	};
+	meeting_reminder: {
+		meetingId: string;
+		/** Start time the reminder was scheduled for (skipped after a reschedule) */
+		startsAt: string;
+	};
+	webhook_delivery: {
+		deliveryId: string;
+	};
+	data_import: {
+		importId: string;
+	};
+	duplicate_scan: {
+		/** Scan the job belongs to, e.g. the date of a scheduled scan */
+		runId: string;
+		/** Last contact id of the previous batch (null = first batch) */
+		cursor: string | null;
+	};
+	heat_score_recalculation: {
+		/** heat_score_run the job belongs to */
+		runId: string;
+		/** Last contact id of the previous batch (null = first batch) */
+		cursor: string | null;
+	};
+}
+
+export type JobHandler<TType extends JobType = JobType> = (
+	payload: JobPayloads[TType],
+	job: Job,
+) => Promise<void>;
+
+export interface EnqueueJobInput<TType extends JobType> {
+	type: TType;
+	/** Scopes the per-organization concurrency limit (null = unlimited) */
+	organizationId: string | null;
+	payload: JobPayloads[TType];
+	runAt?: Date;
+	maxAttempts?: number;
+	/** Skips the insert when a job with this key already exists */
+	uniqueKey?: string;
+}
@@ -0,0 +1,88 @@
+import { randomUUID } from "node:crypto";
+import { jobsConfig } from "@/config/jobs.config";
+import { logger } from "@/lib/logger";
+import { runJob } from "./handlers";
+import { claimJobs, completeJob, failJob } from "./queue";
+
+/**
+ * Job Worker - Claims due jobs and runs them.
+ *
+ * Runs either as an in-process poll loop (JOB_WORKER_ENABLED) or one batch at
+ * a time from the cron route and right after webhooks are acknowledged.
+ */
+
+const workerId = `worker-${randomUUID()}`;
+
+/**
+ * Claim and run one batch of due jobs. Returns the number of jobs processed.
+ */
+export async function runWorkerBatch(
+	limit: number = jobsConfig.batchSize,
+): Promise<number> {
+	const jobs = await claimJobs(workerId, limit);
+
+	await Promise.all(
+		jobs.map(async (job) => {
+			try {
+				await runJob(job);
+				await completeJob(job);
+			} catch (error) {
+				await failJob(job, error);
+			}
+		}),
+	);
+
+	return jobs.length;
+}
+
+/**
+ * Run a batch without throwing, for use with `after()` in route handlers
+ */
+export async function triggerWorker(): Promise<void> {
+	try {
+		await runWorkerBatch();
+	} catch (error) {
+		logger.error({ error, workerId }, "Failed to run job batch");
+	}
+}
+
+/**
+ * Run batches until the queue is drained or the time budget is spent
+ */
+export async function drainQueue(budgetMs: number): Promise<number> {
+	const deadline = Date.now() + budgetMs;
+	let processed = 0;
+
+	while (Date.now() < deadline) {
+		const count = await runWorkerBatch();
+		if (count === 0) break;
+		processed += count;
+	}
+
+	return processed;
+}
+
+let running = false;
+
+/**
+ * Start the in-process poll loop (long-running Node servers only)
+ */
+export function startWorker(): void {
+	if (running) return;
+	running = true;
+
+	logger.info({ workerId }, "Job worker started");
+
+	const poll = async () => {
+		try {
+			const count = await runWorkerBatch();
+			// Keep going while there is work, otherwise wait for the next poll
+			setTimeout(poll, count > 0 ? 0 : jobsConfig.pollIntervalMs);
+		} catch (error) {
+			logger.error({ error, workerId }, "Job worker batch failed");
+			setTimeout(poll, jobsConfig.pollIntervalMs);
+		}
+	};
+
+	void poll();
+}
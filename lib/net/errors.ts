@@ -0,0 +1,10 @@
+/**
+ * Error raised when a URL given by a user can't be requested from the server
+ * (not http(s), unresolvable, or resolving to a non-public address)
+ */
+export class PublicUrlError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PublicUrlError";
+	}
+}
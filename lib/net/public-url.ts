@@ -0,0 +1,122 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { PublicUrlError } from "./errors";
+
+/**
+ * Public URLs - Server-side requests to URLs given by users
+ *
+ * Webhook endpoints and knowledge URLs are requested from the server, so a
+ * host resolving to a private, loopback or link-local address (such as the
+ * cloud metadata service) would reach internal services. Every address of the
+ * host is checked before each request, and each redirect target is checked
+ * the same way before it is followed.
+ */
+
+const blockedAddresses = new BlockList();
+
+const blockedIpv4Subnets: [string, number][] = [
+	["0.0.0.0", 8], // "This" network
+	["10.0.0.0", 8], // Private
+	["100.64.0.0", 10], // Carrier-grade NAT
+	["127.0.0.0", 8], // Loopback
+	["169.254.0.0", 16], // Link-local, cloud metadata
+	["172.16.0.0", 12], // Private
+	["192.0.0.0", 24], // IETF protocol assignments
+	["192.168.0.0", 16], // Private
+	["198.18.0.0", 15], // Benchmarking
+	["224.0.0.0", 4], // Multicast
+	["240.0.0.0", 4], // Reserved, broadcast
+];
+const blockedIpv6Subnets: [string, number][] = [
+	["::", 128], // Unspecified
+	["::1", 128], // Loopback
+	["64:ff9b::", 96], // NAT64, embeds an IPv4 address
+	["fc00::", 7], // Unique local, cloud metadata
+	["fe80::", 10], // Link-local
+	["ff00::", 8], // Multicast
+];
+
+for (const [network, prefix] of blockedIpv4Subnets) {
+	blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of blockedIpv6Subnets) {
+	blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is reachable on the internet. IPv4-mapped IPv6
+ * addresses are checked as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+	const family = isIP(address);
+	if (family === 0) {
+		return false;
+	}
+	return !blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+async function resolveAddresses(hostname: string): Promise<string[]> {
+	if (isIP(hostname)) {
+		return [hostname];
+	}
+	try {
+		const records = await lookup(hostname, { all: true, verbatim: true });
+		return records.map((record) => record.address);
+	} catch {
+		throw new PublicUrlError(`Could not resolve ${hostname}`);
+	}
+}
+
+/**
+ * Parse an http(s) URL whose host only resolves to public addresses
+ */
+export async function assertPublicUrl(url: string | URL): Promise<URL> {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		throw new PublicUrlError("Enter a valid URL");
+	}
+	if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+		throw new PublicUrlError("URL must use http or https");
+	}
+
+	// IPv6 hosts keep their brackets in URL.hostname
+	const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+	const addresses = await resolveAddresses(hostname);
+	if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+		throw new PublicUrlError(`${hostname} is not a public address`);
+	}
+	return parsed;
+}
+
+/**
+ * fetch() a user-given URL. Redirects are followed up to `maxRedirects`, each
+ * target checked first. Past that the redirect response is returned as is.
+ */
+export async function fetchPublicUrl(
+	url: string,
+	init: Omit<RequestInit, "redirect"> & { maxRedirects?: number } = {},
+): Promise<Response> {
+	const { maxRedirects = 0, ...requestInit } = init;
+	let target = await assertPublicUrl(url);
+
+	for (let redirects = 0; ; redirects++) {
+		const response = await fetch(target, {
+			...requestInit,
+			redirect: "manual",
+		});
+		const location = response.headers.get("location");
+		if (
+			response.status < 300 ||
+			response.status >= 400 ||
+			!location ||
+			redirects >= maxRedirects
+		) {
+			return response;
+		}
+
+		await response.body?.cancel();
+		target = await assertPublicUrl(new URL(location, target));
+	}
+}
@@ -0,0 +1,145 @@
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type {
+	ChannelType,
+	ConversationStatus,
+	MessageContentType,
+	MessageDeliveryStatus,
+	MessageDirection,
+	MessageRole,
+} from "@/lib/db/schema/enums";
+import type { conversationTable } from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+
+/**
+ * Realtime Events - Conversation changes pushed to dashboards over SSE
+ *
+ * Events are published with Postgres NOTIFY so every server instance can
+ * forward them to its connected clients, whichever instance wrote the change.
+ */
+
+/** Postgres channel used for LISTEN / NOTIFY */
+export const REALTIME_CHANNEL = "ember_realtime";
+
+/** NOTIFY payloads are limited to 8000 bytes, longer contents are left to a refetch */
+const MAX_CONTENT_LENGTH = 2000;
+
+export interface RealtimeMessage {
+	id: string;
+	conversationId: string;
+	direction: MessageDirection;
+	role: MessageRole;
+	content: string;
+	contentType: MessageContentType;
+	channel: ChannelType;
+	deliveryStatus: MessageDeliveryStatus | null;
+	generatedByAi: boolean;
+	sentById: string | null;
+	createdAt: string;
+}
+
+export type RealtimeEvent =
+	| {
+			type: "message.created";
+			organizationId: string;
+			conversationId: string;
+			contactId: string;
+			/** Omitted when the content is too long for a notification */
+			message?: RealtimeMessage;
+	  }
+	| {
+			type: "message.status";
+			organizationId: string;
+			conversationId: string;
+			messageId: string;
+			deliveryStatus: MessageDeliveryStatus;
+			errorMessage?: string | null;
+	  }
+	| {
+			type: "conversation.updated";
+			organizationId: string;
+			conversationId: string;
+			contactId: string;
+			status: ConversationStatus;
+			transferredToHuman: boolean;
+			transferredToId: string | null;
+	  };
+
+/**
+ * Shape a saved message row for a `message.created` event
+ */
+export function toRealtimeMessage(message: {
+	id: string;
+	conversationId: string;
+	direction: MessageDirection;
+	role: MessageRole;
+	content: string;
+	contentType: MessageContentType;
+	channel: ChannelType;
+	deliveryStatus?: MessageDeliveryStatus | null;
+	generatedByAi?: boolean;
+	sentById?: string | null;
+	createdAt: Date;
+}): RealtimeMessage | undefined {
+	if (message.content.length > MAX_CONTENT_LENGTH) {
+		return undefined;
+	}
+
+	return {
+		id: message.id,
+		conversationId: message.conversationId,
+		direction: message.direction,
+		role: message.role,
+		content: message.content,
+		contentType: message.contentType,
+		channel: message.channel,
+		deliveryStatus: message.deliveryStatus ?? null,
+		generatedByAi: message.generatedByAi ?? false,
+		sentById: message.sentById ?? null,
+		createdAt: message.createdAt.toISOString(),
+	};
+}
+
+/**
+ * Publish an event to every server instance.
+ * Never throws: live updates must not break the write that triggered them.
+ */
+export async function publishRealtimeEvent(
+	event: RealtimeEvent,
+): Promise<void> {
+	try {
+		await db.execute(
+			sql`select pg_notify(${REALTIME_CHANNEL}, ${JSON.stringify(event)})`,
+		);
+	} catch (error) {
+		logger.warn(
+			{ error, type: event.type, conversationId: event.conversationId },
+			"Failed to publish realtime event",
+		);
+	}
+}
+
+/**
+ * Publish the assignment / status of a conversation after it changed
+ */
+export async function publishConversationUpdated(
+	conversation: Pick<
+		typeof conversationTable.$inferSelect,
+		| "id"
+		| "organizationId"
+		| "contactId"
+		| "status"
+		| "transferredToHuman"
+		| "transferredToId"
+	>,
+): Promise<void> {
+	await publishRealtimeEvent({
+		type: "conversation.updated",
+		organizationId: conversation.organizationId,
+		conversationId: conversation.id,
+		contactId: conversation.contactId,
+		status: conversation.status,
+		transferredToHuman: conversation.transferredToHuman,
+		transferredToId: conversation.transferredToId,
+	});
+}
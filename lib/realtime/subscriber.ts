@@ -0,0 +1,105 @@
+import "server-only";
+
+import { Client } from "pg";
+import { env } from "@/lib/env";
+import { logger } from "@/lib/logger";
+import { REALTIME_CHANNEL, type RealtimeEvent } from "./events";
+
+/**
+ * Realtime Subscriber - One LISTEN connection per server process,
+ * fanned out to the SSE streams of each organization.
+ */
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+/** Delay before reconnecting a dropped LISTEN connection */
+const RECONNECT_DELAY_MS = 5_000;
+
+const listeners = new Map<string, Set<RealtimeListener>>();
+let client: Client | null = null;
+let connecting: Promise<void> | null = null;
+
+function dispatch(payload: string | undefined): void {
+	if (!payload) return;
+
+	let event: RealtimeEvent;
+	try {
+		event = JSON.parse(payload) as RealtimeEvent;
+	} catch (error) {
+		logger.warn({ error }, "Invalid realtime event payload");
+		return;
+	}
+
+	for (const listener of listeners.get(event.organizationId) ?? []) {
+		listener(event);
+	}
+}
+
+function scheduleReconnect(): void {
+	client = null;
+	connecting = null;
+
+	setTimeout(() => {
+		if (listeners.size > 0) {
+			void ensureConnected();
+		}
+	}, RECONNECT_DELAY_MS);
+}
+
+async function ensureConnected(): Promise<void> {
+	if (client) return;
+	if (connecting) return connecting;
+
+	connecting = (async () => {
+		const listenClient = new Client({ connectionString: env.DATABASE_URL });
+
+		listenClient.on("notification", (notification) => {
+			if (notification.channel === REALTIME_CHANNEL) {
+				dispatch(notification.payload);
+			}
+		});
+
+		listenClient.on("error", (error) => {
+			logger.error({ error }, "Realtime LISTEN connection failed");
+			void listenClient.end().catch(() => {});
+			scheduleReconnect();
+		});
+
+		try {
+			await listenClient.connect();
+			await listenClient.query(`LISTEN ${REALTIME_CHANNEL}`);
+			client = listenClient;
+			connecting = null;
+		} catch (error) {
+			logger.error({ error }, "Failed to start realtime LISTEN connection");
+			scheduleReconnect();
+		}
+	})();
+
+	return connecting;
+}
+
+/**
+ * Receive the realtime events of an organization.
+ * Returns a function that removes the listener.
+ */
+export async function subscribeToOrganization(
+	organizationId: string,
+	listener: RealtimeListener,
+): Promise<() => void> {
+	let organizationListeners = listeners.get(organizationId);
+	if (!organizationListeners) {
+		organizationListeners = new Set();
+		listeners.set(organizationId, organizationListeners);
+	}
+	organizationListeners.add(listener);
+
+	await ensureConnected();
+
+	return () => {
+		organizationListeners.delete(listener);
+		if (organizationListeners.size === 0) {
+			listeners.delete(organizationId);
+		}
+	};
+}
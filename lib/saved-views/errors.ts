@@ -0,0 +1,13 @@
+/**
+ * Error raised by saved views.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class SavedViewError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "FORBIDDEN";
+
+	constructor(code: SavedViewError["code"], message: string) {
+		super(message);
+		this.name = "SavedViewError";
+		this.code = code;
+	}
+}
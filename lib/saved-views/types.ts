@@ -0,0 +1,30 @@
+import type {
+	SavedViewEntity,
+	SavedViewVisibility,
+} from "@/lib/db/schema/enums";
+import type { FilterGroup } from "@/schemas/filter.schema";
+import type { SavedViewSort } from "@/schemas/saved-view.schema";
+
+export interface SavedView {
+	id: string;
+	entity: SavedViewEntity;
+	name: string;
+	visibility: SavedViewVisibility;
+	createdById: string | null;
+	filter: FilterGroup | null;
+	/** Visible column ids in display order, empty for the default columns */
+	columns: string[];
+	sort: SavedViewSort | null;
+	/** Whether the member listing the view can change or delete it */
+	editable: boolean;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * The member using saved views. Admins can change the shared views of others.
+ */
+export interface SavedViewMember {
+	userId: string;
+	isAdmin: boolean;
+}
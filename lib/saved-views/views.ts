@@ -0,0 +1,222 @@
+import { and, asc, count, eq, or } from "drizzle-orm";
+import { savedViewsConfig } from "@/config/saved-views.config";
+import { db } from "@/lib/db";
+import {
+	type SavedViewEntity,
+	SavedViewVisibility,
+} from "@/lib/db/schema/enums";
+import { savedViewTable } from "@/lib/db/schema/tables";
+import { buildFilterCondition } from "@/lib/filters/conditions";
+import { type FilterGroup, filterGroupSchema } from "@/schemas/filter.schema";
+import type {
+	CreateSavedViewInput,
+	UpdateSavedViewInput,
+} from "@/schemas/saved-view.schema";
+import { SavedViewError } from "./errors";
+import type { SavedView, SavedViewMember } from "./types";
+
+/**
+ * Saved Views - Named filters, column layouts and sorts of the contact and
+ * lead lists
+ *
+ * Personal views are only seen by their creator. Shared views are seen by
+ * every member and changed by their creator or an admin.
+ */
+
+type SavedViewRow = typeof savedViewTable.$inferSelect;
+
+function parseFilter(value: string | null): FilterGroup | null {
+	if (!value) {
+		return null;
+	}
+	try {
+		const parsed = filterGroupSchema.safeParse(JSON.parse(value));
+		return parsed.success ? parsed.data : null;
+	} catch {
+		return null;
+	}
+}
+
+function parseColumns(value: string): string[] {
+	try {
+		const columns: unknown = JSON.parse(value);
+		return Array.isArray(columns) ? columns.map(String) : [];
+	} catch {
+		return [];
+	}
+}
+
+function isEditable(row: SavedViewRow, member: SavedViewMember): boolean {
+	return (
+		row.createdById === member.userId ||
+		(row.visibility === SavedViewVisibility.shared && member.isAdmin)
+	);
+}
+
+function toSavedView(row: SavedViewRow, member: SavedViewMember): SavedView {
+	return {
+		id: row.id,
+		entity: row.entity,
+		name: row.name,
+		visibility: row.visibility,
+		createdById: row.createdById,
+		filter: parseFilter(row.filter),
+		columns: parseColumns(row.columns),
+		sort:
+			row.sortField && row.sortOrder
+				? { field: row.sortField, order: row.sortOrder }
+				: null,
+		editable: isEditable(row, member),
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+/**
+ * Views the member can see: shared ones and their own
+ */
+function visibleTo(member: SavedViewMember) {
+	return or(
+		eq(savedViewTable.visibility, SavedViewVisibility.shared),
+		eq(savedViewTable.createdById, member.userId),
+	);
+}
+
+async function getEditableViewRow(
+	organizationId: string,
+	member: SavedViewMember,
+	viewId: string,
+): Promise<SavedViewRow> {
+	const [row] = await db
+		.select()
+		.from(savedViewTable)
+		.where(
+			and(
+				eq(savedViewTable.id, viewId),
+				eq(savedViewTable.organizationId, organizationId),
+				visibleTo(member),
+			),
+		);
+
+	if (!row) {
+		throw new SavedViewError("NOT_FOUND", "View not found");
+	}
+	if (!isEditable(row, member)) {
+		throw new SavedViewError(
+			"FORBIDDEN",
+			"Only its creator or an admin can change a shared view",
+		);
+	}
+	return row;
+}
+
+export async function listSavedViews(
+	organizationId: string,
+	member: SavedViewMember,
+	entity: SavedViewEntity,
+): Promise<SavedView[]> {
+	const rows = await db
+		.select()
+		.from(savedViewTable)
+		.where(
+			and(
+				eq(savedViewTable.organizationId, organizationId),
+				eq(savedViewTable.entity, entity),
+				visibleTo(member),
+			),
+		)
+		.orderBy(asc(savedViewTable.name), asc(savedViewTable.createdAt));
+
+	return rows.map((row) => toSavedView(row, member));
+}
+
+export async function createSavedView(
+	organizationId: string,
+	member: SavedViewMember,
+	input: CreateSavedViewInput,
+): Promise<SavedView> {
+	const [existing] = await db
+		.select({ count: count() })
+		.from(savedViewTable)
+		.where(
+			and(
+				eq(savedViewTable.organizationId, organizationId),
+				eq(savedViewTable.entity, input.entity),
+				eq(savedViewTable.createdById, member.userId),
+			),
+		);
+	if ((existing?.count ?? 0) >= savedViewsConfig.maxViewsPerUser) {
+		throw new SavedViewError(
+			"BAD_REQUEST",
+			`You can save up to ${savedViewsConfig.maxViewsPerUser} views per list`,
+		);
+	}
+
+	// Rejects unknown fields and invalid values
+	await buildFilterCondition(organizationId, input.entity, input.filter);
+
+	const [row] = await db
+		.insert(savedViewTable)
+		.values({
+			organizationId,
+			entity: input.entity,
+			name: input.name,
+			visibility: input.visibility,
+			createdById: member.userId,
+			filter: input.filter ? JSON.stringify(input.filter) : null,
+			columns: JSON.stringify(input.columns),
+			sortField: input.sort?.field ?? null,
+			sortOrder: input.sort?.order ?? null,
+		})
+		.returning();
+
+	if (!row) {
+		throw new Error("Failed to save view");
+	}
+	return toSavedView(row, member);
+}
+
+export async function updateSavedView(
+	organizationId: string,
+	member: SavedViewMember,
+	input: UpdateSavedViewInput,
+): Promise<SavedView> {
+	const row = await getEditableViewRow(organizationId, member, input.id);
+
+	if (input.filter !== undefined) {
+		await buildFilterCondition(organizationId, row.entity, input.filter);
+	}
+
+	const [updated] = await db
+		.update(savedViewTable)
+		.set({
+			...(input.name !== undefined && { name: input.name }),
+			...(input.visibility !== undefined && { visibility: input.visibility }),
+			...(input.filter !== undefined && {
+				filter: input.filter ? JSON.stringify(input.filter) : null,
+			}),
+			...(input.columns !== undefined && {
+				columns: JSON.stringify(input.columns),
+			}),
+			...(input.sort !== undefined && {
+				sortField: input.sort?.field ?? null,
+				sortOrder: input.sort?.order ?? null,
+			}),
+		})
+		.where(eq(savedViewTable.id, row.id))
+		.returning();
+
+	if (!updated) {
+		throw new SavedViewError("NOT_FOUND", "View not found");
+	}
+	return toSavedView(updated, member);
+}
+
+export async function deleteSavedView(
+	organizationId: string,
+	member: SavedViewMember,
+	viewId: string,
+): Promise<void> {
+	const row = await getEditableViewRow(organizationId, member, viewId);
+	await db.delete(savedViewTable).where(eq(savedViewTable.id, row.id));
+}
@@ -1,4 +1,5 @@
 import {
+	DeleteObjectCommand,
 	GetObjectCommand,
 	PutObjectCommand,
 	S3Client,
@@ -76,6 +77,7 @@ function getS3Client(): S3Client {
 export async function getSignedUploadUrl(
 	path: string,
 	bucket: string,
+	contentType = "image/jpeg",
 ): Promise<string> {
 	const safePath = validatePath(path);
 	const s3 = getS3Client();
@@ -85,7 +87,7 @@ export async function getSignedUploadUrl(
 			new PutObjectCommand({
 				Bucket: bucket,
 				Key: safePath,
-				ContentType: "image/jpeg",
+				ContentType: contentType,
 			}),
 			{ expiresIn: 60 },
 		);
@@ -114,3 +116,55 @@ export async function getSignedUrl(
 		throw new Error("Could not generate signed download URL");
 	}
 }
+
+export async function putObject(
+	path: string,
+	bucket: string,
+	body: Uint8Array,
+	contentType: string,
+): Promise<void> {
+	const safePath = validatePath(path);
+	const s3 = getS3Client();
+	await s3.send(
+		new PutObjectCommand({
+			Bucket: bucket,
+			Key: safePath,
+			Body: body,
+			ContentType: contentType,
+		}),
+	);
+}
+
+export async function getObject(
+	path: string,
+	bucket: string,
+): Promise<Uint8Array> {
+	const safePath = validatePath(path);
+	const s3 = getS3Client();
+	const response = await s3.send(
+		new GetObjectCommand({
+			Bucket: bucket,
+			Key: safePath,
+		}),
+	);
+
+	if (!response.Body) {
+		throw new Error("Object has no content");
+	}
+
+	return response.Body.transformToByteArray();
+}
+
+export async function deleteObject(
+	path: string,
+	bucket: string,
+): Promise<void> {
+	const safePath = validatePath(path);
+	const s3 = getS3Client();
+	await s3.send(
+		new DeleteObjectCommand({
+			Bucket: bucket,
+			Key: safePath,
+		}),
+	);
+}
@@ -0,0 +1,289 @@
+import { and, desc, eq, getTableColumns, lt } from "drizzle-orm";
+import { webhooksConfig } from "@/config/webhooks.config";
+import { db } from "@/lib/db";
+import {
+	WebhookDeliveryStatus,
+	type WebhookEventType,
+} from "@/lib/db/schema/enums";
+import {
+	webhookDeliveryTable,
+	webhookEndpointTable,
+} from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+import { fetchPublicUrl } from "@/lib/net/public-url";
+import type { ListWebhookDeliveriesInput } from "@/schemas/webhook.schema";
+import {
+	getWebhookEndpoint,
+	getWebhookSecret,
+	type WebhookEndpoint,
+} from "./endpoints";
+import { WebhookError } from "./errors";
+import { buildWebhookEvent, queueWebhookDelivery } from "./events";
+import { webhookSamples } from "./samples";
+import { getWebhookHeaders } from "./signing";
+
+/**
+ * Webhook Delivery - Signed POST of an event to an endpoint
+ *
+ * Deliveries run in the job worker: a failed attempt throws so the queue
+ * retries with backoff, and the delivery is marked failed after the last
+ * attempt. Any 2xx response is a success, redirects are not followed and
+ * endpoints resolving to private addresses are refused.
+ */
+
+type WebhookDelivery = typeof webhookDeliveryTable.$inferSelect;
+
+interface AttemptResult {
+	ok: boolean;
+	responseStatus: number | null;
+	responseBody: string | null;
+	error: string | null;
+	durationMs: number;
+}
+
+async function attemptDelivery(
+	endpoint: WebhookEndpoint,
+	delivery: Pick<WebhookDelivery, "id" | "eventId" | "eventType" | "payload">,
+): Promise<AttemptResult> {
+	const startedAt = Date.now();
+
+	try {
+		const response = await fetchPublicUrl(endpoint.url, {
+			method: "POST",
+			headers: getWebhookHeaders({
+				secret: getWebhookSecret(endpoint),
+				body: delivery.payload,
+				eventId: delivery.eventId,
+				eventType: delivery.eventType,
+				deliveryId: delivery.id,
+			}),
+			body: delivery.payload,
+			signal: AbortSignal.timeout(webhooksConfig.timeoutMs),
+		});
+		const responseBody = (await response.text().catch(() => "")).slice(
+			0,
+			webhooksConfig.maxResponseBodyLength,
+		);
+
+		return {
+			ok: response.ok,
+			responseStatus: response.status,
+			responseBody,
+			error: response.ok ? null : `Endpoint responded with ${response.status}`,
+			durationMs: Date.now() - startedAt,
+		};
+	} catch (error) {
+		const timedOut =
+			error instanceof DOMException && error.name === "TimeoutError";
+
+		return {
+			ok: false,
+			responseStatus: null,
+			responseBody: null,
+			error: timedOut
+				? `No response within ${webhooksConfig.timeoutMs / 1000}s`
+				: error instanceof Error
+					? error.message
+					: "Request failed",
+			durationMs: Date.now() - startedAt,
+		};
+	}
+}
+
+async function recordAttempt(
+	delivery: WebhookDelivery,
+	result: AttemptResult,
+	isLastAttempt: boolean,
+): Promise<WebhookDelivery> {
+	const now = new Date();
+	const [updated] = await db
+		.update(webhookDeliveryTable)
+		.set({
+			status: result.ok
+				? WebhookDeliveryStatus.succeeded
+				: isLastAttempt
+					? WebhookDeliveryStatus.failed
+					: WebhookDeliveryStatus.pending,
+			attempts: delivery.attempts + 1,
+			responseStatus: result.responseStatus,
+			responseBody: result.responseBody,
+			error: result.error,
+			durationMs: result.durationMs,
+			lastAttemptAt: now,
+			deliveredAt: result.ok ? now : null,
+		})
+		.where(eq(webhookDeliveryTable.id, delivery.id))
+		.returning();
+
+	return updated ?? delivery;
+}
+
+/**
+ * Run one attempt of a queued delivery (job handler).
+ * Throws when the attempt failed and should be retried.
+ */
+export async function processWebhookDelivery(
+	deliveryId: string,
+	isLastAttempt: boolean,
+): Promise<void> {
+	const [delivery] = await db
+		.select({ row: webhookDeliveryTable, endpoint: webhookEndpointTable })
+		.from(webhookDeliveryTable)
+		.innerJoin(
+			webhookEndpointTable,
+			eq(webhookDeliveryTable.endpointId, webhookEndpointTable.id),
+		)
+		.where(eq(webhookDeliveryTable.id, deliveryId));
+
+	// Deleted with its endpoint, or already delivered
+	if (!delivery || delivery.row.status === WebhookDeliveryStatus.succeeded) {
+		return;
+	}
+
+	const { row, endpoint } = delivery;
+	if (!endpoint.active) {
+		await db
+			.update(webhookDeliveryTable)
+			.set({
+				status: WebhookDeliveryStatus.failed,
+				error: "Endpoint is disabled",
+			})
+			.where(eq(webhookDeliveryTable.id, row.id));
+		return;
+	}
+
+	const result = await attemptDelivery(endpoint, row);
+	await recordAttempt(row, result, isLastAttempt);
+
+	if (!result.ok) {
+		logger.warn(
+			{
+				deliveryId,
+				endpointId: endpoint.id,
+				status: result.responseStatus,
+				error: result.error,
+				isLastAttempt,
+			},
+			"Webhook delivery failed",
+		);
+		throw new Error(result.error ?? "Webhook delivery failed");
+	}
+}
+
+/**
+ * Send a sample event to an endpoint right away, without retries.
+ * The delivery is logged as a test.
+ */
+export async function sendTestWebhook(
+	organizationId: string,
+	endpointId: string,
+	eventType: WebhookEventType,
+): Promise<WebhookDelivery> {
+	const endpoint = await getWebhookEndpoint(organizationId, endpointId);
+	const event = buildWebhookEvent({
+		organizationId,
+		type: eventType,
+		data: webhookSamples[eventType],
+	});
+
+	const [delivery] = await db
+		.insert(webhookDeliveryTable)
+		.values({
+			organizationId,
+			endpointId,
+			eventId: event.id,
+			eventType,
+			payload: JSON.stringify(event),
+			isTest: true,
+		})
+		.returning();
+
+	if (!delivery) {
+		throw new Error("Failed to create webhook delivery");
+	}
+
+	return recordAttempt(
+		delivery,
+		await attemptDelivery(endpoint, delivery),
+		true,
+	);
+}
+
+/**
+ * Send a logged event again, as a new delivery with the same event id
+ */
+export async function replayWebhookDelivery(
+	organizationId: string,
+	deliveryId: string,
+): Promise<WebhookDelivery> {
+	const [delivery] = await db
+		.select({
+			...getTableColumns(webhookDeliveryTable),
+			endpointActive: webhookEndpointTable.active,
+		})
+		.from(webhookDeliveryTable)
+		.innerJoin(
+			webhookEndpointTable,
+			eq(webhookDeliveryTable.endpointId, webhookEndpointTable.id),
+		)
+		.where(
+			and(
+				eq(webhookDeliveryTable.id, deliveryId),
+				eq(webhookDeliveryTable.organizationId, organizationId),
+			),
+		);
+
+	if (!delivery) {
+		throw new WebhookError("NOT_FOUND", "Webhook delivery not found");
+	}
+	if (!delivery.endpointActive) {
+		throw new WebhookError(
+			"BAD_REQUEST",
+			"Enable the endpoint before replaying its deliveries",
+		);
+	}
+
+	return queueWebhookDelivery({
+		organizationId,
+		endpointId: delivery.endpointId,
+		eventId: delivery.eventId,
+		eventType: delivery.eventType,
+		payload: delivery.payload,
+		isTest: delivery.isTest,
+		replayOfId: delivery.id,
+	});
+}
+
+/**
+ * Delivery log of an endpoint, newest first
+ */
+export async function listWebhookDeliveries(
+	organizationId: string,
+	input: ListWebhookDeliveriesInput,
+) {
+	const deliveries = await db
+		.select()
+		.from(webhookDeliveryTable)
+		.where(
+			and(
+				eq(webhookDeliveryTable.organizationId, organizationId),
+				eq(webhookDeliveryTable.endpointId, input.endpointId),
+				input.status
+					? eq(webhookDeliveryTable.status, input.status)
+					: undefined,
+				input.before
+					? lt(webhookDeliveryTable.createdAt, input.before)
+					: undefined,
+			),
+		)
+		.orderBy(desc(webhookDeliveryTable.createdAt))
+		.limit(webhooksConfig.deliveryLogPageSize + 1);
+
+	const hasMore = deliveries.length > webhooksConfig.deliveryLogPageSize;
+	const items = deliveries.slice(0, webhooksConfig.deliveryLogPageSize);
+
+	return {
+		items,
+		nextBefore: hasMore ? (items.at(-1)?.createdAt ?? null) : null,
+	};
+}
@@ -0,0 +1,269 @@
+import { and, count, desc, eq } from "drizzle-orm";
+import { webhooksConfig } from "@/config/webhooks.config";
+import { recordCredentialChange } from "@/lib/credentials/audit";
+import {
+	decryptCredentials,
+	encryptCredentials,
+	getCredentialsKeyId,
+} from "@/lib/credentials/vault";
+import { db } from "@/lib/db";
+import {
+	CredentialAuditAction,
+	CredentialResourceType,
+	type WebhookEventType,
+	WebhookEventTypes,
+} from "@/lib/db/schema/enums";
+import { userTable, webhookEndpointTable } from "@/lib/db/schema/tables";
+import { logger } from "@/lib/logger";
+import { PublicUrlError } from "@/lib/net/errors";
+import { assertPublicUrl } from "@/lib/net/public-url";
+import type {
+	CreateWebhookEndpointInput,
+	UpdateWebhookEndpointInput,
+} from "@/schemas/webhook.schema";
+import { WebhookError } from "./errors";
+import { generateWebhookSecret } from "./signing";
+
+/**
+ * Webhook Endpoints - Organization URLs subscribed to events
+ *
+ * Signing secrets are encrypted by the credentials vault. The plain secret is
+ * returned on creation and rotation only.
+ */
+
+export type WebhookEndpoint = typeof webhookEndpointTable.$inferSelect;
+
+/**
+ * Subscribed events stored on an endpoint, unknown values are dropped
+ */
+export function parseWebhookEvents(value: string): WebhookEventType[] {
+	try {
+		const events: unknown = JSON.parse(value);
+		if (!Array.isArray(events)) return [];
+		return WebhookEventTypes.filter((event) => events.includes(event));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Plain signing secret of an endpoint
+ */
+export function getWebhookSecret(endpoint: Pick<WebhookEndpoint, "secret">) {
+	const { secret } = decryptCredentials(endpoint.secret);
+	if (typeof secret !== "string") {
+		throw new Error("Webhook endpoint has no signing secret");
+	}
+	return secret;
+}
+
+/**
+ * Refuse endpoint URLs whose host resolves to a private address
+ */
+async function assertEndpointUrl(url: string): Promise<void> {
+	try {
+		await assertPublicUrl(url);
+	} catch (error) {
+		if (error instanceof PublicUrlError) {
+			throw new WebhookError("BAD_REQUEST", error.message);
+		}
+		throw error;
+	}
+}
+
+export async function getWebhookEndpoint(
+	organizationId: string,
+	endpointId: string,
+): Promise<WebhookEndpoint> {
+	const endpoint = await db.query.webhookEndpointTable.findFirst({
+		where: and(
+			eq(webhookEndpointTable.id, endpointId),
+			eq(webhookEndpointTable.organizationId, organizationId),
+		),
+	});
+
+	if (!endpoint) {
+		throw new WebhookError("NOT_FOUND", "Webhook endpoint not found");
+	}
+	return endpoint;
+}
+
+export async function listWebhookEndpoints(organizationId: string) {
+	const endpoints = await db
+		.select({
+			id: webhookEndpointTable.id,
+			url: webhookEndpointTable.url,
+			description: webhookEndpointTable.description,
+			events: webhookEndpointTable.events,
+			active: webhookEndpointTable.active,
+			createdAt: webhookEndpointTable.createdAt,
+			createdBy: userTable.name,
+		})
+		.from(webhookEndpointTable)
+		.leftJoin(userTable, eq(webhookEndpointTable.createdById, userTable.id))
+		.where(eq(webhookEndpointTable.organizationId, organizationId))
+		.orderBy(desc(webhookEndpointTable.createdAt));
+
+	return endpoints.map((endpoint) => ({
+		...endpoint,
+		events: parseWebhookEvents(endpoint.events),
+	}));
+}
+
+/**
+ * Create an endpoint. The returned `secret` can't be shown again.
+ */
+export async function createWebhookEndpoint(
+	organizationId: string,
+	input: CreateWebhookEndpointInput,
+	actorId: string,
+) {
+	const [existing] = await db
+		.select({ count: count() })
+		.from(webhookEndpointTable)
+		.where(eq(webhookEndpointTable.organizationId, organizationId));
+	if ((existing?.count ?? 0) >= webhooksConfig.maxEndpointsPerOrganization) {
+		throw new WebhookError(
+			"BAD_REQUEST",
+			`An organization can have up to ${webhooksConfig.maxEndpointsPerOrganization} webhook endpoints`,
+		);
+	}
+
+	await assertEndpointUrl(input.url);
+
+	const secret = generateWebhookSecret();
+	const encryptedSecret = encryptCredentials({ secret });
+
+	const [endpoint] = await db
+		.insert(webhookEndpointTable)
+		.values({
+			organizationId,
+			url: input.url,
+			description: input.description ?? null,
+			events: JSON.stringify(input.events),
+			secret: encryptedSecret,
+			createdById: actorId,
+		})
+		.returning({ id: webhookEndpointTable.id });
+
+	if (!endpoint) {
+		throw new Error("Failed to create webhook endpoint");
+	}
+
+	await recordCredentialChange({
+		organizationId,
+		resourceType: CredentialResourceType.webhookEndpoint,
+		resourceId: endpoint.id,
+		action: CredentialAuditAction.created,
+		fields: ["secret"],
+		keyId: getCredentialsKeyId(encryptedSecret),
+		actorId,
+	});
+
+	logger.info(
+		{ organizationId, endpointId: endpoint.id, events: input.events },
+		"Webhook endpoint created",
+	);
+
+	return { id: endpoint.id, secret };
+}
+
+export async function updateWebhookEndpoint(
+	organizationId: string,
+	input: UpdateWebhookEndpointInput,
+): Promise<void> {
+	const { id, events, ...data } = input;
+	if (data.url) {
+		await assertEndpointUrl(data.url);
+	}
+
+	const [updated] = await db
+		.update(webhookEndpointTable)
+		.set({
+			...data,
+			...(events && { events: JSON.stringify(events) }),
+		})
+		.where(
+			and(
+				eq(webhookEndpointTable.id, id),
+				eq(webhookEndpointTable.organizationId, organizationId),
+			),
+		)
+		.returning({ id: webhookEndpointTable.id });
+
+	if (!updated) {
+		throw new WebhookError("NOT_FOUND", "Webhook endpoint not found");
+	}
+}
+
+/**
+ * Delete an endpoint with its delivery log. Queued deliveries are dropped.
+ */
+export async function deleteWebhookEndpoint(
+	organizationId: string,
+	endpointId: string,
+	actorId: string,
+): Promise<void> {
+	const [deleted] = await db
+		.delete(webhookEndpointTable)
+		.where(
+			and(
+				eq(webhookEndpointTable.id, endpointId),
+				eq(webhookEndpointTable.organizationId, organizationId),
+			),
+		)
+		.returning({ id: webhookEndpointTable.id });
+
+	if (!deleted) {
+		throw new WebhookError("NOT_FOUND", "Webhook endpoint not found");
+	}
+
+	await recordCredentialChange({
+		organizationId,
+		resourceType: CredentialResourceType.webhookEndpoint,
+		resourceId: endpointId,
+		action: CredentialAuditAction.deleted,
+		fields: ["secret"],
+		actorId,
+	});
+}
+
+/**
+ * Replace the signing secret. Requests are signed with the new secret right
+ * away, including retries of earlier events.
+ */
+export async function rotateWebhookSecret(
+	organizationId: string,
+	endpointId: string,
+	actorId: string,
+) {
+	const secret = generateWebhookSecret();
+	const encryptedSecret = encryptCredentials({ secret });
+
+	const [updated] = await db
+		.update(webhookEndpointTable)
+		.set({ secret: encryptedSecret })
+		.where(
+			and(
+				eq(webhookEndpointTable.id, endpointId),
+				eq(webhookEndpointTable.organizationId, organizationId),
+			),
+		)
+		.returning({ id: webhookEndpointTable.id });
+
+	if (!updated) {
+		throw new WebhookError("NOT_FOUND", "Webhook endpoint not found");
+	}
+
+	await recordCredentialChange({
+		organizationId,
+		resourceType: CredentialResourceType.webhookEndpoint,
+		resourceId: endpointId,
+		action: CredentialAuditAction.updated,
+		fields: ["secret"],
+		keyId: getCredentialsKeyId(encryptedSecret),
+		actorId,
+	});
+
+	return { secret };
+}
@@ -0,0 +1,13 @@
+/**
+ * Error raised by webhook endpoint management.
+ * `code` matches the tRPC error code the dashboard should receive.
+ */
+export class WebhookError extends Error {
+	public readonly code: "NOT_FOUND" | "BAD_REQUEST" | "CONFLICT";
+
+	constructor(code: WebhookError["code"], message: string) {
+		super(message);
+		this.name = "WebhookError";
+		this.code = code;
+	}
+}
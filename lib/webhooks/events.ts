@@ -0,0 +1,196 @@
+import crypto from "node:crypto";
+import { and, eq } from "drizzle-orm";
+import { webhooksConfig } from "@/config/webhooks.config";
+import {
+	toApiConversation,
+	toApiLead,
+	toApiMessage,
+} from "@/lib/api/serializers";
+import { db } from "@/lib/db";
+import {
+	JobType,
+	type LeadStatus,
+	WebhookEventType,
+} from "@/lib/db/schema/enums";
+import {
+	type conversationMessageTable,
+	type conversationTable,
+	type leadTable,
+	webhookDeliveryTable,
+	webhookEndpointTable,
+} from "@/lib/db/schema/tables";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import { parseWebhookEvents } from "./endpoints";
+import type { EmitWebhookEventInput, WebhookEvent } from "./types";
+
+/**
+ * Webhook Events - Fan an event out to the subscribed endpoints
+ *
+ * Each subscribed endpoint gets a delivery row and a queued job, so emitting
+ * never waits on the network. Pass a transaction as `executor` to only send
+ * the event if the change that caused it is committed.
+ */
+
+/** Anything that can read and insert: the db client or an open transaction */
+type WebhookExecutor = Pick<typeof db, "select" | "insert">;
+
+export function buildWebhookEvent<TType extends WebhookEventType>(
+	input: EmitWebhookEventInput<TType>,
+): WebhookEvent<TType> {
+	return {
+		id: crypto.randomUUID(),
+		type: input.type,
+		createdAt: new Date().toISOString(),
+		organizationId: input.organizationId,
+		data: input.data,
+	};
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to its type.
+ * Returns the number of deliveries queued.
+ */
+export async function emitWebhookEvent<TType extends WebhookEventType>(
+	input: EmitWebhookEventInput<TType>,
+	executor: WebhookExecutor = db,
+): Promise<number> {
+	const endpoints = await executor
+		.select({
+			id: webhookEndpointTable.id,
+			events: webhookEndpointTable.events,
+		})
+		.from(webhookEndpointTable)
+		.where(
+			and(
+				eq(webhookEndpointTable.organizationId, input.organizationId),
+				eq(webhookEndpointTable.active, true),
+			),
+		);
+
+	const subscribed = endpoints.filter((endpoint) =>
+		parseWebhookEvents(endpoint.events).includes(input.type),
+	);
+	if (subscribed.length === 0) {
+		return 0;
+	}
+
+	const event = buildWebhookEvent(input);
+	const payload = JSON.stringify(event);
+
+	for (const endpoint of subscribed) {
+		await queueWebhookDelivery(
+			{
+				organizationId: input.organizationId,
+				endpointId: endpoint.id,
+				eventId: event.id,
+				eventType: event.type,
+				payload,
+			},
+			executor,
+		);
+	}
+
+	logger.info(
+		{
+			organizationId: input.organizationId,
+			eventId: event.id,
+			type: input.type,
+			endpoints: subscribed.length,
+		},
+		"Webhook event emitted",
+	);
+
+	return subscribed.length;
+}
+
+/**
+ * Create a delivery and the job sending it
+ */
+export async function queueWebhookDelivery(
+	delivery: {
+		organizationId: string;
+		endpointId: string;
+		eventId: string;
+		eventType: WebhookEventType;
+		payload: string;
+		isTest?: boolean;
+		replayOfId?: string;
+	},
+	executor: Pick<typeof db, "insert"> = db,
+) {
+	const [row] = await executor
+		.insert(webhookDeliveryTable)
+		.values(delivery)
+		.returning();
+
+	if (!row) {
+		throw new Error("Failed to create webhook delivery");
+	}
+
+	await enqueueJob(
+		{
+			type: JobType.webhookDelivery,
+			organizationId: delivery.organizationId,
+			payload: { deliveryId: row.id },
+			maxAttempts: webhooksConfig.maxAttempts,
+			uniqueKey: `webhook_delivery:${row.id}`,
+		},
+		executor,
+	);
+
+	return row;
+}
+
+/**
+ * Emit `lead.status_changed` when a lead moved to another status
+ */
+export async function emitLeadStatusChanged(
+	lead: typeof leadTable.$inferSelect,
+	previousStatus: LeadStatus,
+	executor: WebhookExecutor = db,
+): Promise<void> {
+	if (lead.status === previousStatus) {
+		return;
+	}
+
+	await emitWebhookEvent(
+		{
+			organizationId: lead.organizationId,
+			type: WebhookEventType.leadStatusChanged,
+			data: { lead: toApiLead(lead), previousStatus },
+		},
+		executor,
+	);
+}
+
+/**
+ * Emit `conversation.transferred` when a conversation is handed to the team
+ */
+export async function emitConversationTransferred(
+	conversation: typeof conversationTable.$inferSelect,
+): Promise<void> {
+	await emitWebhookEvent({
+		organizationId: conversation.organizationId,
+		type: WebhookEventType.conversationTransferred,
+		data: {
+			conversation: toApiConversation(conversation),
+			reason: conversation.transferReason,
+		},
+	});
+}
+
+/**
+ * Emit `message.received` for a saved inbound message
+ */
+export async function emitMessageReceived(
+	organizationId: string,
+	contactId: string,
+	message: typeof conversationMessageTable.$inferSelect,
+): Promise<void> {
+	await emitWebhookEvent({
+		organizationId,
+		type: WebhookEventType.messageReceived,
+		data: { message: toApiMessage(message), contactId },
+	});
+}
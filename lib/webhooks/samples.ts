@@ -0,0 +1,128 @@
+import {
+	ContactStatus,
+	ConversationStatus,
+	LeadSource,
+	LeadStatus,
+	QuoteStatus,
+	WebhookEventType,
+} from "@/lib/db/schema/enums";
+import type { WebhookEventPayloads } from "./types";
+
+/**
+ * Sample `data` of each event type, sent by the test button of an endpoint
+ */
+
+const SAMPLE_DATE = "2026-01-15T10:30:00.000Z";
+const SAMPLE_CONTACT_ID = "00000000-0000-4000-8000-000000000001";
+const SAMPLE_CONVERSATION_ID = "00000000-0000-4000-8000-000000000002";
+
+const sampleContact: WebhookEventPayloads["contact.created"]["contact"] = {
+	id: SAMPLE_CONTACT_ID,
+	firstName: "Jane",
+	lastName: "Doe",
+	email: "jane.doe@example.com",
+	phone: "+15555550100",
+	company: "Example Inc.",
+	timezone: null,
+	language: "en",
+	channelPreference: null,
+	assignedToId: null,
+	customFields: null,
+	tags: ["sample"],
+	status: ContactStatus.active,
+	heatScore: 42,
+	lastInteractionAt: SAMPLE_DATE,
+	createdAt: SAMPLE_DATE,
+	updatedAt: SAMPLE_DATE,
+};
+
+export const webhookSamples: {
+	[TType in WebhookEventType]: WebhookEventPayloads[TType];
+} = {
+	[WebhookEventType.contactCreated]: {
+		contact: sampleContact,
+	},
+	[WebhookEventType.leadStatusChanged]: {
+		lead: {
+			id: "00000000-0000-4000-8000-000000000003",
+			firstName: "Jane",
+			lastName: "Doe",
+			email: "jane.doe@example.com",
+			phone: "+15555550100",
+			company: "Example Inc.",
+			jobTitle: null,
+			status: LeadStatus.qualified,
+			source: LeadSource.website,
+			estimatedValue: 5000,
+			notes: null,
+			customFields: null,
+			assignedToId: null,
+			contactId: SAMPLE_CONTACT_ID,
+			createdAt: SAMPLE_DATE,
+			updatedAt: SAMPLE_DATE,
+		},
+		previousStatus: LeadStatus.contacted,
+	},
+	[WebhookEventType.conversationTransferred]: {
+		conversation: {
+			id: SAMPLE_CONVERSATION_ID,
+			contactId: SAMPLE_CONTACT_ID,
+			status: ConversationStatus.active,
+			channel: "whatsapp",
+			handledByAi: true,
+			transferredToHuman: true,
+			messageCount: 6,
+			summary: null,
+			sentiment: null,
+			lastMessageAt: SAMPLE_DATE,
+			closedAt: null,
+			createdAt: SAMPLE_DATE,
+			updatedAt: SAMPLE_DATE,
+		},
+		reason: "Customer requested human assistance",
+	},
+	[WebhookEventType.messageReceived]: {
+		message: {
+			id: "00000000-0000-4000-8000-000000000004",
+			conversationId: SAMPLE_CONVERSATION_ID,
+			direction: "inbound",
+			role: "user",
+			content: "Hi, do you ship internationally?",
+			contentType: "text",
+			channel: "whatsapp",
+			mediaUrl: null,
+			generatedByAi: false,
+			createdAt: SAMPLE_DATE,
+		},
+		contactId: SAMPLE_CONTACT_ID,
+	},
+	[WebhookEventType.formSubmitted]: {
+		form: { id: "00000000-0000-4000-8000-000000000005", name: "Contact us" },
+		submission: {
+			id: "00000000-0000-4000-8000-000000000006",
+			contactId: SAMPLE_CONTACT_ID,
+			data: {
+				name: "Jane Doe",
+				email: "jane.doe@example.com",
+				message: "I'd like a demo",
+			},
+			submittedAt: SAMPLE_DATE,
+		},
+	},
+	[WebhookEventType.quoteAccepted]: {
+		quote: {
+			id: "00000000-0000-4000-8000-000000000007",
+			number: "Q-00000001",
+			status: QuoteStatus.accepted,
+			contactId: SAMPLE_CONTACT_ID,
+			conversationId: SAMPLE_CONVERSATION_ID,
+			currency: "usd",
+			subtotal: 50000,
+			discountTotal: 5000,
+			total: 45000,
+			validUntil: null,
+			respondedAt: SAMPLE_DATE,
+			createdAt: SAMPLE_DATE,
+		},
+	},
+};
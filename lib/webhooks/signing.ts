@@ -0,0 +1,56 @@
+import crypto from "node:crypto";
+import { appConfig } from "@/config/app.config";
+import { webhooksConfig } from "@/config/webhooks.config";
+
+/**
+ * Webhook signatures
+ *
+ * Each request carries `Ember-Signature: t=<unix seconds>,v1=<hex>`, where v1
+ * is the HMAC-SHA256 of `<t>.<raw body>` with the endpoint secret. Receivers
+ * recompute it and reject old timestamps to prevent replays by third parties.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "Ember-Signature";
+
+export function generateWebhookSecret(): string {
+	return `${webhooksConfig.secretPrefix}${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+export function signWebhookPayload(
+	secret: string,
+	body: string,
+	timestamp: number,
+): string {
+	const signature = crypto
+		.createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`)
+		.digest("hex");
+	return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Headers of a delivery request
+ */
+export function getWebhookHeaders(params: {
+	secret: string;
+	body: string;
+	eventId: string;
+	eventType: string;
+	deliveryId: string;
+	timestamp?: number;
+}): Record<string, string> {
+	const timestamp = params.timestamp ?? Math.floor(Date.now() / 1000);
+
+	return {
+		"Content-Type": "application/json",
+		"User-Agent": `${appConfig.appName}-Webhooks/1.0`,
+		"Ember-Event": params.eventType,
+		"Ember-Event-Id": params.eventId,
+		"Ember-Delivery-Id": params.deliveryId,
+		[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+			params.secret,
+			params.body,
+			timestamp,
+		),
+	};
+}
@@ -0,0 +1,80 @@
+import type { LeadStatus, WebhookEventType } from "@/lib/db/schema/enums";
+import type {
+	ApiContact,
+	ApiConversation,
+	ApiLead,
+	ApiMessage,
+} from "@/schemas/api.schema";
+
+/**
+ * Webhook event types shared by the emitters and the delivery worker.
+ * Resources use the same shape as the public REST API.
+ */
+
+export interface WebhookQuote {
+	id: string;
+	number: string;
+	status: string;
+	contactId: string;
+	conversationId: string | null;
+	currency: string;
+	/** In cents */
+	subtotal: number;
+	discountTotal: number;
+	total: number;
+	validUntil: string | null;
+	respondedAt: string | null;
+	createdAt: string;
+}
+
+/**
+ * `data` of each event type
+ */
+export interface WebhookEventPayloads {
+	"contact.created": {
+		contact: ApiContact;
+	};
+	"lead.status_changed": {
+		lead: ApiLead;
+		previousStatus: LeadStatus;
+	};
+	"conversation.transferred": {
+		conversation: ApiConversation;
+		reason: string | null;
+	};
+	"message.received": {
+		message: ApiMessage;
+		contactId: string;
+	};
+	"form.submitted": {
+		form: { id: string; name: string };
+		submission: {
+			id: string;
+			contactId: string;
+			data: Record<string, unknown>;
+			submittedAt: string;
+		};
+	};
+	"quote.accepted": {
+		quote: WebhookQuote;
+	};
+}
+
+export interface EmitWebhookEventInput<TType extends WebhookEventType> {
+	organizationId: string;
+	type: TType;
+	data: WebhookEventPayloads[TType];
+}
+
+/**
+ * JSON body POSTed to the endpoints
+ */
+export interface WebhookEvent<
+	TType extends WebhookEventType = WebhookEventType,
+> {
+	id: string;
+	type: TType;
+	createdAt: string;
+	organizationId: string;
+	data: WebhookEventPayloads[TType];
+}
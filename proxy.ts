@@ -130,13 +130,14 @@ export default async function proxy(req: NextRequest) {
 	}
 
 	// If marketing is disabled, redirect to dashboard
-	// Skip API routes and special paths
+	// Skip API routes and special paths (public quote pages included)
 	if (!appConfig.site.marketing.enabled) {
 		const isMarketingPath =
 			!pathname.startsWith("/dashboard") &&
 			!pathname.startsWith("/auth") &&
 			!pathname.startsWith("/api") &&
-			!pathname.startsWith("/storage");
+			!pathname.startsWith("/storage") &&
+			!pathname.startsWith("/quote");
 
 		if (isMarketingPath) {
 			return NextResponse.redirect(new URL("/dashboard", origin));
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+
+// Create an organization API key
+export const createApiKeySchema = z.object({
+	name: z.string().trim().min(1, "Name is required").max(100),
+	scopes: z.array(z.enum(ApiKeyScope)).min(1, "Select at least one permission"),
+	// Never expires when empty
+	expiresAt: z.coerce.date().optional().nullable(),
+});
+
+// API key by id (revoke)
+export const apiKeyIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Type exports
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { apiConfig } from "@/config/api.config";
+import {
+	ChannelType,
+	ContactStatus,
+	ConversationStatus,
+	LeadSource,
+	LeadStatus,
+	MessageContentType,
+	MessageDirection,
+	MessageRole,
+} from "@/lib/db/schema/enums";
+import { contactSchema, createContactSchema } from "@/schemas/contact.schema";
+import { createFormSchema, formFieldSchema } from "@/schemas/form.schema";
+import {
+	createLeadSchema,
+	updateLeadSchema,
+} from "@/schemas/organization-lead-schemas";
+import { productSchema } from "@/schemas/product.schema";
+
+/**
+ * Public REST API (v1) - Request and response bodies
+ *
+ * Built from the dashboard schemas so both stay in sync, and used to generate
+ * the OpenAPI document (lib/api/openapi).
+ */
+
+const timestamp = z.iso.datetime();
+
+// Cursor pagination query parameters
+export const apiPageQuerySchema = z.object({
+	cursor: z.string().optional(),
+	limit: z.coerce
+		.number()
+		.int()
+		.min(1)
+		.max(apiConfig.maxPageSize)
+		.default(apiConfig.defaultPageSize),
+});
+
+// A page of results, `nextCursor` is null on the last page
+export function apiPageSchema<T extends z.ZodType>(item: T) {
+	return z.object({
+		data: z.array(item),
+		nextCursor: z.string().nullable(),
+	});
+}
+
+export const apiErrorSchema = z.object({
+	error: z.object({
+		code: z.string(),
+		message: z.string(),
+		issues: z
+			.array(z.object({ path: z.string(), message: z.string() }))
+			.optional(),
+	}),
+});
+
+// Contacts
+export const apiListContactsSchema = apiPageQuerySchema.extend({
+	status: z.enum(ContactStatus).optional(),
+	email: z.string().optional(),
+});
+
+export const apiCreateContactSchema = createContactSchema.omit({
+	organizationId: true,
+	sourceType: true,
+});
+
+export const apiUpdateContactSchema = contactSchema.partial();
+
+export const apiContactSchema = contactSchema.extend({
+	id: z.string().uuid(),
+	heatScore: z.number().int(),
+	lastInteractionAt: timestamp.nullable(),
+	createdAt: timestamp,
+	updatedAt: timestamp,
+});
+
+// Leads
+export const apiListLeadsSchema = apiPageQuerySchema.extend({
+	status: z.enum(LeadStatus).optional(),
+	source: z.enum(LeadSource).optional(),
+	contactId: z.string().uuid().optional(),
+});
+
+export const apiCreateLeadSchema = createLeadSchema;
+
+export const apiUpdateLeadSchema = updateLeadSchema.omit({ id: true });
+
+export const apiLeadSchema = createLeadSchema.extend({
+	id: z.string().uuid(),
+	email: z.string().nullable(),
+	phone: z.string().nullable(),
+	company: z.string().nullable(),
+	jobTitle: z.string().nullable(),
+	estimatedValue: z.number().nullable(),
+	notes: z.string().nullable(),
+	customFields: z.record(z.string(), z.unknown()).nullable(),
+	assignedToId: z.string().uuid().nullable(),
+	contactId: z.string().uuid().nullable(),
+	createdAt: timestamp,
+	updatedAt: timestamp,
+});
+
+// Conversations
+export const apiListConversationsSchema = apiPageQuerySchema.extend({
+	status: z.enum(ConversationStatus).optional(),
+	channel: z.enum(ChannelType).optional(),
+	contactId: z.string().uuid().optional(),
+});
+
+export const apiConversationSchema = z.object({
+	id: z.string().uuid(),
+	contactId: z.string().uuid(),
+	status: z.enum(ConversationStatus),
+	channel: z.enum(ChannelType),
+	handledByAi: z.boolean(),
+	transferredToHuman: z.boolean(),
+	messageCount: z.number().int(),
+	summary: z.string().nullable(),
+	sentiment: z.string().nullable(),
+	lastMessageAt: timestamp.nullable(),
+	closedAt: timestamp.nullable(),
+	createdAt: timestamp,
+	updatedAt: timestamp,
+});
+
+export const apiMessageSchema = z.object({
+	id: z.string().uuid(),
+	conversationId: z.string().uuid(),
+	direction: z.enum(MessageDirection),
+	role: z.enum(MessageRole),
+	content: z.string(),
+	contentType: z.enum(MessageContentType),
+	channel: z.enum(ChannelType),
+	mediaUrl: z.string().nullable(),
+	generatedByAi: z.boolean(),
+	createdAt: timestamp,
+});
+
+// Forms
+export const apiListFormsSchema = apiPageQuerySchema.extend({
+	active: z.enum(["true", "false"]).optional(),
+});
+
+export const apiFormSchema = createFormSchema
+	.pick({ name: true, description: true, slug: true })
+	.extend({
+		id: z.string().uuid(),
+		fields: z.array(formFieldSchema),
+		active: z.boolean(),
+		views: z.number().int(),
+		submissions: z.number().int(),
+		publishedAt: timestamp.nullable(),
+		createdAt: timestamp,
+		updatedAt: timestamp,
+	});
+
+// Products
+export const apiListProductsSchema = apiPageQuerySchema.extend({
+	active: z.enum(["true", "false"]).optional(),
+	categoryId: z.string().uuid().optional(),
+});
+
+export const apiProductSchema = productSchema.extend({
+	id: z.string().uuid(),
+	createdAt: timestamp,
+	updatedAt: timestamp,
+});
+
+// Type exports
+export type ApiPageQuery = z.infer<typeof apiPageQuerySchema>;
+export type ApiListContactsInput = z.infer<typeof apiListContactsSchema>;
+export type ApiCreateContactInput = z.infer<typeof apiCreateContactSchema>;
+export type ApiUpdateContactInput = z.infer<typeof apiUpdateContactSchema>;
+export type ApiContact = z.infer<typeof apiContactSchema>;
+export type ApiListLeadsInput = z.infer<typeof apiListLeadsSchema>;
+export type ApiCreateLeadInput = z.infer<typeof apiCreateLeadSchema>;
+export type ApiUpdateLeadInput = z.infer<typeof apiUpdateLeadSchema>;
+export type ApiLead = z.infer<typeof apiLeadSchema>;
+export type ApiListConversationsInput = z.infer<
+	typeof apiListConversationsSchema
+>;
+export type ApiConversation = z.infer<typeof apiConversationSchema>;
+export type ApiMessage = z.infer<typeof apiMessageSchema>;
+export type ApiListFormsInput = z.infer<typeof apiListFormsSchema>;
+export type ApiForm = z.infer<typeof apiFormSchema>;
+export type ApiListProductsInput = z.infer<typeof apiListProductsSchema>;
+export type ApiProduct = z.infer<typeof apiProductSchema>;
@@ -1,5 +1,7 @@
 import { z } from "zod";
-import { ChannelType } from "@/lib/db/schema/enums";
+import { AfterHoursAction, ChannelType } from "@/lib/db/schema/enums";
+
+const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
 // Channel configuration schemas
 export const channelConfigSchema = z.object({
@@ -13,9 +15,13 @@ export const channelConfigSchema = z.object({
 		ChannelType.web,
 	]),
 	enabled: z.boolean().default(true),
+	// Secrets are write-only: a masked value (or omitting the field) keeps the stored secret
 	credentials: z.record(z.string(), z.unknown()),
 	autoReply: z.boolean().default(false),
 	businessHoursOnly: z.boolean().default(false),
+	// Only applies when businessHoursOnly is set
+	afterHoursAction: z.enum(AfterHoursAction).optional(),
+	awayMessage: z.string().trim().max(1000).optional().nullable(),
 });
 
 export const updateChannelConfigSchema = channelConfigSchema.partial().extend({
@@ -54,6 +60,47 @@ export const testChannelSchema = z.object({
 	]),
 });
 
+// Organization business hours, used by channels that auto-reply during business hours only
+export const updateBusinessHoursSchema = z.object({
+	timezone: z
+		.string()
+		.min(1)
+		.refine((timezone) => {
+			try {
+				new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+				return true;
+			} catch {
+				return false;
+			}
+		}, "Unknown timezone"),
+	// Keyed by weekday, 0 = Sunday
+	weeklyHours: z.record(
+		z.enum(["0", "1", "2", "3", "4", "5", "6"]),
+		z
+			.array(
+				z
+					.object({
+						start: z.string().regex(timePattern),
+						end: z.string().regex(timePattern),
+					})
+					.refine((range) => range.start < range.end, {
+						message: "End must be after start",
+					}),
+			)
+			.max(4),
+	),
+	holidays: z
+		.array(
+			z.object({
+				date: z.iso.date(),
+				name: z.string().trim().max(100).optional(),
+			}),
+		)
+		.max(100)
+		.default([]),
+	awayMessage: z.string().trim().max(1000).optional().nullable(),
+});
+
 // Send message schema
 export const sendMessageSchema = z.object({
 	conversationId: z.string().uuid(),
@@ -71,4 +118,7 @@ export type UpdateChannelConfigInput = z.infer<
 >;
 export type GetChannelConfigInput = z.infer<typeof getChannelConfigSchema>;
 export type TestChannelInput = z.infer<typeof testChannelSchema>;
+export type UpdateBusinessHoursInput = z.infer<
+	typeof updateBusinessHoursSchema
+>;
 export type SendMessageInput = z.infer<typeof sendMessageSchema>;
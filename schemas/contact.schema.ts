@@ -6,6 +6,12 @@ import {
 	ContactSourceType,
 	ContactStatus,
 } from "@/lib/db/schema/enums";
+import {
+	customFieldFiltersSchema,
+	customFieldKeySchema,
+} from "@/schemas/custom-field.schema";
+import { filterGroupSchema } from "@/schemas/filter.schema";
+import { TagMatch } from "@/schemas/tag.schema";
 
 // Base contact schema
 export const contactSchema = z.object({
@@ -69,6 +75,7 @@ export const listContactsSchema = z.object({
 	minHeatScore: z.number().min(0).max(100).optional(),
 	maxHeatScore: z.number().min(0).max(100).optional(),
 	tags: z.array(z.string()).optional(),
+	tagMatch: TagMatch.default("any"),
 	sourceType: z
 		.enum([
 			ContactSourceType.form,
@@ -79,11 +86,17 @@ export const listContactsSchema = z.object({
 			ContactSourceType.email,
 			ContactSourceType.manual,
 			ContactSourceType.api,
+			ContactSourceType.import,
 		])
 		.optional(),
+	customFields: customFieldFiltersSchema.optional(),
+	// Filter builder conditions, combined with the filters above
+	filter: filterGroupSchema.optional(),
 	orderBy: z
 		.enum(["heatScore", "lastInteractionAt", "createdAt", "firstName"])
 		.default("lastInteractionAt"),
+	// Sort on a custom field first, then on orderBy
+	orderByCustomField: customFieldKeySchema.optional(),
 	orderDirection: z.enum(["asc", "desc"]).default("desc"),
 });
 
@@ -95,6 +108,11 @@ export const mergeContactsSchema = z.object({
 		.min(1, "At least one duplicate required"),
 });
 
+// Unmerge contacts schema
+export const unmergeContactsSchema = z.object({
+	mergeId: z.string().uuid(),
+});
+
 // Detect duplicates schema
 export const detectDuplicatesSchema = z.object({
 	email: z.string().email().optional(),
@@ -170,6 +188,7 @@ export type CreateContactInput = z.infer<typeof createContactSchema>;
 export type UpdateContactInput = z.infer<typeof updateContactSchema>;
 export type ListContactsInput = z.infer<typeof listContactsSchema>;
 export type MergeContactsInput = z.infer<typeof mergeContactsSchema>;
+export type UnmergeContactsInput = z.infer<typeof unmergeContactsSchema>;
 export type DetectDuplicatesInput = z.infer<typeof detectDuplicatesSchema>;
 export type CreateContactNoteInput = z.infer<typeof createContactNoteSchema>;
 export type UpdateContactNoteInput = z.infer<typeof updateContactNoteSchema>;
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { ChannelType, ConversationStatus } from "@/lib/db/schema/enums";
+
+// Human inbox assignment filter
+export const InboxAssignment = z.enum(["all", "mine", "unassigned"]);
+export type InboxAssignment = z.infer<typeof InboxAssignment>;
+
+// List transferred conversations
+export const listInboxConversationsSchema = z.object({
+	limit: z.number().min(1).max(100).default(50),
+	offset: z.number().min(0).default(0),
+	assignment: InboxAssignment.default("all"),
+	unreadOnly: z.boolean().default(false),
+	filters: z
+		.object({
+			channel: z.array(z.enum(ChannelType)).optional(),
+			status: z.array(z.enum(ConversationStatus)).optional(),
+		})
+		.optional(),
+});
+
+// Single conversation actions (get, claim, release, hand back, close, mark read)
+export const conversationIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Human agent reply
+export const replyToConversationSchema = z.object({
+	conversationId: z.string().uuid(),
+	content: z
+		.string()
+		.trim()
+		.min(1, "Message content is required")
+		.max(4096, "Message is too long"),
+	contentType: z
+		.enum(["text", "image", "audio", "video", "document"])
+		.default("text"),
+	mediaUrl: z.string().url().optional(),
+});
+
+// Export types
+export type ListInboxConversationsInput = z.infer<
+	typeof listInboxConversationsSchema
+>;
+export type ConversationIdInput = z.infer<typeof conversationIdSchema>;
+export type ReplyToConversationInput = z.infer<
+	typeof replyToConversationSchema
+>;
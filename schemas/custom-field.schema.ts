@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { customFieldsConfig } from "@/config/custom-fields.config";
+import { CustomFieldEntity, CustomFieldType } from "@/lib/db/schema/enums";
+
+// Key of a value in the custom_fields JSON of a contact or lead
+export const customFieldKeySchema = z
+	.string()
+	.trim()
+	.min(1, "Key is required")
+	.max(64, "Key is too long")
+	.regex(
+		/^[a-z][a-z0-9_]*$/,
+		"Use lowercase letters, numbers and underscores, starting with a letter",
+	);
+
+const customFieldOptionsSchema = z
+	.array(z.string().trim().min(1).max(customFieldsConfig.maxOptionLength))
+	.max(customFieldsConfig.maxOptions, "Too many options");
+
+// Define a custom field, the key and type can't change afterwards
+export const createCustomFieldSchema = z.object({
+	entity: z.enum(CustomFieldEntity),
+	key: customFieldKeySchema,
+	label: z
+		.string()
+		.trim()
+		.min(1, "Label is required")
+		.max(100, "Label is too long"),
+	type: z.enum(CustomFieldType),
+	options: customFieldOptionsSchema.default([]),
+	currency: z
+		.string()
+		.trim()
+		.regex(/^[A-Za-z]{3}$/, "Use a 3 letter currency code")
+		.transform((currency) => currency.toUpperCase())
+		.optional()
+		.nullable(),
+	required: z.boolean().default(false),
+});
+
+export const updateCustomFieldSchema = z.object({
+	id: z.string().uuid(),
+	label: createCustomFieldSchema.shape.label.optional(),
+	options: customFieldOptionsSchema.optional(),
+	currency: createCustomFieldSchema.shape.currency,
+	required: z.boolean().optional(),
+});
+
+// Custom field by id (delete)
+export const customFieldIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Custom fields of the organization, optionally of a single entity
+export const listCustomFieldsSchema = z.object({
+	entity: z.enum(CustomFieldEntity).optional(),
+});
+
+// Display order of the fields of an entity
+export const reorderCustomFieldsSchema = z.object({
+	entity: z.enum(CustomFieldEntity),
+	ids: z.array(z.string().uuid()).min(1),
+});
+
+// Operators of custom field filters, see lib/custom-fields/filters
+export const CustomFieldFilterOperator = z.enum([
+	"equals", // Any of the values when given a list
+	"notEquals",
+	"contains", // Text and URL fields, or multi-select fields having an option
+	"greaterThan", // Number, currency and date fields
+	"lessThan",
+	"isEmpty",
+	"isNotEmpty",
+]);
+export type CustomFieldFilterOperator = z.infer<
+	typeof CustomFieldFilterOperator
+>;
+
+// Filter on a custom field of contacts or leads, the value is converted to
+// the type of the field
+export const customFieldFilterSchema = z.object({
+	key: customFieldKeySchema,
+	operator: CustomFieldFilterOperator,
+	value: z
+		.union([
+			z.string().max(customFieldsConfig.maxTextLength),
+			z
+				.array(z.string().max(customFieldsConfig.maxTextLength))
+				.max(customFieldsConfig.maxOptions),
+		])
+		.optional(),
+});
+
+export const customFieldFiltersSchema = z
+	.array(customFieldFilterSchema)
+	.max(customFieldsConfig.maxFilters);
+
+// Type exports
+export type CreateCustomFieldInput = z.infer<typeof createCustomFieldSchema>;
+export type UpdateCustomFieldInput = z.infer<typeof updateCustomFieldSchema>;
+export type ReorderCustomFieldsInput = z.infer<
+	typeof reorderCustomFieldsSchema
+>;
+export type CustomFieldFilter = z.infer<typeof customFieldFilterSchema>;
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { duplicatesConfig } from "@/config/duplicates.config";
+import {
+	DuplicateCandidateStatus,
+	DuplicateCandidateStatuses,
+} from "@/lib/db/schema/enums";
+
+// Contact fields the reviewer picks a winner for when merging a duplicate
+export const MergeableContactFields = [
+	"firstName",
+	"lastName",
+	"email",
+	"phone",
+	"company",
+	"timezone",
+	"channelPreference",
+	"language",
+] as const;
+export type MergeableContactField = (typeof MergeableContactFields)[number];
+
+export const listDuplicateCandidatesSchema = z.object({
+	status: z
+		.enum(DuplicateCandidateStatuses)
+		.default(DuplicateCandidateStatus.pending),
+	page: z.number().int().min(0).default(0),
+	// Pairs of one contact only
+	contactId: z.string().uuid().optional(),
+});
+
+export const contactDuplicatesSchema = z.object({
+	contactId: z.string().uuid(),
+});
+
+export const duplicateCandidateIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+export const mergeDuplicateCandidateSchema = z.object({
+	id: z.string().uuid(),
+	// Contact kept, the other one is merged into it
+	primaryId: z.string().uuid(),
+	// Contact whose value wins, per field. Missing fields keep the primary's
+	// value, or the other contact's when the primary has none.
+	fields: z
+		.partialRecord(z.enum(MergeableContactFields), z.string().uuid())
+		.default({}),
+});
+
+export const updateDuplicateSettingsSchema = z.object({
+	autoMergeEnabled: z.boolean(),
+	autoMergeConfidence: z
+		.number()
+		.int()
+		.min(duplicatesConfig.minAutoMergeConfidence)
+		.max(100),
+	scanEnabled: z.boolean(),
+});
+
+export type ListDuplicateCandidatesInput = z.infer<
+	typeof listDuplicateCandidatesSchema
+>;
+export type MergeDuplicateCandidateInput = z.infer<
+	typeof mergeDuplicateCandidateSchema
+>;
+export type UpdateDuplicateSettingsInput = z.infer<
+	typeof updateDuplicateSettingsSchema
+>;
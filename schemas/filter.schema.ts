@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { savedViewsConfig } from "@/config/saved-views.config";
+import {
+	CustomFieldFilterOperator,
+	customFieldFilterSchema,
+} from "@/schemas/custom-field.schema";
+
+// How the conditions and groups of a filter group are combined
+export const FilterCombinator = z.enum(["and", "or"]);
+export type FilterCombinator = z.infer<typeof FilterCombinator>;
+
+// Condition on a standard field (e.g. "status") or on a custom field
+// ("customFields.<key>"), see lib/filters
+export const filterConditionSchema = z.object({
+	type: z.literal("condition"),
+	field: z.string().min(1).max(100),
+	operator: CustomFieldFilterOperator,
+	value: customFieldFilterSchema.shape.value,
+});
+export type FilterCondition = z.infer<typeof filterConditionSchema>;
+
+export type FilterGroup = {
+	type: "group";
+	combinator: FilterCombinator;
+	children: (FilterCondition | FilterGroup)[];
+};
+
+// Nested AND / OR groups of conditions
+export const filterGroupSchema: z.ZodType<FilterGroup> = z.object({
+	type: z.literal("group"),
+	combinator: FilterCombinator,
+	get children() {
+		return z
+			.array(z.union([filterConditionSchema, filterGroupSchema]))
+			.max(savedViewsConfig.maxFilterConditions);
+	},
+});
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { ContactSourceType } from "@/lib/db/schema/enums";
+import { customFieldKeySchema } from "@/schemas/custom-field.schema";
 
 // Form field schema
 export const formFieldSchema = z.object({
@@ -21,6 +22,8 @@ export const formFieldSchema = z.object({
 	validation: z.string().optional(), // Validation rules
 	options: z.array(z.string()).optional(), // For select, radio, checkbox
 	defaultValue: z.unknown().optional(),
+	// Contact custom field the answer is saved to
+	customField: customFieldKeySchema.optional(),
 	conditionalLogic: z
 		.object({
 			show: z.boolean(),
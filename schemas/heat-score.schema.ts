@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { heatScoreConfig } from "@/config/heat-score.config";
+import { ChannelTypes, HeatScoreSignalType } from "@/lib/db/schema/enums";
+
+// Points of a signal at full strength. Negative weights lower the score.
+const weightSchema = z.number().int().min(-100).max(100);
+
+// Value at which a scaled signal gives its full weight
+const targetSchema = z.number().int().min(1);
+
+export const heatScoreSignalSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal(HeatScoreSignalType.recency),
+		weight: weightSchema,
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.interactions),
+		weight: weightSchema,
+		target: targetSchema,
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.lifetimeValue),
+		weight: weightSchema,
+		target: targetSchema, // in cents
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.responseTime),
+		weight: weightSchema,
+		target: targetSchema, // in seconds
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.formSubmitted),
+		weight: weightSchema,
+		// Any form when null
+		formId: z.string().uuid().nullable(),
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.quoteAccepted),
+		weight: weightSchema,
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.tag),
+		weight: weightSchema,
+		tag: z.string().trim().toLowerCase().min(1).max(50),
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.channel),
+		weight: weightSchema,
+		channel: z.enum(ChannelTypes),
+	}),
+	z.object({
+		type: z.literal(HeatScoreSignalType.customField),
+		weight: weightSchema,
+		key: z.string().trim().min(1).max(100),
+		// Any value when empty
+		value: z.string().trim().max(200),
+	}),
+]);
+
+export const heatScoreModelSchema = z
+	.object({
+		decayHalfLifeDays: z
+			.number()
+			.int()
+			.min(1)
+			.max(heatScoreConfig.maxDecayHalfLifeDays),
+		hotThreshold: z.number().int().min(1).max(100),
+		warmThreshold: z.number().int().min(0).max(99),
+		signals: z
+			.array(heatScoreSignalSchema)
+			.min(1, "Add at least one signal")
+			.max(heatScoreConfig.maxSignals),
+	})
+	.refine((model) => model.warmThreshold < model.hotThreshold, {
+		message: "Warm contacts must start below hot contacts",
+		path: ["warmThreshold"],
+	});
+
+export const contactScoreHistorySchema = z.object({
+	contactId: z.string().uuid(),
+});
+
+export type HeatScoreSignal = z.infer<typeof heatScoreSignalSchema>;
+export type HeatScoreModel = z.infer<typeof heatScoreModelSchema>;
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { importsConfig } from "@/config/imports.config";
+import { ImportDuplicateAction, ImportEntity } from "@/lib/db/schema/enums";
+
+// Signed URL to upload a CSV / Excel file before creating the import
+export const createImportUploadUrlSchema = z.object({
+	fileName: z.string().min(1).max(255),
+	mimeType: z.enum(importsConfig.allowedMimeTypes as [string, ...string[]]),
+	fileSize: z
+		.number()
+		.int()
+		.positive()
+		.max(importsConfig.maxFileSizeBytes, "File is too large"),
+});
+
+// Register an uploaded file, its columns are detected right away
+export const createImportSchema = createImportUploadUrlSchema.extend({
+	entity: z.enum(ImportEntity),
+	path: z.string().min(1),
+});
+
+// Import by id (get, error report, delete)
+export const importIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Recent imports, optionally of a single entity
+export const listImportsSchema = z.object({
+	entity: z.enum(ImportEntity).optional(),
+});
+
+// Target field per column of the file, null to ignore the column
+export const previewImportSchema = z.object({
+	id: z.string().uuid(),
+	mapping: z.array(z.string().min(1).max(100).nullable()),
+});
+
+// What to do with a previewed row matching existing contacts
+export const importRowDecisionSchema = z.object({
+	rowNumber: z.number().int().min(2),
+	action: z.enum(ImportDuplicateAction),
+	// Contact to merge into, the best match when omitted
+	contactId: z.string().uuid().optional(),
+});
+
+// Process the import with the previewed mapping
+export const startImportSchema = z.object({
+	id: z.string().uuid(),
+	// Rows matching existing contacts without a decision
+	duplicateAction: z.enum(ImportDuplicateAction),
+	decisions: z
+		.array(importRowDecisionSchema)
+		.max(importsConfig.previewRowCount),
+});
+
+// Type exports
+export type CreateImportUploadUrlInput = z.infer<
+	typeof createImportUploadUrlSchema
+>;
+export type CreateImportInput = z.infer<typeof createImportSchema>;
+export type PreviewImportInput = z.infer<typeof previewImportSchema>;
+export type ImportRowDecision = z.infer<typeof importRowDecisionSchema>;
+export type StartImportInput = z.infer<typeof startImportSchema>;
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { knowledgeConfig } from "@/config/knowledge.config";
+import { KnowledgeDocumentStatus } from "@/lib/db/schema/enums";
+
+// List knowledge documents
+export const listKnowledgeDocumentsSchema = z.object({
+	limit: z.number().min(1).max(100).default(50),
+	offset: z.number().min(0).default(0),
+	// Documents of one agent (shared documents are always included)
+	agentId: z.string().uuid().optional(),
+	status: z.array(z.enum(KnowledgeDocumentStatus)).optional(),
+});
+
+// Signed URL for uploading a file to the knowledge bucket
+export const createKnowledgeUploadUrlSchema = z.object({
+	fileName: z.string().min(1).max(255),
+	mimeType: z.enum(knowledgeConfig.allowedMimeTypes as [string, ...string[]]),
+	fileSize: z
+		.number()
+		.int()
+		.positive()
+		.max(knowledgeConfig.maxFileSizeBytes, "File is too large"),
+});
+
+// Register an uploaded file or a web page
+export const createKnowledgeDocumentSchema = z.object({
+	title: z.string().trim().min(1).max(200).optional(),
+	// Null = shared by every agent
+	agentId: z.string().uuid().optional().nullable(),
+	source: z.discriminatedUnion("type", [
+		z.object({
+			type: z.literal("file"),
+			path: z.string().min(1),
+			fileName: z.string().min(1).max(255),
+			mimeType: z.enum(
+				knowledgeConfig.allowedMimeTypes as [string, ...string[]],
+			),
+			fileSize: z.number().int().positive(),
+		}),
+		z.object({
+			type: z.literal("url"),
+			// Its host is also checked to be public on the server (assertPublicUrl)
+			url: z
+				.string()
+				.url()
+				.refine((url) => /^https?:\/\//i.test(url), "Only http(s) URLs"),
+		}),
+	]),
+});
+
+// Single document actions (reprocess, delete)
+export const knowledgeDocumentIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Type exports
+export type ListKnowledgeDocumentsInput = z.infer<
+	typeof listKnowledgeDocumentsSchema
+>;
+export type CreateKnowledgeUploadUrlInput = z.infer<
+	typeof createKnowledgeUploadUrlSchema
+>;
+export type CreateKnowledgeDocumentInput = z.infer<
+	typeof createKnowledgeDocumentSchema
+>;
+export type KnowledgeDocumentIdInput = z.infer<
+	typeof knowledgeDocumentIdSchema
+>;
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { MeetingStatus } from "@/lib/db/schema/enums";
+
+const timePattern = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const timezoneSchema = z
+	.string()
+	.min(1)
+	.refine((timezone) => {
+		try {
+			new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+			return true;
+		} catch {
+			return false;
+		}
+	}, "Unknown timezone");
+
+// List meetings
+export const listMeetingsSchema = z.object({
+	limit: z.number().min(1).max(100).default(50),
+	offset: z.number().min(0).default(0),
+	contactId: z.string().uuid().optional(),
+	status: z.array(z.enum(MeetingStatus)).optional(),
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+});
+
+// Free slots of the current user to offer a contact
+export const proposeMeetingSlotsSchema = z.object({
+	contactId: z.string().uuid(),
+	conversationId: z.string().uuid().optional().nullable(),
+	title: z.string().trim().min(1).max(200),
+	durationMinutes: z.number().int().min(15).max(240).optional(),
+	from: z.coerce.date().optional(),
+});
+
+// Book a meeting hosted by the current user
+export const bookMeetingSchema = z.object({
+	contactId: z.string().uuid(),
+	conversationId: z.string().uuid().optional().nullable(),
+	// Pending proposal or confirmed meeting to (re)schedule
+	meetingId: z.string().uuid().optional(),
+	start: z.coerce.date(),
+	durationMinutes: z.number().int().min(15).max(240).optional(),
+	title: z.string().trim().min(1).max(200),
+	description: z.string().trim().max(2000).optional().nullable(),
+	location: z.string().trim().max(500).optional().nullable(),
+	meetingUrl: z.string().url().optional().nullable(),
+});
+
+// Cancel a meeting
+export const cancelMeetingSchema = z.object({
+	id: z.string().uuid(),
+	reason: z.string().trim().max(1000).optional(),
+});
+
+// Whose availability: an agent, the current user, or the organization default
+export const availabilityOwnerSchema = z.object({
+	owner: z.discriminatedUnion("type", [
+		z.object({ type: z.literal("organization") }),
+		z.object({ type: z.literal("user") }),
+		z.object({ type: z.literal("agent"), agentId: z.string().uuid() }),
+	]),
+});
+
+// Working hours and booking rules
+export const updateAvailabilitySchema = availabilityOwnerSchema.extend({
+	timezone: timezoneSchema,
+	// Keyed by weekday, 0 = Sunday
+	workingHours: z.record(
+		z.enum(["0", "1", "2", "3", "4", "5", "6"]),
+		z
+			.array(
+				z
+					.object({
+						start: z.string().regex(timePattern),
+						end: z.string().regex(timePattern),
+					})
+					.refine((range) => range.start < range.end, {
+						message: "End must be after start",
+					}),
+			)
+			.max(4),
+	),
+	slotDurationMinutes: z.number().int().min(15).max(240),
+	bufferMinutes: z.number().int().min(0).max(120),
+	minNoticeMinutes: z
+		.number()
+		.int()
+		.min(0)
+		.max(7 * 24 * 60),
+	maxDaysAhead: z.number().int().min(1).max(365),
+});
+
+// Type exports
+export type ListMeetingsInput = z.infer<typeof listMeetingsSchema>;
+export type ProposeMeetingSlotsInput = z.infer<
+	typeof proposeMeetingSlotsSchema
+>;
+export type BookMeetingInput = z.infer<typeof bookMeetingSchema>;
+export type CancelMeetingInput = z.infer<typeof cancelMeetingSchema>;
+export type AvailabilityOwnerInput = z.infer<typeof availabilityOwnerSchema>;
+export type UpdateAvailabilityInput = z.infer<typeof updateAvailabilitySchema>;
@@ -1,5 +1,10 @@
 import { z } from "zod/v4";
 import { LeadSource, LeadStatus } from "@/lib/db/schema/enums";
+import {
+	customFieldFiltersSchema,
+	customFieldKeySchema,
+} from "@/schemas/custom-field.schema";
+import { filterGroupSchema } from "@/schemas/filter.schema";
 
 // Sortable fields for leads
 export const LeadSortField = z.enum([
@@ -19,6 +24,8 @@ export const listLeadsSchema = z.object({
 	offset: z.number().min(0).default(0),
 	query: z.string().optional(),
 	sortBy: LeadSortField.default("createdAt"),
+	// Sort on a custom field first, then on sortBy
+	sortByCustomField: customFieldKeySchema.optional(),
 	sortOrder: z.enum(["asc", "desc"]).default("asc"),
 	filters: z
 		.object({
@@ -27,8 +34,11 @@ export const listLeadsSchema = z.object({
 			createdAt: z
 				.array(z.enum(["today", "this-week", "this-month", "older"]))
 				.optional(),
+			customFields: customFieldFiltersSchema.optional(),
 		})
 		.optional(),
+	// Filter builder conditions, combined with the filters above
+	filter: filterGroupSchema.optional(),
 });
 
 // Create lead
@@ -56,6 +66,8 @@ export const createLeadSchema = z.object({
 	estimatedValue: z.number().min(0).optional(),
 	notes: z.string().trim().max(5000, "Notes are too long").optional(),
 	assignedToId: z.string().uuid().optional(),
+	// Validated against the custom fields of the organization
+	customFields: z.record(z.string(), z.unknown()).optional(),
 });
 
 // Update lead
@@ -107,6 +119,7 @@ export const updateLeadSchema = z.object({
 		.optional()
 		.nullable(),
 	assignedToId: z.string().uuid().optional().nullable(),
+	customFields: z.record(z.string(), z.unknown()).optional().nullable(),
 });
 
 // Delete lead
@@ -125,6 +138,20 @@ export const bulkUpdateLeadsStatusSchema = z.object({
 	status: z.nativeEnum(LeadStatus),
 });
 
+// Convert a contact to a lead
+export const convertContactToLeadSchema = z.object({
+	contactId: z.string().uuid(),
+	status: z.nativeEnum(LeadStatus).optional(),
+	source: z.nativeEnum(LeadSource).optional(),
+	assignedToId: z.string().uuid().optional().nullable(),
+});
+
+// Link a lead to a contact (null unlinks it)
+export const linkLeadContactSchema = z.object({
+	id: z.string().uuid(),
+	contactId: z.string().uuid().nullable(),
+});
+
 // Export leads
 export const exportLeadsSchema = z.object({
 	leadIds: z.array(z.string().uuid()).min(1),
@@ -139,4 +166,8 @@ export type BulkDeleteLeadsInput = z.infer<typeof bulkDeleteLeadsSchema>;
 export type BulkUpdateLeadsStatusInput = z.infer<
 	typeof bulkUpdateLeadsStatusSchema
 >;
+export type ConvertContactToLeadInput = z.infer<
+	typeof convertContactToLeadSchema
+>;
+export type LinkLeadContactInput = z.infer<typeof linkLeadContactSchema>;
 export type ExportLeadsInput = z.infer<typeof exportLeadsSchema>;
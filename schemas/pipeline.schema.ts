@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { PipelineStageType } from "@/lib/db/schema/enums";
+
+// Stage settings
+export const pipelineStageInputSchema = z.object({
+	name: z.string().trim().min(1, "Name is required").max(100),
+	type: z.enum(PipelineStageType).default(PipelineStageType.open),
+	probability: z.number().int().min(0).max(100),
+	// Days in the stage before a deal is rotting, null never rots
+	rottingDays: z.number().int().positive().max(365).nullable().default(null),
+});
+
+// Pipeline by id
+export const pipelineIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Board of a pipeline (the default pipeline when none is given)
+export const getPipelineBoardSchema = z.object({
+	pipelineId: z.string().uuid().optional(),
+	ownerId: z.string().uuid().optional(),
+	query: z.string().trim().max(200).optional(),
+});
+
+// Create a pipeline, with the default stages when none are given
+export const createPipelineSchema = z.object({
+	name: z.string().trim().min(1, "Name is required").max(100),
+	stages: z.array(pipelineStageInputSchema).min(1).max(20).optional(),
+});
+
+// Rename a pipeline or make it the default
+export const updatePipelineSchema = z.object({
+	id: z.string().uuid(),
+	name: z.string().trim().min(1, "Name is required").max(100).optional(),
+	isDefault: z.literal(true).optional(),
+});
+
+// Add a stage at the end of a pipeline
+export const createPipelineStageSchema = pipelineStageInputSchema.extend({
+	pipelineId: z.string().uuid(),
+});
+
+// Update stage settings
+export const updatePipelineStageSchema = z.object({
+	id: z.string().uuid(),
+	name: z.string().trim().min(1, "Name is required").max(100).optional(),
+	type: z.enum(PipelineStageType).optional(),
+	probability: z.number().int().min(0).max(100).optional(),
+	rottingDays: z.number().int().positive().max(365).nullable().optional(),
+});
+
+// Reorder the stages of a pipeline (all of its stage ids, in the new order)
+export const reorderPipelineStagesSchema = z.object({
+	pipelineId: z.string().uuid(),
+	stageIds: z.array(z.string().uuid()).min(1).max(20),
+});
+
+// Delete a stage, moving its deals to another stage of the pipeline
+export const deletePipelineStageSchema = z.object({
+	id: z.string().uuid(),
+	moveDealsToStageId: z.string().uuid().optional(),
+});
+
+// Deal by id
+export const dealIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Create a deal (in the first stage of the default pipeline by default)
+export const createDealSchema = z.object({
+	pipelineId: z.string().uuid().optional(),
+	stageId: z.string().uuid().optional(),
+	title: z.string().trim().min(1, "Title is required").max(200),
+	// In cents
+	amount: z.number().int().nonnegative().default(0),
+	currency: z
+		.string()
+		.trim()
+		.toLowerCase()
+		.length(3, "Use a 3-letter currency code")
+		.optional(),
+	expectedCloseDate: z.coerce.date().optional().nullable(),
+	leadId: z.string().uuid().optional().nullable(),
+	contactId: z.string().uuid().optional().nullable(),
+	ownerId: z.string().uuid().optional().nullable(),
+	notes: z.string().trim().max(5000).optional().nullable(),
+});
+
+// Update deal details (stage changes go through moveDeal)
+export const updateDealSchema = z.object({
+	id: z.string().uuid(),
+	title: z.string().trim().min(1, "Title is required").max(200).optional(),
+	amount: z.number().int().nonnegative().optional(),
+	currency: z
+		.string()
+		.trim()
+		.toLowerCase()
+		.length(3, "Use a 3-letter currency code")
+		.optional(),
+	expectedCloseDate: z.coerce.date().optional().nullable(),
+	leadId: z.string().uuid().optional().nullable(),
+	contactId: z.string().uuid().optional().nullable(),
+	ownerId: z.string().uuid().optional().nullable(),
+	notes: z.string().trim().max(5000).optional().nullable(),
+});
+
+// Move a deal to a stage (of any pipeline) at a position in its column
+export const moveDealSchema = z.object({
+	id: z.string().uuid(),
+	stageId: z.string().uuid(),
+	position: z.number().int().min(0),
+});
+
+// Type exports
+export type PipelineStageInput = z.infer<typeof pipelineStageInputSchema>;
+export type GetPipelineBoardInput = z.infer<typeof getPipelineBoardSchema>;
+export type CreatePipelineInput = z.infer<typeof createPipelineSchema>;
+export type UpdatePipelineInput = z.infer<typeof updatePipelineSchema>;
+export type CreatePipelineStageInput = z.infer<
+	typeof createPipelineStageSchema
+>;
+export type UpdatePipelineStageInput = z.infer<
+	typeof updatePipelineStageSchema
+>;
+export type ReorderPipelineStagesInput = z.infer<
+	typeof reorderPipelineStagesSchema
+>;
+export type DeletePipelineStageInput = z.infer<
+	typeof deletePipelineStageSchema
+>;
+export type CreateDealInput = z.infer<typeof createDealSchema>;
+export type UpdateDealInput = z.infer<typeof updateDealSchema>;
+export type MoveDealInput = z.infer<typeof moveDealSchema>;
@@ -59,6 +59,7 @@ export const updateProductCategorySchema = productCategorySchema
 // Inventory sync schema
 export const inventorySyncConfigSchema = z.object({
 	source: z.enum(["shopify", "woocommerce", "custom_api", "csv"]),
+	// Secrets are write-only: a masked value (or omitting the field) keeps the stored secret
 	credentials: z.record(z.string(), z.unknown()),
 	syncSchedule: z.string().optional().nullable(), // Cron expression
 	autoSync: z.boolean().default(false),
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { QuoteStatus } from "@/lib/db/schema/enums";
+
+// List quotes
+export const listQuotesSchema = z.object({
+	limit: z.number().min(1).max(100).default(50),
+	offset: z.number().min(0).default(0),
+	contactId: z.string().uuid().optional(),
+	status: z.array(z.enum(QuoteStatus)).optional(),
+});
+
+// Quote line: a catalog product (by id or SKU) or a custom priced line
+export const quoteItemSchema = z
+	.object({
+		productId: z.string().uuid().optional(),
+		sku: z.string().trim().min(1).max(100).optional(),
+		description: z.string().trim().min(1).max(500).optional(),
+		quantity: z.number().int().positive().max(100000),
+		// In cents, required for lines without a product
+		unitPrice: z.number().int().nonnegative().optional(),
+	})
+	.refine(
+		(item) =>
+			!!item.productId ||
+			!!item.sku ||
+			(!!item.description && item.unitPrice !== undefined),
+		"Custom lines need a description and a price",
+	);
+
+// Create a draft quote
+export const createQuoteSchema = z.object({
+	contactId: z.string().uuid(),
+	conversationId: z.string().uuid().optional().nullable(),
+	items: z.array(quoteItemSchema).min(1).max(100),
+	notes: z.string().trim().max(2000).optional().nullable(),
+	validUntil: z.coerce.date().optional().nullable(),
+	// Send right away instead of keeping a draft
+	send: z.boolean().default(false),
+});
+
+// Single quote actions (get, send, delete)
+export const quoteIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Answer from the public quote page
+export const respondToQuoteSchema = z.object({
+	token: z.string().min(1).max(64),
+	decision: z.enum([QuoteStatus.accepted, QuoteStatus.declined]),
+	reason: z.string().trim().max(1000).optional(),
+});
+
+// Type exports
+export type ListQuotesInput = z.infer<typeof listQuotesSchema>;
+export type QuoteItemSchemaInput = z.infer<typeof quoteItemSchema>;
+export type CreateQuoteInput = z.infer<typeof createQuoteSchema>;
+export type QuoteIdInput = z.infer<typeof quoteIdSchema>;
+export type RespondToQuoteInput = z.infer<typeof respondToQuoteSchema>;
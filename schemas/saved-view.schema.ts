@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { savedViewsConfig } from "@/config/saved-views.config";
+import { SavedViewEntity, SavedViewVisibility } from "@/lib/db/schema/enums";
+import { filterGroupSchema } from "@/schemas/filter.schema";
+
+const savedViewNameSchema = z
+	.string()
+	.trim()
+	.min(1, "Name is required")
+	.max(savedViewsConfig.maxNameLength);
+
+// Visible column ids, in display order. Empty shows the default columns.
+const savedViewColumnsSchema = z
+	.array(z.string().min(1).max(100))
+	.max(savedViewsConfig.maxColumns);
+
+// Sort of a view: a sort field of the list or "customFields.<key>"
+const savedViewSortSchema = z.object({
+	field: z.string().min(1).max(100),
+	order: z.enum(["asc", "desc"]),
+});
+
+// Views of contacts or leads visible to the member
+export const listSavedViewsSchema = z.object({
+	entity: z.enum(SavedViewEntity),
+});
+
+// Save a view
+export const createSavedViewSchema = z.object({
+	entity: z.enum(SavedViewEntity),
+	name: savedViewNameSchema,
+	visibility: z.enum(SavedViewVisibility),
+	filter: filterGroupSchema.nullable(),
+	columns: savedViewColumnsSchema,
+	sort: savedViewSortSchema.nullable(),
+});
+
+// Update a view (the entity can't change)
+export const updateSavedViewSchema = z.object({
+	id: z.string().uuid(),
+	name: savedViewNameSchema.optional(),
+	visibility: z.enum(SavedViewVisibility).optional(),
+	filter: filterGroupSchema.nullable().optional(),
+	columns: savedViewColumnsSchema.optional(),
+	sort: savedViewSortSchema.nullable().optional(),
+});
+
+// View by id (delete)
+export const savedViewIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Type exports
+export type CreateSavedViewInput = z.infer<typeof createSavedViewSchema>;
+export type UpdateSavedViewInput = z.infer<typeof updateSavedViewSchema>;
+export type SavedViewSort = z.infer<typeof savedViewSortSchema>;
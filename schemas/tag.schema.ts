@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+// Tag names are compared trimmed and lowercase
+export const tagNameSchema = z
+	.string()
+	.trim()
+	.min(1, "Name is required")
+	.max(50, "Name is too long");
+
+const tagColorSchema = z
+	.string()
+	.regex(/^#[0-9a-fA-F]{6}$/, "Use a hex color, e.g. #f97316")
+	.transform((color) => color.toLowerCase());
+
+export const createTagSchema = z.object({
+	name: tagNameSchema,
+	color: tagColorSchema.optional().nullable(),
+	description: z.string().trim().max(500).optional().nullable(),
+});
+
+// Renaming to the name of another tag is a conflict, merge them instead
+export const updateTagSchema = createTagSchema.partial().extend({
+	id: z.string().uuid(),
+});
+
+// Tag by id (delete)
+export const tagIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Move the contacts of the source tags to the target and delete the sources
+export const mergeTagsSchema = z.object({
+	sourceIds: z.array(z.string().uuid()).min(1, "Select a tag to merge"),
+	targetId: z.string().uuid(),
+});
+
+// How contacts are matched on a list of tags
+export const TagMatch = z.enum([
+	"any", // At least one of the tags
+	"all", // Every tag
+]);
+export type TagMatch = z.infer<typeof TagMatch>;
+
+// Type exports
+export type CreateTagInput = z.infer<typeof createTagSchema>;
+export type UpdateTagInput = z.infer<typeof updateTagSchema>;
+export type MergeTagsInput = z.infer<typeof mergeTagsSchema>;
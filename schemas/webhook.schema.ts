@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { WebhookDeliveryStatus, WebhookEventType } from "@/lib/db/schema/enums";
+
+// The host must also resolve to public addresses, checked on the server when
+// the endpoint is saved (assertPublicUrl)
+const webhookUrlSchema = z
+	.string()
+	.trim()
+	.url("Enter a valid URL")
+	.refine((url) => /^https?:\/\//i.test(url), "URL must use http or https");
+
+// Create an organization webhook endpoint
+export const createWebhookEndpointSchema = z.object({
+	url: webhookUrlSchema,
+	description: z.string().trim().max(200).optional().nullable(),
+	events: z.array(z.enum(WebhookEventType)).min(1, "Select at least one event"),
+});
+
+// Update an endpoint (the secret is changed with rotateSecret)
+export const updateWebhookEndpointSchema = createWebhookEndpointSchema
+	.partial()
+	.extend({
+		id: z.string().uuid(),
+		active: z.boolean().optional(),
+	});
+
+// Endpoint by id (delete, rotate secret)
+export const webhookEndpointIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Delivery log of an endpoint, newest first
+export const listWebhookDeliveriesSchema = z.object({
+	endpointId: z.string().uuid(),
+	status: z.enum(WebhookDeliveryStatus).optional(),
+	// Created date of the last delivery of the previous page
+	before: z.date().optional(),
+});
+
+// Send a sample event to an endpoint
+export const testWebhookEndpointSchema = z.object({
+	id: z.string().uuid(),
+	eventType: z.enum(WebhookEventType),
+});
+
+// Delivery by id (replay)
+export const webhookDeliveryIdSchema = z.object({
+	id: z.string().uuid(),
+});
+
+// Type exports
+export type CreateWebhookEndpointInput = z.infer<
+	typeof createWebhookEndpointSchema
+>;
+export type UpdateWebhookEndpointInput = z.infer<
+	typeof updateWebhookEndpointSchema
+>;
+export type ListWebhookDeliveriesInput = z.infer<
+	typeof listWebhookDeliveriesSchema
+>;
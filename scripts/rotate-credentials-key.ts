@@ -0,0 +1,26 @@
+/**
+ * Re-encrypt stored integration credentials with the current master key.
+ *
+ * 1. Move the current key to CREDENTIALS_PREVIOUS_KEYS ("<id>:<key>")
+ * 2. Set a new CREDENTIALS_MASTER_KEY and CREDENTIALS_MASTER_KEY_ID
+ * 3. Run `npm run credentials:rotate` (also encrypts credentials saved before the vault)
+ * 4. Remove the previous key once the run reports no failures
+ */
+
+import type { Pool } from "pg";
+import { rotateCredentialKeys } from "@/lib/credentials/rotate";
+import { db } from "@/lib/db";
+
+async function main(): Promise<void> {
+	try {
+		const result = await rotateCredentialKeys();
+		console.log(
+			`Rotated ${result.rotated}, already up to date ${result.upToDate}, failed ${result.failed}`,
+		);
+		process.exitCode = result.failed > 0 ? 1 : 0;
+	} finally {
+		await (db.$client as Pool).end();
+	}
+}
+
+void main();
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { ApiError } from "@/lib/api/errors";
+import { generateApiKey, hashApiKey, parseScopes } from "@/lib/api/keys";
+import { decodeCursor, encodeCursor, toPage } from "@/lib/api/pagination";
+import { ApiKeyScope } from "@/lib/db/schema/enums";
+
+describe("API keys", () => {
+	it("keeps only a prefix in clear and hashes the key", () => {
+		const { key, prefix, keyHash } = generateApiKey();
+
+		expect(key.startsWith("ember_")).toBe(true);
+		expect(key.startsWith(prefix)).toBe(true);
+		expect(prefix.length).toBeLessThan(key.length);
+		expect(keyHash).toBe(hashApiKey(key));
+		expect(keyHash).not.toContain(key);
+	});
+
+	it("drops unknown scopes", () => {
+		expect(parseScopes('["contacts:read","billing:write"]')).toEqual([
+			ApiKeyScope.contactsRead,
+		]);
+		expect(parseScopes("not json")).toEqual([]);
+	});
+});
+
+describe("cursor pagination", () => {
+	const rows = [3, 2, 1].map((day) => ({
+		id: `00000000-0000-0000-0000-00000000000${day}`,
+		createdAt: new Date(`2026-03-0${day}T10:00:00.000Z`),
+	}));
+
+	it("returns a cursor to the last row when there are more rows", () => {
+		const page = toPage(rows, 2, (row) => row.id);
+
+		expect(page.data).toEqual([rows[0]?.id, rows[1]?.id]);
+		expect(page.nextCursor && decodeCursor(page.nextCursor)).toEqual(rows[1]);
+		expect(toPage(rows, 3, (row) => row.id).nextCursor).toBeNull();
+	});
+
+	it("rejects malformed cursors", () => {
+		expect(() => decodeCursor("garbage")).toThrow(ApiError);
+		// The id goes to a uuid cast, Postgres would fail the query
+		expect(() =>
+			decodeCursor(encodeCursor({ ...rows[0]!, id: "not-a-uuid" })),
+		).toThrow(expect.objectContaining({ status: 400, code: "invalid_cursor" }));
+		expect(decodeCursor(encodeCursor(rows[0]!))).toEqual(rows[0]);
+	});
+});
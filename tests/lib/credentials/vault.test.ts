@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { maskCredentials, mergeCredentials } from "@/lib/credentials/secrets";
+import {
+	decryptCredentials,
+	encryptCredentials,
+	getCredentialsKeyId,
+	rewrapCredentials,
+} from "@/lib/credentials/vault";
+import { env } from "@/lib/env";
+
+const firstKey = Buffer.alloc(32, 1).toString("base64");
+const secondKey = Buffer.alloc(32, 2).toString("base64");
+
+function useKeys(keys: {
+	current: string;
+	currentId: string;
+	previous?: string;
+}): void {
+	Object.assign(env, {
+		CREDENTIALS_MASTER_KEY: keys.current,
+		CREDENTIALS_MASTER_KEY_ID: keys.currentId,
+		CREDENTIALS_PREVIOUS_KEYS: keys.previous,
+	});
+}
+
+// Test bodies are synchronous, so setting keys at the start holds for the whole test
+describe("credentials vault", () => {
+	it("encrypts credentials without leaking values", () => {
+		useKeys({ current: firstKey, currentId: "1" });
+		const sealed = encryptCredentials({ accessToken: "EAAG-secret-token" });
+
+		expect(sealed).not.toContain("EAAG");
+		expect(getCredentialsKeyId(sealed)).toBe("1");
+		expect(decryptCredentials(sealed)).toEqual({
+			accessToken: "EAAG-secret-token",
+		});
+	});
+
+	it("reads credentials saved as plain JSON", () => {
+		expect(decryptCredentials('{"pageId":"123"}')).toEqual({ pageId: "123" });
+	});
+
+	it("re-encrypts the data key with a new master key", () => {
+		useKeys({ current: firstKey, currentId: "1" });
+		const sealed = encryptCredentials({ apiKey: "key-123" });
+
+		useKeys({ current: secondKey, currentId: "2", previous: `1:${firstKey}` });
+		const rotated = rewrapCredentials(sealed);
+
+		expect(rotated).not.toBeNull();
+		expect(getCredentialsKeyId(rotated as string)).toBe("2");
+		expect(rewrapCredentials(rotated as string)).toBeNull();
+
+		// The retired key is no longer needed
+		useKeys({ current: secondKey, currentId: "2" });
+		expect(decryptCredentials(rotated)).toEqual({ apiKey: "key-123" });
+		expect(() => decryptCredentials(sealed)).toThrow(/unknown master key/);
+	});
+});
+
+describe("secret fields", () => {
+	it("masks secrets and keeps them when the mask is sent back", () => {
+		const stored = {
+			phoneNumberId: "1234",
+			accessToken: "EAAG-secret-token-9876",
+		};
+		const masked = maskCredentials(stored);
+
+		expect(masked).toEqual({ phoneNumberId: "1234", accessToken: "••••9876" });
+		expect(
+			mergeCredentials(stored, { ...masked, phoneNumberId: "5678" }),
+		).toEqual({ phoneNumberId: "5678", accessToken: "EAAG-secret-token-9876" });
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import {
+	coerceCustomFieldValue,
+	formatCustomFieldValue,
+	parseCustomFieldValues,
+	serializeCustomFieldValues,
+	toCustomFieldKey,
+	validateCustomFieldValues,
+} from "@/lib/custom-fields/values";
+import { CustomFieldEntity, CustomFieldType } from "@/lib/db/schema/enums";
+
+function field(
+	key: string,
+	type: CustomFieldType,
+	overrides: Partial<CustomFieldDefinition> = {},
+): CustomFieldDefinition {
+	return {
+		id: key,
+		entity: CustomFieldEntity.contact,
+		key,
+		label: key,
+		type,
+		options: [],
+		currency: null,
+		required: false,
+		position: 0,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+		...overrides,
+	};
+}
+
+describe("custom field values", () => {
+	it("suggests keys from labels", () => {
+		expect(toCustomFieldKey("Tienda preferida")).toBe("tienda_preferida");
+		expect(toCustomFieldKey("2nd Phone")).toBe("field_2nd_phone");
+	});
+
+	it("coerces spreadsheet cells to the field type", () => {
+		const interests = field("interests", CustomFieldType.multiSelect, {
+			options: ["Running", "Cycling"],
+		});
+
+		expect(
+			coerceCustomFieldValue(
+				field("budget", CustomFieldType.currency),
+				"$1,250.5",
+			),
+		).toBe(1250.5);
+		expect(coerceCustomFieldValue(interests, "running; CYCLING")).toEqual([
+			"Running",
+			"Cycling",
+		]);
+		expect(
+			coerceCustomFieldValue(field("since", CustomFieldType.date), " "),
+		).toBe(null);
+	});
+
+	it("validates values, drops empty ones and keeps unknown keys", () => {
+		const definitions = [
+			field("store", CustomFieldType.select, {
+				options: ["Centro"],
+				required: true,
+			}),
+			field("visits", CustomFieldType.number),
+			field("since", CustomFieldType.date),
+		];
+
+		expect(
+			validateCustomFieldValues(
+				definitions,
+				{ store: "Centro", visits: "", legacy: "kept" },
+				{ enforceRequired: true },
+			),
+		).toEqual({ values: { store: "Centro", legacy: "kept" }, issues: [] });
+
+		expect(
+			validateCustomFieldValues(
+				definitions,
+				{ visits: "3", since: "2026-02-30" },
+				{ enforceRequired: true },
+			).issues,
+		).toEqual([
+			{ key: "store", message: "Required" },
+			{ key: "visits", message: "Enter a number" },
+			{ key: "since", message: "Enter a date as YYYY-MM-DD" },
+		]);
+	});
+
+	it("stores empty values as null and reads invalid JSON as empty", () => {
+		expect(serializeCustomFieldValues({})).toBeNull();
+		expect(parseCustomFieldValues("not json")).toEqual({});
+		expect(
+			parseCustomFieldValues(serializeCustomFieldValues({ store: "Centro" })),
+		).toEqual({ store: "Centro" });
+	});
+
+	it("formats values for display", () => {
+		expect(
+			formatCustomFieldValue(field("tags", CustomFieldType.multiSelect), [
+				"Running",
+				"Cycling",
+			]),
+		).toBe("Running, Cycling");
+		expect(
+			formatCustomFieldValue(field("note", CustomFieldType.text), null),
+		).toBe("");
+	});
+});
@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeAvailableSlots,
+	isWithinWorkingHours,
+	parseWorkingHours,
+	pickProposalSlots,
+} from "@/lib/ember/calendar/availability";
+import {
+	getNextOpening,
+	isWithinBusinessHours,
+} from "@/lib/ember/calendar/business-hours";
+import { buildIcsEvent } from "@/lib/ember/calendar/ics";
+
+const weekdays = {
+	1: [{ start: "09:00", end: "12:00" }],
+	2: [{ start: "09:00", end: "12:00" }],
+};
+
+describe("computeAvailableSlots", () => {
+	it("reads working hours in the host timezone", () => {
+		// Monday 2026-03-02, Mexico City is UTC-6
+		const slots = computeAvailableSlots({
+			workingHours: weekdays,
+			timezone: "America/Mexico_City",
+			from: new Date("2026-03-02T00:00:00Z"),
+			to: new Date("2026-03-03T00:00:00Z"),
+			durationMinutes: 60,
+		});
+
+		expect(slots.map((slot) => slot.toISOString())).toEqual([
+			"2026-03-02T15:00:00.000Z",
+			"2026-03-02T16:00:00.000Z",
+			"2026-03-02T17:00:00.000Z",
+		]);
+	});
+
+	it("keeps local hours across a DST change", () => {
+		// New York switches to UTC-4 on Sunday 2026-03-08
+		const slots = computeAvailableSlots({
+			workingHours: weekdays,
+			timezone: "America/New_York",
+			from: new Date("2026-03-06T00:00:00Z"),
+			to: new Date("2026-03-10T00:00:00Z"),
+			durationMinutes: 180,
+		});
+
+		expect(slots.map((slot) => slot.toISOString())).toEqual([
+			"2026-03-09T13:00:00.000Z",
+		]);
+	});
+
+	it("skips busy times and their buffer", () => {
+		const slots = computeAvailableSlots({
+			workingHours: weekdays,
+			timezone: "UTC",
+			from: new Date("2026-03-02T00:00:00Z"),
+			to: new Date("2026-03-03T00:00:00Z"),
+			durationMinutes: 30,
+			bufferMinutes: 15,
+			busy: [
+				{
+					start: new Date("2026-03-02T10:00:00Z"),
+					end: new Date("2026-03-02T10:30:00Z"),
+				},
+			],
+		});
+
+		expect(slots.map((slot) => slot.toISOString().slice(11, 16))).toEqual([
+			"09:00",
+			"11:00",
+			"11:30",
+		]);
+	});
+});
+
+describe("pickProposalSlots", () => {
+	it("spreads proposals over different days first", () => {
+		const slots = [
+			"2026-03-02T09:00:00Z",
+			"2026-03-02T10:00:00Z",
+			"2026-03-03T09:00:00Z",
+			"2026-03-03T10:00:00Z",
+		].map((iso) => new Date(iso));
+
+		expect(
+			pickProposalSlots(slots, 3, "UTC").map((slot) => slot.toISOString()),
+		).toEqual([
+			"2026-03-02T09:00:00.000Z",
+			"2026-03-02T10:00:00.000Z",
+			"2026-03-03T09:00:00.000Z",
+		]);
+	});
+});
+
+describe("working hours", () => {
+	it("drops malformed ranges", () => {
+		expect(
+			parseWorkingHours(
+				JSON.stringify({
+					1: [
+						{ start: "09:00", end: "17:00" },
+						{ start: "18:00", end: "17:00" },
+					],
+					9: [{ start: "09:00", end: "17:00" }],
+				}),
+			),
+		).toEqual({ 1: [{ start: "09:00", end: "17:00" }] });
+	});
+
+	it("checks that a meeting fits in one range", () => {
+		const interval = {
+			start: new Date("2026-03-02T11:30:00Z"),
+			end: new Date("2026-03-02T12:30:00Z"),
+		};
+		expect(isWithinWorkingHours(interval, weekdays, "UTC")).toBe(false);
+		expect(isWithinWorkingHours(interval, weekdays, "Europe/Madrid")).toBe(
+			false,
+		);
+		expect(
+			isWithinWorkingHours(
+				{
+					start: new Date("2026-03-02T10:00:00Z"),
+					end: new Date("2026-03-02T11:00:00Z"),
+				},
+				weekdays,
+				"Europe/Madrid",
+			),
+		).toBe(true);
+	});
+});
+
+describe("buildIcsEvent", () => {
+	it("writes UTC times, escapes text and folds long lines", () => {
+		const ics = buildIcsEvent({
+			uid: "meeting-1@example.com",
+			sequence: 2,
+			method: "REQUEST",
+			start: new Date("2026-03-02T15:00:00Z"),
+			end: new Date("2026-03-02T15:30:00Z"),
+			summary: "Demo; pricing, delivery",
+			description: `Agenda:\n${"x".repeat(100)}`,
+			organizer: { name: "Acme", email: "team@example.com" },
+			attendee: { name: "Ana Núñez", email: "ana@example.com" },
+		});
+
+		const lines = ics.split("\r\n");
+		expect(lines).toContain("DTSTART:20260302T150000Z");
+		expect(lines).toContain("SEQUENCE:2");
+		expect(lines).toContain("SUMMARY:Demo\\; pricing\\, delivery");
+		expect(lines).toContain("STATUS:CONFIRMED");
+		expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+		for (const line of lines) {
+			expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+		}
+	});
+
+	it("marks cancellations", () => {
+		const ics = buildIcsEvent({
+			uid: "meeting-1@example.com",
+			sequence: 3,
+			method: "CANCEL",
+			start: new Date("2026-03-02T15:00:00Z"),
+			end: new Date("2026-03-02T15:30:00Z"),
+			summary: "Demo",
+			organizer: { name: "Acme", email: "team@example.com" },
+		});
+
+		expect(ics).toContain("METHOD:CANCEL\r\n");
+		expect(ics).toContain("STATUS:CANCELLED\r\n");
+	});
+});
+
+describe("business hours", () => {
+	const settings = {
+		timezone: "Europe/Madrid",
+		weeklyHours: weekdays,
+		holidays: [{ date: "2026-03-03", name: "Local holiday" }],
+	};
+
+	it("is open within local hours only", () => {
+		// Monday 2026-03-02, Madrid is UTC+1
+		expect(
+			isWithinBusinessHours(settings, new Date("2026-03-02T08:30:00Z")),
+		).toBe(true);
+		expect(
+			isWithinBusinessHours(settings, new Date("2026-03-02T11:00:00Z")),
+		).toBe(false);
+	});
+
+	it("skips holidays when looking for the next opening", () => {
+		const from = new Date("2026-03-02T12:00:00Z");
+
+		expect(
+			isWithinBusinessHours(settings, new Date("2026-03-03T09:00:00Z")),
+		).toBe(false);
+		// Tuesday is a holiday and Wednesday has no hours: next Monday 09:00
+		expect(getNextOpening(settings, from)?.toISOString()).toBe(
+			"2026-03-09T08:00:00.000Z",
+		);
+	});
+});
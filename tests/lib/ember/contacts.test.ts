@@ -0,0 +1,178 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getSession } from "@/lib/auth/server";
+import { db } from "@/lib/db";
+import { getContactTimeline } from "@/lib/ember/memoria/queries";
+import { createCallerFactory } from "@/trpc/init";
+import { organizationContactRouter } from "@/trpc/routers/organization/organization-contact-router";
+
+const contactId = "0b6f3c1e-2d4a-4f5b-9c8d-7e6f5a4b3c2d";
+const recordId = "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+const dialect = new PgDialect();
+
+function at(day: number): Date {
+	return new Date(Date.UTC(2026, 0, day));
+}
+
+// Select builder resolving to rows, every timeline query ends with limit()
+function selectRows(rows: unknown[]) {
+	const builder = {
+		from: () => builder,
+		innerJoin: () => builder,
+		leftJoin: () => builder,
+		where: () => builder,
+		orderBy: () => builder,
+		limit: () => Promise.resolve(rows),
+	};
+	return builder as never;
+}
+
+function createCaller() {
+	vi.mocked(getSession).mockResolvedValue({
+		user: { id: "test-user-id", role: "user" },
+		session: { activeOrganizationId: "test-org-id" },
+	} as never);
+	return createCallerFactory(organizationContactRouter)({
+		userAgent: "test-agent",
+		ip: "127.0.0.1",
+		requestId: "test-request-id",
+	});
+}
+
+// Mutation chain of update/delete, keeping the where clause it was scoped by
+function mutationChain(returned: unknown[]) {
+	const where = vi.fn().mockReturnValue({
+		returning: vi.fn().mockResolvedValue(returned),
+	});
+	return { chain: { set: () => ({ where }), where }, where };
+}
+
+function renderWhere(where: ReturnType<typeof vi.fn>) {
+	return dialect.sqlToQuery(where.mock.calls[0]?.[0] as SQL);
+}
+
+describe.sequential("contacts", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("merges messages, notes, agreements and sources newest first", async () => {
+		vi.mocked(db.select)
+			.mockReturnValueOnce(
+				selectRows([
+					{ id: "message-2", createdAt: at(5) },
+					{ id: "message-1", createdAt: at(2) },
+				]),
+			)
+			.mockReturnValueOnce(selectRows([{ id: "note-1", createdAt: at(4) }]))
+			.mockReturnValueOnce(
+				selectRows([{ id: "agreement-1", createdAt: at(3) }]),
+			)
+			.mockReturnValueOnce(selectRows([{ id: "source-1", firstSeen: at(1) }]));
+
+		const events = await getContactTimeline(contactId);
+
+		expect(events.map((event) => [event.type, event.data.id])).toEqual([
+			["message", "message-2"],
+			["note", "note-1"],
+			["agreement", "agreement-1"],
+			["message", "message-1"],
+			["source", "source-1"],
+		]);
+		expect(events.at(-1)?.timestamp).toEqual(at(1));
+	});
+
+	it("keeps the latest events up to the limit", async () => {
+		vi.mocked(db.select)
+			.mockReturnValueOnce(
+				selectRows([
+					{ id: "message-2", createdAt: at(5) },
+					{ id: "message-1", createdAt: at(2) },
+				]),
+			)
+			.mockReturnValueOnce(selectRows([{ id: "note-1", createdAt: at(4) }]))
+			.mockReturnValueOnce(selectRows([]))
+			.mockReturnValueOnce(selectRows([{ id: "source-1", firstSeen: at(6) }]));
+
+		const events = await getContactTimeline(contactId, 2);
+
+		expect(events.map((event) => event.data.id)).toEqual([
+			"source-1",
+			"message-2",
+		]);
+	});
+
+	it("only adds notes and agreements to contacts of the organization", async () => {
+		const findFirst = vi.fn().mockResolvedValue(undefined);
+		Object.assign(db.query, { contactTable: { findFirst } });
+		const caller = createCaller();
+
+		await expect(
+			caller.createNote({ contactId, content: "Prefers morning calls" }),
+		).rejects.toMatchObject({ code: "NOT_FOUND" });
+		await expect(
+			caller.createAgreement({
+				contactId,
+				type: "custom",
+				description: "Free delivery",
+				details: {},
+			}),
+		).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+		expect(findFirst).toHaveBeenCalledTimes(2);
+		for (const [{ where }] of findFirst.mock.calls) {
+			expect(dialect.sqlToQuery(where).params).toEqual([
+				contactId,
+				"test-org-id",
+			]);
+		}
+		expect(db.insert).not.toHaveBeenCalled();
+	});
+
+	it("creates notes in the organization of the session", async () => {
+		Object.assign(db.query, {
+			contactTable: { findFirst: vi.fn().mockResolvedValue({ id: contactId }) },
+		});
+		const values = vi.fn().mockReturnValue({
+			returning: vi.fn().mockResolvedValue([{ id: recordId }]),
+		});
+		vi.mocked(db.insert).mockReturnValue({ values } as never);
+
+		await createCaller().createNote({
+			contactId,
+			content: "Prefers morning calls",
+		});
+
+		expect(values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				contactId,
+				organizationId: "test-org-id",
+				createdById: "test-user-id",
+			}),
+		);
+	});
+
+	it("scopes note and agreement changes to the organization", async () => {
+		const caller = createCaller();
+		const calls = [
+			() => caller.updateNote({ id: recordId, content: "Call after 6pm" }),
+			() => caller.deleteNote({ id: recordId }),
+			() => caller.updateAgreement({ id: recordId, status: "completed" }),
+			() => caller.deleteAgreement({ id: recordId }),
+		];
+
+		for (const call of calls) {
+			const { chain, where } = mutationChain([]);
+			vi.mocked(db.update).mockReturnValue(chain as never);
+			vi.mocked(db.delete).mockReturnValue(chain as never);
+
+			// Records of other organizations don't match, as if they didn't exist
+			await expect(call()).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+			const query = renderWhere(where);
+			expect(query.sql).toMatch(/"organization_id" = \$2/);
+			expect(query.params).toEqual([recordId, "test-org-id"]);
+		}
+	});
+});
@@ -0,0 +1,90 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getSession } from "@/lib/auth/server";
+import { db } from "@/lib/db";
+import { channelManager } from "@/lib/ember/canales/manager";
+import { publishConversationUpdated } from "@/lib/realtime/events";
+import { createCallerFactory } from "@/trpc/init";
+import { organizationConversationRouter } from "@/trpc/routers/organization/organization-conversation-router";
+
+vi.mock("@/lib/ember/canales/manager", () => ({
+	channelManager: { sendMessage: vi.fn() },
+}));
+vi.mock("@/lib/realtime/events", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/lib/realtime/events")>()),
+	publishConversationUpdated: vi.fn(),
+}));
+
+const conversationId = "3e2d1c0b-9a8f-4e7d-8c6b-5a4f3e2d1c0b";
+const dialect = new PgDialect();
+
+function createCaller() {
+	vi.mocked(getSession).mockResolvedValue({
+		user: { id: "test-user-id", role: "user" },
+		session: { activeOrganizationId: "test-org-id" },
+	} as never);
+	return createCallerFactory(organizationConversationRouter)({
+		userAgent: "test-agent",
+		ip: "127.0.0.1",
+		requestId: "test-request-id",
+	});
+}
+
+// Conversation taken over by a human, read before claiming it
+function mockConversation(transferredToId: string | null) {
+	Object.assign(db.query, {
+		conversationTable: {
+			findFirst: vi.fn().mockResolvedValue({
+				id: conversationId,
+				transferredToHuman: true,
+				transferredToId,
+			}),
+		},
+	});
+}
+
+function mockClaim(updated: unknown[]) {
+	const where = vi.fn().mockReturnValue({
+		returning: vi.fn().mockResolvedValue(updated),
+	});
+	vi.mocked(db.update).mockReturnValue({ set: () => ({ where }) } as never);
+	return where;
+}
+
+describe.sequential("conversation reply", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("claims an unassigned conversation before sending", async () => {
+		mockConversation(null);
+		const where = mockClaim([{ id: conversationId }]);
+
+		await createCaller().reply({ conversationId, content: "Hi, I can help" });
+
+		const query = dialect.sqlToQuery(where.mock.calls[0]?.[0] as SQL);
+		expect(query.sql).toContain(
+			'("conversation"."transferred_to_id" is null or "conversation"."transferred_to_id" = $2)',
+		);
+		expect(query.params).toEqual([conversationId, "test-user-id"]);
+		expect(publishConversationUpdated).toHaveBeenCalledTimes(1);
+		expect(channelManager.sendMessage).toHaveBeenCalledWith(
+			conversationId,
+			expect.objectContaining({ sentById: "test-user-id" }),
+		);
+	});
+
+	it("doesn't send when another agent claimed it first", async () => {
+		// Unassigned when read, claimed by another agent before the update
+		mockConversation(null);
+		mockClaim([]);
+
+		await expect(
+			createCaller().reply({ conversationId, content: "Hi, I can help" }),
+		).rejects.toMatchObject({ code: "CONFLICT" });
+
+		expect(channelManager.sendMessage).not.toHaveBeenCalled();
+		expect(publishConversationUpdated).not.toHaveBeenCalled();
+	});
+});
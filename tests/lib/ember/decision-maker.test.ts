@@ -0,0 +1,113 @@
+import { generateText, stepCountIs } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { describe, expect, it, vi } from "vitest";
+import { db } from "@/lib/db";
+import {
+	buildActionTools,
+	getAllowedActions,
+	type TriggeredAction,
+} from "@/lib/ember/core/decision-maker";
+
+const context = {
+	organizationId: "org-1",
+	conversationId: "conv-1",
+	contactId: "contact-1",
+	channel: "whatsapp",
+};
+
+const usage = {
+	inputTokens: {
+		total: 10,
+		noCache: 10,
+		cacheRead: undefined,
+		cacheWrite: undefined,
+	},
+	outputTokens: { total: 5, text: 5, reasoning: undefined },
+};
+
+function createToolCallingModel(toolName: string, input: unknown) {
+	let step = 0;
+	return new MockLanguageModelV3({
+		doGenerate: async () => {
+			step++;
+			if (step === 1) {
+				return {
+					content: [
+						{
+							type: "tool-call",
+							toolCallId: "call-1",
+							toolName,
+							input: JSON.stringify(input),
+						},
+					],
+					finishReason: { unified: "tool-calls", raw: "tool_calls" },
+					usage,
+					warnings: [],
+				};
+			}
+			return {
+				content: [{ type: "text", text: "Listo" }],
+				finishReason: { unified: "stop", raw: "stop" },
+				usage,
+				warnings: [],
+			};
+		},
+	});
+}
+
+describe("getAllowedActions", () => {
+	it("keeps only registered handlers", () => {
+		expect(
+			getAllowedActions({
+				allowedActions: JSON.stringify(["send-link", "launch-rocket"]),
+			}),
+		).toEqual(["send-link"]);
+	});
+});
+
+describe("buildActionTools", () => {
+	it("offers only the agent's allowed actions as tools", () => {
+		const tools = buildActionTools(
+			{ allowedActions: JSON.stringify(["create-note", "update-tags"]) },
+			context,
+			[],
+		);
+
+		expect(Object.keys(tools)).toEqual(["create-note", "update-tags"]);
+	});
+
+	it("dispatches valid tool calls through the executor", async () => {
+		const values = vi.fn().mockResolvedValue(undefined);
+		vi.mocked(db.insert).mockReturnValue({ values } as never);
+
+		const triggered: TriggeredAction[] = [];
+		const result = await generateText({
+			model: createToolCallingModel("create-note", {
+				content: "Prefers morning calls",
+			}),
+			prompt: "Hi",
+			tools: buildActionTools(
+				{ allowedActions: JSON.stringify(["create-note"]) },
+				context,
+				triggered,
+			),
+			stopWhen: stepCountIs(3),
+		});
+
+		expect(result.text).toBe("Listo");
+		expect(triggered).toEqual([
+			{
+				action: "create-note",
+				status: "success",
+				params: { content: "Prefers morning calls" },
+				result: { success: true },
+			},
+		]);
+		expect(values).toHaveBeenCalledWith({
+			organizationId: "org-1",
+			contactId: "contact-1",
+			content: "Prefers morning calls",
+			type: "general",
+		});
+	});
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { orderContactPair } from "@/lib/ember/memoria/duplicates";
+import {
+	mergeDuplicateCandidateSchema,
+	updateDuplicateSettingsSchema,
+} from "@/schemas/duplicate.schema";
+
+const first = "0b6f3c1e-2d4a-4f5b-9c8d-7e6f5a4b3c2d";
+const second = "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+
+describe("duplicates", () => {
+	it("stores a pair in the same order whichever contact it was found from", () => {
+		expect(orderContactPair(second, first)).toEqual([first, second]);
+		expect(orderContactPair(first, second)).toEqual([first, second]);
+	});
+
+	it("only accepts known fields when picking merge winners", () => {
+		expect(
+			mergeDuplicateCandidateSchema.parse({ id: first, primaryId: first })
+				.fields,
+		).toEqual({});
+		expect(
+			mergeDuplicateCandidateSchema.safeParse({
+				id: first,
+				primaryId: first,
+				fields: { heatScore: second },
+			}).success,
+		).toBe(false);
+	});
+
+	it("keeps the auto-merge confidence above the detection threshold", () => {
+		expect(
+			updateDuplicateSettingsSchema.safeParse({
+				autoMergeEnabled: true,
+				autoMergeConfidence: 50,
+				scanEnabled: true,
+			}).success,
+		).toBe(false);
+	});
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+	chunkText,
+	extractHtmlTitle,
+	htmlToText,
+} from "@/lib/ember/knowledge/chunking";
+
+describe("chunkText", () => {
+	it("keeps short documents in a single chunk", () => {
+		expect(
+			chunkText("# Shipping\n\n\n\nWe ship   worldwide.", {
+				chunkSize: 200,
+				chunkOverlap: 20,
+			}),
+		).toEqual(["# Shipping\n\nWe ship worldwide."]);
+	});
+
+	it("returns no chunks for blank text", () => {
+		expect(chunkText(" \n\n ", { chunkSize: 200, chunkOverlap: 20 })).toEqual(
+			[],
+		);
+	});
+
+	it("splits on paragraphs and repeats the end of the previous chunk", () => {
+		const paragraphs = [
+			"Returns are accepted within thirty days of delivery.",
+			"Refunds are issued to the original payment method.",
+			"Shipping costs are not refundable unless the item is defective.",
+		];
+
+		const chunks = chunkText(paragraphs.join("\n\n"), {
+			chunkSize: 80,
+			chunkOverlap: 20,
+		});
+
+		expect(chunks).toHaveLength(3);
+		expect(chunks[0]).toBe(paragraphs[0]);
+		expect(chunks[1]).toBe(`days of delivery. ${paragraphs[1]}`);
+		for (const chunk of chunks) {
+			expect(chunk.length).toBeLessThanOrEqual(80);
+		}
+	});
+
+	it("splits paragraphs longer than a chunk", () => {
+		const sentence = "This sentence is repeated to build a long paragraph.";
+		const chunks = chunkText(Array(10).fill(sentence).join(" "), {
+			chunkSize: 120,
+			chunkOverlap: 0,
+		});
+
+		expect(chunks.length).toBeGreaterThan(1);
+		for (const chunk of chunks) {
+			expect(chunk.length).toBeLessThanOrEqual(120);
+		}
+	});
+});
+
+describe("htmlToText", () => {
+	it("removes scripts, styles and markup", () => {
+		const html = `<html><head><title>FAQ &amp; Help</title><style>p{color:red}</style></head>
+			<body><script>alert(1)</script><h1>FAQ</h1><p>Opening hours:<br>9 &ndash; 5</p></body></html>`;
+
+		expect(extractHtmlTitle(html)).toBe("FAQ & Help");
+		expect(htmlToText(html)).not.toMatch(/alert|color|<|>/);
+		expect(htmlToText(html)).toContain("Opening hours:\n9");
+	});
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { LeadStatus } from "@/lib/db/schema/enums";
+import {
+	hasQualifiedTag,
+	isLeadStatusAdvance,
+} from "@/lib/ember/memoria/leads";
+
+describe("hasQualifiedTag", () => {
+	it("matches the qualified tag regardless of case and spacing", () => {
+		expect(hasQualifiedTag(["interested", " Qualified "])).toBe(true);
+		expect(hasQualifiedTag(["interested", "pre-qualified"])).toBe(false);
+	});
+});
+
+describe("isLeadStatusAdvance", () => {
+	it("only moves open leads forward in the pipeline", () => {
+		expect(isLeadStatusAdvance(LeadStatus.new, LeadStatus.qualified)).toBe(
+			true,
+		);
+		expect(isLeadStatusAdvance(LeadStatus.proposal, LeadStatus.qualified)).toBe(
+			false,
+		);
+		expect(isLeadStatusAdvance(LeadStatus.lost, LeadStatus.qualified)).toBe(
+			false,
+		);
+	});
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { ContactStatus } from "@/lib/db/schema/enums";
+import {
+	type ContactMergeSnapshot,
+	getUnmergedContactFields,
+} from "@/lib/ember/memoria/merger";
+
+const snapshot: ContactMergeSnapshot = {
+	primary: {
+		firstName: "Ana",
+		lastName: "Lopez",
+		language: "es",
+		phone: null,
+		email: "ana@example.com",
+		company: null,
+		timezone: null,
+		channelPreference: null,
+		customFields: null,
+		lifetimeValue: 1000,
+		interactionCount: 2,
+		mergedContactIds: null,
+	},
+	merged: {
+		firstName: "Ana",
+		lastName: "Lopez",
+		language: "es",
+		phone: "+52 55 1234 5678",
+		email: "ana@example.com",
+		company: "Acme",
+		timezone: null,
+		channelPreference: null,
+		customFields: "{}",
+		lifetimeValue: 1500,
+		interactionCount: 5,
+		mergedContactIds: '["dup-1"]',
+	},
+	duplicates: [
+		{
+			id: "dup-1",
+			firstName: "Ana",
+			lastName: "Lopez",
+			email: null,
+			phone: "+52 55 1234 5678",
+			status: ContactStatus.active,
+			mergedWithId: null,
+			lifetimeValue: 500,
+			interactionCount: 3,
+		},
+	],
+	movedRows: { note: { "dup-1": ["note-1"] } },
+	addedTags: [],
+};
+
+describe("getUnmergedContactFields", () => {
+	it("reverts the fields written by the merge", () => {
+		expect(
+			getUnmergedContactFields(snapshot.merged, snapshot, ["dup-1"]),
+		).toEqual({ ...snapshot.primary, mergedContactIds: "[]" });
+	});
+
+	it("keeps edits made since the merge and removes the duplicates' totals", () => {
+		const fields = getUnmergedContactFields(
+			{
+				...snapshot.merged,
+				company: "Acme Corp",
+				interactionCount: 8,
+				mergedContactIds: '["dup-1","dup-2"]',
+			},
+			snapshot,
+			["dup-1"],
+		);
+
+		expect(fields.company).toBe("Acme Corp");
+		expect(fields.phone).toBeNull();
+		expect(fields.lifetimeValue).toBe(1000);
+		expect(fields.interactionCount).toBe(5);
+		expect(fields.mergedContactIds).toBe('["dup-2"]');
+	});
+
+	it("leaves totals alone when no duplicate can be restored", () => {
+		const fields = getUnmergedContactFields(snapshot.merged, snapshot, []);
+
+		expect(fields.lifetimeValue).toBe(1500);
+		expect(fields.mergedContactIds).toBe('["dup-1"]');
+	});
+});
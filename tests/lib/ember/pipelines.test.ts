@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { PipelineStageType } from "@/lib/db/schema/enums";
+import {
+	computePipelineForecast,
+	computeStageForecasts,
+	isDealRotting,
+} from "@/lib/ember/pipelines/forecast";
+
+const now = new Date("2026-03-20T12:00:00Z");
+
+const stages = [
+	{
+		id: "proposal",
+		type: PipelineStageType.open,
+		probability: 50,
+		rottingDays: 7,
+	},
+	{
+		id: "won",
+		type: PipelineStageType.won,
+		probability: 100,
+		rottingDays: null,
+	},
+];
+
+describe("isDealRotting", () => {
+	it("flags open deals that stayed in their stage too long", () => {
+		const stale = { stageChangedAt: new Date("2026-03-10T12:00:00Z") };
+		const fresh = { stageChangedAt: new Date("2026-03-18T12:00:00Z") };
+
+		expect(isDealRotting(stale, stages[0]!, now)).toBe(true);
+		expect(isDealRotting(fresh, stages[0]!, now)).toBe(false);
+		expect(isDealRotting(stale, stages[1]!, now)).toBe(false);
+	});
+});
+
+describe("computePipelineForecast", () => {
+	it("weights open stages by probability and splits totals by currency", () => {
+		const deals = [
+			{
+				stageId: "proposal",
+				amount: 10000,
+				currency: "usd",
+				stageChangedAt: now,
+			},
+			{
+				stageId: "proposal",
+				amount: 5000,
+				currency: "eur",
+				stageChangedAt: now,
+			},
+			{ stageId: "won", amount: 20000, currency: "usd", stageChangedAt: now },
+		];
+
+		const stageForecasts = computeStageForecasts(stages, deals, now);
+		expect(stageForecasts[0]?.dealCount).toBe(2);
+		expect(stageForecasts[1]?.totals).toEqual([
+			{ currency: "usd", amount: 20000, weightedAmount: 20000 },
+		]);
+
+		expect(computePipelineForecast(stages, stageForecasts)).toEqual([
+			{ currency: "eur", amount: 5000, weightedAmount: 2500 },
+			{ currency: "usd", amount: 10000, weightedAmount: 5000 },
+		]);
+	});
+});
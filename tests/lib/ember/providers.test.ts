@@ -0,0 +1,90 @@
+import { MockLanguageModelV3 } from "ai/test";
+import { afterEach, describe, expect, it } from "vitest";
+import { callAIModel } from "@/lib/ember/core/engine";
+import {
+	parseModelString,
+	registerModelProvider,
+	resolveModel,
+	unregisterModelProvider,
+} from "@/lib/ember/core/providers";
+
+function createMockModel(text: string) {
+	return new MockLanguageModelV3({
+		doGenerate: async () => ({
+			content: [{ type: "text", text }],
+			finishReason: { unified: "stop", raw: "stop" },
+			usage: {
+				inputTokens: {
+					total: 1200,
+					noCache: 1200,
+					cacheRead: undefined,
+					cacheWrite: undefined,
+				},
+				outputTokens: { total: 300, text: 300, reasoning: undefined },
+			},
+			warnings: [],
+		}),
+	});
+}
+
+describe("parseModelString", () => {
+	it("uses an explicit provider prefix", () => {
+		expect(parseModelString("local:llama3.1")).toEqual({
+			provider: "local",
+			modelId: "llama3.1",
+		});
+	});
+
+	it("infers anthropic for claude models", () => {
+		expect(parseModelString("claude-3-5-sonnet")).toEqual({
+			provider: "anthropic",
+			modelId: "claude-3-5-sonnet",
+		});
+	});
+
+	it("defaults to openai", () => {
+		expect(parseModelString("gpt-4o-mini")).toEqual({
+			provider: "openai",
+			modelId: "gpt-4o-mini",
+		});
+	});
+});
+
+describe("resolveModel", () => {
+	it("throws for unknown providers", () => {
+		expect(() => resolveModel("nope:model")).toThrow(/Unknown AI provider/);
+	});
+});
+
+describe("callAIModel", () => {
+	afterEach(() => {
+		unregisterModelProvider("mock");
+	});
+
+	it("returns the mock response with real token usage and credits", async () => {
+		const model = createMockModel("Hola, ¿en qué te ayudo?");
+		registerModelProvider("mock", () => model);
+
+		const result = await callAIModel({
+			systemPrompt: "You are a sales agent",
+			messages: [{ role: "user", content: "Hola" }],
+			userMessage: "Hola",
+			temperature: 70,
+			maxTokens: 500,
+			model: "mock:gpt-4o",
+		});
+
+		expect(result).toEqual({
+			content: "Hola, ¿en qué te ayudo?",
+			inputTokens: 1200,
+			outputTokens: 300,
+			creditsUsed: 60, // gpt-4o pricing: ceil(1.2 * 25) + ceil(0.3 * 100)
+		});
+
+		const call = model.doGenerateCalls[0];
+		expect(call?.temperature).toBe(0.7);
+		expect(call?.maxOutputTokens).toBe(500);
+		// Already-persisted inbound message is not sent twice
+		expect(call?.prompt.filter((m) => m.role === "user")).toHaveLength(1);
+	});
+});
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "@/lib/db";
+import { createQuoteHandler } from "@/lib/ember/actions/handlers/create-quote";
+import { renderQuotePdf } from "@/lib/ember/quotes/pdf";
+import { calculateQuoteTotals } from "@/lib/ember/quotes/pricing";
+import { createQuote, sendQuote } from "@/lib/ember/quotes/quotes";
+
+vi.mock("@/lib/ember/quotes/quotes", () => ({
+	createQuote: vi.fn(),
+	sendQuote: vi.fn(),
+	getQuotePublicUrl: (token: string) => `https://example.com/quote/${token}`,
+}));
+
+describe("calculateQuoteTotals", () => {
+	it("counts compare-at prices above the price as discounts", () => {
+		expect(
+			calculateQuoteTotals([
+				{ quantity: 2, unitPrice: 8000, compareAtPrice: 10000 },
+				{ quantity: 1, unitPrice: 2500, compareAtPrice: null },
+			]),
+		).toEqual({ subtotal: 22500, discountTotal: 4000, total: 18500 });
+	});
+
+	it("ignores compare-at prices below the price", () => {
+		expect(
+			calculateQuoteTotals([
+				{ quantity: 3, unitPrice: 1000, compareAtPrice: 900 },
+			]),
+		).toEqual({ subtotal: 3000, discountTotal: 0, total: 3000 });
+	});
+});
+
+describe("renderQuotePdf", () => {
+	it("renders quotes spanning several pages", async () => {
+		const pdf = await renderQuotePdf({
+			number: "Q-TEST1234",
+			organizationName: "Acme — Café",
+			contact: { name: "Ana Núñez", company: null, email: "ana@example.com" },
+			issuedAt: new Date("2026-01-10T00:00:00Z"),
+			validUntil: new Date("2026-02-09T00:00:00Z"),
+			currency: "usd",
+			items: Array.from({ length: 60 }, (_, index) => ({
+				description: `Item ${index + 1} “special” edition`,
+				sku: `SKU-${index + 1}`,
+				quantity: 1,
+				unitPrice: 1000,
+				compareAtPrice: index % 2 === 0 ? 1200 : null,
+				total: 1000,
+			})),
+			subtotal: 66000,
+			discountTotal: 6000,
+			total: 60000,
+			notes: "Prices include delivery.\nPayment within 15 days.",
+			publicUrl: "https://example.com/quote/abc",
+		});
+
+		expect(Buffer.from(pdf.subarray(0, 5)).toString()).toBe("%PDF-");
+		expect(pdf.byteLength).toBeGreaterThan(1000);
+	});
+});
+
+describe.sequential("create-quote action", () => {
+	const context = {
+		organizationId: "org-1",
+		conversationId: "conv-1",
+		contactId: "contact-1",
+		channel: "whatsapp",
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(createQuote).mockResolvedValue({
+			id: "quote-1",
+			number: "Q-TEST1234",
+			status: "draft",
+		} as never);
+		vi.mocked(sendQuote).mockResolvedValue({
+			number: "Q-TEST1234",
+			status: "sent",
+			total: 18500,
+			currency: "usd",
+			publicToken: "abc",
+		} as never);
+	});
+
+	it("sends quotes priced from the inventory only", async () => {
+		const result = await createQuoteHandler.execute(
+			createQuoteHandler.parameters.parse({
+				items: [{ sku: "SKU-1", quantity: 2, price: 1 }],
+			}),
+			context,
+		);
+
+		expect(vi.mocked(createQuote).mock.calls[0]?.[0].items).toEqual([
+			{ sku: "SKU-1", description: undefined, quantity: 2 },
+		]);
+		expect(sendQuote).toHaveBeenCalledWith("quote-1", "org-1");
+		expect(result).toMatchObject({ status: "sent", total: 185 });
+	});
+
+	it("keeps quotes with items outside the inventory as unpriced drafts", async () => {
+		const result = await createQuoteHandler.execute(
+			createQuoteHandler.parameters.parse({
+				items: [
+					{ sku: "SKU-1", quantity: 1 },
+					{ description: "Installation", quantity: 1, price: 0.01 },
+				],
+			}),
+			context,
+		);
+
+		expect(vi.mocked(createQuote).mock.calls[0]?.[0].items[1]).toEqual({
+			description: "Installation",
+			quantity: 1,
+			unitPrice: 0,
+		});
+		expect(sendQuote).not.toHaveBeenCalled();
+		expect(result).toMatchObject({ status: "draft" });
+	});
+});
+
+describe.sequential("createQuote", () => {
+	it("retries with a new number when the organization already used it", async () => {
+		const { createQuote: createQuoteRecord } = await vi.importActual<
+			typeof import("@/lib/ember/quotes/quotes")
+		>("@/lib/ember/quotes/quotes");
+		vi.mocked(db.select).mockReturnValue({
+			from: () => ({ where: async () => [{ id: "contact-1" }] }),
+		} as never);
+		const numbers: string[] = [];
+		const transaction = vi.fn(async (run: (tx: unknown) => unknown) =>
+			run({
+				insert: () => ({
+					values: (values: { number?: string }) => ({
+						returning: async () => {
+							if (values.number) {
+								numbers.push(values.number);
+								if (numbers.length === 1) {
+									throw Object.assign(new Error("duplicate key"), {
+										code: "23505",
+										constraint: "quote_org_number_idx",
+									});
+								}
+							}
+							return [{ id: "quote-1", number: values.number }];
+						},
+					}),
+				}),
+			}),
+		);
+		Object.assign(db, { transaction });
+
+		const quote = await createQuoteRecord({
+			organizationId: "org-1",
+			contactId: "contact-1",
+			items: [{ description: "Installation", quantity: 1, unitPrice: 5000 }],
+		});
+
+		expect(transaction).toHaveBeenCalledTimes(2);
+		expect(numbers[0]).not.toBe(numbers[1]);
+		expect(quote.number).toBe(numbers[1]);
+	});
+});
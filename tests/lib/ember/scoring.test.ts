@@ -0,0 +1,232 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect, QueryBuilder } from "drizzle-orm/pg-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { heatScoreConfig } from "@/config/heat-score.config";
+import { db } from "@/lib/db";
+import {
+	HeatScoreRunReason,
+	HeatScoreRunStatus,
+	HeatScoreSignalType,
+} from "@/lib/db/schema/enums";
+import {
+	describeHeatScoreSignal,
+	getHeatLevel,
+	heatScoreSql,
+	processHeatScoreRun,
+	pruneContactScoreHistory,
+	signalPointsSql,
+	usesHeatScoreSignals,
+} from "@/lib/ember/memoria/scoring";
+import {
+	type HeatScoreModel,
+	heatScoreModelSchema,
+} from "@/schemas/heat-score.schema";
+
+const dialect = new PgDialect();
+
+const formId = "6f1c2a7e-3b9d-4c5e-8a1f-2d3e4f5a6b7c";
+
+const model: HeatScoreModel = {
+	decayHalfLifeDays: 10,
+	hotThreshold: 80,
+	warmThreshold: 50,
+	signals: [
+		{ type: HeatScoreSignalType.formSubmitted, weight: 40, formId },
+		{ type: HeatScoreSignalType.tag, weight: 30, tag: "vip" },
+		{
+			type: HeatScoreSignalType.customField,
+			weight: 20,
+			key: "plan",
+			value: "Pro",
+		},
+		{ type: HeatScoreSignalType.tag, weight: -50, tag: "unsubscribed" },
+	],
+};
+
+describe("signalPointsSql", () => {
+	it("halves decaying signals every half-life", () => {
+		const signal = model.signals[0];
+		if (!signal) throw new Error("Missing signal");
+
+		const query = dialect.sqlToQuery(signalPointsSql(signal, 10));
+
+		expect(query.sql).toContain("power(0.5::float8");
+		expect(query.sql).toContain('max("form_submission"."submitted_at")');
+		expect(query.params).toEqual([40, formId, 10 * 24 * 60 * 60]);
+	});
+
+	it("matches custom field values ignoring case, any value when empty", () => {
+		const match = dialect.sqlToQuery(
+			signalPointsSql(
+				{
+					type: HeatScoreSignalType.customField,
+					weight: 20,
+					key: "plan",
+					value: "Pro",
+				},
+				10,
+			),
+		);
+		const any = dialect.sqlToQuery(
+			signalPointsSql(
+				{
+					type: HeatScoreSignalType.customField,
+					weight: 20,
+					key: "plan",
+					value: "",
+				},
+				10,
+			),
+		);
+
+		// Malformed JSON doesn't fail the whole batch
+		expect(match.sql).toContain(
+			'try_jsonb("contact"."custom_fields") -> $2::text',
+		);
+		expect(match.sql).toContain("lower(field.value) = lower($3::text)");
+		expect(match.params).toEqual([20, "plan", "Pro"]);
+		expect(any.sql).not.toContain("lower(");
+		expect(any.params).toEqual([20, "plan"]);
+	});
+});
+
+describe("heatScoreSql", () => {
+	it("sums the points of every signal, rounded and clamped", () => {
+		const query = dialect.sqlToQuery(heatScoreSql(model));
+
+		expect(query.sql).toMatch(
+			/^least\(greatest\(round\(.+\), 0\), 100\)::int$/s,
+		);
+		expect(query.params.filter((param) => param === "vip")).toHaveLength(1);
+		expect(
+			dialect.sqlToQuery(heatScoreSql({ ...model, signals: [] })).sql,
+		).toBe("0");
+	});
+});
+
+describe("describeHeatScoreSignal", () => {
+	it("names forms, tags and custom fields", () => {
+		expect(
+			model.signals.map((signal) =>
+				describeHeatScoreSignal(signal, { [formId]: "Quote request" }),
+			),
+		).toEqual([
+			'Submitted "Quote request"',
+			'Tagged "vip"',
+			'plan is "Pro"',
+			'Tagged "unsubscribed"',
+		]);
+	});
+});
+
+describe("usesHeatScoreSignals", () => {
+	it("re-scores only on events changing a signal of the model", () => {
+		expect(
+			usesHeatScoreSignals(model, [HeatScoreSignalType.quoteAccepted]),
+		).toBe(false);
+		expect(
+			usesHeatScoreSignals(model, [
+				HeatScoreSignalType.recency,
+				HeatScoreSignalType.tag,
+			]),
+		).toBe(true);
+		expect(
+			usesHeatScoreSignals(heatScoreConfig.defaultModel, [
+				HeatScoreSignalType.responseTime,
+			]),
+		).toBe(true);
+	});
+});
+
+describe("getHeatLevel", () => {
+	it("uses the thresholds of the model", () => {
+		expect(getHeatLevel(80, model)).toBe("hot");
+		expect(getHeatLevel(79, model)).toBe("warm");
+		expect(getHeatLevel(49, model)).toBe("cold");
+	});
+});
+
+describe("heatScoreModelSchema", () => {
+	it("requires warm contacts to start below hot contacts", () => {
+		expect(
+			heatScoreModelSchema.safeParse({ ...model, warmThreshold: 80 }).success,
+		).toBe(false);
+		expect(heatScoreModelSchema.safeParse(model).success).toBe(true);
+	});
+});
+
+describe.sequential("processHeatScoreRun", () => {
+	// Statement re-scoring the batch of a run of `reason`, with the default model
+	async function rescoreStatement(reason: HeatScoreRunReason) {
+		Object.assign(db.query, {
+			heatScoreRunTable: {
+				findFirst: vi.fn().mockResolvedValue({
+					id: "run-1",
+					status: HeatScoreRunStatus.running,
+					reason,
+				}),
+			},
+			heatScoreModelTable: { findFirst: vi.fn().mockResolvedValue(undefined) },
+		});
+		const execute = vi
+			.fn()
+			.mockResolvedValue({ rows: [{ scanned: 1, last_id: null, updated: 1 }] });
+		const update = vi.fn().mockReturnValue({ set: () => ({ where: vi.fn() }) });
+		Object.assign(db, {
+			transaction: (callback: (tx: unknown) => unknown) =>
+				callback({ execute, update }),
+		});
+
+		await processHeatScoreRun(
+			"test-org-id",
+			{ runId: "run-1", cursor: null },
+			false,
+		);
+
+		return dialect.sqlToQuery(execute.mock.calls[0]?.[0] as SQL).sql;
+	}
+
+	it("only logs changes of heat level when decaying", async () => {
+		const levelChange =
+			/where score <> previous_score and case when score >= \$\d+ then 'hot' .* end <> case when previous_score >= \$\d+ then 'hot'/;
+
+		expect(await rescoreStatement(HeatScoreRunReason.decay)).toMatch(
+			levelChange,
+		);
+		expect(
+			await rescoreStatement(HeatScoreRunReason.modelUpdate),
+		).not.toContain("then 'hot'");
+	});
+});
+
+describe.sequential("pruneContactScoreHistory", () => {
+	const { historyPruneBatchSize } = heatScoreConfig;
+
+	afterEach(() => {
+		heatScoreConfig.historyPruneBatchSize = historyPruneBatchSize;
+		vi.useRealTimers();
+	});
+
+	it("deletes changes past the retention in batches", async () => {
+		vi.useFakeTimers({ now: new Date("2026-10-19T00:00:00Z") });
+		heatScoreConfig.historyPruneBatchSize = 2;
+		vi.mocked(db.select).mockImplementation(((fields: never) =>
+			new QueryBuilder().select(fields)) as never);
+		const where = vi
+			.fn()
+			.mockReturnValueOnce({
+				returning: vi.fn().mockResolvedValue([{ id: "1" }, { id: "2" }]),
+			})
+			.mockReturnValueOnce({
+				returning: vi.fn().mockResolvedValue([{ id: "3" }]),
+			});
+		vi.mocked(db.delete).mockReturnValue({ where } as never);
+
+		expect(await pruneContactScoreHistory()).toBe(3);
+
+		expect(where).toHaveBeenCalledTimes(2);
+		const query = dialect.sqlToQuery(where.mock.calls[0]?.[0] as SQL);
+		expect(query.sql).toContain('"created_at" < $1 limit $2)');
+		expect(query.params).toEqual(["2025-10-19T00:00:00.000Z", 2]);
+	});
+});
@@ -0,0 +1,55 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect, QueryBuilder } from "drizzle-orm/pg-core";
+import { describe, expect, it, vi } from "vitest";
+import { db } from "@/lib/db";
+import {
+	contactTagCondition,
+	normalizeTagName,
+	normalizeTagNames,
+} from "@/lib/ember/memoria/tags";
+
+const dialect = new PgDialect();
+
+// Build the tagged contacts subquery without a database
+vi.mocked(db.select).mockImplementation(((fields: never) =>
+	new QueryBuilder().select(fields)) as never);
+
+describe("tags", () => {
+	it("normalizes tag names", () => {
+		expect(normalizeTagName("  VIP   Client ")).toBe("vip client");
+		expect(normalizeTagNames(["VIP", "vip ", " ", "Retail"])).toEqual([
+			"vip",
+			"retail",
+		]);
+	});
+
+	it("matches contacts with any of the tags", () => {
+		const condition = contactTagCondition("org", ["VIP", " retail"], "any");
+		const query = dialect.sqlToQuery(condition as SQL);
+
+		expect(query.sql).toContain('"contact"."id" in (select');
+		expect(query.sql).toContain('"tag"."name" in ($2, $3)');
+		expect(query.sql).toContain('group by "contact_tag"."contact_id"');
+		expect(query.sql).not.toContain("having");
+		expect(query.params).toEqual(["org", "vip", "retail"]);
+	});
+
+	it("matches contacts with all of the tags", () => {
+		const condition = contactTagCondition(
+			"org",
+			["VIP", "retail", "vip"],
+			"all",
+		);
+		const query = dialect.sqlToQuery(condition as SQL);
+
+		expect(query.sql).toContain('"tag"."name" in ($2, $3)');
+		expect(query.sql).toMatch(
+			/group by "contact_tag"\."contact_id" having count\(\*\) = \$4\)$/,
+		);
+		expect(query.params).toEqual(["org", "vip", "retail", 2]);
+	});
+
+	it("does not filter contacts without tag names", () => {
+		expect(contactTagCondition("org", [" "], "all")).toBeUndefined();
+	});
+});
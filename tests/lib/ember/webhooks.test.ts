@@ -0,0 +1,232 @@
+import crypto from "node:crypto";
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { POST as postWhatsAppWebhook } from "@/app/api/webhooks/whatsapp/route";
+import { encryptCredentials } from "@/lib/credentials/vault";
+import { db } from "@/lib/db";
+import { InstagramAdapter } from "@/lib/ember/canales/instagram";
+import { channelManager } from "@/lib/ember/canales/manager";
+import {
+	ingestWebhookMessage,
+	parseWebhookBody,
+	verifyMetaSubscription,
+	verifyWebhookSignature,
+} from "@/lib/ember/canales/webhooks";
+import { env } from "@/lib/env";
+
+vi.mock("@/lib/ember/canales/webhooks", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@/lib/ember/canales/webhooks")>()),
+	ingestWebhookMessage: vi.fn().mockResolvedValue({ status: "ignored" }),
+}));
+
+Object.assign(env, {
+	WHATSAPP_APP_SECRET: "whatsapp-secret",
+	CREDENTIALS_MASTER_KEY: Buffer.alloc(32, 1).toString("base64"),
+	CREDENTIALS_MASTER_KEY_ID: "1",
+});
+
+describe("verifyMetaSubscription", () => {
+	it("echoes the challenge when the verify token matches", async () => {
+		const response = verifyMetaSubscription(
+			new URLSearchParams({
+				"hub.mode": "subscribe",
+				"hub.verify_token": "token",
+				"hub.challenge": "1158201444",
+			}),
+			"token",
+		);
+
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe("1158201444");
+	});
+
+	it("rejects a wrong verify token", () => {
+		const response = verifyMetaSubscription(
+			new URLSearchParams({
+				"hub.mode": "subscribe",
+				"hub.verify_token": "nope",
+				"hub.challenge": "1158201444",
+			}),
+			"token",
+		);
+
+		expect(response.status).toBe(403);
+	});
+});
+
+describe("verifyWebhookSignature", () => {
+	// Meta escapes non-ASCII characters, so the raw body must be signed as-is
+	const body =
+		'{"entry":[{"changes":[{"value":{"text":"Hola se\\u00f1or"}}]}]}';
+	const signature = `sha256=${crypto
+		.createHmac("sha256", "whatsapp-secret")
+		.update(body)
+		.digest("hex")}`;
+
+	it("accepts a valid signature over the raw body", () => {
+		expect(verifyWebhookSignature("whatsapp", body, signature)).toBe(true);
+	});
+
+	it("rejects a missing or tampered signature", () => {
+		expect(verifyWebhookSignature("whatsapp", body, null)).toBe(false);
+		expect(
+			verifyWebhookSignature(
+				"whatsapp",
+				body.replace("Hola", "Adios"),
+				signature,
+			),
+		).toBe(false);
+	});
+
+	it("rejects when the channel secret is not configured", () => {
+		expect(verifyWebhookSignature("instagram", body, signature)).toBe(false);
+	});
+
+	it("rejects inbound emails until their secret is configured", () => {
+		const emailSignature = crypto
+			.createHmac("sha256", "email-secret")
+			.update(body)
+			.digest("hex");
+		expect(verifyWebhookSignature("email", body, emailSignature)).toBe(false);
+
+		(env as Record<string, unknown>).RESEND_WEBHOOK_SECRET = "email-secret";
+		try {
+			expect(verifyWebhookSignature("email", body, emailSignature)).toBe(true);
+			expect(verifyWebhookSignature("email", body, null)).toBe(false);
+		} finally {
+			(env as Record<string, unknown>).RESEND_WEBHOOK_SECRET = undefined;
+		}
+	});
+});
+
+describe("parseWebhookBody", () => {
+	it("only accepts a JSON object", () => {
+		expect(parseWebhookBody('{"entry":[]}')).toEqual({ entry: [] });
+		expect(parseWebhookBody("{not json")).toBeUndefined();
+		expect(parseWebhookBody("null")).toBeUndefined();
+	});
+});
+
+describe("WhatsApp webhook route", () => {
+	function signedRequest(body: string) {
+		const signature = `sha256=${crypto
+			.createHmac("sha256", "whatsapp-secret")
+			.update(body)
+			.digest("hex")}`;
+		return new NextRequest("https://ember.test/api/webhooks/whatsapp", {
+			method: "POST",
+			body,
+			headers: { "x-hub-signature-256": signature },
+		});
+	}
+
+	it("ingests every message of every entry and change", async () => {
+		const change = (phoneNumberId: string, senders: string[]) => ({
+			value: {
+				metadata: { phone_number_id: phoneNumberId },
+				contacts: senders.map((from) => ({
+					wa_id: from,
+					profile: { name: from },
+				})),
+				messages: senders.map((from) => ({ id: `wamid.${from}`, from })),
+			},
+		});
+		const response = await postWhatsAppWebhook(
+			signedRequest(
+				JSON.stringify({
+					entry: [
+						{ changes: [change("111", ["a", "b"]), change("222", ["c"])] },
+						{ changes: [change("333", ["d"])] },
+					],
+				}),
+			),
+		);
+
+		expect(response.status).toBe(200);
+		const calls = vi.mocked(ingestWebhookMessage).mock.calls;
+		expect(calls.map(([, accountId]) => accountId)).toEqual([
+			"111",
+			"111",
+			"222",
+			"333",
+		]);
+		// One message per payload, with its own sender's profile
+		expect(calls[1]?.[2]).toMatchObject({
+			entry: [
+				{
+					changes: [
+						{
+							value: {
+								messages: [{ from: "b" }],
+								contacts: [{ wa_id: "b" }],
+							},
+						},
+					],
+				},
+			],
+		});
+	});
+
+	it("rejects a body that isn't JSON", async () => {
+		const response = await postWhatsAppWebhook(signedRequest("{not json"));
+
+		expect(response.status).toBe(400);
+	});
+});
+
+describe("backfillExternalAccountIds", () => {
+	it("sets the account id of configs saved without one", async () => {
+		const from = vi.fn().mockReturnValue({
+			where: vi.fn().mockResolvedValue([
+				{
+					id: "config-1",
+					channelType: "whatsapp",
+					credentials: encryptCredentials({ phoneNumberId: "111" }),
+				},
+				{
+					id: "config-2",
+					channelType: "whatsapp",
+					credentials: encryptCredentials({ accessToken: "token" }),
+				},
+			]),
+		});
+		vi.mocked(db.select).mockReturnValue({ from } as never);
+		const set = vi.fn().mockReturnValue({
+			where: () => ({
+				returning: vi.fn().mockResolvedValue([{ id: "config-1" }]),
+			}),
+		});
+		vi.mocked(db.update).mockReturnValue({ set } as never);
+
+		const updated = await channelManager.backfillExternalAccountIds();
+
+		// Credentials without an account id are left for the next save
+		expect(updated).toBe(1);
+		expect(set).toHaveBeenCalledTimes(1);
+		expect(set).toHaveBeenCalledWith({ externalAccountId: "111" });
+	});
+});
+
+describe("normalizeIncoming", () => {
+	it("records the Instagram scoped sender id with the receiving account", async () => {
+		const message = await new InstagramAdapter().normalizeIncoming({
+			entry: [
+				{
+					messaging: [
+						{
+							sender: { id: "6872551802" },
+							recipient: { id: "17841400000" },
+							timestamp: 1760875200000,
+							message: { mid: "m_1", text: "Hi!" },
+						},
+					],
+				},
+			],
+		});
+
+		expect(message.sender).toEqual({
+			identifier: "6872551802",
+			accountId: "17841400000",
+		});
+	});
+});
@@ -0,0 +1,94 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { describe, expect, it } from "vitest";
+import { SavedViewEntity } from "@/lib/db/schema/enums";
+import { buildFilterCondition } from "@/lib/filters/conditions";
+import type { FilterCondition, FilterGroup } from "@/schemas/filter.schema";
+
+const dialect = new PgDialect();
+
+function condition(
+	field: string,
+	operator: FilterCondition["operator"],
+	value?: FilterCondition["value"],
+): FilterCondition {
+	return { type: "condition", field, operator, value };
+}
+
+function group(
+	combinator: FilterGroup["combinator"],
+	children: FilterGroup["children"],
+): FilterGroup {
+	return { type: "group", combinator, children };
+}
+
+async function toQuery(filter: FilterGroup) {
+	const where = await buildFilterCondition("org", SavedViewEntity.lead, filter);
+	return dialect.sqlToQuery(where as SQL);
+}
+
+describe("buildFilterCondition", () => {
+	it("ignores missing and empty filters", async () => {
+		expect(
+			await buildFilterCondition("org", SavedViewEntity.lead, null),
+		).toBeUndefined();
+		expect(
+			await buildFilterCondition(
+				"org",
+				SavedViewEntity.lead,
+				group("and", [group("or", [])]),
+			),
+		).toBeUndefined();
+	});
+
+	it("combines nested groups", async () => {
+		const query = await toQuery(
+			group("or", [
+				condition("status", "equals", ["won", "lost"]),
+				group("and", [
+					condition("estimatedValue", "greaterThan", "1000"),
+					condition("createdAt", "lessThan", "2026-01-31"),
+				]),
+			]),
+		);
+
+		expect(query.sql).toContain(" or ");
+		expect(query.sql).toContain(" and ");
+		expect(query.params).toEqual([
+			"won",
+			"lost",
+			1000,
+			new Date("2026-01-31T00:00:00Z").toISOString(),
+		]);
+	});
+
+	it("matches text case-insensitively and keeps empty values on notEquals", async () => {
+		const query = await toQuery(
+			group("and", [condition("company", "notEquals", "Acme")]),
+		);
+
+		expect(query.sql).toContain("not coalesce((lower(");
+		expect(query.params).toEqual(["Acme"]);
+	});
+
+	it("rejects unknown fields, invalid values and unavailable operators", async () => {
+		await expect(
+			toQuery(group("and", [condition("heatScore", "equals", "10")])),
+		).rejects.toThrow('Unknown filter field "heatScore"');
+		await expect(
+			toQuery(group("and", [condition("status", "equals", "archived")])),
+		).rejects.toThrow('Status: "archived" isn\'t a valid value');
+		await expect(
+			toQuery(group("and", [condition("estimatedValue", "contains", "1")])),
+		).rejects.toThrow("isn't available for number fields");
+	});
+
+	it("rejects filters nested too deep", async () => {
+		let filter = group("and", [condition("email", "isEmpty")]);
+		for (let depth = 0; depth < 4; depth++) {
+			filter = group("and", [filter]);
+		}
+
+		await expect(toQuery(filter)).rejects.toThrow("can't nest more than");
+	});
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import type { CustomFieldDefinition } from "@/lib/custom-fields/types";
+import {
+	CustomFieldEntity,
+	CustomFieldType,
+	ImportEntity,
+	LeadSource,
+	LeadStatus,
+} from "@/lib/db/schema/enums";
+import {
+	mapImportRow,
+	suggestImportMapping,
+	validateImportMapping,
+} from "@/lib/imports/fields";
+import { toParsedImportFile } from "@/lib/imports/parsing";
+
+const storeField: CustomFieldDefinition = {
+	id: "00000000-0000-0000-0000-000000000001",
+	entity: CustomFieldEntity.contact,
+	key: "store",
+	label: "Store",
+	type: CustomFieldType.select,
+	options: ["Centro", "Norte"],
+	currency: null,
+	required: false,
+	position: 0,
+	createdAt: new Date(),
+	updatedAt: new Date(),
+};
+
+describe("import mapping", () => {
+	it("suggests fields from common headers and ignores unknown columns", () => {
+		expect(
+			suggestImportMapping(ImportEntity.contacts, [
+				"Nombre completo",
+				"E-mail",
+				"Phone Number",
+				"Favorite color",
+				"Email",
+			]),
+		).toEqual(["fullName", "email", "phone", null, null]);
+	});
+
+	it("suggests custom fields from their label", () => {
+		expect(
+			suggestImportMapping(
+				ImportEntity.contacts,
+				["Name", "Store"],
+				[storeField],
+			),
+		).toEqual(["fullName", "customFields.store"]);
+	});
+
+	it("requires a name and a way to reach the contact", () => {
+		expect(
+			validateImportMapping(
+				ImportEntity.contacts,
+				["Name", "Notes"],
+				["fullName", null],
+			),
+		).toEqual(["Map a column to the email or the phone"]);
+		expect(
+			validateImportMapping(
+				ImportEntity.leads,
+				["Name", "Store"],
+				["fullName", "customFields.store"],
+			),
+		).toContain('Unknown custom field "store"');
+	});
+});
+
+describe("import rows", () => {
+	it("splits full names and collects custom fields and tags", () => {
+		const result = mapImportRow(
+			ImportEntity.contacts,
+			["fullName", "email", "tags", "customFields.store"],
+			["Ana María López", "ANA@Example.com", "VIP; Retail", "centro"],
+			[storeField],
+		);
+
+		expect(result.errors).toEqual([]);
+		expect(result.row?.data).toMatchObject({
+			firstName: "Ana",
+			lastName: "María López",
+			email: "ana@example.com",
+			tags: ["vip", "retail"],
+			customFields: { store: "Centro" },
+		});
+	});
+
+	it("parses lead statuses, sources and amounts", () => {
+		const result = mapImportRow(
+			ImportEntity.leads,
+			["firstName", "lastName", "email", "status", "source", "estimatedValue"],
+			["Luis", "Pérez", "luis@example.com", "Qualified", "Cold call", "$1,250"],
+		);
+
+		expect(result.row?.data).toMatchObject({
+			status: LeadStatus.qualified,
+			source: LeadSource.coldCall,
+			estimatedValue: 1250,
+		});
+	});
+
+	it("rejects custom field values outside the field options", () => {
+		const result = mapImportRow(
+			ImportEntity.contacts,
+			["fullName", "email", "customFields.store"],
+			["Ana López", "ana@example.com", "Sur"],
+			[storeField],
+		);
+
+		expect(result.row).toBeNull();
+		expect(result.errors).toEqual(['Store: "Sur" is not one of the options']);
+	});
+
+	it("reports validation errors with the field label", () => {
+		const result = mapImportRow(
+			ImportEntity.contacts,
+			["firstName", "email"],
+			["Ana", "not-an-email"],
+		);
+
+		expect(result.row).toBeNull();
+		expect(result.errors).toEqual(["Email: Invalid email"]);
+	});
+});
+
+describe("import files", () => {
+	it("drops empty rows and pads cells to the header length", () => {
+		expect(
+			toParsedImportFile([
+				["Name", "", "Email"],
+				["Ana", "x"],
+				["", "", ""],
+				["Luis", "y", "luis@example.com", "extra"],
+			]),
+		).toEqual({
+			headers: ["Name", "Column 2", "Email"],
+			rows: [
+				["Ana", "x", ""],
+				["Luis", "y", "luis@example.com"],
+			],
+		});
+	});
+});
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { db } from "@/lib/db";
+import { JobType } from "@/lib/db/schema/enums";
+import { processMessage } from "@/lib/ember/core/engine";
+import { runJob } from "@/lib/jobs/handlers";
+import { enqueueJob } from "@/lib/jobs/queue";
+import type { Job } from "@/lib/jobs/types";
+
+vi.mock("@/lib/ember/core/engine", () => ({ processMessage: vi.fn() }));
+vi.mock("@/lib/jobs/queue", () => ({ enqueueJob: vi.fn() }));
+
+const inboundId = "5c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f";
+
+function aiReplyJob(): Job {
+	return {
+		id: "job-1",
+		type: JobType.aiReply,
+		organizationId: "test-org-id",
+		attempts: 2,
+		maxAttempts: 5,
+		payload: JSON.stringify({
+			conversationId: "conversation-1",
+			contactId: "contact-1",
+			channel: "whatsapp",
+			messageId: inboundId,
+			content: "How much is shipping?",
+		}),
+	} as Job;
+}
+
+function mockReply(reply: { id: string } | undefined) {
+	Object.assign(db.query, {
+		conversationTable: {
+			findFirst: vi.fn().mockResolvedValue({ transferredToHuman: false }),
+		},
+		conversationMessageTable: {
+			findFirst: vi.fn().mockResolvedValue(reply),
+		},
+	});
+}
+
+describe.sequential("AI reply job", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("saves the reply linked to the inbound message", async () => {
+		mockReply(undefined);
+		vi.mocked(processMessage).mockResolvedValue({
+			messageId: "reply-1",
+			response: "Shipping is free",
+		} as never);
+
+		await runJob(aiReplyJob());
+
+		expect(processMessage).toHaveBeenCalledWith(
+			expect.objectContaining({ replyToId: inboundId }),
+		);
+		expect(enqueueJob).toHaveBeenCalledWith(
+			expect.objectContaining({ payload: { messageId: "reply-1" } }),
+		);
+	});
+
+	it("only delivers a reply saved by an earlier attempt", async () => {
+		mockReply({ id: "reply-1" });
+
+		await runJob(aiReplyJob());
+
+		// The model and its actions don't run again
+		expect(processMessage).not.toHaveBeenCalled();
+		expect(enqueueJob).toHaveBeenCalledWith({
+			type: JobType.messageDelivery,
+			organizationId: "test-org-id",
+			payload: { messageId: "reply-1" },
+			uniqueKey: "message_delivery:reply-1",
+		});
+	});
+});
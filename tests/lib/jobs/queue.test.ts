@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { jobsConfig } from "@/config/jobs.config";
+import { getBackoffDelay, selectClaimableJobs } from "@/lib/jobs/queue";
+import type { Job } from "@/lib/jobs/types";
+
+function createJob(id: string, organizationId: string | null): Job {
+	return { id, organizationId } as Job;
+}
+
+describe("getBackoffDelay", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("doubles the delay after each failed attempt", () => {
+		vi.spyOn(Math, "random").mockReturnValue(0);
+		const { baseMs } = jobsConfig.backoff;
+
+		expect(getBackoffDelay(1)).toBe(baseMs);
+		expect(getBackoffDelay(2)).toBe(baseMs * 2);
+		expect(getBackoffDelay(3)).toBe(baseMs * 4);
+	});
+
+	it("caps the delay", () => {
+		vi.spyOn(Math, "random").mockReturnValue(1);
+
+		expect(getBackoffDelay(30)).toBe(jobsConfig.backoff.maxMs);
+	});
+});
+
+describe("selectClaimableJobs", () => {
+	it("skips organizations at their concurrency limit", () => {
+		const candidates = [
+			createJob("a1", "org-a"),
+			createJob("a2", "org-a"),
+			createJob("b1", "org-b"),
+			createJob("a3", "org-a"),
+		];
+
+		const selected = selectClaimableJobs(
+			candidates,
+			new Map([["org-a", 1]]),
+			10,
+			2,
+		);
+
+		expect(selected.map((job) => job.id)).toEqual(["a1", "b1"]);
+	});
+
+	it("does not limit jobs without an organization", () => {
+		const candidates = [
+			createJob("1", null),
+			createJob("2", null),
+			createJob("3", null),
+		];
+
+		expect(selectClaimableJobs(candidates, new Map(), 2, 1)).toHaveLength(2);
+	});
+});
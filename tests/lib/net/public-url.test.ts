@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PublicUrlError } from "@/lib/net/errors";
+import {
+	assertPublicUrl,
+	fetchPublicUrl,
+	isPublicAddress,
+} from "@/lib/net/public-url";
+
+describe.sequential("public urls", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("refuses private, loopback and link-local addresses", () => {
+		for (const address of [
+			"127.0.0.1",
+			"10.1.2.3",
+			"172.20.0.1",
+			"192.168.1.1",
+			"169.254.169.254",
+			"100.64.0.1",
+			"0.0.0.0",
+			"::1",
+			"fd00:ec2::254",
+			"fe80::1",
+			"::ffff:127.0.0.1",
+		]) {
+			expect(isPublicAddress(address), address).toBe(false);
+		}
+		expect(isPublicAddress("93.184.216.34")).toBe(true);
+		expect(isPublicAddress("2606:4700::1111")).toBe(true);
+		expect(isPublicAddress("not-an-ip")).toBe(false);
+	});
+
+	it("checks the host of a URL", async () => {
+		await expect(
+			assertPublicUrl("http://169.254.169.254/latest/meta-data"),
+		).rejects.toBeInstanceOf(PublicUrlError);
+		await expect(assertPublicUrl("http://[::1]:3000/")).rejects.toThrow(
+			"::1 is not a public address",
+		);
+		await expect(assertPublicUrl("http://localhost:3000/")).rejects.toThrow(
+			PublicUrlError,
+		);
+		await expect(assertPublicUrl("ftp://93.184.216.34/")).rejects.toThrow(
+			"URL must use http or https",
+		);
+		await expect(
+			assertPublicUrl("https://93.184.216.34/hook"),
+		).resolves.toBeInstanceOf(URL);
+	});
+
+	it("doesn't follow redirects to private addresses", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(
+			new Response(null, {
+				status: 302,
+				headers: { location: "http://127.0.0.1:8080/admin" },
+			}),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			fetchPublicUrl("https://93.184.216.34/page", { maxRedirects: 3 }),
+		).rejects.toThrow("127.0.0.1 is not a public address");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0]?.[1]).toMatchObject({ redirect: "manual" });
+	});
+
+	it("returns redirects as is past the limit", async () => {
+		const fetchMock = vi.fn().mockResolvedValue(
+			new Response(null, {
+				status: 301,
+				headers: { location: "https://93.184.216.34/moved" },
+			}),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const response = await fetchPublicUrl("https://93.184.216.34/hook");
+
+		expect(response.status).toBe(301);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,55 @@
+import crypto from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { WebhookEventType } from "@/lib/db/schema/enums";
+import { parseWebhookEvents } from "@/lib/webhooks/endpoints";
+import {
+	generateWebhookSecret,
+	getWebhookHeaders,
+	signWebhookPayload,
+} from "@/lib/webhooks/signing";
+
+describe("webhook signatures", () => {
+	const secret = generateWebhookSecret();
+	const body = JSON.stringify({ id: "evt", type: "contact.created" });
+
+	it("signs the timestamp and the raw body with HMAC-SHA256", () => {
+		const expected = crypto
+			.createHmac("sha256", secret)
+			.update(`1760000000.${body}`)
+			.digest("hex");
+
+		expect(signWebhookPayload(secret, body, 1760000000)).toBe(
+			`t=1760000000,v1=${expected}`,
+		);
+		expect(signWebhookPayload(secret, `${body} `, 1760000000)).not.toBe(
+			`t=1760000000,v1=${expected}`,
+		);
+	});
+
+	it("sends the event and delivery ids with the signature", () => {
+		const headers = getWebhookHeaders({
+			secret,
+			body,
+			eventId: "event-id",
+			eventType: WebhookEventType.contactCreated,
+			deliveryId: "delivery-id",
+			timestamp: 1760000000,
+		});
+
+		expect(headers["Ember-Event"]).toBe("contact.created");
+		expect(headers["Ember-Event-Id"]).toBe("event-id");
+		expect(headers["Ember-Delivery-Id"]).toBe("delivery-id");
+		expect(headers["Ember-Signature"]).toBe(
+			signWebhookPayload(secret, body, 1760000000),
+		);
+	});
+});
+
+describe("webhook subscriptions", () => {
+	it("drops unknown event types", () => {
+		expect(
+			parseWebhookEvents('["lead.status_changed","invoice.paid"]'),
+		).toEqual([WebhookEventType.leadStatusChanged]);
+		expect(parseWebhookEvents("not json")).toEqual([]);
+	});
+});
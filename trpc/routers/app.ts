@@ -5,6 +5,7 @@ export const appRouter = createTRPCRouter({
 	admin: lazy(() => import("./admin")),
 	contact: lazy(() => import("./contact")),
 	organization: lazy(() => import("./organization")),
+	quote: lazy(() => import("./quote")),
 	storage: lazy(() => import("./storage")),
 	user: lazy(() => import("./user")),
 });
@@ -15,13 +15,26 @@ import {
 import { createTRPCRouter, protectedProcedure } from "@/trpc/init";
 import { organizationAgentRouter } from "@/trpc/routers/organization/organization-agent-router";
 import { organizationAiRouter } from "@/trpc/routers/organization/organization-ai-router";
+import { organizationApiKeyRouter } from "@/trpc/routers/organization/organization-api-key-router";
 import { organizationChannelRouter } from "@/trpc/routers/organization/organization-channel-router";
 import { organizationContactRouter } from "@/trpc/routers/organization/organization-contact-router";
+import { organizationConversationRouter } from "@/trpc/routers/organization/organization-conversation-router";
 import { organizationCreditRouter } from "@/trpc/routers/organization/organization-credit-router";
+import { organizationCustomFieldRouter } from "@/trpc/routers/organization/organization-custom-field-router";
+import { organizationDuplicateRouter } from "@/trpc/routers/organization/organization-duplicate-router";
 import { organizationFormRouter } from "@/trpc/routers/organization/organization-form-router";
+import { organizationHeatScoreRouter } from "@/trpc/routers/organization/organization-heat-score-router";
+import { organizationImportRouter } from "@/trpc/routers/organization/organization-import-router";
 import { organizationInventoryRouter } from "@/trpc/routers/organization/organization-inventory-router";
+import { organizationKnowledgeRouter } from "@/trpc/routers/organization/organization-knowledge-router";
 import { organizationLeadRouter } from "@/trpc/routers/organization/organization-lead-router";
+import { organizationMeetingRouter } from "@/trpc/routers/organization/organization-meeting-router";
+import { organizationPipelineRouter } from "@/trpc/routers/organization/organization-pipeline-router";
+import { organizationQuoteRouter } from "@/trpc/routers/organization/organization-quote-router";
+import { organizationSavedViewRouter } from "@/trpc/routers/organization/organization-saved-view-router";
 import { organizationSubscriptionRouter } from "@/trpc/routers/organization/organization-subscription-router";
+import { organizationTagRouter } from "@/trpc/routers/organization/organization-tag-router";
+import { organizationWebhookRouter } from "@/trpc/routers/organization/organization-webhook-router";
 
 async function generateOrganizationSlug(name: string): Promise<string> {
 	const baseSlug = slugify(name, {
@@ -131,11 +144,24 @@ export const organizationRouter = createTRPCRouter({
 	// Context-specific sub-routers
 	agent: organizationAgentRouter,
 	ai: organizationAiRouter,
+	apiKey: organizationApiKeyRouter,
 	channel: organizationChannelRouter,
 	contact: organizationContactRouter,
+	conversation: organizationConversationRouter,
 	credit: organizationCreditRouter,
+	customField: organizationCustomFieldRouter,
+	duplicate: organizationDuplicateRouter,
 	form: organizationFormRouter,
+	heatScore: organizationHeatScoreRouter,
+	import: organizationImportRouter,
 	inventory: organizationInventoryRouter,
+	knowledge: organizationKnowledgeRouter,
 	lead: organizationLeadRouter,
+	meeting: organizationMeetingRouter,
+	pipeline: organizationPipelineRouter,
+	quote: organizationQuoteRouter,
+	savedView: organizationSavedViewRouter,
 	subscription: organizationSubscriptionRouter,
+	tag: organizationTagRouter,
+	webhook: organizationWebhookRouter,
 });
@@ -0,0 +1,64 @@
+import { TRPCError } from "@trpc/server";
+import { ApiKeyError } from "@/lib/api/errors";
+import { createApiKey, listApiKeys, revokeApiKey } from "@/lib/api/keys";
+import { requirePaidPlan } from "@/lib/billing/guards";
+import { MemberRole } from "@/lib/db/schema/enums";
+import { apiKeyIdSchema, createApiKeySchema } from "@/schemas/api-key.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Only organization admins manage API keys
+ */
+const organizationAdminProcedure = protectedOrganizationProcedure.use(
+	async ({ ctx, next }) => {
+		if (
+			ctx.membership.role !== MemberRole.owner &&
+			ctx.membership.role !== MemberRole.admin
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Only organization admins can manage API keys",
+			});
+		}
+		return next();
+	},
+);
+
+/**
+ * Run an API key operation, turning API key errors into tRPC errors
+ */
+async function withApiKeyErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof ApiKeyError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationApiKeyRouter = createTRPCRouter({
+	list: organizationAdminProcedure.query(async ({ ctx }) => {
+		return await listApiKeys(ctx.organization.id);
+	}),
+
+	// The plain key is only in this response
+	create: organizationAdminProcedure
+		.input(createApiKeySchema)
+		.mutation(async ({ ctx, input }) => {
+			await requirePaidPlan(ctx.organization.id);
+
+			return await withApiKeyErrors(() =>
+				createApiKey(ctx.organization.id, input, ctx.user.id),
+			);
+		}),
+
+	revoke: organizationAdminProcedure
+		.input(apiKeyIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withApiKeyErrors(() => revokeApiKey(ctx.organization.id, input.id));
+
+			return { success: true };
+		}),
+});
@@ -1,12 +1,20 @@
 import { TRPCError } from "@trpc/server";
 import { eq } from "drizzle-orm";
+import { maskCredentials } from "@/lib/credentials/secrets";
+import { decryptCredentials } from "@/lib/credentials/vault";
 import { db } from "@/lib/db";
-import { channelConfigTable } from "@/lib/db/schema/tables";
+import { businessHoursTable, channelConfigTable } from "@/lib/db/schema/tables";
+import {
+	getBusinessHours,
+	getNextOpening,
+	isWithinBusinessHours,
+} from "@/lib/ember/calendar/business-hours";
 import { channelManager } from "@/lib/ember/canales/manager";
 import {
 	getChannelConfigSchema,
 	sendMessageSchema,
 	testChannelSchema,
+	updateBusinessHoursSchema,
 	updateChannelConfigSchema,
 } from "@/schemas/channel.schema";
 import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
@@ -18,9 +26,10 @@ export const organizationChannelRouter = createTRPCRouter({
 			where: eq(channelConfigTable.organizationId, ctx.organization.id),
 		});
 
+		// Secrets are write-only, the browser only sees masks
 		return configs.map((config) => ({
 			...config,
-			credentials: config.credentials ? JSON.parse(config.credentials) : {},
+			credentials: maskCredentials(decryptCredentials(config.credentials)),
 		}));
 	}),
 
@@ -40,7 +49,10 @@ export const organizationChannelRouter = createTRPCRouter({
 				});
 			}
 
-			return config;
+			return {
+				...config,
+				credentials: maskCredentials(config.credentials),
+			};
 		}),
 
 	// Update channel configuration
@@ -53,6 +65,7 @@ export const organizationChannelRouter = createTRPCRouter({
 				ctx.organization.id,
 				channelType,
 				updates,
+				ctx.user.id,
 			);
 
 			return { success: true };
@@ -70,6 +83,41 @@ export const organizationChannelRouter = createTRPCRouter({
 			return result;
 		}),
 
+	// Business hours with the current open / closed status
+	getBusinessHours: protectedOrganizationProcedure.query(async ({ ctx }) => {
+		const businessHours = await getBusinessHours(ctx.organization.id);
+		const now = new Date();
+
+		return {
+			...businessHours,
+			open: isWithinBusinessHours(businessHours, now),
+			nextOpening: getNextOpening(businessHours, now),
+		};
+	}),
+
+	// Set weekly hours, holidays and the organization away message
+	updateBusinessHours: protectedOrganizationProcedure
+		.input(updateBusinessHoursSchema)
+		.mutation(async ({ ctx, input }) => {
+			const values = {
+				timezone: input.timezone,
+				weeklyHours: JSON.stringify(input.weeklyHours),
+				holidays: JSON.stringify(input.holidays),
+				awayMessage: input.awayMessage || null,
+			};
+
+			const [saved] = await db
+				.insert(businessHoursTable)
+				.values({ organizationId: ctx.organization.id, ...values })
+				.onConflictDoUpdate({
+					target: businessHoursTable.organizationId,
+					set: values,
+				})
+				.returning();
+
+			return saved;
+		}),
+
 	// Send message through channel manager
 	sendMessage: protectedOrganizationProcedure
 		.input(sendMessageSchema)
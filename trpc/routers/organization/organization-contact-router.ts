@@ -1,15 +1,22 @@
 import { TRPCError } from "@trpc/server";
 import { and, eq } from "drizzle-orm";
 import { z } from "zod";
+import { resolveCustomFieldValues } from "@/lib/custom-fields/definitions";
+import { CustomFieldError } from "@/lib/custom-fields/errors";
+import { serializeCustomFieldValues } from "@/lib/custom-fields/values";
 import { db } from "@/lib/db";
+import { CustomFieldEntity, HeatScoreSignalType } from "@/lib/db/schema/enums";
 import {
 	contactAgreementTable,
 	contactNoteTable,
 	contactTable,
 } from "@/lib/db/schema/tables";
+import { ContactMergeError } from "@/lib/ember/memoria/errors";
 import {
 	detectDuplicateContacts,
+	listContactMerges,
 	mergeContacts,
+	unmergeContacts,
 } from "@/lib/ember/memoria/merger";
 import {
 	findOrCreateContact,
@@ -19,9 +26,13 @@ import {
 	listContacts,
 } from "@/lib/ember/memoria/queries";
 import {
+	getContactScoreHistory,
 	getHeatScoreDistribution,
 	recalculateHeatScore,
+	rescoreContacts,
 } from "@/lib/ember/memoria/scoring";
+import { setContactTags } from "@/lib/ember/memoria/tags";
+import { FilterError } from "@/lib/filters/errors";
 import {
 	createContactAgreementSchema,
 	createContactNoteSchema,
@@ -29,18 +40,39 @@ import {
 	detectDuplicatesSchema,
 	listContactsSchema,
 	mergeContactsSchema,
+	unmergeContactsSchema,
 	updateContactAgreementSchema,
 	updateContactNoteSchema,
 	updateContactSchema,
 } from "@/schemas/contact.schema";
+import { contactScoreHistorySchema } from "@/schemas/heat-score.schema";
 import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
 
+/**
+ * Run a contact operation, turning custom field and filter errors into tRPC
+ * errors
+ */
+async function withCustomFieldErrors<T>(
+	operation: () => Promise<T>,
+): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof CustomFieldError || error instanceof FilterError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
 export const organizationContactRouter = createTRPCRouter({
 	// List contacts with filters and pagination
 	list: protectedOrganizationProcedure
 		.input(listContactsSchema)
 		.query(async ({ ctx, input }) => {
-			return await listContacts(ctx.organization.id, input);
+			return await withCustomFieldErrors(() =>
+				listContacts(ctx.organization.id, input),
+			);
 		}),
 
 	// Get single contact with full profile
@@ -97,37 +129,63 @@ export const organizationContactRouter = createTRPCRouter({
 		.input(updateContactSchema)
 		.mutation(async ({ ctx, input }) => {
 			const { id, tags, customFields, ...data } = input;
+			const values =
+				customFields === undefined
+					? undefined
+					: await withCustomFieldErrors(() =>
+							resolveCustomFieldValues(
+								ctx.organization.id,
+								CustomFieldEntity.contact,
+								customFields ?? {},
+							),
+						);
 
 			// Prepare update data
 			const updateData = {
 				...data,
-				...(tags !== undefined && { tags: JSON.stringify(tags) }),
-				...(customFields !== undefined && {
-					customFields: JSON.stringify(customFields),
-				}),
+				...(values && { customFields: serializeCustomFieldValues(values) }),
 				updatedAt: new Date(),
 			};
 
-			// Atomic update with organization check
-			const [updatedContact] = await db
-				.update(contactTable)
-				.set(updateData)
-				.where(
-					and(
-						eq(contactTable.id, id),
-						eq(contactTable.organizationId, ctx.organization.id),
-					),
-				)
-				.returning();
-
-			if (!updatedContact) {
-				throw new TRPCError({
-					code: "NOT_FOUND",
-					message: "Contact not found",
-				});
-			}
-
-			return updatedContact;
+			return await db.transaction(async (tx) => {
+				// Atomic update with organization check
+				const [updatedContact] = await tx
+					.update(contactTable)
+					.set(updateData)
+					.where(
+						and(
+							eq(contactTable.id, id),
+							eq(contactTable.organizationId, ctx.organization.id),
+						),
+					)
+					.returning();
+
+				if (!updatedContact) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Contact not found",
+					});
+				}
+
+				if (tags !== undefined) {
+					const names = await setContactTags(
+						ctx.organization.id,
+						updatedContact.id,
+						tags,
+						tx,
+					);
+					updatedContact.tags = JSON.stringify(names);
+				}
+
+				await rescoreContacts(
+					ctx.organization.id,
+					[updatedContact.id],
+					[HeatScoreSignalType.tag, HeatScoreSignalType.customField],
+					tx,
+				);
+
+				return updatedContact;
+			});
 		}),
 
 	// Delete contact
@@ -217,7 +275,35 @@ export const organizationContactRouter = createTRPCRouter({
 				});
 			}
 
-			return await mergeContacts(input.primaryId, input.duplicateIds);
+			return await mergeContacts(input.primaryId, input.duplicateIds, {
+				mergedById: ctx.user.id,
+			});
+		}),
+
+	// Merges into a contact, newest first
+	mergeHistory: protectedOrganizationProcedure
+		.input(z.object({ contactId: z.string().uuid() }))
+		.query(async ({ ctx, input }) => {
+			return await listContactMerges(ctx.organization.id, input.contactId);
+		}),
+
+	// Undo a merge, restoring the duplicates and their records
+	unmerge: protectedOrganizationProcedure
+		.input(unmergeContactsSchema)
+		.mutation(async ({ ctx, input }) => {
+			try {
+				const restoredIds = await unmergeContacts(
+					ctx.organization.id,
+					input.mergeId,
+					ctx.user.id,
+				);
+				return { restoredIds };
+			} catch (error) {
+				if (error instanceof ContactMergeError) {
+					throw new TRPCError({ code: error.code, message: error.message });
+				}
+				throw error;
+			}
 		}),
 
 	// Recalculate heat score for a contact
@@ -243,6 +329,13 @@ export const organizationContactRouter = createTRPCRouter({
 			return { heatScore };
 		}),
 
+	// Heat score changes of a contact and the signals behind them
+	scoreHistory: protectedOrganizationProcedure
+		.input(contactScoreHistorySchema)
+		.query(async ({ ctx, input }) => {
+			return await getContactScoreHistory(ctx.organization.id, input.contactId);
+		}),
+
 	// Get contact statistics
 	stats: protectedOrganizationProcedure.query(async ({ ctx }) => {
 		return await getContactStats(ctx.organization.id);
@@ -0,0 +1,529 @@
+import { TRPCError } from "@trpc/server";
+import {
+	and,
+	count,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	ne,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	ConversationStatus,
+	MessageDirection,
+	MessageRole,
+} from "@/lib/db/schema/enums";
+import {
+	contactTable,
+	conversationMessageTable,
+	conversationTable,
+	userTable,
+} from "@/lib/db/schema/tables";
+import { channelManager } from "@/lib/ember/canales/manager";
+import type { KnowledgeCitation } from "@/lib/ember/knowledge/retrieval";
+import { logger } from "@/lib/logger";
+import {
+	publishConversationUpdated,
+	publishRealtimeEvent,
+	toRealtimeMessage,
+} from "@/lib/realtime/events";
+import { emitConversationTransferred } from "@/lib/webhooks/events";
+import {
+	conversationIdSchema,
+	listInboxConversationsSchema,
+	replyToConversationSchema,
+} from "@/schemas/conversation.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+type InboxUser = {
+	id: string;
+	name: string;
+	image: string | null;
+};
+
+/** Messages loaded in the conversation view */
+const CONVERSATION_MESSAGES_LIMIT = 200;
+
+// Inbound messages received since the transfer or the last time a human read the conversation
+const unreadCount = sql<number>`(
+	select count(*) from ${conversationMessageTable}
+	where ${conversationMessageTable.conversationId} = ${conversationTable.id}
+	and ${conversationMessageTable.direction} = ${MessageDirection.inbound}
+	and ${conversationMessageTable.createdAt} > coalesce(greatest(${conversationTable.lastReadAt}, ${conversationTable.transferredAt}), 'epoch'::timestamptz)
+)`.mapWith(Number);
+
+const lastMessagePreview = sql<string | null>`(
+	select ${conversationMessageTable.content} from ${conversationMessageTable}
+	where ${conversationMessageTable.conversationId} = ${conversationTable.id}
+	order by ${conversationMessageTable.createdAt} desc
+	limit 1
+)`;
+
+async function findConversation(id: string, organizationId: string) {
+	const conversation = await db.query.conversationTable.findFirst({
+		where: and(
+			eq(conversationTable.id, id),
+			eq(conversationTable.organizationId, organizationId),
+		),
+	});
+
+	if (!conversation) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Conversation not found",
+		});
+	}
+
+	return conversation;
+}
+
+export const organizationConversationRouter = createTRPCRouter({
+	// List conversations transferred to human agents
+	list: protectedOrganizationProcedure
+		.input(listInboxConversationsSchema)
+		.query(async ({ ctx, input }) => {
+			const conditions: SQL[] = [
+				eq(conversationTable.organizationId, ctx.organization.id),
+				eq(conversationTable.transferredToHuman, true),
+			];
+
+			if (input.assignment === "mine") {
+				conditions.push(eq(conversationTable.transferredToId, ctx.user.id));
+			} else if (input.assignment === "unassigned") {
+				conditions.push(isNull(conversationTable.transferredToId));
+			}
+
+			if (input.filters?.channel && input.filters.channel.length > 0) {
+				conditions.push(
+					inArray(conversationTable.channel, input.filters.channel),
+				);
+			}
+
+			if (input.filters?.status && input.filters.status.length > 0) {
+				conditions.push(
+					inArray(conversationTable.status, input.filters.status),
+				);
+			}
+
+			if (input.unreadOnly) {
+				conditions.push(sql`${unreadCount} > 0`);
+			}
+
+			const whereCondition = and(...conditions);
+
+			const [conversations, countResult] = await Promise.all([
+				db
+					.select({
+						id: conversationTable.id,
+						channel: conversationTable.channel,
+						status: conversationTable.status,
+						transferReason: conversationTable.transferReason,
+						transferredAt: conversationTable.transferredAt,
+						lastMessageAt: conversationTable.lastMessageAt,
+						messageCount: conversationTable.messageCount,
+						contact: {
+							id: sql<string>`${contactTable.id}`,
+							firstName: sql<string>`${contactTable.firstName}`,
+							lastName: sql<string>`${contactTable.lastName}`,
+							email: sql<string | null>`${contactTable.email}`,
+							phone: sql<string | null>`${contactTable.phone}`,
+						},
+						transferredTo: {
+							id: userTable.id,
+							name: userTable.name,
+							image: userTable.image,
+						},
+						lastMessage: lastMessagePreview,
+						unreadCount,
+					})
+					.from(conversationTable)
+					.innerJoin(
+						contactTable,
+						eq(contactTable.id, conversationTable.contactId),
+					)
+					.leftJoin(
+						userTable,
+						eq(userTable.id, conversationTable.transferredToId),
+					)
+					.where(whereCondition)
+					.orderBy(desc(conversationTable.lastMessageAt))
+					.limit(input.limit)
+					.offset(input.offset),
+				db
+					.select({ count: count() })
+					.from(conversationTable)
+					.where(whereCondition),
+			]);
+
+			return { conversations, total: countResult[0]?.count ?? 0 };
+		}),
+
+	// Badge counts for the inbox tabs and sidebar
+	counts: protectedOrganizationProcedure.query(async ({ ctx }) => {
+		const [result] = await db
+			.select({
+				total: count(),
+				mine: sql<number>`count(*) filter (where ${conversationTable.transferredToId} = ${ctx.user.id})`.mapWith(
+					Number,
+				),
+				unassigned:
+					sql<number>`count(*) filter (where ${conversationTable.transferredToId} is null)`.mapWith(
+						Number,
+					),
+				unread: sql<number>`count(*) filter (where ${unreadCount} > 0)`.mapWith(
+					Number,
+				),
+			})
+			.from(conversationTable)
+			.where(
+				and(
+					eq(conversationTable.organizationId, ctx.organization.id),
+					eq(conversationTable.transferredToHuman, true),
+					ne(conversationTable.status, ConversationStatus.closed),
+				),
+			);
+
+		return {
+			total: result?.total ?? 0,
+			mine: result?.mine ?? 0,
+			unassigned: result?.unassigned ?? 0,
+			unread: result?.unread ?? 0,
+		};
+	}),
+
+	// Conversation with contact and recent messages
+	get: protectedOrganizationProcedure
+		.input(conversationIdSchema)
+		.query(async ({ ctx, input }) => {
+			const conversation = await db.query.conversationTable.findFirst({
+				where: and(
+					eq(conversationTable.id, input.id),
+					eq(conversationTable.organizationId, ctx.organization.id),
+				),
+				with: {
+					transferredTo: {
+						columns: {
+							id: true,
+							name: true,
+							image: true,
+						},
+					},
+				},
+			});
+
+			if (!conversation) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Conversation not found",
+				});
+			}
+
+			const [contact, messages] = await Promise.all([
+				db
+					.select({
+						id: sql<string>`${contactTable.id}`,
+						firstName: sql<string>`${contactTable.firstName}`,
+						lastName: sql<string>`${contactTable.lastName}`,
+						email: sql<string | null>`${contactTable.email}`,
+						phone: sql<string | null>`${contactTable.phone}`,
+						company: sql<string | null>`${contactTable.company}`,
+						heatScore: sql<number>`${contactTable.heatScore}`,
+					})
+					.from(contactTable)
+					.where(eq(contactTable.id, conversation.contactId))
+					.then((rows) => rows[0] ?? null),
+				db.query.conversationMessageTable.findMany({
+					where: eq(conversationMessageTable.conversationId, conversation.id),
+					orderBy: desc(conversationMessageTable.createdAt),
+					limit: CONVERSATION_MESSAGES_LIMIT,
+					with: {
+						sentBy: {
+							columns: {
+								id: true,
+								name: true,
+								image: true,
+							},
+						},
+					},
+				}),
+			]);
+
+			return {
+				...conversation,
+				transferredTo: conversation.transferredTo as InboxUser | null,
+				contact,
+				// Oldest first for the conversation view
+				messages: messages.reverse().map((message) => ({
+					...message,
+					sentBy: message.sentBy as InboxUser | null,
+					citations: message.citations
+						? (JSON.parse(message.citations) as KnowledgeCitation[])
+						: [],
+				})),
+			};
+		}),
+
+	// Take over a conversation (from the queue or from the AI agent)
+	claim: protectedOrganizationProcedure
+		.input(conversationIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const conversation = await findConversation(
+				input.id,
+				ctx.organization.id,
+			);
+
+			if (
+				conversation.transferredToId &&
+				conversation.transferredToId !== ctx.user.id
+			) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "Conversation is already handled by another agent",
+				});
+			}
+
+			const [updated] = await db
+				.update(conversationTable)
+				.set({
+					transferredToHuman: true,
+					transferredToId: ctx.user.id,
+					transferredAt: conversation.transferredAt ?? new Date(),
+					transferReason:
+						conversation.transferReason ?? "Taken over by a human agent",
+					status: ConversationStatus.active,
+					closedAt: null,
+				})
+				.where(
+					and(
+						eq(conversationTable.id, conversation.id),
+						eq(conversationTable.organizationId, ctx.organization.id),
+						// Guard against two agents claiming at the same time
+						or(
+							isNull(conversationTable.transferredToId),
+							eq(conversationTable.transferredToId, ctx.user.id),
+						),
+					),
+				)
+				.returning();
+
+			if (!updated) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "Conversation is already handled by another agent",
+				});
+			}
+
+			await publishConversationUpdated(updated);
+			if (!conversation.transferredToHuman) {
+				await emitConversationTransferred(updated);
+			}
+
+			return updated;
+		}),
+
+	// Put a claimed conversation back in the unassigned queue
+	release: protectedOrganizationProcedure
+		.input(conversationIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [updated] = await db
+				.update(conversationTable)
+				.set({ transferredToId: null })
+				.where(
+					and(
+						eq(conversationTable.id, input.id),
+						eq(conversationTable.organizationId, ctx.organization.id),
+						eq(conversationTable.transferredToId, ctx.user.id),
+					),
+				)
+				.returning();
+
+			if (!updated) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Conversation not found or not assigned to you",
+				});
+			}
+
+			await publishConversationUpdated(updated);
+
+			return updated;
+		}),
+
+	// Reply as a human agent through the conversation's channel
+	reply: protectedOrganizationProcedure
+		.input(replyToConversationSchema)
+		.mutation(async ({ ctx, input }) => {
+			const conversation = await findConversation(
+				input.conversationId,
+				ctx.organization.id,
+			);
+
+			if (!conversation.transferredToHuman) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Take over the conversation before replying",
+				});
+			}
+
+			// Replying claims an unassigned conversation and marks it as read.
+			// The claim is checked in the update, so of two agents replying to
+			// an unassigned conversation at once only the first one sends.
+			const [updated] = await db
+				.update(conversationTable)
+				.set({
+					transferredToId: ctx.user.id,
+					lastReadAt: new Date(),
+				})
+				.where(
+					and(
+						eq(conversationTable.id, conversation.id),
+						or(
+							isNull(conversationTable.transferredToId),
+							eq(conversationTable.transferredToId, ctx.user.id),
+						),
+					),
+				)
+				.returning();
+
+			if (!updated) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "Conversation is handled by another agent",
+				});
+			}
+
+			if (!conversation.transferredToId) {
+				await publishConversationUpdated(updated);
+			}
+
+			try {
+				await channelManager.sendMessage(conversation.id, {
+					content: input.content,
+					contentType: input.contentType,
+					mediaUrl: input.mediaUrl,
+					sentById: ctx.user.id,
+				});
+			} catch (error) {
+				logger.error(
+					{ error, conversationId: conversation.id },
+					"Failed to send human agent reply",
+				);
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message:
+						error instanceof Error ? error.message : "Failed to send message",
+				});
+			}
+
+			return { success: true };
+		}),
+
+	// Return the conversation to the AI agent
+	handBack: protectedOrganizationProcedure
+		.input(conversationIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const conversation = await findConversation(
+				input.id,
+				ctx.organization.id,
+			);
+
+			if (!conversation.transferredToHuman) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Conversation is already handled by the AI agent",
+				});
+			}
+
+			const [updated] = await db
+				.update(conversationTable)
+				.set({
+					transferredToHuman: false,
+					transferredToId: null,
+					transferReason: null,
+					transferredAt: null,
+					handledByAi: true,
+					status: ConversationStatus.active,
+				})
+				.where(eq(conversationTable.id, conversation.id))
+				.returning();
+
+			const [systemMessage] = await db
+				.insert(conversationMessageTable)
+				.values({
+					conversationId: conversation.id,
+					direction: MessageDirection.outbound,
+					role: MessageRole.system,
+					content: "Conversation handed back to AI agent",
+					contentType: "text",
+					channel: conversation.channel,
+					sentById: ctx.user.id,
+				})
+				.returning();
+
+			if (updated) {
+				await publishConversationUpdated(updated);
+			}
+			if (systemMessage) {
+				await publishRealtimeEvent({
+					type: "message.created",
+					organizationId: ctx.organization.id,
+					conversationId: conversation.id,
+					contactId: conversation.contactId,
+					message: toRealtimeMessage(systemMessage),
+				});
+			}
+
+			return { success: true };
+		}),
+
+	// Close a conversation from the inbox
+	close: protectedOrganizationProcedure
+		.input(conversationIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [updated] = await db
+				.update(conversationTable)
+				.set({
+					status: ConversationStatus.closed,
+					closedAt: new Date(),
+				})
+				.where(
+					and(
+						eq(conversationTable.id, input.id),
+						eq(conversationTable.organizationId, ctx.organization.id),
+					),
+				)
+				.returning();
+
+			if (!updated) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Conversation not found",
+				});
+			}
+
+			await publishConversationUpdated(updated);
+
+			return updated;
+		}),
+
+	// Reset the unread count
+	markRead: protectedOrganizationProcedure
+		.input(conversationIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await db
+				.update(conversationTable)
+				.set({ lastReadAt: new Date() })
+				.where(
+					and(
+						eq(conversationTable.id, input.id),
+						eq(conversationTable.organizationId, ctx.organization.id),
+					),
+				);
+
+			return { success: true };
+		}),
+});
@@ -0,0 +1,101 @@
+import { TRPCError } from "@trpc/server";
+import {
+	createCustomFieldDefinition,
+	deleteCustomFieldDefinition,
+	listCustomFieldDefinitions,
+	reorderCustomFieldDefinitions,
+	updateCustomFieldDefinition,
+} from "@/lib/custom-fields/definitions";
+import { CustomFieldError } from "@/lib/custom-fields/errors";
+import { MemberRole } from "@/lib/db/schema/enums";
+import {
+	createCustomFieldSchema,
+	customFieldIdSchema,
+	listCustomFieldsSchema,
+	reorderCustomFieldsSchema,
+	updateCustomFieldSchema,
+} from "@/schemas/custom-field.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Only organization admins manage custom fields
+ */
+const organizationAdminProcedure = protectedOrganizationProcedure.use(
+	async ({ ctx, next }) => {
+		if (
+			ctx.membership.role !== MemberRole.owner &&
+			ctx.membership.role !== MemberRole.admin
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Only organization admins can manage custom fields",
+			});
+		}
+		return next();
+	},
+);
+
+/**
+ * Run a custom field operation, turning custom field errors into tRPC errors
+ */
+async function withCustomFieldErrors<T>(
+	operation: () => Promise<T>,
+): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof CustomFieldError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationCustomFieldRouter = createTRPCRouter({
+	// Every member sees the fields, in forms, tables and filters
+	list: protectedOrganizationProcedure
+		.input(listCustomFieldsSchema)
+		.query(async ({ ctx, input }) => {
+			return await listCustomFieldDefinitions(
+				ctx.organization.id,
+				input.entity,
+			);
+		}),
+
+	create: organizationAdminProcedure
+		.input(createCustomFieldSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withCustomFieldErrors(() =>
+				createCustomFieldDefinition(ctx.organization.id, input),
+			);
+		}),
+
+	update: organizationAdminProcedure
+		.input(updateCustomFieldSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withCustomFieldErrors(() =>
+				updateCustomFieldDefinition(ctx.organization.id, input),
+			);
+		}),
+
+	reorder: organizationAdminProcedure
+		.input(reorderCustomFieldsSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withCustomFieldErrors(() =>
+				reorderCustomFieldDefinitions(ctx.organization.id, input),
+			);
+
+			return { success: true };
+		}),
+
+	// Stored values stay on the records
+	delete: organizationAdminProcedure
+		.input(customFieldIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withCustomFieldErrors(() =>
+				deleteCustomFieldDefinition(ctx.organization.id, input.id),
+			);
+
+			return { success: true };
+		}),
+});
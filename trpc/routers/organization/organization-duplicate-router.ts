@@ -0,0 +1,116 @@
+import { TRPCError } from "@trpc/server";
+import { MemberRole } from "@/lib/db/schema/enums";
+import {
+	dismissDuplicateCandidate,
+	getDuplicateSettings,
+	listDuplicateCandidates,
+	mergeDuplicateCandidate,
+	scanContactDuplicates,
+	startDuplicateScan,
+	updateDuplicateSettings,
+} from "@/lib/ember/memoria/duplicates";
+import { ContactMergeError } from "@/lib/ember/memoria/errors";
+import {
+	contactDuplicatesSchema,
+	duplicateCandidateIdSchema,
+	listDuplicateCandidatesSchema,
+	mergeDuplicateCandidateSchema,
+	updateDuplicateSettingsSchema,
+} from "@/schemas/duplicate.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Every member reviews duplicates, only organization admins change how they
+ * are detected and merged
+ */
+const organizationAdminProcedure = protectedOrganizationProcedure.use(
+	async ({ ctx, next }) => {
+		if (
+			ctx.membership.role !== MemberRole.owner &&
+			ctx.membership.role !== MemberRole.admin
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Only organization admins can change duplicate settings",
+			});
+		}
+		return next();
+	},
+);
+
+/**
+ * Run a review operation, turning merge errors into tRPC errors
+ */
+async function withMergeErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof ContactMergeError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationDuplicateRouter = createTRPCRouter({
+	// Review queue, pending pairs by default
+	list: protectedOrganizationProcedure
+		.input(listDuplicateCandidatesSchema)
+		.query(async ({ ctx, input }) => {
+			return await listDuplicateCandidates(ctx.organization.id, input);
+		}),
+
+	// Queue the duplicates of one contact, e.g. when its profile is opened
+	scanContact: protectedOrganizationProcedure
+		.input(contactDuplicatesSchema)
+		.mutation(async ({ ctx, input }) => {
+			const queued = await withMergeErrors(() =>
+				scanContactDuplicates(ctx.organization.id, input.contactId),
+			);
+			return { queued };
+		}),
+
+	// Merge a pair with the field values picked by the reviewer
+	merge: protectedOrganizationProcedure
+		.input(mergeDuplicateCandidateSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withMergeErrors(() =>
+				mergeDuplicateCandidate(ctx.organization.id, input, ctx.user.id),
+			);
+		}),
+
+	// Not a duplicate, the pair isn't suggested again
+	dismiss: protectedOrganizationProcedure
+		.input(duplicateCandidateIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withMergeErrors(() =>
+				dismissDuplicateCandidate(ctx.organization.id, input.id, ctx.user.id),
+			);
+			return { success: true };
+		}),
+
+	getSettings: protectedOrganizationProcedure.query(async ({ ctx }) => {
+		return await getDuplicateSettings(ctx.organization.id);
+	}),
+
+	updateSettings: organizationAdminProcedure
+		.input(updateDuplicateSettingsSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await updateDuplicateSettings(ctx.organization.id, input);
+		}),
+
+	// Scan every contact now instead of waiting for the daily scan
+	scan: organizationAdminProcedure.mutation(async ({ ctx }) => {
+		const started = await startDuplicateScan(
+			ctx.organization.id,
+			new Date().toISOString(),
+		);
+		if (!started) {
+			throw new TRPCError({
+				code: "CONFLICT",
+				message: "A duplicate scan is already running",
+			});
+		}
+		return { success: true };
+	}),
+});
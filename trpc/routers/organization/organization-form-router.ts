@@ -1,7 +1,9 @@
 import { TRPCError } from "@trpc/server";
 import { and, eq } from "drizzle-orm";
 import { z } from "zod";
+import { listCustomFieldDefinitions } from "@/lib/custom-fields/definitions";
 import { db } from "@/lib/db";
+import { CustomFieldEntity } from "@/lib/db/schema/enums";
 import { formTable } from "@/lib/db/schema/tables";
 import {
 	getFormById,
@@ -13,6 +15,7 @@ import {
 } from "@/lib/ember/forms/builder";
 import {
 	createFormSchema,
+	type FormFieldInput,
 	getFormBySlugSchema,
 	getFormSubmissionsSchema,
 	listFormsSchema,
@@ -20,6 +23,32 @@ import {
 } from "@/schemas/form.schema";
 import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
 
+/**
+ * Answers can only be saved to custom fields defined for contacts
+ */
+async function assertFormCustomFields(
+	organizationId: string,
+	fields: FormFieldInput[],
+): Promise<void> {
+	const keys = fields.flatMap((field) =>
+		field.customField ? [field.customField] : [],
+	);
+	if (keys.length === 0) return;
+
+	const definitions = await listCustomFieldDefinitions(
+		organizationId,
+		CustomFieldEntity.contact,
+	);
+	const known = new Set(definitions.map((definition) => definition.key));
+	const unknown = keys.find((key) => !known.has(key));
+	if (unknown) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Unknown contact custom field "${unknown}"`,
+		});
+	}
+}
+
 export const organizationFormRouter = createTRPCRouter({
 	// List forms
 	list: protectedOrganizationProcedure
@@ -80,6 +109,7 @@ export const organizationFormRouter = createTRPCRouter({
 		.input(createFormSchema)
 		.mutation(async ({ ctx, input }) => {
 			const { fields, settings, postSubmitConfig, ...data } = input;
+			await assertFormCustomFields(ctx.organization.id, fields);
 
 			// Check if slug is already taken
 			const existing = await db.query.formTable.findFirst({
@@ -120,6 +150,9 @@ export const organizationFormRouter = createTRPCRouter({
 		.input(updateFormSchema)
 		.mutation(async ({ ctx, input }) => {
 			const { id, fields, settings, postSubmitConfig, ...data } = input;
+			if (fields) {
+				await assertFormCustomFields(ctx.organization.id, fields);
+			}
 
 			// Check if slug is taken by another form
 			if (input.slug) {
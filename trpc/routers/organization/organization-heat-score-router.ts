@@ -0,0 +1,53 @@
+import { TRPCError } from "@trpc/server";
+import { MemberRole } from "@/lib/db/schema/enums";
+import {
+	getHeatScoreModelSettings,
+	previewHeatScoreModel,
+	updateHeatScoreModel,
+} from "@/lib/ember/memoria/scoring";
+import { heatScoreModelSchema } from "@/schemas/heat-score.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Every member sees how contacts are scored, only organization admins change
+ * the model
+ */
+const organizationAdminProcedure = protectedOrganizationProcedure.use(
+	async ({ ctx, next }) => {
+		if (
+			ctx.membership.role !== MemberRole.owner &&
+			ctx.membership.role !== MemberRole.admin
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Only organization admins can change the heat score model",
+			});
+		}
+		return next();
+	},
+);
+
+export const organizationHeatScoreRouter = createTRPCRouter({
+	// Model of the organization, the default one until it is changed
+	getModel: protectedOrganizationProcedure.query(async ({ ctx }) => {
+		return await getHeatScoreModelSettings(ctx.organization.id);
+	}),
+
+	// Distribution of a sample of contacts under a model, before saving it
+	preview: organizationAdminProcedure
+		.input(heatScoreModelSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await previewHeatScoreModel(ctx.organization.id, input);
+		}),
+
+	// Save the model and re-score every contact with it
+	updateModel: organizationAdminProcedure
+		.input(heatScoreModelSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await updateHeatScoreModel(
+				ctx.organization.id,
+				input,
+				ctx.user.id,
+			);
+		}),
+});
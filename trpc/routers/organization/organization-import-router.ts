@@ -0,0 +1,100 @@
+import { TRPCError } from "@trpc/server";
+import { ImportError } from "@/lib/imports/errors";
+import {
+	createImport,
+	createImportUploadUrl,
+	deleteImport,
+	getImport,
+	getImportErrorReport,
+	listImports,
+	previewImport,
+	startImport,
+} from "@/lib/imports/imports";
+import {
+	createImportSchema,
+	createImportUploadUrlSchema,
+	importIdSchema,
+	listImportsSchema,
+	previewImportSchema,
+	startImportSchema,
+} from "@/schemas/import.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Run an import operation, turning import errors into tRPC errors
+ */
+async function withImportErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof ImportError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationImportRouter = createTRPCRouter({
+	list: protectedOrganizationProcedure
+		.input(listImportsSchema)
+		.query(async ({ ctx, input }) => {
+			return await listImports(ctx.organization.id, input.entity);
+		}),
+
+	// Polled for the progress of a running import
+	get: protectedOrganizationProcedure
+		.input(importIdSchema)
+		.query(async ({ ctx, input }) => {
+			return await withImportErrors(() =>
+				getImport(ctx.organization.id, input.id),
+			);
+		}),
+
+	// Signed URL to upload a CSV / Excel file before creating the import
+	createUploadUrl: protectedOrganizationProcedure
+		.input(createImportUploadUrlSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await createImportUploadUrl(ctx.organization.id, input);
+		}),
+
+	// Detects the columns of the uploaded file and suggests a mapping
+	create: protectedOrganizationProcedure
+		.input(createImportSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withImportErrors(() =>
+				createImport(ctx.organization.id, input, ctx.user.id),
+			);
+		}),
+
+	preview: protectedOrganizationProcedure
+		.input(previewImportSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withImportErrors(() =>
+				previewImport(ctx.organization.id, input),
+			);
+		}),
+
+	start: protectedOrganizationProcedure
+		.input(startImportSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withImportErrors(() =>
+				startImport(ctx.organization.id, input),
+			);
+		}),
+
+	errorReport: protectedOrganizationProcedure
+		.input(importIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withImportErrors(() =>
+				getImportErrorReport(ctx.organization.id, input.id),
+			);
+		}),
+
+	delete: protectedOrganizationProcedure
+		.input(importIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withImportErrors(() => deleteImport(ctx.organization.id, input.id));
+
+			return { success: true };
+		}),
+});
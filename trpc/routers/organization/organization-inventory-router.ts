@@ -1,7 +1,26 @@
 import { TRPCError } from "@trpc/server";
 import { and, eq } from "drizzle-orm";
 import { z } from "zod";
+import {
+	includesSecretField,
+	recordCredentialChange,
+} from "@/lib/credentials/audit";
+import {
+	getChangedFields,
+	maskCredentials,
+	mergeCredentials,
+} from "@/lib/credentials/secrets";
+import {
+	decryptCredentials,
+	encryptCredentials,
+	getCredentialsKeyId,
+} from "@/lib/credentials/vault";
 import { db } from "@/lib/db";
+import {
+	CredentialAuditAction,
+	CredentialResourceType,
+	JobType,
+} from "@/lib/db/schema/enums";
 import {
 	inventorySyncConfigTable,
 	productCategoryTable,
@@ -17,7 +36,7 @@ import {
 	searchProducts,
 	updateStock,
 } from "@/lib/ember/inventario/queries";
-import { syncInventory } from "@/lib/ember/inventario/sync";
+import { enqueueJob } from "@/lib/jobs/queue";
 import {
 	createInventorySyncConfigSchema,
 	createProductCategorySchema,
@@ -29,6 +48,18 @@ import {
 } from "@/schemas/product.schema";
 import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
 
+/**
+ * Sync configuration as returned to the browser, with masked secrets
+ */
+function toPublicSyncConfig(
+	config: typeof inventorySyncConfigTable.$inferSelect,
+) {
+	return {
+		...config,
+		credentials: maskCredentials(decryptCredentials(config.credentials)),
+	};
+}
+
 export const organizationInventoryRouter = createTRPCRouter({
 	// List products
 	listProducts: protectedOrganizationProcedure
@@ -319,11 +350,13 @@ export const organizationInventoryRouter = createTRPCRouter({
 			return { success: true };
 		}),
 
-	// Sync configurations
+	// Sync configurations (secrets are write-only, the browser only sees masks)
 	listSyncConfigs: protectedOrganizationProcedure.query(async ({ ctx }) => {
-		return await db.query.inventorySyncConfigTable.findMany({
+		const configs = await db.query.inventorySyncConfigTable.findMany({
 			where: eq(inventorySyncConfigTable.organizationId, ctx.organization.id),
 		});
+
+		return configs.map(toPublicSyncConfig);
 	}),
 
 	getSyncConfig: protectedOrganizationProcedure
@@ -343,25 +376,48 @@ export const organizationInventoryRouter = createTRPCRouter({
 				});
 			}
 
-			return config;
+			return toPublicSyncConfig(config);
 		}),
 
 	createSyncConfig: protectedOrganizationProcedure
 		.input(createInventorySyncConfigSchema)
 		.mutation(async ({ ctx, input }) => {
+			const credentials = mergeCredentials({}, input.credentials);
+			const encrypted = encryptCredentials(credentials);
+
 			const [config] = await db
 				.insert(inventorySyncConfigTable)
 				.values({
 					...input,
 					organizationId: ctx.organization.id,
-					credentials: JSON.stringify(input.credentials),
+					credentials: encrypted,
 					fieldMapping: input.fieldMapping
 						? JSON.stringify(input.fieldMapping)
 						: null,
 				})
 				.returning();
 
-			return config;
+			if (!config) {
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create sync configuration",
+				});
+			}
+
+			const fields = getChangedFields({}, credentials);
+			if (includesSecretField(fields)) {
+				await recordCredentialChange({
+					organizationId: ctx.organization.id,
+					resourceType: CredentialResourceType.inventorySyncConfig,
+					resourceId: config.id,
+					action: CredentialAuditAction.created,
+					fields,
+					keyId: getCredentialsKeyId(encrypted),
+					actorId: ctx.user.id,
+				});
+			}
+
+			return toPublicSyncConfig(config);
 		}),
 
 	updateSyncConfig: protectedOrganizationProcedure
@@ -369,16 +425,38 @@ export const organizationInventoryRouter = createTRPCRouter({
 		.mutation(async ({ ctx, input }) => {
 			const { id, ...data } = input;
 
+			const existing = await db.query.inventorySyncConfigTable.findFirst({
+				where: and(
+					eq(inventorySyncConfigTable.id, id),
+					eq(inventorySyncConfigTable.organizationId, ctx.organization.id),
+				),
+			});
+
+			if (!existing) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Sync configuration not found",
+				});
+			}
+
 			const updateData: Record<string, unknown> = {};
 			if (data.source) updateData.source = data.source;
 			if (data.syncSchedule !== undefined)
 				updateData.syncSchedule = data.syncSchedule;
 			if (data.autoSync !== undefined) updateData.autoSync = data.autoSync;
-			if (data.credentials !== undefined)
-				updateData.credentials = JSON.stringify(data.credentials);
 			if (data.fieldMapping !== undefined)
 				updateData.fieldMapping = JSON.stringify(data.fieldMapping);
 
+			let changedFields: string[] = [];
+			if (data.credentials !== undefined) {
+				const previous = decryptCredentials(existing.credentials);
+				const credentials = mergeCredentials(previous, data.credentials);
+				changedFields = getChangedFields(previous, credentials);
+				if (changedFields.length > 0) {
+					updateData.credentials = encryptCredentials(credentials);
+				}
+			}
+
 			const [updatedConfig] = await db
 				.update(inventorySyncConfigTable)
 				.set(updateData)
@@ -397,7 +475,19 @@ export const organizationInventoryRouter = createTRPCRouter({
 				});
 			}
 
-			return updatedConfig;
+			if (includesSecretField(changedFields)) {
+				await recordCredentialChange({
+					organizationId: ctx.organization.id,
+					resourceType: CredentialResourceType.inventorySyncConfig,
+					resourceId: updatedConfig.id,
+					action: CredentialAuditAction.updated,
+					fields: changedFields,
+					keyId: getCredentialsKeyId(updatedConfig.credentials),
+					actorId: ctx.user.id,
+				});
+			}
+
+			return toPublicSyncConfig(updatedConfig);
 		}),
 
 	deleteSyncConfig: protectedOrganizationProcedure
@@ -420,13 +510,43 @@ export const organizationInventoryRouter = createTRPCRouter({
 				});
 			}
 
+			await recordCredentialChange({
+				organizationId: ctx.organization.id,
+				resourceType: CredentialResourceType.inventorySyncConfig,
+				resourceId: deletedConfig.id,
+				action: CredentialAuditAction.deleted,
+				fields: [],
+				actorId: ctx.user.id,
+			});
+
 			return { success: true };
 		}),
 
-	// Trigger sync
+	// Trigger sync (runs in the background job queue)
 	triggerSync: protectedOrganizationProcedure
 		.input(z.object({ syncConfigId: z.string().uuid() }))
 		.mutation(async ({ ctx, input }) => {
-			return await syncInventory(ctx.organization.id, input.syncConfigId);
+			const config = await db.query.inventorySyncConfigTable.findFirst({
+				where: and(
+					eq(inventorySyncConfigTable.id, input.syncConfigId),
+					eq(inventorySyncConfigTable.organizationId, ctx.organization.id),
+				),
+				columns: { id: true },
+			});
+
+			if (!config) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Sync configuration not found",
+				});
+			}
+
+			const job = await enqueueJob({
+				type: JobType.inventorySync,
+				organizationId: ctx.organization.id,
+				payload: { syncConfigId: config.id },
+			});
+
+			return { jobId: job?.id ?? null };
 		}),
 });
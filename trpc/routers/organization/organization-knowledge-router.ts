@@ -0,0 +1,302 @@
+import { TRPCError } from "@trpc/server";
+import {
+	and,
+	count,
+	desc,
+	eq,
+	inArray,
+	isNull,
+	or,
+	type SQL,
+} from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db } from "@/lib/db";
+import {
+	JobType,
+	KnowledgeDocumentStatus,
+	KnowledgeSourceType,
+} from "@/lib/db/schema/enums";
+import { agentTable, knowledgeDocumentTable } from "@/lib/db/schema/tables";
+import { getKnowledgeBucket } from "@/lib/ember/knowledge/ingestion";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { logger } from "@/lib/logger";
+import { PublicUrlError } from "@/lib/net/errors";
+import { assertPublicUrl } from "@/lib/net/public-url";
+import { deleteObject, getSignedUploadUrl } from "@/lib/storage";
+import {
+	createKnowledgeDocumentSchema,
+	createKnowledgeUploadUrlSchema,
+	knowledgeDocumentIdSchema,
+	listKnowledgeDocumentsSchema,
+} from "@/schemas/knowledge.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/** Storage prefix of an organization's knowledge files */
+function getKnowledgePrefix(organizationId: string): string {
+	return `${organizationId}/knowledge/`;
+}
+
+function getBucketOrThrow(): string {
+	try {
+		return getKnowledgeBucket();
+	} catch {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: "Knowledge base storage is not configured",
+		});
+	}
+}
+
+async function findDocument(id: string, organizationId: string) {
+	const document = await db.query.knowledgeDocumentTable.findFirst({
+		where: and(
+			eq(knowledgeDocumentTable.id, id),
+			eq(knowledgeDocumentTable.organizationId, organizationId),
+		),
+	});
+
+	if (!document) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Document not found",
+		});
+	}
+
+	return document;
+}
+
+async function enqueueIngestion(
+	documentId: string,
+	organizationId: string,
+): Promise<void> {
+	await enqueueJob({
+		type: JobType.knowledgeIngest,
+		organizationId,
+		payload: { documentId },
+	});
+}
+
+export const organizationKnowledgeRouter = createTRPCRouter({
+	// List knowledge documents
+	list: protectedOrganizationProcedure
+		.input(listKnowledgeDocumentsSchema)
+		.query(async ({ ctx, input }) => {
+			const conditions: SQL[] = [
+				eq(knowledgeDocumentTable.organizationId, ctx.organization.id),
+			];
+
+			if (input.agentId) {
+				const agentCondition = or(
+					isNull(knowledgeDocumentTable.agentId),
+					eq(knowledgeDocumentTable.agentId, input.agentId),
+				);
+				if (agentCondition) conditions.push(agentCondition);
+			}
+
+			if (input.status && input.status.length > 0) {
+				conditions.push(inArray(knowledgeDocumentTable.status, input.status));
+			}
+
+			const whereCondition = and(...conditions);
+
+			const [documents, [total]] = await Promise.all([
+				db
+					.select({
+						id: knowledgeDocumentTable.id,
+						title: knowledgeDocumentTable.title,
+						sourceType: knowledgeDocumentTable.sourceType,
+						sourceUrl: knowledgeDocumentTable.sourceUrl,
+						mimeType: knowledgeDocumentTable.mimeType,
+						fileSize: knowledgeDocumentTable.fileSize,
+						status: knowledgeDocumentTable.status,
+						errorMessage: knowledgeDocumentTable.errorMessage,
+						chunkCount: knowledgeDocumentTable.chunkCount,
+						processedAt: knowledgeDocumentTable.processedAt,
+						createdAt: knowledgeDocumentTable.createdAt,
+						agentId: knowledgeDocumentTable.agentId,
+						agentName: agentTable.name,
+					})
+					.from(knowledgeDocumentTable)
+					.leftJoin(
+						agentTable,
+						eq(knowledgeDocumentTable.agentId, agentTable.id),
+					)
+					.where(whereCondition)
+					.orderBy(desc(knowledgeDocumentTable.createdAt))
+					.limit(input.limit)
+					.offset(input.offset),
+				db
+					.select({ count: count() })
+					.from(knowledgeDocumentTable)
+					.where(whereCondition),
+			]);
+
+			return { documents, total: total?.count ?? 0 };
+		}),
+
+	// Signed URL to upload a PDF / Markdown file before creating the document
+	createUploadUrl: protectedOrganizationProcedure
+		.input(createKnowledgeUploadUrlSchema)
+		.mutation(async ({ ctx, input }) => {
+			const bucket = getBucketOrThrow();
+			const extension = input.mimeType === "application/pdf" ? "pdf" : "md";
+			const baseName =
+				input.fileName
+					.replace(/\.[^.]+$/, "")
+					.replace(/[^a-zA-Z0-9\-_]+/g, "-")
+					.replace(/^-+|-+$/g, "")
+					.slice(0, 80) || "document";
+			const path = `${getKnowledgePrefix(ctx.organization.id)}${nanoid()}-${baseName}.${extension}`;
+
+			const signedUrl = await getSignedUploadUrl(path, bucket, input.mimeType);
+
+			return { path, signedUrl };
+		}),
+
+	// Register an uploaded file or a web page and queue its ingestion
+	create: protectedOrganizationProcedure
+		.input(createKnowledgeDocumentSchema)
+		.mutation(async ({ ctx, input }) => {
+			if (input.agentId) {
+				const agent = await db.query.agentTable.findFirst({
+					where: and(
+						eq(agentTable.id, input.agentId),
+						eq(agentTable.organizationId, ctx.organization.id),
+					),
+					columns: { id: true },
+				});
+
+				if (!agent) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Agent not found",
+					});
+				}
+			}
+
+			const { source } = input;
+
+			if (
+				source.type === "file" &&
+				!source.path.startsWith(getKnowledgePrefix(ctx.organization.id))
+			) {
+				throw new TRPCError({
+					code: "FORBIDDEN",
+					message: "Invalid upload path",
+				});
+			}
+
+			// Pages are downloaded by the server, internal hosts are off limits
+			if (source.type === "url") {
+				try {
+					await assertPublicUrl(source.url);
+				} catch (error) {
+					if (error instanceof PublicUrlError) {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: error.message,
+						});
+					}
+					throw error;
+				}
+			}
+
+			const [document] = await db
+				.insert(knowledgeDocumentTable)
+				.values(
+					source.type === "file"
+						? {
+								organizationId: ctx.organization.id,
+								agentId: input.agentId ?? null,
+								title: input.title ?? source.fileName,
+								sourceType:
+									source.mimeType === "application/pdf"
+										? KnowledgeSourceType.pdf
+										: KnowledgeSourceType.markdown,
+								storagePath: source.path,
+								mimeType: source.mimeType,
+								fileSize: source.fileSize,
+								createdById: ctx.user.id,
+							}
+						: {
+								organizationId: ctx.organization.id,
+								agentId: input.agentId ?? null,
+								// Replaced by the page title once ingested
+								title: input.title ?? source.url,
+								sourceType: KnowledgeSourceType.url,
+								sourceUrl: source.url,
+								createdById: ctx.user.id,
+							},
+				)
+				.returning();
+
+			if (!document) {
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create document",
+				});
+			}
+
+			await enqueueIngestion(document.id, ctx.organization.id);
+
+			return document;
+		}),
+
+	// Extract and embed a document again (e.g. after a failure or a page update)
+	reprocess: protectedOrganizationProcedure
+		.input(knowledgeDocumentIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const document = await findDocument(input.id, ctx.organization.id);
+
+			if (document.status === KnowledgeDocumentStatus.processing) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "Document is already being processed",
+				});
+			}
+
+			await db
+				.update(knowledgeDocumentTable)
+				.set({ status: KnowledgeDocumentStatus.pending, errorMessage: null })
+				.where(eq(knowledgeDocumentTable.id, document.id));
+
+			await enqueueIngestion(document.id, ctx.organization.id);
+
+			return { success: true };
+		}),
+
+	// Delete a document, its chunks and its uploaded file
+	delete: protectedOrganizationProcedure
+		.input(knowledgeDocumentIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const [deleted] = await db
+				.delete(knowledgeDocumentTable)
+				.where(
+					and(
+						eq(knowledgeDocumentTable.id, input.id),
+						eq(knowledgeDocumentTable.organizationId, ctx.organization.id),
+					),
+				)
+				.returning();
+
+			if (!deleted) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Document not found",
+				});
+			}
+
+			if (deleted.storagePath) {
+				try {
+					await deleteObject(deleted.storagePath, getKnowledgeBucket());
+				} catch (error) {
+					logger.warn(
+						{ error, documentId: deleted.id },
+						"Failed to delete knowledge file from storage",
+					);
+				}
+			}
+
+			return { success: true };
+		}),
+});
@@ -12,19 +12,53 @@ import {
 	or,
 	type SQL,
 } from "drizzle-orm";
+import { resolveCustomFieldValues } from "@/lib/custom-fields/definitions";
+import { CustomFieldError } from "@/lib/custom-fields/errors";
+import { buildCustomFieldQuery } from "@/lib/custom-fields/filters";
+import {
+	parseCustomFieldValues,
+	serializeCustomFieldValues,
+} from "@/lib/custom-fields/values";
 import { db } from "@/lib/db";
-import { leadTable } from "@/lib/db/schema/tables";
+import { CustomFieldEntity, SavedViewEntity } from "@/lib/db/schema/enums";
+import { contactTable, leadTable } from "@/lib/db/schema/tables";
+import {
+	convertContactToLead,
+	getLeadContactSummary,
+	updateLeads,
+} from "@/lib/ember/memoria/leads";
+import { buildFilterCondition } from "@/lib/filters/conditions";
+import { FilterError } from "@/lib/filters/errors";
 import {
 	bulkDeleteLeadsSchema,
 	bulkUpdateLeadsStatusSchema,
+	convertContactToLeadSchema,
 	createLeadSchema,
 	deleteLeadSchema,
 	exportLeadsSchema,
+	linkLeadContactSchema,
 	listLeadsSchema,
 	updateLeadSchema,
 } from "@/schemas/organization-lead-schemas";
 import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
 
+/**
+ * Run a lead operation, turning custom field and filter errors into tRPC
+ * errors
+ */
+async function withCustomFieldErrors<T>(
+	operation: () => Promise<T>,
+): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof CustomFieldError || error instanceof FilterError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
 export const organizationLeadRouter = createTRPCRouter({
 	list: protectedOrganizationProcedure
 		.input(listLeadsSchema)
@@ -105,6 +139,31 @@ export const organizationLeadRouter = createTRPCRouter({
 				}
 			}
 
+			const customFieldQuery = await withCustomFieldErrors(() =>
+				buildCustomFieldQuery(
+					ctx.organization.id,
+					CustomFieldEntity.lead,
+					leadTable.customFields,
+					{
+						filters: input.filters?.customFields,
+						sortKey: input.sortByCustomField,
+						sortOrder: input.sortOrder,
+					},
+				),
+			);
+			conditions.push(...customFieldQuery.conditions);
+
+			const filterCondition = await withCustomFieldErrors(() =>
+				buildFilterCondition(
+					ctx.organization.id,
+					SavedViewEntity.lead,
+					input.filter,
+				),
+			);
+			if (filterCondition) {
+				conditions.push(filterCondition);
+			}
+
 			const whereCondition = and(...conditions);
 
 			// Build sort order
@@ -140,7 +199,9 @@ export const organizationLeadRouter = createTRPCRouter({
 					where: whereCondition,
 					limit: input.limit,
 					offset: input.offset,
-					orderBy: orderByColumn,
+					orderBy: customFieldQuery.orderBy
+						? [customFieldQuery.orderBy, orderByColumn]
+						: orderByColumn,
 					with: {
 						assignedTo: {
 							columns: {
@@ -155,7 +216,13 @@ export const organizationLeadRouter = createTRPCRouter({
 				db.select({ count: count() }).from(leadTable).where(whereCondition),
 			]);
 
-			return { leads, total: countResult[0]?.count ?? 0 };
+			return {
+				leads: leads.map((lead) => ({
+					...lead,
+					customFields: parseCustomFieldValues(lead.customFields),
+				})),
+				total: countResult[0]?.count ?? 0,
+			};
 		}),
 
 	get: protectedOrganizationProcedure
@@ -185,16 +252,32 @@ export const organizationLeadRouter = createTRPCRouter({
 				});
 			}
 
-			return lead;
+			return {
+				...lead,
+				customFields: parseCustomFieldValues(lead.customFields),
+				contact: lead.contactId
+					? await getLeadContactSummary(lead.contactId)
+					: null,
+			};
 		}),
 
 	create: protectedOrganizationProcedure
 		.input(createLeadSchema)
 		.mutation(async ({ ctx, input }) => {
+			const { customFields, ...data } = input;
+			const values = await withCustomFieldErrors(() =>
+				resolveCustomFieldValues(
+					ctx.organization.id,
+					CustomFieldEntity.lead,
+					customFields ?? {},
+				),
+			);
+
 			const [lead] = await db
 				.insert(leadTable)
 				.values({
-					...input,
+					...data,
+					customFields: serializeCustomFieldValues(values),
 					organizationId: ctx.organization.id,
 				})
 				.returning();
@@ -205,16 +288,84 @@ export const organizationLeadRouter = createTRPCRouter({
 	update: protectedOrganizationProcedure
 		.input(updateLeadSchema)
 		.mutation(async ({ ctx, input }) => {
-			const { id, ...data } = input;
+			const { id, customFields, ...data } = input;
+			const values =
+				customFields === undefined
+					? undefined
+					: await withCustomFieldErrors(() =>
+							resolveCustomFieldValues(
+								ctx.organization.id,
+								CustomFieldEntity.lead,
+								customFields ?? {},
+							),
+						);
+
+			// Locks the lead, scoped to the organization, to compare its status
+			const [updatedLead] = await updateLeads(
+				ctx.organization.id,
+				eq(leadTable.id, id),
+				{
+					...data,
+					...(values && { customFields: serializeCustomFieldValues(values) }),
+				},
+			);
+
+			if (!updatedLead) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Lead not found",
+				});
+			}
+
+			return updatedLead;
+		}),
+
+	convertContact: protectedOrganizationProcedure
+		.input(convertContactToLeadSchema)
+		.mutation(async ({ ctx, input }) => {
+			const { contactId, ...options } = input;
+			const conversion = await convertContactToLead(
+				ctx.organization.id,
+				contactId,
+				options,
+			);
+
+			if (!conversion) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Contact not found",
+				});
+			}
+
+			return conversion;
+		}),
+
+	linkContact: protectedOrganizationProcedure
+		.input(linkLeadContactSchema)
+		.mutation(async ({ ctx, input }) => {
+			if (input.contactId) {
+				const contact = await db.query.contactTable.findFirst({
+					where: and(
+						eq(contactTable.id, input.contactId),
+						eq(contactTable.organizationId, ctx.organization.id),
+					),
+					columns: { id: true },
+				});
+
+				if (!contact) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Contact not found",
+					});
+				}
+			}
 
-			// Use atomic update with organization check in WHERE clause
-			// This prevents TOCTOU race conditions by combining check and update
 			const [updatedLead] = await db
 				.update(leadTable)
-				.set(data)
+				.set({ contactId: input.contactId })
 				.where(
 					and(
-						eq(leadTable.id, id),
+						eq(leadTable.id, input.id),
 						eq(leadTable.organizationId, ctx.organization.id),
 					),
 				)
@@ -275,17 +426,12 @@ export const organizationLeadRouter = createTRPCRouter({
 	bulkUpdateStatus: protectedOrganizationProcedure
 		.input(bulkUpdateLeadsStatusSchema)
 		.mutation(async ({ ctx, input }) => {
-			// Use returning() to get actual updated count instead of assuming all IDs existed
-			const updated = await db
-				.update(leadTable)
-				.set({ status: input.status })
-				.where(
-					and(
-						inArray(leadTable.id, input.ids),
-						eq(leadTable.organizationId, ctx.organization.id),
-					),
-				)
-				.returning({ id: leadTable.id });
+			// Count the leads actually updated instead of assuming all IDs existed
+			const updated = await updateLeads(
+				ctx.organization.id,
+				inArray(leadTable.id, input.ids),
+				{ status: input.status },
+			);
 
 			return { success: true, count: updated.length };
 		}),
@@ -0,0 +1,258 @@
+import { TRPCError } from "@trpc/server";
+import {
+	and,
+	asc,
+	count,
+	eq,
+	gte,
+	inArray,
+	isNull,
+	lt,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	agentTable,
+	availabilityTable,
+	contactTable,
+	meetingTable,
+} from "@/lib/db/schema/tables";
+import {
+	getAvailabilitySettings,
+	type HostScope,
+} from "@/lib/ember/calendar/availability";
+import { MeetingError } from "@/lib/ember/calendar/errors";
+import {
+	bookMeeting,
+	cancelMeeting,
+	proposeMeetingSlots,
+} from "@/lib/ember/calendar/meetings";
+import {
+	type AvailabilityOwnerInput,
+	availabilityOwnerSchema,
+	bookMeetingSchema,
+	cancelMeetingSchema,
+	listMeetingsSchema,
+	proposeMeetingSlotsSchema,
+	updateAvailabilitySchema,
+} from "@/schemas/meeting.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Run a meeting operation, turning meeting errors into tRPC errors
+ */
+async function withMeetingErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof MeetingError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+/**
+ * Availability row owner columns, checking the agent belongs to the organization
+ */
+async function resolveOwner(
+	owner: AvailabilityOwnerInput["owner"],
+	organizationId: string,
+	userId: string,
+): Promise<HostScope> {
+	if (owner.type === "user") {
+		return { organizationId, hostUserId: userId };
+	}
+
+	if (owner.type === "agent") {
+		const agent = await db.query.agentTable.findFirst({
+			where: and(
+				eq(agentTable.id, owner.agentId),
+				eq(agentTable.organizationId, organizationId),
+			),
+			columns: { id: true },
+		});
+
+		if (!agent) {
+			throw new TRPCError({
+				code: "NOT_FOUND",
+				message: "Agent not found",
+			});
+		}
+
+		return { organizationId, agentId: agent.id };
+	}
+
+	return { organizationId };
+}
+
+export const organizationMeetingRouter = createTRPCRouter({
+	// List meetings, soonest first
+	list: protectedOrganizationProcedure
+		.input(listMeetingsSchema)
+		.query(async ({ ctx, input }) => {
+			const conditions: SQL[] = [
+				eq(meetingTable.organizationId, ctx.organization.id),
+			];
+
+			if (input.contactId) {
+				conditions.push(eq(meetingTable.contactId, input.contactId));
+			}
+
+			if (input.status && input.status.length > 0) {
+				conditions.push(inArray(meetingTable.status, input.status));
+			}
+
+			if (input.from) {
+				conditions.push(gte(meetingTable.startsAt, input.from));
+			}
+
+			if (input.to) {
+				conditions.push(lt(meetingTable.startsAt, input.to));
+			}
+
+			const whereCondition = and(...conditions);
+
+			const [meetings, [total]] = await Promise.all([
+				db
+					.select({
+						id: meetingTable.id,
+						title: meetingTable.title,
+						status: meetingTable.status,
+						startsAt: meetingTable.startsAt,
+						endsAt: meetingTable.endsAt,
+						timezone: meetingTable.timezone,
+						meetingUrl: meetingTable.meetingUrl,
+						conversationId: meetingTable.conversationId,
+						agentId: meetingTable.agentId,
+						hostUserId: meetingTable.hostUserId,
+						contactId: meetingTable.contactId,
+						contactName: sql<string>`trim(${contactTable.firstName} || ' ' || ${contactTable.lastName})`,
+					})
+					.from(meetingTable)
+					.innerJoin(contactTable, eq(meetingTable.contactId, contactTable.id))
+					.where(whereCondition)
+					.orderBy(asc(meetingTable.startsAt))
+					.limit(input.limit)
+					.offset(input.offset),
+				db.select({ count: count() }).from(meetingTable).where(whereCondition),
+			]);
+
+			return { meetings, total: total?.count ?? 0 };
+		}),
+
+	// Free slots of the current user, kept as the conversation's proposal
+	proposeSlots: protectedOrganizationProcedure
+		.input(proposeMeetingSlotsSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withMeetingErrors(() =>
+				proposeMeetingSlots({
+					organizationId: ctx.organization.id,
+					hostUserId: ctx.user.id,
+					contactId: input.contactId,
+					conversationId: input.conversationId,
+					title: input.title,
+					durationMinutes: input.durationMinutes,
+					from: input.from,
+					createdById: ctx.user.id,
+				}),
+			);
+		}),
+
+	// Book (or reschedule) a meeting hosted by the current user
+	book: protectedOrganizationProcedure
+		.input(bookMeetingSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withMeetingErrors(() =>
+				bookMeeting({
+					organizationId: ctx.organization.id,
+					hostUserId: ctx.user.id,
+					contactId: input.contactId,
+					conversationId: input.conversationId,
+					meetingId: input.meetingId,
+					start: input.start,
+					durationMinutes: input.durationMinutes,
+					title: input.title,
+					description: input.description,
+					location: input.location,
+					meetingUrl: input.meetingUrl,
+					createdById: ctx.user.id,
+				}),
+			);
+		}),
+
+	// Cancel a meeting and notify the contact
+	cancel: protectedOrganizationProcedure
+		.input(cancelMeetingSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withMeetingErrors(() =>
+				cancelMeeting(input.id, ctx.organization.id, input.reason),
+			);
+		}),
+
+	// Effective availability (with the organization / app defaults applied)
+	getAvailability: protectedOrganizationProcedure
+		.input(availabilityOwnerSchema)
+		.query(async ({ ctx, input }) => {
+			const scope = await resolveOwner(
+				input.owner,
+				ctx.organization.id,
+				ctx.user.id,
+			);
+
+			return await getAvailabilitySettings(scope);
+		}),
+
+	// Set working hours and booking rules
+	updateAvailability: protectedOrganizationProcedure
+		.input(updateAvailabilitySchema)
+		.mutation(async ({ ctx, input }) => {
+			const scope = await resolveOwner(
+				input.owner,
+				ctx.organization.id,
+				ctx.user.id,
+			);
+
+			const values = {
+				timezone: input.timezone,
+				workingHours: JSON.stringify(input.workingHours),
+				slotDurationMinutes: input.slotDurationMinutes,
+				bufferMinutes: input.bufferMinutes,
+				minNoticeMinutes: input.minNoticeMinutes,
+				maxDaysAhead: input.maxDaysAhead,
+			};
+
+			const ownerCondition = and(
+				eq(availabilityTable.organizationId, ctx.organization.id),
+				scope.hostUserId
+					? eq(availabilityTable.userId, scope.hostUserId)
+					: isNull(availabilityTable.userId),
+				scope.agentId
+					? eq(availabilityTable.agentId, scope.agentId)
+					: isNull(availabilityTable.agentId),
+			);
+
+			const [updated] = await db
+				.update(availabilityTable)
+				.set(values)
+				.where(ownerCondition)
+				.returning();
+
+			if (updated) {
+				return updated;
+			}
+
+			const [created] = await db
+				.insert(availabilityTable)
+				.values({
+					...values,
+					organizationId: ctx.organization.id,
+					userId: scope.hostUserId ?? null,
+					agentId: scope.agentId ?? null,
+				})
+				.returning();
+
+			return created;
+		}),
+});
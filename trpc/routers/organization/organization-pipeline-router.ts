@@ -0,0 +1,179 @@
+import { TRPCError } from "@trpc/server";
+import {
+	createDeal,
+	deleteDeal,
+	getDealDetails,
+	moveDeal,
+	updateDeal,
+} from "@/lib/ember/pipelines/deals";
+import { PipelineError } from "@/lib/ember/pipelines/errors";
+import {
+	createPipeline,
+	createPipelineStage,
+	deletePipeline,
+	deletePipelineStage,
+	getPipelineBoard,
+	listPipelines,
+	reorderPipelineStages,
+	updatePipeline,
+	updatePipelineStage,
+} from "@/lib/ember/pipelines/pipelines";
+import {
+	createDealSchema,
+	createPipelineSchema,
+	createPipelineStageSchema,
+	dealIdSchema,
+	deletePipelineStageSchema,
+	getPipelineBoardSchema,
+	moveDealSchema,
+	pipelineIdSchema,
+	reorderPipelineStagesSchema,
+	updateDealSchema,
+	updatePipelineSchema,
+	updatePipelineStageSchema,
+} from "@/schemas/pipeline.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Run a pipeline operation, turning pipeline errors into tRPC errors
+ */
+async function withPipelineErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof PipelineError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationPipelineRouter = createTRPCRouter({
+	// Pipelines with their stages, default first
+	list: protectedOrganizationProcedure.query(async ({ ctx }) => {
+		return await listPipelines(ctx.organization.id);
+	}),
+
+	// Stages with their deals and weighted forecast
+	board: protectedOrganizationProcedure
+		.input(getPipelineBoardSchema)
+		.query(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				getPipelineBoard(ctx.organization.id, input),
+			);
+		}),
+
+	create: protectedOrganizationProcedure
+		.input(createPipelineSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				createPipeline(ctx.organization.id, input),
+			);
+		}),
+
+	update: protectedOrganizationProcedure
+		.input(updatePipelineSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				updatePipeline(ctx.organization.id, input),
+			);
+		}),
+
+	delete: protectedOrganizationProcedure
+		.input(pipelineIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withPipelineErrors(() =>
+				deletePipeline(ctx.organization.id, input.id),
+			);
+
+			return { success: true };
+		}),
+
+	createStage: protectedOrganizationProcedure
+		.input(createPipelineStageSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				createPipelineStage(ctx.organization.id, input),
+			);
+		}),
+
+	updateStage: protectedOrganizationProcedure
+		.input(updatePipelineStageSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				updatePipelineStage(ctx.organization.id, input),
+			);
+		}),
+
+	reorderStages: protectedOrganizationProcedure
+		.input(reorderPipelineStagesSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withPipelineErrors(() =>
+				reorderPipelineStages(
+					ctx.organization.id,
+					input.pipelineId,
+					input.stageIds,
+				),
+			);
+
+			return { success: true };
+		}),
+
+	// Delete a stage, moving its deals to another stage
+	deleteStage: protectedOrganizationProcedure
+		.input(deletePipelineStageSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withPipelineErrors(() =>
+				deletePipelineStage(
+					ctx.organization.id,
+					input.id,
+					input.moveDealsToStageId,
+					ctx.user.id,
+				),
+			);
+
+			return { success: true };
+		}),
+
+	// Deal with its stage history
+	getDeal: protectedOrganizationProcedure
+		.input(dealIdSchema)
+		.query(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				getDealDetails(ctx.organization.id, input.id),
+			);
+		}),
+
+	createDeal: protectedOrganizationProcedure
+		.input(createDealSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				createDeal(ctx.organization.id, input, ctx.user.id),
+			);
+		}),
+
+	updateDeal: protectedOrganizationProcedure
+		.input(updateDealSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				updateDeal(ctx.organization.id, input),
+			);
+		}),
+
+	// Drag and drop on the board: change stage and/or position
+	moveDeal: protectedOrganizationProcedure
+		.input(moveDealSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withPipelineErrors(() =>
+				moveDeal(ctx.organization.id, input, ctx.user.id),
+			);
+		}),
+
+	deleteDeal: protectedOrganizationProcedure
+		.input(dealIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withPipelineErrors(() => deleteDeal(ctx.organization.id, input.id));
+
+			return { success: true };
+		}),
+});
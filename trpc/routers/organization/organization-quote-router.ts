@@ -0,0 +1,166 @@
+import { TRPCError } from "@trpc/server";
+import { and, count, desc, eq, inArray, type SQL, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { QuoteStatus } from "@/lib/db/schema/enums";
+import { contactTable, quoteTable } from "@/lib/db/schema/tables";
+import { QuoteError } from "@/lib/ember/quotes/errors";
+import {
+	createQuote,
+	getQuotePublicUrl,
+	sendQuote,
+} from "@/lib/ember/quotes/quotes";
+import {
+	createQuoteSchema,
+	listQuotesSchema,
+	quoteIdSchema,
+} from "@/schemas/quote.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Run a quote operation, turning quote errors into tRPC errors
+ */
+async function withQuoteErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof QuoteError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+async function findQuote(id: string, organizationId: string) {
+	const quote = await db.query.quoteTable.findFirst({
+		where: and(
+			eq(quoteTable.id, id),
+			eq(quoteTable.organizationId, organizationId),
+		),
+		with: {
+			items: {
+				orderBy: (item, { asc }) => [asc(item.position)],
+			},
+		},
+	});
+
+	if (!quote) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Quote not found",
+		});
+	}
+
+	return quote;
+}
+
+export const organizationQuoteRouter = createTRPCRouter({
+	// List quotes, newest first
+	list: protectedOrganizationProcedure
+		.input(listQuotesSchema)
+		.query(async ({ ctx, input }) => {
+			const conditions: SQL[] = [
+				eq(quoteTable.organizationId, ctx.organization.id),
+			];
+
+			if (input.contactId) {
+				conditions.push(eq(quoteTable.contactId, input.contactId));
+			}
+
+			if (input.status && input.status.length > 0) {
+				conditions.push(inArray(quoteTable.status, input.status));
+			}
+
+			const whereCondition = and(...conditions);
+
+			const [quotes, [total]] = await Promise.all([
+				db
+					.select({
+						id: quoteTable.id,
+						number: quoteTable.number,
+						status: quoteTable.status,
+						currency: quoteTable.currency,
+						total: quoteTable.total,
+						validUntil: quoteTable.validUntil,
+						sentAt: quoteTable.sentAt,
+						respondedAt: quoteTable.respondedAt,
+						createdAt: quoteTable.createdAt,
+						contactId: quoteTable.contactId,
+						contactName: sql<string>`trim(${contactTable.firstName} || ' ' || ${contactTable.lastName})`,
+					})
+					.from(quoteTable)
+					.innerJoin(contactTable, eq(quoteTable.contactId, contactTable.id))
+					.where(whereCondition)
+					.orderBy(desc(quoteTable.createdAt))
+					.limit(input.limit)
+					.offset(input.offset),
+				db.select({ count: count() }).from(quoteTable).where(whereCondition),
+			]);
+
+			return { quotes, total: total?.count ?? 0 };
+		}),
+
+	// Quote with its items and public link
+	get: protectedOrganizationProcedure
+		.input(quoteIdSchema)
+		.query(async ({ ctx, input }) => {
+			const quote = await findQuote(input.id, ctx.organization.id);
+
+			return {
+				...quote,
+				publicUrl:
+					quote.status === QuoteStatus.draft
+						? null
+						: getQuotePublicUrl(quote.publicToken),
+			};
+		}),
+
+	// Create a quote priced from the inventory, optionally sending it right away
+	create: protectedOrganizationProcedure
+		.input(createQuoteSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withQuoteErrors(async () => {
+				const quote = await createQuote({
+					organizationId: ctx.organization.id,
+					contactId: input.contactId,
+					conversationId: input.conversationId,
+					items: input.items,
+					notes: input.notes,
+					validUntil: input.validUntil,
+					createdById: ctx.user.id,
+				});
+
+				if (!input.send) {
+					return quote;
+				}
+
+				return await sendQuote(quote.id, ctx.organization.id);
+			});
+		}),
+
+	// Render, store and share a draft quote
+	send: protectedOrganizationProcedure
+		.input(quoteIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withQuoteErrors(() =>
+				sendQuote(input.id, ctx.organization.id),
+			);
+		}),
+
+	// Delete a draft; sent quotes are kept as a record of the offer
+	delete: protectedOrganizationProcedure
+		.input(quoteIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			const quote = await findQuote(input.id, ctx.organization.id);
+
+			if (quote.status !== QuoteStatus.draft) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "Only draft quotes can be deleted",
+				});
+			}
+
+			await db.delete(quoteTable).where(eq(quoteTable.id, quote.id));
+
+			return { success: true };
+		}),
+});
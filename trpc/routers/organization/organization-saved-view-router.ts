@@ -0,0 +1,90 @@
+import { TRPCError } from "@trpc/server";
+import { CustomFieldError } from "@/lib/custom-fields/errors";
+import { MemberRole } from "@/lib/db/schema/enums";
+import { FilterError } from "@/lib/filters/errors";
+import { SavedViewError } from "@/lib/saved-views/errors";
+import type { SavedViewMember } from "@/lib/saved-views/types";
+import {
+	createSavedView,
+	deleteSavedView,
+	listSavedViews,
+	updateSavedView,
+} from "@/lib/saved-views/views";
+import {
+	createSavedViewSchema,
+	listSavedViewsSchema,
+	savedViewIdSchema,
+	updateSavedViewSchema,
+} from "@/schemas/saved-view.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Every member saves views, admins also manage the shared views of others
+ */
+const savedViewProcedure = protectedOrganizationProcedure.use(
+	async ({ ctx, next }) => {
+		const member: SavedViewMember = {
+			userId: ctx.user.id,
+			isAdmin:
+				ctx.membership.role === MemberRole.owner ||
+				ctx.membership.role === MemberRole.admin,
+		};
+		return next({ ctx: { member } });
+	},
+);
+
+/**
+ * Run a saved view operation, turning view and filter errors into tRPC errors
+ */
+async function withSavedViewErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (
+			error instanceof SavedViewError ||
+			error instanceof FilterError ||
+			error instanceof CustomFieldError
+		) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationSavedViewRouter = createTRPCRouter({
+	// Shared views and the member's own views
+	list: savedViewProcedure
+		.input(listSavedViewsSchema)
+		.query(async ({ ctx, input }) => {
+			return await listSavedViews(
+				ctx.organization.id,
+				ctx.member,
+				input.entity,
+			);
+		}),
+
+	create: savedViewProcedure
+		.input(createSavedViewSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withSavedViewErrors(() =>
+				createSavedView(ctx.organization.id, ctx.member, input),
+			);
+		}),
+
+	update: savedViewProcedure
+		.input(updateSavedViewSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withSavedViewErrors(() =>
+				updateSavedView(ctx.organization.id, ctx.member, input),
+			);
+		}),
+
+	delete: savedViewProcedure
+		.input(savedViewIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withSavedViewErrors(() =>
+				deleteSavedView(ctx.organization.id, ctx.member, input.id),
+			);
+			return { success: true };
+		}),
+});
@@ -0,0 +1,87 @@
+import { TRPCError } from "@trpc/server";
+import { MemberRole } from "@/lib/db/schema/enums";
+import { TagError } from "@/lib/ember/memoria/errors";
+import {
+	createTag,
+	deleteTag,
+	listTags,
+	mergeTags,
+	updateTag,
+} from "@/lib/ember/memoria/tags";
+import {
+	createTagSchema,
+	mergeTagsSchema,
+	tagIdSchema,
+	updateTagSchema,
+} from "@/schemas/tag.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Renaming, merging and deleting tags changes every contact using them, only
+ * organization admins manage tags
+ */
+const organizationAdminProcedure = protectedOrganizationProcedure.use(
+	async ({ ctx, next }) => {
+		if (
+			ctx.membership.role !== MemberRole.owner &&
+			ctx.membership.role !== MemberRole.admin
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Only organization admins can manage tags",
+			});
+		}
+		return next();
+	},
+);
+
+/**
+ * Run a tag operation, turning tag errors into tRPC errors
+ */
+async function withTagErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof TagError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationTagRouter = createTRPCRouter({
+	// Tags with their usage counts, every member tags contacts
+	list: protectedOrganizationProcedure.query(async ({ ctx }) => {
+		return await listTags(ctx.organization.id);
+	}),
+
+	create: organizationAdminProcedure
+		.input(createTagSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withTagErrors(() => createTag(ctx.organization.id, input));
+		}),
+
+	update: organizationAdminProcedure
+		.input(updateTagSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withTagErrors(() => updateTag(ctx.organization.id, input));
+
+			return { success: true };
+		}),
+
+	merge: organizationAdminProcedure
+		.input(mergeTagsSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withTagErrors(() => mergeTags(ctx.organization.id, input));
+
+			return { success: true };
+		}),
+
+	delete: organizationAdminProcedure
+		.input(tagIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withTagErrors(() => deleteTag(ctx.organization.id, input.id));
+
+			return { success: true };
+		}),
+});
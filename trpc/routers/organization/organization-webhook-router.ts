@@ -0,0 +1,123 @@
+import { TRPCError } from "@trpc/server";
+import { MemberRole } from "@/lib/db/schema/enums";
+import {
+	listWebhookDeliveries,
+	replayWebhookDelivery,
+	sendTestWebhook,
+} from "@/lib/webhooks/delivery";
+import {
+	createWebhookEndpoint,
+	deleteWebhookEndpoint,
+	listWebhookEndpoints,
+	rotateWebhookSecret,
+	updateWebhookEndpoint,
+} from "@/lib/webhooks/endpoints";
+import { WebhookError } from "@/lib/webhooks/errors";
+import {
+	createWebhookEndpointSchema,
+	listWebhookDeliveriesSchema,
+	testWebhookEndpointSchema,
+	updateWebhookEndpointSchema,
+	webhookDeliveryIdSchema,
+	webhookEndpointIdSchema,
+} from "@/schemas/webhook.schema";
+import { createTRPCRouter, protectedOrganizationProcedure } from "@/trpc/init";
+
+/**
+ * Only organization admins manage webhooks
+ */
+const organizationAdminProcedure = protectedOrganizationProcedure.use(
+	async ({ ctx, next }) => {
+		if (
+			ctx.membership.role !== MemberRole.owner &&
+			ctx.membership.role !== MemberRole.admin
+		) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Only organization admins can manage webhooks",
+			});
+		}
+		return next();
+	},
+);
+
+/**
+ * Run a webhook operation, turning webhook errors into tRPC errors
+ */
+async function withWebhookErrors<T>(operation: () => Promise<T>): Promise<T> {
+	try {
+		return await operation();
+	} catch (error) {
+		if (error instanceof WebhookError) {
+			throw new TRPCError({ code: error.code, message: error.message });
+		}
+		throw error;
+	}
+}
+
+export const organizationWebhookRouter = createTRPCRouter({
+	list: organizationAdminProcedure.query(async ({ ctx }) => {
+		return await listWebhookEndpoints(ctx.organization.id);
+	}),
+
+	// The signing secret is only in this response
+	create: organizationAdminProcedure
+		.input(createWebhookEndpointSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withWebhookErrors(() =>
+				createWebhookEndpoint(ctx.organization.id, input, ctx.user.id),
+			);
+		}),
+
+	update: organizationAdminProcedure
+		.input(updateWebhookEndpointSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withWebhookErrors(() =>
+				updateWebhookEndpoint(ctx.organization.id, input),
+			);
+
+			return { success: true };
+		}),
+
+	delete: organizationAdminProcedure
+		.input(webhookEndpointIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await withWebhookErrors(() =>
+				deleteWebhookEndpoint(ctx.organization.id, input.id, ctx.user.id),
+			);
+
+			return { success: true };
+		}),
+
+	// The new signing secret is only in this response
+	rotateSecret: organizationAdminProcedure
+		.input(webhookEndpointIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withWebhookErrors(() =>
+				rotateWebhookSecret(ctx.organization.id, input.id, ctx.user.id),
+			);
+		}),
+
+	// Sent right away, the delivery holds the endpoint response
+	test: organizationAdminProcedure
+		.input(testWebhookEndpointSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withWebhookErrors(() =>
+				sendTestWebhook(ctx.organization.id, input.id, input.eventType),
+			);
+		}),
+
+	deliveries: organizationAdminProcedure
+		.input(listWebhookDeliveriesSchema)
+		.query(async ({ ctx, input }) => {
+			return await listWebhookDeliveries(ctx.organization.id, input);
+		}),
+
+	replay: organizationAdminProcedure
+		.input(webhookDeliveryIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			return await withWebhookErrors(() =>
+				replayWebhookDelivery(ctx.organization.id, input.id),
+			);
+		}),
+});
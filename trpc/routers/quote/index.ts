@@ -0,0 +1,29 @@
+import { TRPCError } from "@trpc/server";
+import { QuoteError } from "@/lib/ember/quotes/errors";
+import { respondToQuote } from "@/lib/ember/quotes/quotes";
+import { respondToQuoteSchema } from "@/schemas/quote.schema";
+import { createTRPCRouter, publicProcedure } from "@/trpc/init";
+
+/**
+ * Public quote actions, authorized by the quote's unguessable token
+ */
+export const quoteRouter = createTRPCRouter({
+	respond: publicProcedure
+		.input(respondToQuoteSchema)
+		.mutation(async ({ input }) => {
+			try {
+				const quote = await respondToQuote(
+					input.token,
+					input.decision,
+					input.reason,
+				);
+
+				return { status: quote.status, respondedAt: quote.respondedAt };
+			} catch (error) {
+				if (error instanceof QuoteError) {
+					throw new TRPCError({ code: error.code, message: error.message });
+				}
+				throw error;
+			}
+		}),
+});